@@ -0,0 +1,224 @@
+/**
+ * HTTP transport under the generated client: account routing, auth, JSON,
+ * binary and multipart requests. Errors from the daemon reject with
+ * DaemonApiError carrying its `{ error }` message.
+ */
+import * as http from 'http';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+export const DEFAULT_BASE_URL = 'http://localhost:7777';
+/** Served at the root routes; other accounts live under `/accounts/:accountId` */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export interface ClientOptions {
+  /** Default `http://localhost:7777` */
+  baseUrl?: string;
+  /** API token, sent as a bearer token */
+  authToken?: string;
+  /** Daemon account; default `default` */
+  accountId?: string;
+  /** Milliseconds before a JSON or binary request gives up; default 15s. Multipart uploads have none. */
+  timeout?: number;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export interface CallOptions extends RequestOptions {
+  query?: object;
+  /** JSON body */
+  body?: unknown;
+  /** Raw body, sent as application/octet-stream */
+  raw?: Buffer;
+  /** The route is only served at the root, whatever the account */
+  root?: boolean;
+}
+
+export interface BinaryResponse {
+  status: number;
+  buffer: Buffer;
+  /** Without parameters, e.g. `image/jpeg` */
+  contentType: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+/** A file on disk, streamed as a multipart `file` part */
+export interface FileUpload {
+  path: string;
+  /** Default the path's base name */
+  fileName?: string;
+  mimeType?: string;
+}
+
+export class DaemonApiError extends Error {
+  constructor(readonly status: number, message: string, readonly body?: unknown) {
+    super(message);
+    this.name = 'DaemonApiError';
+  }
+}
+
+function errorFor(response: BinaryResponse): DaemonApiError {
+  const text = response.buffer.toString();
+  let body: unknown = text;
+  try { body = JSON.parse(text); } catch { /* not JSON */ }
+  const message = (body as { error?: string } | null)?.error || `HTTP ${response.status}`;
+  return new DaemonApiError(response.status, message, body);
+}
+
+export class DaemonTransport {
+  baseUrl: string;
+  authToken?: string;
+  accountId: string;
+  timeout: number;
+
+  constructor(options: ClientOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_BASE_URL;
+    this.authToken = options.authToken;
+    this.accountId = options.accountId || DEFAULT_ACCOUNT_ID;
+    this.timeout = options.timeout ?? 15_000;
+  }
+
+  /** Absolute URL of a route for the current account; unset query values are left out. */
+  url(routePath: string, query?: object, root = false): string {
+    const prefix = root || this.accountId === DEFAULT_ACCOUNT_ID ? '' : `/accounts/${encodeURIComponent(this.accountId)}`;
+    const url = new URL(prefix + routePath, this.baseUrl);
+    for (const [name, value] of Object.entries(query || {})) {
+      if (value !== undefined && value !== null) url.searchParams.set(name, String(value));
+    }
+    return url.toString();
+  }
+
+  /** WebSocket URL of a route for the current account */
+  wsUrl(routePath: string, query?: object): string {
+    return this.url(routePath, query).replace(/^http/, 'ws');
+  }
+
+  protected async requestJson<T>(method: string, routePath: string, options: CallOptions = {}): Promise<T> {
+    const response = await this.send(method, routePath, options);
+    if (response.status >= 400) throw errorFor(response);
+    const text = response.buffer.toString();
+    if (!response.contentType.includes('json')) return text as T;
+    return JSON.parse(text) as T;
+  }
+
+  /** Resolves null on 404, so "no photo" and "no media" need no error handling. */
+  protected async requestBinary(method: string, routePath: string, options: CallOptions = {}): Promise<BinaryResponse | null> {
+    const response = await this.send(method, routePath, options);
+    if (response.status === 404) return null;
+    if (response.status >= 400) throw errorFor(response);
+    return response;
+  }
+
+  /**
+   * POST files from disk as multipart/form-data, streamed rather than read
+   * into memory. Fields that aren't strings are sent as JSON. No timeout:
+   * big files take as long as they take.
+   */
+  protected async requestMultipart<T>(
+    routePath: string,
+    files: FileUpload[],
+    fields: object = {},
+    options: RequestOptions & { root?: boolean } = {},
+  ): Promise<T> {
+    const boundary = `----oceangram${crypto.randomBytes(12).toString('hex')}`;
+    const quote = (value: string) => value.replace(/["\r\n]/g, (c) => encodeURIComponent(c));
+    let fieldHead = '';
+    for (const [name, value] of Object.entries(fields)) {
+      if (value === undefined || value === null) continue;
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      fieldHead += `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${text}\r\n`;
+    }
+    const parts = await Promise.all(files.map(async (file) => {
+      const fileName = file.fileName || path.basename(file.path);
+      const head = `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${quote(fileName)}"; filename*=UTF-8''${encodeURIComponent(fileName)}\r\n`
+        + `Content-Type: ${file.mimeType || 'application/octet-stream'}\r\n\r\n`;
+      return { path: file.path, head: Buffer.from(head), size: (await fs.promises.stat(file.path)).size };
+    }));
+    const preamble = Buffer.from(fieldHead);
+    const closing = Buffer.from(`--${boundary}--\r\n`);
+    const newline = Buffer.from('\r\n');
+    const length = preamble.length + closing.length + parts.reduce((sum, part) => sum + part.head.length + part.size + newline.length, 0);
+
+    const response = await new Promise<BinaryResponse>((resolve, reject) => {
+      const req = this.open('POST', this.url(routePath, undefined, options.root), {
+        'Content-Type': `multipart/form-data; boundary=${boundary}`,
+        'Content-Length': String(length),
+        ...options.headers,
+      }, resolve, reject);
+      req.write(preamble);
+      const next = (i: number) => {
+        if (i === parts.length) {
+          req.end(closing);
+          return;
+        }
+        req.write(parts[i].head);
+        const stream = fs.createReadStream(parts[i].path);
+        stream.on('error', (err) => { req.destroy(); reject(err); });
+        stream.on('end', () => {
+          req.write(newline);
+          next(i + 1);
+        });
+        stream.pipe(req, { end: false });
+      };
+      next(0);
+    });
+    if (response.status >= 400) throw errorFor(response);
+    return JSON.parse(response.buffer.toString()) as T;
+  }
+
+  private send(method: string, routePath: string, options: CallOptions): Promise<BinaryResponse> {
+    return new Promise((resolve, reject) => {
+      const headers: Record<string, string> = { ...options.headers };
+      let payload: Buffer | undefined;
+      if (options.raw) {
+        payload = options.raw;
+        headers['Content-Type'] = 'application/octet-stream';
+      } else if (options.body !== undefined) {
+        payload = Buffer.from(JSON.stringify(options.body));
+        headers['Content-Type'] = 'application/json';
+      }
+      const req = this.open(method, this.url(routePath, options.query, options.root), headers, resolve, reject);
+      req.setTimeout(options.timeout ?? this.timeout, () => {
+        req.destroy();
+        reject(new Error('Request timeout'));
+      });
+      req.end(payload);
+    });
+  }
+
+  private open(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    resolve: (response: BinaryResponse) => void,
+    reject: (err: Error) => void,
+  ): http.ClientRequest {
+    const target = new URL(url);
+    const req = http.request({
+      method,
+      hostname: target.hostname,
+      port: target.port,
+      path: target.pathname + target.search,
+      headers: {
+        ...headers,
+        ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {}),
+      },
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({
+        status: res.statusCode || 0,
+        buffer: Buffer.concat(chunks),
+        contentType: (res.headers['content-type'] || 'application/octet-stream').split(';')[0].trim(),
+        headers: res.headers,
+      }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    return req;
+  }
+}
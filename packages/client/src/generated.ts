@@ -0,0 +1,2728 @@
+// Generated by packages/daemon/scripts/generate-client.ts from the daemon's OpenAPI document.
+// Do not edit; change packages/daemon/src/schemas.ts and re-run the generator.
+/* eslint-disable */
+import { BinaryResponse, DaemonTransport, FileUpload, RequestOptions } from './core';
+
+export const API_VERSION = '1.0.0';
+
+export interface Ok {
+  ok: true;
+}
+
+export interface ErrorResponse {
+  error: string;
+  statusCode?: number;
+  /** Set on 503 when the account needs to log in */
+  loginUrl?: string;
+}
+
+export interface MessageEntity {
+  type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+  /** UTF-16 code units, like JavaScript strings */
+  offset: number;
+  length: number;
+  /** text_link target */
+  url?: string;
+  /** pre block language */
+  language?: string;
+  /** mention_name target */
+  userId?: string;
+  /** custom_emoji document id */
+  customEmojiId?: string;
+  /** blockquote shown collapsed */
+  collapsed?: boolean;
+}
+
+export interface DialogInfo {
+  /** Chat id, or `chatId:topicId` for a forum topic */
+  id: string;
+  chatId: string;
+  topicId?: number;
+  name: string;
+  lastMessage: string;
+  lastMessageTime: number;
+  lastMessageOutgoing?: boolean;
+  lastOutgoingTime?: number;
+  unreadCount: number;
+  isForum: boolean;
+  groupName?: string;
+  topicName?: string;
+  hasPhoto?: boolean;
+  type?: 'user' | 'group' | 'supergroup' | 'channel';
+}
+
+export interface DialogDetails {
+  id: string;
+  name: string;
+  type: 'user' | 'group' | 'supergroup' | 'channel';
+  /** Bio of a user, description of a group or channel */
+  about?: string;
+  memberCount?: number;
+  username?: string;
+  isForum?: boolean;
+  isVerified?: boolean;
+}
+
+export interface MessageInfo {
+  id: number;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  isOutgoing: boolean;
+  mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact';
+  mediaWidth?: number;
+  mediaHeight?: number;
+  mediaDuration?: number;
+  mediaMimeType?: string;
+  fileName?: string;
+  fileSize?: number;
+  replyToId?: number;
+  forwardFrom?: string;
+  isEdited?: boolean;
+  reactions?: ReactionCount[];
+  entities?: MessageEntity[];
+  linkPreview?: LinkPreview;
+  poll?: PollInfo;
+  geo?: GeoInfo;
+  contact?: ContactInfo;
+  action?: ServiceAction;
+  replyMarkup?: ReplyMarkup;
+  /** Shared by the messages of one album */
+  groupedId?: string;
+}
+
+export interface LinkPreview {
+  url: string;
+  displayUrl?: string;
+  type?: string;
+  siteName?: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  hasPhoto?: boolean;
+}
+
+export interface PollAnswer {
+  text: string;
+  /** Base64 option id, used to vote */
+  option: string;
+  voters?: number;
+  chosen?: boolean;
+  correct?: boolean;
+}
+
+export interface PollInfo {
+  id: string;
+  question: string;
+  answers: PollAnswer[];
+  closed: boolean;
+  quiz: boolean;
+  multipleChoice: boolean;
+  publicVoters: boolean;
+  totalVoters?: number;
+  closeDate?: number;
+  solution?: string;
+}
+
+export interface GeoInfo {
+  lat: number;
+  long: number;
+  accuracyRadius?: number;
+  title?: string;
+  address?: string;
+  livePeriod?: number;
+  heading?: number;
+}
+
+export interface ContactInfo {
+  phoneNumber: string;
+  firstName: string;
+  lastName?: string;
+  userId?: string;
+  vcard?: string;
+}
+
+export interface ServiceAction {
+  /** gramJS action name without the `MessageAction` prefix, e.g. `chatAddUser` */
+  type: string;
+  userIds?: string[];
+  title?: string;
+  messageId?: number;
+  duration?: number;
+  period?: number;
+  text?: string;
+}
+
+export interface KeyboardButton {
+  type: 'text' | 'callback' | 'url' | 'urlAuth' | 'switchInline' | 'game' | 'buy' | 'requestPhone' | 'requestGeoLocation' | 'requestPoll' | 'requestPeer' | 'userProfile' | 'webView' | 'copy';
+  text: string;
+  /** Base64 callback data */
+  data?: string;
+  url?: string;
+  query?: string;
+  samePeer?: boolean;
+  userId?: string;
+  copyText?: string;
+  requiresPassword?: boolean;
+}
+
+export interface ReplyMarkup {
+  type: 'inline' | 'keyboard' | 'hide' | 'forceReply';
+  rows?: KeyboardButton[][];
+  resize?: boolean;
+  singleUse?: boolean;
+  placeholder?: string;
+}
+
+export interface Reaction {
+  emoji?: string;
+  customEmojiId?: string;
+  paid?: boolean;
+}
+
+export interface ReactionCount {
+  emoji: string;
+  customEmojiId?: string;
+  paid?: boolean;
+  count: number;
+  isSelected?: boolean;
+}
+
+export interface ReactionList {
+  count: number;
+  reactors: Array<{
+    peerId: string;
+    name: string;
+    reaction: Reaction;
+    date: number;
+    big?: boolean;
+    unread?: boolean;
+    my?: boolean;
+  }>;
+  nextOffset?: string;
+}
+
+export interface AllowedReactions {
+  mode: 'all' | 'some' | 'none';
+  reactions: Reaction[];
+  allowCustom?: boolean;
+  limit?: number;
+}
+
+export interface PollVoteList {
+  count: number;
+  votes: Array<{
+    peerId: string;
+    name: string;
+    options: string[];
+    date: number;
+  }>;
+  nextOffset?: string;
+}
+
+export interface OutboxEntry {
+  clientMsgId: string;
+  dialogId: string;
+  kind: 'message' | 'file' | 'voice';
+  status: 'queued' | 'failed';
+  /** The send, without file contents */
+  payload: Record<string, unknown>;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Webhook {
+  id: string;
+  url: string;
+  /** Only these event types; transient ones are only sent when listed */
+  eventTypes?: string[];
+  dialogIds?: string[];
+  folderIds?: number[];
+  createdAt: number;
+}
+
+export interface CreatedWebhook {
+  id: string;
+  url: string;
+  eventTypes?: string[];
+  dialogIds?: string[];
+  folderIds?: number[];
+  createdAt: number;
+  /** Signing secret; only returned here */
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  /** Also sent as X-Oceangram-Delivery */
+  id: string;
+  webhookId: string;
+  /** The event, as `/events` sends it */
+  event: Record<string, unknown>;
+  status: 'pending' | 'dead';
+  attempts: number;
+  nextAttemptAt?: number;
+  /** Why the last attempt failed */
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RuleTrigger {
+  /** A forum chat id covers its topics */
+  dialogIds?: string[];
+  folderIds?: number[];
+  senderIds?: string[];
+  /** Regular expression the text must match */
+  pattern?: string;
+  caseSensitive?: boolean;
+  mediaTypes?: Array<'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact' | 'none'>;
+}
+
+export interface RuleConditions {
+  notFromMe?: boolean;
+  timeWindow?: {
+    /** HH:MM */
+    start: string;
+    /** HH:MM; before start runs past midnight */
+    end: string;
+    /** Days of the week, 0 for Sunday */
+    days?: number[];
+    /** IANA time zone; the daemon's own by default */
+    timeZone?: string;
+  };
+  /** Seconds before the rule runs again in the same dialog */
+  cooldown?: number;
+}
+
+export interface RuleAction {
+  type: 'reply' | 'forward' | 'react' | 'markRead' | 'mute' | 'webhook';
+  /** reply */
+  text?: string;
+  /** reply: reply to the message (default) or just send */
+  quote?: boolean;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+  silent?: boolean;
+  /** forward */
+  toDialogId?: string;
+  /** Unicode emoji */
+  emoji?: string;
+  /** Custom emoji document id */
+  customEmojiId?: string;
+  /** mute: seconds; 0 or left out mutes for good */
+  duration?: number;
+  /** webhook: queued for it whatever its filters */
+  webhookId?: string;
+}
+
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: RuleTrigger;
+  conditions: RuleConditions;
+  actions: RuleAction[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RuleRun {
+  id: number;
+  ruleId: string;
+  dialogId: string;
+  messageId: number;
+  /** `failed` when any action failed; the others still ran */
+  status: 'ok' | 'failed';
+  actions: Array<{
+    type: string;
+    ok: boolean;
+    error?: string;
+  }>;
+  createdAt: number;
+}
+
+export interface RuleTestResult {
+  /** Cached messages looked at */
+  scanned: number;
+  matches: Array<{
+    dialogId: string;
+    message: MessageInfo;
+    actions: RuleAction[];
+  }>;
+}
+
+export interface Schedule {
+  id: string;
+  name?: string;
+  /** Chat id; `chatId:topicId` for a forum topic */
+  dialogId: string;
+  text: string;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+  /** Send without notification */
+  silent?: boolean;
+  /** minute hour day month weekday, or @daily etc.; not with whenOnline */
+  cron?: string;
+  /** IANA time zone the cron expression is read in; the daemon's own by default */
+  timeZone?: string;
+  /** Send once, when the user of this private chat next comes online */
+  whenOnline?: boolean;
+  /** Runs missed while the daemon was stopped: drop them (default), send one, or send each */
+  missed: 'skip' | 'once' | 'all';
+  /** `done` once a whenOnline message is sent */
+  status: 'active' | 'paused' | 'done';
+  nextRunAt?: number;
+  lastRunAt?: number;
+  /** Why the last run failed */
+  lastError?: string;
+  runCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface UploadSession {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  mimeType?: string;
+  partSize: number;
+  parts: number;
+  received: number[];
+  complete: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface BackfillJob {
+  dialogId: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  oldestId: number | null;
+  fetched: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface QrLoginState {
+  status: 'idle' | 'pending' | 'need2FA' | 'done' | 'error';
+  /** `tg://login?token=…`, to show as a QR code */
+  url?: string;
+  expires?: number;
+  hint?: string;
+  error?: string;
+}
+
+export interface LocalSearchResult {
+  dialogId: string;
+  dialogName?: string;
+  message: MessageInfo;
+  /** HTML-escaped, matches wrapped in `<mark>` */
+  snippet: string;
+}
+
+export interface RetentionRules {
+  dialogIds: string[];
+  folderIds: number[];
+}
+
+export interface MessageRevision {
+  /** 1 for the original text */
+  version: number;
+  message: MessageInfo;
+  replacedAt: number;
+}
+
+export interface DeletedMessage {
+  dialogId: string;
+  message: MessageInfo;
+  deletedAt: number;
+}
+
+export interface Account {
+  id: string;
+  name?: string;
+  connected: boolean;
+}
+
+export interface LaneStats {
+  queued: number;
+  /** Time requests waited to be sent, over the last 100 */
+  avgWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface SchedulerStats {
+  inFlight: number;
+  /** Requests answered by an identical one already on its way */
+  coalesced: number;
+  /** FLOOD_WAIT errors Telegram returned */
+  floodWaits: number;
+  /** Sends go first, background work (backfill, cache refreshes) last */
+  lanes: {
+    interactive: LaneStats;
+    normal: LaneStats;
+    background: LaneStats;
+  };
+  /** Methods on hold, with the Unix second their FLOOD_WAIT ends */
+  floodWaitUntil: Record<string, number>;
+}
+
+export interface AccountHealth {
+  id: string;
+  name?: string;
+  connected: boolean;
+  scheduler: SchedulerStats;
+}
+
+export interface Member {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  role: string;
+  joinDate: number;
+}
+
+export interface InviteLink {
+  link: string;
+  expireDate?: number;
+  usageLimit?: number;
+  usage?: number;
+  title?: string;
+  revoked?: boolean;
+}
+
+export interface PeerSummary {
+  id: string;
+  name: string;
+  username?: string;
+  type?: string;
+}
+
+export interface GetHealthResponse {
+  status: string;
+  connected: boolean;
+  uptime: number;
+  accounts: AccountHealth[];
+}
+
+export type GetOpenApiResponse = Record<string, unknown>;
+
+export type ListAccountsResponse = Account[];
+
+export interface AddAccountBody {
+  /** Lowercase letters, digits, `_` and `-` */
+  id: string;
+  name?: string;
+}
+
+export interface AddAccountResponse {
+  ok: boolean;
+  id: string;
+  loginUrl: string;
+}
+
+export type RemoveAccountResponse = Ok;
+
+export interface StartLoginBody {
+  phone: string;
+}
+
+export interface StartLoginResponse {
+  ok: boolean;
+  phoneCodeHash: string;
+}
+
+export interface CompleteLoginBody {
+  phone: string;
+  code: string;
+  phoneCodeHash: string;
+}
+
+export interface CompleteLoginResponse {
+  ok: boolean;
+  need2FA?: boolean;
+  hint?: string;
+}
+
+export interface Complete2FABody {
+  password: string;
+}
+
+export type Complete2FAResponse = Ok;
+
+export type StartQrLoginResponse = QrLoginState;
+
+export type GetQrLoginStateResponse = QrLoginState;
+
+export type LogoutResponse = Ok;
+
+export interface GetMeResponse {
+  id?: string;
+  firstName?: string;
+  lastName?: string;
+  username?: string;
+  phone?: string;
+}
+
+export interface GetDialogsQuery {
+  /** At most 500; default 100 */
+  limit?: number;
+}
+
+export type GetDialogsResponse = DialogInfo[];
+
+export type GetDialogInfoResponse = DialogDetails;
+
+export interface EditDialogBody {
+  title?: string;
+  about?: string;
+}
+
+export type EditDialogResponse = Ok;
+
+export interface SetDialogPhotoBody {
+  /** File contents, base64 */
+  data?: string;
+  /** A completed chunked upload */
+  uploadId?: string;
+}
+
+export type SetDialogPhotoResponse = Ok;
+
+export type SetDialogPhotoFields = Record<string, never>;
+
+export type SendTypingResponse = Ok;
+
+export interface ReadDialogBody {
+  /** Latest message read; all of them when left out */
+  maxId?: number;
+}
+
+export type ReadDialogResponse = Ok;
+
+export type MarkAllAsReadResponse = Ok;
+
+export type ArchiveDialogResponse = Ok;
+
+export type UnarchiveDialogResponse = Ok;
+
+export interface MuteDialogBody {
+  /** Seconds; forever when left out, 0 unmutes */
+  duration?: number;
+}
+
+export type MuteDialogResponse = Ok;
+
+export type LeaveDialogResponse = Ok;
+
+export type DeleteDialogHistoryResponse = Ok;
+
+export interface GetDraftResponse {
+  text: string | null;
+  replyTo?: number;
+  date?: number;
+}
+
+export interface SaveDraftBody {
+  text: string;
+  replyTo?: number;
+}
+
+export type SaveDraftResponse = Ok;
+
+export type ClearDraftResponse = Ok;
+
+export interface GetSavedMessagesQuery {
+  /** At most 100 */
+  limit?: number;
+  /** Messages older than this id */
+  offsetId?: number;
+}
+
+export type GetSavedMessagesResponse = MessageInfo[];
+
+export interface GetMessagesQuery {
+  /** At most 100; default 20 */
+  limit?: number;
+  /** Messages older than this id */
+  offsetId?: number;
+}
+
+export type GetMessagesResponse = MessageInfo[];
+
+export interface SendMessageBody {
+  text: string;
+  replyTo?: number;
+  /** Unix seconds to post it at */
+  scheduleDate?: number;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+  /** Send without notification */
+  silent?: boolean;
+  /** Channel or group to send as */
+  sendAs?: string;
+  /** Forum topic to send to */
+  topMsgId?: number;
+  /** Part of the replied-to message to quote; needs replyTo */
+  quoteText?: string;
+}
+
+export type SendMessageResponse = MessageInfo | OutboxEntry;
+
+export interface GetSharedMediaQuery {
+  type: 'photo' | 'video' | 'file' | 'link';
+  /** At most 100; default 20 */
+  limit?: number;
+  /** Messages older than this id */
+  offsetId?: number;
+}
+
+export type GetSharedMediaResponse = MessageInfo[];
+
+export interface SearchDialogMessagesQuery {
+  q: string;
+  limit?: number;
+}
+
+export type SearchDialogMessagesResponse = MessageInfo[];
+
+export type GetScheduledMessagesResponse = MessageInfo[];
+
+export type GetPinnedMessagesResponse = MessageInfo[];
+
+export interface GetMessageQuery {
+  dialogId: string;
+}
+
+export type GetMessageResponse = MessageInfo;
+
+export interface EditMessageBody {
+  dialogId: string;
+  text: string;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+}
+
+export type EditMessageResponse = Ok;
+
+export interface DeleteMessageBody {
+  dialogId: string;
+}
+
+export type DeleteMessageResponse = Ok;
+
+export interface MarkReadBody {
+  dialogId: string;
+}
+
+export type MarkReadResponse = Ok;
+
+export interface ForwardMessagesBody {
+  fromDialogId: string;
+  toDialogId: string;
+  /** Forward these instead of the one in the path */
+  messageIds?: number[];
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export interface ForwardMessagesResponse {
+  ok: boolean;
+  messages: MessageInfo[];
+}
+
+export interface PinMessageBody {
+  dialogId: string;
+  silent?: boolean;
+}
+
+export type PinMessageResponse = Ok;
+
+export interface UnpinMessageBody {
+  dialogId: string;
+}
+
+export type UnpinMessageResponse = Ok;
+
+export interface AddReactionBody {
+  dialogId: string;
+  /** Unicode emoji */
+  emoji?: string;
+  /** Custom emoji document id */
+  customEmojiId?: string;
+  big?: boolean;
+}
+
+export interface AddReactionResponse {
+  ok: boolean;
+  reactions: ReactionCount[];
+}
+
+export interface RemoveReactionBody {
+  dialogId: string;
+  /** Unicode emoji */
+  emoji?: string;
+  /** Custom emoji document id */
+  customEmojiId?: string;
+}
+
+export interface RemoveReactionResponse {
+  ok: boolean;
+  reactions: ReactionCount[];
+}
+
+export interface SetReactionsBody {
+  dialogId: string;
+  reactions: Array<{
+    /** Unicode emoji */
+    emoji?: string;
+    /** Custom emoji document id */
+    customEmojiId?: string;
+  }>;
+  big?: boolean;
+}
+
+export interface SetReactionsResponse {
+  ok: boolean;
+  reactions: ReactionCount[];
+}
+
+export interface GetReactionListQuery {
+  dialogId: string;
+  /** Unicode emoji */
+  emoji?: string;
+  /** Custom emoji document id */
+  customEmojiId?: string;
+  offset?: string;
+  limit?: number;
+}
+
+export type GetReactionListResponse = ReactionList;
+
+export type GetAllowedReactionsResponse = AllowedReactions;
+
+export interface SendPollBody {
+  question: string;
+  answers: string[];
+  quiz?: boolean;
+  /** Index of the right answer; quizzes only */
+  correctAnswer?: number;
+  multipleChoice?: boolean;
+  publicVoters?: boolean;
+  /** Seconds until it closes */
+  closePeriod?: number;
+  /** Unix seconds when it closes */
+  closeDate?: number;
+  /** Quiz explanation */
+  solution?: string;
+  replyTo?: number;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export type SendPollResponse = MessageInfo;
+
+export interface VotePollBody {
+  dialogId: string;
+  /** Base64 options from `PollAnswer.option` */
+  options: string[];
+}
+
+export interface VotePollResponse {
+  ok: boolean;
+  poll: PollInfo;
+}
+
+export interface RetractPollVoteBody {
+  dialogId: string;
+}
+
+export interface RetractPollVoteResponse {
+  ok: boolean;
+  poll: PollInfo;
+}
+
+export interface ClosePollBody {
+  dialogId: string;
+}
+
+export interface ClosePollResponse {
+  ok: boolean;
+  poll: PollInfo;
+}
+
+export interface GetPollVotesQuery {
+  dialogId: string;
+  /** Only votes for this base64 option */
+  option?: string;
+  offset?: string;
+  limit?: number;
+}
+
+export type GetPollVotesResponse = PollVoteList;
+
+export interface SendFileBody {
+  /** File contents, base64 */
+  data?: string;
+  /** A completed chunked upload */
+  uploadId?: string;
+  fileName?: string;
+  mimeType?: string;
+  caption?: string;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export type SendFileResponse = MessageInfo | OutboxEntry;
+
+export interface SendFileFields {
+  fileName?: string;
+  mimeType?: string;
+  caption?: string;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export interface SendVoiceBody {
+  /** File contents, base64 */
+  data?: string;
+  /** A completed chunked upload */
+  uploadId?: string;
+  /** Seconds */
+  duration?: number;
+  /** Values 0-31 */
+  waveform?: number[];
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export type SendVoiceResponse = MessageInfo | OutboxEntry;
+
+export interface SendVoiceFields {
+  /** Seconds */
+  duration?: number;
+  /** JSON array of values 0-31 */
+  waveform?: string;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export interface SendAlbumBody {
+  items: Array<{
+    /** File contents, base64 */
+    data?: string;
+    /** A completed chunked upload */
+    uploadId?: string;
+    fileName?: string;
+    mimeType?: string;
+    caption?: string;
+  }>;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export type SendAlbumResponse = MessageInfo[];
+
+export interface SendAlbumFields {
+  /** JSON array with a caption per file */
+  captions?: string;
+  /** Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header */
+  clientMsgId?: string;
+}
+
+export interface CreateUploadBody {
+  fileName: string;
+  /** Bytes */
+  size: number;
+  mimeType?: string;
+  /** Bytes per part; default 1 MiB */
+  partSize?: number;
+}
+
+export type CreateUploadResponse = UploadSession;
+
+export type GetUploadResponse = UploadSession;
+
+export type DeleteUploadResponse = Ok;
+
+export type PutUploadPartResponse = UploadSession;
+
+export interface GetMediaTokenQuery {
+  dialogId: string;
+}
+
+export interface GetMediaTokenResponse {
+  token: string;
+  /** Unix time */
+  expiresAt: number;
+}
+
+export interface GetMediaQuery {
+  dialogId: string;
+  thumb?: 'small' | 'medium' | 'large';
+  /** Media token for this file, for <img> and <video> */
+  token?: string;
+}
+
+export type GetOutboxResponse = OutboxEntry[];
+
+export type RetryOutboxItemResponse = OutboxEntry;
+
+export type RemoveOutboxItemResponse = Ok;
+
+export interface SearchGlobalQuery {
+  q: string;
+  limit?: number;
+  offsetId?: number;
+  offsetPeer?: string;
+}
+
+export interface SearchGlobalResponse {
+  messages: Array<{
+    id: number;
+    dialogId: string;
+    dialogName: string;
+    senderName: string;
+    text: string;
+    date: number;
+  }>;
+  count: number;
+  nextOffsetId?: number;
+  nextOffsetPeer?: string;
+}
+
+export interface SearchLocalQuery {
+  /** Words are ANDed; `"quoted text"` is a phrase; `word*` is a prefix */
+  q: string;
+  dialogId?: string;
+  senderId?: string;
+  /** Part of the sender's name */
+  sender?: string;
+  /** Unix seconds, inclusive */
+  after?: number;
+  /** Unix seconds, exclusive */
+  before?: number;
+  /** Comma list of media types, or `none` */
+  mediaType?: string;
+  order?: 'date' | 'rank';
+  /** At most 100 */
+  limit?: number;
+  offset?: number;
+}
+
+export type SearchLocalResponse = LocalSearchResult[];
+
+export interface SearchDialogsQuery {
+  q: string;
+  limit?: number;
+}
+
+export interface SearchDialogsResponse {
+  users: PeerSummary[];
+  chats: PeerSummary[];
+}
+
+export interface GetContactsQuery {
+  limit?: number;
+}
+
+export type GetContactsResponse = Array<{
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  phone: string;
+}>;
+
+export interface SearchContactsQuery {
+  q: string;
+  limit?: number;
+}
+
+export interface SearchContactsResponse {
+  users: PeerSummary[];
+  chats: PeerSummary[];
+}
+
+export type GetProfileResponse = Record<string, unknown>;
+
+export type GetFoldersResponse = Array<{
+  id: number;
+  title: string;
+}>;
+
+export interface CreateFolderBody {
+  title: string;
+  includePeerIds?: string[];
+  excludePeerIds?: string[];
+}
+
+export interface CreateFolderResponse {
+  id: number;
+}
+
+export interface UpdateFolderBody {
+  title: string;
+  includePeerIds?: string[];
+  excludePeerIds?: string[];
+}
+
+export type UpdateFolderResponse = Ok;
+
+export type DeleteFolderResponse = Ok;
+
+export interface CreateGroupBody {
+  title: string;
+  userIds?: string[];
+  type: 'group' | 'supergroup' | 'channel';
+}
+
+export type CreateGroupResponse = Record<string, unknown>;
+
+export interface JoinChatBody {
+  link?: string;
+  username?: string;
+}
+
+export interface JoinChatResponse {
+  dialogId: string;
+}
+
+export interface GetMembersQuery {
+  limit?: number;
+  offset?: number;
+  filter?: 'all' | 'admins' | 'kicked' | 'banned' | 'bots';
+  q?: string;
+}
+
+export interface GetMembersResponse {
+  members: Member[];
+  count: number;
+}
+
+export interface AddMembersBody {
+  userIds: string[];
+}
+
+export type AddMembersResponse = Ok;
+
+export interface RemoveMemberBody {
+  /** Also keep them from coming back */
+  ban?: boolean;
+}
+
+export type RemoveMemberResponse = Ok;
+
+export interface SetMemberPermissionsBody {
+  sendMessages?: boolean;
+  sendMedia?: boolean;
+  sendStickers?: boolean;
+  sendGifs?: boolean;
+  sendGames?: boolean;
+  sendInline?: boolean;
+  embedLinks?: boolean;
+  sendPolls?: boolean;
+  changeInfo?: boolean;
+  inviteUsers?: boolean;
+  pinMessages?: boolean;
+  manageTopics?: boolean;
+  /** Unix seconds; forever when left out */
+  untilDate?: number;
+}
+
+export type SetMemberPermissionsResponse = Ok;
+
+export interface BanMemberBody {
+  userId: string;
+  deleteMessages?: boolean;
+}
+
+export type BanMemberResponse = Ok;
+
+export interface UnbanMemberBody {
+  userId: string;
+}
+
+export type UnbanMemberResponse = Ok;
+
+export interface PromoteAdminBody {
+  /** Admin rights by name, e.g. `deleteMessages` */
+  rights: Record<string, boolean>;
+}
+
+export type PromoteAdminResponse = Ok;
+
+export type DemoteAdminResponse = Ok;
+
+export interface GetInviteLinkResponse {
+  link: string;
+}
+
+export interface CreateInviteLinkBody {
+  expireDate?: number;
+  usageLimit?: number;
+  requestNeeded?: boolean;
+  title?: string;
+}
+
+export type CreateInviteLinkResponse = InviteLink;
+
+export interface GetInviteLinksQuery {
+  limit?: number;
+  revoked?: 'true' | 'false';
+}
+
+export type GetInviteLinksResponse = InviteLink[];
+
+export interface RevokeInviteLinkBody {
+  link: string;
+}
+
+export type RevokeInviteLinkResponse = Ok;
+
+export type GetDefaultPermissionsResponse = Record<string, boolean>;
+
+/** Permissions by name, e.g. `sendMessages` */
+export type SetDefaultPermissionsBody = Record<string, boolean>;
+
+export type SetDefaultPermissionsResponse = Ok;
+
+export interface SetSlowModeBody {
+  /** 0 turns it off */
+  seconds: number;
+}
+
+export type SetSlowModeResponse = Ok;
+
+export interface ListTopicsQuery {
+  limit?: number;
+  offsetDate?: number;
+  offsetId?: number;
+}
+
+export interface ListTopicsResponse {
+  topics: Array<{
+    id: number;
+    title: string;
+    iconColor?: number;
+    iconEmojiId?: string;
+    unreadCount: number;
+    lastMessage?: string;
+    date: number;
+    closed: boolean;
+    pinned: boolean;
+  }>;
+}
+
+export interface CreateTopicBody {
+  title: string;
+  iconColor?: number;
+  iconEmojiId?: string;
+  sendAs?: string;
+}
+
+export interface CreateTopicResponse {
+  id: number;
+  title: string;
+}
+
+export interface EditTopicBody {
+  title?: string;
+  iconEmojiId?: string;
+  closed?: boolean;
+  hidden?: boolean;
+}
+
+export type EditTopicResponse = Ok;
+
+export type DeleteTopicResponse = Ok;
+
+export type PinTopicResponse = Ok;
+
+export type UnpinTopicResponse = Ok;
+
+export interface GetInlineResultsBody {
+  botUsername: string;
+  query: string;
+  dialogId: string;
+}
+
+export type GetInlineResultsResponse = Record<string, unknown>;
+
+export interface SendInlineResultBody {
+  botUsername?: string;
+  queryId: string;
+  resultId: string;
+  dialogId: string;
+}
+
+export type SendInlineResultResponse = Record<string, unknown>;
+
+export interface PressBotButtonBody {
+  messageId: number;
+  dialogId: string;
+  /** The button's base64 callback data */
+  data?: string;
+  /** A game button, which carries no data */
+  game?: boolean;
+}
+
+export interface PressBotButtonResponse {
+  message?: string;
+  alert?: boolean;
+  url?: string;
+}
+
+export interface GetBackfillStatusResponse {
+  running: boolean;
+  floodWaitUntil?: number;
+  jobs: BackfillJob[];
+}
+
+export interface QueueBackfillBody {
+  dialogIds?: string[];
+  folderIds?: number[];
+}
+
+export interface QueueBackfillResponse {
+  ok: boolean;
+  jobs: BackfillJob[];
+}
+
+export type CancelBackfillResponse = Ok;
+
+export type GetRetentionRulesResponse = RetentionRules;
+
+export interface SetRetentionRulesBody {
+  dialogIds?: string[];
+  folderIds?: number[];
+}
+
+export type SetRetentionRulesResponse = RetentionRules;
+
+export interface GetMessageRevisionsQuery {
+  dialogId: string;
+}
+
+export interface GetMessageRevisionsResponse {
+  current: MessageInfo | unknown;
+  deletedAt?: number;
+  revisions: MessageRevision[];
+}
+
+export interface GetDeletedMessagesQuery {
+  /** At most 200; default 50 */
+  limit?: number;
+  offset?: number;
+}
+
+export type GetDeletedMessagesResponse = DeletedMessage[];
+
+export interface PurgeRetainedResponse {
+  ok: boolean;
+  removed: number;
+}
+
+export type GetPrivacySettingsResponse = Record<string, 'everybody' | 'contacts' | 'nobody'>;
+
+export interface SetPrivacySettingBody {
+  key: 'lastSeen' | 'phoneNumber' | 'profilePhoto' | 'forwards' | 'calls' | 'groups';
+  value: 'everybody' | 'contacts' | 'nobody';
+}
+
+export type SetPrivacySettingResponse = Ok;
+
+export interface GetAccountSettingsResponse {
+  firstName: string;
+  lastName: string;
+  username: string;
+  bio: string;
+  phone: string;
+}
+
+export interface UpdateProfileBody {
+  firstName?: string;
+  lastName?: string;
+  bio?: string;
+}
+
+export type UpdateProfileResponse = Ok;
+
+export interface UpdateUsernameBody {
+  username: string;
+}
+
+export type UpdateUsernameResponse = Ok;
+
+export interface SetProfilePhotoBody {
+  /** File contents, base64 */
+  data?: string;
+  /** A completed chunked upload */
+  uploadId?: string;
+}
+
+export type SetProfilePhotoResponse = Ok;
+
+export type SetProfilePhotoFields = Record<string, never>;
+
+export type DeleteProfilePhotoResponse = Ok;
+
+export interface Get2FAStatusResponse {
+  enabled: boolean;
+  hasRecoveryEmail: boolean;
+  hint?: string;
+}
+
+export interface Set2FABody {
+  currentPassword?: string;
+  newPassword: string;
+  hint?: string;
+  email?: string;
+}
+
+export type Set2FAResponse = Ok;
+
+export interface Disable2FABody {
+  password: string;
+}
+
+export type Disable2FAResponse = Ok;
+
+export type GetSessionsResponse = Array<{
+  hash: string;
+  deviceModel?: string;
+  platform?: string;
+  systemVersion?: string;
+  apiId?: number;
+  appName?: string;
+  appVersion?: string;
+  dateCreated?: number;
+  dateActive?: number;
+  ip?: string;
+  country?: string;
+  region?: string;
+  current: boolean;
+}>;
+
+export type TerminateOtherSessionsResponse = Ok;
+
+export type TerminateSessionResponse = Ok;
+
+export interface GetBlockedUsersQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export type GetBlockedUsersResponse = Array<{
+  userId: string;
+  date: number;
+}>;
+
+export interface BlockUserBody {
+  userId: string;
+}
+
+export type BlockUserResponse = Ok;
+
+export type UnblockUserResponse = Ok;
+
+export type GetNotificationSettingsResponse = Record<string, {
+  muteUntil: number;
+  sound: string;
+  showPreviews: boolean;
+}>;
+
+export interface UpdateNotificationSettingsBody {
+  scope: 'private' | 'group' | 'channel';
+  muteUntil?: number;
+  sound?: string;
+  showPreviews?: boolean;
+}
+
+export type UpdateNotificationSettingsResponse = Ok;
+
+export type GetAutoDownloadSettingsResponse = Record<string, unknown>;
+
+export interface SaveAutoDownloadSettingsBody {
+  photos: boolean;
+  videos: boolean;
+  files: boolean;
+  maxFileSize?: number;
+}
+
+export type SaveAutoDownloadSettingsResponse = Ok;
+
+export interface EventsQuery {
+  /** Replay events after this seq */
+  since?: number;
+  /** Comma list of dialog ids */
+  dialogs?: string;
+  /** Comma list of event types */
+  types?: string;
+  /** Comma list of folder ids */
+  folders?: string;
+}
+
+export type ListSchedulesResponse = Schedule[];
+
+export interface CreateScheduleBody {
+  name?: string;
+  /** Chat id; `chatId:topicId` for a forum topic */
+  dialogId: string;
+  text: string;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+  /** Send without notification */
+  silent?: boolean;
+  /** minute hour day month weekday, or @daily etc.; not with whenOnline */
+  cron?: string;
+  /** IANA time zone the cron expression is read in; the daemon's own by default */
+  timeZone?: string;
+  /** Send once, when the user of this private chat next comes online */
+  whenOnline?: boolean;
+  /** Runs missed while the daemon was stopped: drop them (default), send one, or send each */
+  missed?: 'skip' | 'once' | 'all';
+}
+
+export type CreateScheduleResponse = Schedule;
+
+export type GetScheduleResponse = Schedule;
+
+export interface UpdateScheduleBody {
+  name?: string;
+  /** Chat id; `chatId:topicId` for a forum topic */
+  dialogId?: string;
+  text?: string;
+  /** How to read formatting in the text. Plain text without it. */
+  parseMode?: 'markdown' | 'html';
+  /** Formatting as entities, instead of parseMode */
+  entities?: Array<{
+    type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+    /** UTF-16 code units, like JavaScript strings */
+    offset: number;
+    length: number;
+    /** text_link target */
+    url?: string;
+    /** pre block language */
+    language?: string;
+    /** mention_name target */
+    userId?: string;
+    /** custom_emoji document id */
+    customEmojiId?: string;
+    /** blockquote shown collapsed */
+    collapsed?: boolean;
+  }>;
+  /** Send without a link preview */
+  noWebpage?: boolean;
+  /** Send without notification */
+  silent?: boolean;
+  /** minute hour day month weekday, or @daily etc.; not with whenOnline */
+  cron?: string;
+  /** IANA time zone the cron expression is read in; the daemon's own by default */
+  timeZone?: string;
+  /** Send once, when the user of this private chat next comes online */
+  whenOnline?: boolean;
+  /** Runs missed while the daemon was stopped: drop them (default), send one, or send each */
+  missed?: 'skip' | 'once' | 'all';
+}
+
+export type UpdateScheduleResponse = Schedule;
+
+export type DeleteScheduleResponse = Ok;
+
+export type PauseScheduleResponse = Schedule;
+
+export type ResumeScheduleResponse = Schedule;
+
+export type ListRulesResponse = Rule[];
+
+export interface CreateRuleBody {
+  name: string;
+  /** Default true */
+  enabled?: boolean;
+  trigger?: {
+    /** A forum chat id covers its topics */
+    dialogIds?: string[];
+    folderIds?: number[];
+    senderIds?: string[];
+    /** Regular expression the text must match */
+    pattern?: string;
+    caseSensitive?: boolean;
+    mediaTypes?: Array<'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact' | 'none'>;
+  };
+  conditions?: {
+    notFromMe?: boolean;
+    timeWindow?: {
+      /** HH:MM */
+      start: string;
+      /** HH:MM; before start runs past midnight */
+      end: string;
+      /** Days of the week, 0 for Sunday */
+      days?: number[];
+      /** IANA time zone; the daemon's own by default */
+      timeZone?: string;
+    };
+    /** Seconds before the rule runs again in the same dialog */
+    cooldown?: number;
+  };
+  actions: Array<{
+    type: 'reply' | 'forward' | 'react' | 'markRead' | 'mute' | 'webhook';
+    /** reply */
+    text?: string;
+    /** reply: reply to the message (default) or just send */
+    quote?: boolean;
+    /** How to read formatting in the text. Plain text without it. */
+    parseMode?: 'markdown' | 'html';
+    /** Formatting as entities, instead of parseMode */
+    entities?: Array<{
+      type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+      /** UTF-16 code units, like JavaScript strings */
+      offset: number;
+      length: number;
+      /** text_link target */
+      url?: string;
+      /** pre block language */
+      language?: string;
+      /** mention_name target */
+      userId?: string;
+      /** custom_emoji document id */
+      customEmojiId?: string;
+      /** blockquote shown collapsed */
+      collapsed?: boolean;
+    }>;
+    /** Send without a link preview */
+    noWebpage?: boolean;
+    silent?: boolean;
+    /** forward */
+    toDialogId?: string;
+    /** Unicode emoji */
+    emoji?: string;
+    /** Custom emoji document id */
+    customEmojiId?: string;
+    /** mute: seconds; 0 or left out mutes for good */
+    duration?: number;
+    /** webhook: queued for it whatever its filters */
+    webhookId?: string;
+  }>;
+}
+
+export type CreateRuleResponse = Rule;
+
+export interface TestRuleSpecBody {
+  rule: {
+    name: string;
+    /** Default true */
+    enabled?: boolean;
+    trigger?: {
+      /** A forum chat id covers its topics */
+      dialogIds?: string[];
+      folderIds?: number[];
+      senderIds?: string[];
+      /** Regular expression the text must match */
+      pattern?: string;
+      caseSensitive?: boolean;
+      mediaTypes?: Array<'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact' | 'none'>;
+    };
+    conditions?: {
+      notFromMe?: boolean;
+      timeWindow?: {
+        /** HH:MM */
+        start: string;
+        /** HH:MM; before start runs past midnight */
+        end: string;
+        /** Days of the week, 0 for Sunday */
+        days?: number[];
+        /** IANA time zone; the daemon's own by default */
+        timeZone?: string;
+      };
+      /** Seconds before the rule runs again in the same dialog */
+      cooldown?: number;
+    };
+    actions: Array<{
+      type: 'reply' | 'forward' | 'react' | 'markRead' | 'mute' | 'webhook';
+      /** reply */
+      text?: string;
+      /** reply: reply to the message (default) or just send */
+      quote?: boolean;
+      /** How to read formatting in the text. Plain text without it. */
+      parseMode?: 'markdown' | 'html';
+      /** Formatting as entities, instead of parseMode */
+      entities?: Array<{
+        type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+        /** UTF-16 code units, like JavaScript strings */
+        offset: number;
+        length: number;
+        /** text_link target */
+        url?: string;
+        /** pre block language */
+        language?: string;
+        /** mention_name target */
+        userId?: string;
+        /** custom_emoji document id */
+        customEmojiId?: string;
+        /** blockquote shown collapsed */
+        collapsed?: boolean;
+      }>;
+      /** Send without a link preview */
+      noWebpage?: boolean;
+      silent?: boolean;
+      /** forward */
+      toDialogId?: string;
+      /** Unicode emoji */
+      emoji?: string;
+      /** Custom emoji document id */
+      customEmojiId?: string;
+      /** mute: seconds; 0 or left out mutes for good */
+      duration?: number;
+      /** webhook: queued for it whatever its filters */
+      webhookId?: string;
+    }>;
+  };
+  /** Only this dialog's messages */
+  dialogId?: string;
+  /** Messages to look at, newest first (default 200, at most 1000) */
+  limit?: number;
+}
+
+export type TestRuleSpecResponse = RuleTestResult;
+
+export interface GetRuleRunsQuery {
+  ruleId?: string;
+  dialogId?: string;
+  limit?: number;
+}
+
+export type GetRuleRunsResponse = RuleRun[];
+
+export type GetRuleResponse = Rule;
+
+export interface UpdateRuleBody {
+  name?: string;
+  /** Default true */
+  enabled?: boolean;
+  trigger?: {
+    /** A forum chat id covers its topics */
+    dialogIds?: string[];
+    folderIds?: number[];
+    senderIds?: string[];
+    /** Regular expression the text must match */
+    pattern?: string;
+    caseSensitive?: boolean;
+    mediaTypes?: Array<'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact' | 'none'>;
+  };
+  conditions?: {
+    notFromMe?: boolean;
+    timeWindow?: {
+      /** HH:MM */
+      start: string;
+      /** HH:MM; before start runs past midnight */
+      end: string;
+      /** Days of the week, 0 for Sunday */
+      days?: number[];
+      /** IANA time zone; the daemon's own by default */
+      timeZone?: string;
+    };
+    /** Seconds before the rule runs again in the same dialog */
+    cooldown?: number;
+  };
+  actions?: Array<{
+    type: 'reply' | 'forward' | 'react' | 'markRead' | 'mute' | 'webhook';
+    /** reply */
+    text?: string;
+    /** reply: reply to the message (default) or just send */
+    quote?: boolean;
+    /** How to read formatting in the text. Plain text without it. */
+    parseMode?: 'markdown' | 'html';
+    /** Formatting as entities, instead of parseMode */
+    entities?: Array<{
+      type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote' | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag' | 'bot_command' | 'bank_card' | 'custom_emoji';
+      /** UTF-16 code units, like JavaScript strings */
+      offset: number;
+      length: number;
+      /** text_link target */
+      url?: string;
+      /** pre block language */
+      language?: string;
+      /** mention_name target */
+      userId?: string;
+      /** custom_emoji document id */
+      customEmojiId?: string;
+      /** blockquote shown collapsed */
+      collapsed?: boolean;
+    }>;
+    /** Send without a link preview */
+    noWebpage?: boolean;
+    silent?: boolean;
+    /** forward */
+    toDialogId?: string;
+    /** Unicode emoji */
+    emoji?: string;
+    /** Custom emoji document id */
+    customEmojiId?: string;
+    /** mute: seconds; 0 or left out mutes for good */
+    duration?: number;
+    /** webhook: queued for it whatever its filters */
+    webhookId?: string;
+  }>;
+}
+
+export type UpdateRuleResponse = Rule;
+
+export type DeleteRuleResponse = Ok;
+
+export interface TestRuleBody {
+  /** Only this dialog's messages */
+  dialogId?: string;
+  /** Messages to look at, newest first (default 200, at most 1000) */
+  limit?: number;
+}
+
+export type TestRuleResponse = RuleTestResult;
+
+export type ListWebhooksResponse = Webhook[];
+
+export interface CreateWebhookBody {
+  /** http or https URL */
+  url: string;
+  eventTypes?: string[];
+  dialogIds?: string[];
+  folderIds?: number[];
+  /** At least 16 characters; generated if left out */
+  secret?: string;
+}
+
+export type CreateWebhookResponse = CreatedWebhook;
+
+export interface GetWebhookDeliveriesQuery {
+  status?: 'pending' | 'dead';
+  webhookId?: string;
+}
+
+export type GetWebhookDeliveriesResponse = WebhookDelivery[];
+
+export type RetryWebhookDeliveryResponse = WebhookDelivery;
+
+export type RemoveWebhookDeliveryResponse = Ok;
+
+export type GetWebhookResponse = Webhook;
+
+export interface UpdateWebhookBody {
+  url?: string;
+  /** `null` clears the filter */
+  eventTypes?: string[] | null;
+  /** `null` clears the filter */
+  dialogIds?: string[] | null;
+  /** `null` clears the filter */
+  folderIds?: number[] | null;
+  /** At least 16 characters */
+  secret?: string;
+}
+
+export type UpdateWebhookResponse = Webhook;
+
+export type DeleteWebhookResponse = Ok;
+
+/** One method per daemon route; account routes go to `accountId` */
+export class OceangramClient extends DaemonTransport {
+  /** Service status, including every account's connection state and request queue */
+  getHealth(options?: RequestOptions): Promise<GetHealthResponse> {
+    return this.requestJson('GET', '/health', { ...options, root: true });
+  }
+
+  /** This API as an OpenAPI document */
+  getOpenApi(options?: RequestOptions): Promise<GetOpenApiResponse> {
+    return this.requestJson('GET', '/openapi.json', { ...options, root: true });
+  }
+
+  /** API reference page */
+  getDocs(options?: RequestOptions): Promise<BinaryResponse | null> {
+    return this.requestBinary('GET', '/docs', { ...options, root: true });
+  }
+
+  /** Accounts served by the daemon */
+  listAccounts(options?: RequestOptions): Promise<ListAccountsResponse> {
+    return this.requestJson('GET', '/accounts', { ...options, root: true });
+  }
+
+  /** Add an account; log it in at `loginUrl` */
+  addAccount(body: AddAccountBody, options?: RequestOptions): Promise<AddAccountResponse> {
+    return this.requestJson('POST', '/accounts', { ...options, root: true, body });
+  }
+
+  /** Log out and remove an account */
+  removeAccount(accountId: string, options?: RequestOptions): Promise<RemoveAccountResponse> {
+    return this.requestJson('DELETE', `/accounts/${encodeURIComponent(String(accountId))}`, { ...options, root: true });
+  }
+
+  /** Login page */
+  getLoginPage(options?: RequestOptions): Promise<BinaryResponse | null> {
+    return this.requestBinary('GET', '/login', options);
+  }
+
+  /** Send a login code to a phone number */
+  startLogin(body: StartLoginBody, options?: RequestOptions): Promise<StartLoginResponse> {
+    return this.requestJson('POST', '/login/phone', { ...options, body });
+  }
+
+  /** Log in with the code; `need2FA` asks for the password next */
+  completeLogin(body: CompleteLoginBody, options?: RequestOptions): Promise<CompleteLoginResponse> {
+    return this.requestJson('POST', '/login/code', { ...options, body });
+  }
+
+  /** Finish logging in with the 2FA password */
+  complete2FA(body: Complete2FABody, options?: RequestOptions): Promise<Complete2FAResponse> {
+    return this.requestJson('POST', '/login/2fa', { ...options, body });
+  }
+
+  /** Start a QR code login */
+  startQrLogin(options?: RequestOptions): Promise<StartQrLoginResponse> {
+    return this.requestJson('POST', '/login/qr', options);
+  }
+
+  /** QR login state */
+  getQrLoginState(options?: RequestOptions): Promise<GetQrLoginStateResponse> {
+    return this.requestJson('GET', '/login/qr', options);
+  }
+
+  /** The pending QR code as an image */
+  getQrCode(format: 'svg' | 'png', options?: RequestOptions): Promise<BinaryResponse | null> {
+    return this.requestBinary('GET', `/login/qr.${encodeURIComponent(String(format))}`, options);
+  }
+
+  /** Log the account out */
+  logout(options?: RequestOptions): Promise<LogoutResponse> {
+    return this.requestJson('POST', '/logout', options);
+  }
+
+  /** Current user */
+  getMe(options?: RequestOptions): Promise<GetMeResponse> {
+    return this.requestJson('GET', '/me', options);
+  }
+
+  /** Chat list, with active forum topics */
+  getDialogs(query?: GetDialogsQuery, options?: RequestOptions): Promise<GetDialogsResponse> {
+    return this.requestJson('GET', '/dialogs', { ...options, query });
+  }
+
+  /** Chat info */
+  getDialogInfo(dialogId: string, options?: RequestOptions): Promise<GetDialogInfoResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/info`, options);
+  }
+
+  /** Edit a group or channel's title or description */
+  editDialog(dialogId: string, body: EditDialogBody, options?: RequestOptions): Promise<EditDialogResponse> {
+    return this.requestJson('PATCH', `/dialogs/${encodeURIComponent(String(dialogId))}`, { ...options, body });
+  }
+
+  /** Set a group or channel photo */
+  setDialogPhoto(dialogId: string, body: SetDialogPhotoBody, options?: RequestOptions): Promise<SetDialogPhotoResponse> {
+    return this.requestJson('PUT', `/dialogs/${encodeURIComponent(String(dialogId))}/photo`, { ...options, body });
+  }
+
+  /** Set a group or channel photo, streaming the file from disk */
+  setDialogPhotoMultipart(dialogId: string, file: FileUpload, fields?: SetDialogPhotoFields, options?: RequestOptions): Promise<SetDialogPhotoResponse> {
+    return this.requestMultipart(`/dialogs/${encodeURIComponent(String(dialogId))}/photo`, [file], fields, options);
+  }
+
+  /** Send a typing indicator */
+  sendTyping(dialogId: string, options?: RequestOptions): Promise<SendTypingResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/typing`, options);
+  }
+
+  /** Mark read up to a message */
+  readDialog(dialogId: string, body?: ReadDialogBody, options?: RequestOptions): Promise<ReadDialogResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/read`, { ...options, body });
+  }
+
+  /** Mark everything read, mentions and reactions included */
+  markAllAsRead(dialogId: string, options?: RequestOptions): Promise<MarkAllAsReadResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/readAll`, options);
+  }
+
+  /** Archive a chat */
+  archiveDialog(dialogId: string, options?: RequestOptions): Promise<ArchiveDialogResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/archive`, options);
+  }
+
+  /** Move a chat out of the archive */
+  unarchiveDialog(dialogId: string, options?: RequestOptions): Promise<UnarchiveDialogResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/unarchive`, options);
+  }
+
+  /** Mute a chat */
+  muteDialog(dialogId: string, body?: MuteDialogBody, options?: RequestOptions): Promise<MuteDialogResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/mute`, { ...options, body });
+  }
+
+  /** Leave a group or channel */
+  leaveDialog(dialogId: string, options?: RequestOptions): Promise<LeaveDialogResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/leave`, options);
+  }
+
+  /** Clear a chat's history */
+  deleteDialogHistory(dialogId: string, options?: RequestOptions): Promise<DeleteDialogHistoryResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/history`, options);
+  }
+
+  /** Saved draft; `text` is null without one */
+  getDraft(dialogId: string, options?: RequestOptions): Promise<GetDraftResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/draft`, options);
+  }
+
+  /** Save a draft */
+  saveDraft(dialogId: string, body: SaveDraftBody, options?: RequestOptions): Promise<SaveDraftResponse> {
+    return this.requestJson('PUT', `/dialogs/${encodeURIComponent(String(dialogId))}/draft`, { ...options, body });
+  }
+
+  /** Clear the draft */
+  clearDraft(dialogId: string, options?: RequestOptions): Promise<ClearDraftResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/draft`, options);
+  }
+
+  /** Saved Messages */
+  getSavedMessages(query?: GetSavedMessagesQuery, options?: RequestOptions): Promise<GetSavedMessagesResponse> {
+    return this.requestJson('GET', '/saved', { ...options, query });
+  }
+
+  /** Messages, oldest first */
+  getMessages(dialogId: string, query?: GetMessagesQuery, options?: RequestOptions): Promise<GetMessagesResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/messages`, { ...options, query });
+  }
+
+  /** Send a message */
+  sendMessage(dialogId: string, body: SendMessageBody, options?: RequestOptions): Promise<SendMessageResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/messages`, { ...options, body });
+  }
+
+  /** A chat's photos, videos, files or links, newest first */
+  getSharedMedia(dialogId: string, query: GetSharedMediaQuery, options?: RequestOptions): Promise<GetSharedMediaResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/media`, { ...options, query });
+  }
+
+  /** Search a chat on Telegram */
+  searchDialogMessages(dialogId: string, query: SearchDialogMessagesQuery, options?: RequestOptions): Promise<SearchDialogMessagesResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/search`, { ...options, query });
+  }
+
+  /** Scheduled messages */
+  getScheduledMessages(dialogId: string, options?: RequestOptions): Promise<GetScheduledMessagesResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/scheduled`, options);
+  }
+
+  /** Pinned messages */
+  getPinnedMessages(dialogId: string, options?: RequestOptions): Promise<GetPinnedMessagesResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/pinned`, options);
+  }
+
+  /** One message */
+  getMessage(messageId: number, query: GetMessageQuery, options?: RequestOptions): Promise<GetMessageResponse> {
+    return this.requestJson('GET', `/messages/${encodeURIComponent(String(messageId))}`, { ...options, query });
+  }
+
+  /** Edit a message */
+  editMessage(messageId: number, body: EditMessageBody, options?: RequestOptions): Promise<EditMessageResponse> {
+    return this.requestJson('PATCH', `/messages/${encodeURIComponent(String(messageId))}`, { ...options, body });
+  }
+
+  /** Delete a message for everyone */
+  deleteMessage(messageId: number, body: DeleteMessageBody, options?: RequestOptions): Promise<DeleteMessageResponse> {
+    return this.requestJson('DELETE', `/messages/${encodeURIComponent(String(messageId))}`, { ...options, body });
+  }
+
+  /** Mark read up to a message */
+  markRead(messageId: number, body: MarkReadBody, options?: RequestOptions): Promise<MarkReadResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/read`, { ...options, body });
+  }
+
+  /** Forward a message, or several */
+  forwardMessages(messageId: number, body: ForwardMessagesBody, options?: RequestOptions): Promise<ForwardMessagesResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/forward`, { ...options, body });
+  }
+
+  /** Pin a message */
+  pinMessage(messageId: number, body: PinMessageBody, options?: RequestOptions): Promise<PinMessageResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/pin`, { ...options, body });
+  }
+
+  /** Unpin a message */
+  unpinMessage(messageId: number, body: UnpinMessageBody, options?: RequestOptions): Promise<UnpinMessageResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/unpin`, { ...options, body });
+  }
+
+  /** Add a reaction */
+  addReaction(messageId: number, body: AddReactionBody, options?: RequestOptions): Promise<AddReactionResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/react`, { ...options, body });
+  }
+
+  /** Remove a reaction, or all of yours */
+  removeReaction(messageId: number, body: RemoveReactionBody, options?: RequestOptions): Promise<RemoveReactionResponse> {
+    return this.requestJson('DELETE', `/messages/${encodeURIComponent(String(messageId))}/react`, { ...options, body });
+  }
+
+  /** Replace your reactions */
+  setReactions(messageId: number, body: SetReactionsBody, options?: RequestOptions): Promise<SetReactionsResponse> {
+    return this.requestJson('PUT', `/messages/${encodeURIComponent(String(messageId))}/reactions`, { ...options, body });
+  }
+
+  /** Who reacted */
+  getReactionList(messageId: number, query: GetReactionListQuery, options?: RequestOptions): Promise<GetReactionListResponse> {
+    return this.requestJson('GET', `/messages/${encodeURIComponent(String(messageId))}/reactions`, { ...options, query });
+  }
+
+  /** Reactions the chat allows */
+  getAllowedReactions(dialogId: string, options?: RequestOptions): Promise<GetAllowedReactionsResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/reactions`, options);
+  }
+
+  /** Send a poll or quiz */
+  sendPoll(dialogId: string, body: SendPollBody, options?: RequestOptions): Promise<SendPollResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/polls`, { ...options, body });
+  }
+
+  /** Vote */
+  votePoll(messageId: number, body: VotePollBody, options?: RequestOptions): Promise<VotePollResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/poll/vote`, { ...options, body });
+  }
+
+  /** Take your vote back */
+  retractPollVote(messageId: number, body: RetractPollVoteBody, options?: RequestOptions): Promise<RetractPollVoteResponse> {
+    return this.requestJson('DELETE', `/messages/${encodeURIComponent(String(messageId))}/poll/vote`, { ...options, body });
+  }
+
+  /** Close a poll you sent */
+  closePoll(messageId: number, body: ClosePollBody, options?: RequestOptions): Promise<ClosePollResponse> {
+    return this.requestJson('POST', `/messages/${encodeURIComponent(String(messageId))}/poll/close`, { ...options, body });
+  }
+
+  /** Who voted for what (public polls) */
+  getPollVotes(messageId: number, query: GetPollVotesQuery, options?: RequestOptions): Promise<GetPollVotesResponse> {
+    return this.requestJson('GET', `/messages/${encodeURIComponent(String(messageId))}/poll/votes`, { ...options, query });
+  }
+
+  /** Send a file */
+  sendFile(dialogId: string, body: SendFileBody, options?: RequestOptions): Promise<SendFileResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/upload`, { ...options, body });
+  }
+
+  /** Send a file, streaming the file from disk */
+  sendFileMultipart(dialogId: string, file: FileUpload, fields?: SendFileFields, options?: RequestOptions): Promise<SendFileResponse> {
+    return this.requestMultipart(`/dialogs/${encodeURIComponent(String(dialogId))}/upload`, [file], fields, options);
+  }
+
+  /** Send a voice note */
+  sendVoice(dialogId: string, body: SendVoiceBody, options?: RequestOptions): Promise<SendVoiceResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/voice`, { ...options, body });
+  }
+
+  /** Send a voice note, streaming the file from disk */
+  sendVoiceMultipart(dialogId: string, file: FileUpload, fields?: SendVoiceFields, options?: RequestOptions): Promise<SendVoiceResponse> {
+    return this.requestMultipart(`/dialogs/${encodeURIComponent(String(dialogId))}/voice`, [file], fields, options);
+  }
+
+  /** Send 2-10 photos, videos or files as one album */
+  sendAlbum(dialogId: string, body: SendAlbumBody, options?: RequestOptions): Promise<SendAlbumResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/album`, { ...options, body });
+  }
+
+  /** Send 2-10 photos, videos or files as one album, streaming files from disk */
+  sendAlbumMultipart(dialogId: string, files: FileUpload[], fields?: SendAlbumFields, options?: RequestOptions): Promise<SendAlbumResponse> {
+    return this.requestMultipart(`/dialogs/${encodeURIComponent(String(dialogId))}/album`, files, fields, options);
+  }
+
+  /** Start a chunked upload */
+  createUpload(body: CreateUploadBody, options?: RequestOptions): Promise<CreateUploadResponse> {
+    return this.requestJson('POST', '/uploads', { ...options, body });
+  }
+
+  /** A chunked upload and the parts it has */
+  getUpload(uploadId: string, options?: RequestOptions): Promise<GetUploadResponse> {
+    return this.requestJson('GET', `/uploads/${encodeURIComponent(String(uploadId))}`, options);
+  }
+
+  /** Drop a chunked upload */
+  deleteUpload(uploadId: string, options?: RequestOptions): Promise<DeleteUploadResponse> {
+    return this.requestJson('DELETE', `/uploads/${encodeURIComponent(String(uploadId))}`, options);
+  }
+
+  /** Send one part of a chunked upload */
+  putUploadPart(uploadId: string, part: number, data: Buffer, options?: RequestOptions): Promise<PutUploadPartResponse> {
+    return this.requestJson('PUT', `/uploads/${encodeURIComponent(String(uploadId))}/parts/${encodeURIComponent(String(part))}`, { ...options, raw: data });
+  }
+
+  /** A short-lived token that opens one message's media */
+  getMediaToken(messageId: number, query: GetMediaTokenQuery, options?: RequestOptions): Promise<GetMediaTokenResponse> {
+    return this.requestJson('GET', `/media/${encodeURIComponent(String(messageId))}/token`, { ...options, query });
+  }
+
+  /** A message's media, with Range support */
+  getMedia(messageId: number, query: GetMediaQuery, options?: RequestOptions): Promise<BinaryResponse | null> {
+    return this.requestBinary('GET', `/media/${encodeURIComponent(String(messageId))}`, { ...options, query });
+  }
+
+  /** Sends waiting for delivery, and failed ones */
+  getOutbox(options?: RequestOptions): Promise<GetOutboxResponse> {
+    return this.requestJson('GET', '/outbox', options);
+  }
+
+  /** Queue a failed send again */
+  retryOutboxItem(clientMsgId: string, options?: RequestOptions): Promise<RetryOutboxItemResponse> {
+    return this.requestJson('POST', `/outbox/${encodeURIComponent(String(clientMsgId))}/retry`, options);
+  }
+
+  /** Drop a queued or failed send */
+  removeOutboxItem(clientMsgId: string, options?: RequestOptions): Promise<RemoveOutboxItemResponse> {
+    return this.requestJson('DELETE', `/outbox/${encodeURIComponent(String(clientMsgId))}`, options);
+  }
+
+  /** Search all chats on Telegram */
+  searchGlobal(query: SearchGlobalQuery, options?: RequestOptions): Promise<SearchGlobalResponse> {
+    return this.requestJson('GET', '/search', { ...options, query });
+  }
+
+  /** Full-text search over cached messages; works offline */
+  searchLocal(query: SearchLocalQuery, options?: RequestOptions): Promise<SearchLocalResponse> {
+    return this.requestJson('GET', '/search/local', { ...options, query });
+  }
+
+  /** Find users and chats by name */
+  searchDialogs(query: SearchDialogsQuery, options?: RequestOptions): Promise<SearchDialogsResponse> {
+    return this.requestJson('GET', '/search/dialogs', { ...options, query });
+  }
+
+  /** Contacts */
+  getContacts(query?: GetContactsQuery, options?: RequestOptions): Promise<GetContactsResponse> {
+    return this.requestJson('GET', '/contacts', { ...options, query });
+  }
+
+  /** Search contacts and global usernames */
+  searchContacts(query: SearchContactsQuery, options?: RequestOptions): Promise<SearchContactsResponse> {
+    return this.requestJson('GET', '/contacts/search', { ...options, query });
+  }
+
+  /** User profile */
+  getProfile(userId: string, options?: RequestOptions): Promise<GetProfileResponse> {
+    return this.requestJson('GET', `/profile/${encodeURIComponent(String(userId))}`, options);
+  }
+
+  /** Profile photo */
+  getProfilePhoto(userId: string, options?: RequestOptions): Promise<BinaryResponse | null> {
+    return this.requestBinary('GET', `/profile/${encodeURIComponent(String(userId))}/photo`, options);
+  }
+
+  /** Chat folders */
+  getFolders(options?: RequestOptions): Promise<GetFoldersResponse> {
+    return this.requestJson('GET', '/folders', options);
+  }
+
+  /** Create a folder */
+  createFolder(body: CreateFolderBody, options?: RequestOptions): Promise<CreateFolderResponse> {
+    return this.requestJson('POST', '/folders', { ...options, body });
+  }
+
+  /** Replace a folder */
+  updateFolder(folderId: number, body: UpdateFolderBody, options?: RequestOptions): Promise<UpdateFolderResponse> {
+    return this.requestJson('PUT', `/folders/${encodeURIComponent(String(folderId))}`, { ...options, body });
+  }
+
+  /** Delete a folder */
+  deleteFolder(folderId: number, options?: RequestOptions): Promise<DeleteFolderResponse> {
+    return this.requestJson('DELETE', `/folders/${encodeURIComponent(String(folderId))}`, options);
+  }
+
+  /** Create a group, supergroup or channel */
+  createGroup(body: CreateGroupBody, options?: RequestOptions): Promise<CreateGroupResponse> {
+    return this.requestJson('POST', '/groups', { ...options, body });
+  }
+
+  /** Join by invite link or username */
+  joinChat(body: JoinChatBody, options?: RequestOptions): Promise<JoinChatResponse> {
+    return this.requestJson('POST', '/join', { ...options, body });
+  }
+
+  /** Members */
+  getMembers(dialogId: string, query?: GetMembersQuery, options?: RequestOptions): Promise<GetMembersResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/members`, { ...options, query });
+  }
+
+  /** Add members */
+  addMembers(dialogId: string, body: AddMembersBody, options?: RequestOptions): Promise<AddMembersResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/members`, { ...options, body });
+  }
+
+  /** Remove a member */
+  removeMember(dialogId: string, userId: string, body?: RemoveMemberBody, options?: RequestOptions): Promise<RemoveMemberResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/members/${encodeURIComponent(String(userId))}`, { ...options, body });
+  }
+
+  /** Restrict what one member may do */
+  setMemberPermissions(dialogId: string, userId: string, body: SetMemberPermissionsBody, options?: RequestOptions): Promise<SetMemberPermissionsResponse> {
+    return this.requestJson('PUT', `/dialogs/${encodeURIComponent(String(dialogId))}/members/${encodeURIComponent(String(userId))}/permissions`, { ...options, body });
+  }
+
+  /** Ban a member */
+  banMember(dialogId: string, body: BanMemberBody, options?: RequestOptions): Promise<BanMemberResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/ban`, { ...options, body });
+  }
+
+  /** Lift a ban */
+  unbanMember(dialogId: string, body: UnbanMemberBody, options?: RequestOptions): Promise<UnbanMemberResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/unban`, { ...options, body });
+  }
+
+  /** Make a member admin */
+  promoteAdmin(dialogId: string, userId: string, body: PromoteAdminBody, options?: RequestOptions): Promise<PromoteAdminResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/admins/${encodeURIComponent(String(userId))}`, { ...options, body });
+  }
+
+  /** Take admin rights away */
+  demoteAdmin(dialogId: string, userId: string, options?: RequestOptions): Promise<DemoteAdminResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/admins/${encodeURIComponent(String(userId))}`, options);
+  }
+
+  /** Primary invite link */
+  getInviteLink(dialogId: string, options?: RequestOptions): Promise<GetInviteLinkResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/invite`, options);
+  }
+
+  /** Create an invite link */
+  createInviteLink(dialogId: string, body?: CreateInviteLinkBody, options?: RequestOptions): Promise<CreateInviteLinkResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/invite`, { ...options, body });
+  }
+
+  /** Invite links you made */
+  getInviteLinks(dialogId: string, query?: GetInviteLinksQuery, options?: RequestOptions): Promise<GetInviteLinksResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/invites`, { ...options, query });
+  }
+
+  /** Revoke an invite link */
+  revokeInviteLink(dialogId: string, body: RevokeInviteLinkBody, options?: RequestOptions): Promise<RevokeInviteLinkResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/invites`, { ...options, body });
+  }
+
+  /** What members may do */
+  getDefaultPermissions(dialogId: string, options?: RequestOptions): Promise<GetDefaultPermissionsResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/permissions`, options);
+  }
+
+  /** Set what members may do */
+  setDefaultPermissions(dialogId: string, body: SetDefaultPermissionsBody, options?: RequestOptions): Promise<SetDefaultPermissionsResponse> {
+    return this.requestJson('PUT', `/dialogs/${encodeURIComponent(String(dialogId))}/permissions`, { ...options, body });
+  }
+
+  /** Set slow mode */
+  setSlowMode(dialogId: string, body: SetSlowModeBody, options?: RequestOptions): Promise<SetSlowModeResponse> {
+    return this.requestJson('PUT', `/dialogs/${encodeURIComponent(String(dialogId))}/slowmode`, { ...options, body });
+  }
+
+  /** Forum topics */
+  listTopics(dialogId: string, query?: ListTopicsQuery, options?: RequestOptions): Promise<ListTopicsResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/topics`, { ...options, query });
+  }
+
+  /** Create a forum topic */
+  createTopic(dialogId: string, body: CreateTopicBody, options?: RequestOptions): Promise<CreateTopicResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/topics`, { ...options, body });
+  }
+
+  /** Edit, close or hide a forum topic */
+  editTopic(dialogId: string, topicId: number, body: EditTopicBody, options?: RequestOptions): Promise<EditTopicResponse> {
+    return this.requestJson('PATCH', `/dialogs/${encodeURIComponent(String(dialogId))}/topics/${encodeURIComponent(String(topicId))}`, { ...options, body });
+  }
+
+  /** Delete a forum topic */
+  deleteTopic(dialogId: string, topicId: number, options?: RequestOptions): Promise<DeleteTopicResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/topics/${encodeURIComponent(String(topicId))}`, options);
+  }
+
+  /** Pin a forum topic */
+  pinTopic(dialogId: string, topicId: number, options?: RequestOptions): Promise<PinTopicResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/topics/${encodeURIComponent(String(topicId))}/pin`, options);
+  }
+
+  /** Unpin a forum topic */
+  unpinTopic(dialogId: string, topicId: number, options?: RequestOptions): Promise<UnpinTopicResponse> {
+    return this.requestJson('POST', `/dialogs/${encodeURIComponent(String(dialogId))}/topics/${encodeURIComponent(String(topicId))}/unpin`, options);
+  }
+
+  /** Ask an inline bot */
+  getInlineResults(body: GetInlineResultsBody, options?: RequestOptions): Promise<GetInlineResultsResponse> {
+    return this.requestJson('POST', '/inline', { ...options, body });
+  }
+
+  /** Send an inline bot result */
+  sendInlineResult(body: SendInlineResultBody, options?: RequestOptions): Promise<SendInlineResultResponse> {
+    return this.requestJson('POST', '/inline/send', { ...options, body });
+  }
+
+  /** Press an inline keyboard button */
+  pressBotButton(body: PressBotButtonBody, options?: RequestOptions): Promise<PressBotButtonResponse> {
+    return this.requestJson('POST', '/bots/callback', { ...options, body });
+  }
+
+  /** History backfill status */
+  getBackfillStatus(options?: RequestOptions): Promise<GetBackfillStatusResponse> {
+    return this.requestJson('GET', '/backfill', options);
+  }
+
+  /** Queue dialogs, or every chat in folders, for backfill */
+  queueBackfill(body: QueueBackfillBody, options?: RequestOptions): Promise<QueueBackfillResponse> {
+    return this.requestJson('POST', '/backfill', { ...options, body });
+  }
+
+  /** Cancel a dialog's backfill */
+  cancelBackfill(dialogId: string, options?: RequestOptions): Promise<CancelBackfillResponse> {
+    return this.requestJson('DELETE', `/backfill/${encodeURIComponent(String(dialogId))}`, options);
+  }
+
+  /** Dialogs and folders whose edits and deletions are kept */
+  getRetentionRules(options?: RequestOptions): Promise<GetRetentionRulesResponse> {
+    return this.requestJson('GET', '/retention', options);
+  }
+
+  /** Replace the retention rules */
+  setRetentionRules(body: SetRetentionRulesBody, options?: RequestOptions): Promise<SetRetentionRulesResponse> {
+    return this.requestJson('PUT', '/retention', { ...options, body });
+  }
+
+  /** A retained message's earlier versions */
+  getMessageRevisions(messageId: number, query: GetMessageRevisionsQuery, options?: RequestOptions): Promise<GetMessageRevisionsResponse> {
+    return this.requestJson('GET', `/messages/${encodeURIComponent(String(messageId))}/revisions`, { ...options, query });
+  }
+
+  /** Recently deleted messages of a retained dialog */
+  getDeletedMessages(dialogId: string, query?: GetDeletedMessagesQuery, options?: RequestOptions): Promise<GetDeletedMessagesResponse> {
+    return this.requestJson('GET', `/dialogs/${encodeURIComponent(String(dialogId))}/deleted`, { ...options, query });
+  }
+
+  /** Drop a dialog's kept versions and deleted messages */
+  purgeRetained(dialogId: string, options?: RequestOptions): Promise<PurgeRetainedResponse> {
+    return this.requestJson('DELETE', `/dialogs/${encodeURIComponent(String(dialogId))}/retained`, options);
+  }
+
+  /** Privacy settings */
+  getPrivacySettings(options?: RequestOptions): Promise<GetPrivacySettingsResponse> {
+    return this.requestJson('GET', '/settings/privacy', options);
+  }
+
+  /** Change one privacy setting */
+  setPrivacySetting(body: SetPrivacySettingBody, options?: RequestOptions): Promise<SetPrivacySettingResponse> {
+    return this.requestJson('PUT', '/settings/privacy', { ...options, body });
+  }
+
+  /** Name, username, bio and phone */
+  getAccountSettings(options?: RequestOptions): Promise<GetAccountSettingsResponse> {
+    return this.requestJson('GET', '/settings/account', options);
+  }
+
+  /** Change name or bio */
+  updateProfile(body: UpdateProfileBody, options?: RequestOptions): Promise<UpdateProfileResponse> {
+    return this.requestJson('PUT', '/settings/account', { ...options, body });
+  }
+
+  /** Change username */
+  updateUsername(body: UpdateUsernameBody, options?: RequestOptions): Promise<UpdateUsernameResponse> {
+    return this.requestJson('PUT', '/settings/username', { ...options, body });
+  }
+
+  /** Set your profile photo */
+  setProfilePhoto(body: SetProfilePhotoBody, options?: RequestOptions): Promise<SetProfilePhotoResponse> {
+    return this.requestJson('PUT', '/settings/photo', { ...options, body });
+  }
+
+  /** Set your profile photo, streaming the file from disk */
+  setProfilePhotoMultipart(file: FileUpload, fields?: SetProfilePhotoFields, options?: RequestOptions): Promise<SetProfilePhotoResponse> {
+    return this.requestMultipart('/settings/photo', [file], fields, options);
+  }
+
+  /** Remove your profile photo */
+  deleteProfilePhoto(options?: RequestOptions): Promise<DeleteProfilePhotoResponse> {
+    return this.requestJson('DELETE', '/settings/photo', options);
+  }
+
+  /** Two-step verification status */
+  get2FAStatus(options?: RequestOptions): Promise<Get2FAStatusResponse> {
+    return this.requestJson('GET', '/settings/2fa', options);
+  }
+
+  /** Set or change the 2FA password */
+  set2FA(body: Set2FABody, options?: RequestOptions): Promise<Set2FAResponse> {
+    return this.requestJson('POST', '/settings/2fa', { ...options, body });
+  }
+
+  /** Turn 2FA off */
+  disable2FA(body: Disable2FABody, options?: RequestOptions): Promise<Disable2FAResponse> {
+    return this.requestJson('DELETE', '/settings/2fa', { ...options, body });
+  }
+
+  /** Logged-in devices */
+  getSessions(options?: RequestOptions): Promise<GetSessionsResponse> {
+    return this.requestJson('GET', '/settings/sessions', options);
+  }
+
+  /** Log out every other device */
+  terminateOtherSessions(options?: RequestOptions): Promise<TerminateOtherSessionsResponse> {
+    return this.requestJson('DELETE', '/settings/sessions', options);
+  }
+
+  /** Log a device out */
+  terminateSession(hash: string, options?: RequestOptions): Promise<TerminateSessionResponse> {
+    return this.requestJson('DELETE', `/settings/sessions/${encodeURIComponent(String(hash))}`, options);
+  }
+
+  /** Blocked users */
+  getBlockedUsers(query?: GetBlockedUsersQuery, options?: RequestOptions): Promise<GetBlockedUsersResponse> {
+    return this.requestJson('GET', '/settings/blocked', { ...options, query });
+  }
+
+  /** Block a user */
+  blockUser(body: BlockUserBody, options?: RequestOptions): Promise<BlockUserResponse> {
+    return this.requestJson('POST', '/settings/blocked', { ...options, body });
+  }
+
+  /** Unblock a user */
+  unblockUser(userId: string, options?: RequestOptions): Promise<UnblockUserResponse> {
+    return this.requestJson('DELETE', `/settings/blocked/${encodeURIComponent(String(userId))}`, options);
+  }
+
+  /** Notification settings for private chats, groups and channels */
+  getNotificationSettings(options?: RequestOptions): Promise<GetNotificationSettingsResponse> {
+    return this.requestJson('GET', '/settings/notifications', options);
+  }
+
+  /** Change notification settings */
+  updateNotificationSettings(body: UpdateNotificationSettingsBody, options?: RequestOptions): Promise<UpdateNotificationSettingsResponse> {
+    return this.requestJson('PUT', '/settings/notifications', { ...options, body });
+  }
+
+  /** Auto-download settings */
+  getAutoDownloadSettings(options?: RequestOptions): Promise<GetAutoDownloadSettingsResponse> {
+    return this.requestJson('GET', '/settings/autodownload', options);
+  }
+
+  /** Change auto-download settings */
+  saveAutoDownloadSettings(body: SaveAutoDownloadSettingsBody, options?: RequestOptions): Promise<SaveAutoDownloadSettingsResponse> {
+    return this.requestJson('PUT', '/settings/autodownload', { ...options, body });
+  }
+
+  /** Live events over a WebSocket */
+  eventsUrl(query?: EventsQuery): string {
+    return this.wsUrl('/events', query);
+  }
+
+  /** Recurring and on-online messages */
+  listSchedules(options?: RequestOptions): Promise<ListSchedulesResponse> {
+    return this.requestJson('GET', '/schedules', options);
+  }
+
+  /** Send a message on a cron schedule, or when a user comes online */
+  createSchedule(body: CreateScheduleBody, options?: RequestOptions): Promise<CreateScheduleResponse> {
+    return this.requestJson('POST', '/schedules', { ...options, body });
+  }
+
+  /** One schedule */
+  getSchedule(scheduleId: string, options?: RequestOptions): Promise<GetScheduleResponse> {
+    return this.requestJson('GET', `/schedules/${encodeURIComponent(String(scheduleId))}`, options);
+  }
+
+  /** Change a schedule; each field given replaces the old one */
+  updateSchedule(scheduleId: string, body: UpdateScheduleBody, options?: RequestOptions): Promise<UpdateScheduleResponse> {
+    return this.requestJson('PATCH', `/schedules/${encodeURIComponent(String(scheduleId))}`, { ...options, body });
+  }
+
+  /** Remove a schedule */
+  deleteSchedule(scheduleId: string, options?: RequestOptions): Promise<DeleteScheduleResponse> {
+    return this.requestJson('DELETE', `/schedules/${encodeURIComponent(String(scheduleId))}`, options);
+  }
+
+  /** Stop a schedule from sending */
+  pauseSchedule(scheduleId: string, options?: RequestOptions): Promise<PauseScheduleResponse> {
+    return this.requestJson('POST', `/schedules/${encodeURIComponent(String(scheduleId))}/pause`, options);
+  }
+
+  /** Start a paused schedule again from now */
+  resumeSchedule(scheduleId: string, options?: RequestOptions): Promise<ResumeScheduleResponse> {
+    return this.requestJson('POST', `/schedules/${encodeURIComponent(String(scheduleId))}/resume`, options);
+  }
+
+  /** Automation rules, in the order they run */
+  listRules(options?: RequestOptions): Promise<ListRulesResponse> {
+    return this.requestJson('GET', '/rules', options);
+  }
+
+  /** Add a rule */
+  createRule(body: CreateRuleBody, options?: RequestOptions): Promise<CreateRuleResponse> {
+    return this.requestJson('POST', '/rules', { ...options, body });
+  }
+
+  /** Dry-run a rule that isn't saved against cached messages */
+  testRuleSpec(body: TestRuleSpecBody, options?: RequestOptions): Promise<TestRuleSpecResponse> {
+    return this.requestJson('POST', '/rules/test', { ...options, body });
+  }
+
+  /** What rules did, newest first */
+  getRuleRuns(query?: GetRuleRunsQuery, options?: RequestOptions): Promise<GetRuleRunsResponse> {
+    return this.requestJson('GET', '/rules/runs', { ...options, query });
+  }
+
+  /** One rule */
+  getRule(ruleId: string, options?: RequestOptions): Promise<GetRuleResponse> {
+    return this.requestJson('GET', `/rules/${encodeURIComponent(String(ruleId))}`, options);
+  }
+
+  /** Change a rule; each field given replaces the old one */
+  updateRule(ruleId: string, body: UpdateRuleBody, options?: RequestOptions): Promise<UpdateRuleResponse> {
+    return this.requestJson('PATCH', `/rules/${encodeURIComponent(String(ruleId))}`, { ...options, body });
+  }
+
+  /** Remove a rule and its log */
+  deleteRule(ruleId: string, options?: RequestOptions): Promise<DeleteRuleResponse> {
+    return this.requestJson('DELETE', `/rules/${encodeURIComponent(String(ruleId))}`, options);
+  }
+
+  /** Dry-run a rule against cached messages */
+  testRule(ruleId: string, body?: TestRuleBody, options?: RequestOptions): Promise<TestRuleResponse> {
+    return this.requestJson('POST', `/rules/${encodeURIComponent(String(ruleId))}/test`, { ...options, body });
+  }
+
+  /** Webhooks receiving this account's events */
+  listWebhooks(options?: RequestOptions): Promise<ListWebhooksResponse> {
+    return this.requestJson('GET', '/webhooks', options);
+  }
+
+  /** Send events to a URL */
+  createWebhook(body: CreateWebhookBody, options?: RequestOptions): Promise<CreateWebhookResponse> {
+    return this.requestJson('POST', '/webhooks', { ...options, body });
+  }
+
+  /** Deliveries waiting to be retried, and dead ones */
+  getWebhookDeliveries(query?: GetWebhookDeliveriesQuery, options?: RequestOptions): Promise<GetWebhookDeliveriesResponse> {
+    return this.requestJson('GET', '/webhooks/deliveries', { ...options, query });
+  }
+
+  /** Queue a delivery again, with fresh attempts */
+  retryWebhookDelivery(deliveryId: string, options?: RequestOptions): Promise<RetryWebhookDeliveryResponse> {
+    return this.requestJson('POST', `/webhooks/deliveries/${encodeURIComponent(String(deliveryId))}/retry`, options);
+  }
+
+  /** Drop a queued or dead delivery */
+  removeWebhookDelivery(deliveryId: string, options?: RequestOptions): Promise<RemoveWebhookDeliveryResponse> {
+    return this.requestJson('DELETE', `/webhooks/deliveries/${encodeURIComponent(String(deliveryId))}`, options);
+  }
+
+  /** One webhook */
+  getWebhook(webhookId: string, options?: RequestOptions): Promise<GetWebhookResponse> {
+    return this.requestJson('GET', `/webhooks/${encodeURIComponent(String(webhookId))}`, options);
+  }
+
+  /** Change a webhook's URL, filters or secret */
+  updateWebhook(webhookId: string, body: UpdateWebhookBody, options?: RequestOptions): Promise<UpdateWebhookResponse> {
+    return this.requestJson('PATCH', `/webhooks/${encodeURIComponent(String(webhookId))}`, { ...options, body });
+  }
+
+  /** Remove a webhook and its deliveries */
+  deleteWebhook(webhookId: string, options?: RequestOptions): Promise<DeleteWebhookResponse> {
+    return this.requestJson('DELETE', `/webhooks/${encodeURIComponent(String(webhookId))}`, options);
+  }
+}
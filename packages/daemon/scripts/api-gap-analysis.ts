@@ -10,43 +10,14 @@
 
 import fs from 'fs';
 import path from 'path';
+import { listRoutes } from '../src/schemas';
 
-// ── Our daemon's current endpoints (parsed from server.ts) ──
+// ── Our daemon's current endpoints (from the route schema table) ──
 
-function parseServerRoutes(): { method: string; path: string }[] {
-  const serverPath = path.join(__dirname, '..', 'src', 'server.ts');
-  const content = fs.readFileSync(serverPath, 'utf-8');
-  const routes: { method: string; path: string }[] = [];
-  
-  const regex = /app\.(get|post|put|patch|delete).*?'(\/[^']+)'/g;
-  let match;
-  while ((match = regex.exec(content)) !== null) {
-    routes.push({ method: match[1].toUpperCase(), path: match[2] });
-  }
-  
-  // Also catch multiline route definitions
-  const lines = content.split('\n');
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const methodMatch = line.match(/app\.(get|post|put|patch|delete)/);
-    if (methodMatch && !line.includes("'")) {
-      // Path might be on next line
-      const nextLine = lines[i + 1] || '';
-      const pathMatch = nextLine.match(/'(\/[^']+)'/);
-      if (pathMatch) {
-        routes.push({ method: methodMatch[1].toUpperCase(), path: pathMatch[1] });
-      }
-    }
-  }
-  
-  // Dedupe
-  const seen = new Set<string>();
-  return routes.filter(r => {
-    const key = `${r.method} ${r.path}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+function listServerRoutes(): { method: string; path: string }[] {
+  return listRoutes()
+    .filter(([, , route]) => !route.hidden)
+    .map(([method, routePath]) => ({ method, path: routePath }));
 }
 
 function parseTelegramMethods(): string[] {
@@ -285,7 +256,7 @@ const TELEGRAM_FEATURES: Category[] = [
 // ── Analysis ──
 
 function analyze() {
-  const routes = parseServerRoutes();
+  const routes = listServerRoutes();
   const methods = parseTelegramMethods();
   
   let totalFeatures = 0;
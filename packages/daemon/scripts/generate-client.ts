@@ -0,0 +1,187 @@
+#!/usr/bin/env npx tsx
+/**
+ * Oceangram Daemon — Client Generator
+ *
+ * Writes packages/client/src/generated.ts from the daemon's OpenAPI document:
+ * a type per component schema, request and response types per operation,
+ * and an OceangramClient method per operation. Re-run after changing
+ * src/schemas.ts.
+ *
+ * Run: npx tsx scripts/generate-client.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { buildOpenApi } from '../src/openapi';
+
+type Schema = Record<string, any>;
+
+const OUTPUT = path.join(__dirname, '..', '..', 'client', 'src', 'generated.ts');
+
+// ── Schemas to TypeScript ──
+
+const pascal = (name: string) => name[0].toUpperCase() + name.slice(1);
+/** A value as TypeScript source, with the repo's single quotes */
+const literal = (value: unknown) => typeof value === 'string' ? `'${value.replace(/[\\']/g, '\\$&')}'` : JSON.stringify(value);
+const propertyName = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+
+function docComment(text: string | undefined, indent: string): string {
+  return text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+function tsType(schema: Schema | undefined, indent = ''): string {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+  if (schema.oneOf) return schema.oneOf.map((option: Schema) => tsType(option, indent)).join(' | ');
+  if (Array.isArray(schema.type)) {
+    return schema.type.map((type: string) => type === 'null' ? 'null' : tsType({ ...schema, type }, indent)).join(' | ');
+  }
+  switch (schema.type) {
+    case 'string': return 'string';
+    case 'integer':
+    case 'number': return 'number';
+    case 'boolean': return 'boolean';
+    case 'array': {
+      const item = tsType(schema.items, indent);
+      return /[|{]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object': return objectType(schema, indent);
+    default: return 'unknown';
+  }
+}
+
+function objectType(schema: Schema, indent: string): string {
+  if (!schema.properties) {
+    const values = schema.additionalProperties;
+    return `Record<string, ${values && values !== true ? tsType(values, indent) : 'unknown'}>`;
+  }
+  const required = new Set<string>(schema.required || []);
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties as Record<string, Schema>).map(([name, property]) =>
+    `${docComment(property.description, inner)}${inner}${propertyName(name)}${required.has(name) ? '' : '?'}: ${tsType(property, inner)};`);
+  return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+function declaration(name: string, schema: Schema): string {
+  const type = tsType(schema);
+  const doc = docComment(schema.description, '');
+  return type.startsWith('{') ? `${doc}export interface ${name} ${type}\n` : `${doc}export type ${name} = ${type};\n`;
+}
+
+// ── Operations ──
+
+interface Operation {
+  method: string;
+  path: string;
+  op: Schema;
+}
+
+function operations(spec: Schema): Operation[] {
+  const list: Operation[] = [];
+  for (const [routePath, methods] of Object.entries(spec.paths as Record<string, Schema>)) {
+    for (const [method, op] of Object.entries(methods)) list.push({ method: method.toUpperCase(), path: routePath, op });
+  }
+  return list;
+}
+
+/** The path as source, e.g. `/messages/${encodeURIComponent(String(messageId))}` in a template literal */
+function pathTemplate(routePath: string): string {
+  if (!routePath.includes('{')) return literal(routePath);
+  return '`' + routePath.replace(/\{(\w+)\}/g, (_match, name: string) => `\${encodeURIComponent(String(${name}))}`) + '`';
+}
+
+function generate(spec: Schema): string {
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const [name, schema] of Object.entries(spec.components.schemas as Record<string, Schema>)) {
+    types.push(declaration(name, schema));
+  }
+
+  for (const { method, path: routePath, op } of operations(spec)) {
+    const name = pascal(op.operationId);
+    const params: Schema[] = op.parameters || [];
+    const pathParams = params.filter((p) => p.in === 'path');
+    const queryParams = params.filter((p) => p.in === 'query');
+    const args = pathParams.map((p) => `${p.name}: ${tsType(p.schema)}`);
+    const call: string[] = ['...options'];
+    if (op['x-root']) call.push('root: true');
+
+    if (op['x-websocket']) {
+      types.push(declaration(`${name}Query`, {
+        type: 'object',
+        properties: Object.fromEntries(queryParams.map((p) => [p.name, { ...p.schema, description: p.description }])),
+      }));
+      methods.push(`${docComment(op.summary, '  ')}  ${op.operationId}Url(query?: ${name}Query): string {\n`
+        + `    return this.wsUrl(${pathTemplate(routePath)}, query);\n  }\n`);
+      continue;
+    }
+
+    if (queryParams.length) {
+      const required = queryParams.filter((p) => p.required).map((p) => p.name);
+      types.push(declaration(`${name}Query`, {
+        type: 'object',
+        properties: Object.fromEntries(queryParams.map((p) => [p.name, { ...p.schema, description: p.description }])),
+        required,
+      }));
+      args.push(`query${required.length ? '' : '?'}: ${name}Query`);
+      call.push('query');
+    }
+
+    const content: Record<string, Schema> = op.requestBody?.content || {};
+    if (content['application/json']) {
+      const body = content['application/json'].schema;
+      const optional = !op.requestBody.required;
+      types.push(declaration(`${name}Body`, optional ? { ...body, type: 'object' } : body));
+      args.push(`body${optional ? '?' : ''}: ${name}Body`);
+      call.push('body');
+    } else if (content['application/octet-stream']) {
+      args.push('data: Buffer');
+      call.push('raw: data');
+    }
+
+    const success = Object.entries(op.responses as Record<string, Schema>).filter(([status]) => /^2/.test(status));
+    const json = success.map(([, response]) => response.content?.['application/json']?.schema).filter(Boolean);
+    const signature = args.concat('options?: RequestOptions').join(', ');
+    const callOptions = call.length > 1 ? `{ ${call.join(', ')} }` : 'options';
+    if (json.length) {
+      types.push(declaration(`${name}Response`, json.length === 1 ? json[0] : { oneOf: json }));
+      methods.push(`${docComment(op.summary, '  ')}  ${op.operationId}(${signature}): Promise<${name}Response> {\n`
+        + `    return this.requestJson('${method}', ${pathTemplate(routePath)}, ${callOptions});\n  }\n`);
+    } else {
+      methods.push(`${docComment(op.summary, '  ')}  ${op.operationId}(${signature}): Promise<BinaryResponse | null> {\n`
+        + `    return this.requestBinary('${method}', ${pathTemplate(routePath)}, ${callOptions});\n  }\n`);
+    }
+
+    const form = content['multipart/form-data']?.schema;
+    if (form && json.length) {
+      const { file, ...fields } = form.properties as Record<string, Schema>;
+      const many = file.type === 'array';
+      types.push(declaration(`${name}Fields`, { type: 'object', properties: fields }));
+      const formArgs = pathParams.map((p) => `${p.name}: ${tsType(p.schema)}`)
+        .concat(many ? 'files: FileUpload[]' : 'file: FileUpload', `fields?: ${name}Fields`, 'options?: RequestOptions');
+      const formOptions = op['x-root'] ? '{ ...options, root: true }' : 'options';
+      methods.push(`${docComment(`${op.summary}, streaming ${many ? 'files' : 'the file'} from disk`, '  ')}`
+        + `  ${op.operationId}Multipart(${formArgs.join(', ')}): Promise<${name}Response> {\n`
+        + `    return this.requestMultipart(${pathTemplate(routePath)}, ${many ? 'files' : '[file]'}, fields, ${formOptions});\n  }\n`);
+    }
+  }
+
+  return `// Generated by packages/daemon/scripts/generate-client.ts from the daemon's OpenAPI document.
+// Do not edit; change packages/daemon/src/schemas.ts and re-run the generator.
+/* eslint-disable */
+import { BinaryResponse, DaemonTransport, FileUpload, RequestOptions } from './core';
+
+export const API_VERSION = ${literal(spec.info.version)};
+
+${types.join('\n')}
+/** One method per daemon route; account routes go to \`accountId\` */
+export class OceangramClient extends DaemonTransport {
+${methods.join('\n')}}
+`;
+}
+
+fs.writeFileSync(OUTPUT, generate(buildOpenApi()));
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { MessageInfo } from '../telegram';
+import { Cache } from '../cache';
+import { BackfillProgress, BackfillWorker, FetchPage } from '../backfill';
+
+const PAGE_SIZE = 3;
+
+/** A chat whose messages are numbered 1 to `count`, served newest first as Telegram pages history */
+function history(count: number): FetchPage {
+  return async (_dialogId, limit, offsetId) => {
+    const page: MessageInfo[] = [];
+    for (let id = Math.min(offsetId ? offsetId - 1 : count, count); id > 0 && page.length < limit; id--) {
+      page.push({ id, senderId: '7', senderName: 'Ann', text: `message ${id}`, timestamp: 1000 + id, isOutgoing: false });
+    }
+    return page;
+  };
+}
+
+describe('BackfillWorker', () => {
+  let dir: string;
+  let cache: Cache;
+  let worker: BackfillWorker;
+  let progress: BackfillProgress[];
+  let fetchPage: ReturnType<typeof vi.fn<FetchPage>>;
+
+  function startWorker(): void {
+    worker = new BackfillWorker(cache, fetchPage, (p) => progress.push(p), { pageSize: PAGE_SIZE, delayMs: 10 });
+    worker.start();
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backfill-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+    progress = [];
+    fetchPage = vi.fn<FetchPage>(history(7));
+    startWorker();
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    cache.close();
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('walks a dialog from newest to oldest, a page at a time', async () => {
+    worker.enqueue(['5']);
+    await vi.waitFor(() => expect(cache.getBackfillJob('5')).toMatchObject({ status: 'done', fetched: 7, oldestId: 1 }));
+    expect(fetchPage.mock.calls).toEqual([['5', 3, undefined], ['5', 3, 5], ['5', 3, 2]]);
+    expect(progress.map((p) => p.fetched)).toEqual([3, 6, 7]);
+  });
+
+  it('fetches one dialog after another', async () => {
+    worker.enqueue(['5', '6']);
+    await vi.waitFor(() => expect(cache.getBackfillJob('6')).toMatchObject({ status: 'done' }));
+    expect(fetchPage.mock.calls.map(([dialogId]) => dialogId)).toEqual(['5', '5', '5', '6', '6', '6']);
+  });
+
+  it('leaves finished dialogs alone and retries failed ones from where they stopped', async () => {
+    fetchPage.mockImplementationOnce(history(7)).mockRejectedValueOnce(new Error('CHANNEL_PRIVATE'));
+    worker.enqueue(['5']);
+    await vi.waitFor(() => expect(cache.getBackfillJob('5')).toMatchObject({ status: 'error', error: 'CHANNEL_PRIVATE', oldestId: 5 }));
+
+    worker.enqueue(['5']);
+    await vi.waitFor(() => expect(cache.getBackfillJob('5')).toMatchObject({ status: 'done', fetched: 7 }));
+    expect(fetchPage.mock.calls.at(-2)).toEqual(['5', 3, 5]);
+
+    const calls = fetchPage.mock.calls.length;
+    expect(worker.enqueue(['5'])).toMatchObject([{ status: 'done' }]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(fetchPage.mock.calls).toHaveLength(calls);
+  });
+
+  it('resumes a job after a restart', async () => {
+    fetchPage.mockImplementation(async (dialogId, limit, offsetId) => {
+      const page = await history(7)(dialogId, limit, offsetId);
+      // Stop the worker once the first page is in
+      if (!offsetId) void worker.stop();
+      return page;
+    });
+    worker.enqueue(['5']);
+    await vi.waitFor(() => expect(worker.isRunning()).toBe(false));
+    await worker.stop();
+    expect(cache.getBackfillJob('5')).toMatchObject({ status: 'running', oldestId: 5 });
+
+    fetchPage.mockImplementation(history(7));
+    startWorker();
+    await vi.waitFor(() => expect(cache.getBackfillJob('5')).toMatchObject({ status: 'done', fetched: 7 }));
+    expect(fetchPage.mock.calls.slice(1)).toEqual([['5', 3, 5], ['5', 3, 2]]);
+  });
+
+  it('pauses for a FLOOD_WAIT and then carries on', async () => {
+    await worker.stop();
+    vi.useFakeTimers();
+    fetchPage.mockRejectedValueOnce(Object.assign(new Error('FLOOD'), { errorMessage: 'FLOOD', seconds: 30 }));
+    startWorker();
+    worker.enqueue(['5']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(worker.getFloodWaitUntil()).toBeGreaterThan(Date.now() / 1000);
+    expect(progress.at(-1)).toMatchObject({ status: 'running', fetched: 0 });
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_100);
+    expect(cache.getBackfillJob('5')).toMatchObject({ status: 'done', fetched: 7 });
+    expect(worker.getFloodWaitUntil()).toBeUndefined();
+  });
+
+  it('drops a cancelled job', async () => {
+    let release!: () => void;
+    fetchPage.mockImplementationOnce(async (...args) => {
+      await new Promise<void>((resolve) => { release = resolve; });
+      return history(7)(...args);
+    });
+    worker.enqueue(['5']);
+    await vi.waitFor(() => expect(fetchPage).toHaveBeenCalled());
+    expect(worker.cancel('5')).toBe(true);
+    release();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(cache.getBackfillJob('5')).toBeNull();
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(worker.cancel('5')).toBe(false);
+  });
+});
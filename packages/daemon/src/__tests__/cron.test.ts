@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { localTime, nextCronRun, parseCron } from '../cron';
+
+const NEW_YORK = 'America/New_York';
+
+/** Unix seconds of a UTC time; months from 1 */
+function utc(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return Date.UTC(year, month - 1, day, hour, minute) / 1000;
+}
+
+/** The next `count` runs after `after` */
+function runs(expression: string, after: number, count: number, timeZone?: string): number[] {
+  const cron = parseCron(expression);
+  const result: number[] = [];
+  for (let t: number | null = after; result.length < count;) {
+    t = nextCronRun(cron, t, timeZone);
+    if (t === null) break;
+    result.push(t);
+  }
+  return result;
+}
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('*/20 9-17/4 1,15 * *');
+    expect([...cron.minutes]).toEqual([0, 20, 40]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect(cron.anyDay).toBe(false);
+    expect(cron.anyWeekday).toBe(true);
+  });
+
+  it('takes month and weekday names, and 7 for Sunday', () => {
+    const cron = parseCron('0 0 * JAN-mar sun,Wed,7');
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.weekdays].sort()).toEqual([0, 3]);
+  });
+
+  it('takes shorthands', () => {
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+    expect(parseCron(' @Daily ')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  it('says what is wrong', () => {
+    expect(() => parseCron('0 0 * *')).toThrow('cron needs five fields');
+    expect(() => parseCron('60 * * * *')).toThrow('cron minute must be 0-59: 60');
+    expect(() => parseCron('0 0 0 * *')).toThrow('cron day of month must be 1-31');
+    expect(() => parseCron('0 17-9 * * *')).toThrow('cron hour range runs backwards');
+    expect(() => parseCron('*/0 * * * *')).toThrow('cron minute has a bad step');
+    expect(() => parseCron('0 0 * * funday')).toThrow('cron weekday must be 0-7');
+  });
+
+  it('rejects dates that never come', () => {
+    expect(() => parseCron('0 0 30 feb *')).toThrow('cron never runs');
+    expect(() => parseCron('0 0 31 apr,jun,sep,nov *')).toThrow('cron never runs');
+  });
+});
+
+describe('nextCronRun', () => {
+  it('runs the next minute that matches, never at `after` itself', () => {
+    expect(runs('*/15 * * * *', utc(2024, 5, 1, 10, 0), 3, 'UTC')).toEqual([
+      utc(2024, 5, 1, 10, 15), utc(2024, 5, 1, 10, 30), utc(2024, 5, 1, 10, 45),
+    ]);
+    expect(runs('* * * * *', utc(2024, 5, 1, 10, 0) + 59, 1, 'UTC')).toEqual([utc(2024, 5, 1, 10, 1)]);
+  });
+
+  describe('weekdays', () => {
+    it('skips the weekend', () => {
+      // Friday 2024-05-03
+      expect(runs('0 9 * * mon-fri', utc(2024, 5, 3, 10), 2, 'UTC')).toEqual([utc(2024, 5, 6, 9), utc(2024, 5, 7, 9)]);
+    });
+
+    it('matches Sunday as 0 and 7', () => {
+      expect(runs('0 12 * * 7', utc(2024, 5, 1), 2, 'UTC')).toEqual([utc(2024, 5, 5, 12), utc(2024, 5, 12, 12)]);
+    });
+
+    it('runs on either day field when both are restricted', () => {
+      // The 13th or any Friday. September 13th 2024 is a Friday; October 13th a Sunday.
+      expect(runs('0 0 13 * fri', utc(2024, 9, 1), 4, 'UTC')).toEqual([
+        utc(2024, 9, 6), utc(2024, 9, 13), utc(2024, 9, 20), utc(2024, 9, 27),
+      ]);
+      expect(runs('0 0 13 10 fri', utc(2024, 10, 1), 4, 'UTC')).toEqual([
+        utc(2024, 10, 4), utc(2024, 10, 11), utc(2024, 10, 13), utc(2024, 10, 18),
+      ]);
+    });
+
+    it('uses the weekday in the time zone, not UTC', () => {
+      // 23:30 Monday in New York is already Tuesday in UTC
+      expect(runs('30 23 * * mon', utc(2024, 5, 1), 1, NEW_YORK)).toEqual([utc(2024, 5, 7, 3, 30)]);
+      expect(localTime(utc(2024, 5, 7, 3, 30), NEW_YORK)).toMatchObject({ weekday: 1, hour: 23, minute: 30 });
+    });
+  });
+
+  describe('February 29', () => {
+    it('waits for the next leap year', () => {
+      expect(runs('0 12 29 2 *', utc(2024, 3, 1), 2, 'UTC')).toEqual([utc(2028, 2, 29, 12), utc(2032, 2, 29, 12)]);
+    });
+
+    it('skips 2100, which is not a leap year', () => {
+      expect(runs('0 0 29 feb *', utc(2096, 3, 1), 1, 'UTC')).toEqual([utc(2104, 2, 29)]);
+    });
+
+    it('runs on the 28th and 1st around it as usual', () => {
+      expect(runs('0 0 28,1 2,3 *', utc(2024, 2, 27), 2, 'UTC')).toEqual([utc(2024, 2, 28), utc(2024, 3, 1)]);
+    });
+  });
+
+  describe('daylight saving time', () => {
+    it('keeps runs at the same wall-clock time across a change', () => {
+      // Clocks go forward on 2024-03-10 and back on 2024-11-03
+      expect(runs('0 9 * * *', utc(2024, 3, 9), 2, NEW_YORK)).toEqual([utc(2024, 3, 9, 14), utc(2024, 3, 10, 13)]);
+      expect(runs('0 9 * * *', utc(2024, 11, 2), 2, NEW_YORK)).toEqual([utc(2024, 11, 2, 13), utc(2024, 11, 3, 14)]);
+    });
+
+    it('does not run at a time the change skips', () => {
+      // 02:30 doesn't exist on 2024-03-10
+      expect(runs('30 2 * * *', utc(2024, 3, 9, 12), 2, NEW_YORK)).toEqual([utc(2024, 3, 11, 6, 30), utc(2024, 3, 12, 6, 30)]);
+    });
+
+    it('runs once at a time the change repeats', () => {
+      // 01:30 comes twice on 2024-11-03, at 05:30 and 06:30 UTC
+      expect(runs('30 1 * * *', utc(2024, 11, 2, 12), 2, NEW_YORK)).toEqual([utc(2024, 11, 3, 5, 30), utc(2024, 11, 4, 6, 30)]);
+      expect(runs('*/30 * * * *', utc(2024, 11, 3, 4, 45), 4, NEW_YORK)).toEqual([
+        utc(2024, 11, 3, 5), utc(2024, 11, 3, 5, 30), utc(2024, 11, 3, 7), utc(2024, 11, 3, 7, 30),
+      ]);
+    });
+
+    it('finds a day-restricted run on the day of a change', () => {
+      expect(runs('0 12 10 3 *', utc(2024, 3, 1), 1, NEW_YORK)).toEqual([utc(2024, 3, 10, 16)]);
+      expect(runs('59 23 * * sun', utc(2024, 11, 2), 1, NEW_YORK)).toEqual([utc(2024, 11, 4, 4, 59)]);
+    });
+  });
+});
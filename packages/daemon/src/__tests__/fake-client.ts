@@ -0,0 +1,67 @@
+import bigInt from 'big-integer';
+import { Api, TelegramClient } from 'telegram';
+import { UpdateConnectionState } from 'telegram/network';
+
+export const SELF_ID = 1;
+
+type Respond = (request: Api.AnyRequest) => unknown;
+
+/**
+ * Stands in for a gramJS client. Requests are answered by `respond` by class
+ * name (`updates.GetState`, ...) and recorded in `requests`; updates are pushed
+ * to the handlers the service added, as gramJS dispatches them.
+ */
+export class FakeClient {
+  requests: Api.AnyRequest[] = [];
+  respond: Record<string, Respond> = {
+    'updates.GetState': () => new Api.updates.State({ pts: 1, qts: 0, seq: 0, date: 0, unreadCount: 0 }),
+    'auth.LogOut': () => new Api.auth.LoggedOut({}),
+  };
+  /** What `getMessages` answers with, and the params of each call */
+  messages: Api.Message[] = [];
+  messageQueries: Record<string, unknown>[] = [];
+  floodSleepThreshold = 60;
+  session = { save: () => 'fake-session' };
+  private handlers: ((update: unknown) => void)[] = [];
+
+  async connect(): Promise<boolean> { return true; }
+  async disconnect(): Promise<void> { /* nothing to close */ }
+  async destroy(): Promise<void> { /* nothing to close */ }
+  async isUserAuthorized(): Promise<boolean> { return true; }
+  async getMe(): Promise<Api.InputPeerUser> { return new Api.InputPeerUser({ userId: bigInt(SELF_ID), accessHash: bigInt(0) }); }
+  async getEntity(id: string): Promise<Api.InputPeerUser> { return this.getInputEntity(id); }
+  async getInputEntity(id: string): Promise<Api.InputPeerUser> { return new Api.InputPeerUser({ userId: bigInt(id), accessHash: bigInt(0) }); }
+
+  async getMessages(_entity: unknown, params: Record<string, unknown>): Promise<Api.Message[]> {
+    this.messageQueries.push(params);
+    return this.messages;
+  }
+
+  addEventHandler(handler: (update: unknown) => void): void {
+    this.handlers.push(handler);
+  }
+
+  async invoke(request: Api.AnyRequest): Promise<unknown> {
+    this.requests.push(request);
+    const respond = this.respond[request.className];
+    if (!respond) throw new Error(`Unexpected ${request.className}`);
+    return respond(request);
+  }
+
+  invokeWithSender(request: Api.AnyRequest): Promise<unknown> {
+    return this.invoke(request);
+  }
+
+  /** Dispatch an update, or a connection state change, to the service. */
+  push(update: Api.TypeUpdate | Api.TypeUpdates | UpdateConnectionState): void {
+    for (const handler of this.handlers) handler(update);
+  }
+
+  setConnected(connected: boolean): void {
+    this.push(new UpdateConnectionState(connected ? UpdateConnectionState.connected : UpdateConnectionState.disconnected));
+  }
+
+  asClient(): TelegramClient {
+    return this as unknown as TelegramClient;
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { Api } from 'telegram';
+import { formatText, parseFormatOptions, parseHtml, parseMarkdown, parseSendOptions, toInputEntities } from '../formatting';
+
+describe('parseMarkdown', () => {
+  it('parses inline styles', () => {
+    expect(parseMarkdown('**bold** *it* _it_ __under__ ~~gone~~ ||secret||')).toEqual({
+      text: 'bold it it under gone secret',
+      entities: [
+        { type: 'bold', offset: 0, length: 4 },
+        { type: 'italic', offset: 5, length: 2 },
+        { type: 'italic', offset: 8, length: 2 },
+        { type: 'underline', offset: 11, length: 5 },
+        { type: 'strikethrough', offset: 17, length: 4 },
+        { type: 'spoiler', offset: 22, length: 6 },
+      ],
+    });
+  });
+
+  it('nests styles, outer entity first', () => {
+    expect(parseMarkdown('**bold _both_**')).toEqual({
+      text: 'bold both',
+      entities: [
+        { type: 'bold', offset: 0, length: 9 },
+        { type: 'italic', offset: 5, length: 4 },
+      ],
+    });
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(parseMarkdown('call snake_case_name now')).toEqual({ text: 'call snake_case_name now', entities: [] });
+  });
+
+  it('keeps unclosed and space-padded markers as text', () => {
+    expect(parseMarkdown('2 * 3 and **open')).toEqual({ text: '2 * 3 and **open', entities: [] });
+  });
+
+  it('keeps escaped characters literal', () => {
+    expect(parseMarkdown('\\*not italic\\* \\[x\\]')).toEqual({ text: '*not italic* [x]', entities: [] });
+  });
+
+  it('does not parse markers inside code', () => {
+    expect(parseMarkdown('run `a *b* c`')).toEqual({
+      text: 'run a *b* c',
+      entities: [{ type: 'code', offset: 4, length: 7 }],
+    });
+  });
+
+  it('parses fenced code blocks with a language', () => {
+    expect(parseMarkdown('before\n```ts\nconst x = **1**;\n```\nafter')).toEqual({
+      text: 'before\nconst x = **1**;\nafter',
+      entities: [{ type: 'pre', offset: 7, length: 16, language: 'ts' }],
+    });
+  });
+
+  it('parses links, and tg://user links as mentions', () => {
+    expect(parseMarkdown('[**site**](https://example.com) [Bob](tg://user?id=42)')).toEqual({
+      text: 'site Bob',
+      entities: [
+        { type: 'bold', offset: 0, length: 4 },
+        { type: 'text_link', offset: 0, length: 4, url: 'https://example.com' },
+        { type: 'mention_name', offset: 5, length: 3, userId: '42' },
+      ],
+    });
+  });
+
+  it('turns runs of quoted lines into one blockquote', () => {
+    expect(parseMarkdown('> one\n> **two**\nthree')).toEqual({
+      text: 'one\ntwo\nthree',
+      entities: [
+        { type: 'blockquote', offset: 0, length: 7 },
+        { type: 'bold', offset: 4, length: 3 },
+      ],
+    });
+  });
+
+  it('drops empty spans', () => {
+    expect(parseMarkdown('[](https://example.com)').entities).toEqual([]);
+  });
+});
+
+describe('parseHtml', () => {
+  it('accepts the Bot API spoiler tag and tg://user links', () => {
+    expect(parseHtml('<b>hi</b> <tg-spoiler>x</tg-spoiler> <a href="tg://user?id=7">Ann</a>')).toEqual({
+      text: 'hi x Ann',
+      entities: [
+        { type: 'bold', offset: 0, length: 2 },
+        { type: 'spoiler', offset: 3, length: 1 },
+        { type: 'mention_name', offset: 5, length: 3, userId: '7' },
+      ],
+    });
+  });
+});
+
+describe('formatText', () => {
+  it('sends text as typed without a parse mode', () => {
+    expect(formatText('**x**')).toEqual({ text: '**x**', entities: [] });
+  });
+
+  it('passes given entities through', () => {
+    const entities = [{ type: 'bold' as const, offset: 0, length: 5 }];
+    expect(formatText('**x**', { entities })).toEqual({ text: '**x**', entities });
+  });
+});
+
+describe('parseFormatOptions', () => {
+  it('rejects an unknown parse mode', () => {
+    expect(() => parseFormatOptions({ parseMode: 'rst' }, 'x')).toThrow('parseMode must be one of markdown, html');
+  });
+
+  it('rejects a parse mode together with entities', () => {
+    expect(() => parseFormatOptions({ parseMode: 'html', entities: [] }, 'x')).toThrow('not both');
+  });
+
+  it('rejects entities outside the text', () => {
+    expect(() => parseFormatOptions({ entities: [{ type: 'bold', offset: 2, length: 5 }] }, 'hello'))
+      .toThrow('entities[0]: offset and length must lie within the text');
+  });
+
+  it('rejects unknown entity types and missing fields', () => {
+    expect(() => parseFormatOptions({ entities: [{ type: 'blink', offset: 0, length: 1 }] }, 'x')).toThrow('unknown type');
+    expect(() => parseFormatOptions({ entities: [{ type: 'text_link', offset: 0, length: 1 }] }, 'x')).toThrow('needs url');
+    expect(() => parseFormatOptions({ entities: [{ type: 'mention_name', offset: 0, length: 1, userId: 'bob' }] }, 'x'))
+      .toThrow('needs userId');
+  });
+
+  it('keeps only the fields that belong to each type', () => {
+    const { entities } = parseFormatOptions({
+      entities: [
+        { type: 'pre', offset: 0, length: 1, language: 'py', url: 'https://example.com' },
+        { type: 'blockquote', offset: 0, length: 1, collapsed: true },
+        { type: 'bold', offset: 0, length: 1, collapsed: true },
+      ],
+    }, 'x');
+    expect(entities).toEqual([
+      { type: 'pre', offset: 0, length: 1, language: 'py' },
+      { type: 'blockquote', offset: 0, length: 1, collapsed: true },
+      { type: 'bold', offset: 0, length: 1 },
+    ]);
+  });
+});
+
+describe('parseSendOptions', () => {
+  it('takes delivery options', () => {
+    expect(parseSendOptions({ parseMode: 'markdown', silent: true, sendAs: '@chan', topMsgId: 3 }, 'x'))
+      .toEqual({ parseMode: 'markdown', silent: true, sendAs: '@chan', topMsgId: 3 });
+  });
+
+  it('needs replyTo for quoteText', () => {
+    expect(() => parseSendOptions({ quoteText: 'part' }, 'x')).toThrow('quoteText needs replyTo');
+    expect(parseSendOptions({ quoteText: 'part', replyTo: 5 }, 'x')).toEqual({ quoteText: 'part' });
+  });
+
+  it('rejects a bad topMsgId', () => {
+    expect(() => parseSendOptions({ topMsgId: -1 }, 'x')).toThrow('topMsgId must be a message id');
+  });
+});
+
+describe('toInputEntities', () => {
+  it('builds Telegram entities and resolves mentioned users', async () => {
+    const resolved: string[] = [];
+    const result = await toInputEntities([
+      { type: 'bold', offset: 0, length: 1 },
+      { type: 'pre', offset: 0, length: 2 },
+      { type: 'text_link', offset: 1, length: 1, url: 'https://example.com' },
+      { type: 'mention_name', offset: 2, length: 1, userId: '42' },
+    ], async (userId) => {
+      resolved.push(userId);
+      return new Api.InputUserSelf();
+    });
+    expect(resolved).toEqual(['42']);
+    expect(result[0]).toBeInstanceOf(Api.MessageEntityBold);
+    expect(result[1]).toMatchObject({ className: 'MessageEntityPre', language: '' });
+    expect(result[2]).toMatchObject({ className: 'MessageEntityTextUrl', url: 'https://example.com' });
+    expect(result[3]).toBeInstanceOf(Api.InputMessageEntityMentionName);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Api } from 'telegram';
+import type { DaemonConfig } from '../config';
+import type { MessageInfo, SequencedEvent } from '../telegram';
+import { Cache } from '../cache';
+import { Outbox, OutboxEvent, OutboxItem } from '../outbox';
+import { TelegramService } from '../telegram';
+import { FakeClient } from './fake-client';
+
+let config: DaemonConfig = {};
+let dir: string;
+vi.mock('../config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config,
+  saveConfig: (next: DaemonConfig) => { config = next; },
+  getAccountSession: () => config.session,
+  getAccountUploadDir: () => path.join(dir, 'uploads'),
+  getAccountMediaDir: () => path.join(dir, 'media'),
+}));
+
+/** A FLOOD_WAIT as gramJS throws it */
+function floodWait(seconds: number): Error {
+  return Object.assign(new Error(`A wait of ${seconds} seconds is required`), { errorMessage: 'FLOOD', seconds });
+}
+
+describe('Outbox', () => {
+  let cache: Cache;
+  let outbox: Outbox;
+  let connected: boolean;
+  let events: OutboxEvent[];
+  let delivered: string[];
+  let deliver: (item: OutboxItem) => Promise<MessageInfo>;
+  let nextId: number;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+    connected = false;
+    events = [];
+    delivered = [];
+    nextId = 100;
+    deliver = async (item) => {
+      delivered.push(item.payload.text ?? item.kind);
+      return { id: nextId++, senderId: '1', senderName: 'Me', text: item.payload.text ?? '', timestamp: 1000, isOutgoing: true };
+    };
+    outbox = new Outbox(cache, (item) => deliver(item), (event) => events.push(event), () => connected);
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    cache.close();
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('holds sends while disconnected and delivers them in order on flush', async () => {
+    outbox.enqueue('5', 'message', { text: 'one' }, 'a');
+    outbox.enqueue('5', 'message', { text: 'two' }, 'b');
+    await outbox.flush();
+    expect(delivered).toEqual([]);
+    expect(outbox.hasQueued()).toBe(true);
+    expect(events.map((event) => event.type)).toEqual(['outboxQueued', 'outboxQueued']);
+
+    connected = true;
+    await outbox.flush();
+    expect(delivered).toEqual(['one', 'two']);
+    expect(outbox.list()).toEqual([]);
+    expect(events.slice(2)).toMatchObject([
+      { type: 'outboxSent', dialogId: '5', clientMsgId: 'a', message: { id: 100 } },
+      { type: 'outboxSent', dialogId: '5', clientMsgId: 'b', message: { id: 101 } },
+    ]);
+  });
+
+  it('keeps one item per clientMsgId', async () => {
+    const first = outbox.enqueue('5', 'message', { text: 'one' }, 'a');
+    const again = outbox.enqueue('5', 'message', { text: 'one, edited' }, 'a');
+    expect(again).toEqual(first);
+    expect(outbox.list()).toHaveLength(1);
+    expect(outbox.enqueue('5', 'message', { text: 'no id' }).clientMsgId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('lists file sends by size, not contents', () => {
+    outbox.enqueue('5', 'file', { data: Buffer.from('hello').toString('base64'), fileName: 'a.txt' }, 'a');
+    expect(outbox.list()[0].payload).toEqual({ size: 5, fileName: 'a.txt' });
+  });
+
+  it('marks a rejected send failed, skips it and retries it on request', async () => {
+    deliver = async () => { throw new Error('MESSAGE_EMPTY'); };
+    outbox.enqueue('5', 'message', { text: 'bad' }, 'a');
+    connected = true;
+    await outbox.flush();
+    expect(outbox.list()).toMatchObject([{ clientMsgId: 'a', status: 'failed', error: 'MESSAGE_EMPTY', attempts: 1 }]);
+    expect(events.at(-1)).toEqual({ type: 'outboxFailed', dialogId: '5', clientMsgId: 'a', error: 'MESSAGE_EMPTY' });
+    expect(outbox.hasQueued()).toBe(false);
+
+    deliver = async () => ({ id: 100, senderId: '1', senderName: 'Me', text: 'bad', timestamp: 1000, isOutgoing: true });
+    // Sending the same id again retries it
+    outbox.enqueue('5', 'message', { text: 'bad' }, 'a');
+    await outbox.flush();
+    expect(outbox.list()).toEqual([]);
+    expect(events.at(-1)).toMatchObject({ type: 'outboxSent', clientMsgId: 'a' });
+  });
+
+  it('keeps a send that failed because the connection dropped', async () => {
+    connected = true;
+    deliver = async () => { connected = false; throw new Error('Not connected'); };
+    outbox.enqueue('5', 'message', { text: 'one' }, 'a');
+    await outbox.flush();
+    expect(outbox.list()).toMatchObject([{ clientMsgId: 'a', status: 'queued', attempts: 0 }]);
+  });
+
+  it('holds the whole queue through a FLOOD_WAIT', async () => {
+    vi.useFakeTimers();
+    connected = true;
+    const send = deliver;
+    deliver = async () => { throw floodWait(3); };
+    outbox.enqueue('5', 'message', { text: 'one' }, 'a');
+    await outbox.flush();
+    deliver = send;
+    outbox.enqueue('5', 'message', { text: 'two' }, 'b');
+    await outbox.flush();
+    expect(delivered).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(delivered).toEqual(['one', 'two']);
+  });
+
+  it('deletes a staged upload once sent or removed', async () => {
+    const staged = [path.join(dir, 'a.bin'), path.join(dir, 'b.bin')];
+    for (const file of staged) fs.writeFileSync(file, 'data');
+    outbox.enqueue('5', 'file', { path: staged[0] }, 'a');
+    outbox.enqueue('5', 'file', { path: staged[1] }, 'b');
+
+    expect(outbox.remove('b')).toBe(true);
+    expect(fs.existsSync(staged[1])).toBe(false);
+    connected = true;
+    await outbox.flush();
+    expect(fs.existsSync(staged[0])).toBe(false);
+    expect(outbox.remove('a')).toBe(false);
+  });
+});
+
+describe('outbox across connection drops', () => {
+  let client: FakeClient;
+  let service: TelegramService;
+  let events: SequencedEvent[];
+  let sent: string[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+    config = {};
+    client = new FakeClient();
+    sent = [];
+    client.respond['messages.SendMessage'] = (request) => {
+      sent.push((request as Api.messages.SendMessage).message);
+      return new Api.UpdateShortSentMessage({ out: true, id: 100 + sent.length, pts: 2, ptsCount: 1, date: Math.floor(Date.now() / 1000) });
+    };
+    service = new TelegramService('default', { cache: new Cache(path.join(dir, 'cache.db')), createClient: () => client.asClient() });
+    events = [];
+    service.onEvent((event) => events.push(event));
+    await service.connect();
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('queues sends while gramJS is reconnecting and flushes them once it is back', async () => {
+    client.setConnected(false);
+    expect(service.shouldQueueSend('a')).toBe(true);
+    service.queueSend('5', 'message', { text: 'while offline' }, 'a');
+    expect(sent).toEqual([]);
+
+    client.setConnected(true);
+    await vi.waitFor(() => expect(events).toContainEqual(expect.objectContaining({ type: 'outboxSent', clientMsgId: 'a' })));
+    expect(sent).toEqual(['while offline']);
+    expect(service.shouldQueueSend('b')).toBe(false);
+  });
+
+  it('gives up a connect that cannot reach Telegram, for the caller to try again', async () => {
+    await service.disconnect();
+    const unreachable = new FakeClient();
+    unreachable.connect = async () => false;
+    const destroy = vi.spyOn(unreachable, 'destroy');
+    service = new TelegramService('default', { cache: new Cache(path.join(dir, 'cache.db')), createClient: () => unreachable.asClient() });
+    await expect(service.connect()).rejects.toThrow('Could not reach Telegram');
+    expect(destroy).toHaveBeenCalled();
+    expect(service.isConnected()).toBe(false);
+  });
+});
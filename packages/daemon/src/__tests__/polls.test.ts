@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import type { PollInfo } from '../message-content';
+import { Cache } from '../cache';
+import { mergePollResults, parseNewPoll, parsePollOptions, toInputMediaPoll, toPollVoteList } from '../polls';
+
+/** Base64 options of the answers `toInputMediaPoll` numbers from 0 */
+const OPTION_0 = Buffer.from('0').toString('base64');
+const OPTION_1 = Buffer.from('1').toString('base64');
+
+function poll(fields: Partial<PollInfo> = {}): PollInfo {
+  return {
+    id: '99', question: 'Lunch?', closed: false, quiz: false, multipleChoice: false, publicVoters: false,
+    answers: [{ text: 'Yes', option: OPTION_0 }, { text: 'No', option: OPTION_1 }],
+    ...fields,
+  };
+}
+
+function voters(option: string, count: number, fields: Partial<Api.PollAnswerVoters> = {}): Api.PollAnswerVoters {
+  return new Api.PollAnswerVoters({ option: Buffer.from(option, 'base64'), voters: count, ...fields });
+}
+
+describe('parseNewPoll', () => {
+  it('takes regular polls and quizzes', () => {
+    expect(parseNewPoll({ question: 'Lunch?', answers: ['Yes', 'No'], multipleChoice: true, publicVoters: true, closePeriod: 60 }))
+      .toEqual({ question: 'Lunch?', answers: ['Yes', 'No'], multipleChoice: true, publicVoters: true, closePeriod: 60 });
+    expect(parseNewPoll({ question: '2+2?', answers: ['3', '4'], quiz: true, correctAnswer: 1, solution: 'Count' }))
+      .toEqual({ question: '2+2?', answers: ['3', '4'], quiz: true, correctAnswer: 1, solution: 'Count' });
+  });
+
+  it('says what is wrong', () => {
+    const answers = ['Yes', 'No'];
+    expect(() => parseNewPoll({ question: ' ', answers })).toThrow('question required');
+    expect(() => parseNewPoll({ question: 'Q', answers: ['Yes'] })).toThrow('answers must list 2-10 options');
+    expect(() => parseNewPoll({ question: 'Q', answers: ['Yes', ''] })).toThrow('Each answer must be a non-empty string');
+    expect(() => parseNewPoll({ question: 'Q', answers, quiz: true, correctAnswer: 2 })).toThrow('correctAnswer must be the index');
+    expect(() => parseNewPoll({ question: 'Q', answers, quiz: true, correctAnswer: 0, multipleChoice: true })).toThrow('cannot be multiple choice');
+    expect(() => parseNewPoll({ question: 'Q', answers, correctAnswer: 0 })).toThrow('correctAnswer and solution are for quizzes');
+    expect(() => parseNewPoll({ question: 'Q', answers, closePeriod: 4 })).toThrow('closePeriod must be 5-600 seconds');
+    expect(() => parseNewPoll({ question: 'Q', answers, closeDate: 1 })).toThrow('closeDate must be a future unix timestamp');
+    expect(() => parseNewPoll({ question: 'Q', answers, closePeriod: 60, closeDate: 4_000_000_000 })).toThrow('not both');
+  });
+});
+
+describe('toInputMediaPoll', () => {
+  it('marks the right answer of a quiz', () => {
+    const media = toInputMediaPoll({ question: '2+2?', answers: ['3', '4'], quiz: true, correctAnswer: 1, solution: 'Count' });
+    expect((media.poll as Api.Poll).answers.map((a) => Buffer.from(a.option).toString('base64'))).toEqual([OPTION_0, OPTION_1]);
+    expect(media.correctAnswers).toEqual([Buffer.from('1')]);
+    expect(media).toMatchObject({ solution: 'Count', solutionEntities: [] });
+    expect(toInputMediaPoll({ question: 'Lunch?', answers: ['Yes', 'No'] }).correctAnswers).toBeUndefined();
+  });
+});
+
+describe('mergePollResults', () => {
+  it('applies counts and our vote', () => {
+    const results = new Api.PollResults({ results: [voters(OPTION_0, 3, { chosen: true }), voters(OPTION_1, 1)], totalVoters: 4 });
+    expect(mergePollResults(poll(), undefined, results)).toEqual(poll({
+      answers: [{ text: 'Yes', option: OPTION_0, voters: 3, chosen: true }, { text: 'No', option: OPTION_1, voters: 1 }],
+      totalVoters: 4,
+    }));
+  });
+
+  it('keeps the vote we knew when results leave it out', () => {
+    const prev = poll({ answers: [{ text: 'Yes', option: OPTION_0, voters: 3, chosen: true }, { text: 'No', option: OPTION_1, voters: 1 }] });
+    const min = new Api.PollResults({ min: true, results: [voters(OPTION_0, 3), voters(OPTION_1, 2)], totalVoters: 5 });
+    expect(mergePollResults(prev, undefined, min)?.answers).toEqual([
+      { text: 'Yes', option: OPTION_0, voters: 3, chosen: true }, { text: 'No', option: OPTION_1, voters: 2 },
+    ]);
+  });
+
+  it('takes the poll itself when sent, closed for one', () => {
+    const closed = new Api.Poll({
+      id: bigInt(99), question: new Api.TextWithEntities({ text: 'Lunch?', entities: [] }), closed: true,
+      answers: [
+        new Api.PollAnswer({ text: new Api.TextWithEntities({ text: 'Yes', entities: [] }), option: Buffer.from('0') }),
+        new Api.PollAnswer({ text: new Api.TextWithEntities({ text: 'No', entities: [] }), option: Buffer.from('1') }),
+      ],
+    });
+    const prev = poll({ answers: [{ text: 'Yes', option: OPTION_0, voters: 3 }, { text: 'No', option: OPTION_1, voters: 1 }], totalVoters: 4 });
+    expect(mergePollResults(prev, closed, new Api.PollResults({}))).toEqual({ ...prev, closed: true });
+  });
+
+  it('needs the poll or what we knew of it', () => {
+    expect(mergePollResults(undefined, undefined, new Api.PollResults({}))).toBeUndefined();
+  });
+});
+
+describe('votes', () => {
+  it('lists who voted for what', () => {
+    const list = toPollVoteList(new Api.messages.VotesList({
+      count: 2,
+      votes: [
+        new Api.MessagePeerVote({ peer: new Api.PeerUser({ userId: bigInt(7) }), option: Buffer.from('0'), date: 1000 }),
+        new Api.MessagePeerVoteMultiple({ peer: new Api.PeerUser({ userId: bigInt(8) }), options: [Buffer.from('0'), Buffer.from('1')], date: 900 }),
+      ],
+      chats: [],
+      users: [new Api.User({ id: bigInt(7), firstName: 'Ann' })],
+      nextOffset: 'next',
+    }));
+    expect(list).toEqual({
+      count: 2,
+      votes: [
+        { peerId: '7', name: 'Ann', options: [OPTION_0], date: 1000 },
+        { peerId: '8', name: 'Unknown', options: [OPTION_0, OPTION_1], date: 900 },
+      ],
+      nextOffset: 'next',
+    });
+  });
+
+  it('parses the options voted for', () => {
+    expect(parsePollOptions([OPTION_1])).toEqual([Buffer.from('1')]);
+    expect(parsePollOptions([])).toEqual([]);
+    expect(parsePollOptions([''])).toBeNull();
+    expect(parsePollOptions(OPTION_1)).toBeNull();
+  });
+});
+
+describe('cached polls', () => {
+  let dir: string;
+  let cache: Cache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'polls-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+  });
+
+  afterEach(() => {
+    cache.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds every message carrying a poll, forwards included, and updates them', () => {
+    const message = { id: 5, senderId: '7', senderName: 'Ann', text: '', timestamp: 1000, isOutgoing: false, mediaType: 'poll' as const, poll: poll() };
+    cache.upsertMessages('-1009', [message]);
+    cache.upsertMessages('6', [{ ...message, id: 8 }]);
+    cache.upsertMessages('6', [{ ...message, id: 9, poll: poll({ id: '100' }) }]);
+    expect(cache.findPollMessages('99').map(({ dialogId, messageId }) => `${dialogId}:${messageId}`).sort()).toEqual(['-1009:5', '6:8']);
+
+    cache.setMessagePoll('-1009', 5, poll({ closed: true }));
+    expect(cache.getMessages('-1009', 10)[0].poll?.closed).toBe(true);
+    expect(cache.getMessages('6', 10).find((m) => m.id === 8)?.poll?.closed).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import { Cache } from '../cache';
+import {
+  chosenReactions, parseReaction, reactionKey, toAllowedReactions, toApiReaction, toReactionCounts, toReactionList,
+} from '../reactions';
+
+const THUMBS_UP = new Api.ReactionEmoji({ emoticon: '👍' });
+const CUSTOM = new Api.ReactionCustomEmoji({ documentId: bigInt('5368324170671202286') });
+
+function messageReactions(min: boolean): Api.MessageReactions {
+  return new Api.MessageReactions({
+    min,
+    results: [
+      new Api.ReactionCount({ reaction: THUMBS_UP, count: 3, chosenOrder: 1 }),
+      new Api.ReactionCount({ reaction: CUSTOM, count: 1, chosenOrder: 0 }),
+      new Api.ReactionCount({ reaction: new Api.ReactionPaid(), count: 5 }),
+      new Api.ReactionCount({ reaction: new Api.ReactionEmoji({ emoticon: '🔥' }), count: 0 }),
+    ],
+  });
+}
+
+describe('toReactionCounts', () => {
+  it('lists emoji, custom emoji and paid reactions, skipping empty counts', () => {
+    expect(toReactionCounts(messageReactions(false))).toEqual([
+      { emoji: '👍', count: 3, isSelected: true },
+      { emoji: '❓', customEmojiId: '5368324170671202286', count: 1, isSelected: true },
+      { emoji: '⭐', paid: true, count: 5, isSelected: false },
+    ]);
+  });
+
+  it('leaves out our choice when Telegram did not send it', () => {
+    expect(toReactionCounts(messageReactions(true)).map((count) => count.isSelected)).toEqual([undefined, undefined, undefined]);
+  });
+});
+
+describe('chosenReactions', () => {
+  it('lists our picks in the order they were made', () => {
+    expect(chosenReactions(messageReactions(false))).toEqual([{ customEmojiId: '5368324170671202286' }, { emoji: '👍' }]);
+    expect(chosenReactions(undefined)).toEqual([]);
+  });
+});
+
+describe('reactions from requests', () => {
+  it('parses emoji and custom emoji', () => {
+    expect(parseReaction({ emoji: '👍' })).toEqual({ emoji: '👍' });
+    expect(parseReaction({ customEmojiId: '123', emoji: '👍' })).toEqual({ customEmojiId: '123' });
+    expect(parseReaction({ customEmojiId: 'abc' })).toBeNull();
+    expect(parseReaction({ emoji: '' })).toBeNull();
+  });
+
+  it('turns them back into API reactions', () => {
+    expect(toApiReaction({ emoji: '👍' })).toEqual(THUMBS_UP);
+    expect(toApiReaction({ customEmojiId: '5368324170671202286' })).toEqual(CUSTOM);
+    expect(() => toApiReaction({ paid: true })).toThrow('Reaction needs emoji or customEmojiId');
+  });
+
+  it('tells reactions apart by kind', () => {
+    expect(reactionKey({ emoji: '👍' })).toBe('emoji:👍');
+    expect(reactionKey({ customEmojiId: '1', emoji: '👍' })).toBe('custom:1');
+    expect(reactionKey({ paid: true })).toBe('paid');
+  });
+});
+
+describe('toReactionList', () => {
+  it('names each reactor and passes on the next offset', () => {
+    const list = toReactionList(new Api.messages.MessageReactionsList({
+      count: 2,
+      reactions: [
+        new Api.MessagePeerReaction({ peerId: new Api.PeerUser({ userId: bigInt(7) }), reaction: THUMBS_UP, date: 1000, my: true }),
+        new Api.MessagePeerReaction({ peerId: new Api.PeerChannel({ channelId: bigInt(9) }), reaction: CUSTOM, date: 900, big: true, unread: true }),
+      ],
+      chats: [new Api.Channel({ id: bigInt(9), title: 'News', photo: new Api.ChatPhotoEmpty(), date: 0 })],
+      users: [new Api.User({ id: bigInt(7), firstName: 'Ann', lastName: 'Lee' })],
+      nextOffset: 'next',
+    }));
+    expect(list).toEqual({
+      count: 2,
+      reactors: [
+        { peerId: '7', name: 'Ann Lee', reaction: { emoji: '👍' }, date: 1000, my: true },
+        { peerId: '-1009', name: 'News', reaction: { customEmojiId: '5368324170671202286' }, date: 900, big: true, unread: true },
+      ],
+      nextOffset: 'next',
+    });
+  });
+});
+
+describe('toAllowedReactions', () => {
+  const standard = [{ emoji: '👍' }, { emoji: '🔥' }];
+
+  it('reads the chat settings', () => {
+    expect(toAllowedReactions(new Api.ChatReactionsSome({ reactions: [THUMBS_UP] }), 2, standard))
+      .toEqual({ mode: 'some', reactions: [{ emoji: '👍' }], limit: 2 });
+    expect(toAllowedReactions(new Api.ChatReactionsAll({ allowCustom: true }), undefined, standard))
+      .toEqual({ mode: 'all', reactions: standard, allowCustom: true });
+    expect(toAllowedReactions(new Api.ChatReactionsNone(), undefined, standard)).toEqual({ mode: 'none', reactions: [] });
+  });
+
+  it('allows every standard reaction in a private chat', () => {
+    expect(toAllowedReactions(undefined, undefined, standard)).toEqual({ mode: 'all', reactions: standard });
+  });
+});
+
+describe('Cache.setMessageReactions', () => {
+  it('updates the message in its chat and in forum topics', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reactions-test-'));
+    const cache = new Cache(path.join(dir, 'cache.db'));
+    try {
+      const message = { id: 5, senderId: '7', senderName: 'Ann', text: 'hi', timestamp: 1000, isOutgoing: false };
+      cache.upsertMessages('-1009', [message]);
+      cache.upsertMessages('-1009:3', [message]);
+      cache.upsertMessages('-1008', [message]);
+
+      const reactions = [{ emoji: '👍', count: 2, isSelected: true }];
+      cache.setMessageReactions('-1009', 5, reactions);
+      expect(cache.getMessages('-1009', 1)[0].reactions).toEqual(reactions);
+      expect(cache.getMessages('-1009:3', 1)[0].reactions).toEqual(reactions);
+      expect(cache.getMessages('-1008', 1)[0].reactions).toBeUndefined();
+    } finally {
+      cache.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { MessageInfo } from '../telegram';
+import { Cache } from '../cache';
+import { isRevision, parseRetentionRules } from '../retention';
+
+function message(id: number, fields: Partial<MessageInfo> = {}): MessageInfo {
+  return { id, senderId: '7', senderName: 'Ann', text: 'hello', timestamp: 1000, isOutgoing: false, ...fields };
+}
+
+describe('parseRetentionRules', () => {
+  it('takes dialog and folder ids, dropping repeats', () => {
+    expect(parseRetentionRules({ dialogIds: ['5', 5, '-1009:3'], folderIds: [2, 2] })).toEqual({ dialogIds: ['5', '-1009:3'], folderIds: [2] });
+    expect(parseRetentionRules({})).toEqual({ dialogIds: [], folderIds: [] });
+  });
+
+  it('says what is wrong', () => {
+    expect(() => parseRetentionRules({ dialogIds: '5' })).toThrow('dialogIds must be an array of dialog ids');
+    expect(() => parseRetentionRules({ dialogIds: [''] })).toThrow('dialogIds must be an array of dialog ids');
+    expect(() => parseRetentionRules({ folderIds: [1.5] })).toThrow('folderIds must be an array of folder ids');
+  });
+});
+
+describe('isRevision', () => {
+  it('counts changes to what a message says', () => {
+    expect(isRevision(message(1), message(1, { text: 'hello!' }))).toBe(true);
+    expect(isRevision(message(1), message(1, { entities: [{ type: 'bold', offset: 0, length: 5 }] }))).toBe(true);
+    expect(isRevision(message(1), message(1, { mediaType: 'photo' }))).toBe(true);
+  });
+
+  it('ignores reactions and other edits that change nothing said', () => {
+    expect(isRevision(message(1), message(1, { reactions: [{ emoji: '👍', count: 1 }], isEdited: true }))).toBe(false);
+    expect(isRevision(message(1, { entities: [] }), message(1))).toBe(false);
+  });
+});
+
+describe('retained messages in the cache', () => {
+  let dir: string;
+  let cache: Cache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+  });
+
+  afterEach(() => {
+    cache.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores the rules', () => {
+    cache.setRetentionRules({ dialogIds: ['5', '6'], folderIds: [2] });
+    cache.setRetentionRules({ dialogIds: ['6'], folderIds: [3, 2] });
+    expect(cache.getRetentionRules()).toEqual({ dialogIds: ['6'], folderIds: [2, 3] });
+  });
+
+  it('keeps each version an edit replaced', () => {
+    cache.upsertMessages('5', [message(1, { text: 'one' })]);
+    for (const [text, at] of [['two', 2000], ['three', 3000]] as const) {
+      expect(cache.saveRevision('5', message(1, { text }), at)).toBe(true);
+      cache.upsertMessages('5', [message(1, { text })]);
+    }
+    // Not a revision, and not a message the cache has seen
+    expect(cache.saveRevision('5', message(1, { text: 'three', isEdited: true }), 4000)).toBe(false);
+    expect(cache.saveRevision('5', message(2), 4000)).toBe(false);
+
+    expect(cache.getRevisions('5', 1).map(({ version, message: m, replacedAt }) => [version, m.text, replacedAt])).toEqual([
+      [1, 'one', 2000], [2, 'two', 3000],
+    ]);
+  });
+
+  it('moves deleted messages to tombstones, newest deletion first', () => {
+    cache.upsertMessages('-1009', [message(1)]);
+    cache.upsertMessages('-1009:3', [message(2)]);
+    expect(cache.tombstoneMessage('-1009', 1, 2000)).toBe(true);
+    expect(cache.tombstoneMessage('-1009:3', 2, 3000)).toBe(true);
+    expect(cache.tombstoneMessage('-1009', 7, 3000)).toBe(false);
+
+    expect(cache.getMessage('-1009', 1)).toBeNull();
+    expect(cache.getDeletedMessage('-1009', 1)).toEqual({ dialogId: '-1009', message: message(1), deletedAt: 2000 });
+    expect(cache.getDeletedMessages('-1009', 10, 0).map((d) => `${d.dialogId}:${d.message.id}`)).toEqual(['-1009:3:2', '-1009:1']);
+    expect(cache.getDeletedMessages('-1009', 10, 1)).toHaveLength(1);
+  });
+
+  it('purges what was kept for a dialog and its topics', () => {
+    cache.upsertMessages('-1009', [message(1), message(2)]);
+    cache.upsertMessages('-1009:3', [message(3)]);
+    cache.upsertMessages('6', [message(4)]);
+    cache.saveRevision('-1009', message(1, { text: 'edited' }), 2000);
+    cache.tombstoneMessage('-1009', 2, 2000);
+    cache.tombstoneMessage('-1009:3', 3, 2000);
+    cache.tombstoneMessage('6', 4, 2000);
+
+    expect(cache.purgeRetained('-1009')).toBe(3);
+    expect(cache.getDeletedMessages('-1009', 10, 0)).toEqual([]);
+    expect(cache.getDeletedMessages('6', 10, 0)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import type { DaemonConfig } from '../config';
+import type { MessageInfo, SequencedEvent } from '../telegram';
+import { Cache } from '../cache';
+import { RuleEngine, RuleSpec, RuleTarget, parseRule } from '../rules';
+import { TelegramService } from '../telegram';
+import { FakeClient } from './fake-client';
+
+let config: DaemonConfig = {};
+let dir: string;
+vi.mock('../config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config,
+  saveConfig: (next: DaemonConfig) => { config = next; },
+  getAccountSession: () => config.session,
+  saveAccountSession: (_accountId: string, session: string) => { config.session = session; },
+  getAccountUploadDir: () => path.join(dir, 'uploads'),
+  getAccountMediaDir: () => path.join(dir, 'media'),
+}));
+
+// Tuesday 2023-11-14 22:13:20 UTC
+const T0 = 1_700_000_000;
+
+function message(id: number, fields: Partial<MessageInfo> = {}): MessageInfo {
+  return { id, senderId: '7', senderName: 'Ann', text: 'hello there', timestamp: T0, isOutgoing: false, ...fields };
+}
+
+function spec(fields: Partial<RuleSpec> = {}): RuleSpec {
+  return { name: 'test', enabled: true, trigger: {}, conditions: {}, actions: [{ type: 'markRead' }], ...fields };
+}
+
+describe('RuleEngine', () => {
+  let cache: Cache;
+  let engine: RuleEngine;
+  let now: number;
+  let nextId: number;
+  let target: { [K in keyof RuleTarget]: ReturnType<typeof vi.fn> };
+  const sendToWebhook = vi.fn((webhookId: string) => webhookId === 'hook');
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+    config = {};
+    now = T0;
+    nextId = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now * 1000);
+    target = {
+      sendMessage: vi.fn(async (_dialogId: string, text: string) => message(nextId++, { text, isOutgoing: true })),
+      forwardMessages: vi.fn(async () => [message(nextId++, { isOutgoing: true })]),
+      addReaction: vi.fn(async () => undefined),
+      markAsRead: vi.fn(async () => undefined),
+      muteChat: vi.fn(async () => undefined),
+    };
+    sendToWebhook.mockClear();
+    engine = new RuleEngine('default', cache, async () => [], target as unknown as RuleTarget, sendToWebhook);
+    await engine.reload();
+  });
+
+  afterEach(() => {
+    engine.stop();
+    cache.close();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Hand the engine a message; with `expectRuns`, wait until that many runs are logged, earlier messages being done by then. */
+  async function deliver(dialogId: string, msg: MessageInfo, expectRuns?: number): Promise<void> {
+    engine.handle({ type: 'newMessage', dialogId, message: msg, seq: msg.id } as SequencedEvent);
+    if (expectRuns !== undefined) await vi.waitFor(() => expect(engine.runs({}, 100)).toHaveLength(expectRuns));
+  }
+
+  /** Which of `messages` in dialog 100 the rule matches, by a dry run over the cache */
+  async function matching(rule: RuleSpec, messages: MessageInfo[]): Promise<number[]> {
+    cache.upsertMessages('100', messages);
+    const { matches } = await engine.test(rule, { dialogId: '100' });
+    return matches.map((match) => match.message.id).sort((a, b) => a - b);
+  }
+
+  describe('matching', () => {
+    it('matches the pattern case-insensitively unless asked', async () => {
+      const messages = [message(1, { text: 'Deploy now' }), message(2, { text: 'deploy later' }), message(3, { text: 'other' })];
+      expect(await matching(spec({ trigger: { pattern: '^deploy' } }), messages)).toEqual([1, 2]);
+      expect(await matching(spec({ trigger: { pattern: '^deploy', caseSensitive: true } }), messages)).toEqual([2]);
+    });
+
+    it('matches senders and media types, with none for plain text', async () => {
+      const messages = [message(1), message(2, { senderId: '8', mediaType: 'photo' }), message(3, { mediaType: 'voice' })];
+      expect(await matching(spec({ trigger: { senderIds: ['8'] } }), messages)).toEqual([2]);
+      expect(await matching(spec({ trigger: { mediaTypes: ['none', 'voice'] } }), messages)).toEqual([1, 3]);
+    });
+
+    it('matches only the dialogs named', async () => {
+      cache.upsertMessages('200', [message(2)]);
+      const { matches } = await engine.test(spec({ trigger: { dialogIds: ['200'] } }));
+      expect(matches.map((match) => match.dialogId)).toEqual(['200']);
+    });
+
+    it('skips my own messages when notFromMe', async () => {
+      const messages = [message(1), message(2, { isOutgoing: true })];
+      expect(await matching(spec({ conditions: { notFromMe: true } }), messages)).toEqual([1]);
+    });
+
+    it('applies time windows, across midnight and by weekday', async () => {
+      const at = (id: number, hhmm: string, day = 14) => message(id, { timestamp: Date.UTC(2023, 10, day, +hhmm.slice(0, 2), +hhmm.slice(3)) / 1000 });
+      const messages = [at(1, '21:59'), at(2, '22:00'), at(3, '23:30'), at(4, '03:00'), at(5, '07:00'), at(6, '23:00', 18)];
+      const overnight = { start: '22:00', end: '07:00', timeZone: 'UTC' };
+      expect(await matching(spec({ conditions: { timeWindow: overnight } }), messages)).toEqual([2, 3, 4, 6]);
+      // The 14th is a Tuesday, the 18th a Saturday
+      expect(await matching(spec({ conditions: { timeWindow: { ...overnight, days: [6] } } }), messages)).toEqual([6]);
+      expect(await matching(spec({ conditions: { timeWindow: { start: '09:00', end: '09:00', timeZone: 'UTC' } } }), messages))
+        .toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('takes the time window in its time zone', async () => {
+      // 22:13 UTC is 07:13 the next day in Tokyo
+      const window = { start: '07:00', end: '08:00', timeZone: 'Asia/Tokyo' };
+      expect(await matching(spec({ conditions: { timeWindow: window } }), [message(1)])).toEqual([1]);
+      expect(await matching(spec({ conditions: { timeWindow: { ...window, timeZone: 'UTC' } } }), [message(1)])).toEqual([]);
+    });
+  });
+
+  describe('running', () => {
+    it('runs the actions in order and logs the run', async () => {
+      await engine.create(spec({ actions: [{ type: 'react', emoji: '👍' }, { type: 'markRead' }, { type: 'webhook', webhookId: 'hook' }] }));
+      await deliver('100', message(1), 1);
+
+      expect(target.addReaction).toHaveBeenCalledWith('100', 1, { emoji: '👍' });
+      expect(target.markAsRead).toHaveBeenCalledWith('100', 1);
+      expect(sendToWebhook).toHaveBeenCalledWith('hook', expect.objectContaining({ type: 'newMessage', dialogId: '100' }));
+      expect(engine.runs({}, 10)[0]).toMatchObject({ dialogId: '100', messageId: 1, status: 'ok', createdAt: T0 });
+    });
+
+    it('logs a failed action and still runs the rest', async () => {
+      target.addReaction.mockRejectedValueOnce(new Error('REACTION_INVALID'));
+      await engine.create(spec({ actions: [{ type: 'react', emoji: '🦄' }, { type: 'webhook', webhookId: 'gone' }, { type: 'markRead' }] }));
+      await deliver('100', message(1), 1);
+
+      expect(target.markAsRead).toHaveBeenCalled();
+      expect(engine.runs({}, 10)[0]).toMatchObject({
+        status: 'failed',
+        actions: [
+          { type: 'react', ok: false, error: 'REACTION_INVALID' },
+          { type: 'webhook', ok: false, error: 'Unknown webhook gone' },
+          { type: 'markRead', ok: true },
+        ],
+      });
+    });
+
+    it('does not match its own replies', async () => {
+      await engine.create(spec({ actions: [{ type: 'reply', text: 'hello there, auto' }] }));
+      await deliver('100', message(1), 1);
+      const [, text, replyTo] = target.sendMessage.mock.calls[0];
+      expect([text, replyTo]).toEqual(['hello there, auto', 1]);
+
+      await deliver('100', message(1000, { text: 'hello there, auto', isOutgoing: true }));
+      await deliver('100', message(2), 2);
+      expect(engine.runs({}, 10).map((run) => run.messageId)).toEqual([2, 1]);
+    });
+
+    it('skips disabled rules', async () => {
+      await engine.create(spec({ enabled: false }));
+      await engine.create(spec({ actions: [{ type: 'mute' }] }));
+      await deliver('100', message(1), 1);
+      expect(target.markAsRead).not.toHaveBeenCalled();
+      expect(target.muteChat).toHaveBeenCalledWith('100', 0);
+    });
+  });
+
+  describe('cooldown', () => {
+    it('holds a rule back in a dialog until the cooldown has passed', async () => {
+      await engine.create(spec({ conditions: { cooldown: 60 } }));
+      await deliver('100', message(1), 1);
+
+      now = T0 + 59;
+      await deliver('100', message(2));
+      // Another dialog has its own cooldown
+      await deliver('200', message(3), 2);
+
+      now = T0 + 60;
+      await deliver('100', message(4), 3);
+      expect(engine.runs({ dialogId: '100' }, 10).map((run) => run.messageId)).toEqual([4, 1]);
+    });
+
+    it('counts from the last run, not the last match', async () => {
+      await engine.create(spec({ conditions: { cooldown: 60 } }));
+      await deliver('100', message(1), 1);
+      now = T0 + 30;
+      await deliver('100', message(2));
+      now = T0 + 61;
+      await deliver('100', message(3), 2);
+      expect(engine.runs({}, 10).map((run) => run.messageId)).toEqual([3, 1]);
+    });
+
+    it('is per rule', async () => {
+      const slow = await engine.create(spec({ name: 'slow', conditions: { cooldown: 3600 } }));
+      const fast = await engine.create(spec({ name: 'fast' }));
+      await deliver('100', message(1), 2);
+      await deliver('100', message(2), 3);
+      expect(engine.runs({}, 10).map((run) => [run.ruleId, run.messageId])).toEqual([[fast.id, 2], [fast.id, 1], [slow.id, 1]]);
+    });
+
+    it('is not applied by dry runs', async () => {
+      const rule = spec({ conditions: { cooldown: 3600 } });
+      await engine.create(rule);
+      await deliver('100', message(1), 1);
+      expect(await matching(rule, [message(1), message(2)])).toEqual([1, 2]);
+    });
+  });
+});
+
+describe('rules across logout', () => {
+  let client: FakeClient;
+  let service: TelegramService;
+  let sent: string[];
+
+  /** A fresh client per login, as the service makes */
+  function newClient(): FakeClient {
+    client = new FakeClient();
+    client.respond['auth.SendCode'] = () => ({ phoneCodeHash: 'hash' });
+    client.respond['auth.SignIn'] = () => ({});
+    client.respond['messages.SendMessage'] = (request) => {
+      sent.push((request as Api.messages.SendMessage).message);
+      return new Api.UpdateShortSentMessage({ out: true, id: 1000 + sent.length, pts: 3, ptsCount: 1, date: T0 });
+    };
+    return client;
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-test-'));
+    config = {};
+    sent = [];
+    service = new TelegramService('default', { cache: new Cache(path.join(dir, 'cache.db')), createClient: () => newClient().asClient() });
+    await service.connect();
+    await service.createRule(spec({ actions: [{ type: 'reply', text: 'auto' }] }));
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs again once logged back in', async () => {
+    await service.logout();
+    const { phoneCodeHash } = await service.startLogin('+10000000000');
+    await service.completeLogin('+10000000000', '12345', phoneCodeHash);
+
+    client.push(new Api.UpdateShortMessage({ id: 1, userId: bigInt(100), message: 'hello', pts: 2, ptsCount: 1, date: T0 }));
+    await vi.waitFor(() => expect(service.getRuleRuns({}, 10)).toHaveLength(1));
+    expect(sent).toEqual(['auto']);
+  });
+});
+
+describe('parseRule', () => {
+  it('rejects a cooldown that is not whole seconds', () => {
+    expect(() => parseRule({ ...spec(), conditions: { cooldown: 1.5 } })).toThrow('conditions.cooldown must be seconds');
+  });
+
+  it('rejects unknown actions', () => {
+    expect(() => parseRule({ ...spec(), actions: [{ type: 'delete' }] })).toThrow('actions[0].type must be one of');
+  });
+});
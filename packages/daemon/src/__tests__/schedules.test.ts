@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import type { DaemonConfig } from '../config';
+import type { SequencedEvent } from '../telegram';
+import { Cache } from '../cache';
+import { TelegramService } from '../telegram';
+import { FakeClient } from './fake-client';
+
+let config: DaemonConfig = {};
+let dir: string;
+vi.mock('../config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config,
+  saveConfig: (next: DaemonConfig) => { config = next; },
+  getAccountSession: () => config.session,
+  getAccountUploadDir: () => path.join(dir, 'uploads'),
+  getAccountMediaDir: () => path.join(dir, 'media'),
+}));
+
+const USER_ID = 4242;
+
+/** A status change as Telegram pushes it */
+function statusUpdate(userId: number, status: Api.TypeUserStatus): Api.UpdateShort {
+  return new Api.UpdateShort({
+    update: new Api.UpdateUserStatus({ userId: bigInt(userId), status }),
+    date: Math.floor(Date.now() / 1000),
+  });
+}
+
+describe('whenOnline schedules', () => {
+  let client: FakeClient;
+  let service: TelegramService;
+  let events: SequencedEvent[];
+  let sent: string[];
+  let nextId: number;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-test-'));
+    config = {};
+    client = new FakeClient();
+    sent = [];
+    nextId = 100;
+    client.respond['messages.SendMessage'] = (request) => {
+      const { message } = request as Api.messages.SendMessage;
+      sent.push(message);
+      return new Api.UpdateShortSentMessage({ out: true, id: nextId++, pts: 1, ptsCount: 0, date: Math.floor(Date.now() / 1000) });
+    };
+    service = new TelegramService('default', { cache: new Cache(path.join(dir, 'cache.db')), createClient: () => client.asClient() });
+    events = [];
+    service.onEvent((event) => events.push(event));
+    await service.connect();
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('emits userStatus from raw status updates', () => {
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOnline({ expires: 0 })));
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOffline({ wasOnline: 1_700_000_000 })));
+    client.push(statusUpdate(USER_ID, new Api.UserStatusRecently({})));
+    expect(events.filter((event) => event.type === 'userStatus')).toEqual([
+      { type: 'userStatus', userId: String(USER_ID), online: true, accountId: 'default' },
+      { type: 'userStatus', userId: String(USER_ID), online: false, lastSeen: 1_700_000_000, accountId: 'default' },
+      { type: 'userStatus', userId: String(USER_ID), online: false, accountId: 'default' },
+    ]);
+  });
+
+  it('sends when the user comes online, and only then', async () => {
+    const schedule = service.createSchedule({ dialogId: String(USER_ID), text: 'back yet?', whenOnline: true, missed: 'once' });
+    const other = service.createSchedule({ dialogId: '777', text: 'not you', whenOnline: true, missed: 'once' });
+
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOffline({ wasOnline: 1_700_000_000 })));
+    client.push(statusUpdate(777, new Api.UserStatusRecently({})));
+    expect(sent).toEqual([]);
+
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOnline({ expires: 0 })));
+    await vi.waitFor(() => expect(service.getSchedule(schedule.id)).toMatchObject({ status: 'done', runCount: 1 }));
+    expect(sent).toEqual(['back yet?']);
+    expect(service.getSchedule(other.id)).toMatchObject({ status: 'active', runCount: 0 });
+
+    // Coming online again sends nothing more
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOnline({ expires: 0 })));
+    expect(sent).toEqual(['back yet?']);
+  });
+
+  it('tries again next time when the send fails', async () => {
+    const send = client.respond['messages.SendMessage'];
+    client.respond['messages.SendMessage'] = () => { throw new Error('PEER_FLOOD'); };
+    const schedule = service.createSchedule({ dialogId: String(USER_ID), text: 'back yet?', whenOnline: true, missed: 'once' });
+
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOnline({ expires: 0 })));
+    await vi.waitFor(() => expect(service.getSchedule(schedule.id)).toMatchObject({ status: 'active', lastError: 'PEER_FLOOD' }));
+
+    client.respond['messages.SendMessage'] = send;
+    client.push(statusUpdate(USER_ID, new Api.UserStatusOnline({ expires: 0 })));
+    await vi.waitFor(() => expect(service.getSchedule(schedule.id)).toMatchObject({ status: 'done', runCount: 1 }));
+    expect(sent).toEqual(['back yet?']);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { LocalSearchOptions, MessageInfo } from '../telegram';
+import { Cache } from '../cache';
+
+function message(id: number, text: string, fields: Partial<MessageInfo> = {}): MessageInfo {
+  return { id, senderId: '7', senderName: 'Ann Lee', text, timestamp: 1000 + id, isOutgoing: false, ...fields };
+}
+
+describe('Cache.searchMessages', () => {
+  let dir: string;
+  let cache: Cache;
+
+  /** `dialogId:id` of each result, newest first */
+  const search = (query: string, options: Omit<LocalSearchOptions, 'query'> = {}) =>
+    cache.searchMessages({ query, ...options }).map((result) => `${result.dialogId}:${result.message.id}`);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+    cache.upsertDialogs([{ id: '5', chatId: '5', name: 'Ann', lastMessage: '', lastMessageTime: 0, unreadCount: 0, isForum: false }]);
+    cache.upsertMessages('5', [
+      message(1, 'Lunch at the café tomorrow?'),
+      message(2, 'Deploy the release tonight'),
+      message(3, 'photo from the release party', { mediaType: 'photo', senderId: '8', senderName: 'Bob' }),
+    ]);
+    cache.upsertMessages('6', [message(4, 'Releases are on Fridays')]);
+  });
+
+  afterEach(() => {
+    cache.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches every word, ignoring case and accents', () => {
+    expect(search('RELEASE')).toEqual(['5:3', '5:2']);
+    expect(search('release tonight')).toEqual(['5:2']);
+    expect(search('cafe')).toEqual(['5:1']);
+  });
+
+  it('takes phrases and prefixes', () => {
+    expect(search('"release party"')).toEqual(['5:3']);
+    expect(search('"party release"')).toEqual([]);
+    expect(search('releas*')).toEqual(['6:4', '5:3', '5:2']);
+  });
+
+  it('treats query syntax as plain text', () => {
+    expect(search('release OR lunch')).toEqual([]);
+    expect(search('NEAR(release')).toEqual([]);
+    expect(search('"')).toEqual([]);
+  });
+
+  it('filters by dialog, sender, date and media type', () => {
+    expect(search('releas*', { dialogId: '6' })).toEqual(['6:4']);
+    expect(search('release', { senderId: '8' })).toEqual(['5:3']);
+    expect(search('release', { senderName: 'ann' })).toEqual(['5:2']);
+    expect(search('releas*', { after: 1003, before: 1004 })).toEqual(['5:3']);
+    expect(search('release', { mediaTypes: ['none'] })).toEqual(['5:2']);
+    expect(search('release', { mediaTypes: ['photo'] })).toEqual(['5:3']);
+  });
+
+  it('pages through results', () => {
+    expect(search('releas*', { limit: 2 })).toEqual(['6:4', '5:3']);
+    expect(search('releas*', { limit: 2, offset: 2 })).toEqual(['5:2']);
+  });
+
+  it('returns the dialog name and an escaped, highlighted snippet', () => {
+    cache.upsertMessages('5', [message(5, 'ship <b>it</b> tonight')]);
+    expect(cache.searchMessages({ query: 'tonight', dialogId: '5' })[0]).toMatchObject({ dialogName: 'Ann', message: { id: 5 } });
+    expect(cache.searchMessages({ query: 'it' })[0].snippet).toBe('ship &lt;b&gt;<mark>it</mark>&lt;/b&gt; tonight');
+  });
+
+  it('follows edits and deletions', () => {
+    cache.upsertMessages('5', [message(2, 'Deploy postponed', { isEdited: true })]);
+    expect(search('tonight')).toEqual([]);
+    expect(search('postponed')).toEqual(['5:2']);
+    cache.deleteMessage('5', 2);
+    expect(search('postponed')).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import type { SequencedEvent } from '../telegram';
+import { EventFilter, parseSubscribeMessage, parseSubscriptionQuery } from '../subscriptions';
+
+function event(type: string, dialogId: string): SequencedEvent {
+  return { type, dialogId, seq: 1 } as unknown as SequencedEvent;
+}
+
+const folders = async (folderId: number) => (folderId === 3 ? ['6', '-1007'] : []);
+
+describe('EventFilter', () => {
+  it('passes everything until a subscription narrows it', async () => {
+    const filter = new EventFilter();
+    expect(filter.matches(event('newMessage', '5'))).toBe(true);
+
+    await filter.update({ dialogIds: ['5'], eventTypes: ['newMessage'] }, folders);
+    expect(filter.matches(event('newMessage', '5'))).toBe(true);
+    expect(filter.matches(event('newMessage', '6'))).toBe(false);
+    expect(filter.matches(event('typing', '5'))).toBe(false);
+    expect(filter.current()).toEqual({ dialogIds: ['5'], eventTypes: ['newMessage'] });
+
+    await filter.update({}, folders);
+    expect(filter.matches(event('typing', '6'))).toBe(true);
+  });
+
+  it('adds the chats of subscribed folders to the dialogs', async () => {
+    const filter = new EventFilter();
+    await filter.update({ dialogIds: ['5'], folderIds: [3] }, folders);
+    expect(['5', '6', '-1007', '8'].map((id) => filter.matches(event('newMessage', id)))).toEqual([true, true, true, false]);
+  });
+
+  it('covers the topics of a subscribed forum', async () => {
+    const filter = new EventFilter();
+    await filter.update({ dialogIds: ['-1009'] }, folders);
+    expect(filter.matches(event('newMessage', '-1009:4'))).toBe(true);
+    expect(filter.matches(event('newMessage', '-10091'))).toBe(false);
+  });
+
+  it('passes nothing for an empty dialog list', async () => {
+    const filter = new EventFilter();
+    await filter.update({ dialogIds: [] }, folders);
+    expect(filter.matches(event('newMessage', '5'))).toBe(false);
+  });
+});
+
+describe('subscriptions from clients', () => {
+  it('reads query params', () => {
+    expect(parseSubscriptionQuery({ dialogs: '5, -1009', types: 'newMessage', folders: '3,x' }))
+      .toEqual({ dialogIds: ['5', '-1009'], eventTypes: ['newMessage'], folderIds: [3] });
+    expect(parseSubscriptionQuery({})).toEqual({});
+  });
+
+  it('checks subscribe frames', () => {
+    expect(parseSubscribeMessage({ dialogIds: [5], eventTypes: ['typing'], folderIds: [3] }))
+      .toEqual({ dialogIds: ['5'], eventTypes: ['typing'], folderIds: [3] });
+    expect(parseSubscribeMessage({ dialogIds: '5' })).toBe('dialogIds must be an array');
+    expect(parseSubscribeMessage({ eventTypes: 'typing' })).toBe('eventTypes must be an array');
+    expect(parseSubscribeMessage({ folderIds: ['3'] })).toBe('folderIds must be an array of numbers');
+  });
+});
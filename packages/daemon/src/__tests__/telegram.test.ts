@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import type { DaemonConfig } from '../config';
+import type { MessageInfo, SequencedEvent } from '../telegram';
+import { Cache } from '../cache';
+import { EventFilter } from '../subscriptions';
+import { TelegramService } from '../telegram';
+import { FakeClient } from './fake-client';
+
+let config: DaemonConfig = {};
+let dir: string;
+vi.mock('../config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config,
+  saveConfig: (next: DaemonConfig) => { config = next; },
+  getAccountSession: () => config.session,
+  getAccountUploadDir: () => path.join(dir, 'uploads'),
+  getAccountMediaDir: () => path.join(dir, 'media'),
+}));
+
+function message(id: number): MessageInfo {
+  return { id, senderId: '7', senderName: 'Ann', text: `message ${id}`, timestamp: 1000, isOutgoing: false };
+}
+
+let client: FakeClient;
+let cache: Cache;
+let service: TelegramService;
+let events: SequencedEvent[];
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-test-'));
+  config = {};
+  client = new FakeClient();
+  cache = new Cache(path.join(dir, 'cache.db'));
+  service = new TelegramService('default', { cache, createClient: () => client.asClient() });
+  events = [];
+  service.onEvent((event) => events.push(event));
+  await service.connect();
+});
+
+afterEach(async () => {
+  await service.disconnect();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('deleted messages', () => {
+  it('places common box deletions by the cache, and sends the rest without a dialog', async () => {
+    cache.upsertMessages('5', [message(10)]);
+    cache.upsertMessages('-42', [message(11)]);
+    client.push(new Api.UpdateDeleteMessages({ messages: [10, 11, 12], pts: 4, ptsCount: 3 }));
+    const deleted = () => events.filter((event) => event.type === 'deletedMessage');
+    await vi.waitFor(() => expect(deleted()).toEqual([
+      expect.objectContaining({ dialogId: '-42', messageIds: [11] }),
+      expect.objectContaining({ dialogId: '5', messageIds: [10] }),
+      expect.objectContaining({ messageIds: [12] }),
+    ]));
+    const unplaced = deleted()[2];
+    expect(unplaced).not.toHaveProperty('dialogId');
+    expect(cache.getMessage('5', 10)).toBeNull();
+
+    // Every subscriber gets one without a dialog, except a token limited to some dialogs
+    const subscribed = new EventFilter();
+    await subscribed.update({ dialogIds: ['6'] }, async () => []);
+    expect(subscribed.matches(unplaced)).toBe(true);
+    expect(new EventFilter(new Set(['6'])).matches(unplaced)).toBe(false);
+  });
+});
+
+describe('dialog info', () => {
+  it('describes a channel from its full info', async () => {
+    const channel = new Api.Channel({
+      id: bigInt(9), title: 'News', photo: new Api.ChatPhotoEmpty(), date: 0,
+      username: 'news', verified: true, forum: true, megagroup: true,
+    });
+    vi.spyOn(client, 'getEntity').mockResolvedValue(channel as never);
+    client.respond['channels.GetFullChannel'] = () => ({
+      fullChat: new Api.ChannelFull({
+        id: bigInt(9), about: 'Daily news', participantsCount: 120, readInboxMaxId: 0, readOutboxMaxId: 0,
+        unreadCount: 0, chatPhoto: new Api.PhotoEmpty({ id: bigInt(0) }), notifySettings: new Api.PeerNotifySettings({}), botInfo: [], pts: 1,
+      }),
+    });
+    expect(await service.getDialogInfo('-1009')).toEqual({
+      id: '-1009', name: 'News', type: 'supergroup', about: 'Daily news', memberCount: 120,
+      username: 'news', isForum: true, isVerified: true,
+    });
+  });
+
+  it('keeps what the entity says when the full info fails', async () => {
+    vi.spyOn(client, 'getEntity').mockResolvedValue(new Api.User({ id: bigInt(7), firstName: 'Ann' }) as never);
+    expect(await service.getDialogInfo('7')).toEqual({ id: '7', name: 'Ann', type: 'user' });
+  });
+});
+
+describe('shared media', () => {
+  it('asks Telegram for one kind of media in a topic', async () => {
+    client.messages = [new Api.Message({ id: 5, peerId: new Api.PeerChannel({ channelId: bigInt(9) }), date: 1000, message: 'see https://example.com' })];
+    const [found] = await service.getSharedMedia('-1009:3', 'link', 10, 40);
+    expect(found).toMatchObject({ id: 5, text: 'see https://example.com', timestamp: 1000 });
+    expect(client.messageQueries).toEqual([{ limit: 10, filter: expect.any(Api.InputMessagesFilterUrl), replyTo: 3, offsetId: 40 }]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { MEDIA_TOKEN_TTL_S, createMediaToken, verifyMediaToken } from '../tokens';
+
+const grant = { accountId: 'default', dialogId: '-1009', messageId: 42 };
+const NOW = 1_700_000_000_000;
+
+describe('media tokens', () => {
+  it('opens the one file it was made for', () => {
+    const { token, expiresAt } = createMediaToken(grant, NOW);
+    expect(expiresAt).toBe(NOW / 1000 + MEDIA_TOKEN_TTL_S);
+    expect(verifyMediaToken(token, grant, NOW)).toBe(true);
+
+    expect(verifyMediaToken(token, { ...grant, messageId: 43 }, NOW)).toBe(false);
+    expect(verifyMediaToken(token, { ...grant, dialogId: '-1008' }, NOW)).toBe(false);
+    expect(verifyMediaToken(token, { ...grant, accountId: 'work' }, NOW)).toBe(false);
+  });
+
+  it('expires', () => {
+    const { token, expiresAt } = createMediaToken(grant, NOW);
+    expect(verifyMediaToken(token, grant, expiresAt * 1000 - 1)).toBe(true);
+    expect(verifyMediaToken(token, grant, expiresAt * 1000)).toBe(false);
+  });
+
+  it('takes no other token', () => {
+    const { token } = createMediaToken(grant, NOW);
+    const [, signature] = token.split('.');
+    // A later expiry can't be signed without the key
+    expect(verifyMediaToken(`${NOW / 1000 + 2 * MEDIA_TOKEN_TTL_S}.${signature}`, grant, NOW)).toBe(false);
+    expect(verifyMediaToken('og_c2VjcmV0', grant, NOW)).toBe(false);
+    expect(verifyMediaToken('', grant, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import bigInt from 'big-integer';
+import { Api, TelegramClient } from 'telegram';
+import { UpdateConnectionState } from 'telegram/network';
+import type { Cache } from '../cache';
+import { UpdateManager, UpdateState } from '../updates';
+
+const CHANNEL_ID = 777;
+
+/** The parts of the cache the pipeline keeps its state in */
+class StateCache {
+  state: UpdateState | null = null;
+  channelPts = new Map<string, number>();
+  getUpdateState(): UpdateState | null { return this.state && { ...this.state }; }
+  setUpdateState(state: UpdateState): void { this.state = { ...state }; }
+  getChannelPts(): Map<string, number> { return new Map(this.channelPts); }
+  setChannelPts(channelId: string, pts: number): void { this.channelPts.set(channelId, pts); }
+}
+
+/** Answers requests by class name; containers reach the pipeline through the sender callback, as in gramJS */
+class FakeClient {
+  requests: Api.AnyRequest[] = [];
+  respond: Record<string, (request: Api.AnyRequest) => unknown> = {
+    'updates.GetState': () => new Api.updates.State({ pts: 10, qts: 5, seq: 1, date: 1000, unreadCount: 0 }),
+  };
+  dispatched: Api.TypeUpdates[] = [];
+  _sender = { _updateCallback: (_client: unknown, update: Api.TypeUpdates) => { this.dispatched.push(update); } };
+
+  async getMe(): Promise<Api.InputPeerUser> { return new Api.InputPeerUser({ userId: bigInt(1), accessHash: bigInt(0) }); }
+  async getInputEntity(): Promise<Api.InputPeerChannel> { return new Api.InputPeerChannel({ channelId: bigInt(CHANNEL_ID), accessHash: bigInt(0) }); }
+
+  async invoke(request: Api.AnyRequest): Promise<unknown> {
+    this.requests.push(request);
+    const respond = this.respond[request.className];
+    if (!respond) throw new Error(`Unexpected ${request.className}`);
+    return respond(request);
+  }
+
+  /** A container as the sender receives it */
+  receive(update: Api.TypeUpdates): void {
+    this._sender._updateCallback(this, update);
+  }
+}
+
+function message(id: number, peerId: Api.TypePeer = new Api.PeerUser({ userId: bigInt(5) })): Api.Message {
+  return new Api.Message({ id, peerId, message: `message ${id}`, date: 1000 });
+}
+
+function newMessage(id: number, pts: number): Api.UpdateNewMessage {
+  return new Api.UpdateNewMessage({ message: message(id), pts, ptsCount: 1 });
+}
+
+function channelMessage(id: number, pts: number): Api.UpdateNewChannelMessage {
+  return new Api.UpdateNewChannelMessage({ message: message(id, new Api.PeerChannel({ channelId: bigInt(CHANNEL_ID) })), pts, ptsCount: 1 });
+}
+
+function container(seq: number, ...updates: Api.TypeUpdate[]): Api.Updates {
+  return new Api.Updates({ updates, users: [], chats: [], date: 1000 + seq, seq });
+}
+
+function difference(newMessages: Api.Message[], state: Partial<UpdateState>): Api.updates.Difference {
+  return new Api.updates.Difference({
+    newMessages, newEncryptedMessages: [], otherUpdates: [], users: [], chats: [],
+    state: new Api.updates.State({ pts: 10, qts: 5, seq: 1, date: 1000, unreadCount: 0, ...state }),
+  });
+}
+
+describe('UpdateManager', () => {
+  let client: FakeClient;
+  let cache: StateCache;
+  let manager: UpdateManager;
+  let applied: Api.TypeUpdate[];
+
+  /** Ids of the messages applied so far */
+  const appliedIds = () => applied.map((update) => ((update as Api.UpdateNewMessage).message as Api.Message).id);
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    client = new FakeClient();
+    cache = new StateCache();
+    applied = [];
+    manager = new UpdateManager(client as unknown as TelegramClient, cache as unknown as Cache, (update) => applied.push(update));
+    await manager.start();
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.useRealTimers();
+  });
+
+  describe('pts', () => {
+    it('applies updates in order and drops ones already applied', async () => {
+      manager.handle(newMessage(1, 11));
+      manager.handle(newMessage(1, 11));
+      // A repeat is not a gap
+      await vi.advanceTimersByTimeAsync(1000);
+      manager.handle(newMessage(2, 12));
+      expect(appliedIds()).toEqual([1, 2]);
+      expect(cache.state).toMatchObject({ pts: 12 });
+      expect(client.requests.map((request) => request.className)).toEqual(['updates.GetState']);
+    });
+
+    it('holds an update after a gap until the missing ones arrive', async () => {
+      manager.handle(newMessage(3, 13));
+      expect(applied).toEqual([]);
+      manager.handle(newMessage(2, 12));
+      manager.handle(newMessage(1, 11));
+      expect(appliedIds()).toEqual([1, 2, 3]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(client.requests.map((request) => request.className)).toEqual(['updates.GetState']);
+    });
+
+    it('fetches the difference when a gap is not filled in time', async () => {
+      client.respond['updates.GetDifference'] = () => difference([message(1), message(2)], { pts: 12 });
+      manager.handle(newMessage(2, 12));
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(client.requests).toHaveLength(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(client.requests[1]).toMatchObject({ className: 'updates.GetDifference', pts: 10, qts: 5 });
+      // The held update is covered by the difference
+      expect(appliedIds()).toEqual([1, 2]);
+      expect(cache.state).toMatchObject({ pts: 12 });
+    });
+
+    it('accepts a gap the difference does not fill', async () => {
+      client.respond['updates.GetDifference'] = () => new Api.updates.DifferenceEmpty({ date: 1000, seq: 1 });
+      manager.handle(newMessage(3, 13));
+      await vi.advanceTimersByTimeAsync(500);
+      expect(appliedIds()).toEqual([3]);
+      expect(cache.state).toMatchObject({ pts: 13 });
+    });
+
+    it('fetches the difference after reconnecting', async () => {
+      client.respond['updates.GetDifference'] = () => difference([message(1)], { pts: 11 });
+      manager.handle(new UpdateConnectionState(UpdateConnectionState.connected));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(appliedIds()).toEqual([1]);
+    });
+
+    it('rebuilds our own sends from the request', async () => {
+      client.respond['messages.SendMessage'] = () => new Api.UpdateShortSentMessage({ out: true, id: 7, pts: 11, ptsCount: 1, date: 1000 });
+      await client.invoke(new Api.messages.SendMessage({ peer: new Api.InputPeerUser({ userId: bigInt(5), accessHash: bigInt(0) }), message: 'hi' }));
+      expect(applied).toHaveLength(1);
+      expect((applied[0] as Api.UpdateNewMessage).message).toMatchObject({ id: 7, message: 'hi', out: true });
+      expect(cache.state).toMatchObject({ pts: 11 });
+    });
+
+    it('only advances pts past sends and deletions it has nothing to show for', async () => {
+      manager.handle(new Api.UpdateShortSentMessage({ out: true, id: 7, pts: 11, ptsCount: 1, date: 1000 }));
+      client.respond['messages.DeleteMessages'] = () => new Api.messages.AffectedMessages({ pts: 12, ptsCount: 1 });
+      await client.invoke(new Api.messages.DeleteMessages({ id: [7] }));
+      expect(applied).toEqual([]);
+      expect(cache.state).toMatchObject({ pts: 12 });
+
+      manager.handle(newMessage(3, 13));
+      expect(appliedIds()).toEqual([3]);
+    });
+
+    it('keeps a box per channel, asking each for its own difference', async () => {
+      // The first update seen for a channel sets its pts
+      manager.handle(channelMessage(1, 50));
+      manager.handle(channelMessage(2, 51));
+      manager.handle(newMessage(3, 11));
+      expect(appliedIds()).toEqual([1, 2, 3]);
+
+      client.respond['updates.GetChannelDifference'] = () => new Api.updates.ChannelDifference({
+        final: true, pts: 53, newMessages: [message(3, new Api.PeerChannel({ channelId: bigInt(CHANNEL_ID) }))], otherUpdates: [], chats: [], users: [],
+      });
+      manager.handle(channelMessage(4, 53));
+      await vi.advanceTimersByTimeAsync(500);
+      expect(client.requests[1]).toMatchObject({ className: 'updates.GetChannelDifference', pts: 51 });
+      expect(appliedIds()).toEqual([1, 2, 3, 3]);
+      expect(cache.channelPts.get(String(CHANNEL_ID))).toBe(53);
+    });
+  });
+
+  describe('qts', () => {
+    const botStopped = (qts: number) => new Api.UpdateBotStopped({ userId: bigInt(5), date: 1000, stopped: true, qts });
+
+    it('orders updates by qts', async () => {
+      client.respond['updates.GetDifference'] = () => difference([], { qts: 7 });
+      manager.handle(botStopped(6));
+      manager.handle(botStopped(6));
+      expect(applied).toHaveLength(1);
+
+      manager.handle(botStopped(8));
+      expect(applied).toHaveLength(1);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(client.requests[1]).toMatchObject({ className: 'updates.GetDifference', qts: 6 });
+      expect(applied).toHaveLength(2);
+      expect(cache.state).toMatchObject({ qts: 8 });
+    });
+  });
+
+  describe('seq', () => {
+    it('dispatches containers in seq order and drops repeats', async () => {
+      client.receive(container(2));
+      client.receive(container(4));
+      client.receive(container(2));
+      expect(client.dispatched.map((update) => (update as Api.Updates).seq)).toEqual([2]);
+
+      client.receive(container(3));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(client.dispatched.map((update) => (update as Api.Updates).seq)).toEqual([2, 3, 4]);
+      expect(cache.state).toMatchObject({ seq: 4 });
+    });
+
+    it('passes containers without a seq straight through', () => {
+      client.receive(container(0));
+      expect(client.dispatched).toHaveLength(1);
+    });
+
+    it('fetches the difference when a container is missing', async () => {
+      client.respond['updates.GetDifference'] = () => difference([], { seq: 3 });
+      client.receive(container(3));
+      expect(client.dispatched).toEqual([]);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(client.requests[1]).toMatchObject({ className: 'updates.GetDifference' });
+      // Covered by the difference
+      expect(client.dispatched).toEqual([]);
+      expect(cache.state).toMatchObject({ seq: 3 });
+    });
+  });
+
+  it('resumes from the saved state', async () => {
+    manager.handle(newMessage(1, 11));
+    manager.stop();
+
+    client.respond['updates.GetDifference'] = () => new Api.updates.DifferenceEmpty({ date: 1000, seq: 1 });
+    manager = new UpdateManager(client as unknown as TelegramClient, cache as unknown as Cache, (update) => applied.push(update));
+    await manager.start();
+    expect(client.requests.at(-1)).toMatchObject({ className: 'updates.GetDifference', pts: 11 });
+
+    // The new manager now gets the containers
+    client.receive(container(2));
+    expect(manager.getState()).toMatchObject({ seq: 2 });
+  });
+});
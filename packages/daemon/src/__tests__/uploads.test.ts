@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { UploadProgress, UploadStore } from '../uploads';
+
+const PART_SIZE = 64 * 1024;
+
+/** `length` bytes of `fill`, arriving in two chunks as a request body would */
+function body(length: number, fill: string): Readable {
+  const data = Buffer.alloc(length, fill);
+  return Readable.from([data.subarray(0, length >> 1), data.subarray(length >> 1)]);
+}
+
+describe('UploadStore', () => {
+  let dir: string;
+  let store: UploadStore;
+  let progress: UploadProgress[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-test-'));
+    progress = [];
+    store = new UploadStore(dir, (p) => progress.push(p));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('assembles parts sent in any order', async () => {
+    const session = store.create({ fileName: 'a.bin', size: PART_SIZE * 2 + 10, mimeType: 'application/octet-stream', partSize: PART_SIZE });
+    expect(session).toMatchObject({ parts: 3, received: [], complete: false });
+
+    await store.writePart(session.uploadId, 2, body(10, 'c'));
+    await store.writePart(session.uploadId, 0, body(PART_SIZE, 'a'));
+    expect(store.get(session.uploadId)).toMatchObject({ received: [0, 2], complete: false });
+    expect(() => store.take(session.uploadId)).toThrow('Upload is not complete');
+
+    // A part sent again overwrites the first copy
+    await store.writePart(session.uploadId, 1, body(PART_SIZE, 'x'));
+    expect(await store.writePart(session.uploadId, 1, body(PART_SIZE, 'b'))).toMatchObject({ received: [0, 1, 2], complete: true });
+
+    const file = store.take(session.uploadId);
+    expect(file).toMatchObject({ fileName: 'a.bin', size: PART_SIZE * 2 + 10, mimeType: 'application/octet-stream' });
+    expect(fs.readFileSync(file.path).toString()).toBe('a'.repeat(PART_SIZE) + 'b'.repeat(PART_SIZE) + 'c'.repeat(10));
+    expect(store.get(session.uploadId)).toBeNull();
+    expect(progress.at(-1)).toEqual({ uploadId: session.uploadId, phase: 'receiving', loaded: PART_SIZE * 2 + 10, total: PART_SIZE * 2 + 10 });
+  });
+
+  it('checks sessions and parts', async () => {
+    expect(() => store.create({ fileName: '', size: 10 })).toThrow('fileName required');
+    expect(() => store.create({ fileName: 'a', size: 0 })).toThrow('size must be a positive integer');
+    expect(() => store.create({ fileName: 'a', size: 3e9 })).toThrow('File too large');
+    expect(() => store.create({ fileName: 'a', size: 10, partSize: 1024 })).toThrow('partSize must be between');
+
+    const { uploadId } = store.create({ fileName: 'a.bin', size: PART_SIZE + 10, partSize: PART_SIZE });
+    await expect(store.writePart(uploadId, 2, body(10, 'a'))).rejects.toThrow('part must be between 0 and 1');
+    await expect(store.writePart(uploadId, 1, body(11, 'a'))).rejects.toThrow('Part is longer than 10 bytes');
+    await expect(store.writePart(uploadId, 0, body(10, 'a'))).rejects.toThrow(`Part must be ${PART_SIZE} bytes, got 10`);
+    expect(store.get(uploadId)).toMatchObject({ received: [] });
+    await expect(store.writePart('nope', 0, body(10, 'a'))).rejects.toThrow('Unknown upload');
+  });
+
+  it('removes a session and its file', () => {
+    const { uploadId } = store.create({ fileName: 'a.bin', size: 10 });
+    expect(fs.readdirSync(dir)).toContain(uploadId);
+    expect(store.remove(uploadId)).toBe(true);
+    expect(fs.readdirSync(dir)).not.toContain(uploadId);
+    expect(store.remove(uploadId)).toBe(false);
+  });
+
+  it('streams a file of unknown size to disk', async () => {
+    const file = await store.receive(body(1000, 'z'), { fileName: 'z.txt', mimeType: 'text/plain' }, 1000, { dialogId: '5', clientMsgId: 'a' });
+    expect(file).toMatchObject({ fileName: 'z.txt', mimeType: 'text/plain', size: 1000 });
+    expect(fs.readFileSync(file.path).toString()).toBe('z'.repeat(1000));
+    expect(progress.at(-1)).toMatchObject({ dialogId: '5', clientMsgId: 'a', phase: 'receiving', loaded: 1000, total: 1000 });
+    store.release(file);
+    expect(fs.existsSync(file.path)).toBe(false);
+  });
+
+  it('keeps outbox files across restarts and clears the rest', async () => {
+    const kept = store.keep(await store.receive(body(10, 'k'), { fileName: 'k.txt' }));
+    const dropped = await store.receive(body(10, 'd'), { fileName: 'd.txt' });
+    const session = store.create({ fileName: 'a.bin', size: 10 });
+
+    store = new UploadStore(dir, (p) => progress.push(p));
+    expect(fs.existsSync(kept.path)).toBe(true);
+    expect(fs.existsSync(dropped.path)).toBe(false);
+    expect(store.get(session.uploadId)).toBeNull();
+  });
+
+  it('reports the upload to Telegram, the last report always', () => {
+    const file = { path: path.join(dir, 'f'), fileName: 'f', size: 1000 };
+    const report = store.sendProgress(file, { dialogId: '5' });
+    report(0.1);
+    report(0.5);
+    report(1);
+    expect(progress).toEqual([
+      { uploadId: 'f', dialogId: '5', phase: 'sending', loaded: 100, total: 1000 },
+      { uploadId: 'f', dialogId: '5', phase: 'sending', loaded: 1000, total: 1000 },
+    ]);
+  });
+
+  it('adds up the upload of an album file by file', () => {
+    const staged = { path: path.join(dir, 'album'), fileName: 'b.jpg', size: 300 };
+    const report = store.albumProgress([Buffer.alloc(100), staged], { clientMsgId: 'a' });
+    // gramJS starts each file at 0
+    for (const fraction of [0, 1, 0, 0.5, 1]) report(fraction);
+    expect(progress).toEqual([
+      { uploadId: 'album', clientMsgId: 'a', phase: 'sending', loaded: 0, total: 400 },
+      { uploadId: 'album', clientMsgId: 'a', phase: 'sending', loaded: 400, total: 400 },
+    ]);
+  });
+
+  it('counts the files already sent in later reports', () => {
+    vi.useFakeTimers();
+    const report = store.albumProgress([Buffer.alloc(100), Buffer.alloc(100)]);
+    report(0);
+    vi.advanceTimersByTime(300);
+    report(1);
+    vi.advanceTimersByTime(300);
+    report(0);
+    expect(progress.map((p) => p.loaded)).toEqual([0, 100, 100]);
+    report(1);
+    expect(progress.at(-1)).toMatchObject({ loaded: 200, total: 200 });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bigInt from 'big-integer';
+import { Api } from 'telegram';
+import type { DaemonConfig } from '../config';
+import type { SequencedEvent } from '../telegram';
+import { Cache } from '../cache';
+import { TelegramService } from '../telegram';
+import { WebhookDispatcher, signWebhookBody } from '../webhooks';
+import { FakeClient } from './fake-client';
+
+let config: DaemonConfig = {};
+let dir: string;
+vi.mock('../config', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../config')>(),
+  loadConfig: () => config,
+  saveConfig: (next: DaemonConfig) => { config = next; },
+  getAccountSession: () => config.session,
+  saveAccountSession: (_accountId: string, session: string) => { config.session = session; },
+  getAccountUploadDir: () => path.join(dir, 'uploads'),
+  getAccountMediaDir: () => path.join(dir, 'media'),
+}));
+
+const SECRET = 'a-webhook-secret-of-some-length';
+const T0 = 1_700_000_000;
+
+function newMessage(id: number): SequencedEvent {
+  return {
+    type: 'newMessage', dialogId: '100', seq: id,
+    message: { id, senderId: '1', senderName: 'Ann', text: `hi ${id}`, timestamp: T0, isOutgoing: false },
+  } as SequencedEvent;
+}
+
+describe('signWebhookBody', () => {
+  it('is the hex HMAC-SHA256 of <timestamp>.<body>', () => {
+    const expected = crypto.createHmac('sha256', SECRET).update(`${T0}.{"a":1}`).digest('hex');
+    expect(signWebhookBody(SECRET, T0, '{"a":1}')).toBe(expected);
+  });
+
+  it('changes with the timestamp, body and secret', () => {
+    const signature = signWebhookBody(SECRET, T0, '{"a":1}');
+    expect(signWebhookBody(SECRET, T0 + 1, '{"a":1}')).not.toBe(signature);
+    expect(signWebhookBody(SECRET, T0, '{"a":2}')).not.toBe(signature);
+    expect(signWebhookBody(`${SECRET}!`, T0, '{"a":1}')).not.toBe(signature);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let cache: Cache;
+  let dispatcher: WebhookDispatcher;
+  let now: number;
+  let status: number;
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response('', { status }));
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+    cache = new Cache(path.join(dir, 'cache.db'));
+    config = { webhooks: { hook: { account: 'default', url: 'https://example.com/hook', secret: SECRET, createdAt: T0 } } };
+    now = T0;
+    status = 200;
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Date, 'now').mockImplementation(() => now * 1000);
+    dispatcher = new WebhookDispatcher('default', cache, async () => []);
+    await dispatcher.reload();
+  });
+
+  afterEach(() => {
+    dispatcher.stop();
+    cache.close();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const pending = () => dispatcher.deliveries({ status: 'pending' }).reverse();
+
+  /** Let the clock reach the next retry and send what is due. */
+  async function retryAt(at: number, attempts: number): Promise<void> {
+    now = at;
+    await dispatcher.reload();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(attempts));
+  }
+
+  it('signs each POST so the receiver can check it', async () => {
+    dispatcher.handle(newMessage(1));
+    await vi.waitFor(() => expect(pending()).toHaveLength(0));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://example.com/hook');
+    expect(headers['X-Oceangram-Event']).toBe('newMessage');
+    expect(headers['X-Oceangram-Timestamp']).toBe(String(T0));
+    expect(headers['X-Oceangram-Signature']).toBe(`sha256=${signWebhookBody(SECRET, T0, init.body as string)}`);
+    expect(JSON.parse(init.body as string)).toEqual(newMessage(1));
+  });
+
+  it('backs off exponentially, holding later deliveries back, until it gives up', async () => {
+    status = 500;
+    dispatcher.handle(newMessage(1));
+    await vi.waitFor(() => expect(pending()[0]?.attempts).toBe(1));
+    dispatcher.handle(newMessage(2));
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt < 10; attempt++) {
+      const [first, second] = pending();
+      expect(first).toMatchObject({ attempts: attempt, error: 'HTTP 500' });
+      // The second is never sent while the first is failing
+      expect(second.nextAttemptAt).toBe(first.nextAttemptAt);
+      delays.push(first.nextAttemptAt! - now);
+      await retryAt(first.nextAttemptAt!, attempt + 1);
+      await vi.waitFor(() => expect(cache.getWebhookDelivery(first.id)!.attempts).toBe(attempt + 1));
+    }
+    expect(delays).toEqual([10, 20, 40, 80, 160, 320, 640, 1280, 2560]);
+
+    const [dead] = dispatcher.deliveries({ status: 'dead' });
+    expect(dead).toMatchObject({ attempts: 10, error: 'HTTP 500', event: newMessage(1) });
+    expect(dead.nextAttemptAt).toBeUndefined();
+    // Giving up on the first lets the next one through
+    await vi.waitFor(() => expect(pending()[0].attempts).toBe(1));
+    const sent = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string).seq);
+    expect(sent).toEqual([...Array(10).fill(1), 2]);
+  });
+
+  it('sends held-back deliveries in order once the webhook recovers', async () => {
+    status = 503;
+    dispatcher.handle(newMessage(1));
+    await vi.waitFor(() => expect(pending()[0]?.attempts).toBe(1));
+    dispatcher.handle(newMessage(2));
+    dispatcher.handle(newMessage(3));
+
+    status = 200;
+    await retryAt(T0 + 10, 4);
+    await vi.waitFor(() => expect(pending()).toHaveLength(0));
+    const sent = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string).seq);
+    expect(sent).toEqual([1, 1, 2, 3]);
+  });
+
+  it('starts a retried dead delivery over', async () => {
+    status = 500;
+    dispatcher.handle(newMessage(1));
+    await vi.waitFor(() => expect(pending()[0]?.attempts).toBe(1));
+    const [delivery] = pending();
+    cache.updateWebhookDelivery({ ...delivery, status: 'dead', attempts: 10, nextAttemptAt: undefined });
+
+    status = 200;
+    expect(dispatcher.retry(delivery.id)).toMatchObject({ status: 'pending', attempts: 0, nextAttemptAt: now });
+    await vi.waitFor(() => expect(cache.getWebhookDelivery(delivery.id)).toBeNull());
+  });
+});
+
+describe('webhooks across logout', () => {
+  let client: FakeClient;
+  let service: TelegramService;
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response('', { status: 200 }));
+
+  /** A fresh client per login, as the service makes */
+  function newClient(): FakeClient {
+    client = new FakeClient();
+    client.respond['auth.SendCode'] = () => ({ phoneCodeHash: 'hash' });
+    client.respond['auth.SignIn'] = () => ({});
+    return client;
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-test-'));
+    config = { webhooks: { hook: { account: 'default', url: 'https://example.com/hook', secret: SECRET, createdAt: T0 } } };
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    service = new TelegramService('default', { cache: new Cache(path.join(dir, 'cache.db')), createClient: () => newClient().asClient() });
+    await service.connect();
+  });
+
+  afterEach(async () => {
+    await service.disconnect();
+    vi.unstubAllGlobals();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('delivers again once logged back in', async () => {
+    await service.logout();
+    const { phoneCodeHash } = await service.startLogin('+10000000000');
+    await service.completeLogin('+10000000000', '12345', phoneCodeHash);
+
+    client.push(new Api.UpdateShortMessage({
+      id: 1, userId: bigInt(100), message: 'hi after logout', pts: 2, ptsCount: 1, date: T0,
+    }));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body as string)).toMatchObject({ type: 'newMessage', dialogId: '100', message: { text: 'hi after logout' } });
+  });
+});
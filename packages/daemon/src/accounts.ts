@@ -0,0 +1,123 @@
+import { TelegramService } from './telegram';
+import {
+  DEFAULT_ACCOUNT_ID,
+  listAccounts,
+  addAccount,
+  removeAccount,
+  getAccountSession,
+  isValidAccountId,
+} from './config';
+
+/** Wait before connecting again after a failed connect, doubling up to the cap. */
+const RECONNECT_DELAY_MS = 5_000;
+const RECONNECT_MAX_DELAY_MS = 5 * 60_000;
+
+export interface AccountSummary {
+  id: string;
+  name?: string;
+  connected: boolean;
+}
+
+/**
+ * One TelegramService (and cache file) per configured account. The default
+ * account always exists; others are added at runtime and persisted in config.
+ */
+export class AccountManager {
+  private services = new Map<string, TelegramService>();
+  private names = new Map<string, string | undefined>();
+  private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor() {
+    for (const { id, name } of listAccounts()) {
+      this.services.set(id, new TelegramService(id));
+      this.names.set(id, name);
+    }
+  }
+
+  get(accountId: string = DEFAULT_ACCOUNT_ID): TelegramService | undefined {
+    return this.services.get(accountId);
+  }
+
+  getDefault(): TelegramService {
+    return this.services.get(DEFAULT_ACCOUNT_ID)!;
+  }
+
+  list(): AccountSummary[] {
+    return [...this.services].map(([id, telegram]) => ({
+      id,
+      name: this.names.get(id),
+      connected: telegram.isConnected(),
+    }));
+  }
+
+  /** Register a new account. It stays disconnected until logged in via its `/login` flow. */
+  add(accountId: string, name?: string): TelegramService {
+    if (!isValidAccountId(accountId)) {
+      throw new Error('Account id must be 1-32 chars of a-z, 0-9, "_" or "-"');
+    }
+    if (this.services.has(accountId)) throw new Error(`Account ${accountId} already exists`);
+    addAccount(accountId, name);
+    const telegram = new TelegramService(accountId);
+    this.services.set(accountId, telegram);
+    this.names.set(accountId, name);
+    return telegram;
+  }
+
+  /** Disconnect an account and forget its session. Its cache file is left on disk. */
+  async remove(accountId: string): Promise<void> {
+    if (accountId === DEFAULT_ACCOUNT_ID) throw new Error('The default account cannot be removed');
+    const telegram = this.services.get(accountId);
+    if (!telegram) return;
+    this.services.delete(accountId);
+    this.names.delete(accountId);
+    this.cancelReconnect(accountId);
+    removeAccount(accountId);
+    await telegram.disconnect();
+  }
+
+  /**
+   * Connect every account that has a saved session. Failures are logged, not
+   * thrown; an account that can't reach Telegram is tried again later.
+   */
+  async connectAll(loginUrl: (accountId: string) => string): Promise<void> {
+    for (const [id, telegram] of this.services) {
+      if (!getAccountSession(id)) {
+        console.log(`[accounts] ${id}: no session found. Visit ${loginUrl(id)} to authenticate`);
+        continue;
+      }
+      await this.connect(id, telegram, loginUrl, RECONNECT_DELAY_MS);
+    }
+  }
+
+  private async connect(id: string, telegram: TelegramService, loginUrl: (accountId: string) => string, retryDelay: number): Promise<void> {
+    try {
+      await telegram.connect();
+      console.log(`[accounts] ${id}: Telegram connected`);
+    } catch (err: unknown) {
+      const error = err as Error;
+      if (error.message === 'NOT_AUTHORIZED') {
+        console.log(`[accounts] ${id}: session expired. Visit ${loginUrl(id)} to re-authenticate`);
+        return;
+      }
+      console.error(`[accounts] ${id}: Telegram connection failed, retrying in ${retryDelay / 1000}s:`, error.message);
+      this.reconnectTimers.set(id, setTimeout(() => {
+        this.reconnectTimers.delete(id);
+        if (this.services.get(id) !== telegram || telegram.isConnected()) return;
+        this.connect(id, telegram, loginUrl, Math.min(retryDelay * 2, RECONNECT_MAX_DELAY_MS));
+      }, retryDelay));
+    }
+  }
+
+  private cancelReconnect(accountId: string): void {
+    const timer = this.reconnectTimers.get(accountId);
+    if (timer) clearTimeout(timer);
+    this.reconnectTimers.delete(accountId);
+  }
+
+  async disconnectAll(): Promise<void> {
+    for (const id of [...this.reconnectTimers.keys()]) this.cancelReconnect(id);
+    for (const telegram of this.services.values()) {
+      try { await telegram.disconnect(); } catch { /* ignore */ }
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import type { Cache as CacheType } from './cache';
+import type { MessageInfo } from './telegram';
+
+/**
+ * Background history backfill.
+ *
+ * Walks the full history of queued dialogs, newest to oldest, into the SQLite
+ * cache one page at a time (`offsetId` = oldest message fetched so far). Jobs
+ * and their position live in `backfill_jobs`, so a restart resumes mid-dialog.
+ * One dialog is fetched at a time, with a pause between pages; a FLOOD_WAIT too
+ * long for the request scheduler to wait out pauses the whole worker until it expires.
+ */
+
+export type BackfillStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BackfillJob {
+  dialogId: string;
+  status: BackfillStatus;
+  /** Oldest message id fetched so far; the next page starts below it. */
+  oldestId: number | null;
+  fetched: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface BackfillProgress extends BackfillJob {
+  /** Unix seconds when a FLOOD_WAIT pause ends. */
+  floodWaitUntil?: number;
+}
+
+export type FetchPage = (dialogId: string, limit: number, offsetId?: number) => Promise<MessageInfo[]>;
+
+export interface BackfillOptions {
+  pageSize: number;
+  delayMs: number;
+}
+
+export class BackfillWorker {
+  private stopped = true;
+  private loop: Promise<void> | null = null;
+  private wake: (() => void) | null = null;
+  private stopWaiters: Set<() => void> = new Set();
+  private floodWaitUntil = 0;
+
+  constructor(
+    private cache: CacheType,
+    private fetchPage: FetchPage,
+    private onProgress: (progress: BackfillProgress) => void,
+    private options: BackfillOptions,
+  ) {}
+
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    // A job marked running when the daemon stopped resumes from its saved position
+    for (const job of this.cache.getBackfillJobs()) {
+      if (job.status === 'running') this.cache.upsertBackfillJob({ ...job, status: 'pending' });
+    }
+    this.loop = this.run().catch((e) => console.error('[backfill] worker error:', e));
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.wake?.();
+    for (const resolve of this.stopWaiters) resolve();
+    await this.loop;
+    this.loop = null;
+  }
+
+  isRunning(): boolean {
+    return !this.stopped;
+  }
+
+  getFloodWaitUntil(): number | undefined {
+    return this.floodWaitUntil > Date.now() / 1000 ? this.floodWaitUntil : undefined;
+  }
+
+  /** Queue dialogs. Finished dialogs are left alone; failed ones are retried from where they stopped. */
+  enqueue(dialogIds: string[]): BackfillJob[] {
+    const now = Math.floor(Date.now() / 1000);
+    const jobs: BackfillJob[] = [];
+    for (const dialogId of dialogIds) {
+      const existing = this.cache.getBackfillJob(dialogId);
+      if (existing && existing.status !== 'error') {
+        jobs.push(existing);
+        continue;
+      }
+      const job: BackfillJob = existing
+        ? { ...existing, status: 'pending', error: undefined, updatedAt: now }
+        : { dialogId, status: 'pending', oldestId: null, fetched: 0, createdAt: now, updatedAt: now };
+      this.cache.upsertBackfillJob(job);
+      jobs.push(job);
+    }
+    this.wake?.();
+    return jobs;
+  }
+
+  /** Drop a job. A page already in flight still lands in the cache. */
+  cancel(dialogId: string): boolean {
+    const existing = this.cache.getBackfillJob(dialogId);
+    if (!existing) return false;
+    this.cache.deleteBackfillJob(dialogId);
+    return true;
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopped) {
+      const job = this.cache.getBackfillJobs().find((j) => j.status === 'pending' || j.status === 'running');
+      if (!job) {
+        // Idle until something is queued (or the worker stops)
+        await new Promise<void>((resolve) => { this.wake = resolve; });
+        this.wake = null;
+        continue;
+      }
+      await this.fetchNextPage(job);
+      if (!this.stopped) await this.sleep(this.options.delayMs);
+    }
+  }
+
+  private async fetchNextPage(job: BackfillJob): Promise<void> {
+    const running: BackfillJob = { ...job, status: 'running' };
+    let page: MessageInfo[];
+    try {
+      page = await this.fetchPage(job.dialogId, this.options.pageSize, job.oldestId ?? undefined);
+    } catch (err: unknown) {
+      const seconds = floodWaitSeconds(err);
+      if (seconds !== null) {
+        this.floodWaitUntil = Math.floor(Date.now() / 1000) + seconds + 1;
+        console.log(`[backfill] FLOOD_WAIT ${seconds}s on ${job.dialogId}, pausing`);
+        this.report({ ...running, updatedAt: Math.floor(Date.now() / 1000) });
+        await this.sleep((seconds + 1) * 1000);
+        return;
+      }
+      if (this.stopped) return; // disconnecting — the job resumes on the next start
+      const failed: BackfillJob = { ...running, status: 'error', error: (err as Error).message, updatedAt: Math.floor(Date.now() / 1000) };
+      console.error(`[backfill] ${job.dialogId} failed:`, failed.error);
+      this.save(failed);
+      return;
+    }
+
+    // Cancelled while the page was in flight
+    if (!this.cache.getBackfillJob(job.dialogId)) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const oldest = page.reduce((min, m) => Math.min(min, m.id), job.oldestId ?? Number.MAX_SAFE_INTEGER);
+    const reachedStart = page.length === 0 || oldest <= 1;
+    const next: BackfillJob = {
+      ...running,
+      oldestId: page.length > 0 ? oldest : job.oldestId,
+      fetched: job.fetched + page.length,
+      updatedAt: now,
+      ...(reachedStart ? { status: 'done' as const, completedAt: now } : {}),
+    };
+    if (reachedStart) console.log(`[backfill] ${job.dialogId} complete (${next.fetched} messages)`);
+    this.save(next);
+  }
+
+  private save(job: BackfillJob): void {
+    this.cache.upsertBackfillJob(job);
+    this.report(job);
+  }
+
+  private report(job: BackfillJob): void {
+    this.onProgress({ ...job, floodWaitUntil: this.getFloodWaitUntil() });
+  }
+
+  /** Sleep that ends early only when the worker stops. */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => { clearTimeout(timer); this.stopWaiters.delete(done); resolve(); };
+      const timer = setTimeout(done, ms);
+      this.stopWaiters.add(done);
+    });
+  }
+}
+
+/** Seconds to wait if `err` is a FLOOD_WAIT (the scheduler only throws those above `maxFloodWait`). */
+export function floodWaitSeconds(err: unknown): number | null {
+  const e = err as { errorMessage?: string; seconds?: number };
+  return e?.errorMessage === 'FLOOD' && typeof e.seconds === 'number' ? e.seconds : null;
+}
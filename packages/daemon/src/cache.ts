@@ -1,27 +1,113 @@
-import Database from 'better-sqlite3';
+import Database from 'better-sqlite3-multiple-ciphers';
 import * as path from 'path';
 import * as fs from 'fs';
-import type { DialogInfo, MessageInfo } from './telegram';
+import type { DialogInfo, MessageInfo, LocalSearchOptions, LocalSearchResult } from './telegram';
+import type { UpdateState } from './updates';
+import type { BackfillJob } from './backfill';
+import type { OutboxItem } from './outbox';
+import type { ReactionCount } from './reactions';
+import type { PollInfo } from './message-content';
+import type { MediaObject } from './media-cache';
+import type { WebhookDelivery, WebhookDeliveryStatus } from './webhooks';
+import type { RuleRun } from './rules';
+import type { Schedule } from './schedules';
+import { DeletedMessage, MessageRevision, RetentionRules, isRevision } from './retention';
 
 const DEFAULT_DB_DIR = path.join(process.env.HOME || '/root', '.oceangram');
 const DEFAULT_DB_PATH = path.join(DEFAULT_DB_DIR, 'cache.db');
 
+// Snippet markers: private-use chars survive HTML escaping and are then swapped for <mark>
+const SNIPPET_OPEN = '\uE000';
+const SNIPPET_CLOSE = '\uE001';
+
+/** First bytes of an unencrypted SQLite file */
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0', 'latin1');
+
+/** Use SQLCipher 4's page format, so the sqlcipher CLI can open the file too. */
+function setKey(db: Database.Database, key: Buffer, pragma: 'key' | 'rekey' = 'key'): void {
+  db.pragma("cipher = 'sqlcipher'");
+  db.pragma('legacy = 4');
+  db.pragma(`${pragma} = "x'${key.toString('hex')}'"`);
+}
+
+/** Open a cache file encrypted with `key`. Throws if the key doesn't open it. */
+export function openEncryptedDatabase(file: string, key: Buffer): Database.Database {
+  const db = new Database(file);
+  try {
+    setKey(db, key);
+    db.prepare('SELECT count(*) FROM sqlite_master').get();
+  } catch (e) {
+    db.close();
+    throw e;
+  }
+  return db;
+}
+
+/** Write a copy of a closed cache file, encrypted under `newKey`, to `target`. */
+export function rekeyDatabase(file: string, oldKey: Buffer, newKey: Buffer, target: string): void {
+  // Leaving WAL mode folds the WAL into the file, so the copy is complete; rekeying can't run in WAL mode either
+  const db = openEncryptedDatabase(file, oldKey);
+  db.pragma('journal_mode = DELETE');
+  db.close();
+  fs.copyFileSync(file, target);
+  const copy = openEncryptedDatabase(target, oldKey);
+  try {
+    setKey(copy, newKey, 'rekey');
+  } finally {
+    copy.close();
+  }
+}
+
+export function isPlainDatabase(file: string): boolean {
+  try {
+    const fd = fs.openSync(file, 'r');
+    try {
+      const header = Buffer.alloc(SQLITE_HEADER.length);
+      fs.readSync(fd, header, 0, header.length, 0);
+      return header.equals(SQLITE_HEADER);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return false;
+  }
+}
+
 export class Cache {
   private db: Database.Database;
 
-  constructor(dbPath: string = DEFAULT_DB_PATH) {
+  /**
+   * With a storage key every page of the file is encrypted (AES-256, SQLCipher
+   * format), so writes reach the disk as they are made, as without one. A
+   * plaintext `dbPath` from before encryption is encrypted in place.
+   */
+  constructor(dbPath: string = DEFAULT_DB_PATH, key: Buffer | null = null) {
     const dir = path.dirname(dbPath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
     }
 
-    this.db = new Database(dbPath);
+    if (key) {
+      if (isPlainDatabase(dbPath)) {
+        const plain = new Database(dbPath);
+        // Checkpoints and drops the WAL, which would otherwise stay readable
+        plain.pragma('journal_mode = DELETE');
+        setKey(plain, key, 'rekey');
+        plain.close();
+        console.log(`[cache] Encrypted ${dbPath}`);
+      }
+      this.db = openEncryptedDatabase(dbPath, key);
+    } else {
+      this.db = new Database(dbPath);
+    }
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('synchronous = NORMAL');
+
     this.createSchema();
   }
 
   private createSchema(): void {
+    const hasFts = this.db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'messages_fts'").get();
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS messages (
         id INTEGER NOT NULL,
@@ -33,6 +119,7 @@ export class Cache {
         edit_date INTEGER,
         reply_to INTEGER,
         media_type TEXT,
+        action TEXT,
         is_outgoing INTEGER DEFAULT 0,
         raw JSON,
         PRIMARY KEY (dialog_id, id)
@@ -63,7 +150,178 @@ export class Cache {
         mime_type TEXT DEFAULT 'image/jpeg',
         updated_at INTEGER
       );
+
+      CREATE TABLE IF NOT EXISTS update_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        pts INTEGER NOT NULL,
+        qts INTEGER NOT NULL,
+        seq INTEGER NOT NULL,
+        date INTEGER NOT NULL,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS channel_pts (
+        channel_id TEXT PRIMARY KEY,
+        pts INTEGER NOT NULL,
+        updated_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS event_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        dialog_id TEXT,
+        payload JSON NOT NULL,
+        created_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS backfill_jobs (
+        dialog_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        oldest_id INTEGER,
+        fetched INTEGER DEFAULT 0,
+        error TEXT,
+        created_at INTEGER,
+        updated_at INTEGER,
+        completed_at INTEGER
+      );
+
+      -- Sends accepted while offline; seq keeps delivery order
+      CREATE TABLE IF NOT EXISTS outbox (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        client_msg_id TEXT NOT NULL UNIQUE,
+        dialog_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        error TEXT,
+        attempts INTEGER DEFAULT 0,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+
+      -- Webhook calls waiting for a 2xx; dead ones ran out of attempts
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        webhook_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER DEFAULT 0,
+        next_attempt_at INTEGER,
+        error TEXT,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+      -- What automation rules did, newest kept
+      CREATE TABLE IF NOT EXISTS rule_runs (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_id TEXT NOT NULL,
+        dialog_id TEXT NOT NULL,
+        message_id INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        created_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_rule_runs_rule ON rule_runs(rule_id, dialog_id, created_at DESC);
+
+      -- Recurring and on-online messages the daemon sends; spec is the message and timing as JSON
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        dialog_id TEXT NOT NULL,
+        spec TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_run_at INTEGER,
+        last_run_at INTEGER,
+        last_error TEXT,
+        run_count INTEGER DEFAULT 0,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+
+      -- Results of sends made with a clientMsgId, so a retried send isn't posted twice
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        client_msg_id TEXT PRIMARY KEY,
+        result TEXT NOT NULL,
+        created_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+
+      -- Which sent message came from which clientMsgId, for tagging newMessage events
+      CREATE TABLE IF NOT EXISTS idempotency_messages (
+        chat_id TEXT NOT NULL,
+        message_id INTEGER NOT NULL,
+        client_msg_id TEXT NOT NULL,
+        created_at INTEGER,
+        PRIMARY KEY (chat_id, message_id)
+      );
+
+      -- Downloaded media on disk, one row per distinct content hash
+      CREATE TABLE IF NOT EXISTS media_objects (
+        hash TEXT PRIMARY KEY,
+        size INTEGER NOT NULL,
+        mime_type TEXT,
+        file_name TEXT,
+        sealed INTEGER DEFAULT 0,
+        last_access INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_media_objects_access ON media_objects(last_access);
+
+      -- Which message (and thumbnail size) each object was downloaded for
+      CREATE TABLE IF NOT EXISTS media_refs (
+        ref TEXT PRIMARY KEY,
+        hash TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_media_refs_hash ON media_refs(hash);
+
+      -- Dialogs (kind 'dialog') and folders (kind 'folder') whose edits and deletions are kept
+      CREATE TABLE IF NOT EXISTS retention_rules (
+        kind TEXT NOT NULL,
+        target TEXT NOT NULL,
+        PRIMARY KEY (kind, target)
+      );
+
+      -- Versions of retained messages that an edit replaced
+      CREATE TABLE IF NOT EXISTS message_revisions (
+        dialog_id TEXT NOT NULL,
+        message_id INTEGER NOT NULL,
+        version INTEGER NOT NULL,
+        raw JSON NOT NULL,
+        replaced_at INTEGER NOT NULL,
+        PRIMARY KEY (dialog_id, message_id, version)
+      );
+
+      -- Retained messages deleted from their chat, as last cached
+      CREATE TABLE IF NOT EXISTS deleted_messages (
+        dialog_id TEXT NOT NULL,
+        message_id INTEGER NOT NULL,
+        raw JSON NOT NULL,
+        deleted_at INTEGER NOT NULL,
+        PRIMARY KEY (dialog_id, message_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_deleted_messages_dialog ON deleted_messages(dialog_id, deleted_at DESC);
+
+      -- Full-text index over messages; rowid mirrors messages.rowid
+      CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        text, tokenize = 'unicode61 remove_diacritics 2'
+      );
     `);
+
+    // Caches created before service messages were kept: add the action column
+    const messageColumns = this.db.prepare('PRAGMA table_info(messages)').all() as { name: string }[];
+    if (!messageColumns.some((c) => c.name === 'action')) {
+      this.db.exec('ALTER TABLE messages ADD COLUMN action TEXT');
+    }
+
+    // Caches created before the index existed: index what's already there
+    if (!hasFts) {
+      this.db.exec(`
+        INSERT INTO messages_fts (rowid, text)
+        SELECT rowid, text FROM messages WHERE text IS NOT NULL AND text != ''
+      `);
+    }
   }
 
   // ─── Messages ──────────────────────────────────────────────────────────
@@ -80,6 +338,24 @@ export class Cache {
     return rows.map(rowToMessageInfo).reverse();
   }
 
+  /** Newest cached messages across dialogs, or of `dialogIds` and their forum topics */
+  getRecentMessages(limit: number, dialogIds?: string[]): { dialogId: string; message: MessageInfo }[] {
+    const params: unknown[] = [];
+    let where = '';
+    if (dialogIds) {
+      if (!dialogIds.length) return [];
+      where = `WHERE ${dialogIds.map(() => "(dialog_id = ? OR dialog_id LIKE ? || ':%')").join(' OR ')}`;
+      for (const id of dialogIds) params.push(id, id);
+    }
+    const rows = this.db.prepare(`SELECT * FROM messages ${where} ORDER BY date DESC LIMIT ?`).all(...params, limit) as any[];
+    return rows.map((row) => ({ dialogId: row.dialog_id, message: rowToMessageInfo(row) }));
+  }
+
+  getMessage(dialogId: string, messageId: number): MessageInfo | null {
+    const row = this.db.prepare('SELECT * FROM messages WHERE dialog_id = ? AND id = ?').get(dialogId, messageId) as any;
+    return row ? rowToMessageInfo(row) : null;
+  }
+
   getMessageCount(dialogId: string): number {
     const row = this.db.prepare('SELECT COUNT(*) as cnt FROM messages WHERE dialog_id = ?').get(dialogId) as any;
     return row?.cnt || 0;
@@ -89,26 +365,220 @@ export class Cache {
     const stmt = this.db.prepare(`
       INSERT OR REPLACE INTO messages (
         id, dialog_id, from_id, sender_name, text, date, edit_date,
-        reply_to, media_type, is_outgoing, raw
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        reply_to, media_type, action, is_outgoing, raw
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    // REPLACE assigns a new rowid, so the old index entry is dropped by hand
+    const unindex = this.db.prepare(
+      'DELETE FROM messages_fts WHERE rowid = (SELECT rowid FROM messages WHERE dialog_id = ? AND id = ?)'
+    );
+    const index = this.db.prepare('INSERT INTO messages_fts (rowid, text) VALUES (?, ?)');
 
     const tx = this.db.transaction((msgs: MessageInfo[]) => {
       for (const m of msgs) {
-        stmt.run(
+        unindex.run(dialogId, m.id);
+        const result = stmt.run(
           m.id, dialogId, m.senderId || null, m.senderName || null,
           m.text || null, m.timestamp || null,
           m.isEdited ? Math.floor(Date.now() / 1000) : null,
-          m.replyToId || null, m.mediaType || null,
+          m.replyToId || null, m.mediaType || null, m.action?.type || null,
           m.isOutgoing ? 1 : 0, JSON.stringify(m),
         );
+        if (m.text) index.run(result.lastInsertRowid, m.text);
       }
     });
     tx(messages);
   }
 
   deleteMessage(dialogId: string, messageId: number): void {
-    this.db.prepare('DELETE FROM messages WHERE dialog_id = ? AND id = ?').run(dialogId, messageId);
+    const tx = this.db.transaction(() => {
+      this.db.prepare(
+        'DELETE FROM messages_fts WHERE rowid = (SELECT rowid FROM messages WHERE dialog_id = ? AND id = ?)'
+      ).run(dialogId, messageId);
+      this.db.prepare('DELETE FROM messages WHERE dialog_id = ? AND id = ?').run(dialogId, messageId);
+    });
+    tx();
+  }
+
+  /** Full-text search across every cached dialog. Works offline. */
+  searchMessages(options: LocalSearchOptions): LocalSearchResult[] {
+    const where = ['messages_fts MATCH ?'];
+    const params: unknown[] = [toFtsQuery(options.query)];
+
+    if (options.dialogId) {
+      // A forum chat id also covers its topics
+      where.push("(m.dialog_id = ? OR m.dialog_id LIKE ? || ':%')");
+      params.push(options.dialogId, options.dialogId);
+    }
+    if (options.senderId) {
+      where.push('m.from_id = ?');
+      params.push(options.senderId);
+    }
+    if (options.senderName) {
+      where.push("m.sender_name LIKE ? ESCAPE '\\'");
+      params.push(`%${options.senderName.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    if (options.after !== undefined) {
+      where.push('m.date >= ?');
+      params.push(options.after);
+    }
+    if (options.before !== undefined) {
+      where.push('m.date < ?');
+      params.push(options.before);
+    }
+    if (options.mediaTypes?.length) {
+      const types = options.mediaTypes.filter((t) => t !== 'none');
+      const clauses = types.length ? [`m.media_type IN (${types.map(() => '?').join(', ')})`] : [];
+      if (options.mediaTypes.includes('none')) clauses.push('m.media_type IS NULL');
+      where.push(`(${clauses.join(' OR ')})`);
+      params.push(...types);
+    }
+
+    const order = options.order === 'rank' ? 'rank' : 'm.date DESC, m.id DESC';
+    const rows = this.db.prepare(`
+      SELECT m.*, d.name AS dialog_name,
+        snippet(messages_fts, 0, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 16) AS snippet
+      FROM messages_fts
+      JOIN messages m ON m.rowid = messages_fts.rowid
+      LEFT JOIN dialogs d ON d.id = m.dialog_id
+      WHERE ${where.join(' AND ')}
+      ORDER BY ${order}
+      LIMIT ? OFFSET ?
+    `).all(...params, options.limit ?? 20, options.offset ?? 0) as any[];
+
+    return rows.map((row) => ({
+      dialogId: row.dialog_id,
+      dialogName: row.dialog_name || undefined,
+      message: rowToMessageInfo(row),
+      snippet: highlightSnippet(row.snippet || ''),
+    }));
+  }
+
+  /**
+   * Resolve which non-channel dialogs hold the given message ids.
+   * Private chats and basic groups share one message id space per account, so
+   * `updateDeleteMessages` carries ids without a peer.
+   */
+  findMessageDialogs(messageIds: number[]): Map<string, number[]> {
+    const result = new Map<string, number[]>();
+    if (messageIds.length === 0) return result;
+    const placeholders = messageIds.map(() => '?').join(', ');
+    const rows = this.db.prepare(
+      `SELECT dialog_id, id FROM messages WHERE id IN (${placeholders}) AND dialog_id NOT LIKE '-100%'`
+    ).all(...messageIds) as any[];
+    for (const row of rows) {
+      const ids = result.get(row.dialog_id) || [];
+      ids.push(row.id);
+      result.set(row.dialog_id, ids);
+    }
+    return result;
+  }
+
+  /** Replace a message's reaction counts, in its chat and in any forum topic it was cached under. */
+  setMessageReactions(chatId: string, messageId: number, reactions: ReactionCount[]): void {
+    this.db.prepare(
+      "UPDATE messages SET raw = json_set(raw, '$.reactions', json(?)) WHERE id = ? AND (dialog_id = ? OR dialog_id LIKE ? || ':%')"
+    ).run(JSON.stringify(reactions), messageId, chatId, chatId);
+  }
+
+  /** Cached messages carrying poll `pollId`. A forwarded poll keeps the original's id. */
+  findPollMessages(pollId: string): { dialogId: string; messageId: number; poll: PollInfo }[] {
+    const rows = this.db.prepare(
+      "SELECT dialog_id, id, json_extract(raw, '$.poll') AS poll FROM messages WHERE media_type = 'poll' AND json_extract(raw, '$.poll.id') = ?"
+    ).all(pollId) as any[];
+    return rows.map((row) => ({ dialogId: row.dialog_id, messageId: row.id, poll: JSON.parse(row.poll) }));
+  }
+
+  /** Replace a message's poll, in its chat and in any forum topic it was cached under. */
+  setMessagePoll(chatId: string, messageId: number, poll: PollInfo): void {
+    this.db.prepare(
+      "UPDATE messages SET raw = json_set(raw, '$.poll', json(?)) WHERE id = ? AND (dialog_id = ? OR dialog_id LIKE ? || ':%')"
+    ).run(JSON.stringify(poll), messageId, chatId, chatId);
+  }
+
+  // ─── Retention ─────────────────────────────────────────────────────────
+
+  getRetentionRules(): RetentionRules {
+    const rows = this.db.prepare('SELECT kind, target FROM retention_rules ORDER BY kind, target').all() as any[];
+    return {
+      dialogIds: rows.filter((r) => r.kind === 'dialog').map((r) => r.target),
+      folderIds: rows.filter((r) => r.kind === 'folder').map((r) => Number(r.target)),
+    };
+  }
+
+  setRetentionRules(rules: RetentionRules): void {
+    const insert = this.db.prepare('INSERT OR IGNORE INTO retention_rules (kind, target) VALUES (?, ?)');
+    const tx = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM retention_rules').run();
+      for (const id of rules.dialogIds) insert.run('dialog', id);
+      for (const id of rules.folderIds) insert.run('folder', String(id));
+    });
+    tx();
+  }
+
+  /**
+   * Keep the cached version of `next` as a revision if `next` changes it.
+   * Call before upserting `next`. Returns whether a revision was saved.
+   */
+  saveRevision(dialogId: string, next: MessageInfo, replacedAt: number): boolean {
+    const tx = this.db.transaction((): boolean => {
+      const prev = this.getMessage(dialogId, next.id);
+      if (!prev || !isRevision(prev, next)) return false;
+      const last = this.db.prepare(
+        'SELECT MAX(version) AS version FROM message_revisions WHERE dialog_id = ? AND message_id = ?'
+      ).get(dialogId, next.id) as any;
+      this.db.prepare(
+        'INSERT INTO message_revisions (dialog_id, message_id, version, raw, replaced_at) VALUES (?, ?, ?, ?, ?)'
+      ).run(dialogId, next.id, (last?.version || 0) + 1, JSON.stringify(prev), replacedAt);
+      return true;
+    });
+    return tx();
+  }
+
+  /** Prior versions of a message, oldest first. */
+  getRevisions(dialogId: string, messageId: number): MessageRevision[] {
+    const rows = this.db.prepare(
+      'SELECT version, raw, replaced_at FROM message_revisions WHERE dialog_id = ? AND message_id = ? ORDER BY version'
+    ).all(dialogId, messageId) as any[];
+    return rows.map((row) => ({ version: row.version, message: JSON.parse(row.raw), replacedAt: row.replaced_at }));
+  }
+
+  /** Move a message to the tombstones. Returns false when it wasn't cached. */
+  tombstoneMessage(dialogId: string, messageId: number, deletedAt: number): boolean {
+    const tx = this.db.transaction((): boolean => {
+      const message = this.getMessage(dialogId, messageId);
+      if (!message) return false;
+      this.db.prepare(
+        'INSERT OR REPLACE INTO deleted_messages (dialog_id, message_id, raw, deleted_at) VALUES (?, ?, ?, ?)'
+      ).run(dialogId, messageId, JSON.stringify(message), deletedAt);
+      this.deleteMessage(dialogId, messageId);
+      return true;
+    });
+    return tx();
+  }
+
+  getDeletedMessage(dialogId: string, messageId: number): DeletedMessage | null {
+    const row = this.db.prepare('SELECT * FROM deleted_messages WHERE dialog_id = ? AND message_id = ?').get(dialogId, messageId) as any;
+    return row ? rowToDeletedMessage(row) : null;
+  }
+
+  /** Tombstoned messages, most recently deleted first. A forum chat id also covers its topics. */
+  getDeletedMessages(dialogId: string, limit: number, offset: number): DeletedMessage[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM deleted_messages WHERE dialog_id = ? OR dialog_id LIKE ? || ':%'
+      ORDER BY deleted_at DESC, message_id DESC LIMIT ? OFFSET ?
+    `).all(dialogId, dialogId, limit, offset) as any[];
+    return rows.map(rowToDeletedMessage);
+  }
+
+  /** Drop the revisions and tombstones kept for a dialog (and its topics). Returns how many rows went. */
+  purgeRetained(dialogId: string): number {
+    const tx = this.db.transaction((): number => {
+      const where = "WHERE dialog_id = ? OR dialog_id LIKE ? || ':%'";
+      return this.db.prepare(`DELETE FROM message_revisions ${where}`).run(dialogId, dialogId).changes
+        + this.db.prepare(`DELETE FROM deleted_messages ${where}`).run(dialogId, dialogId).changes;
+    });
+    return tx();
   }
 
   // ─── Dialogs ───────────────────────────────────────────────────────────
@@ -154,6 +624,349 @@ export class Cache {
     ).run(userId, data, mimeType, Math.floor(Date.now() / 1000));
   }
 
+  // ─── Update State (pts/qts/seq) ────────────────────────────────────────
+
+  getUpdateState(): UpdateState | null {
+    const row = this.db.prepare('SELECT pts, qts, seq, date FROM update_state WHERE id = 1').get() as any;
+    if (!row) return null;
+    return { pts: row.pts, qts: row.qts, seq: row.seq, date: row.date };
+  }
+
+  setUpdateState(state: UpdateState): void {
+    this.db.prepare(
+      'INSERT OR REPLACE INTO update_state (id, pts, qts, seq, date, updated_at) VALUES (1, ?, ?, ?, ?, ?)'
+    ).run(state.pts, state.qts, state.seq, state.date, Math.floor(Date.now() / 1000));
+  }
+
+  getChannelPts(): Map<string, number> {
+    const rows = this.db.prepare('SELECT channel_id, pts FROM channel_pts').all() as any[];
+    return new Map(rows.map((r) => [r.channel_id as string, r.pts as number]));
+  }
+
+  setChannelPts(channelId: string, pts: number): void {
+    this.db.prepare(
+      'INSERT OR REPLACE INTO channel_pts (channel_id, pts, updated_at) VALUES (?, ?, ?)'
+    ).run(channelId, pts, Math.floor(Date.now() / 1000));
+  }
+
+  clearUpdateState(): void {
+    this.db.exec('DELETE FROM update_state; DELETE FROM channel_pts;');
+  }
+
+  // ─── Event Log ─────────────────────────────────────────────────────────
+
+  /** Append an event and return its sequence number (AUTOINCREMENT keeps it monotonic across pruning). */
+  appendEvent(type: string, dialogId: string | undefined, payload: unknown): number {
+    const result = this.db.prepare(
+      'INSERT INTO event_log (type, dialog_id, payload, created_at) VALUES (?, ?, ?, ?)'
+    ).run(type, dialogId || null, JSON.stringify(payload), Math.floor(Date.now() / 1000));
+    return Number(result.lastInsertRowid);
+  }
+
+  getEventsSince(seq: number, limit: number): { seq: number; payload: unknown }[] {
+    const rows = this.db.prepare(
+      'SELECT seq, payload FROM event_log WHERE seq > ? ORDER BY seq ASC LIMIT ?'
+    ).all(seq, limit) as any[];
+    return rows.map((r) => ({ seq: r.seq, payload: JSON.parse(r.payload) }));
+  }
+
+  getEventLogBounds(): { oldestSeq: number; latestSeq: number } {
+    const oldest = this.db.prepare('SELECT MIN(seq) as seq FROM event_log').get() as any;
+    const latest = this.db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'event_log'").get() as any;
+    const latestSeq = latest?.seq || 0;
+    return { oldestSeq: oldest?.seq ?? latestSeq + 1, latestSeq };
+  }
+
+  /** Keep only the newest `keep` events. */
+  pruneEventLog(keep: number): void {
+    this.db.prepare(
+      'DELETE FROM event_log WHERE seq <= (SELECT seq FROM event_log ORDER BY seq DESC LIMIT 1 OFFSET ?)'
+    ).run(keep);
+  }
+
+  // ─── Backfill Jobs ─────────────────────────────────────────────────────
+
+  getBackfillJobs(): BackfillJob[] {
+    const rows = this.db.prepare('SELECT * FROM backfill_jobs ORDER BY created_at ASC, dialog_id ASC').all() as any[];
+    return rows.map(rowToBackfillJob);
+  }
+
+  getBackfillJob(dialogId: string): BackfillJob | null {
+    const row = this.db.prepare('SELECT * FROM backfill_jobs WHERE dialog_id = ?').get(dialogId) as any;
+    return row ? rowToBackfillJob(row) : null;
+  }
+
+  upsertBackfillJob(job: BackfillJob): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO backfill_jobs (
+        dialog_id, status, oldest_id, fetched, error, created_at, updated_at, completed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      job.dialogId, job.status, job.oldestId, job.fetched, job.error || null,
+      job.createdAt, job.updatedAt, job.completedAt || null,
+    );
+  }
+
+  deleteBackfillJob(dialogId: string): void {
+    this.db.prepare('DELETE FROM backfill_jobs WHERE dialog_id = ?').run(dialogId);
+  }
+
+  // ─── Outbox ────────────────────────────────────────────────────────────
+
+  getOutbox(): OutboxItem[] {
+    const rows = this.db.prepare('SELECT * FROM outbox ORDER BY seq ASC').all() as any[];
+    return rows.map(rowToOutboxItem);
+  }
+
+  getOutboxItem(clientMsgId: string): OutboxItem | null {
+    const row = this.db.prepare('SELECT * FROM outbox WHERE client_msg_id = ?').get(clientMsgId) as any;
+    return row ? rowToOutboxItem(row) : null;
+  }
+
+  insertOutboxItem(item: OutboxItem): void {
+    this.db.prepare(`
+      INSERT INTO outbox (client_msg_id, dialog_id, kind, status, payload, error, attempts, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      item.clientMsgId, item.dialogId, item.kind, item.status, JSON.stringify(item.payload),
+      item.error || null, item.attempts, item.createdAt, item.updatedAt,
+    );
+  }
+
+  updateOutboxItem(item: OutboxItem): void {
+    this.db.prepare(`
+      UPDATE outbox SET status = ?, error = ?, attempts = ?, updated_at = ? WHERE client_msg_id = ?
+    `).run(item.status, item.error || null, item.attempts, item.updatedAt, item.clientMsgId);
+  }
+
+  deleteOutboxItem(clientMsgId: string): void {
+    this.db.prepare('DELETE FROM outbox WHERE client_msg_id = ?').run(clientMsgId);
+  }
+
+  // ─── Webhook Deliveries ────────────────────────────────────────────────
+
+  /** Queue a delivery. It waits behind its webhook's backed-off deliveries, so their order is kept. */
+  insertWebhookDelivery(delivery: WebhookDelivery): void {
+    this.db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts, next_attempt_at, error, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, MAX(?, COALESCE(
+        (SELECT MAX(next_attempt_at) FROM webhook_deliveries WHERE webhook_id = ? AND status = 'pending'), 0
+      )), ?, ?, ?)
+    `).run(
+      delivery.id, delivery.webhookId, delivery.event.type, JSON.stringify(delivery.event), delivery.status,
+      delivery.attempts, delivery.nextAttemptAt ?? 0, delivery.webhookId, delivery.error || null,
+      delivery.createdAt, delivery.updatedAt,
+    );
+  }
+
+  getWebhookDelivery(id: string): WebhookDelivery | null {
+    const row = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as any;
+    return row ? rowToWebhookDelivery(row) : null;
+  }
+
+  /** Newest first */
+  getWebhookDeliveries(filter: { webhookId?: string; status?: WebhookDeliveryStatus }, limit: number): WebhookDelivery[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.webhookId) { conditions.push('webhook_id = ?'); params.push(filter.webhookId); }
+    if (filter.status) { conditions.push('status = ?'); params.push(filter.status); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM webhook_deliveries ${where} ORDER BY seq DESC LIMIT ?`
+    ).all(...params, limit) as any[];
+    return rows.map(rowToWebhookDelivery);
+  }
+
+  /** Pending deliveries due by `now` (Unix seconds), in the order they were queued */
+  getDueWebhookDeliveries(now: number, limit: number): WebhookDelivery[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY seq ASC LIMIT ?
+    `).all(now, limit) as any[];
+    return rows.map(rowToWebhookDelivery);
+  }
+
+  /** When the next pending delivery is due, or null if none are */
+  getNextWebhookAttempt(): number | null {
+    const row = this.db.prepare(
+      "SELECT MIN(next_attempt_at) AS next FROM webhook_deliveries WHERE status = 'pending'"
+    ).get() as any;
+    return row?.next ?? null;
+  }
+
+  updateWebhookDelivery(delivery: WebhookDelivery): void {
+    this.db.prepare(`
+      UPDATE webhook_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, error = ?, updated_at = ? WHERE id = ?
+    `).run(
+      delivery.status, delivery.attempts, delivery.nextAttemptAt ?? null, delivery.error || null,
+      delivery.updatedAt, delivery.id,
+    );
+  }
+
+  /** Hold a webhook's pending deliveries until `until`, behind one that failed */
+  postponeWebhookDeliveries(webhookId: string, until: number): void {
+    this.db.prepare(`
+      UPDATE webhook_deliveries SET next_attempt_at = ?
+      WHERE webhook_id = ? AND status = 'pending' AND next_attempt_at < ?
+    `).run(until, webhookId, until);
+  }
+
+  deleteWebhookDelivery(id: string): void {
+    this.db.prepare('DELETE FROM webhook_deliveries WHERE id = ?').run(id);
+  }
+
+  deleteWebhookDeliveries(webhookId: string): void {
+    this.db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(webhookId);
+  }
+
+  // ─── Rule Runs ─────────────────────────────────────────────────────────
+
+  insertRuleRun(run: Omit<RuleRun, 'id'>): number {
+    const result = this.db.prepare(`
+      INSERT INTO rule_runs (rule_id, dialog_id, message_id, status, actions, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(run.ruleId, run.dialogId, run.messageId, run.status, JSON.stringify(run.actions), run.createdAt);
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Newest first */
+  getRuleRuns(filter: { ruleId?: string; dialogId?: string }, limit: number): RuleRun[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.ruleId) { conditions.push('rule_id = ?'); params.push(filter.ruleId); }
+    if (filter.dialogId) { conditions.push('dialog_id = ?'); params.push(filter.dialogId); }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM rule_runs ${where} ORDER BY seq DESC LIMIT ?`).all(...params, limit) as any[];
+    return rows.map(rowToRuleRun);
+  }
+
+  /** When `ruleId` last ran in `dialogId`, or null */
+  getLastRuleRun(ruleId: string, dialogId: string): number | null {
+    const row = this.db.prepare(
+      'SELECT MAX(created_at) AS last FROM rule_runs WHERE rule_id = ? AND dialog_id = ?'
+    ).get(ruleId, dialogId) as any;
+    return row?.last ?? null;
+  }
+
+  /** Keep only the newest `keep` runs */
+  pruneRuleRuns(keep: number): void {
+    this.db.prepare(
+      'DELETE FROM rule_runs WHERE seq <= (SELECT seq FROM rule_runs ORDER BY seq DESC LIMIT 1 OFFSET ?)'
+    ).run(keep);
+  }
+
+  deleteRuleRuns(ruleId: string): void {
+    this.db.prepare('DELETE FROM rule_runs WHERE rule_id = ?').run(ruleId);
+  }
+
+  // ─── Schedules ─────────────────────────────────────────────────────────
+
+  /** Oldest first */
+  getSchedules(): Schedule[] {
+    const rows = this.db.prepare('SELECT * FROM schedules ORDER BY created_at, id').all() as any[];
+    return rows.map(rowToSchedule);
+  }
+
+  getSchedule(id: string): Schedule | null {
+    const row = this.db.prepare('SELECT * FROM schedules WHERE id = ?').get(id) as any;
+    return row ? rowToSchedule(row) : null;
+  }
+
+  upsertSchedule(schedule: Schedule): void {
+    const { id, status, nextRunAt, lastRunAt, lastError, runCount, createdAt, updatedAt, ...spec } = schedule;
+    this.db.prepare(`
+      INSERT OR REPLACE INTO schedules (id, dialog_id, spec, status, next_run_at, last_run_at, last_error, run_count, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, spec.dialogId, JSON.stringify(spec), status, nextRunAt ?? null, lastRunAt ?? null, lastError ?? null,
+      runCount, createdAt, updatedAt,
+    );
+  }
+
+  deleteSchedule(id: string): void {
+    this.db.prepare('DELETE FROM schedules WHERE id = ?').run(id);
+  }
+
+  // ─── Idempotency Keys ──────────────────────────────────────────────────
+
+  getSendResult(clientMsgId: string): unknown | null {
+    const row = this.db.prepare('SELECT result FROM idempotency_keys WHERE client_msg_id = ?').get(clientMsgId) as any;
+    return row ? JSON.parse(row.result) : null;
+  }
+
+  /** Store a send's result; `chatId` is set when the sent messages' ids should map back to the key. */
+  saveSendResult(clientMsgId: string, result: unknown, chatId: string | null, messageIds: number[]): void {
+    const now = Math.floor(Date.now() / 1000);
+    const insertKey = this.db.prepare('INSERT OR REPLACE INTO idempotency_keys (client_msg_id, result, created_at) VALUES (?, ?, ?)');
+    const insertMessage = this.db.prepare(
+      'INSERT OR REPLACE INTO idempotency_messages (chat_id, message_id, client_msg_id, created_at) VALUES (?, ?, ?, ?)'
+    );
+    this.db.transaction(() => {
+      insertKey.run(clientMsgId, JSON.stringify(result), now);
+      if (chatId) {
+        for (const id of messageIds) insertMessage.run(chatId, id, clientMsgId, now);
+      }
+    })();
+  }
+
+  getClientMsgId(chatId: string, messageId: number): string | null {
+    const row = this.db.prepare(
+      'SELECT client_msg_id FROM idempotency_messages WHERE chat_id = ? AND message_id = ?'
+    ).get(chatId, messageId) as any;
+    return row ? row.client_msg_id : null;
+  }
+
+  pruneSendResults(before: number): void {
+    this.db.prepare('DELETE FROM idempotency_keys WHERE created_at < ?').run(before);
+    this.db.prepare('DELETE FROM idempotency_messages WHERE created_at < ?').run(before);
+  }
+
+  // ─── Media Objects ─────────────────────────────────────────────────────
+
+  getMediaObject(ref: string): MediaObject | null {
+    const row = this.db.prepare(
+      'SELECT o.* FROM media_refs r JOIN media_objects o ON o.hash = r.hash WHERE r.ref = ?'
+    ).get(ref) as any;
+    return row ? rowToMediaObject(row) : null;
+  }
+
+  addMediaObject(ref: string, object: MediaObject, now: number): void {
+    const tx = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO media_objects (hash, size, mime_type, file_name, sealed, last_access) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(hash) DO UPDATE SET last_access = excluded.last_access
+      `).run(object.hash, object.size, object.mimeType, object.fileName ?? null, object.sealed ? 1 : 0, now);
+      this.db.prepare('INSERT OR REPLACE INTO media_refs (ref, hash) VALUES (?, ?)').run(ref, object.hash);
+    });
+    tx();
+  }
+
+  touchMediaObject(hash: string, now: number): void {
+    this.db.prepare('UPDATE media_objects SET last_access = ? WHERE hash = ?').run(now, hash);
+  }
+
+  getMediaUsage(): { bytes: number; count: number } {
+    const row = this.db.prepare('SELECT COALESCE(SUM(size), 0) AS bytes, COUNT(*) AS count FROM media_objects').get() as any;
+    return { bytes: row.bytes, count: row.count };
+  }
+
+  /** Objects in least recently read order, for eviction. */
+  getLeastRecentMedia(limit: number): MediaObject[] {
+    const rows = this.db.prepare('SELECT * FROM media_objects ORDER BY last_access ASC LIMIT ?').all(limit) as any[];
+    return rows.map(rowToMediaObject);
+  }
+
+  getMediaHashes(): Set<string> {
+    const rows = this.db.prepare('SELECT hash FROM media_objects').all() as { hash: string }[];
+    return new Set(rows.map((r) => r.hash));
+  }
+
+  deleteMediaObject(hash: string): void {
+    const tx = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM media_refs WHERE hash = ?').run(hash);
+      this.db.prepare('DELETE FROM media_objects WHERE hash = ?').run(hash);
+    });
+    tx();
+  }
+
   // ─── Lifecycle ─────────────────────────────────────────────────────────
 
   close(): void {
@@ -161,6 +974,34 @@ export class Cache {
   }
 }
 
+// ─── Full-text helpers ─────────────────────────────────────────────────────
+
+/**
+ * Turn user input into a safe FTS5 query: `"quoted text"` stays a phrase, a
+ * trailing `*` on a word makes it a prefix match, everything else is a literal
+ * term. Terms are ANDed.
+ */
+function toFtsQuery(input: string): string {
+  const terms: string[] = [];
+  const re = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(input)) !== null) {
+    const phrase = match[1] ?? match[2];
+    const prefix = match[2] !== undefined && phrase.endsWith('*') && phrase.length > 1;
+    const text = (prefix ? phrase.slice(0, -1) : phrase).replace(/"/g, '""');
+    if (text.trim()) terms.push(`"${text}"${prefix ? '*' : ''}`);
+  }
+  return terms.join(' AND ') || '""';
+}
+
+/** HTML-escape a snippet and wrap matches in <mark>. */
+function highlightSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    .split(SNIPPET_OPEN).join('<mark>')
+    .split(SNIPPET_CLOSE).join('</mark>');
+}
+
 // ─── Row mappers ───────────────────────────────────────────────────────────
 
 function rowToMessageInfo(row: any): MessageInfo {
@@ -178,6 +1019,57 @@ function rowToMessageInfo(row: any): MessageInfo {
   };
 }
 
+function rowToDeletedMessage(row: any): DeletedMessage {
+  return { dialogId: row.dialog_id, message: JSON.parse(row.raw), deletedAt: row.deleted_at };
+}
+
+function rowToBackfillJob(row: any): BackfillJob {
+  return {
+    dialogId: row.dialog_id, status: row.status, oldestId: row.oldest_id ?? null,
+    fetched: row.fetched || 0, error: row.error || undefined,
+    createdAt: row.created_at || 0, updatedAt: row.updated_at || 0,
+    completedAt: row.completed_at || undefined,
+  };
+}
+
+function rowToOutboxItem(row: any): OutboxItem {
+  return {
+    clientMsgId: row.client_msg_id, dialogId: row.dialog_id, kind: row.kind, status: row.status,
+    payload: JSON.parse(row.payload), error: row.error || undefined, attempts: row.attempts || 0,
+    createdAt: row.created_at || 0, updatedAt: row.updated_at || 0,
+  };
+}
+
+function rowToWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id, webhookId: row.webhook_id, event: JSON.parse(row.payload), status: row.status,
+    attempts: row.attempts || 0, nextAttemptAt: row.next_attempt_at ?? undefined, error: row.error || undefined,
+    createdAt: row.created_at || 0, updatedAt: row.updated_at || 0,
+  };
+}
+
+function rowToRuleRun(row: any): RuleRun {
+  return {
+    id: row.seq, ruleId: row.rule_id, dialogId: row.dialog_id, messageId: row.message_id,
+    status: row.status, actions: JSON.parse(row.actions), createdAt: row.created_at || 0,
+  };
+}
+
+function rowToSchedule(row: any): Schedule {
+  return {
+    ...JSON.parse(row.spec), id: row.id, status: row.status, nextRunAt: row.next_run_at ?? undefined,
+    lastRunAt: row.last_run_at ?? undefined, lastError: row.last_error || undefined, runCount: row.run_count || 0,
+    createdAt: row.created_at || 0, updatedAt: row.updated_at || 0,
+  };
+}
+
+function rowToMediaObject(row: any): MediaObject {
+  return {
+    hash: row.hash, size: row.size, mimeType: row.mime_type || 'application/octet-stream',
+    fileName: row.file_name || undefined, sealed: !!row.sealed,
+  };
+}
+
 function rowToDialogInfo(row: any): DialogInfo {
   if (row.raw) {
     try {
@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 
-import { readPid, removePid, getPort, loadConfig } from './config';
-import { TelegramService } from './telegram';
-import { createServer } from './server';
+import { readPid, removePid, getPort } from './config';
+import { AccountManager } from './accounts';
+import { createServer, accountBasePath } from './server';
+import { SCOPES, isScope, createToken, revokeToken, listTokens } from './tokens';
+import { unlockStorage, rotateStorageKey, storageStatus } from './storage';
 
 const command = process.argv[2] || 'start';
 
@@ -17,8 +19,14 @@ async function main() {
     case 'status':
       status();
       break;
+    case 'token':
+      token(process.argv.slice(3));
+      break;
+    case 'key':
+      await key(process.argv.slice(3));
+      break;
     default:
-      console.log('Usage: oceangram-daemon <start|stop|status>');
+      console.log('Usage: oceangram-daemon <start|stop|status|token|key>');
       process.exit(1);
   }
 }
@@ -35,27 +43,17 @@ async function start() {
     }
   }
 
-  const telegram = new TelegramService();
-  const config = loadConfig();
-
-  // Try to connect with existing session
-  if (config.session) {
-    try {
-      await telegram.connect(config.session);
-      console.log('Telegram connected');
-    } catch (err: unknown) {
-      const error = err as Error;
-      if (error.message === 'NOT_AUTHORIZED') {
-        console.log('Session expired. Visit http://127.0.0.1:' + getPort() + '/login to re-authenticate');
-      } else {
-        console.error('Telegram connection failed:', error.message);
-      }
-    }
-  } else {
-    console.log('No session found. Visit http://127.0.0.1:' + getPort() + '/login to authenticate');
+  try {
+    await unlockStorage();
+  } catch (err: unknown) {
+    console.error((err as Error).message);
+    process.exit(1);
   }
 
-  await createServer(telegram);
+  const accounts = new AccountManager();
+  await accounts.connectAll((accountId) => `http://127.0.0.1:${getPort()}${accountBasePath(accountId)}/login`);
+
+  await createServer(accounts);
   console.log(`oceangram-daemon listening on http://127.0.0.1:${getPort()}`);
 }
 
@@ -90,6 +88,93 @@ function status() {
   }
 }
 
+function token(args: string[]) {
+  const [action, name] = args;
+  const option = (flag: string) => {
+    const i = args.indexOf(flag);
+    return i >= 0 && args[i + 1] ? args[i + 1].split(',').map((v) => v.trim()).filter(Boolean) : undefined;
+  };
+
+  switch (action) {
+    case 'create': {
+      const scopes = option('--scopes') ?? [];
+      const invalid = scopes.filter((s) => !isScope(s));
+      if (!name || scopes.length === 0 || invalid.length > 0) {
+        if (invalid.length > 0) console.error(`Unknown scope(s): ${invalid.join(', ')}`);
+        console.log('Usage: oceangram-daemon token create <name> --scopes <scope,...> [--dialogs <id,...>] [--accounts <id,...>]');
+        console.log(`Scopes: ${SCOPES.join(', ')}`);
+        process.exit(1);
+      }
+      try {
+        const secret = createToken(name, scopes.filter(isScope), option('--dialogs'), option('--accounts'));
+        console.log(`Created token "${name}". Store it now, it won't be shown again:\n${secret}`);
+      } catch (err: unknown) {
+        console.error((err as Error).message);
+        process.exit(1);
+      }
+      break;
+    }
+    case 'revoke':
+      if (!name) {
+        console.log('Usage: oceangram-daemon token revoke <name>');
+        process.exit(1);
+      }
+      if (!revokeToken(name)) {
+        console.error(`No token named "${name}"`);
+        process.exit(1);
+      }
+      console.log(`Revoked token "${name}"`);
+      break;
+    case 'list': {
+      const tokens = listTokens();
+      if (tokens.length === 0) console.log('No tokens');
+      for (const t of tokens) {
+        const limits = [t.dialogs && `dialogs: ${t.dialogs.join(',')}`, t.accounts && `accounts: ${t.accounts.join(',')}`].filter(Boolean);
+        console.log(`${t.name}  ${t.scopes.join(',')}${limits.length ? `  (${limits.join('; ')})` : ''}`);
+      }
+      break;
+    }
+    default:
+      console.log('Usage: oceangram-daemon token <create|revoke|list>');
+      process.exit(1);
+  }
+}
+
+async function key(args: string[]) {
+  const [action] = args;
+  switch (action) {
+    case 'status': {
+      const { encrypted, keySource } = storageStatus();
+      console.log(encrypted ? `Storage encrypted with a ${keySource} key` : 'Storage not encrypted');
+      break;
+    }
+    case 'rotate': {
+      const pid = readPid();
+      if (pid) {
+        try {
+          process.kill(pid, 0);
+          console.error(`Stop the daemon (PID ${pid}) before rotating the key`);
+          process.exit(1);
+        } catch {
+          removePid();
+        }
+      }
+      const source = args.includes('--keyring') ? 'keyring' : args.includes('--passphrase') ? 'passphrase' : undefined;
+      try {
+        const used = await rotateStorageKey(source);
+        console.log(`Rotated storage key (now a ${used} key)`);
+      } catch (err: unknown) {
+        console.error((err as Error).message);
+        process.exit(1);
+      }
+      break;
+    }
+    default:
+      console.log('Usage: oceangram-daemon key <status|rotate> [--keyring|--passphrase]');
+      process.exit(1);
+  }
+}
+
 main().catch(err => {
   console.error('Fatal:', err);
   process.exit(1);
@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { EncryptionConfig, getStorageKey, isSealedString, openString, sealString } from './encryption';
+import type { RuleSpec } from './rules';
 
 const CONFIG_DIR = path.join(process.env.HOME || '/root', '.oceangram-daemon');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
@@ -8,8 +10,54 @@ const PID_FILE = path.join(CONFIG_DIR, 'daemon.pid');
 export const DEFAULT_API_ID = 35419737;
 export const DEFAULT_API_HASH = 'f689329727c1f0002f72152be5f3f6fa';
 
+/** The account served at the root routes; its session lives in the top-level `session` field. */
+export const DEFAULT_ACCOUNT_ID = 'default';
+const ACCOUNT_ID_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export interface AccountConfig {
+  name?: string;
+  session?: string;
+}
+
+/** A named API token. Only the SHA-256 of the token is stored. */
+export interface TokenConfig {
+  hash: string;
+  scopes: string[];
+  dialogs?: string[];
+  accounts?: string[];
+  createdAt: number;
+}
+
+/** An outbound webhook for one account's events. The signing secret is sealed like sessions. */
+export interface WebhookConfig {
+  account: string;
+  url: string;
+  secret: string;
+  eventTypes?: string[];
+  dialogIds?: string[];
+  folderIds?: number[];
+  createdAt: number;
+}
+
+/** An automation rule for one account; see rules.ts */
+export interface RuleConfig extends RuleSpec {
+  account: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface DaemonConfig {
   session?: string;
+  accounts?: Record<string, AccountConfig>;
+  tokens?: Record<string, TokenConfig>;
+  webhooks?: Record<string, WebhookConfig>;
+  rules?: Record<string, RuleConfig>;
+  backfill?: { pageSize?: number; delayMs?: number };
+  media?: { maxBytes?: number };
+  /** Telegram request pacing; see scheduler.ts */
+  scheduler?: { maxFloodWait?: number; limits?: Record<string, { rate: number; burst: number }> };
+  /** Storage key setup; `false` keeps session and cache unencrypted */
+  encryption?: EncryptionConfig | false;
   apiId?: number;
   apiHash?: string;
   port?: number;
@@ -26,13 +74,14 @@ export function getConfigDir(): string {
   return CONFIG_DIR;
 }
 
+// Try daemon config first, then fall back to extension config (~/.oceangram/)
+const CONFIG_CANDIDATES = [
+  CONFIG_FILE,
+  path.join(process.env.HOME || '/root', '.oceangram', 'config.json'),
+];
+
 export function loadConfig(): DaemonConfig {
-  // Try daemon config first, then fall back to extension config (~/.oceangram/)
-  const candidates = [
-    CONFIG_FILE,
-    path.join(process.env.HOME || '/root', '.oceangram', 'config.json'),
-  ];
-  for (const candidate of candidates) {
+  for (const candidate of CONFIG_CANDIDATES) {
     try {
       if (fs.existsSync(candidate)) {
         return JSON.parse(fs.readFileSync(candidate, 'utf-8'));
@@ -42,6 +91,20 @@ export function loadConfig(): DaemonConfig {
   return {};
 }
 
+/**
+ * Changes whenever the config file `loadConfig()` reads does, so what is
+ * parsed from it can be kept until then. Costs a stat, not a read.
+ */
+export function getConfigStamp(): string {
+  for (const candidate of CONFIG_CANDIDATES) {
+    try {
+      const stat = fs.statSync(candidate);
+      return `${candidate}:${stat.mtimeMs}:${stat.size}`;
+    } catch { /* try the next one */ }
+  }
+  return '';
+}
+
 export function saveConfig(config: DaemonConfig): void {
   ensureConfigDir();
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), { mode: 0o600 });
@@ -63,6 +126,91 @@ export function getAuthToken(): string | undefined {
   return process.env.AUTH_TOKEN || loadConfig().authToken;
 }
 
+export function getBackfillOptions(): { pageSize: number; delayMs: number } {
+  const backfill = loadConfig().backfill || {};
+  return {
+    pageSize: Math.min(backfill.pageSize || 100, 100),
+    delayMs: backfill.delayMs ?? 1000,
+  };
+}
+
+export function getMediaCacheOptions(): { maxBytes: number } {
+  const media = loadConfig().media || {};
+  return { maxBytes: media.maxBytes ?? 1024 * 1024 * 1024 };
+}
+
+export function getSchedulerOptions(): { maxFloodWait: number; limits: Record<string, { rate: number; burst: number }> } {
+  const scheduler = loadConfig().scheduler || {};
+  return { maxFloodWait: scheduler.maxFloodWait ?? 60, limits: scheduler.limits || {} };
+}
+
+// --- Accounts ---
+
+export function isValidAccountId(accountId: string): boolean {
+  return ACCOUNT_ID_RE.test(accountId);
+}
+
+export function listAccounts(): { id: string; name?: string }[] {
+  const config = loadConfig();
+  const extra = Object.entries(config.accounts || {})
+    .filter(([id]) => id !== DEFAULT_ACCOUNT_ID)
+    .map(([id, account]) => ({ id, name: account.name }));
+  return [{ id: DEFAULT_ACCOUNT_ID }, ...extra];
+}
+
+export function addAccount(accountId: string, name?: string): void {
+  const config = loadConfig();
+  config.accounts = { ...config.accounts, [accountId]: { ...config.accounts?.[accountId], name } };
+  saveConfig(config);
+}
+
+export function removeAccount(accountId: string): void {
+  const config = loadConfig();
+  if (!config.accounts?.[accountId]) return;
+  delete config.accounts[accountId];
+  for (const [id, webhook] of Object.entries(config.webhooks || {})) {
+    if (webhook.account === accountId) delete config.webhooks![id];
+  }
+  for (const [id, rule] of Object.entries(config.rules || {})) {
+    if (rule.account === accountId) delete config.rules![id];
+  }
+  saveConfig(config);
+}
+
+export function getAccountSession(accountId: string): string | undefined {
+  const config = loadConfig();
+  const session = accountId === DEFAULT_ACCOUNT_ID ? config.session : config.accounts?.[accountId]?.session;
+  return session && isSealedString(session) ? openString(session) : session;
+}
+
+export function saveAccountSession(accountId: string, session: string): void {
+  const config = loadConfig();
+  if (session && getStorageKey()) session = sealString(session);
+  if (accountId === DEFAULT_ACCOUNT_ID) {
+    config.session = session;
+  } else {
+    config.accounts = { ...config.accounts, [accountId]: { ...config.accounts?.[accountId], session } };
+  }
+  saveConfig(config);
+}
+
+/** SQLite cache for an account. The default account keeps the original `~/.oceangram/cache.db`. */
+export function getAccountCachePath(accountId: string): string {
+  const cacheDir = path.join(process.env.HOME || '/root', '.oceangram');
+  if (accountId === DEFAULT_ACCOUNT_ID) return path.join(cacheDir, 'cache.db');
+  return path.join(cacheDir, 'accounts', accountId, 'cache.db');
+}
+
+/** Uploads being received, and files of sends waiting in the outbox. */
+export function getAccountUploadDir(accountId: string): string {
+  return path.join(CONFIG_DIR, 'uploads', accountId);
+}
+
+/** Downloaded media, next to the account's cache file. */
+export function getAccountMediaDir(accountId: string): string {
+  return path.join(path.dirname(getAccountCachePath(accountId)), 'media');
+}
+
 export function writePid(): void {
   ensureConfigDir();
   fs.writeFileSync(PID_FILE, process.pid.toString());
@@ -0,0 +1,173 @@
+/**
+ * Cron expressions and wall-clock time in a time zone.
+ *
+ * Five fields: minute, hour, day of month, month, day of week. Each is `*`, a
+ * number, a range (`1-5`), a step (`*\/15`, `9-17/2`) or a comma list of
+ * those. Months and weekdays also take names (`jan`, `mon`); Sunday is 0 or
+ * 7. As in Vixie cron, when both day fields are restricted a day matching
+ * either one runs. `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly`
+ * are shorthands.
+ */
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day-of-month and day-of-week fields were `*` */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+export interface LocalTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0 for Sunday */
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Candidate times looked at before deciding an expression never runs; Feb 29 is at most eight years off */
+const MAX_STEPS = 10_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Validate an IANA time zone name */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock time of `timestamp` (Unix seconds) in `timeZone`, or the daemon's own zone */
+export function localTime(timestamp: number, timeZone?: string): LocalTime {
+  const key = timeZone ?? '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    });
+    formatters.set(key, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp * 1000))) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/** Parse a cron expression. Throws an Error saying what is wrong. */
+export function parseCron(expression: string): CronExpression {
+  const fields = (MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error('cron needs five fields: minute hour day month weekday');
+  const [minute, hour, day, month, weekday] = fields;
+  const weekdays = parseField(weekday, 'weekday', 0, 7, WEEKDAY_NAMES);
+  if (weekdays.delete(7)) weekdays.add(0);
+  const cron: CronExpression = {
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    days: parseField(day, 'day of month', 1, 31),
+    months: parseField(month, 'month', 1, 12, MONTH_NAMES, 1),
+    weekdays,
+    anyDay: day === '*',
+    anyWeekday: weekday === '*',
+  };
+  if (nextCronRun(cron, Math.floor(Date.now() / 1000)) === null) throw new Error('cron never runs');
+  return cron;
+}
+
+function parseField(field: string, name: string, min: number, max: number, names: string[] = [], nameBase = 0): Set<number> {
+  const values = new Set<number>();
+  const value = (text: string): number => {
+    const index = names.indexOf(text.toLowerCase());
+    const n = index >= 0 ? index + nameBase : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!(n >= min && n <= max)) throw new Error(`cron ${name} must be ${min}-${max}: ${field}`);
+    return n;
+  };
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) throw new Error(`cron ${name} has a bad step: ${field}`);
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [min, max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [from, to] = [value(start), value(end)];
+      if (from > to) throw new Error(`cron ${name} range runs backwards: ${field}`);
+    } else {
+      from = value(range);
+      to = stepText === undefined ? from : max;
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+function dayMatches(cron: CronExpression, time: LocalTime): boolean {
+  const byDay = cron.days.has(time.day);
+  const byWeekday = cron.weekdays.has(time.weekday);
+  if (cron.anyDay && cron.anyWeekday) return true;
+  if (cron.anyDay) return byWeekday;
+  if (cron.anyWeekday) return byDay;
+  return byDay || byWeekday;
+}
+
+/** Whether `t` is the second pass through a wall-clock time, in the hour a DST change repeats */
+function isRepeat(t: number, time: LocalTime, timeZone?: string): boolean {
+  const hourBefore = localTime(t - 3600, timeZone);
+  return hourBefore.hour === time.hour && hourBefore.day === time.day;
+}
+
+/**
+ * The first minute after `after` (Unix seconds) that `cron` runs at, in
+ * `timeZone`. Null if it never does. A time a DST change skips doesn't run;
+ * one it repeats runs once.
+ */
+export function nextCronRun(cron: CronExpression, after: number, timeZone?: string): number | null {
+  let t = Math.floor(after / 60) * 60 + 60;
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const time = localTime(t, timeZone);
+    if (!cron.months.has(time.month) || !dayMatches(cron, time)) {
+      // To the next local midnight. Stop an hour short when that is far off, in case a DST change shortens the day.
+      const toMidnight = 24 * 60 - (time.hour * 60 + time.minute);
+      t += (toMidnight > 60 ? toMidnight - 60 : toMidnight) * 60;
+    } else if (!cron.hours.has(time.hour)) {
+      t += (60 - time.minute) * 60;
+    } else if (!cron.minutes.has(time.minute)) {
+      t += 60;
+    } else if (isRepeat(t, time, timeZone)) {
+      t += 60;
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
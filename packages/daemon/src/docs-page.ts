@@ -0,0 +1,237 @@
+/** API reference rendered in the browser from `/openapi.json`, with a form to try each route */
+export function getDocsHtml(): string {
+  return `<!DOCTYPE html>
+<html><head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Oceangram — API</title>
+<style>
+* { box-sizing: border-box; margin: 0; padding: 0; }
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+  background: #0e1621; color: #f5f5f5; font-size: 14px;
+}
+header {
+  position: sticky; top: 0; z-index: 1; background: #17212b; padding: 16px 24px;
+  display: flex; align-items: center; gap: 16px;
+}
+header h1 { font-size: 18px; flex: 1; }
+header .sub { color: #6d7f8f; font-size: 13px; font-weight: normal; margin-left: 8px; }
+input, textarea, select {
+  padding: 8px 12px; background: #242f3d; border: 2px solid transparent; border-radius: 8px;
+  color: #f5f5f5; font-size: 13px; outline: none; font-family: inherit;
+}
+input:focus, textarea:focus { border-color: #6ab2f2; }
+textarea { width: 100%; min-height: 120px; font-family: ui-monospace, Menlo, monospace; }
+button {
+  padding: 8px 16px; background: #6ab2f2; color: #0e1621; border: none; border-radius: 8px;
+  font-size: 13px; font-weight: 600; cursor: pointer;
+}
+button:hover { background: #7dc0f7; }
+main { max-width: 1000px; margin: 0 auto; padding: 24px; }
+.intro { color: #6d7f8f; line-height: 1.6; margin-bottom: 24px; }
+h2 { font-size: 16px; margin: 32px 0 12px; }
+.op { background: #17212b; border-radius: 12px; margin-bottom: 8px; overflow: hidden; }
+.op summary { list-style: none; cursor: pointer; padding: 12px 16px; display: flex; gap: 12px; align-items: center; }
+.op summary::-webkit-details-marker { display: none; }
+.method { width: 64px; text-align: center; border-radius: 6px; padding: 3px 0; font-size: 12px; font-weight: 700; color: #0e1621; }
+.get { background: #6ab2f2; } .post { background: #51cf66; } .put { background: #fcc419; }
+.patch { background: #ff922b; } .delete { background: #ff6b6b; }
+.path { font-family: ui-monospace, Menlo, monospace; }
+.summary { color: #6d7f8f; flex: 1; }
+.scope { color: #6d7f8f; font-size: 12px; border: 1px solid #2b3a4a; border-radius: 6px; padding: 2px 6px; }
+.body { padding: 0 16px 16px; }
+.body h3 { font-size: 13px; color: #6d7f8f; margin: 16px 0 8px; font-weight: 600; }
+.desc { color: #a9b6c2; line-height: 1.5; }
+table { width: 100%; border-collapse: collapse; }
+td { padding: 6px 8px; border-top: 1px solid #2b3a4a; vertical-align: top; }
+td:first-child { font-family: ui-monospace, Menlo, monospace; white-space: nowrap; width: 1%; }
+.type { color: #6ab2f2; font-family: ui-monospace, Menlo, monospace; font-size: 12px; }
+.req { color: #ff6b6b; font-size: 11px; margin-left: 4px; }
+pre {
+  background: #0e1621; border-radius: 8px; padding: 12px; overflow: auto;
+  font-family: ui-monospace, Menlo, monospace; font-size: 12px; color: #d0dbe5; max-height: 400px;
+}
+.try { display: grid; gap: 8px; }
+.try label { display: flex; gap: 8px; align-items: center; }
+.try label span { width: 140px; font-family: ui-monospace, Menlo, monospace; color: #a9b6c2; }
+.try label input { flex: 1; }
+.status { font-weight: 600; margin-top: 8px; }
+.error { color: #ff6b6b; }
+</style>
+</head><body>
+<header>
+  <h1>🦞 Oceangram API<span class="sub" id="version"></span></h1>
+  <input id="account" placeholder="Account (default)" size="16" />
+  <input id="token" type="password" placeholder="API token" size="28" />
+</header>
+<main>
+  <p class="intro" id="intro"></p>
+  <div id="ops"></div>
+</main>
+<script>
+const ops = document.getElementById('ops');
+const tokenInput = document.getElementById('token');
+const accountInput = document.getElementById('account');
+tokenInput.value = localStorage.getItem('oceangram.token') || '';
+tokenInput.addEventListener('change', () => localStorage.setItem('oceangram.token', tokenInput.value));
+let spec;
+
+function el(tag, attrs, ...children) {
+  const node = document.createElement(tag);
+  for (const [key, value] of Object.entries(attrs || {})) {
+    if (key === 'class') node.className = value; else node.setAttribute(key, value);
+  }
+  for (const child of children) if (child != null) node.append(child);
+  return node;
+}
+
+function resolve(schema) {
+  while (schema && schema.$ref) schema = spec.components.schemas[schema.$ref.split('/').pop()];
+  return schema || {};
+}
+
+function typeName(schema) {
+  if (!schema) return 'any';
+  if (schema.$ref) return schema.$ref.split('/').pop();
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(' | ');
+  if (schema.oneOf) return schema.oneOf.map(typeName).join(' | ');
+  if (schema.type === 'array') return typeName(schema.items) + '[]';
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  return schema.type || 'any';
+}
+
+/** Sample value for a schema, to prefill request bodies and show response shapes */
+function example(schema, depth) {
+  schema = resolve(schema);
+  if ((depth || 0) > 4) return null;
+  if (schema.enum) return schema.enum[0];
+  if (schema.oneOf) return example(schema.oneOf[0], depth);
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  if (type === 'object') {
+    if (!schema.properties) return {};
+    const out = {};
+    for (const [name, prop] of Object.entries(schema.properties)) out[name] = example(prop, (depth || 0) + 1);
+    return out;
+  }
+  if (type === 'array') return [example(schema.items, (depth || 0) + 1)];
+  if (type === 'integer' || type === 'number') return 0;
+  if (type === 'boolean') return false;
+  if (type === 'string') return schema.format === 'binary' ? '<binary>' : '';
+  return null;
+}
+
+function fieldTable(schema) {
+  schema = resolve(schema);
+  if (!schema.properties) return el('pre', {}, typeName(schema));
+  const required = new Set(schema.required || []);
+  const rows = Object.entries(schema.properties).map(([name, prop]) => el('tr', {},
+    el('td', {}, name, required.has(name) ? el('span', { class: 'req' }, 'required') : null),
+    el('td', {}, el('span', { class: 'type' }, typeName(prop)), prop.description ? el('div', { class: 'desc' }, prop.description) : null),
+  ));
+  return el('table', {}, ...rows);
+}
+
+function renderOperation(method, path, op) {
+  const details = el('details', { class: 'op' });
+  details.append(el('summary', {},
+    el('span', { class: 'method ' + method }, method.toUpperCase()),
+    el('span', { class: 'path' }, path),
+    el('span', { class: 'summary' }, op.summary || ''),
+    op['x-scope'] ? el('span', { class: 'scope' }, op['x-scope']) : null,
+  ));
+  const body = el('div', { class: 'body' });
+  if (op.description) body.append(el('p', { class: 'desc' }, op.description));
+  if (op['x-websocket']) body.append(el('p', { class: 'desc' }, 'WebSocket: connect with ws:// to this path.'));
+
+  const params = op.parameters || [];
+  if (params.length) {
+    body.append(el('h3', {}, 'Parameters'));
+    body.append(el('table', {}, ...params.map((p) => el('tr', {},
+      el('td', {}, p.name, p.required ? el('span', { class: 'req' }, 'required') : null),
+      el('td', {}, el('span', { class: 'type' }, p.in + ' · ' + typeName(p.schema)), p.description ? el('div', { class: 'desc' }, p.description) : null),
+    ))));
+  }
+  const json = op.requestBody && op.requestBody.content['application/json'];
+  if (op.requestBody) {
+    body.append(el('h3', {}, 'Request body · ' + Object.keys(op.requestBody.content).join(', ')));
+    const first = Object.values(op.requestBody.content)[0];
+    body.append(fieldTable((json || first).schema));
+  }
+  for (const [status, response] of Object.entries(op.responses || {})) {
+    if (status === 'default') continue;
+    const [type, media] = Object.entries(response.content || {})[0] || [];
+    body.append(el('h3', {}, 'Response ' + status + (type ? ' · ' + type : '')));
+    if (media && type === 'application/json') body.append(el('pre', {}, JSON.stringify(example(media.schema), null, 2)));
+    else if (!media) body.append(el('p', { class: 'desc' }, response.description));
+  }
+
+  if (!op['x-websocket']) body.append(tryForm(method, path, params, json));
+  details.append(body);
+  return details;
+}
+
+function tryForm(method, path, params, json) {
+  const form = el('div', { class: 'try' });
+  const inputs = params.map((p) => {
+    const input = el('input', { placeholder: typeName(p.schema) });
+    form.append(el('label', {}, el('span', {}, p.name), input));
+    return { param: p, input };
+  });
+  const textarea = json ? el('textarea', {}) : null;
+  if (textarea) {
+    textarea.value = JSON.stringify(example(json.schema), null, 2);
+    form.append(textarea);
+  }
+  const result = el('pre', {});
+  const status = el('div', { class: 'status' });
+  const button = el('button', {}, 'Send');
+  button.addEventListener('click', async () => {
+    let url = path;
+    const query = new URLSearchParams();
+    for (const { param, input } of inputs) {
+      if (param.in === 'path') url = url.replace('{' + param.name + '}', encodeURIComponent(input.value));
+      else if (input.value) query.set(param.name, input.value);
+    }
+    const account = accountInput.value.trim();
+    if (account && !spec.paths[path][method]['x-root']) url = '/accounts/' + encodeURIComponent(account) + url;
+    if (query.toString()) url += '?' + query;
+    const headers = {};
+    if (tokenInput.value) headers.Authorization = 'Bearer ' + tokenInput.value;
+    if (textarea) headers['Content-Type'] = 'application/json';
+    status.textContent = '…';
+    try {
+      const res = await fetch(url, { method: method.toUpperCase(), headers, body: textarea ? textarea.value : undefined });
+      status.textContent = res.status + ' ' + res.statusText;
+      status.className = 'status' + (res.ok ? '' : ' error');
+      const type = res.headers.get('content-type') || '';
+      const text = type.includes('json') ? JSON.stringify(await res.json(), null, 2) : type.startsWith('text/') ? await res.text() : '<' + type + ', ' + (await res.blob()).size + ' bytes>';
+      result.textContent = text;
+      form.append(result);
+    } catch (err) {
+      status.textContent = err.message;
+      status.className = 'status error';
+    }
+  });
+  form.append(el('div', {}, button), status);
+  return el('div', {}, el('h3', {}, 'Try it'), form);
+}
+
+fetch('/openapi.json').then((r) => r.json()).then((doc) => {
+  spec = doc;
+  document.getElementById('version').textContent = 'v' + spec.info.version;
+  document.getElementById('intro').textContent = spec.info.description;
+  const byTag = {};
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, op] of Object.entries(methods)) (byTag[op.tags[0]] ||= []).push([method, path, op]);
+  }
+  for (const tag of spec.tags.map((t) => t.name)) {
+    ops.append(el('h2', {}, tag));
+    for (const [method, path, op] of byTag[tag] || []) ops.append(renderOperation(method, path, op));
+  }
+}).catch((err) => {
+  ops.append(el('p', { class: 'error' }, 'Could not load /openapi.json: ' + err.message));
+});
+</script>
+</body></html>`;
+}
@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { execFileSync } from 'child_process';
+import { Writable } from 'stream';
+
+/**
+ * Encryption at rest for session strings and cache databases.
+ *
+ * A 256-bit storage key comes from the OS keyring (libsecret's `secret-tool`
+ * on Linux, `security` on macOS) or from a passphrase via scrypt. Session
+ * strings are sealed with AES-256-GCM as `enc:v1:<base64>`; cache databases
+ * are encrypted by SQLCipher under the same key (see cache.ts). The key is
+ * unlocked once at start (see storage.ts) and kept in memory only.
+ */
+
+export type KeySource = 'keyring' | 'passphrase';
+
+export interface EncryptionConfig {
+  keySource: KeySource;
+  /** Keyring entry holding the key; a new one is made on each rotation */
+  keyId?: string;
+  /** scrypt salt (base64), passphrase keys only */
+  salt?: string;
+  /** A sealed known value, to tell a wrong key from a damaged file */
+  check: string;
+}
+
+const SEALED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const CHECK_VALUE = 'oceangram-storage-key';
+
+const KEYRING_SERVICE = 'oceangram-daemon';
+const KEYRING_TIMEOUT_MS = 10_000;
+
+let storageKey: Buffer | null = null;
+
+/** The unlocked key, or null when storage is unencrypted. */
+export function getStorageKey(): Buffer | null {
+  return storageKey;
+}
+
+export function setStorageKey(key: Buffer | null): void {
+  storageKey = key;
+}
+
+// --- Sealing ---
+
+function seal(data: Buffer, key: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const body = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]);
+}
+
+function open(sealed: Buffer, key: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function requireKey(): Buffer {
+  if (!storageKey) throw new Error('Storage is locked');
+  return storageKey;
+}
+
+export function isSealedString(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+export function sealString(value: string, key: Buffer = requireKey()): string {
+  return SEALED_PREFIX + seal(Buffer.from(value, 'utf-8'), key).toString('base64');
+}
+
+export function openString(value: string, key: Buffer = requireKey()): string {
+  return open(Buffer.from(value.slice(SEALED_PREFIX.length), 'base64'), key).toString('utf-8');
+}
+
+// --- Keys ---
+
+export function generateKey(): Buffer {
+  return crypto.randomBytes(32);
+}
+
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  // N=2^15 needs 32 MiB; maxmem leaves headroom above Node's 32 MiB default
+  return crypto.scryptSync(passphrase, salt, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 });
+}
+
+export function keyCheck(key: Buffer): string {
+  return sealString(CHECK_VALUE, key);
+}
+
+export function verifyKey(config: EncryptionConfig, key: Buffer): boolean {
+  try {
+    return openString(config.check, key) === CHECK_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+// --- OS keyring ---
+
+function onPath(command: string): boolean {
+  return (process.env.PATH || '').split(path.delimiter).some((dir) => dir && fs.existsSync(path.join(dir, command)));
+}
+
+/** secret-tool needs a D-Bus session with a Secret Service (GNOME Keyring, KWallet, ...). */
+export function keyringAvailable(): boolean {
+  if (process.platform === 'darwin') return onPath('security');
+  if (process.platform === 'linux') return !!process.env.DBUS_SESSION_BUS_ADDRESS && onPath('secret-tool');
+  return false;
+}
+
+function keyringAccount(keyId: string): string {
+  return `storage-key-${keyId}`;
+}
+
+export function readKeyring(keyId: string): Buffer | null {
+  try {
+    const out = process.platform === 'darwin'
+      ? execFileSync('security', ['find-generic-password', '-s', KEYRING_SERVICE, '-a', keyringAccount(keyId), '-w'],
+        { encoding: 'utf-8', timeout: KEYRING_TIMEOUT_MS, stdio: ['ignore', 'pipe', 'ignore'] })
+      : execFileSync('secret-tool', ['lookup', 'service', KEYRING_SERVICE, 'account', keyringAccount(keyId)],
+        { encoding: 'utf-8', timeout: KEYRING_TIMEOUT_MS, stdio: ['ignore', 'pipe', 'ignore'] });
+    const key = Buffer.from(out.trim(), 'base64');
+    return key.length === 32 ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeKeyring(keyId: string, key: Buffer): void {
+  const secret = key.toString('base64');
+  if (process.platform === 'darwin') {
+    execFileSync('security', ['add-generic-password', '-U', '-s', KEYRING_SERVICE, '-a', keyringAccount(keyId), '-w', secret],
+      { timeout: KEYRING_TIMEOUT_MS, stdio: 'ignore' });
+  } else {
+    execFileSync('secret-tool', ['store', '--label', 'Oceangram daemon storage key', 'service', KEYRING_SERVICE, 'account', keyringAccount(keyId)],
+      { input: secret, timeout: KEYRING_TIMEOUT_MS, stdio: ['pipe', 'ignore', 'ignore'] });
+  }
+  if (!readKeyring(keyId)) throw new Error('Could not store the storage key in the OS keyring');
+}
+
+export function deleteKeyring(keyId: string): void {
+  try {
+    if (process.platform === 'darwin') {
+      execFileSync('security', ['delete-generic-password', '-s', KEYRING_SERVICE, '-a', keyringAccount(keyId)],
+        { timeout: KEYRING_TIMEOUT_MS, stdio: 'ignore' });
+    } else {
+      execFileSync('secret-tool', ['clear', 'service', KEYRING_SERVICE, 'account', keyringAccount(keyId)],
+        { timeout: KEYRING_TIMEOUT_MS, stdio: 'ignore' });
+    }
+  } catch { /* already gone */ }
+}
+
+// --- Passphrase prompt ---
+
+export function canPrompt(): boolean {
+  return !!process.stdin.isTTY;
+}
+
+/** Read a line from the terminal without echoing it. */
+export function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!canPrompt()) {
+      reject(new Error('No terminal to read the passphrase from'));
+      return;
+    }
+    // Typed characters are echoed to `output`, which drops them
+    const output = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    process.stdout.write(question);
+    rl.question('', (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
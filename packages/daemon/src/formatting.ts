@@ -0,0 +1,307 @@
+import { Api } from 'telegram';
+import { HTMLParser } from 'telegram/extensions/html';
+import bigInt from 'big-integer';
+import { MessageEntity, MessageEntityType, toEntities } from './message-content';
+
+/**
+ * Formatted text for sends and edits: Markdown or HTML parsed into entities,
+ * or entities given as they are, plus the other send options the message
+ * routes take. Without a parse mode or entities, text is sent as typed.
+ *
+ * The Markdown flavour is the one people type in chat:
+ *
+ *   **bold**  *italic* or _italic_  __underline__  ~~strike~~  ||spoiler||
+ *   `code`  ```lang (newline) code block (newline) ```  [text](url)
+ *   `> ` at the start of lines for a quote, `\` before a character to keep it literal
+ */
+
+export type ParseMode = 'markdown' | 'html';
+
+export interface FormattedText {
+  text: string;
+  entities: MessageEntity[];
+}
+
+/** How text is turned into a message; taken by sends and edits. */
+export interface FormatOptions {
+  parseMode?: ParseMode;
+  /** Entities over the text as given. Not with `parseMode`. */
+  entities?: MessageEntity[];
+  /** Don't attach a preview of the first link */
+  noWebpage?: boolean;
+}
+
+export interface SendOptions extends FormatOptions {
+  /** Deliver without a notification */
+  silent?: boolean;
+  /** Channel or chat to post as, where the account may */
+  sendAs?: string;
+  /** Forum topic to post in, for dialog ids without one */
+  topMsgId?: number;
+  /** Part of the replied-to message to quote; needs `replyTo` */
+  quoteText?: string;
+}
+
+const PARSE_MODES: ParseMode[] = ['markdown', 'html'];
+
+const ENTITY_CLASSES: Partial<Record<MessageEntityType, new (args: { offset: number; length: number }) => Api.TypeMessageEntity>> = {
+  bold: Api.MessageEntityBold,
+  italic: Api.MessageEntityItalic,
+  underline: Api.MessageEntityUnderline,
+  strikethrough: Api.MessageEntityStrike,
+  spoiler: Api.MessageEntitySpoiler,
+  code: Api.MessageEntityCode,
+  url: Api.MessageEntityUrl,
+  email: Api.MessageEntityEmail,
+  phone: Api.MessageEntityPhone,
+  mention: Api.MessageEntityMention,
+  hashtag: Api.MessageEntityHashtag,
+  cashtag: Api.MessageEntityCashtag,
+  bot_command: Api.MessageEntityBotCommand,
+  bank_card: Api.MessageEntityBankCard,
+};
+const ENTITY_TYPES = new Set<string>([...Object.keys(ENTITY_CLASSES), 'pre', 'blockquote', 'text_link', 'mention_name', 'custom_emoji']);
+
+/** Validate formatting input. Throws an Error saying what is wrong. */
+export function parseFormatOptions(input: object, text: string): FormatOptions {
+  const { parseMode, entities, noWebpage } = input as Record<string, unknown>;
+  const options: FormatOptions = {};
+  if (parseMode !== undefined) {
+    if (!PARSE_MODES.includes(parseMode as ParseMode)) throw new Error(`parseMode must be one of ${PARSE_MODES.join(', ')}`);
+    if (entities !== undefined) throw new Error('Give parseMode or entities, not both');
+    options.parseMode = parseMode as ParseMode;
+  }
+  if (entities !== undefined) options.entities = parseEntities(entities, text);
+  if (noWebpage) options.noWebpage = true;
+  return options;
+}
+
+/** Validate send options: formatting plus delivery. Throws an Error saying what is wrong. */
+export function parseSendOptions(input: object, text: string): SendOptions {
+  const { silent, sendAs, topMsgId, quoteText, replyTo } = input as Record<string, unknown>;
+  const options: SendOptions = parseFormatOptions(input, text);
+  if (silent) options.silent = true;
+  if (sendAs !== undefined) {
+    if (typeof sendAs !== 'string' || !sendAs) throw new Error('sendAs must be a peer id or username');
+    options.sendAs = sendAs;
+  }
+  if (topMsgId !== undefined) {
+    if (!Number.isInteger(topMsgId) || (topMsgId as number) <= 0) throw new Error('topMsgId must be a message id');
+    options.topMsgId = topMsgId as number;
+  }
+  if (quoteText !== undefined) {
+    if (typeof quoteText !== 'string' || !quoteText) throw new Error('quoteText must be a non-empty string');
+    if (!replyTo) throw new Error('quoteText needs replyTo');
+    options.quoteText = quoteText;
+  }
+  return options;
+}
+
+function parseEntities(input: unknown, text: string): MessageEntity[] {
+  if (!Array.isArray(input)) throw new Error('entities must be a list');
+  return input.map((e, i): MessageEntity => {
+    const { type, offset, length, url, language, userId, customEmojiId, collapsed } = (e || {}) as Record<string, unknown>;
+    if (typeof type !== 'string' || !ENTITY_TYPES.has(type)) throw new Error(`entities[${i}]: unknown type`);
+    if (!Number.isInteger(offset) || !Number.isInteger(length) || (offset as number) < 0 || (length as number) <= 0 ||
+      (offset as number) + (length as number) > text.length) {
+      throw new Error(`entities[${i}]: offset and length must lie within the text`);
+    }
+    const entity: MessageEntity = { type: type as MessageEntityType, offset: offset as number, length: length as number };
+    if (type === 'text_link') {
+      if (typeof url !== 'string' || !url) throw new Error(`entities[${i}]: text_link needs url`);
+      entity.url = url;
+    } else if (type === 'mention_name') {
+      if (typeof userId !== 'string' || !/^\d+$/.test(userId)) throw new Error(`entities[${i}]: mention_name needs userId`);
+      entity.userId = userId;
+    } else if (type === 'custom_emoji') {
+      if (typeof customEmojiId !== 'string' || !/^\d+$/.test(customEmojiId)) throw new Error(`entities[${i}]: custom_emoji needs customEmojiId`);
+      entity.customEmojiId = customEmojiId;
+    } else if (type === 'pre' && typeof language === 'string' && language) {
+      entity.language = language;
+    } else if (type === 'blockquote' && collapsed) {
+      entity.collapsed = true;
+    }
+    return entity;
+  });
+}
+
+/** Apply a parse mode or entities to text. */
+export function formatText(text: string, options: FormatOptions = {}): FormattedText {
+  if (options.entities) return { text, entities: options.entities };
+  if (options.parseMode === 'markdown') return parseMarkdown(text);
+  if (options.parseMode === 'html') return parseHtml(text);
+  return { text, entities: [] };
+}
+
+export function parseHtml(html: string): FormattedText {
+  // gramJS knows Telegram's <spoiler> but not the Bot API's <tg-spoiler>
+  const [text, entities] = HTMLParser.parse(html.replace(/<(\/?)tg-spoiler>/g, '<$1spoiler>'));
+  return { text, entities: (toEntities(entities) || []).map(mentionLink) };
+}
+
+// --- Markdown ---
+
+const INLINE_MARKERS: { marker: string; type: MessageEntityType }[] = [
+  { marker: '**', type: 'bold' },
+  { marker: '__', type: 'underline' },
+  { marker: '~~', type: 'strikethrough' },
+  { marker: '||', type: 'spoiler' },
+  { marker: '*', type: 'italic' },
+  { marker: '_', type: 'italic' },
+];
+const FENCE = /^```([^\s`]*)\s*$/;
+const QUOTE = /^> ?/;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+export function parseMarkdown(source: string): FormattedText {
+  const out: FormattedText = { text: '', entities: [] };
+  const lines = source.split('\n');
+  let i = 0;
+  while (i < lines.length) {
+    if (i > 0) out.text += '\n';
+    const fence = FENCE.exec(lines[i]);
+    const close = fence ? lines.findIndex((line, j) => j > i && line.trim() === '```') : -1;
+    if (fence && close > 0) {
+      const start = out.text.length;
+      out.text += lines.slice(i + 1, close).join('\n');
+      addEntity(out, { type: 'pre', offset: start, length: out.text.length - start, ...(fence[1] ? { language: fence[1] } : {}) });
+      i = close + 1;
+      continue;
+    }
+    // Runs of quoted or plain lines are parsed together, so spans may cross lines
+    const quoted = QUOTE.test(lines[i]);
+    let end = i + 1;
+    while (end < lines.length && QUOTE.test(lines[end]) === quoted && !FENCE.test(lines[end])) end++;
+    const block = lines.slice(i, end).map((line) => (quoted ? line.replace(QUOTE, '') : line)).join('\n');
+    const start = out.text.length;
+    parseInline(block, out);
+    if (quoted) addEntity(out, { type: 'blockquote', offset: start, length: out.text.length - start });
+    i = end;
+  }
+  out.entities.sort((a, b) => a.offset - b.offset || b.length - a.length);
+  return out;
+}
+
+function parseInline(src: string, out: FormattedText): void {
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '\\' && ESCAPABLE.test(src[i + 1] || '')) {
+      out.text += src[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '`') {
+      const fence = src.startsWith('```', i) ? '```' : '`';
+      const end = src.indexOf(fence, i + fence.length);
+      if (end > i + fence.length) {
+        const start = out.text.length;
+        out.text += src.slice(i + fence.length, end);
+        addEntity(out, { type: fence === '```' ? 'pre' : 'code', offset: start, length: out.text.length - start });
+        i = end + fence.length;
+        continue;
+      }
+    }
+    if (ch === '[') {
+      const link = matchLink(src, i);
+      if (link) {
+        const start = out.text.length;
+        parseInline(link.label, out);
+        addEntity(out, mentionLink({ type: 'text_link', offset: start, length: out.text.length - start, url: link.url }));
+        i = link.end;
+        continue;
+      }
+    }
+    const marker = INLINE_MARKERS.find((m) => src.startsWith(m.marker, i));
+    if (marker) {
+      const end = opens(src, i, marker.marker) ? findClose(src, i + marker.marker.length, marker.marker) : -1;
+      if (end > 0) {
+        const start = out.text.length;
+        parseInline(src.slice(i + marker.marker.length, end), out);
+        addEntity(out, { type: marker.type, offset: start, length: out.text.length - start });
+        i = end + marker.marker.length;
+      } else {
+        out.text += marker.marker;
+        i += marker.marker.length;
+      }
+      continue;
+    }
+    out.text += ch;
+    i++;
+  }
+}
+
+/** Underscores inside words (snake_case) are not markers. */
+function opens(src: string, at: number, marker: string): boolean {
+  const next = src[at + marker.length];
+  if (!next || /\s/.test(next)) return false;
+  return !(marker[0] === '_' && WORD_CHAR.test(src[at - 1] || ''));
+}
+
+function findClose(src: string, from: number, marker: string): number {
+  let j = from;
+  while (j < src.length) {
+    if (src[j] === '\\') {
+      j += 2;
+    } else if (src[j] === '`') {
+      const end = src.indexOf('`', j + 1);
+      j = end > 0 ? end + 1 : j + 1;
+    } else if (marker.length === 1 && src.startsWith(marker + marker, j)) {
+      // The double marker is another style; skip it whole
+      j += 2;
+    } else if (
+      src.startsWith(marker, j) && j > from && !/\s/.test(src[j - 1]) &&
+      !(marker[0] === '_' && WORD_CHAR.test(src[j + marker.length] || ''))
+    ) {
+      return j;
+    } else {
+      j++;
+    }
+  }
+  return -1;
+}
+
+function matchLink(src: string, at: number): { label: string; url: string; end: number } | null {
+  let k = at + 1;
+  while (k < src.length && src[k] !== ']') k += src[k] === '\\' ? 2 : 1;
+  if (k >= src.length || k === at + 1 || src[k + 1] !== '(') return null;
+  const close = src.indexOf(')', k + 2);
+  const url = close > 0 ? src.slice(k + 2, close).trim() : '';
+  if (!url || /\s/.test(url)) return null;
+  return { label: src.slice(at + 1, k), url, end: close + 1 };
+}
+
+function addEntity(out: FormattedText, entity: MessageEntity): void {
+  // Telegram refuses empty entities
+  if (entity.length > 0) out.entities.push(entity);
+}
+
+/** Links to tg://user?id= are mentions of users without a username. */
+function mentionLink(entity: MessageEntity): MessageEntity {
+  const m = entity.type === 'text_link' ? /^tg:\/\/user\?id=(\d+)$/.exec(entity.url || '') : null;
+  return m ? { type: 'mention_name', offset: entity.offset, length: entity.length, userId: m[1] } : entity;
+}
+
+/**
+ * Entities as Telegram takes them. Mentions need the user's access hash,
+ * which `resolveUser` looks up.
+ */
+export async function toInputEntities(
+  entities: MessageEntity[], resolveUser: (userId: string) => Promise<Api.TypeInputUser>,
+): Promise<Api.TypeMessageEntity[]> {
+  const result: Api.TypeMessageEntity[] = [];
+  for (const e of entities) {
+    const { offset, length } = e;
+    const Entity = ENTITY_CLASSES[e.type];
+    if (Entity) result.push(new Entity({ offset, length }));
+    else if (e.type === 'pre') result.push(new Api.MessageEntityPre({ offset, length, language: e.language || '' }));
+    else if (e.type === 'blockquote') result.push(new Api.MessageEntityBlockquote({ offset, length, collapsed: e.collapsed || undefined }));
+    else if (e.type === 'text_link') result.push(new Api.MessageEntityTextUrl({ offset, length, url: e.url || '' }));
+    else if (e.type === 'custom_emoji') result.push(new Api.MessageEntityCustomEmoji({ offset, length, documentId: bigInt(e.customEmojiId || '0') }));
+    else if (e.type === 'mention_name') {
+      result.push(new Api.InputMessageEntityMentionName({ offset, length, userId: await resolveUser(e.userId || '') }));
+    }
+  }
+  return result;
+}
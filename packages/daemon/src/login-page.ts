@@ -1,4 +1,5 @@
-export function getLoginHtml(): string {
+/** @param basePath account route prefix, e.g. `/accounts/work` (empty for the default account) */
+export function getLoginHtml(basePath = ''): string {
   return `<!DOCTYPE html>
 <html><head>
 <meta charset="utf-8">
@@ -33,6 +34,10 @@ button:disabled { opacity: 0.5; cursor: not-allowed; }
 .error { color: #ff6b6b; font-size: 13px; margin-top: 8px; }
 .success { color: #51cf66; font-size: 15px; margin-top: 16px; }
 .hidden { display: none; }
+.link { display: inline-block; margin-top: 16px; color: #6ab2f2; font-size: 14px; cursor: pointer; }
+.link:hover { text-decoration: underline; }
+#qr-image { width: 240px; height: 240px; border-radius: 12px; background: #fff; }
+.steps { color: #6d7f8f; font-size: 13px; text-align: left; margin: 16px 0 0 20px; line-height: 1.6; }
 </style>
 </head><body>
 <div class="card">
@@ -43,6 +48,17 @@ button:disabled { opacity: 0.5; cursor: not-allowed; }
   <div id="step-phone">
     <input id="phone" type="tel" placeholder="+1 234 567 8900" autofocus />
     <button onclick="sendPhone()">Send Code</button>
+    <a class="link" onclick="startQr()">Log in with QR code instead</a>
+  </div>
+
+  <div id="step-qr" class="hidden">
+    <img id="qr-image" alt="QR code" />
+    <ol class="steps">
+      <li>Open Telegram on your phone</li>
+      <li>Go to Settings → Devices → Link Desktop Device</li>
+      <li>Scan this QR code</li>
+    </ol>
+    <a class="link" onclick="stopQr()">Log in with phone number instead</a>
   </div>
 
   <div id="step-code" class="hidden">
@@ -63,8 +79,11 @@ button:disabled { opacity: 0.5; cursor: not-allowed; }
 </div>
 
 <script>
+const BASE = ${JSON.stringify(basePath)};
 let phoneNumber = '';
 let phoneCodeHash = '';
+let qrTimer = null;
+let qrUrl = '';
 
 function showError(msg) {
   const el = document.getElementById('error');
@@ -72,7 +91,7 @@ function showError(msg) {
 }
 function hideError() { document.getElementById('error').classList.add('hidden'); }
 function showStep(name) {
-  for (const s of ['phone','code','2fa','done']) {
+  for (const s of ['phone','qr','code','2fa','done']) {
     document.getElementById('step-'+s).classList.toggle('hidden', s !== name);
   }
 }
@@ -82,7 +101,7 @@ async function sendPhone() {
   phoneNumber = document.getElementById('phone').value.trim();
   if (!phoneNumber) return showError('Enter phone number');
   try {
-    const res = await fetch('/login/phone', {
+    const res = await fetch(BASE + '/login/phone', {
       method: 'POST', headers: {'Content-Type':'application/json'},
       body: JSON.stringify({ phone: phoneNumber })
     });
@@ -100,7 +119,7 @@ async function sendCode() {
   const code = document.getElementById('code').value.trim();
   if (!code) return showError('Enter code');
   try {
-    const res = await fetch('/login/code', {
+    const res = await fetch(BASE + '/login/code', {
       method: 'POST', headers: {'Content-Type':'application/json'},
       body: JSON.stringify({ phone: phoneNumber, code, phoneCodeHash })
     });
@@ -121,7 +140,7 @@ async function send2FA() {
   const password = document.getElementById('password').value;
   if (!password) return showError('Enter password');
   try {
-    const res = await fetch('/login/2fa', {
+    const res = await fetch(BASE + '/login/2fa', {
       method: 'POST', headers: {'Content-Type':'application/json'},
       body: JSON.stringify({ password })
     });
@@ -131,6 +150,52 @@ async function send2FA() {
   } catch (e) { showError(e.message); }
 }
 
+async function startQr() {
+  hideError();
+  try {
+    const res = await fetch(BASE + '/login/qr', { method: 'POST' });
+    const data = await res.json();
+    if (!res.ok) return showError(data.error || 'Failed');
+    document.getElementById('title').textContent = 'Scan from your phone';
+    document.getElementById('subtitle').textContent = 'The code refreshes automatically';
+    showStep('qr');
+    showQr(data);
+    qrTimer = setInterval(pollQr, 2000);
+  } catch (e) { showError(e.message); }
+}
+
+function stopQr() {
+  clearInterval(qrTimer); qrTimer = null; qrUrl = '';
+  document.getElementById('title').textContent = 'Log in to Telegram';
+  document.getElementById('subtitle').textContent = 'Enter your phone number with country code';
+  showStep('phone');
+}
+
+async function pollQr() {
+  try {
+    const res = await fetch(BASE + '/login/qr');
+    if (res.ok) showQr(await res.json());
+  } catch { /* daemon restarting; keep polling */ }
+}
+
+function showQr(state) {
+  if (state.status === 'pending' && state.url !== qrUrl) {
+    qrUrl = state.url;
+    document.getElementById('qr-image').src = BASE + '/login/qr.svg?t=' + state.expires;
+  } else if (state.status === 'need2FA') {
+    clearInterval(qrTimer); qrTimer = null;
+    document.getElementById('title').textContent = '2FA Password';
+    document.getElementById('subtitle').textContent = state.hint ? 'Hint: ' + state.hint : 'Enter your two-factor authentication password';
+    showStep('2fa');
+  } else if (state.status === 'done') {
+    clearInterval(qrTimer); qrTimer = null;
+    showStep('done');
+  } else if (state.status === 'error') {
+    stopQr();
+    showError(state.error || 'QR login failed');
+  }
+}
+
 document.querySelectorAll('input').forEach(el => {
   el.addEventListener('keydown', e => {
     if (e.key === 'Enter') el.parentElement.querySelector('button')?.click();
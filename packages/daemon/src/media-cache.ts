@@ -0,0 +1,242 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import type { Cache as CacheType } from './cache';
+
+/**
+ * Disk cache for downloaded media.
+ *
+ * Each distinct file is stored once, named by its content hash
+ * (`<dir>/<2 hex>/<hash>`), so a photo forwarded to ten chats takes the space
+ * of one. `media_refs` in the SQLite cache maps a message (and thumbnail size)
+ * to its object. Objects read least recently are evicted once the total passes
+ * `maxBytes`.
+ *
+ * With a storage key, objects are encrypted with AES-256-CTR, which still
+ * allows reading any byte range, and named by an HMAC so the names don't reveal
+ * which known files are cached.
+ */
+
+export interface MediaObject {
+  hash: string;
+  size: number;
+  mimeType: string;
+  fileName?: string;
+  sealed: boolean;
+}
+
+/** Media ready to stream: from disk, from Telegram, or inline bytes. */
+export interface MediaSource {
+  size: number;
+  mimeType: string;
+  fileName?: string;
+  /** Content hash, once the file is cached */
+  etag?: string;
+  /** Bytes `start` to `end`, inclusive. */
+  read(start: number, end: number): Readable;
+}
+
+export interface MediaWriter {
+  write(chunk: Buffer): void;
+  /** Store the object, or drop it if it outgrew the cache. */
+  commit(): MediaObject | null;
+  abort(): void;
+}
+
+/** Thumbnail variants by longest side in pixels. */
+export const THUMB_SIZES = { small: 100, medium: 320, large: 800 } as const;
+export type ThumbSize = keyof typeof THUMB_SIZES;
+
+export function isThumbSize(value: unknown): value is ThumbSize {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(THUMB_SIZES, value);
+}
+
+const IV_LENGTH = 16;
+const EVICT_BATCH = 20;
+
+export class MediaCache {
+  constructor(
+    private readonly dir: string,
+    private readonly cache: CacheType,
+    private readonly maxBytes: number,
+    private readonly key: Buffer | null,
+  ) {
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    this.sweep();
+  }
+
+  /** The cached object for `ref`, if its file is still on disk. */
+  get(ref: string): MediaObject | null {
+    const object = this.cache.getMediaObject(ref);
+    if (!object) return null;
+    if ((object.sealed && !this.key) || !fs.existsSync(this.objectPath(object.hash))) {
+      this.cache.deleteMediaObject(object.hash);
+      return null;
+    }
+    this.cache.touchMediaObject(object.hash, Date.now());
+    return object;
+  }
+
+  /** Whether a file of this size is worth caching at all. */
+  fits(size: number): boolean {
+    return size > 0 && size <= this.maxBytes;
+  }
+
+  source(object: MediaObject): MediaSource {
+    return {
+      size: object.size,
+      mimeType: object.mimeType,
+      fileName: object.fileName,
+      etag: object.hash,
+      read: (start, end) => this.read(object, start, end),
+    };
+  }
+
+  writer(ref: string, meta: { mimeType: string; fileName?: string }): MediaWriter {
+    const tmp = path.join(this.dir, `${crypto.randomBytes(8).toString('hex')}.tmp`);
+    const fd = fs.openSync(tmp, 'w', 0o600);
+    const hash = this.key ? crypto.createHmac('sha256', this.key) : crypto.createHash('sha256');
+    let cipher: crypto.Cipheriv | null = null;
+    if (this.key) {
+      const iv = crypto.randomBytes(IV_LENGTH);
+      cipher = crypto.createCipheriv('aes-256-ctr', this.key, iv);
+      fs.writeSync(fd, iv);
+    }
+    let size = 0;
+    let closed = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      fs.closeSync(fd);
+    };
+    const abort = () => {
+      close();
+      try { fs.unlinkSync(tmp); } catch { /* ignore */ }
+    };
+
+    return {
+      write: (chunk) => {
+        if (closed) return;
+        size += chunk.length;
+        if (size > this.maxBytes) {
+          abort();
+          return;
+        }
+        hash.update(chunk);
+        fs.writeSync(fd, cipher ? cipher.update(chunk) : chunk);
+      },
+      commit: () => {
+        if (closed) return null;
+        close();
+        const object: MediaObject = { hash: hash.digest('hex'), size, ...meta, sealed: !!this.key };
+        const target = this.objectPath(object.hash);
+        if (fs.existsSync(target)) {
+          fs.unlinkSync(tmp); // same content is already stored
+        } else {
+          fs.mkdirSync(path.dirname(target), { recursive: true, mode: 0o700 });
+          fs.renameSync(tmp, target);
+        }
+        this.cache.addMediaObject(ref, object, Date.now());
+        this.evict();
+        return object;
+      },
+      abort,
+    };
+  }
+
+  /** Remove every object, e.g. after the storage key changed. */
+  clear(): void {
+    for (const object of this.cache.getLeastRecentMedia(Number.MAX_SAFE_INTEGER)) this.cache.deleteMediaObject(object.hash);
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+  }
+
+  private read(object: MediaObject, start: number, end: number): Readable {
+    const file = this.objectPath(object.hash);
+    if (!object.sealed) return fs.createReadStream(file, { start, end });
+
+    // CTR works on 16-byte blocks: start at the block holding `start`, with the counter advanced to match
+    const key = this.key!;
+    const block = Math.floor(start / 16);
+    const skip = start % 16;
+    async function* decrypt(): AsyncGenerator<Buffer> {
+      const fd = await fs.promises.open(file, 'r');
+      try {
+        const iv = Buffer.alloc(IV_LENGTH);
+        await fd.read(iv, 0, IV_LENGTH, 0);
+        const decipher = crypto.createDecipheriv('aes-256-ctr', key, addToCounter(iv, block));
+        let drop = skip;
+        for await (const chunk of fd.createReadStream({ start: IV_LENGTH + block * 16, end: IV_LENGTH + end, autoClose: false })) {
+          let plain = decipher.update(chunk as Buffer);
+          if (drop) {
+            plain = plain.subarray(drop);
+            drop = 0;
+          }
+          if (plain.length) yield plain;
+        }
+      } finally {
+        await fd.close();
+      }
+    }
+    return Readable.from(decrypt());
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.dir, hash.slice(0, 2), hash);
+  }
+
+  private evict(): void {
+    let { bytes } = this.cache.getMediaUsage();
+    while (bytes > this.maxBytes) {
+      const oldest = this.cache.getLeastRecentMedia(EVICT_BATCH);
+      if (oldest.length === 0) break;
+      for (const object of oldest) {
+        if (bytes <= this.maxBytes) break;
+        try { fs.unlinkSync(this.objectPath(object.hash)); } catch { /* already gone */ }
+        this.cache.deleteMediaObject(object.hash);
+        bytes -= object.size;
+      }
+    }
+  }
+
+  /**
+   * Drop leftovers: temp files from interrupted downloads, files the index
+   * doesn't know (it is written back later than the files when encrypted), and
+   * unencrypted objects once storage is encrypted.
+   */
+  private sweep(): void {
+    const known = this.cache.getMediaHashes();
+    if (this.key) {
+      for (const object of this.cache.getLeastRecentMedia(Number.MAX_SAFE_INTEGER)) {
+        if (!object.sealed) {
+          this.cache.deleteMediaObject(object.hash);
+          known.delete(object.hash);
+        }
+      }
+    }
+    for (const entry of fs.readdirSync(this.dir, { withFileTypes: true })) {
+      const entryPath = path.join(this.dir, entry.name);
+      if (!entry.isDirectory()) {
+        fs.rmSync(entryPath, { force: true });
+        continue;
+      }
+      for (const name of fs.readdirSync(entryPath)) {
+        if (!known.has(name)) fs.rmSync(path.join(entryPath, name), { force: true });
+      }
+    }
+  }
+}
+
+/** A 128-bit big-endian counter block advanced by `blocks`. */
+function addToCounter(iv: Buffer, blocks: number): Buffer {
+  const out = Buffer.from(iv);
+  let carry = blocks;
+  for (let i = out.length - 1; i >= 0 && carry > 0; i--) {
+    const sum = out[i] + (carry % 256);
+    out[i] = sum % 256;
+    carry = Math.floor(carry / 256) + (sum >= 256 ? 1 : 0);
+  }
+  return out;
+}
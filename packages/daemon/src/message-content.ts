@@ -0,0 +1,328 @@
+import { Api } from 'telegram';
+
+/**
+ * Structured message content beyond plain text: formatting entities, link
+ * previews, polls, locations, contacts, service actions and bot keyboards.
+ * Each converter takes the gramJS object and returns a plain JSON shape, so
+ * the result can go straight into the SQLite cache and over the wire.
+ */
+
+export type MessageEntityType =
+  | 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote'
+  | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag'
+  | 'bot_command' | 'bank_card' | 'custom_emoji';
+
+/** Offsets and lengths are in UTF-16 code units, like JavaScript strings. */
+export interface MessageEntity {
+  type: MessageEntityType;
+  offset: number;
+  length: number;
+  /** text_link target */
+  url?: string;
+  /** pre block language */
+  language?: string;
+  /** mention_name target */
+  userId?: string;
+  /** custom_emoji document id */
+  customEmojiId?: string;
+  /** blockquote shown collapsed */
+  collapsed?: boolean;
+}
+
+export interface LinkPreview {
+  url: string;
+  displayUrl?: string;
+  /** Telegram's page type, e.g. `article`, `video`, `telegram_channel` */
+  type?: string;
+  siteName?: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  hasPhoto?: boolean;
+}
+
+export interface PollAnswer {
+  text: string;
+  /** Base64 option id, used to vote. */
+  option: string;
+  voters?: number;
+  chosen?: boolean;
+  correct?: boolean;
+}
+
+export interface PollInfo {
+  id: string;
+  question: string;
+  answers: PollAnswer[];
+  closed: boolean;
+  quiz: boolean;
+  multipleChoice: boolean;
+  publicVoters: boolean;
+  totalVoters?: number;
+  closeDate?: number;
+  /** Quiz explanation, shown after answering. */
+  solution?: string;
+}
+
+export interface GeoInfo {
+  lat: number;
+  long: number;
+  accuracyRadius?: number;
+  /** Venue name and address */
+  title?: string;
+  address?: string;
+  /** Live location: seconds it is shared for */
+  livePeriod?: number;
+  heading?: number;
+}
+
+export interface ContactInfo {
+  phoneNumber: string;
+  firstName: string;
+  lastName?: string;
+  /** Telegram user id, when the contact has an account */
+  userId?: string;
+  vcard?: string;
+}
+
+/**
+ * A service message (join, pin, title change, ...). `type` is the gramJS
+ * action name without the `MessageAction` prefix, e.g. `chatAddUser`,
+ * `pinMessage`, `chatEditTitle`. Unrecognised actions still get a type.
+ */
+export interface ServiceAction {
+  type: string;
+  /** Users added, removed or invited */
+  userIds?: string[];
+  /** New chat/topic title */
+  title?: string;
+  /** Pinned message id */
+  messageId?: number;
+  /** Call or group call length in seconds */
+  duration?: number;
+  /** Auto-delete timer in seconds */
+  period?: number;
+  /** Free-form text (custom actions) */
+  text?: string;
+}
+
+export type KeyboardButtonType =
+  | 'text' | 'callback' | 'url' | 'urlAuth' | 'switchInline' | 'game' | 'buy' | 'requestPhone'
+  | 'requestGeoLocation' | 'requestPoll' | 'requestPeer' | 'userProfile' | 'webView' | 'copy';
+
+export interface KeyboardButton {
+  type: KeyboardButtonType;
+  text: string;
+  /** Base64 callback data */
+  data?: string;
+  url?: string;
+  /** Inline query to insert (switchInline) */
+  query?: string;
+  /** switchInline: run the query in the current chat */
+  samePeer?: boolean;
+  userId?: string;
+  /** copy: text placed on the clipboard */
+  copyText?: string;
+  requiresPassword?: boolean;
+}
+
+export interface ReplyMarkup {
+  /** `inline` buttons sit under the message; `keyboard` replaces the user's keyboard */
+  type: 'inline' | 'keyboard' | 'hide' | 'forceReply';
+  rows?: KeyboardButton[][];
+  resize?: boolean;
+  singleUse?: boolean;
+  placeholder?: string;
+}
+
+const ENTITY_TYPES: Record<string, MessageEntityType> = {
+  MessageEntityBold: 'bold',
+  MessageEntityItalic: 'italic',
+  MessageEntityUnderline: 'underline',
+  MessageEntityStrike: 'strikethrough',
+  MessageEntitySpoiler: 'spoiler',
+  MessageEntityCode: 'code',
+  MessageEntityPre: 'pre',
+  MessageEntityBlockquote: 'blockquote',
+  MessageEntityUrl: 'url',
+  MessageEntityTextUrl: 'text_link',
+  MessageEntityEmail: 'email',
+  MessageEntityPhone: 'phone',
+  MessageEntityMention: 'mention',
+  MessageEntityMentionName: 'mention_name',
+  MessageEntityHashtag: 'hashtag',
+  MessageEntityCashtag: 'cashtag',
+  MessageEntityBotCommand: 'bot_command',
+  MessageEntityBankCard: 'bank_card',
+  MessageEntityCustomEmoji: 'custom_emoji',
+};
+
+export function toEntities(entities: Api.TypeMessageEntity[] | undefined): MessageEntity[] | undefined {
+  if (!entities?.length) return undefined;
+  const result: MessageEntity[] = [];
+  for (const e of entities) {
+    const type = ENTITY_TYPES[e.className];
+    if (!type) continue;
+    const entity: MessageEntity = { type, offset: e.offset, length: e.length };
+    if (e instanceof Api.MessageEntityTextUrl) entity.url = e.url;
+    else if (e instanceof Api.MessageEntityPre && e.language) entity.language = e.language;
+    else if (e instanceof Api.MessageEntityMentionName) entity.userId = e.userId.toString();
+    else if (e instanceof Api.MessageEntityCustomEmoji) entity.customEmojiId = e.documentId.toString();
+    else if (e instanceof Api.MessageEntityBlockquote && e.collapsed) entity.collapsed = true;
+    result.push(entity);
+  }
+  return result.length ? result : undefined;
+}
+
+export function toLinkPreview(media: Api.MessageMediaWebPage): LinkPreview | undefined {
+  const page = media.webpage;
+  if (!(page instanceof Api.WebPage)) return undefined;
+  const preview: LinkPreview = { url: page.url };
+  if (page.displayUrl) preview.displayUrl = page.displayUrl;
+  if (page.type) preview.type = page.type;
+  if (page.siteName) preview.siteName = page.siteName;
+  if (page.title) preview.title = page.title;
+  if (page.description) preview.description = page.description;
+  if (page.author) preview.author = page.author;
+  if (page.photo instanceof Api.Photo) preview.hasPhoto = true;
+  return preview;
+}
+
+/** Poll text became TextWithEntities in newer layers; older objects carry a plain string. */
+function pollText(text: Api.TypeTextWithEntities | string): string {
+  return typeof text === 'string' ? text : text?.text || '';
+}
+
+export function toPoll(media: Api.MessageMediaPoll): PollInfo {
+  const { poll, results } = media;
+  const voters = new Map<string, Api.PollAnswerVoters>();
+  for (const r of results?.results || []) voters.set(Buffer.from(r.option).toString('base64'), r);
+
+  const info: PollInfo = {
+    id: poll.id.toString(),
+    question: pollText(poll.question),
+    answers: poll.answers.map((a) => {
+      const option = Buffer.from(a.option).toString('base64');
+      const answer: PollAnswer = { text: pollText(a.text), option };
+      const v = voters.get(option);
+      if (v) {
+        answer.voters = v.voters;
+        if (v.chosen) answer.chosen = true;
+        if (v.correct) answer.correct = true;
+      }
+      return answer;
+    }),
+    closed: !!poll.closed,
+    quiz: !!poll.quiz,
+    multipleChoice: !!poll.multipleChoice,
+    publicVoters: !!poll.publicVoters,
+  };
+  if (results?.totalVoters !== undefined) info.totalVoters = results.totalVoters;
+  if (poll.closeDate) info.closeDate = poll.closeDate;
+  if (results?.solution) info.solution = results.solution;
+  return info;
+}
+
+export function toGeo(media: Api.MessageMediaGeo | Api.MessageMediaVenue | Api.MessageMediaGeoLive): GeoInfo | undefined {
+  const point = media.geo;
+  if (!(point instanceof Api.GeoPoint)) return undefined;
+  const geo: GeoInfo = { lat: point.lat, long: point.long };
+  if (point.accuracyRadius) geo.accuracyRadius = point.accuracyRadius;
+  if (media instanceof Api.MessageMediaVenue) {
+    geo.title = media.title;
+    if (media.address) geo.address = media.address;
+  } else if (media instanceof Api.MessageMediaGeoLive) {
+    geo.livePeriod = media.period;
+    if (media.heading) geo.heading = media.heading;
+  }
+  return geo;
+}
+
+export function toContact(media: Api.MessageMediaContact): ContactInfo {
+  const contact: ContactInfo = { phoneNumber: media.phoneNumber, firstName: media.firstName };
+  if (media.lastName) contact.lastName = media.lastName;
+  const userId = media.userId?.toString();
+  if (userId && userId !== '0') contact.userId = userId;
+  if (media.vcard) contact.vcard = media.vcard;
+  return contact;
+}
+
+export function toServiceAction(msg: Api.MessageService): ServiceAction {
+  const action = msg.action;
+  const name = action.className.replace(/^MessageAction/, '');
+  const info: ServiceAction = { type: name.charAt(0).toLowerCase() + name.slice(1) };
+
+  if (action instanceof Api.MessageActionChatCreate) {
+    info.title = action.title;
+    info.userIds = action.users.map((u) => u.toString());
+  } else if (action instanceof Api.MessageActionChatAddUser || action instanceof Api.MessageActionInviteToGroupCall) {
+    info.userIds = action.users.map((u) => u.toString());
+  } else if (action instanceof Api.MessageActionChatDeleteUser) {
+    info.userIds = [action.userId.toString()];
+  } else if (action instanceof Api.MessageActionChatJoinedByLink) {
+    info.userIds = [action.inviterId.toString()];
+  } else if (
+    action instanceof Api.MessageActionChatEditTitle ||
+    action instanceof Api.MessageActionChannelCreate ||
+    action instanceof Api.MessageActionChannelMigrateFrom ||
+    action instanceof Api.MessageActionTopicCreate
+  ) {
+    info.title = action.title;
+  } else if (action instanceof Api.MessageActionTopicEdit) {
+    if (action.title) info.title = action.title;
+  } else if (action instanceof Api.MessageActionPinMessage) {
+    const replyTo = msg.replyTo;
+    if (replyTo instanceof Api.MessageReplyHeader && replyTo.replyToMsgId) info.messageId = replyTo.replyToMsgId;
+  } else if (action instanceof Api.MessageActionPhoneCall || action instanceof Api.MessageActionGroupCall) {
+    if (action.duration) info.duration = action.duration;
+  } else if (action instanceof Api.MessageActionSetMessagesTTL) {
+    info.period = action.period;
+  } else if (action instanceof Api.MessageActionCustomAction) {
+    info.text = action.message;
+  }
+  return info;
+}
+
+function toKeyboardButton(button: Api.TypeKeyboardButton): KeyboardButton {
+  // KeyboardButtonSimpleWebView only differs from WebView in how the bot is asked to open it
+  const name = button.className.replace(/^KeyboardButton/, '').replace(/^SimpleWebView$/, 'WebView');
+  const type = (name ? name.charAt(0).toLowerCase() + name.slice(1) : 'text') as KeyboardButtonType;
+  const info: KeyboardButton = { type, text: button.text };
+
+  if (button instanceof Api.KeyboardButtonCallback) {
+    info.data = Buffer.from(button.data).toString('base64');
+    if (button.requiresPassword) info.requiresPassword = true;
+  } else if (
+    button instanceof Api.KeyboardButtonUrl ||
+    button instanceof Api.KeyboardButtonUrlAuth ||
+    button instanceof Api.KeyboardButtonWebView ||
+    button instanceof Api.KeyboardButtonSimpleWebView
+  ) {
+    info.url = button.url;
+  } else if (button instanceof Api.KeyboardButtonSwitchInline) {
+    info.query = button.query;
+    if (button.samePeer) info.samePeer = true;
+  } else if (button instanceof Api.KeyboardButtonUserProfile) {
+    info.userId = button.userId.toString();
+  } else if (button instanceof Api.KeyboardButtonCopy) {
+    info.copyText = button.copyText;
+  }
+  return info;
+}
+
+export function toReplyMarkup(markup: Api.TypeReplyMarkup | undefined): ReplyMarkup | undefined {
+  if (!markup) return undefined;
+  const rows = (r: Api.TypeKeyboardButtonRow[]) => r.map((row) => row.buttons.map(toKeyboardButton));
+  if (markup instanceof Api.ReplyInlineMarkup) return { type: 'inline', rows: rows(markup.rows) };
+  if (markup instanceof Api.ReplyKeyboardMarkup) {
+    const info: ReplyMarkup = { type: 'keyboard', rows: rows(markup.rows) };
+    if (markup.resize) info.resize = true;
+    if (markup.singleUse) info.singleUse = true;
+    if (markup.placeholder) info.placeholder = markup.placeholder;
+    return info;
+  }
+  if (markup instanceof Api.ReplyKeyboardForceReply) {
+    return markup.placeholder ? { type: 'forceReply', placeholder: markup.placeholder } : { type: 'forceReply' };
+  }
+  return { type: 'hide' };
+}
@@ -0,0 +1,175 @@
+import { once } from 'events';
+import { PassThrough, Readable } from 'stream';
+
+/**
+ * Streaming multipart/form-data reader (RFC 7578). Text fields are collected
+ * in memory; file parts are passed on as streams while the body arrives, so
+ * uploads are never buffered whole.
+ */
+
+export interface MultipartPart {
+  name: string;
+  /** Set for file parts, even when the client sent an empty name */
+  fileName?: string;
+  contentType?: string;
+}
+
+/** Consumes one file part. The next part is read once the returned promise settles. */
+export type FilePartHandler = (part: MultipartPart, stream: Readable) => Promise<void>;
+
+const MAX_HEADER_BYTES = 16 * 1024;
+const MAX_FIELD_BYTES = 1024 * 1024;
+const MAX_FIELDS = 100;
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+export function multipartBoundary(contentType: string | undefined): string | null {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return null;
+  const match = /;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType);
+  return match ? match[1] || match[2] : null;
+}
+
+/**
+ * Read a multipart body to the end. Returns the text fields; each file part
+ * goes to `onFile`, which must consume its stream. Malformed input, oversized
+ * fields and a body cut short reject with an Error.
+ */
+export async function readMultipart(body: Readable, boundary: string, onFile: FilePartHandler): Promise<Record<string, string>> {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const fields: Record<string, string> = {};
+  let fieldCount = 0;
+
+  // The first delimiter has no CRLF before it; add one so all delimiters look alike
+  let buf: Buffer = CRLF;
+  let state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'done' = 'preamble';
+  let part: MultipartPart | null = null;
+  let fieldChunks: Buffer[] = [];
+  let fieldSize = 0;
+  let file: PassThrough | null = null;
+  let fileDone: Promise<void> | null = null;
+
+  const write = async (data: Buffer) => {
+    if (data.length === 0) return;
+    if (file) {
+      if (!file.write(data)) await Promise.race([once(file, 'drain'), fileDone]);
+      return;
+    }
+    fieldSize += data.length;
+    if (fieldSize > MAX_FIELD_BYTES) throw new Error(`Form field "${part?.name}" is too large`);
+    fieldChunks.push(data);
+  };
+
+  const endPart = async () => {
+    if (file) {
+      file.end();
+      await fileDone;
+    } else if (part) {
+      if (++fieldCount > MAX_FIELDS) throw new Error('Too many form fields');
+      fields[part.name] = Buffer.concat(fieldChunks).toString('utf-8');
+    }
+    part = null;
+    file = null;
+    fileDone = null;
+    fieldChunks = [];
+    fieldSize = 0;
+  };
+
+  try {
+    for await (const chunk of body) {
+      if (state === 'done') continue; // epilogue: read and ignore
+      buf = buf.length ? Buffer.concat([buf, chunk as Buffer]) : (chunk as Buffer);
+
+      for (;;) {
+        if (state === 'preamble') {
+          const at = buf.indexOf(delimiter);
+          if (at < 0) {
+            buf = buf.subarray(Math.max(0, buf.length - delimiter.length + 1));
+            break;
+          }
+          buf = buf.subarray(at + delimiter.length);
+          state = 'delimiter';
+        } else if (state === 'delimiter') {
+          if (buf.length < 2) break;
+          if (buf[0] === 0x2d && buf[1] === 0x2d) { // "--" closes the body
+            state = 'done';
+            break;
+          }
+          const eol = buf.indexOf(CRLF);
+          if (eol < 0) break;
+          buf = buf.subarray(eol + CRLF.length);
+          state = 'headers';
+        } else if (state === 'headers') {
+          const end = buf.indexOf(HEADER_END);
+          if (end < 0) {
+            if (buf.length > MAX_HEADER_BYTES) throw new Error('Form part headers are too large');
+            break;
+          }
+          part = parsePartHeaders(buf.subarray(0, end).toString('utf-8'));
+          buf = buf.subarray(end + HEADER_END.length);
+          if (part.fileName !== undefined) {
+            const stream = new PassThrough();
+            file = stream;
+            fileDone = onFile(part, stream);
+            // Awaited in endPart; this only keeps an early failure from going unhandled
+            fileDone.catch(() => {});
+          }
+          state = 'body';
+        } else if (state === 'body') {
+          const at = buf.indexOf(delimiter);
+          if (at < 0) {
+            // Hold back what could be the start of a delimiter split across chunks
+            const keep = Math.min(buf.length, delimiter.length - 1);
+            await write(buf.subarray(0, buf.length - keep));
+            buf = buf.subarray(buf.length - keep);
+            break;
+          }
+          await write(buf.subarray(0, at));
+          buf = buf.subarray(at + delimiter.length);
+          await endPart();
+          state = 'delimiter';
+        } else {
+          break;
+        }
+      }
+    }
+    if (state !== 'done') throw new Error('Form data ended early');
+    return fields;
+  } catch (err) {
+    const pending = file as PassThrough | null;
+    if (pending) {
+      pending.destroy(err as Error);
+      await fileDone?.catch(() => {});
+    }
+    throw err;
+  }
+}
+
+function parsePartHeaders(raw: string): MultipartPart {
+  let disposition = '';
+  let contentType: string | undefined;
+  for (const line of raw.split('\r\n')) {
+    const sep = line.indexOf(':');
+    if (sep < 0) continue;
+    const name = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+    if (name === 'content-disposition') disposition = value;
+    else if (name === 'content-type') contentType = value;
+  }
+  if (!/^form-data\b/i.test(disposition)) throw new Error('Form part without Content-Disposition: form-data');
+
+  const name = dispositionParam(disposition, 'name');
+  if (name === undefined) throw new Error('Form part without a name');
+  let fileName = dispositionParam(disposition, 'filename');
+  const extended = /;\s*filename\*=(?:UTF-8|utf-8)''([^;]+)/.exec(disposition);
+  if (extended) {
+    try { fileName = decodeURIComponent(extended[1]); } catch { /* keep the plain filename */ }
+  }
+  return { name, fileName, contentType };
+}
+
+function dispositionParam(disposition: string, param: string): string | undefined {
+  const match = new RegExp(`;\\s*${param}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;\\s]+))`, 'i').exec(disposition);
+  if (!match) return undefined;
+  return match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2];
+}
@@ -0,0 +1,123 @@
+import { COMPONENT_SCHEMAS, INTEGER_PATTERN, JsonSchema, RouteSchema, listRoutes } from './schemas';
+import { requiredScope } from './tokens';
+
+/**
+ * OpenAPI 3.1 document for the daemon, built from the route schemas. Account
+ * routes are listed once at the root, where they serve the default account;
+ * the same paths under `/accounts/{accountId}` serve any other account.
+ */
+
+/** Version of the HTTP API, not of the daemon package */
+export const API_VERSION = '1.0.0';
+
+/** `:name` path params become `{name}` */
+export function openApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, '{$1}');
+}
+
+/** Integer strings the handlers parse are integers to API users */
+function documented(schema: JsonSchema): JsonSchema {
+  if (schema.type === 'string' && schema.pattern === INTEGER_PATTERN) {
+    const { pattern: _pattern, ...rest } = schema;
+    return { ...rest, type: 'integer' };
+  }
+  return schema;
+}
+
+function parameters(route: RouteSchema): JsonSchema[] {
+  const list: JsonSchema[] = [];
+  for (const [where, schema] of [['path', route.params], ['query', route.querystring]] as const) {
+    if (!schema) continue;
+    const required = new Set((schema.required as string[] | undefined) ?? []);
+    for (const [name, property] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+      const { description, ...rest } = property;
+      list.push({
+        name,
+        in: where,
+        required: where === 'path' || required.has(name),
+        ...(description ? { description } : {}),
+        schema: documented(rest),
+      });
+    }
+  }
+  return list;
+}
+
+function requestBody(route: RouteSchema): JsonSchema | undefined {
+  if (route.binaryBody) {
+    return { required: true, content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } };
+  }
+  if (!route.body) return undefined;
+  const content: Record<string, JsonSchema> = { 'application/json': { schema: route.body } };
+  if (route.multipart) {
+    const file = { type: 'string', format: 'binary' };
+    const properties = {
+      file: route.multipart.files === 'many' ? { type: 'array', items: file } : file,
+      ...(route.multipart.fields.properties as object),
+    };
+    content['multipart/form-data'] = { schema: { type: 'object', properties, required: ['file'] } };
+  }
+  const optional = Array.isArray(route.body.type) && route.body.type.includes('null');
+  return { required: !optional, content };
+}
+
+function responses(route: RouteSchema): JsonSchema {
+  const result: Record<string, JsonSchema> = {};
+  for (const [status, schema] of Object.entries(route.responses)) {
+    if (schema === 'websocket') {
+      result[status] = { description: 'Switching to the WebSocket protocol' };
+    } else if (typeof schema === 'string') {
+      result[status] = { description: 'OK', content: { [schema]: { schema: { type: 'string', format: 'binary' } } } };
+    } else {
+      result[status] = { description: 'OK', content: { 'application/json': { schema } } };
+    }
+  }
+  result.default = { description: 'Error', content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } } };
+  return result;
+}
+
+export function buildOpenApi(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const tags = new Set<string>();
+
+  for (const [method, path, route] of listRoutes()) {
+    if (route.hidden) continue;
+    tags.add(route.tag);
+    const operation: JsonSchema = {
+      operationId: route.operationId,
+      summary: route.summary,
+      tags: [route.tag],
+    };
+    if (route.description) operation.description = route.description;
+    const params = parameters(route);
+    if (params.length) operation.parameters = params;
+    const body = requestBody(route);
+    if (body) operation.requestBody = body;
+    operation.responses = responses(route);
+    // Other routes without a scope need the full-access token
+    const scope = requiredScope(method, path);
+    if (scope) operation['x-scope'] = scope;
+    if (route.public) operation.security = [];
+    if (route.root) operation['x-root'] = true;
+    if (route.websocket) operation['x-websocket'] = true;
+    (paths[openApiPath(path)] ??= {})[method.toLowerCase()] = operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Oceangram daemon',
+      version: API_VERSION,
+      description: 'Telegram over HTTP for one or more accounts. Account routes serve the default account at the root'
+        + ' and any account under `/accounts/{accountId}`; routes marked `x-root` exist only at the root.'
+        + ' `x-scope` names the scope an API token needs.',
+    },
+    security: [{ bearerAuth: [] }],
+    tags: [...tags].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: COMPONENT_SCHEMAS,
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
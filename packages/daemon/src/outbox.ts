@@ -0,0 +1,187 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { Cache as CacheType } from './cache';
+import type { MessageInfo } from './telegram';
+import type { SendOptions } from './formatting';
+import { floodWaitSeconds } from './backfill';
+
+/**
+ * Offline outbox.
+ *
+ * Sends accepted while Telegram is disconnected are stored in `outbox` and
+ * delivered oldest first once the account connects. Each send is keyed by a
+ * client-generated `clientMsgId` (generated here if the client didn't pick
+ * one), which every outbox event carries so surfaces can reconcile their
+ * optimistic messages. A send Telegram rejects is marked failed and skipped;
+ * it stays listed until retried or removed.
+ */
+
+export type OutboxKind = 'message' | 'file' | 'voice';
+export type OutboxStatus = 'queued' | 'failed';
+
+export interface OutboxPayload {
+  text?: string;
+  replyTo?: number;
+  scheduleDate?: number;
+  /** Formatting and send options of a text message */
+  options?: SendOptions;
+  /** Base64 file contents (file and voice sends). */
+  data?: string;
+  /** Staged upload on disk, instead of `data`; deleted once the send is done with. */
+  path?: string;
+  size?: number;
+  fileName?: string;
+  mimeType?: string;
+  caption?: string;
+  duration?: number;
+  waveform?: number[];
+}
+
+export interface OutboxItem {
+  clientMsgId: string;
+  dialogId: string;
+  kind: OutboxKind;
+  status: OutboxStatus;
+  payload: OutboxPayload;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** An outbox item as shown to clients — file contents are replaced by their size. */
+export type OutboxEntry = Omit<OutboxItem, 'payload'> & { payload: Omit<OutboxPayload, 'data' | 'path'> };
+
+export type OutboxEvent =
+  | { type: 'outboxQueued'; dialogId: string; clientMsgId: string; item: OutboxEntry }
+  | { type: 'outboxSent'; dialogId: string; clientMsgId: string; message: MessageInfo }
+  | { type: 'outboxFailed'; dialogId: string; clientMsgId: string; error: string };
+
+export type Deliver = (item: OutboxItem) => Promise<MessageInfo>;
+
+const MAX_CLIENT_MSG_ID_LENGTH = 128;
+
+export function isValidClientMsgId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_CLIENT_MSG_ID_LENGTH;
+}
+
+export function toOutboxEntry(item: OutboxItem): OutboxEntry {
+  const { data, path: _path, ...payload } = item.payload;
+  return { ...item, payload: data !== undefined ? { ...payload, size: Buffer.byteLength(data, 'base64') } : payload };
+}
+
+export class Outbox {
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private cache: CacheType,
+    private deliver: Deliver,
+    private emit: (event: OutboxEvent) => void,
+    private isConnected: () => boolean,
+  ) {}
+
+  list(): OutboxEntry[] {
+    return this.cache.getOutbox().map(toOutboxEntry);
+  }
+
+  /** Whether sends are waiting — new sends queue behind them to keep order. */
+  hasQueued(): boolean {
+    return this.cache.getOutbox().some((item) => item.status === 'queued');
+  }
+
+  has(clientMsgId: string): boolean {
+    return this.cache.getOutboxItem(clientMsgId) !== null;
+  }
+
+  /**
+   * Store a send. Sending an existing `clientMsgId` again doesn't add a copy:
+   * a queued item is returned as is, a failed one is retried.
+   */
+  enqueue(dialogId: string, kind: OutboxKind, payload: OutboxPayload, clientMsgId?: string): OutboxEntry {
+    const id = clientMsgId || crypto.randomUUID();
+    const existing = this.cache.getOutboxItem(id);
+    if (existing) return existing.status === 'failed' ? this.retry(id)! : toOutboxEntry(existing);
+
+    const now = Math.floor(Date.now() / 1000);
+    const item: OutboxItem = { clientMsgId: id, dialogId, kind, status: 'queued', payload, attempts: 0, createdAt: now, updatedAt: now };
+    this.cache.insertOutboxItem(item);
+    const entry = toOutboxEntry(item);
+    this.emit({ type: 'outboxQueued', dialogId, clientMsgId: id, item: entry });
+    this.flush();
+    return entry;
+  }
+
+  /** Put a failed send back in the queue. It keeps its original position. */
+  retry(clientMsgId: string): OutboxEntry | null {
+    const item = this.cache.getOutboxItem(clientMsgId);
+    if (!item) return null;
+    const queued: OutboxItem = { ...item, status: 'queued', error: undefined, updatedAt: Math.floor(Date.now() / 1000) };
+    this.cache.updateOutboxItem(queued);
+    this.flush();
+    return toOutboxEntry(queued);
+  }
+
+  remove(clientMsgId: string): boolean {
+    const item = this.cache.getOutboxItem(clientMsgId);
+    if (!item) return false;
+    this.discard(item);
+    return true;
+  }
+
+  /** Deliver queued sends in order. A call during a pass makes it run once more. */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+    this.flushing = (async () => {
+      do {
+        this.flushAgain = false;
+        await this.drain();
+      } while (this.flushAgain);
+    })()
+      .catch((e) => console.error('[outbox] flush error:', e))
+      .finally(() => { this.flushing = null; });
+    return this.flushing;
+  }
+
+  stop(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private discard(item: OutboxItem): void {
+    this.cache.deleteOutboxItem(item.clientMsgId);
+    if (item.payload.path) fs.rmSync(item.payload.path, { force: true });
+  }
+
+  private async drain(): Promise<void> {
+    // A pending FLOOD_WAIT retry holds the whole queue
+    while (this.isConnected() && !this.retryTimer) {
+      const item = this.cache.getOutbox().find((i) => i.status === 'queued');
+      if (!item) return;
+
+      try {
+        const message = await this.deliver(item);
+        this.discard(item);
+        console.log(`[outbox] sent ${item.clientMsgId} to ${item.dialogId}`);
+        this.emit({ type: 'outboxSent', dialogId: item.dialogId, clientMsgId: item.clientMsgId, message });
+      } catch (err: unknown) {
+        // Lost the connection: keep the item, the next connect() flushes again
+        if (!this.isConnected()) return;
+        const seconds = floodWaitSeconds(err);
+        if (seconds !== null) {
+          console.log(`[outbox] FLOOD_WAIT ${seconds}s, retrying later`);
+          this.retryTimer = setTimeout(() => { this.retryTimer = null; this.flush(); }, (seconds + 1) * 1000);
+          return;
+        }
+        const error = (err as Error).message;
+        console.error(`[outbox] ${item.clientMsgId} failed:`, error);
+        this.cache.updateOutboxItem({ ...item, status: 'failed', error, attempts: item.attempts + 1, updatedAt: Math.floor(Date.now() / 1000) });
+        this.emit({ type: 'outboxFailed', dialogId: item.dialogId, clientMsgId: item.clientMsgId, error });
+      }
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { Api } from 'telegram';
+import bigInt from 'big-integer';
+import { PollAnswer, PollInfo, toPoll } from './message-content';
+import { peerDialogId, peerNames } from './reactions';
+
+/**
+ * Polls: building new regular and quiz polls, merging live results into a
+ * message's `PollInfo`, and who voted for what. Answers are identified by
+ * their base64 `option`, as in `PollAnswer`.
+ */
+
+export const MIN_POLL_ANSWERS = 2;
+export const MAX_POLL_ANSWERS = 10;
+const MAX_QUESTION_LENGTH = 255;
+const MAX_ANSWER_LENGTH = 100;
+const MAX_SOLUTION_LENGTH = 200;
+/** Telegram's bounds for `closePeriod`, in seconds */
+const MIN_CLOSE_PERIOD = 5;
+const MAX_CLOSE_PERIOD = 600;
+
+export interface NewPoll {
+  question: string;
+  answers: string[];
+  quiz?: boolean;
+  /** Index into `answers` of the right answer; quizzes only */
+  correctAnswer?: number;
+  multipleChoice?: boolean;
+  /** Voters are visible to everyone. Not allowed in channels. */
+  publicVoters?: boolean;
+  /** Seconds until the poll closes itself */
+  closePeriod?: number;
+  /** Unix seconds when the poll closes itself */
+  closeDate?: number;
+  /** Quiz explanation, shown after answering */
+  solution?: string;
+}
+
+export interface PollVote {
+  /** User id, or the chat id when voting as a channel */
+  peerId: string;
+  name: string;
+  /** Options voted for; empty when Telegram doesn't say */
+  options: string[];
+  date: number;
+}
+
+export interface PollVoteList {
+  count: number;
+  votes: PollVote[];
+  /** Pass back as `offset` for the next page */
+  nextOffset?: string;
+}
+
+/** Validate a poll from request input. Throws an Error saying what is wrong. */
+export function parseNewPoll(input: Record<string, unknown>): NewPoll {
+  const { question, answers, quiz, correctAnswer, multipleChoice, publicVoters, closePeriod, closeDate, solution } = input;
+  if (typeof question !== 'string' || !question.trim()) throw new Error('question required');
+  if (question.length > MAX_QUESTION_LENGTH) throw new Error(`question is longer than ${MAX_QUESTION_LENGTH} characters`);
+  if (!Array.isArray(answers) || answers.length < MIN_POLL_ANSWERS || answers.length > MAX_POLL_ANSWERS) {
+    throw new Error(`answers must list ${MIN_POLL_ANSWERS}-${MAX_POLL_ANSWERS} options`);
+  }
+  if (answers.some((a) => typeof a !== 'string' || !a.trim() || a.length > MAX_ANSWER_LENGTH)) {
+    throw new Error(`Each answer must be a non-empty string of at most ${MAX_ANSWER_LENGTH} characters`);
+  }
+
+  const poll: NewPoll = { question, answers: answers as string[] };
+  if (quiz) {
+    if (multipleChoice) throw new Error('A quiz has one right answer and cannot be multiple choice');
+    if (!Number.isInteger(correctAnswer) || (correctAnswer as number) < 0 || (correctAnswer as number) >= answers.length) {
+      throw new Error('correctAnswer must be the index of one of the answers');
+    }
+    poll.quiz = true;
+    poll.correctAnswer = correctAnswer as number;
+    if (solution !== undefined) {
+      if (typeof solution !== 'string' || solution.length > MAX_SOLUTION_LENGTH) {
+        throw new Error(`solution must be a string of at most ${MAX_SOLUTION_LENGTH} characters`);
+      }
+      if (solution) poll.solution = solution;
+    }
+  } else if (correctAnswer !== undefined || solution !== undefined) {
+    throw new Error('correctAnswer and solution are for quizzes');
+  }
+  if (multipleChoice) poll.multipleChoice = true;
+  if (publicVoters) poll.publicVoters = true;
+
+  if (closePeriod !== undefined && closeDate !== undefined) throw new Error('Give closePeriod or closeDate, not both');
+  if (closePeriod !== undefined) {
+    if (!Number.isInteger(closePeriod) || (closePeriod as number) < MIN_CLOSE_PERIOD || (closePeriod as number) > MAX_CLOSE_PERIOD) {
+      throw new Error(`closePeriod must be ${MIN_CLOSE_PERIOD}-${MAX_CLOSE_PERIOD} seconds`);
+    }
+    poll.closePeriod = closePeriod as number;
+  }
+  if (closeDate !== undefined) {
+    if (!Number.isInteger(closeDate) || (closeDate as number) <= Math.floor(Date.now() / 1000)) {
+      throw new Error('closeDate must be a future unix timestamp');
+    }
+    poll.closeDate = closeDate as number;
+  }
+  return poll;
+}
+
+export function toInputMediaPoll(poll: NewPoll): Api.InputMediaPoll {
+  // Option bytes only need to be unique within the poll
+  const options = poll.answers.map((_, i) => Buffer.from(String(i)));
+  return new Api.InputMediaPoll({
+    poll: new Api.Poll({
+      id: bigInt(0),
+      question: new Api.TextWithEntities({ text: poll.question, entities: [] }),
+      answers: poll.answers.map((text, i) => new Api.PollAnswer({
+        text: new Api.TextWithEntities({ text, entities: [] }),
+        option: options[i],
+      })),
+      quiz: poll.quiz || undefined,
+      multipleChoice: poll.multipleChoice || undefined,
+      publicVoters: poll.publicVoters || undefined,
+      closePeriod: poll.closePeriod,
+      closeDate: poll.closeDate,
+    }),
+    correctAnswers: poll.quiz ? [options[poll.correctAnswer!]] : undefined,
+    solution: poll.solution,
+    solutionEntities: poll.solution ? [] : undefined,
+  });
+}
+
+/** The same poll, closed: editing a poll message to this ends the vote. */
+export function toClosedInputMediaPoll(poll: Api.Poll): Api.InputMediaPoll {
+  return new Api.InputMediaPoll({
+    poll: new Api.Poll({
+      id: poll.id,
+      question: poll.question,
+      answers: poll.answers,
+      closed: true,
+      quiz: poll.quiz,
+      multipleChoice: poll.multipleChoice,
+      publicVoters: poll.publicVoters,
+    }),
+  });
+}
+
+/**
+ * Apply new results to a poll we already know. `poll` is sent when the poll
+ * itself changed (closed, for one); without it `prev` supplies the answers.
+ * `min` results leave out our own vote, so the choice we knew is kept.
+ */
+export function mergePollResults(
+  prev: PollInfo | undefined, poll: Api.TypePoll | undefined, results: Api.TypePollResults,
+): PollInfo | undefined {
+  const base = poll instanceof Api.Poll ? toPoll(new Api.MessageMediaPoll({ poll, results: new Api.PollResults({}) })) : prev;
+  if (!base) return undefined;
+
+  const counted = new Map<string, Api.PollAnswerVoters>();
+  for (const r of results.results || []) counted.set(Buffer.from(r.option).toString('base64'), r);
+  const known = new Map((prev?.answers || []).map((a) => [a.option, a]));
+
+  const answers = base.answers.map((a) => {
+    const answer: PollAnswer = { text: a.text, option: a.option };
+    const v = counted.get(a.option);
+    const old = known.get(a.option);
+    const voters = results.results ? v?.voters : old?.voters;
+    if (voters !== undefined) answer.voters = voters;
+    const chosen = results.min || !results.results ? old?.chosen : v?.chosen;
+    if (chosen) answer.chosen = true;
+    if (v?.correct || old?.correct) answer.correct = true;
+    return answer;
+  });
+
+  const next: PollInfo = { ...base, answers };
+  const totalVoters = results.totalVoters ?? prev?.totalVoters;
+  if (totalVoters !== undefined) next.totalVoters = totalVoters;
+  const solution = results.solution ?? prev?.solution;
+  if (solution) next.solution = solution;
+  return next;
+}
+
+export function toPollVoteList(list: Api.messages.TypeVotesList): PollVoteList {
+  const names = peerNames(list.users, list.chats);
+  const votes = list.votes.map((v): PollVote => {
+    const peerId = peerDialogId(v.peer);
+    const options = v instanceof Api.MessagePeerVote ? [v.option]
+      : v instanceof Api.MessagePeerVoteMultiple ? v.options
+      : [];
+    return {
+      peerId,
+      name: names.get(peerId) || 'Unknown',
+      options: options.map((o) => Buffer.from(o).toString('base64')),
+      date: v.date,
+    };
+  });
+  return { count: list.count, votes, ...(list.nextOffset ? { nextOffset: list.nextOffset } : {}) };
+}
+
+/** Parse vote input: a list of base64 options as found in `PollAnswer.option`. */
+export function parsePollOptions(input: unknown): Buffer[] | null {
+  if (!Array.isArray(input) || input.some((o) => typeof o !== 'string' || !o)) return null;
+  return (input as string[]).map((o) => Buffer.from(o, 'base64'));
+}
@@ -0,0 +1,370 @@
+import * as zlib from 'zlib';
+
+/**
+ * Minimal QR code encoder for login links: byte mode, error correction
+ * level M, versions 1–10 (up to 213 bytes). Follows ISO/IEC 18004; the
+ * layout steps mirror the well-known reference implementation by Nayuki.
+ */
+
+export type QrMatrix = boolean[][];
+
+/** Error correction codewords per block and block count, level M, indexed by version. */
+const ECC_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ECC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+/** Format bits for level M (binary 00). */
+const ECL_M_BITS = 0;
+
+export function encodeQr(text: string): QrMatrix {
+  const data = Buffer.from(text, 'utf-8');
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    if (4 + countBits + data.length * 8 <= dataCodewords(version) * 8) break;
+  }
+  if (version > MAX_VERSION) throw new Error(`QR payload too long (${data.length} bytes)`);
+
+  // Mode indicator, length, payload, terminator, padding
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(data.length, version < 10 ? 8 : 16);
+  for (const byte of data) push(byte, 8);
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  for (let pad = 0xec; codewords.length < dataCodewords(version); pad ^= 0xec ^ 0x11) codewords.push(pad);
+
+  const qr = new QrBuilder(version);
+  qr.drawCodewords(interleave(version, codewords));
+
+  // Pick the mask with the lowest penalty
+  let best: QrMatrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const candidate = qr.withMask(mask);
+    const penalty = penaltyScore(candidate);
+    if (penalty < bestPenalty) {
+      best = candidate;
+      bestPenalty = penalty;
+    }
+  }
+  return best!;
+}
+
+export function qrToSvg(matrix: QrMatrix, margin = 4): string {
+  const size = matrix.length + margin * 2;
+  let path = '';
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path += `M${x + margin},${y + margin}h1v1h-1z`;
+  }));
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+}
+
+/** Greyscale PNG, `scale` pixels per module. */
+export function qrToPng(matrix: QrMatrix, scale = 8, margin = 4): Buffer {
+  const size = (matrix.length + margin * 2) * scale;
+  const raw = Buffer.alloc((size + 1) * size, 0xff);
+  for (let py = 0; py < size; py++) {
+    raw[py * (size + 1)] = 0; // filter: none
+    const y = Math.floor(py / scale) - margin;
+    for (let px = 0; px < size; px++) {
+      const x = Math.floor(px / scale) - margin;
+      if (matrix[y]?.[x]) raw[py * (size + 1) + 1 + px] = 0;
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // colour type: greyscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// ─── Layout ────────────────────────────────────────────────────────────────
+
+class QrBuilder {
+  readonly size: number;
+  private modules: QrMatrix;
+  private isFunction: boolean[][];
+
+  constructor(private version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  drawCodewords(data: number[]): void {
+    let i = 0;
+    // Two-module columns right to left, zigzagging up and down, skipping the timing column
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** A copy with `mask` applied to the data modules and its format bits drawn. */
+  withMask(mask: number): QrMatrix {
+    const result = this.modules.map((row) => row.slice());
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && maskBit(mask, x, y)) result[y][x] = !result[y][x];
+      }
+    }
+    drawFormatBits(result, mask);
+    return result;
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || x >= size || y < 0 || y >= size) continue;
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          this.set(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+
+    const align = alignmentPositions(this.version);
+    const last = align.length - 1;
+    for (let i = 0; i <= last; i++) {
+      for (let j = 0; j <= last; j++) {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) continue;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.set(align[i] + dx, align[j] + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      }
+    }
+
+    // Reserve the format areas (drawn per mask) and the always-dark module
+    for (let i = 0; i < 9; i++) {
+      this.isFunction[8][i] = this.isFunction[i][8] = true;
+    }
+    for (let i = 0; i < 8; i++) {
+      this.isFunction[8][size - 1 - i] = this.isFunction[size - 1 - i][8] = true;
+    }
+    this.set(8, size - 8, true);
+
+    if (this.version >= 7) {
+      let rem = this.version;
+      for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+      const bits = (this.version << 12) | rem;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.set(a, b, dark);
+        this.set(b, a, dark);
+      }
+    }
+  }
+}
+
+function drawFormatBits(modules: QrMatrix, mask: number): void {
+  const size = modules.length;
+  const data = (ECL_M_BITS << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) modules[i][8] = bit(i);
+  modules[7][8] = bit(6);
+  modules[8][8] = bit(7);
+  modules[8][7] = bit(8);
+  for (let i = 9; i < 15; i++) modules[8][14 - i] = bit(i);
+
+  for (let i = 0; i < 8; i++) modules[8][size - 1 - i] = bit(i);
+  for (let i = 8; i < 15; i++) modules[size - 15 + i][8] = bit(i);
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/** Runs of five or more, 2×2 blocks, and dark/light imbalance (finder-like patterns are not scored). */
+function penaltyScore(m: QrMatrix): number {
+  const size = m.length;
+  let penalty = 0;
+  for (let a = 0; a < size; a++) {
+    let rowRun = 1;
+    let colRun = 1;
+    for (let b = 1; b < size; b++) {
+      if (m[a][b] === m[a][b - 1]) rowRun++;
+      else { if (rowRun >= 5) penalty += rowRun - 2; rowRun = 1; }
+      if (m[b][a] === m[b - 1][a]) colRun++;
+      else { if (colRun >= 5) penalty += colRun - 2; colRun = 1; }
+    }
+    if (rowRun >= 5) penalty += rowRun - 2;
+    if (colRun >= 5) penalty += colRun - 2;
+  }
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (m[y][x]) dark++;
+      if (x < size - 1 && y < size - 1 && m[y][x] === m[y][x + 1] && m[y][x] === m[y + 1][x] && m[y][x] === m[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+  const total = size * size;
+  penalty += Math.ceil(Math.abs(dark * 20 - total * 10) / total - 1) * 10;
+  return penalty;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < count; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const align = Math.floor(version / 7) + 2;
+    result -= (25 * align - 10) * align - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_PER_BLOCK[version] * ECC_BLOCKS[version];
+}
+
+// ─── Error correction ─────────────────────────────────────────────────────
+
+/** Split into blocks, append Reed–Solomon codewords, and interleave. */
+function interleave(version: number, data: number[]): number[] {
+  const blockCount = ECC_BLOCKS[version];
+  const eccLength = ECC_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+export function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+export function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+// ─── PNG ─────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
@@ -0,0 +1,177 @@
+import { Api } from 'telegram';
+import bigInt from 'big-integer';
+
+/**
+ * Message reactions: counts on a message, who reacted, and which reactions a
+ * chat allows. A reaction is a unicode emoji, a custom emoji (by document id)
+ * or a paid star reaction. Sending takes emoji and custom emoji only.
+ */
+
+export interface Reaction {
+  emoji?: string;
+  /** Custom emoji document id */
+  customEmojiId?: string;
+  /** Paid star reaction */
+  paid?: boolean;
+}
+
+export interface ReactionCount {
+  /** The emoji to show. Custom emoji carry `customEmojiId` and a placeholder here. */
+  emoji: string;
+  customEmojiId?: string;
+  paid?: boolean;
+  count: number;
+  /** Whether we picked it. Omitted when Telegram sent counts without our choice (`min` updates). */
+  isSelected?: boolean;
+}
+
+export interface Reactor {
+  /** User id, or the chat id when reacting as a channel */
+  peerId: string;
+  name: string;
+  reaction: Reaction;
+  date: number;
+  big?: boolean;
+  /** Reaction to our message that we haven't seen yet */
+  unread?: boolean;
+  my?: boolean;
+}
+
+export interface ReactionList {
+  count: number;
+  reactors: Reactor[];
+  /** Pass back as `offset` for the next page */
+  nextOffset?: string;
+}
+
+export interface AllowedReactions {
+  /** `all`: any standard emoji; `some`: only `reactions`; `none`: reactions are off */
+  mode: 'all' | 'some' | 'none';
+  reactions: Reaction[];
+  /** Custom emoji allowed too (`all` only) */
+  allowCustom?: boolean;
+  /** Max distinct reactions per message, when the chat sets one */
+  limit?: number;
+}
+
+const CUSTOM_EMOJI_PLACEHOLDER = '❓';
+const PAID_EMOJI = '⭐';
+
+export function toReaction(reaction: Api.TypeReaction): Reaction | undefined {
+  if (reaction instanceof Api.ReactionEmoji) return { emoji: reaction.emoticon };
+  if (reaction instanceof Api.ReactionCustomEmoji) return { customEmojiId: reaction.documentId.toString() };
+  if (reaction instanceof Api.ReactionPaid) return { paid: true };
+  return undefined;
+}
+
+export function toApiReaction(reaction: Reaction): Api.TypeReaction {
+  if (reaction.customEmojiId) {
+    return new Api.ReactionCustomEmoji({ documentId: bigInt(reaction.customEmojiId) });
+  }
+  if (reaction.emoji) return new Api.ReactionEmoji({ emoticon: reaction.emoji });
+  throw new Error('Reaction needs emoji or customEmojiId');
+}
+
+/** Identity of a reaction, for comparing what the user already picked. */
+export function reactionKey(reaction: Reaction): string {
+  if (reaction.customEmojiId) return `custom:${reaction.customEmojiId}`;
+  if (reaction.paid) return 'paid';
+  return `emoji:${reaction.emoji || ''}`;
+}
+
+export function toReactionCounts(reactions: Api.TypeMessageReactions): ReactionCount[] {
+  const counts: ReactionCount[] = [];
+  for (const result of reactions.results) {
+    const reaction = toReaction(result.reaction);
+    if (!reaction || !result.count) continue;
+    counts.push({
+      emoji: reaction.emoji || (reaction.paid ? PAID_EMOJI : CUSTOM_EMOJI_PLACEHOLDER),
+      ...(reaction.customEmojiId ? { customEmojiId: reaction.customEmojiId } : {}),
+      ...(reaction.paid ? { paid: true } : {}),
+      count: result.count,
+      ...(reactions.min ? {} : { isSelected: result.chosenOrder != null }),
+    });
+  }
+  return counts;
+}
+
+/** The reactions we picked on a message, in the order we picked them. */
+export function chosenReactions(reactions: Api.TypeMessageReactions | undefined): Reaction[] {
+  if (!reactions) return [];
+  return reactions.results
+    .filter((r) => r.chosenOrder != null)
+    .sort((a, b) => (a.chosenOrder ?? 0) - (b.chosenOrder ?? 0))
+    .map((r) => toReaction(r.reaction))
+    .filter((r): r is Reaction => !!r);
+}
+
+/** Display names for the users and chats an RPC result carries, keyed by dialog id. */
+export function peerNames(users: Api.TypeUser[], chats: Api.TypeChat[]): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const user of users) {
+    if (user instanceof Api.User) {
+      names.set(user.id.toString(), [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username || 'Unknown');
+    }
+  }
+  for (const chat of chats) {
+    if (chat instanceof Api.Chat) names.set(`-${chat.id.toString()}`, chat.title);
+    else if (chat instanceof Api.Channel) names.set(`-100${chat.id.toString()}`, chat.title);
+  }
+  return names;
+}
+
+/** Dialog id of a peer: user id, `-chatId` or `-100channelId`. */
+export function peerDialogId(peer: Api.TypePeer): string {
+  return peer instanceof Api.PeerUser ? peer.userId.toString()
+    : peer instanceof Api.PeerChat ? `-${peer.chatId.toString()}`
+    : peer instanceof Api.PeerChannel ? `-100${peer.channelId.toString()}`
+    : '';
+}
+
+export function toReactionList(list: Api.messages.TypeMessageReactionsList): ReactionList {
+  const names = peerNames(list.users, list.chats);
+  const reactors: Reactor[] = [];
+  for (const r of list.reactions) {
+    const reaction = toReaction(r.reaction);
+    if (!reaction) continue;
+    const peerId = peerDialogId(r.peerId);
+    reactors.push({
+      peerId,
+      name: names.get(peerId) || 'Unknown',
+      reaction,
+      date: r.date,
+      ...(r.big ? { big: true } : {}),
+      ...(r.unread ? { unread: true } : {}),
+      ...(r.my ? { my: true } : {}),
+    });
+  }
+  return { count: list.count, reactors, ...(list.nextOffset ? { nextOffset: list.nextOffset } : {}) };
+}
+
+/**
+ * A chat's reaction settings. `standard` lists every active emoji reaction,
+ * filled in for `all` so clients have something to offer.
+ */
+export function toAllowedReactions(
+  available: Api.TypeChatReactions | undefined,
+  limit: number | undefined,
+  standard: Reaction[],
+): AllowedReactions {
+  const base = limit ? { limit } : {};
+  if (available instanceof Api.ChatReactionsSome) {
+    return { mode: 'some', reactions: available.reactions.map(toReaction).filter((r): r is Reaction => !!r), ...base };
+  }
+  if (available instanceof Api.ChatReactionsAll) {
+    return { mode: 'all', reactions: standard, ...(available.allowCustom ? { allowCustom: true } : {}), ...base };
+  }
+  if (available instanceof Api.ChatReactionsNone) return { mode: 'none', reactions: [], ...base };
+  // Private chats carry no settings: every standard reaction works
+  return { mode: 'all', reactions: standard, ...base };
+}
+
+/** Parse a reaction from request input: `{emoji}` or `{customEmojiId}`. */
+export function parseReaction(input: { emoji?: unknown; customEmojiId?: unknown }): Reaction | null {
+  if (typeof input.customEmojiId === 'string' && /^\d+$/.test(input.customEmojiId)) return { customEmojiId: input.customEmojiId };
+  if (typeof input.emoji === 'string' && input.emoji) return { emoji: input.emoji };
+  return null;
+}
@@ -0,0 +1,56 @@
+import type { MessageInfo } from './telegram';
+
+/**
+ * Local retention of edited and deleted messages.
+ *
+ * Off by default. For the dialogs a rule names, and the chats listed in the
+ * folders it names, the cache keeps the version of a message each edit
+ * replaced, and moves deleted messages to a tombstone table instead of
+ * dropping them. Only what the cache saw is kept: an edit made and undone
+ * while the daemon was offline leaves no trace. A rule naming a chat covers
+ * its forum topics. Rules are stored per account in the cache.
+ */
+
+export interface RetentionRules {
+  dialogIds: string[];
+  folderIds: number[];
+}
+
+export interface MessageRevision {
+  /** 1 for the original text, counting up with each edit */
+  version: number;
+  message: MessageInfo;
+  /** Unix seconds when the next version replaced this one */
+  replacedAt: number;
+}
+
+export interface DeletedMessage {
+  dialogId: string;
+  message: MessageInfo;
+  /** Unix seconds */
+  deletedAt: number;
+}
+
+/** Validate rules from request input. Throws an Error saying what is wrong. */
+export function parseRetentionRules(input: object): RetentionRules {
+  const { dialogIds = [], folderIds = [] } = input as Record<string, unknown>;
+  if (!Array.isArray(dialogIds) || dialogIds.some((id) => (typeof id !== 'string' && typeof id !== 'number') || id === '')) {
+    throw new Error('dialogIds must be an array of dialog ids');
+  }
+  if (!Array.isArray(folderIds) || folderIds.some((id) => !Number.isInteger(id))) {
+    throw new Error('folderIds must be an array of folder ids');
+  }
+  return { dialogIds: [...new Set(dialogIds.map(String))], folderIds: [...new Set(folderIds as number[])] };
+}
+
+/**
+ * Whether `next` changes what `prev` says. Reaction counts, poll results and
+ * reply markup also arrive as edits; those aren't revisions.
+ */
+export function isRevision(prev: MessageInfo, next: MessageInfo): boolean {
+  return prev.text !== next.text
+    || JSON.stringify(prev.entities || []) !== JSON.stringify(next.entities || [])
+    || prev.mediaType !== next.mediaType
+    || prev.fileName !== next.fileName
+    || JSON.stringify(prev.geo) !== JSON.stringify(next.geo);
+}
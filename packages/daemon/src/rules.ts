@@ -0,0 +1,505 @@
+import * as crypto from 'crypto';
+import type { Cache as CacheType } from './cache';
+import type { MessageInfo, SequencedEvent, TelegramService } from './telegram';
+import { loadConfig, saveConfig, RuleConfig } from './config';
+import { isValidTimeZone, localTime } from './cron';
+import { FormatOptions, SendOptions, parseSendOptions } from './formatting';
+import { Reaction, parseReaction } from './reactions';
+import { EventFilter, FolderResolver } from './subscriptions';
+
+/**
+ * Automation rules.
+ *
+ * A rule watches an account's new messages. When one matches its trigger
+ * (dialog, folder, sender, text pattern, media type) and passes its
+ * conditions (not from me, time window, cooldown), its actions run in order:
+ * reply, forward, react, mark read, mute, or hand the event to a webhook.
+ * Rules are stored in config (`rules`), each tied to one account, and every
+ * run is logged in the account's cache.
+ *
+ * Messages are handled one at a time, so by the time a message is looked at
+ * the actions of earlier ones have finished. Messages those actions sent are
+ * never matched, which keeps a rule from answering itself.
+ */
+
+export interface RuleTrigger {
+  /** Chats the message is in; a forum chat id covers its topics */
+  dialogIds?: string[];
+  folderIds?: number[];
+  senderIds?: string[];
+  /** Regular expression the text must match */
+  pattern?: string;
+  caseSensitive?: boolean;
+  /** Media types; `none` matches plain text messages */
+  mediaTypes?: string[];
+}
+
+export interface TimeWindow {
+  /** `HH:MM`; a window ending before it starts runs past midnight, one ending when it starts all day */
+  start: string;
+  end: string;
+  /** Days of the week, 0 for Sunday */
+  days?: number[];
+  /** IANA time zone; the daemon's own by default */
+  timeZone?: string;
+}
+
+export interface RuleConditions {
+  notFromMe?: boolean;
+  /** Only messages sent inside the window */
+  timeWindow?: TimeWindow;
+  /** Seconds before the rule runs again in the same dialog */
+  cooldown?: number;
+}
+
+export interface ReplyAction extends FormatOptions {
+  type: 'reply';
+  text: string;
+  /** Reply to the message, rather than just send; default true */
+  quote?: boolean;
+  silent?: boolean;
+}
+
+export type RuleAction =
+  | ReplyAction
+  | { type: 'forward'; toDialogId: string }
+  | ({ type: 'react' } & Reaction)
+  | { type: 'markRead' }
+  | {
+    type: 'mute';
+    /** Seconds; 0 or left out mutes for good */
+    duration?: number;
+  }
+  | { type: 'webhook'; webhookId: string };
+
+export interface RuleSpec {
+  name: string;
+  enabled: boolean;
+  trigger: RuleTrigger;
+  conditions: RuleConditions;
+  actions: RuleAction[];
+}
+
+export interface Rule extends RuleSpec {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RuleActionResult {
+  type: RuleAction['type'];
+  ok: boolean;
+  error?: string;
+}
+
+export interface RuleRun {
+  id: number;
+  ruleId: string;
+  dialogId: string;
+  messageId: number;
+  /** `failed` when any action failed; the others still ran */
+  status: 'ok' | 'failed';
+  actions: RuleActionResult[];
+  createdAt: number;
+}
+
+/** A cached message a dry run matched, and what the rule would have done */
+export interface RuleTestMatch {
+  dialogId: string;
+  message: MessageInfo;
+  actions: RuleAction[];
+}
+
+/** What actions are carried out with */
+export type RuleTarget = Pick<TelegramService, 'sendMessage' | 'forwardMessages' | 'addReaction' | 'markAsRead' | 'muteChat'>;
+
+/** Queue an event for a webhook, whatever its filters; false if there is no such webhook. */
+export type WebhookSender = (webhookId: string, event: SequencedEvent) => boolean;
+
+const ACTION_TYPES: RuleAction['type'][] = ['reply', 'forward', 'react', 'markRead', 'mute', 'webhook'];
+const MEDIA_TYPES = ['photo', 'video', 'voice', 'file', 'sticker', 'gif', 'poll', 'geo', 'contact', 'none'];
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const RUN_LOG_SIZE = 1000;
+/** Messages rules sent, remembered so they aren't matched */
+const SENT_MEMORY = 1000;
+const TEST_LIMIT = 200;
+const TEST_MAX_LIMIT = 1000;
+
+// --- Validation ---
+
+/** Validate a new rule from request input. Throws an Error saying what is wrong. */
+export function parseRule(input: object): RuleSpec {
+  const changes = parseRuleChanges(input);
+  if (!changes.name) throw new Error('name is required');
+  if (!changes.actions) throw new Error('actions is required');
+  return { enabled: true, trigger: {}, conditions: {}, ...changes } as RuleSpec;
+}
+
+/** Validate changes to a rule from request input; each field given replaces the old one whole. */
+export function parseRuleChanges(input: object): Partial<RuleSpec> {
+  const { name, enabled, trigger, conditions, actions } = input as Record<string, unknown>;
+  const changes: Partial<RuleSpec> = {};
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) throw new Error('name must be a non-empty string');
+    changes.name = name.trim();
+  }
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') throw new Error('enabled must be a boolean');
+    changes.enabled = enabled;
+  }
+  if (trigger !== undefined) changes.trigger = parseTrigger(trigger);
+  if (conditions !== undefined) changes.conditions = parseConditions(conditions);
+  if (actions !== undefined) {
+    if (!Array.isArray(actions) || !actions.length) throw new Error('actions must be a non-empty array');
+    changes.actions = actions.map(parseAction);
+  }
+  return changes;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function idList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((id) => (typeof id !== 'string' && typeof id !== 'number') || id === '')) {
+    throw new Error(`${field} must be an array of ids`);
+  }
+  return [...new Set(value.map(String))];
+}
+
+function parseTrigger(input: unknown): RuleTrigger {
+  if (!isObject(input)) throw new Error('trigger must be an object');
+  const { dialogIds, folderIds, senderIds, pattern, caseSensitive, mediaTypes } = input;
+  const trigger: RuleTrigger = {};
+  if (dialogIds !== undefined) trigger.dialogIds = idList(dialogIds, 'trigger.dialogIds');
+  if (folderIds !== undefined) {
+    if (!Array.isArray(folderIds) || folderIds.some((id) => !Number.isInteger(id))) {
+      throw new Error('trigger.folderIds must be an array of folder ids');
+    }
+    trigger.folderIds = [...new Set(folderIds as number[])];
+  }
+  if (senderIds !== undefined) trigger.senderIds = idList(senderIds, 'trigger.senderIds');
+  if (pattern !== undefined) {
+    if (typeof pattern !== 'string' || !pattern) throw new Error('trigger.pattern must be a regular expression');
+    try {
+      new RegExp(pattern);
+    } catch (err: unknown) {
+      throw new Error(`trigger.pattern: ${(err as Error).message}`);
+    }
+    trigger.pattern = pattern;
+  }
+  if (caseSensitive) trigger.caseSensitive = true;
+  if (mediaTypes !== undefined) {
+    if (!Array.isArray(mediaTypes) || mediaTypes.some((type) => !MEDIA_TYPES.includes(type as string))) {
+      throw new Error(`trigger.mediaTypes must be a list of: ${MEDIA_TYPES.join(', ')}`);
+    }
+    trigger.mediaTypes = [...new Set(mediaTypes as string[])];
+  }
+  return trigger;
+}
+
+function parseConditions(input: unknown): RuleConditions {
+  if (!isObject(input)) throw new Error('conditions must be an object');
+  const { notFromMe, timeWindow, cooldown } = input;
+  const conditions: RuleConditions = {};
+  if (notFromMe) conditions.notFromMe = true;
+  if (timeWindow !== undefined) {
+    if (!isObject(timeWindow)) throw new Error('conditions.timeWindow must be an object');
+    const { start, end, days, timeZone } = timeWindow;
+    if (typeof start !== 'string' || !TIME_RE.test(start) || typeof end !== 'string' || !TIME_RE.test(end)) {
+      throw new Error('conditions.timeWindow needs start and end as HH:MM');
+    }
+    const window: TimeWindow = { start, end };
+    if (days !== undefined) {
+      if (!Array.isArray(days) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        throw new Error('conditions.timeWindow.days must be days of the week, 0 (Sunday) to 6');
+      }
+      window.days = [...new Set(days as number[])];
+    }
+    if (timeZone !== undefined) {
+      if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+        throw new Error('conditions.timeWindow.timeZone must be an IANA time zone');
+      }
+      window.timeZone = timeZone;
+    }
+    conditions.timeWindow = window;
+  }
+  if (cooldown !== undefined) {
+    if (!Number.isInteger(cooldown) || (cooldown as number) < 0) throw new Error('conditions.cooldown must be seconds');
+    conditions.cooldown = cooldown as number;
+  }
+  return conditions;
+}
+
+function parseAction(input: unknown, index: number): RuleAction {
+  if (!isObject(input) || !ACTION_TYPES.includes(input.type as RuleAction['type'])) {
+    throw new Error(`actions[${index}].type must be one of ${ACTION_TYPES.join(', ')}`);
+  }
+  const fail = (message: string): never => { throw new Error(`actions[${index}]: ${message}`); };
+  switch (input.type) {
+    case 'reply': {
+      const { text, quote, silent } = input;
+      if (typeof text !== 'string' || !text) return fail('reply needs text');
+      let options: SendOptions;
+      try {
+        options = parseSendOptions({ parseMode: input.parseMode, entities: input.entities, noWebpage: input.noWebpage, silent }, text);
+      } catch (err: unknown) {
+        return fail((err as Error).message);
+      }
+      return { type: 'reply', text, ...(quote === false ? { quote: false } : {}), ...options };
+    }
+    case 'forward':
+      if (typeof input.toDialogId !== 'string' || !input.toDialogId) return fail('forward needs toDialogId');
+      return { type: 'forward', toDialogId: input.toDialogId };
+    case 'react': {
+      const reaction = parseReaction(input);
+      if (!reaction) return fail('react needs emoji or customEmojiId');
+      return { type: 'react', ...reaction };
+    }
+    case 'markRead':
+      return { type: 'markRead' };
+    case 'mute':
+      if (input.duration !== undefined && (!Number.isInteger(input.duration) || (input.duration as number) < 0)) {
+        return fail('mute duration must be seconds');
+      }
+      return input.duration ? { type: 'mute', duration: input.duration as number } : { type: 'mute' };
+    default:
+      if (typeof input.webhookId !== 'string' || !input.webhookId) return fail('webhook needs webhookId');
+      return { type: 'webhook', webhookId: input.webhookId };
+  }
+}
+
+// --- Matching ---
+
+function toMinutes(time: string): number {
+  return Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+}
+
+function inWindow(window: TimeWindow, timestamp: number): boolean {
+  const { weekday, hour, minute } = localTime(timestamp, window.timeZone);
+  if (window.days && !window.days.includes(weekday)) return false;
+  const minutes = hour * 60 + minute;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === end) return true;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/** A rule ready to match: its dialogs and folders resolved, its pattern compiled */
+class CompiledRule {
+  private filter = new EventFilter();
+  private pattern: RegExp | null;
+  private senderIds: Set<string> | null;
+
+  constructor(readonly rule: Rule) {
+    const { pattern, caseSensitive, senderIds } = rule.trigger;
+    this.pattern = pattern ? new RegExp(pattern, caseSensitive ? '' : 'i') : null;
+    this.senderIds = senderIds ? new Set(senderIds) : null;
+  }
+
+  /** Resolve folders. One that can't be looked up (while offline) matches nothing until the next reload. */
+  async resolve(resolveFolder: FolderResolver): Promise<void> {
+    const { dialogIds, folderIds } = this.rule.trigger;
+    try {
+      await this.filter.update({ dialogIds, folderIds }, resolveFolder);
+    } catch {
+      await this.filter.update({ dialogIds: folderIds ? dialogIds ?? [] : dialogIds }, resolveFolder);
+    }
+  }
+
+  /** Trigger and conditions, apart from the cooldown */
+  matches(dialogId: string, message: MessageInfo): boolean {
+    const { trigger, conditions } = this.rule;
+    if (!this.filter.matches({ type: 'newMessage', dialogId, message })) return false;
+    if (this.senderIds && !this.senderIds.has(message.senderId)) return false;
+    if (trigger.mediaTypes && !trigger.mediaTypes.includes(message.mediaType ?? 'none')) return false;
+    if (this.pattern && !this.pattern.test(message.text || '')) return false;
+    if (conditions.notFromMe && message.isOutgoing) return false;
+    if (conditions.timeWindow && !inWindow(conditions.timeWindow, message.timestamp)) return false;
+    return true;
+  }
+}
+
+function toRule(id: string, stored: RuleConfig): Rule {
+  const { account: _account, ...rule } = stored;
+  return { id, ...rule };
+}
+
+/** One account's rules: runs them on its new messages and keeps the log. */
+export class RuleEngine {
+  private compiled: CompiledRule[] = [];
+  /** `dialogId:messageId` of messages actions sent */
+  private sent = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private accountId: string,
+    private cache: CacheType,
+    private resolveFolder: FolderResolver,
+    private target: RuleTarget,
+    private sendToWebhook: WebhookSender,
+  ) {
+    this.reload().catch((e) => console.error('[rules] load error:', e));
+  }
+
+  /** In the order they run */
+  list(): Rule[] {
+    return Object.entries(loadConfig().rules || {})
+      .filter(([, stored]) => stored.account === this.accountId)
+      .map(([id, stored]) => toRule(id, stored))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): Rule | null {
+    const stored = loadConfig().rules?.[id];
+    return stored && stored.account === this.accountId ? toRule(id, stored) : null;
+  }
+
+  async create(spec: RuleSpec): Promise<Rule> {
+    const id = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+    const stored: RuleConfig = { account: this.accountId, ...spec, createdAt: now, updatedAt: now };
+    const config = loadConfig();
+    config.rules = { ...config.rules, [id]: stored };
+    saveConfig(config);
+    await this.reload();
+    return toRule(id, stored);
+  }
+
+  async update(id: string, changes: Partial<RuleSpec>): Promise<Rule | null> {
+    const config = loadConfig();
+    const existing = config.rules?.[id];
+    if (!existing || existing.account !== this.accountId) return null;
+    const stored: RuleConfig = { ...existing, ...changes, updatedAt: Math.floor(Date.now() / 1000) };
+    config.rules = { ...config.rules, [id]: stored };
+    saveConfig(config);
+    await this.reload();
+    return toRule(id, stored);
+  }
+
+  /** Remove a rule and its log. */
+  async remove(id: string): Promise<boolean> {
+    const config = loadConfig();
+    if (config.rules?.[id]?.account !== this.accountId) return false;
+    delete config.rules[id];
+    saveConfig(config);
+    this.cache.deleteRuleRuns(id);
+    await this.reload();
+    return true;
+  }
+
+  /** Re-read the account's rules and resolve their folders. Runs again on connect, restarting an engine stopped by logout. */
+  async reload(): Promise<void> {
+    this.stopped = false;
+    const compiled: CompiledRule[] = [];
+    for (const rule of this.list()) {
+      if (!rule.enabled) continue;
+      const entry = new CompiledRule(rule);
+      await entry.resolve(this.resolveFolder);
+      compiled.push(entry);
+    }
+    this.compiled = compiled;
+  }
+
+  handle(event: SequencedEvent): void {
+    if (event.type !== 'newMessage' || this.stopped || !this.compiled.length) return;
+    this.queue = this.queue
+      .then(() => this.run(event as Extract<SequencedEvent, { type: 'newMessage' }>))
+      .catch((e) => console.error('[rules] run error:', e));
+  }
+
+  /**
+   * Match `rule` against cached messages without running anything: the
+   * messages of `dialogId`, or of the dialogs its trigger names, newest first.
+   * Cooldowns are not applied.
+   */
+  async test(spec: RuleSpec, options: { dialogId?: string; limit?: number } = {}): Promise<{ scanned: number; matches: RuleTestMatch[] }> {
+    const entry = new CompiledRule({ ...spec, id: '', createdAt: 0, updatedAt: 0 });
+    await entry.resolve(this.resolveFolder);
+    const limit = Math.min(options.limit || TEST_LIMIT, TEST_MAX_LIMIT);
+    const dialogIds = options.dialogId ? [options.dialogId] : spec.trigger.folderIds ? undefined : spec.trigger.dialogIds;
+    const recent = this.cache.getRecentMessages(limit, dialogIds);
+    const matches = recent
+      .filter(({ dialogId, message }) => entry.matches(dialogId, message))
+      .map(({ dialogId, message }) => ({ dialogId, message, actions: spec.actions }));
+    return { scanned: recent.length, matches };
+  }
+
+  runs(filter: { ruleId?: string; dialogId?: string }, limit: number): RuleRun[] {
+    return this.cache.getRuleRuns(filter, limit);
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private async run(event: Extract<SequencedEvent, { type: 'newMessage' }>): Promise<void> {
+    const { dialogId, message } = event;
+    if (this.sent.has(`${dialogId}:${message.id}`)) return;
+    const now = Math.floor(Date.now() / 1000);
+    for (const entry of this.compiled) {
+      if (this.stopped) return;
+      const { rule } = entry;
+      if (!entry.matches(dialogId, message)) continue;
+      const { cooldown } = rule.conditions;
+      if (cooldown) {
+        const last = this.cache.getLastRuleRun(rule.id, dialogId);
+        if (last !== null && now - last < cooldown) continue;
+      }
+
+      const results: RuleActionResult[] = [];
+      for (const action of rule.actions) {
+        try {
+          await this.perform(action, event);
+          results.push({ type: action.type, ok: true });
+        } catch (err: unknown) {
+          results.push({ type: action.type, ok: false, error: (err as Error).message || String(err) });
+        }
+      }
+      const status = results.every((result) => result.ok) ? 'ok' : 'failed';
+      if (status === 'failed') console.error(`[rules] "${rule.name}" failed on ${dialogId}/${message.id}`);
+      try {
+        const id = this.cache.insertRuleRun({ ruleId: rule.id, dialogId, messageId: message.id, status, actions: results, createdAt: now });
+        if (id % RUN_LOG_SIZE === 0) this.cache.pruneRuleRuns(RUN_LOG_SIZE);
+      } catch (e) { console.error('[rules] log error:', e); }
+    }
+  }
+
+  private async perform(action: RuleAction, event: Extract<SequencedEvent, { type: 'newMessage' }>): Promise<void> {
+    const { dialogId, message } = event;
+    switch (action.type) {
+      case 'reply': {
+        const { type: _type, text, quote, ...options } = action;
+        const sent = await this.target.sendMessage(dialogId, text, quote === false ? undefined : message.id, options);
+        this.remember(dialogId, [sent]);
+        return;
+      }
+      case 'forward':
+        this.remember(action.toDialogId, await this.target.forwardMessages(dialogId, action.toDialogId, [message.id]));
+        return;
+      case 'react': {
+        const { type: _type, ...reaction } = action;
+        await this.target.addReaction(dialogId, message.id, reaction);
+        return;
+      }
+      case 'markRead':
+        return this.target.markAsRead(dialogId, message.id);
+      case 'mute':
+        return this.target.muteChat(dialogId, action.duration ?? 0);
+      case 'webhook':
+        if (!this.sendToWebhook(action.webhookId, event)) throw new Error(`Unknown webhook ${action.webhookId}`);
+        return;
+    }
+  }
+
+  private remember(dialogId: string, messages: MessageInfo[]): void {
+    for (const message of messages) this.sent.add(`${dialogId}:${message.id}`);
+    // Sets iterate in insertion order: drop the oldest
+    for (const key of this.sent) {
+      if (this.sent.size <= SENT_MEMORY) break;
+      this.sent.delete(key);
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Api, TelegramClient } from 'telegram';
+import { floodWaitSeconds } from './backfill';
+
+/**
+ * Request scheduler.
+ *
+ * Every `invoke` of an account's TelegramClient goes through here. A token
+ * bucket per method, and one shared by all methods, keeps polling surfaces
+ * from running into FLOOD_WAIT in the first place. Identical reads that are
+ * already queued or in flight are answered by the same request. A FLOOD_WAIT
+ * holds that method until it expires and the request is retried then, unless
+ * the wait is longer than `maxFloodWait`. Sends go out before anything else
+ * queued, and background work (backfill, cache refreshes) after everything.
+ *
+ * Downloaded file parts skip the buckets, since bandwidth limits them anyway,
+ * but still wait out a FLOOD_WAIT here. Uploaded parts never reach `invoke`.
+ */
+
+export type Lane = 'interactive' | 'normal' | 'background';
+
+/** Dispatch order */
+const LANES: Lane[] = ['interactive', 'normal', 'background'];
+
+export interface RateLimit {
+  /** Requests per second, sustained */
+  rate: number;
+  /** Requests allowed at once after a quiet spell */
+  burst: number;
+}
+
+export interface SchedulerOptions {
+  /** Longest FLOOD_WAIT, in seconds, that is waited out and retried; longer ones fail */
+  maxFloodWait: number;
+  /** Limits by TL method name, e.g. `messages.GetHistory`; `*` is the limit across all methods */
+  limits: Record<string, RateLimit>;
+}
+
+/** Telegram doesn't publish its limits; these stay clear of them in practice. */
+export const DEFAULT_LIMITS: Record<string, RateLimit> = {
+  '*': { rate: 30, burst: 30 },
+  'messages.GetDialogs': { rate: 1, burst: 3 },
+  'messages.GetHistory': { rate: 5, burst: 10 },
+  'messages.Search': { rate: 2, burst: 5 },
+  'messages.SearchGlobal': { rate: 1, burst: 3 },
+  'contacts.Search': { rate: 0.5, burst: 3 },
+  'contacts.ResolveUsername': { rate: 0.2, burst: 3 },
+};
+const DEFAULT_METHOD_LIMIT: RateLimit = { rate: 10, burst: 20 };
+
+/** Paced by bandwidth rather than request count */
+const UNMETERED_METHODS = new Set(['upload.GetFile', 'upload.GetCdnFile']);
+
+/** Calls a user is waiting on; they skip ahead of reads and background work. */
+const INTERACTIVE_METHODS = new Set([
+  'messages.SendMessage',
+  'messages.SendMedia',
+  'messages.SendMultiMedia',
+  'messages.ForwardMessages',
+  'messages.EditMessage',
+  'messages.DeleteMessages',
+  'channels.DeleteMessages',
+  'messages.SendReaction',
+  'messages.SendVote',
+  'messages.GetBotCallbackAnswer',
+  'messages.SetTyping',
+  'messages.ReadHistory',
+  'channels.ReadHistory',
+]);
+
+/** Reads whose identical twins can share one response */
+const COALESCED_METHOD = /^(Get|Search|Resolve|Check)/;
+
+/** Queue waits kept per lane for the averages on /health */
+const WAIT_SAMPLES = 100;
+
+export interface LaneStats {
+  queued: number;
+  /** Milliseconds requests waited before being sent, over the last 100 */
+  avgWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface SchedulerStats {
+  inFlight: number;
+  /** Requests answered by an identical one already on its way */
+  coalesced: number;
+  /** FLOOD_WAIT errors Telegram returned */
+  floodWaits: number;
+  lanes: Record<Lane, LaneStats>;
+  /** Methods on hold, with the Unix second their FLOOD_WAIT ends */
+  floodWaitUntil: Record<string, number>;
+}
+
+/** A FLOOD_WAIT longer than the scheduler waits out. The API answers 429 with Retry-After. */
+export class FloodWaitError extends Error {
+  readonly statusCode = 429;
+  /** What gramJS's flood errors carry, so floodWaitSeconds() recognizes this one too */
+  readonly errorMessage = 'FLOOD';
+
+  constructor(readonly method: string, readonly seconds: number) {
+    super(`Telegram rate limit: ${method} is unavailable for ${seconds}s`);
+  }
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  /** Milliseconds until a token is free */
+  wait(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.limit.rate) * 1000);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.rate);
+    this.updatedAt = now;
+  }
+}
+
+interface Pending {
+  method: string;
+  lane: Lane;
+  queuedAt: number;
+  send: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+}
+
+export class RequestScheduler {
+  private limits: Record<string, RateLimit>;
+  private queues: Record<Lane, Pending[]> = { interactive: [], normal: [], background: [] };
+  private waits: Record<Lane, number[]> = { interactive: [], normal: [], background: [] };
+  private buckets = new Map<string, TokenBucket>();
+  /** Method -> ms timestamp its FLOOD_WAIT ends */
+  private blockedUntil = new Map<string, number>();
+  /** Coalescing key -> the request answering it */
+  private shared = new Map<string, Promise<unknown>>();
+  private lane = new AsyncLocalStorage<Lane>();
+  private attached = new WeakSet<TelegramClient>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = 0;
+  private coalesced = 0;
+  private floodWaits = 0;
+
+  constructor(private options: SchedulerOptions) {
+    this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+  }
+
+  /** Route a client's requests through the scheduler, and have gramJS hand every FLOOD_WAIT to it. */
+  attach(client: TelegramClient): void {
+    if (this.attached.has(client)) return;
+    this.attached.add(client);
+    client.floodSleepThreshold = 0;
+    const invoke = client.invoke.bind(client);
+    const invokeWithSender = client.invokeWithSender.bind(client);
+    client.invoke = ((request: Api.AnyRequest, dcId?: number) =>
+      this.schedule(request, () => invoke(request, dcId))) as typeof client.invoke;
+    client.invokeWithSender = ((request: Api.AnyRequest, sender?: Parameters<typeof invokeWithSender>[1]) =>
+      this.schedule(request, () => invokeWithSender(request, sender))) as typeof client.invokeWithSender;
+  }
+
+  /** Run `fn` with the requests it makes queued in `lane` (sends stay interactive). */
+  runIn<T>(lane: Lane, fn: () => Promise<T>): Promise<T> {
+    return this.lane.run(lane, fn);
+  }
+
+  schedule<T>(request: Api.AnyRequest, send: () => Promise<T>): Promise<T> {
+    const method = request.className;
+    const key = coalescingKey(request);
+    const existing = key ? this.shared.get(key) : undefined;
+    if (existing) {
+      this.coalesced++;
+      return existing as Promise<T>;
+    }
+
+    const lane = INTERACTIVE_METHODS.has(method) ? 'interactive' : this.lane.getStore() ?? 'normal';
+    const promise = new Promise<T>((resolve, reject) => {
+      const blocked = Math.ceil(((this.blockedUntil.get(method) ?? 0) - Date.now()) / 1000);
+      if (blocked > this.options.maxFloodWait) {
+        reject(new FloodWaitError(method, blocked));
+        return;
+      }
+      this.queues[lane].push({ method, lane, queuedAt: Date.now(), send, resolve: resolve as (value: unknown) => void, reject });
+      this.pump();
+    });
+    if (key) {
+      this.shared.set(key, promise);
+      const done = () => { this.shared.delete(key); };
+      promise.then(done, done);
+    }
+    return promise;
+  }
+
+  getStats(): SchedulerStats {
+    const now = Date.now();
+    const lanes = {} as Record<Lane, LaneStats>;
+    for (const lane of LANES) {
+      const waits = this.waits[lane];
+      lanes[lane] = {
+        queued: this.queues[lane].length,
+        avgWaitMs: waits.length ? Math.round(waits.reduce((sum, ms) => sum + ms, 0) / waits.length) : 0,
+        maxWaitMs: waits.length ? Math.max(...waits) : 0,
+      };
+    }
+    const floodWaitUntil: Record<string, number> = {};
+    for (const [method, until] of this.blockedUntil) {
+      if (until > now) floodWaitUntil[method] = Math.ceil(until / 1000);
+    }
+    return { inFlight: this.inFlight, coalesced: this.coalesced, floodWaits: this.floodWaits, lanes, floodWaitUntil };
+  }
+
+  /** Send everything whose buckets allow it, highest lane first, and wake up when the next one can go. */
+  private pump(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const now = Date.now();
+    let next = Infinity;
+    for (const lane of LANES) {
+      const queue = this.queues[lane];
+      for (let i = 0; i < queue.length;) {
+        const item = queue[i];
+        const readyAt = this.readyAt(item.method, now);
+        if (readyAt > now) {
+          next = Math.min(next, readyAt);
+          i++;
+          continue;
+        }
+        queue.splice(i, 1);
+        if (!UNMETERED_METHODS.has(item.method)) {
+          this.bucket('*').take(now);
+          this.bucket(item.method).take(now);
+        }
+        this.dispatch(item, now);
+      }
+    }
+    if (next < Infinity) this.timer = setTimeout(() => this.pump(), next - now);
+  }
+
+  private readyAt(method: string, now: number): number {
+    const blocked = this.blockedUntil.get(method) ?? 0;
+    if (blocked && blocked <= now) this.blockedUntil.delete(method);
+    if (UNMETERED_METHODS.has(method)) return blocked;
+    return Math.max(blocked, now + this.bucket('*').wait(now), now + this.bucket(method).wait(now));
+  }
+
+  private bucket(method: string): TokenBucket {
+    let bucket = this.buckets.get(method);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits[method] ?? DEFAULT_METHOD_LIMIT);
+      this.buckets.set(method, bucket);
+    }
+    return bucket;
+  }
+
+  private async dispatch(item: Pending, now: number): Promise<void> {
+    const waits = this.waits[item.lane];
+    waits.push(now - item.queuedAt);
+    if (waits.length > WAIT_SAMPLES) waits.shift();
+
+    this.inFlight++;
+    try {
+      // Requests gramJS makes while sending (resolving entities) keep the lane
+      item.resolve(await this.lane.run(item.lane, item.send));
+    } catch (err: unknown) {
+      const seconds = floodWaitSeconds(err);
+      if (seconds === null) {
+        item.reject(err);
+        return;
+      }
+      this.floodWaits++;
+      this.blockedUntil.set(item.method, Date.now() + seconds * 1000);
+      if (seconds > this.options.maxFloodWait) {
+        item.reject(new FloodWaitError(item.method, seconds));
+      } else {
+        console.log(`[scheduler] FLOOD_WAIT ${seconds}s on ${item.method}, retrying then`);
+        this.queues[item.lane].unshift(item);
+      }
+    } finally {
+      this.inFlight--;
+      this.pump();
+    }
+  }
+}
+
+/** Same method, same serialized arguments. Null for writes and for requests gramJS still has to resolve. */
+function coalescingKey(request: Api.AnyRequest): string | null {
+  const method = request.className;
+  const name = method.slice(method.indexOf('.') + 1);
+  if (!COALESCED_METHOD.test(name) || INTERACTIVE_METHODS.has(method) || method.startsWith('updates.')) return null;
+  try {
+    return `${method}:${request.getBytes().toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
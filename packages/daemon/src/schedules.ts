@@ -0,0 +1,320 @@
+import * as crypto from 'crypto';
+import type { Cache as CacheType } from './cache';
+import type { SequencedEvent, TelegramService } from './telegram';
+import { CronExpression, isValidTimeZone, nextCronRun, parseCron } from './cron';
+import { FormatOptions, parseSendOptions } from './formatting';
+
+/**
+ * Local scheduled messages.
+ *
+ * Telegram's own scheduling (`scheduleDate`) sends a message once. These
+ * repeat on a cron expression in a time zone, or wait for the recipient of a
+ * private chat to come online and send once. They are kept in the account's
+ * cache and sent by the daemon, through the outbox while Telegram is
+ * disconnected. Each run has its own clientMsgId, so a run retried after a
+ * crash isn't sent twice.
+ *
+ * A run more than MISSED_AFTER late was missed: the daemon was stopped or the
+ * machine asleep when it was due. The schedule's `missed` policy decides what
+ * happens then: `skip` drops missed runs, `once` sends one message for all of
+ * them, `all` sends each (at most MAX_CATCH_UP).
+ */
+
+export type MissedRunPolicy = 'skip' | 'once' | 'all';
+
+export type ScheduleStatus = 'active' | 'paused' | 'done';
+
+export interface ScheduleSpec extends FormatOptions {
+  name?: string;
+  dialogId: string;
+  text: string;
+  silent?: boolean;
+  /** Five-field cron expression; not with `whenOnline` */
+  cron?: string;
+  /** IANA time zone the cron expression is read in; the daemon's own by default */
+  timeZone?: string;
+  /** Send once, when the user of this private chat next comes online */
+  whenOnline?: boolean;
+  missed: MissedRunPolicy;
+}
+
+export interface Schedule extends ScheduleSpec {
+  id: string;
+  /** `done` once a `whenOnline` message is sent */
+  status: ScheduleStatus;
+  /** Unix seconds; active cron schedules only */
+  nextRunAt?: number;
+  lastRunAt?: number;
+  /** Why the last run failed */
+  lastError?: string;
+  runCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What messages are sent with */
+export type ScheduleTarget = Pick<TelegramService, 'shouldQueueSend' | 'queueSend' | 'sendOnce' | 'sendMessage'>;
+
+const MISSED_POLICIES: MissedRunPolicy[] = ['skip', 'once', 'all'];
+/** Seconds late a run can be and still count as on time */
+const MISSED_AFTER = 60;
+/** Most missed runs sent under the `all` policy */
+const MAX_CATCH_UP = 10;
+/** Longest timer; setTimeout can't wait past ~24 days, and the clock may be changed meanwhile */
+const MAX_TIMER_MS = 3600_000;
+
+/**
+ * Validate a schedule from request input. With `base`, the input changes that
+ * schedule: fields left out are kept, and giving `cron` or `whenOnline`
+ * replaces the other. Throws an Error saying what is wrong.
+ */
+export function parseSchedule(input: object, base?: ScheduleSpec): ScheduleSpec {
+  const changes = input as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...base, ...changes };
+  // Entities index into the old text
+  if (base && changes.text !== undefined && changes.entities === undefined) delete merged.entities;
+  if (base && changes.cron !== undefined) delete merged.whenOnline;
+  if (base && changes.whenOnline) {
+    delete merged.cron;
+    delete merged.timeZone;
+  }
+  const { name, dialogId, text, cron, timeZone, whenOnline, missed = 'skip' } = merged;
+
+  if (typeof dialogId !== 'string' || !dialogId) throw new Error('dialogId is required');
+  if (typeof text !== 'string' || !text) throw new Error('text is required');
+  const spec: ScheduleSpec = { dialogId, text, missed: missed as MissedRunPolicy };
+  if (name !== undefined) {
+    if (typeof name !== 'string') throw new Error('name must be a string');
+    if (name) spec.name = name;
+  }
+  Object.assign(spec, parseSendOptions({
+    parseMode: merged.parseMode, entities: merged.entities, noWebpage: merged.noWebpage, silent: merged.silent,
+  }, text));
+
+  if (whenOnline) {
+    if (cron !== undefined) throw new Error('Give cron or whenOnline, not both');
+    if (timeZone !== undefined) throw new Error('timeZone needs cron');
+    if (!/^\d+$/.test(dialogId)) throw new Error('whenOnline needs a private chat: dialogId must be a user id');
+    spec.whenOnline = true;
+  } else {
+    if (typeof cron !== 'string' || !cron.trim()) throw new Error('cron or whenOnline is required');
+    if (timeZone !== undefined) {
+      if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) throw new Error('timeZone must be an IANA time zone');
+      spec.timeZone = timeZone;
+    }
+    parseCron(cron);
+    spec.cron = cron.trim();
+  }
+  if (!MISSED_POLICIES.includes(spec.missed)) throw new Error(`missed must be one of ${MISSED_POLICIES.join(', ')}`);
+  return spec;
+}
+
+/** The runs of `cron` from `first` through `now`, at most `limit` of them */
+function runsThrough(cron: CronExpression, first: number, now: number, limit: number, timeZone?: string): number[] {
+  const runs: number[] = [];
+  for (let t: number | null = first; t !== null && t <= now && runs.length < limit; t = nextCronRun(cron, t, timeZone)) {
+    runs.push(t);
+  }
+  return runs;
+}
+
+/** One account's scheduled messages: sends them when due and keeps their state in the cache. */
+export class ScheduleRunner {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private runAgain = false;
+  private stopped = false;
+
+  constructor(private cache: CacheType, private target: ScheduleTarget) {
+    // Runs missed while the daemon was stopped are dealt with right away
+    this.run();
+  }
+
+  list(): Schedule[] {
+    return this.cache.getSchedules();
+  }
+
+  get(id: string): Schedule | null {
+    return this.cache.getSchedule(id);
+  }
+
+  create(spec: ScheduleSpec): Schedule {
+    const now = Math.floor(Date.now() / 1000);
+    const schedule: Schedule = {
+      ...spec, id: crypto.randomUUID(), status: 'active', runCount: 0, createdAt: now, updatedAt: now,
+    };
+    schedule.nextRunAt = this.nextRun(schedule, now);
+    this.cache.upsertSchedule(schedule);
+    this.reschedule();
+    return schedule;
+  }
+
+  /** Replace a schedule's message and timing. A `whenOnline` one that was sent waits again. */
+  update(id: string, spec: ScheduleSpec): Schedule | null {
+    const existing = this.cache.getSchedule(id);
+    if (!existing) return null;
+    const now = Math.floor(Date.now() / 1000);
+    const { id: _id, status, runCount, lastRunAt, lastError, createdAt } = existing;
+    const schedule: Schedule = {
+      ...spec, id, status: status === 'done' ? 'active' : status, runCount, lastRunAt, lastError, createdAt, updatedAt: now,
+    };
+    schedule.nextRunAt = this.nextRun(schedule, now);
+    this.cache.upsertSchedule(schedule);
+    this.reschedule();
+    return schedule;
+  }
+
+  pause(id: string): Schedule | null {
+    const existing = this.cache.getSchedule(id);
+    if (!existing) return null;
+    if (existing.status !== 'active') return existing;
+    const schedule: Schedule = { ...existing, status: 'paused', nextRunAt: undefined, updatedAt: Math.floor(Date.now() / 1000) };
+    this.cache.upsertSchedule(schedule);
+    this.reschedule();
+    return schedule;
+  }
+
+  /** Start a paused schedule again from now; the runs it would have made while paused are not sent. */
+  resume(id: string): Schedule | null {
+    const existing = this.cache.getSchedule(id);
+    if (!existing) return null;
+    if (existing.status !== 'paused') return existing;
+    const now = Math.floor(Date.now() / 1000);
+    const schedule: Schedule = { ...existing, status: 'active', updatedAt: now };
+    schedule.nextRunAt = this.nextRun(schedule, now);
+    this.cache.upsertSchedule(schedule);
+    this.reschedule();
+    return schedule;
+  }
+
+  remove(id: string): boolean {
+    if (!this.cache.getSchedule(id)) return false;
+    this.cache.deleteSchedule(id);
+    this.reschedule();
+    return true;
+  }
+
+  /** Send the `whenOnline` messages waiting for a user who just came online. */
+  handle(event: SequencedEvent): void {
+    if (event.type !== 'userStatus' || !event.online || this.stopped) return;
+    for (const schedule of this.cache.getSchedules()) {
+      if (schedule.status !== 'active' || !schedule.whenOnline || schedule.dialogId !== event.userId) continue;
+      const now = Math.floor(Date.now() / 1000);
+      // Marked done first, so a second status update meanwhile doesn't send it again
+      this.cache.upsertSchedule({ ...schedule, status: 'done', updatedAt: now });
+      this.send(schedule, `online${schedule.runCount}`)
+        .then((error) => {
+          const current = this.cache.getSchedule(schedule.id);
+          if (!current) return;
+          this.cache.upsertSchedule({
+            ...current,
+            // A failed send waits for the next time they come online
+            status: error ? 'active' : current.status,
+            lastRunAt: now,
+            lastError: error,
+            runCount: current.runCount + (error ? 0 : 1),
+          });
+        })
+        .catch((e) => console.error('[schedules] send error:', e));
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private nextRun(schedule: Schedule, after: number): number | undefined {
+    if (schedule.status !== 'active' || !schedule.cron) return undefined;
+    return nextCronRun(parseCron(schedule.cron), after, schedule.timeZone) ?? undefined;
+  }
+
+  /** Send what is due. A call during a pass makes it run once more. */
+  private run(): void {
+    if (this.stopped) return;
+    if (this.running) {
+      this.runAgain = true;
+      return;
+    }
+    this.running = (async () => {
+      do {
+        this.runAgain = false;
+        await this.runDue();
+      } while (this.runAgain && !this.stopped);
+    })()
+      .catch((e) => console.error('[schedules] run error:', e))
+      .finally(() => {
+        this.running = null;
+        this.reschedule();
+      });
+  }
+
+  private async runDue(): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    for (const schedule of this.cache.getSchedules()) {
+      if (this.stopped) return;
+      if (schedule.status !== 'active' || !schedule.cron || !schedule.nextRunAt || schedule.nextRunAt > now) continue;
+      const cron = parseCron(schedule.cron);
+
+      let runs = [schedule.nextRunAt];
+      if (now - schedule.nextRunAt > MISSED_AFTER) {
+        const missed = runsThrough(cron, schedule.nextRunAt, now, MAX_CATCH_UP, schedule.timeZone);
+        runs = schedule.missed === 'all' ? missed : schedule.missed === 'once' ? missed.slice(-1) : [];
+        console.log(`[schedules] ${schedule.name || schedule.id} missed runs since ${schedule.nextRunAt}; policy ${schedule.missed}`);
+      }
+
+      let lastError: string | undefined;
+      let sent = 0;
+      for (const runAt of runs) {
+        lastError = await this.send(schedule, runAt);
+        if (!lastError) sent++;
+      }
+      const current = this.cache.getSchedule(schedule.id);
+      // Changed or removed while sending; its new state stands
+      if (!current || current.updatedAt !== schedule.updatedAt) continue;
+      this.cache.upsertSchedule({
+        ...current,
+        nextRunAt: nextCronRun(cron, now, schedule.timeZone) ?? undefined,
+        lastRunAt: runs.length ? now : current.lastRunAt,
+        lastError: runs.length ? lastError : current.lastError,
+        runCount: current.runCount + sent,
+      });
+    }
+  }
+
+  /**
+   * Send or queue one run; `run` tells it apart from the schedule's other runs
+   * and makes it safe to retry. Resolves to the error, if it failed.
+   */
+  private async send(schedule: Schedule, run: string | number): Promise<string | undefined> {
+    const { dialogId, text, parseMode, entities, noWebpage, silent } = schedule;
+    const options = { parseMode, entities, noWebpage, silent };
+    const clientMsgId = `schedule:${schedule.id}:${run}`;
+    try {
+      if (this.target.shouldQueueSend(clientMsgId)) {
+        this.target.queueSend(dialogId, 'message', { text, options }, clientMsgId);
+      } else {
+        await this.target.sendOnce(clientMsgId, dialogId, () => this.target.sendMessage(dialogId, text, undefined, options));
+      }
+      return undefined;
+    } catch (err: unknown) {
+      const error = (err as Error).message || String(err);
+      console.error(`[schedules] ${schedule.name || schedule.id} failed:`, error);
+      return error;
+    }
+  }
+
+  private reschedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.stopped) return;
+    const due = this.cache.getSchedules()
+      .filter((schedule) => schedule.status === 'active' && schedule.nextRunAt)
+      .map((schedule) => schedule.nextRunAt!);
+    if (!due.length) return;
+    const delay = Math.min(Math.max(0, Math.min(...due) * 1000 - Date.now()), MAX_TIMER_MS);
+    this.timer = setTimeout(() => { this.timer = null; this.run(); }, delay);
+    this.timer.unref();
+  }
+}
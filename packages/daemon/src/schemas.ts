@@ -0,0 +1,1558 @@
+import { routeKey } from './tokens';
+
+/**
+ * JSON Schemas for every route, keyed by `METHOD path` like the scope table in
+ * tokens.ts. The server attaches them when routes are registered, so Fastify
+ * validates params, query strings and JSON bodies before a handler runs, and
+ * `/openapi.json` is built from the same table.
+ *
+ * Path and query values arrive as text, and the handlers parse them, so
+ * integer ones are strings matching INTEGER_PATTERN here; the OpenAPI document
+ * shows them as integers. Responses are documentation only: they are not used
+ * to serialize replies, which would drop fields missing from them.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteSchema {
+  operationId: string;
+  summary: string;
+  tag: string;
+  description?: string;
+  params?: JsonSchema;
+  querystring?: JsonSchema;
+  /** JSON body */
+  body?: JsonSchema;
+  /** The body may instead be multipart/form-data: `file` parts beside these text fields */
+  multipart?: { fields: JsonSchema; files: 'one' | 'many' };
+  /** The body is raw bytes (application/octet-stream) */
+  binaryBody?: boolean;
+  /** Success responses by status code. A string is a media type of a non-JSON body. */
+  responses: Record<number, JsonSchema | string>;
+  /** Served once for all accounts, not under `/accounts/:accountId` */
+  root?: boolean;
+  /** Needs no API token */
+  public?: boolean;
+  /** A WebSocket endpoint */
+  websocket?: boolean;
+  /** Left out of the OpenAPI document */
+  hidden?: boolean;
+}
+
+/** Integer path and query values, which stay strings until the handler parses them */
+export const INTEGER_PATTERN = '^-?[0-9]+$';
+
+// --- Schema helpers ---
+
+const withDescription = (schema: JsonSchema, description?: string): JsonSchema =>
+  description ? { ...schema, description } : schema;
+
+const string = (description?: string): JsonSchema => withDescription({ type: 'string' }, description);
+const integer = (description?: string): JsonSchema => withDescription({ type: 'integer' }, description);
+const number = (description?: string): JsonSchema => withDescription({ type: 'number' }, description);
+const boolean = (description?: string): JsonSchema => withDescription({ type: 'boolean' }, description);
+const intString = (description?: string): JsonSchema => withDescription({ type: 'string', pattern: INTEGER_PATTERN }, description);
+const oneOf = (values: string[], description?: string): JsonSchema => withDescription({ type: 'string', enum: values }, description);
+const array = (items: JsonSchema, description?: string): JsonSchema => withDescription({ type: 'array', items }, description);
+const nullableArray = (items: JsonSchema, description?: string): JsonSchema =>
+  withDescription({ type: ['array', 'null'], items }, description);
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const map = (values: JsonSchema, description?: string): JsonSchema =>
+  withDescription({ type: 'object', additionalProperties: values }, description);
+
+function object(properties: Record<string, JsonSchema>, required: string[] = [], description?: string): JsonSchema {
+  const schema: JsonSchema = { type: 'object', properties };
+  if (required.length) schema.required = required;
+  return withDescription(schema, description);
+}
+
+/** A body that may be left out */
+const optional = (schema: JsonSchema): JsonSchema => ({ ...schema, type: ['object', 'null'] });
+
+/** Any JSON object; the handler passes through what Telegram returned */
+const anyObject = (description?: string): JsonSchema => withDescription({ type: 'object', additionalProperties: true }, description);
+
+const OK = ref('Ok');
+const MESSAGE = ref('MessageInfo');
+const MESSAGES = array(ref('MessageInfo'));
+
+// --- Shared request parts ---
+
+const dialogParams = object({ dialogId: string('Chat id; `chatId:topicId` for a forum topic') }, ['dialogId']);
+const messageParams = object({ messageId: intString('Message id') }, ['messageId']);
+const webhookParams = object({ webhookId: string() }, ['webhookId']);
+const ruleParams = object({ ruleId: string() }, ['ruleId']);
+const scheduleParams = object({ scheduleId: string() }, ['scheduleId']);
+
+const memberParams = object({ dialogId: string(), userId: string() }, ['dialogId', 'userId']);
+const topicParams = object({ dialogId: string(), topicId: intString() }, ['dialogId', 'topicId']);
+const dialogIdBody = object({ dialogId: string() }, ['dialogId']);
+const dialogIdQuery = object({ dialogId: string() }, ['dialogId']);
+const reactionFields = {
+  emoji: string('Unicode emoji'),
+  customEmojiId: string('Custom emoji document id'),
+};
+
+const messageEntity = object({
+  type: oneOf([
+    'bold', 'italic', 'underline', 'strikethrough', 'spoiler', 'code', 'pre', 'blockquote',
+    'url', 'text_link', 'email', 'phone', 'mention', 'mention_name', 'hashtag', 'cashtag',
+    'bot_command', 'bank_card', 'custom_emoji',
+  ]),
+  offset: integer('UTF-16 code units, like JavaScript strings'),
+  length: integer(),
+  url: string('text_link target'),
+  language: string('pre block language'),
+  userId: string('mention_name target'),
+  customEmojiId: string('custom_emoji document id'),
+  collapsed: boolean('blockquote shown collapsed'),
+}, ['type', 'offset', 'length']);
+
+const formatFields = {
+  parseMode: oneOf(['markdown', 'html'], 'How to read formatting in the text. Plain text without it.'),
+  entities: array(messageEntity, 'Formatting as entities, instead of parseMode'),
+  noWebpage: boolean('Send without a link preview'),
+};
+
+const sendFields = {
+  ...formatFields,
+  silent: boolean('Send without notification'),
+  sendAs: string('Channel or group to send as'),
+  topMsgId: integer('Forum topic to send to'),
+  quoteText: string('Part of the replied-to message to quote; needs replyTo'),
+};
+
+const ruleTrigger = object({
+  dialogIds: array(string(), 'A forum chat id covers its topics'),
+  folderIds: array(integer()),
+  senderIds: array(string()),
+  pattern: string('Regular expression the text must match'),
+  caseSensitive: boolean(),
+  mediaTypes: array(oneOf(['photo', 'video', 'voice', 'file', 'sticker', 'gif', 'poll', 'geo', 'contact', 'none'])),
+});
+
+const ruleConditions = object({
+  notFromMe: boolean(),
+  timeWindow: object({
+    start: string('HH:MM'),
+    end: string('HH:MM; before start runs past midnight'),
+    days: array(integer(), 'Days of the week, 0 for Sunday'),
+    timeZone: string('IANA time zone; the daemon\'s own by default'),
+  }, ['start', 'end']),
+  cooldown: integer('Seconds before the rule runs again in the same dialog'),
+});
+
+const ruleAction = object({
+  type: oneOf(['reply', 'forward', 'react', 'markRead', 'mute', 'webhook']),
+  text: string('reply'),
+  quote: boolean('reply: reply to the message (default) or just send'),
+  ...formatFields,
+  silent: boolean(),
+  toDialogId: string('forward'),
+  ...reactionFields,
+  duration: integer('mute: seconds; 0 or left out mutes for good'),
+  webhookId: string('webhook: queued for it whatever its filters'),
+}, ['type']);
+
+const ruleBody = (required: string[] = []): JsonSchema => object({
+  name: string(),
+  enabled: boolean('Default true'),
+  trigger: ruleTrigger,
+  conditions: ruleConditions,
+  actions: array(ruleAction),
+}, required);
+
+const ruleTestFields = {
+  dialogId: string('Only this dialog\'s messages'),
+  limit: integer('Messages to look at, newest first (default 200, at most 1000)'),
+};
+
+const scheduleFields = {
+  name: string(),
+  dialogId: string('Chat id; `chatId:topicId` for a forum topic'),
+  text: string(),
+  ...formatFields,
+  silent: boolean('Send without notification'),
+  cron: string('minute hour day month weekday, or @daily etc.; not with whenOnline'),
+  timeZone: string('IANA time zone the cron expression is read in; the daemon\'s own by default'),
+  whenOnline: boolean('Send once, when the user of this private chat next comes online'),
+  missed: oneOf(['skip', 'once', 'all'], 'Runs missed while the daemon was stopped: drop them (default), send one, or send each'),
+};
+
+const clientMsgId = string('Client-chosen id that makes a retried send safe (1-128 chars); also the Idempotency-Key header');
+
+const uploadFields = {
+  data: string('File contents, base64'),
+  uploadId: string('A completed chunked upload'),
+  fileName: string(),
+  mimeType: string(),
+};
+
+const limitQuery = (description?: string) => intString(description);
+
+// --- Components ---
+
+/** Response shapes, shared between routes and named in the OpenAPI document */
+export const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Ok: object({ ok: { type: 'boolean', const: true } }, ['ok']),
+  ErrorResponse: object({
+    error: string(),
+    statusCode: integer(),
+    loginUrl: string('Set on 503 when the account needs to log in'),
+  }, ['error']),
+  MessageEntity: messageEntity,
+  DialogInfo: object({
+    id: string('Chat id, or `chatId:topicId` for a forum topic'),
+    chatId: string(),
+    topicId: integer(),
+    name: string(),
+    lastMessage: string(),
+    lastMessageTime: integer(),
+    lastMessageOutgoing: boolean(),
+    lastOutgoingTime: integer(),
+    unreadCount: integer(),
+    isForum: boolean(),
+    groupName: string(),
+    topicName: string(),
+    hasPhoto: boolean(),
+    type: oneOf(['user', 'group', 'supergroup', 'channel']),
+  }, ['id', 'chatId', 'name', 'lastMessage', 'lastMessageTime', 'unreadCount', 'isForum']),
+  DialogDetails: object({
+    id: string(),
+    name: string(),
+    type: oneOf(['user', 'group', 'supergroup', 'channel']),
+    about: string('Bio of a user, description of a group or channel'),
+    memberCount: integer(),
+    username: string(),
+    isForum: boolean(),
+    isVerified: boolean(),
+  }, ['id', 'name', 'type']),
+  MessageInfo: object({
+    id: integer(),
+    senderId: string(),
+    senderName: string(),
+    text: string(),
+    timestamp: integer(),
+    isOutgoing: boolean(),
+    mediaType: oneOf(['photo', 'video', 'voice', 'file', 'sticker', 'gif', 'poll', 'geo', 'contact']),
+    mediaWidth: integer(),
+    mediaHeight: integer(),
+    mediaDuration: number(),
+    mediaMimeType: string(),
+    fileName: string(),
+    fileSize: integer(),
+    replyToId: integer(),
+    forwardFrom: string(),
+    isEdited: boolean(),
+    reactions: array(ref('ReactionCount')),
+    entities: array(ref('MessageEntity')),
+    linkPreview: ref('LinkPreview'),
+    poll: ref('PollInfo'),
+    geo: ref('GeoInfo'),
+    contact: ref('ContactInfo'),
+    action: ref('ServiceAction'),
+    replyMarkup: ref('ReplyMarkup'),
+    groupedId: string('Shared by the messages of one album'),
+  }, ['id', 'senderId', 'senderName', 'text', 'timestamp', 'isOutgoing']),
+  LinkPreview: object({
+    url: string(),
+    displayUrl: string(),
+    type: string(),
+    siteName: string(),
+    title: string(),
+    description: string(),
+    author: string(),
+    hasPhoto: boolean(),
+  }, ['url']),
+  PollAnswer: object({
+    text: string(),
+    option: string('Base64 option id, used to vote'),
+    voters: integer(),
+    chosen: boolean(),
+    correct: boolean(),
+  }, ['text', 'option']),
+  PollInfo: object({
+    id: string(),
+    question: string(),
+    answers: array(ref('PollAnswer')),
+    closed: boolean(),
+    quiz: boolean(),
+    multipleChoice: boolean(),
+    publicVoters: boolean(),
+    totalVoters: integer(),
+    closeDate: integer(),
+    solution: string(),
+  }, ['id', 'question', 'answers', 'closed', 'quiz', 'multipleChoice', 'publicVoters']),
+  GeoInfo: object({
+    lat: number(),
+    long: number(),
+    accuracyRadius: integer(),
+    title: string(),
+    address: string(),
+    livePeriod: integer(),
+    heading: integer(),
+  }, ['lat', 'long']),
+  ContactInfo: object({
+    phoneNumber: string(),
+    firstName: string(),
+    lastName: string(),
+    userId: string(),
+    vcard: string(),
+  }, ['phoneNumber', 'firstName']),
+  ServiceAction: object({
+    type: string('gramJS action name without the `MessageAction` prefix, e.g. `chatAddUser`'),
+    userIds: array(string()),
+    title: string(),
+    messageId: integer(),
+    duration: integer(),
+    period: integer(),
+    text: string(),
+  }, ['type']),
+  KeyboardButton: object({
+    type: oneOf([
+      'text', 'callback', 'url', 'urlAuth', 'switchInline', 'game', 'buy', 'requestPhone',
+      'requestGeoLocation', 'requestPoll', 'requestPeer', 'userProfile', 'webView', 'copy',
+    ]),
+    text: string(),
+    data: string('Base64 callback data'),
+    url: string(),
+    query: string(),
+    samePeer: boolean(),
+    userId: string(),
+    copyText: string(),
+    requiresPassword: boolean(),
+  }, ['type', 'text']),
+  ReplyMarkup: object({
+    type: oneOf(['inline', 'keyboard', 'hide', 'forceReply']),
+    rows: array(array(ref('KeyboardButton'))),
+    resize: boolean(),
+    singleUse: boolean(),
+    placeholder: string(),
+  }, ['type']),
+  Reaction: object({ emoji: string(), customEmojiId: string(), paid: boolean() }),
+  ReactionCount: object({
+    emoji: string(),
+    customEmojiId: string(),
+    paid: boolean(),
+    count: integer(),
+    isSelected: boolean(),
+  }, ['emoji', 'count']),
+  ReactionList: object({
+    count: integer(),
+    reactors: array(object({
+      peerId: string(),
+      name: string(),
+      reaction: ref('Reaction'),
+      date: integer(),
+      big: boolean(),
+      unread: boolean(),
+      my: boolean(),
+    }, ['peerId', 'name', 'reaction', 'date'])),
+    nextOffset: string(),
+  }, ['count', 'reactors']),
+  AllowedReactions: object({
+    mode: oneOf(['all', 'some', 'none']),
+    reactions: array(ref('Reaction')),
+    allowCustom: boolean(),
+    limit: integer(),
+  }, ['mode', 'reactions']),
+  PollVoteList: object({
+    count: integer(),
+    votes: array(object({
+      peerId: string(),
+      name: string(),
+      options: array(string()),
+      date: integer(),
+    }, ['peerId', 'name', 'options', 'date'])),
+    nextOffset: string(),
+  }, ['count', 'votes']),
+  OutboxEntry: object({
+    clientMsgId: string(),
+    dialogId: string(),
+    kind: oneOf(['message', 'file', 'voice']),
+    status: oneOf(['queued', 'failed']),
+    payload: anyObject('The send, without file contents'),
+    error: string(),
+    attempts: integer(),
+    createdAt: integer(),
+    updatedAt: integer(),
+  }, ['clientMsgId', 'dialogId', 'kind', 'status', 'payload', 'attempts', 'createdAt', 'updatedAt']),
+  Webhook: object({
+    id: string(),
+    url: string(),
+    eventTypes: array(string(), 'Only these event types; transient ones are only sent when listed'),
+    dialogIds: array(string()),
+    folderIds: array(integer()),
+    createdAt: integer(),
+  }, ['id', 'url', 'createdAt']),
+  CreatedWebhook: object({
+    id: string(),
+    url: string(),
+    eventTypes: array(string()),
+    dialogIds: array(string()),
+    folderIds: array(integer()),
+    createdAt: integer(),
+    secret: string('Signing secret; only returned here'),
+  }, ['id', 'url', 'createdAt', 'secret']),
+  WebhookDelivery: object({
+    id: string('Also sent as X-Oceangram-Delivery'),
+    webhookId: string(),
+    event: anyObject('The event, as `/events` sends it'),
+    status: oneOf(['pending', 'dead']),
+    attempts: integer(),
+    nextAttemptAt: integer(),
+    error: string('Why the last attempt failed'),
+    createdAt: integer(),
+    updatedAt: integer(),
+  }, ['id', 'webhookId', 'event', 'status', 'attempts', 'createdAt', 'updatedAt']),
+  RuleTrigger: ruleTrigger,
+  RuleConditions: ruleConditions,
+  RuleAction: ruleAction,
+  Rule: object({
+    id: string(),
+    name: string(),
+    enabled: boolean(),
+    trigger: ref('RuleTrigger'),
+    conditions: ref('RuleConditions'),
+    actions: array(ref('RuleAction')),
+    createdAt: integer(),
+    updatedAt: integer(),
+  }, ['id', 'name', 'enabled', 'trigger', 'conditions', 'actions', 'createdAt', 'updatedAt']),
+  RuleRun: object({
+    id: integer(),
+    ruleId: string(),
+    dialogId: string(),
+    messageId: integer(),
+    status: oneOf(['ok', 'failed'], '`failed` when any action failed; the others still ran'),
+    actions: array(object({ type: string(), ok: boolean(), error: string() }, ['type', 'ok'])),
+    createdAt: integer(),
+  }, ['id', 'ruleId', 'dialogId', 'messageId', 'status', 'actions', 'createdAt']),
+  RuleTestResult: object({
+    scanned: integer('Cached messages looked at'),
+    matches: array(object({
+      dialogId: string(),
+      message: ref('MessageInfo'),
+      actions: array(ref('RuleAction')),
+    }, ['dialogId', 'message', 'actions'])),
+  }, ['scanned', 'matches']),
+  Schedule: object({
+    id: string(),
+    ...scheduleFields,
+    status: oneOf(['active', 'paused', 'done'], '`done` once a whenOnline message is sent'),
+    nextRunAt: integer(),
+    lastRunAt: integer(),
+    lastError: string('Why the last run failed'),
+    runCount: integer(),
+    createdAt: integer(),
+    updatedAt: integer(),
+  }, ['id', 'dialogId', 'text', 'missed', 'status', 'runCount', 'createdAt', 'updatedAt']),
+  UploadSession: object({
+    uploadId: string(),
+    fileName: string(),
+    size: integer(),
+    mimeType: string(),
+    partSize: integer(),
+    parts: integer(),
+    received: array(integer()),
+    complete: boolean(),
+    createdAt: integer(),
+    updatedAt: integer(),
+  }, ['uploadId', 'fileName', 'size', 'partSize', 'parts', 'received', 'complete', 'createdAt', 'updatedAt']),
+  BackfillJob: object({
+    dialogId: string(),
+    status: oneOf(['pending', 'running', 'done', 'error']),
+    oldestId: { type: ['integer', 'null'] },
+    fetched: integer(),
+    error: string(),
+    createdAt: integer(),
+    updatedAt: integer(),
+    completedAt: integer(),
+  }, ['dialogId', 'status', 'oldestId', 'fetched', 'createdAt', 'updatedAt']),
+  QrLoginState: object({
+    status: oneOf(['idle', 'pending', 'need2FA', 'done', 'error']),
+    url: string('`tg://login?token=…`, to show as a QR code'),
+    expires: integer(),
+    hint: string(),
+    error: string(),
+  }, ['status']),
+  LocalSearchResult: object({
+    dialogId: string(),
+    dialogName: string(),
+    message: ref('MessageInfo'),
+    snippet: string('HTML-escaped, matches wrapped in `<mark>`'),
+  }, ['dialogId', 'message', 'snippet']),
+  RetentionRules: object({ dialogIds: array(string()), folderIds: array(integer()) }, ['dialogIds', 'folderIds']),
+  MessageRevision: object({
+    version: integer('1 for the original text'),
+    message: ref('MessageInfo'),
+    replacedAt: integer(),
+  }, ['version', 'message', 'replacedAt']),
+  DeletedMessage: object({ dialogId: string(), message: ref('MessageInfo'), deletedAt: integer() }, ['dialogId', 'message', 'deletedAt']),
+  Account: object({ id: string(), name: string(), connected: boolean() }, ['id', 'connected']),
+  LaneStats: object({
+    queued: integer(),
+    avgWaitMs: integer('Time requests waited to be sent, over the last 100'),
+    maxWaitMs: integer(),
+  }, ['queued', 'avgWaitMs', 'maxWaitMs']),
+  SchedulerStats: object({
+    inFlight: integer(),
+    coalesced: integer('Requests answered by an identical one already on its way'),
+    floodWaits: integer('FLOOD_WAIT errors Telegram returned'),
+    lanes: object({
+      interactive: ref('LaneStats'),
+      normal: ref('LaneStats'),
+      background: ref('LaneStats'),
+    }, ['interactive', 'normal', 'background'], 'Sends go first, background work (backfill, cache refreshes) last'),
+    floodWaitUntil: map(integer(), 'Methods on hold, with the Unix second their FLOOD_WAIT ends'),
+  }, ['inFlight', 'coalesced', 'floodWaits', 'lanes', 'floodWaitUntil']),
+  AccountHealth: object({
+    id: string(),
+    name: string(),
+    connected: boolean(),
+    scheduler: ref('SchedulerStats'),
+  }, ['id', 'connected', 'scheduler']),
+  Member: object({
+    userId: string(),
+    firstName: string(),
+    lastName: string(),
+    username: string(),
+    role: string(),
+    joinDate: integer(),
+  }, ['userId', 'firstName', 'lastName', 'username', 'role', 'joinDate']),
+  InviteLink: object({
+    link: string(),
+    expireDate: integer(),
+    usageLimit: integer(),
+    usage: integer(),
+    title: string(),
+    revoked: boolean(),
+  }, ['link']),
+  PeerSummary: object({ id: string(), name: string(), username: string(), type: string() }, ['id', 'name']),
+};
+
+// --- Routes ---
+
+const ROUTE_SCHEMAS: Record<string, RouteSchema> = {
+  // Daemon
+  'GET /health': {
+    operationId: 'getHealth', summary: 'Service status, including every account\'s connection state and request queue', tag: 'Daemon', root: true, public: true,
+    responses: {
+      200: object({
+        status: string(),
+        connected: boolean(),
+        uptime: number(),
+        accounts: array(ref('AccountHealth')),
+      }, ['status', 'connected', 'uptime', 'accounts']),
+    },
+  },
+  'GET /openapi.json': {
+    operationId: 'getOpenApi', summary: 'This API as an OpenAPI document', tag: 'Daemon', root: true, public: true,
+    responses: { 200: anyObject() },
+  },
+  'GET /docs': {
+    operationId: 'getDocs', summary: 'API reference page', tag: 'Daemon', root: true, public: true,
+    responses: { 200: 'text/html' },
+  },
+  'GET /accounts': {
+    operationId: 'listAccounts', summary: 'Accounts served by the daemon', tag: 'Accounts', root: true,
+    responses: { 200: array(ref('Account')) },
+  },
+  'POST /accounts': {
+    operationId: 'addAccount', summary: 'Add an account; log it in at `loginUrl`', tag: 'Accounts', root: true,
+    body: object({ id: string('Lowercase letters, digits, `_` and `-`'), name: string() }, ['id']),
+    responses: { 200: object({ ok: boolean(), id: string(), loginUrl: string() }, ['ok', 'id', 'loginUrl']) },
+  },
+  'DELETE /accounts/:accountId': {
+    operationId: 'removeAccount', summary: 'Log out and remove an account', tag: 'Accounts', root: true,
+    params: object({ accountId: string() }, ['accountId']),
+    responses: { 200: OK },
+  },
+  'GET /debug/ws-test': {
+    operationId: 'debugWsTest', summary: 'Send a test event to WebSocket clients', tag: 'Daemon', hidden: true,
+    responses: { 200: anyObject() },
+  },
+
+  // Login
+  'GET /login': {
+    operationId: 'getLoginPage', summary: 'Login page', tag: 'Login', public: true,
+    responses: { 200: 'text/html' },
+  },
+  'POST /login/phone': {
+    operationId: 'startLogin', summary: 'Send a login code to a phone number', tag: 'Login', public: true,
+    body: object({ phone: string() }, ['phone']),
+    responses: { 200: object({ ok: boolean(), phoneCodeHash: string() }, ['ok', 'phoneCodeHash']) },
+  },
+  'POST /login/code': {
+    operationId: 'completeLogin', summary: 'Log in with the code; `need2FA` asks for the password next', tag: 'Login', public: true,
+    body: object({ phone: string(), code: string(), phoneCodeHash: string() }, ['phone', 'code', 'phoneCodeHash']),
+    responses: { 200: object({ ok: boolean(), need2FA: boolean(), hint: string() }, ['ok']) },
+  },
+  'POST /login/2fa': {
+    operationId: 'complete2FA', summary: 'Finish logging in with the 2FA password', tag: 'Login', public: true,
+    body: object({ password: string() }, ['password']),
+    responses: { 200: OK },
+  },
+  'POST /login/qr': {
+    operationId: 'startQrLogin', summary: 'Start a QR code login', tag: 'Login', public: true,
+    responses: { 200: ref('QrLoginState') },
+  },
+  'GET /login/qr': {
+    operationId: 'getQrLoginState', summary: 'QR login state', tag: 'Login', public: true,
+    responses: { 200: ref('QrLoginState') },
+  },
+  'GET /login/qr.:format': {
+    operationId: 'getQrCode', summary: 'The pending QR code as an image', tag: 'Login', public: true,
+    params: object({ format: oneOf(['svg', 'png']) }, ['format']),
+    responses: { 200: 'image/*' },
+  },
+  'POST /logout': {
+    operationId: 'logout', summary: 'Log the account out', tag: 'Login',
+    responses: { 200: OK },
+  },
+
+  // Dialogs
+  'GET /me': {
+    operationId: 'getMe', summary: 'Current user', tag: 'Dialogs',
+    responses: { 200: object({ id: string(), firstName: string(), lastName: string(), username: string(), phone: string() }) },
+  },
+  'GET /dialogs': {
+    operationId: 'getDialogs', summary: 'Chat list, with active forum topics', tag: 'Dialogs',
+    querystring: object({ limit: limitQuery('At most 500; default 100') }),
+    responses: { 200: array(ref('DialogInfo')) },
+  },
+  'GET /dialogs/:dialogId/info': {
+    operationId: 'getDialogInfo', summary: 'Chat info', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: ref('DialogDetails') },
+  },
+  'PATCH /dialogs/:dialogId': {
+    operationId: 'editDialog', summary: 'Edit a group or channel\'s title or description', tag: 'Groups',
+    params: dialogParams,
+    body: object({ title: string(), about: string() }),
+    responses: { 200: OK },
+  },
+  'PUT /dialogs/:dialogId/photo': {
+    operationId: 'setDialogPhoto', summary: 'Set a group or channel photo', tag: 'Groups',
+    params: dialogParams,
+    body: object({ data: uploadFields.data, uploadId: uploadFields.uploadId }),
+    multipart: { fields: object({}), files: 'one' },
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/typing': {
+    operationId: 'sendTyping', summary: 'Send a typing indicator', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/read': {
+    operationId: 'readDialog', summary: 'Mark read up to a message', tag: 'Dialogs',
+    params: dialogParams,
+    body: optional(object({ maxId: integer('Latest message read; all of them when left out') })),
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/readAll': {
+    operationId: 'markAllAsRead', summary: 'Mark everything read, mentions and reactions included', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/archive': {
+    operationId: 'archiveDialog', summary: 'Archive a chat', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/unarchive': {
+    operationId: 'unarchiveDialog', summary: 'Move a chat out of the archive', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/mute': {
+    operationId: 'muteDialog', summary: 'Mute a chat', tag: 'Dialogs',
+    params: dialogParams,
+    body: optional(object({ duration: integer('Seconds; forever when left out, 0 unmutes') })),
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/leave': {
+    operationId: 'leaveDialog', summary: 'Leave a group or channel', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'DELETE /dialogs/:dialogId/history': {
+    operationId: 'deleteDialogHistory', summary: 'Clear a chat\'s history', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'GET /dialogs/:dialogId/draft': {
+    operationId: 'getDraft', summary: 'Saved draft; `text` is null without one', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: object({ text: { type: ['string', 'null'] }, replyTo: integer(), date: integer() }, ['text']) },
+  },
+  'PUT /dialogs/:dialogId/draft': {
+    operationId: 'saveDraft', summary: 'Save a draft', tag: 'Dialogs',
+    params: dialogParams,
+    body: object({ text: string(), replyTo: integer() }, ['text']),
+    responses: { 200: OK },
+  },
+  'DELETE /dialogs/:dialogId/draft': {
+    operationId: 'clearDraft', summary: 'Clear the draft', tag: 'Dialogs',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'GET /saved': {
+    operationId: 'getSavedMessages', summary: 'Saved Messages', tag: 'Dialogs',
+    querystring: object({ limit: limitQuery('At most 100'), offsetId: intString('Messages older than this id') }),
+    responses: { 200: MESSAGES },
+  },
+
+  // Messages
+  'GET /dialogs/:dialogId/messages': {
+    operationId: 'getMessages', summary: 'Messages, oldest first', tag: 'Messages',
+    params: dialogParams,
+    querystring: object({ limit: limitQuery('At most 100; default 20'), offsetId: intString('Messages older than this id') }),
+    responses: { 200: MESSAGES },
+  },
+  'POST /dialogs/:dialogId/messages': {
+    operationId: 'sendMessage', summary: 'Send a message', tag: 'Messages',
+    description: 'Answered with 202 and the queued send while Telegram is disconnected.',
+    params: dialogParams,
+    body: object({
+      text: string(),
+      replyTo: integer(),
+      scheduleDate: integer('Unix seconds to post it at'),
+      clientMsgId,
+      ...sendFields,
+    }, ['text']),
+    responses: { 200: MESSAGE, 202: ref('OutboxEntry') },
+  },
+  'GET /dialogs/:dialogId/media': {
+    operationId: 'getSharedMedia', summary: 'A chat\'s photos, videos, files or links, newest first', tag: 'Messages',
+    params: dialogParams,
+    querystring: object({
+      type: oneOf(['photo', 'video', 'file', 'link']),
+      limit: limitQuery('At most 100; default 20'),
+      offsetId: intString('Messages older than this id'),
+    }, ['type']),
+    responses: { 200: MESSAGES },
+  },
+  'GET /dialogs/:dialogId/search': {
+    operationId: 'searchDialogMessages', summary: 'Search a chat on Telegram', tag: 'Messages',
+    params: dialogParams,
+    querystring: object({ q: string(), limit: limitQuery() }, ['q']),
+    responses: { 200: MESSAGES },
+  },
+  'GET /dialogs/:dialogId/scheduled': {
+    operationId: 'getScheduledMessages', summary: 'Scheduled messages', tag: 'Messages',
+    params: dialogParams,
+    responses: { 200: MESSAGES },
+  },
+  'GET /dialogs/:dialogId/pinned': {
+    operationId: 'getPinnedMessages', summary: 'Pinned messages', tag: 'Messages',
+    params: dialogParams,
+    responses: { 200: MESSAGES },
+  },
+  'GET /messages/:messageId': {
+    operationId: 'getMessage', summary: 'One message', tag: 'Messages',
+    params: messageParams,
+    querystring: dialogIdQuery,
+    responses: { 200: MESSAGE },
+  },
+  'PATCH /messages/:messageId': {
+    operationId: 'editMessage', summary: 'Edit a message', tag: 'Messages',
+    params: messageParams,
+    body: object({ dialogId: string(), text: string(), ...formatFields }, ['dialogId', 'text']),
+    responses: { 200: OK },
+  },
+  'DELETE /messages/:messageId': {
+    operationId: 'deleteMessage', summary: 'Delete a message for everyone', tag: 'Messages',
+    params: messageParams,
+    body: dialogIdBody,
+    responses: { 200: OK },
+  },
+  'POST /messages/:messageId/read': {
+    operationId: 'markRead', summary: 'Mark read up to a message', tag: 'Messages',
+    params: messageParams,
+    body: dialogIdBody,
+    responses: { 200: OK },
+  },
+  'POST /messages/:messageId/forward': {
+    operationId: 'forwardMessages', summary: 'Forward a message, or several', tag: 'Messages',
+    params: messageParams,
+    body: object({
+      fromDialogId: string(),
+      toDialogId: string(),
+      messageIds: array(integer(), 'Forward these instead of the one in the path'),
+      clientMsgId,
+    }, ['fromDialogId', 'toDialogId']),
+    responses: { 200: object({ ok: boolean(), messages: MESSAGES }, ['ok', 'messages']) },
+  },
+  'POST /messages/:messageId/pin': {
+    operationId: 'pinMessage', summary: 'Pin a message', tag: 'Messages',
+    params: messageParams,
+    body: object({ dialogId: string(), silent: boolean() }, ['dialogId']),
+    responses: { 200: OK },
+  },
+  'POST /messages/:messageId/unpin': {
+    operationId: 'unpinMessage', summary: 'Unpin a message', tag: 'Messages',
+    params: messageParams,
+    body: dialogIdBody,
+    responses: { 200: OK },
+  },
+
+  // Reactions
+  'POST /messages/:messageId/react': {
+    operationId: 'addReaction', summary: 'Add a reaction', tag: 'Reactions',
+    params: messageParams,
+    body: object({ dialogId: string(), ...reactionFields, big: boolean() }, ['dialogId']),
+    responses: { 200: object({ ok: boolean(), reactions: array(ref('ReactionCount')) }, ['ok', 'reactions']) },
+  },
+  'DELETE /messages/:messageId/react': {
+    operationId: 'removeReaction', summary: 'Remove a reaction, or all of yours', tag: 'Reactions',
+    params: messageParams,
+    body: object({ dialogId: string(), ...reactionFields }, ['dialogId']),
+    responses: { 200: object({ ok: boolean(), reactions: array(ref('ReactionCount')) }, ['ok', 'reactions']) },
+  },
+  'PUT /messages/:messageId/reactions': {
+    operationId: 'setReactions', summary: 'Replace your reactions', tag: 'Reactions',
+    params: messageParams,
+    body: object({ dialogId: string(), reactions: array(object(reactionFields)), big: boolean() }, ['dialogId', 'reactions']),
+    responses: { 200: object({ ok: boolean(), reactions: array(ref('ReactionCount')) }, ['ok', 'reactions']) },
+  },
+  'GET /messages/:messageId/reactions': {
+    operationId: 'getReactionList', summary: 'Who reacted', tag: 'Reactions',
+    params: messageParams,
+    querystring: object({ dialogId: string(), ...reactionFields, offset: string(), limit: limitQuery() }, ['dialogId']),
+    responses: { 200: ref('ReactionList') },
+  },
+  'GET /dialogs/:dialogId/reactions': {
+    operationId: 'getAllowedReactions', summary: 'Reactions the chat allows', tag: 'Reactions',
+    params: dialogParams,
+    responses: { 200: ref('AllowedReactions') },
+  },
+
+  // Polls
+  'POST /dialogs/:dialogId/polls': {
+    operationId: 'sendPoll', summary: 'Send a poll or quiz', tag: 'Polls',
+    params: dialogParams,
+    body: object({
+      question: string(),
+      answers: array(string()),
+      quiz: boolean(),
+      correctAnswer: integer('Index of the right answer; quizzes only'),
+      multipleChoice: boolean(),
+      publicVoters: boolean(),
+      closePeriod: integer('Seconds until it closes'),
+      closeDate: integer('Unix seconds when it closes'),
+      solution: string('Quiz explanation'),
+      replyTo: integer(),
+      clientMsgId,
+    }, ['question', 'answers']),
+    responses: { 200: MESSAGE },
+  },
+  'POST /messages/:messageId/poll/vote': {
+    operationId: 'votePoll', summary: 'Vote', tag: 'Polls',
+    params: messageParams,
+    body: object({ dialogId: string(), options: array(string(), 'Base64 options from `PollAnswer.option`') }, ['dialogId', 'options']),
+    responses: { 200: object({ ok: boolean(), poll: ref('PollInfo') }, ['ok', 'poll']) },
+  },
+  'DELETE /messages/:messageId/poll/vote': {
+    operationId: 'retractPollVote', summary: 'Take your vote back', tag: 'Polls',
+    params: messageParams,
+    body: dialogIdBody,
+    responses: { 200: object({ ok: boolean(), poll: ref('PollInfo') }, ['ok', 'poll']) },
+  },
+  'POST /messages/:messageId/poll/close': {
+    operationId: 'closePoll', summary: 'Close a poll you sent', tag: 'Polls',
+    params: messageParams,
+    body: dialogIdBody,
+    responses: { 200: object({ ok: boolean(), poll: ref('PollInfo') }, ['ok', 'poll']) },
+  },
+  'GET /messages/:messageId/poll/votes': {
+    operationId: 'getPollVotes', summary: 'Who voted for what (public polls)', tag: 'Polls',
+    params: messageParams,
+    querystring: object({ dialogId: string(), option: string('Only votes for this base64 option'), offset: string(), limit: limitQuery() }, ['dialogId']),
+    responses: { 200: ref('PollVoteList') },
+  },
+
+  // Files
+  'POST /dialogs/:dialogId/upload': {
+    operationId: 'sendFile', summary: 'Send a file', tag: 'Files',
+    description: 'The file is a multipart `file` part, a chunked `uploadId`, or base64 `data`. Answered with 202 and the queued send while Telegram is disconnected.',
+    params: dialogParams,
+    body: object({ ...uploadFields, caption: string(), clientMsgId }),
+    multipart: { fields: object({ fileName: string(), mimeType: string(), caption: string(), clientMsgId }), files: 'one' },
+    responses: { 200: MESSAGE, 202: ref('OutboxEntry') },
+  },
+  'POST /dialogs/:dialogId/voice': {
+    operationId: 'sendVoice', summary: 'Send a voice note', tag: 'Files',
+    params: dialogParams,
+    body: object({
+      data: uploadFields.data,
+      uploadId: uploadFields.uploadId,
+      duration: number('Seconds'),
+      waveform: array(integer(), 'Values 0-31'),
+      clientMsgId,
+    }),
+    multipart: {
+      fields: object({ duration: number('Seconds'), waveform: string('JSON array of values 0-31'), clientMsgId }),
+      files: 'one',
+    },
+    responses: { 200: MESSAGE, 202: ref('OutboxEntry') },
+  },
+  'POST /dialogs/:dialogId/album': {
+    operationId: 'sendAlbum', summary: 'Send 2-10 photos, videos or files as one album', tag: 'Files',
+    params: dialogParams,
+    body: object({
+      items: array(object({ ...uploadFields, caption: string() })),
+      clientMsgId,
+    }, ['items']),
+    multipart: { fields: object({ captions: string('JSON array with a caption per file'), clientMsgId }), files: 'many' },
+    responses: { 200: MESSAGES },
+  },
+  'POST /uploads': {
+    operationId: 'createUpload', summary: 'Start a chunked upload', tag: 'Files',
+    body: object({
+      fileName: string(),
+      size: integer('Bytes'),
+      mimeType: string(),
+      partSize: integer('Bytes per part; default 1 MiB'),
+    }, ['fileName', 'size']),
+    responses: { 201: ref('UploadSession') },
+  },
+  'GET /uploads/:uploadId': {
+    operationId: 'getUpload', summary: 'A chunked upload and the parts it has', tag: 'Files',
+    params: object({ uploadId: string() }, ['uploadId']),
+    responses: { 200: ref('UploadSession') },
+  },
+  'PUT /uploads/:uploadId/parts/:part': {
+    operationId: 'putUploadPart', summary: 'Send one part of a chunked upload', tag: 'Files',
+    params: object({ uploadId: string(), part: intString('0-based part number') }, ['uploadId', 'part']),
+    binaryBody: true,
+    responses: { 200: ref('UploadSession') },
+  },
+  'DELETE /uploads/:uploadId': {
+    operationId: 'deleteUpload', summary: 'Drop a chunked upload', tag: 'Files',
+    params: object({ uploadId: string() }, ['uploadId']),
+    responses: { 200: OK },
+  },
+  'GET /media/:messageId/token': {
+    operationId: 'getMediaToken', summary: 'A short-lived token that opens one message\'s media', tag: 'Files',
+    params: messageParams,
+    querystring: object({ dialogId: string() }, ['dialogId']),
+    responses: { 200: object({ token: string(), expiresAt: integer('Unix time') }, ['token', 'expiresAt']) },
+  },
+  'GET /media/:messageId': {
+    operationId: 'getMedia', summary: 'A message\'s media, with Range support', tag: 'Files',
+    params: messageParams,
+    querystring: object({ dialogId: string(), thumb: oneOf(['small', 'medium', 'large']), token: string('Media token for this file, for <img> and <video>') }, ['dialogId']),
+    responses: { 200: 'application/octet-stream', 206: 'application/octet-stream' },
+  },
+
+  // Outbox
+  'GET /outbox': {
+    operationId: 'getOutbox', summary: 'Sends waiting for delivery, and failed ones', tag: 'Outbox',
+    responses: { 200: array(ref('OutboxEntry')) },
+  },
+  'POST /outbox/:clientMsgId/retry': {
+    operationId: 'retryOutboxItem', summary: 'Queue a failed send again', tag: 'Outbox',
+    params: object({ clientMsgId: string() }, ['clientMsgId']),
+    responses: { 200: ref('OutboxEntry') },
+  },
+  'DELETE /outbox/:clientMsgId': {
+    operationId: 'removeOutboxItem', summary: 'Drop a queued or failed send', tag: 'Outbox',
+    params: object({ clientMsgId: string() }, ['clientMsgId']),
+    responses: { 200: OK },
+  },
+
+  // Search
+  'GET /search': {
+    operationId: 'searchGlobal', summary: 'Search all chats on Telegram', tag: 'Search',
+    querystring: object({ q: string(), limit: limitQuery(), offsetId: intString(), offsetPeer: string() }, ['q']),
+    responses: {
+      200: object({
+        messages: array(object({
+          id: integer(), dialogId: string(), dialogName: string(), senderName: string(), text: string(), date: integer(),
+        }, ['id', 'dialogId', 'dialogName', 'senderName', 'text', 'date'])),
+        count: integer(),
+        nextOffsetId: integer(),
+        nextOffsetPeer: string(),
+      }, ['messages', 'count']),
+    },
+  },
+  'GET /search/local': {
+    operationId: 'searchLocal', summary: 'Full-text search over cached messages; works offline', tag: 'Search',
+    querystring: object({
+      q: string('Words are ANDed; `"quoted text"` is a phrase; `word*` is a prefix'),
+      dialogId: string(),
+      senderId: string(),
+      sender: string('Part of the sender\'s name'),
+      after: intString('Unix seconds, inclusive'),
+      before: intString('Unix seconds, exclusive'),
+      mediaType: string('Comma list of media types, or `none`'),
+      order: oneOf(['date', 'rank']),
+      limit: limitQuery('At most 100'),
+      offset: intString(),
+    }, ['q']),
+    responses: { 200: array(ref('LocalSearchResult')) },
+  },
+  'GET /search/dialogs': {
+    operationId: 'searchDialogs', summary: 'Find users and chats by name', tag: 'Search',
+    querystring: object({ q: string(), limit: limitQuery() }, ['q']),
+    responses: { 200: object({ users: array(ref('PeerSummary')), chats: array(ref('PeerSummary')) }, ['users', 'chats']) },
+  },
+
+  // Contacts and profiles
+  'GET /contacts': {
+    operationId: 'getContacts', summary: 'Contacts', tag: 'Contacts',
+    querystring: object({ limit: limitQuery() }),
+    responses: {
+      200: array(object({ userId: string(), firstName: string(), lastName: string(), username: string(), phone: string() },
+        ['userId', 'firstName', 'lastName', 'username', 'phone'])),
+    },
+  },
+  'GET /contacts/search': {
+    operationId: 'searchContacts', summary: 'Search contacts and global usernames', tag: 'Contacts',
+    querystring: object({ q: string(), limit: limitQuery() }, ['q']),
+    responses: { 200: object({ users: array(ref('PeerSummary')), chats: array(ref('PeerSummary')) }, ['users', 'chats']) },
+  },
+  'GET /profile/:userId': {
+    operationId: 'getProfile', summary: 'User profile', tag: 'Contacts',
+    params: object({ userId: string() }, ['userId']),
+    responses: { 200: anyObject() },
+  },
+  'GET /profile/:userId/photo': {
+    operationId: 'getProfilePhoto', summary: 'Profile photo', tag: 'Contacts',
+    params: object({ userId: string() }, ['userId']),
+    responses: { 200: 'image/*' },
+  },
+
+  // Folders
+  'GET /folders': {
+    operationId: 'getFolders', summary: 'Chat folders', tag: 'Folders',
+    responses: { 200: array(object({ id: integer(), title: string() }, ['id', 'title'])) },
+  },
+  'POST /folders': {
+    operationId: 'createFolder', summary: 'Create a folder', tag: 'Folders',
+    body: object({ title: string(), includePeerIds: array(string()), excludePeerIds: array(string()) }, ['title']),
+    responses: { 200: object({ id: integer() }, ['id']) },
+  },
+  'PUT /folders/:folderId': {
+    operationId: 'updateFolder', summary: 'Replace a folder', tag: 'Folders',
+    params: object({ folderId: intString() }, ['folderId']),
+    body: object({ title: string(), includePeerIds: array(string()), excludePeerIds: array(string()) }, ['title']),
+    responses: { 200: OK },
+  },
+  'DELETE /folders/:folderId': {
+    operationId: 'deleteFolder', summary: 'Delete a folder', tag: 'Folders',
+    params: object({ folderId: intString() }, ['folderId']),
+    responses: { 200: OK },
+  },
+
+  // Groups
+  'POST /groups': {
+    operationId: 'createGroup', summary: 'Create a group, supergroup or channel', tag: 'Groups',
+    body: object({ title: string(), userIds: array(string()), type: oneOf(['group', 'supergroup', 'channel']) }, ['title', 'type']),
+    responses: { 200: anyObject() },
+  },
+  'POST /join': {
+    operationId: 'joinChat', summary: 'Join by invite link or username', tag: 'Groups',
+    body: object({ link: string(), username: string() }),
+    responses: { 200: object({ dialogId: string() }, ['dialogId']) },
+  },
+  'GET /dialogs/:dialogId/members': {
+    operationId: 'getMembers', summary: 'Members', tag: 'Groups',
+    params: dialogParams,
+    querystring: object({
+      limit: limitQuery(),
+      offset: intString(),
+      filter: oneOf(['all', 'admins', 'kicked', 'banned', 'bots']),
+      q: string(),
+    }),
+    responses: { 200: object({ members: array(ref('Member')), count: integer() }, ['members', 'count']) },
+  },
+  'POST /dialogs/:dialogId/members': {
+    operationId: 'addMembers', summary: 'Add members', tag: 'Groups',
+    params: dialogParams,
+    body: object({ userIds: { type: 'array', items: string(), minItems: 1 } }, ['userIds']),
+    responses: { 200: OK },
+  },
+  'DELETE /dialogs/:dialogId/members/:userId': {
+    operationId: 'removeMember', summary: 'Remove a member', tag: 'Groups',
+    params: memberParams,
+    body: optional(object({ ban: boolean('Also keep them from coming back') })),
+    responses: { 200: OK },
+  },
+  'PUT /dialogs/:dialogId/members/:userId/permissions': {
+    operationId: 'setMemberPermissions', summary: 'Restrict what one member may do', tag: 'Groups',
+    params: memberParams,
+    body: object({
+      sendMessages: boolean(), sendMedia: boolean(), sendStickers: boolean(), sendGifs: boolean(),
+      sendGames: boolean(), sendInline: boolean(), embedLinks: boolean(), sendPolls: boolean(),
+      changeInfo: boolean(), inviteUsers: boolean(), pinMessages: boolean(), manageTopics: boolean(),
+      untilDate: integer('Unix seconds; forever when left out'),
+    }),
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/ban': {
+    operationId: 'banMember', summary: 'Ban a member', tag: 'Groups',
+    params: dialogParams,
+    body: object({ userId: string(), deleteMessages: boolean() }, ['userId']),
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/unban': {
+    operationId: 'unbanMember', summary: 'Lift a ban', tag: 'Groups',
+    params: dialogParams,
+    body: object({ userId: string() }, ['userId']),
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/admins/:userId': {
+    operationId: 'promoteAdmin', summary: 'Make a member admin', tag: 'Groups',
+    params: memberParams,
+    body: object({ rights: map(boolean(), 'Admin rights by name, e.g. `deleteMessages`') }, ['rights']),
+    responses: { 200: OK },
+  },
+  'DELETE /dialogs/:dialogId/admins/:userId': {
+    operationId: 'demoteAdmin', summary: 'Take admin rights away', tag: 'Groups',
+    params: memberParams,
+    responses: { 200: OK },
+  },
+  'GET /dialogs/:dialogId/invite': {
+    operationId: 'getInviteLink', summary: 'Primary invite link', tag: 'Groups',
+    params: dialogParams,
+    responses: { 200: object({ link: string() }, ['link']) },
+  },
+  'POST /dialogs/:dialogId/invite': {
+    operationId: 'createInviteLink', summary: 'Create an invite link', tag: 'Groups',
+    params: dialogParams,
+    body: optional(object({ expireDate: integer(), usageLimit: integer(), requestNeeded: boolean(), title: string() })),
+    responses: { 200: ref('InviteLink') },
+  },
+  'GET /dialogs/:dialogId/invites': {
+    operationId: 'getInviteLinks', summary: 'Invite links you made', tag: 'Groups',
+    params: dialogParams,
+    querystring: object({ limit: limitQuery(), revoked: oneOf(['true', 'false']) }),
+    responses: { 200: array(ref('InviteLink')) },
+  },
+  'DELETE /dialogs/:dialogId/invites': {
+    operationId: 'revokeInviteLink', summary: 'Revoke an invite link', tag: 'Groups',
+    params: dialogParams,
+    body: object({ link: string() }, ['link']),
+    responses: { 200: OK },
+  },
+  'GET /dialogs/:dialogId/permissions': {
+    operationId: 'getDefaultPermissions', summary: 'What members may do', tag: 'Groups',
+    params: dialogParams,
+    responses: { 200: map(boolean()) },
+  },
+  'PUT /dialogs/:dialogId/permissions': {
+    operationId: 'setDefaultPermissions', summary: 'Set what members may do', tag: 'Groups',
+    params: dialogParams,
+    body: map(boolean(), 'Permissions by name, e.g. `sendMessages`'),
+    responses: { 200: OK },
+  },
+  'PUT /dialogs/:dialogId/slowmode': {
+    operationId: 'setSlowMode', summary: 'Set slow mode', tag: 'Groups',
+    params: dialogParams,
+    body: object({ seconds: integer('0 turns it off') }, ['seconds']),
+    responses: { 200: OK },
+  },
+
+  // Forum topics
+  'GET /dialogs/:dialogId/topics': {
+    operationId: 'listTopics', summary: 'Forum topics', tag: 'Topics',
+    params: dialogParams,
+    querystring: object({ limit: limitQuery(), offsetDate: intString(), offsetId: intString() }),
+    responses: {
+      200: object({
+        topics: array(object({
+          id: integer(), title: string(), iconColor: integer(), iconEmojiId: string(), unreadCount: integer(),
+          lastMessage: string(), date: integer(), closed: boolean(), pinned: boolean(),
+        }, ['id', 'title', 'unreadCount', 'date', 'closed', 'pinned'])),
+      }, ['topics']),
+    },
+  },
+  'POST /dialogs/:dialogId/topics': {
+    operationId: 'createTopic', summary: 'Create a forum topic', tag: 'Topics',
+    params: dialogParams,
+    body: object({ title: string(), iconColor: integer(), iconEmojiId: string(), sendAs: string() }, ['title']),
+    responses: { 200: object({ id: integer(), title: string() }, ['id', 'title']) },
+  },
+  'PATCH /dialogs/:dialogId/topics/:topicId': {
+    operationId: 'editTopic', summary: 'Edit, close or hide a forum topic', tag: 'Topics',
+    params: topicParams,
+    body: object({ title: string(), iconEmojiId: string(), closed: boolean(), hidden: boolean() }),
+    responses: { 200: OK },
+  },
+  'DELETE /dialogs/:dialogId/topics/:topicId': {
+    operationId: 'deleteTopic', summary: 'Delete a forum topic', tag: 'Topics',
+    params: topicParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/topics/:topicId/pin': {
+    operationId: 'pinTopic', summary: 'Pin a forum topic', tag: 'Topics',
+    params: topicParams,
+    responses: { 200: OK },
+  },
+  'POST /dialogs/:dialogId/topics/:topicId/unpin': {
+    operationId: 'unpinTopic', summary: 'Unpin a forum topic', tag: 'Topics',
+    params: topicParams,
+    responses: { 200: OK },
+  },
+
+  // Bots
+  'POST /inline': {
+    operationId: 'getInlineResults', summary: 'Ask an inline bot', tag: 'Bots',
+    body: object({ botUsername: string(), query: string(), dialogId: string() }, ['botUsername', 'query', 'dialogId']),
+    responses: { 200: anyObject() },
+  },
+  'POST /inline/send': {
+    operationId: 'sendInlineResult', summary: 'Send an inline bot result', tag: 'Bots',
+    body: object({ botUsername: string(), queryId: string(), resultId: string(), dialogId: string() }, ['queryId', 'resultId', 'dialogId']),
+    responses: { 200: anyObject() },
+  },
+  'POST /bots/callback': {
+    operationId: 'pressBotButton', summary: 'Press an inline keyboard button', tag: 'Bots',
+    body: object({
+      messageId: integer(),
+      dialogId: string(),
+      data: string('The button\'s base64 callback data'),
+      game: boolean('A game button, which carries no data'),
+    }, ['messageId', 'dialogId']),
+    responses: { 200: object({ message: string(), alert: boolean(), url: string() }) },
+  },
+
+  // Backfill and retention
+  'GET /backfill': {
+    operationId: 'getBackfillStatus', summary: 'History backfill status', tag: 'Cache',
+    responses: { 200: object({ running: boolean(), floodWaitUntil: integer(), jobs: array(ref('BackfillJob')) }, ['running', 'jobs']) },
+  },
+  'POST /backfill': {
+    operationId: 'queueBackfill', summary: 'Queue dialogs, or every chat in folders, for backfill', tag: 'Cache',
+    body: object({ dialogIds: array(string()), folderIds: array(integer()) }),
+    responses: { 200: object({ ok: boolean(), jobs: array(ref('BackfillJob')) }, ['ok', 'jobs']) },
+  },
+  'DELETE /backfill/:dialogId': {
+    operationId: 'cancelBackfill', summary: 'Cancel a dialog\'s backfill', tag: 'Cache',
+    params: dialogParams,
+    responses: { 200: OK },
+  },
+  'GET /retention': {
+    operationId: 'getRetentionRules', summary: 'Dialogs and folders whose edits and deletions are kept', tag: 'Cache',
+    responses: { 200: ref('RetentionRules') },
+  },
+  'PUT /retention': {
+    operationId: 'setRetentionRules', summary: 'Replace the retention rules', tag: 'Cache',
+    body: object({ dialogIds: array(string()), folderIds: array(integer()) }),
+    responses: { 200: ref('RetentionRules') },
+  },
+  'GET /messages/:messageId/revisions': {
+    operationId: 'getMessageRevisions', summary: 'A retained message\'s earlier versions', tag: 'Cache',
+    params: messageParams,
+    querystring: dialogIdQuery,
+    responses: {
+      200: object({
+        current: { oneOf: [ref('MessageInfo'), { type: 'null' }] },
+        deletedAt: integer(),
+        revisions: array(ref('MessageRevision')),
+      }, ['current', 'revisions']),
+    },
+  },
+  'GET /dialogs/:dialogId/deleted': {
+    operationId: 'getDeletedMessages', summary: 'Recently deleted messages of a retained dialog', tag: 'Cache',
+    params: dialogParams,
+    querystring: object({ limit: limitQuery('At most 200; default 50'), offset: intString() }),
+    responses: { 200: array(ref('DeletedMessage')) },
+  },
+  'DELETE /dialogs/:dialogId/retained': {
+    operationId: 'purgeRetained', summary: 'Drop a dialog\'s kept versions and deleted messages', tag: 'Cache',
+    params: dialogParams,
+    responses: { 200: object({ ok: boolean(), removed: integer() }, ['ok', 'removed']) },
+  },
+
+  // Settings
+  'GET /settings/privacy': {
+    operationId: 'getPrivacySettings', summary: 'Privacy settings', tag: 'Settings',
+    responses: { 200: map(oneOf(['everybody', 'contacts', 'nobody'])) },
+  },
+  'PUT /settings/privacy': {
+    operationId: 'setPrivacySetting', summary: 'Change one privacy setting', tag: 'Settings',
+    body: object({
+      key: oneOf(['lastSeen', 'phoneNumber', 'profilePhoto', 'forwards', 'calls', 'groups']),
+      value: oneOf(['everybody', 'contacts', 'nobody']),
+    }, ['key', 'value']),
+    responses: { 200: OK },
+  },
+  'GET /settings/account': {
+    operationId: 'getAccountSettings', summary: 'Name, username, bio and phone', tag: 'Settings',
+    responses: {
+      200: object({ firstName: string(), lastName: string(), username: string(), bio: string(), phone: string() },
+        ['firstName', 'lastName', 'username', 'bio', 'phone']),
+    },
+  },
+  'PUT /settings/account': {
+    operationId: 'updateProfile', summary: 'Change name or bio', tag: 'Settings',
+    body: object({ firstName: string(), lastName: string(), bio: string() }),
+    responses: { 200: OK },
+  },
+  'PUT /settings/username': {
+    operationId: 'updateUsername', summary: 'Change username', tag: 'Settings',
+    body: object({ username: string() }, ['username']),
+    responses: { 200: OK },
+  },
+  'PUT /settings/photo': {
+    operationId: 'setProfilePhoto', summary: 'Set your profile photo', tag: 'Settings',
+    body: object({ data: uploadFields.data, uploadId: uploadFields.uploadId }),
+    multipart: { fields: object({}), files: 'one' },
+    responses: { 200: OK },
+  },
+  'DELETE /settings/photo': {
+    operationId: 'deleteProfilePhoto', summary: 'Remove your profile photo', tag: 'Settings',
+    responses: { 200: OK },
+  },
+  'GET /settings/2fa': {
+    operationId: 'get2FAStatus', summary: 'Two-step verification status', tag: 'Settings',
+    responses: { 200: object({ enabled: boolean(), hasRecoveryEmail: boolean(), hint: string() }, ['enabled', 'hasRecoveryEmail']) },
+  },
+  'POST /settings/2fa': {
+    operationId: 'set2FA', summary: 'Set or change the 2FA password', tag: 'Settings',
+    body: object({ currentPassword: string(), newPassword: string(), hint: string(), email: string() }, ['newPassword']),
+    responses: { 200: OK },
+  },
+  'DELETE /settings/2fa': {
+    operationId: 'disable2FA', summary: 'Turn 2FA off', tag: 'Settings',
+    body: object({ password: string() }, ['password']),
+    responses: { 200: OK },
+  },
+  'GET /settings/sessions': {
+    operationId: 'getSessions', summary: 'Logged-in devices', tag: 'Settings',
+    responses: {
+      200: array(object({
+        hash: string(), deviceModel: string(), platform: string(), systemVersion: string(), apiId: integer(),
+        appName: string(), appVersion: string(), dateCreated: integer(), dateActive: integer(),
+        ip: string(), country: string(), region: string(), current: boolean(),
+      }, ['hash', 'current'])),
+    },
+  },
+  'DELETE /settings/sessions/:hash': {
+    operationId: 'terminateSession', summary: 'Log a device out', tag: 'Settings',
+    params: object({ hash: string() }, ['hash']),
+    responses: { 200: OK },
+  },
+  'DELETE /settings/sessions': {
+    operationId: 'terminateOtherSessions', summary: 'Log out every other device', tag: 'Settings',
+    responses: { 200: OK },
+  },
+  'GET /settings/blocked': {
+    operationId: 'getBlockedUsers', summary: 'Blocked users', tag: 'Settings',
+    querystring: object({ limit: limitQuery(), offset: intString() }),
+    responses: { 200: array(object({ userId: string(), date: integer() }, ['userId', 'date'])) },
+  },
+  'POST /settings/blocked': {
+    operationId: 'blockUser', summary: 'Block a user', tag: 'Settings',
+    body: object({ userId: string() }, ['userId']),
+    responses: { 200: OK },
+  },
+  'DELETE /settings/blocked/:userId': {
+    operationId: 'unblockUser', summary: 'Unblock a user', tag: 'Settings',
+    params: object({ userId: string() }, ['userId']),
+    responses: { 200: OK },
+  },
+  'GET /settings/notifications': {
+    operationId: 'getNotificationSettings', summary: 'Notification settings for private chats, groups and channels', tag: 'Settings',
+    responses: { 200: map(object({ muteUntil: integer(), sound: string(), showPreviews: boolean() }, ['muteUntil', 'sound', 'showPreviews'])) },
+  },
+  'PUT /settings/notifications': {
+    operationId: 'updateNotificationSettings', summary: 'Change notification settings', tag: 'Settings',
+    body: object({
+      scope: oneOf(['private', 'group', 'channel']),
+      muteUntil: integer(),
+      sound: string(),
+      showPreviews: boolean(),
+    }, ['scope']),
+    responses: { 200: OK },
+  },
+  'GET /settings/autodownload': {
+    operationId: 'getAutoDownloadSettings', summary: 'Auto-download settings', tag: 'Settings',
+    responses: { 200: anyObject() },
+  },
+  'PUT /settings/autodownload': {
+    operationId: 'saveAutoDownloadSettings', summary: 'Change auto-download settings', tag: 'Settings',
+    body: object({ photos: boolean(), videos: boolean(), files: boolean(), maxFileSize: integer() }, ['photos', 'videos', 'files']),
+    responses: { 200: OK },
+  },
+
+  // Events
+  'GET /events': {
+    operationId: 'events', summary: 'Live events over a WebSocket', tag: 'Events', websocket: true,
+    description: 'Durable events carry `seq`; reconnect with `since` to have missed ones replayed first.',
+    querystring: object({
+      since: intString('Replay events after this seq'),
+      dialogs: string('Comma list of dialog ids'),
+      types: string('Comma list of event types'),
+      folders: string('Comma list of folder ids'),
+    }),
+    responses: { 101: 'websocket' },
+  },
+
+  // Schedules
+  'GET /schedules': {
+    operationId: 'listSchedules', summary: 'Recurring and on-online messages', tag: 'Schedules',
+    responses: { 200: array(ref('Schedule')) },
+  },
+  'POST /schedules': {
+    operationId: 'createSchedule', summary: 'Send a message on a cron schedule, or when a user comes online', tag: 'Schedules',
+    description: 'Give `cron` or `whenOnline`. Sends made while Telegram is disconnected wait in the outbox.',
+    body: object(scheduleFields, ['dialogId', 'text']),
+    responses: { 201: ref('Schedule') },
+  },
+  'GET /schedules/:scheduleId': {
+    operationId: 'getSchedule', summary: 'One schedule', tag: 'Schedules',
+    params: scheduleParams,
+    responses: { 200: ref('Schedule') },
+  },
+  'PATCH /schedules/:scheduleId': {
+    operationId: 'updateSchedule', summary: 'Change a schedule; each field given replaces the old one', tag: 'Schedules',
+    description: 'Giving `cron` turns off `whenOnline`, and the other way round. A sent whenOnline schedule waits again.',
+    params: scheduleParams,
+    body: object(scheduleFields),
+    responses: { 200: ref('Schedule') },
+  },
+  'DELETE /schedules/:scheduleId': {
+    operationId: 'deleteSchedule', summary: 'Remove a schedule', tag: 'Schedules',
+    params: scheduleParams,
+    responses: { 200: OK },
+  },
+  'POST /schedules/:scheduleId/pause': {
+    operationId: 'pauseSchedule', summary: 'Stop a schedule from sending', tag: 'Schedules',
+    params: scheduleParams,
+    responses: { 200: ref('Schedule') },
+  },
+  'POST /schedules/:scheduleId/resume': {
+    operationId: 'resumeSchedule', summary: 'Start a paused schedule again from now', tag: 'Schedules',
+    description: 'Runs it would have made while paused are not sent.',
+    params: scheduleParams,
+    responses: { 200: ref('Schedule') },
+  },
+
+  // Rules
+  'GET /rules': {
+    operationId: 'listRules', summary: 'Automation rules, in the order they run', tag: 'Rules',
+    responses: { 200: array(ref('Rule')) },
+  },
+  'POST /rules': {
+    operationId: 'createRule', summary: 'Add a rule', tag: 'Rules',
+    body: ruleBody(['name', 'actions']),
+    responses: { 201: ref('Rule') },
+  },
+  'POST /rules/test': {
+    operationId: 'testRuleSpec', summary: 'Dry-run a rule that isn\'t saved against cached messages', tag: 'Rules',
+    body: object({ rule: ruleBody(['name', 'actions']), ...ruleTestFields }, ['rule']),
+    responses: { 200: ref('RuleTestResult') },
+  },
+  'GET /rules/runs': {
+    operationId: 'getRuleRuns', summary: 'What rules did, newest first', tag: 'Rules',
+    querystring: object({ ruleId: string(), dialogId: string(), limit: limitQuery() }),
+    responses: { 200: array(ref('RuleRun')) },
+  },
+  'GET /rules/:ruleId': {
+    operationId: 'getRule', summary: 'One rule', tag: 'Rules',
+    params: ruleParams,
+    responses: { 200: ref('Rule') },
+  },
+  'PATCH /rules/:ruleId': {
+    operationId: 'updateRule', summary: 'Change a rule; each field given replaces the old one', tag: 'Rules',
+    params: ruleParams,
+    body: ruleBody(),
+    responses: { 200: ref('Rule') },
+  },
+  'DELETE /rules/:ruleId': {
+    operationId: 'deleteRule', summary: 'Remove a rule and its log', tag: 'Rules',
+    params: ruleParams,
+    responses: { 200: OK },
+  },
+  'POST /rules/:ruleId/test': {
+    operationId: 'testRule', summary: 'Dry-run a rule against cached messages', tag: 'Rules',
+    description: 'Nothing is sent. Looks at the newest cached messages of `dialogId`, or of the dialogs the trigger names. Cooldowns are not applied.',
+    params: ruleParams,
+    body: optional(object(ruleTestFields)),
+    responses: { 200: ref('RuleTestResult') },
+  },
+
+  // Webhooks
+  'GET /webhooks': {
+    operationId: 'listWebhooks', summary: 'Webhooks receiving this account\'s events', tag: 'Webhooks',
+    responses: { 200: array(ref('Webhook')) },
+  },
+  'POST /webhooks': {
+    operationId: 'createWebhook', summary: 'Send events to a URL', tag: 'Webhooks',
+    description: 'Filters work as on `/events`. The response holds the signing secret, which isn\'t shown again.',
+    body: object({
+      url: string('http or https URL'),
+      eventTypes: array(string()),
+      dialogIds: array(string()),
+      folderIds: array(integer()),
+      secret: string('At least 16 characters; generated if left out'),
+    }, ['url']),
+    responses: { 201: ref('CreatedWebhook') },
+  },
+  'GET /webhooks/deliveries': {
+    operationId: 'getWebhookDeliveries', summary: 'Deliveries waiting to be retried, and dead ones', tag: 'Webhooks',
+    querystring: object({ status: oneOf(['pending', 'dead']), webhookId: string() }),
+    responses: { 200: array(ref('WebhookDelivery')) },
+  },
+  'POST /webhooks/deliveries/:deliveryId/retry': {
+    operationId: 'retryWebhookDelivery', summary: 'Queue a delivery again, with fresh attempts', tag: 'Webhooks',
+    params: object({ deliveryId: string() }, ['deliveryId']),
+    responses: { 200: ref('WebhookDelivery') },
+  },
+  'DELETE /webhooks/deliveries/:deliveryId': {
+    operationId: 'removeWebhookDelivery', summary: 'Drop a queued or dead delivery', tag: 'Webhooks',
+    params: object({ deliveryId: string() }, ['deliveryId']),
+    responses: { 200: OK },
+  },
+  'GET /webhooks/:webhookId': {
+    operationId: 'getWebhook', summary: 'One webhook', tag: 'Webhooks',
+    params: webhookParams,
+    responses: { 200: ref('Webhook') },
+  },
+  'PATCH /webhooks/:webhookId': {
+    operationId: 'updateWebhook', summary: 'Change a webhook\'s URL, filters or secret', tag: 'Webhooks',
+    params: webhookParams,
+    body: object({
+      url: string(),
+      eventTypes: nullableArray(string(), '`null` clears the filter'),
+      dialogIds: nullableArray(string(), '`null` clears the filter'),
+      folderIds: nullableArray(integer(), '`null` clears the filter'),
+      secret: string('At least 16 characters'),
+    }),
+    responses: { 200: ref('Webhook') },
+  },
+  'DELETE /webhooks/:webhookId': {
+    operationId: 'deleteWebhook', summary: 'Remove a webhook and its deliveries', tag: 'Webhooks',
+    params: webhookParams,
+    responses: { 200: OK },
+  },
+};
+
+export function routeSchema(method: string, routeUrl: string): RouteSchema | undefined {
+  return ROUTE_SCHEMAS[routeKey(method, routeUrl)];
+}
+
+/** Every route, as `[method, path, schema]` */
+export function listRoutes(): [string, string, RouteSchema][] {
+  return Object.entries(ROUTE_SCHEMAS).map(([key, schema]) => {
+    const [method, path] = key.split(' ');
+    return [method, path, schema];
+  });
+}
+
+/**
+ * The schema Fastify validates a route's requests with. A body that may also
+ * be multipart or raw bytes is only checked when it is JSON.
+ */
+export function validationSchema(route: RouteSchema): JsonSchema {
+  const schema: JsonSchema = {};
+  if (route.params) schema.params = route.params;
+  if (route.querystring) schema.querystring = route.querystring;
+  if (route.body) {
+    schema.body = route.multipart ? { content: { 'application/json': { schema: route.body } } } : route.body;
+  }
+  return schema;
+}
@@ -1,11 +1,113 @@
-import Fastify, { FastifyRequest, FastifyReply } from 'fastify';
+import Fastify, { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Readable } from 'stream';
+import { finished } from 'stream/promises';
 import fastifyWebsocket from '@fastify/websocket';
 import fastifyCors from '@fastify/cors';
-import { TelegramService, TelegramEvent } from './telegram';
-import { getPort, getAuthToken, writePid, removePid, loadConfig } from './config';
+import { TelegramService, SequencedEvent, AlbumItem, SHARED_MEDIA_TYPES, SharedMediaType } from './telegram';
+import { getPort, getAuthToken, writePid, removePid, loadConfig, DEFAULT_ACCOUNT_ID } from './config';
+import { AccountManager } from './accounts';
 import { getLoginHtml } from './login-page';
+import { getDocsHtml } from './docs-page';
+import { buildOpenApi } from './openapi';
+import { routeSchema, validationSchema } from './schemas';
+import { encodeQr, qrToPng, qrToSvg } from './qr';
+import { EventFilter, parseSubscribeMessage, parseSubscriptionQuery, dialogInSet } from './subscriptions';
+import { isValidClientMsgId } from './outbox';
+import { FloodWaitError } from './scheduler';
+import { Reaction, parseReaction } from './reactions';
+import { NewPoll, parseNewPoll, parsePollOptions } from './polls';
+import { FormatOptions, SendOptions, parseFormatOptions, parseSendOptions } from './formatting';
+import { RetentionRules, parseRetentionRules } from './retention';
+import { RuleSpec, parseRule, parseRuleChanges } from './rules';
+import { ScheduleSpec, parseSchedule } from './schedules';
+import { WebhookChanges, WebhookDeliveryStatus, WebhookSpec, parseWebhookChanges, parseWebhookSpec } from './webhooks';
+import { isThumbSize } from './media-cache';
+import { multipartBoundary, readMultipart } from './multipart';
+import { StagedFile, UploadSource } from './uploads';
+import { ApiToken, findToken, hasTokens, requiredScope, allowsDialogFreeRoute, requestDialogIds, routeKey, createMediaToken, verifyMediaToken } from './tokens';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Named API token the request authenticated with; null for the full-access `authToken`. */
+    apiToken: ApiToken | null;
+  }
+}
+
+/** Telegram's limit for one album. */
+const MAX_ALBUM_ITEMS = 10;
+
+/** Routes that still work while Telegram is disconnected; sends go to the outbox. */
+const OFFLINE_ROUTES = new Set([
+  'POST /dialogs/:dialogId/messages',
+  'POST /dialogs/:dialogId/upload',
+  'POST /dialogs/:dialogId/voice',
+  'GET /outbox',
+  'POST /outbox/:clientMsgId/retry',
+  'DELETE /outbox/:clientMsgId',
+  'GET /rules',
+  'POST /rules',
+  'POST /rules/test',
+  'GET /rules/runs',
+  'GET /rules/:ruleId',
+  'PATCH /rules/:ruleId',
+  'DELETE /rules/:ruleId',
+  'POST /rules/:ruleId/test',
+  'GET /schedules',
+  'POST /schedules',
+  'GET /schedules/:scheduleId',
+  'PATCH /schedules/:scheduleId',
+  'DELETE /schedules/:scheduleId',
+  'POST /schedules/:scheduleId/pause',
+  'POST /schedules/:scheduleId/resume',
+  'GET /webhooks',
+  'POST /webhooks',
+  'GET /webhooks/deliveries',
+  'POST /webhooks/deliveries/:deliveryId/retry',
+  'DELETE /webhooks/deliveries/:deliveryId',
+  'GET /webhooks/:webhookId',
+  'PATCH /webhooks/:webhookId',
+  'DELETE /webhooks/:webhookId',
+  'POST /uploads',
+  'GET /uploads/:uploadId',
+  'PUT /uploads/:uploadId/parts/:part',
+  'DELETE /uploads/:uploadId',
+]);
+
+/**
+ * Parse a single-range `Range: bytes=...` header against a file of `size`
+ * bytes. Returns null when it can't be satisfied; multi-range requests are
+ * not supported and get the first range.
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
 
-export async function createServer(telegram: TelegramService) {
+/** URL prefix of an account's routes. The default account is also served at the root. */
+export function accountBasePath(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? '' : `/accounts/${accountId}`;
+}
+
+/** Request path without query string or `/accounts/:accountId` prefix. */
+function routePath(url: string): string {
+  const path = url.split('?')[0];
+  const match = /^\/accounts\/[^/]+(\/.+)$/.exec(path);
+  return match ? match[1] : path;
+}
+
+export async function createServer(accounts: AccountManager) {
   const app = Fastify({ logger: true, bodyLimit: 52_428_800 }); // 50MB for file uploads
   const port = getPort();
   const authToken = getAuthToken();
@@ -18,45 +120,321 @@ export async function createServer(telegram: TelegramService) {
 
   await app.register(fastifyWebsocket);
 
-  // Auth middleware
-  if (authToken) {
-    app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
-      const path = request.url;
-      if (path === '/health' || path === '/login' || path.startsWith('/login/')) return;
-
-      const header = request.headers.authorization;
-      const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
-      if (token !== authToken) {
-        reply.code(401).send({ error: 'Unauthorized' });
-      }
-    });
-  }
+  // Upload bodies are streamed to disk by the routes that take them, not parsed up front
+  app.addContentTypeParser(['multipart/form-data', 'application/octet-stream'], (_request, payload, done) => done(null, payload));
+
+  // Request schemas come from one table, which also builds /openapi.json
+  app.addHook('onRoute', (route) => {
+    const methods = Array.isArray(route.method) ? route.method : [route.method];
+    for (const method of methods) {
+      if (method === 'HEAD' || method === 'OPTIONS') continue;
+      const schema = routeSchema(method, route.url);
+      if (schema) route.schema = { ...validationSchema(schema), ...route.schema };
+      else app.log.warn(`No schema for ${method} ${route.url}`);
+    }
+  });
 
-  // Connection check middleware
+  // Auth middleware — `authToken` has full access; named tokens are limited to their scopes
+  app.decorateRequest('apiToken', null);
   app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
-    const path = request.url;
-    if (path === '/health' || path === '/login' || path.startsWith('/login/') || path === '/events') return;
-    if (!telegram.isConnected()) {
-      reply.code(503).send({ error: 'Telegram not connected', loginUrl: '/login' });
+    if (!authToken && !hasTokens()) return;
+    const path = routePath(request.url);
+    if (path === '/health' || path === '/openapi.json' || path === '/docs') return;
+    if (path === '/login' || path.startsWith('/login/')) return;
+
+    const header = request.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
+    // <video> and <img> can't send headers, so a media file also opens with a
+    // media token for it in ?token=. Never an API token, which would end up in logs.
+    const queryToken = (request.query as { token?: string }).token;
+    if (!token && queryToken && routeKey(request.method === 'HEAD' ? 'GET' : request.method, request.routeOptions.url ?? '') === 'GET /media/:messageId') {
+      const { accountId = DEFAULT_ACCOUNT_ID, messageId } = request.params as { accountId?: string; messageId: string };
+      const { dialogId = '' } = request.query as { dialogId?: string };
+      if (verifyMediaToken(queryToken, { accountId, dialogId, messageId: parseInt(messageId, 10) })) return;
+      reply.code(401).send({ error: 'Invalid or expired media token' });
+      return;
+    }
+    if (token && authToken && token === authToken) return;
+
+    const apiToken = token ? findToken(token) : null;
+    if (!apiToken) {
+      reply.code(401).send({ error: 'Unauthorized' });
+      return;
+    }
+    request.apiToken = apiToken;
+
+    const routeUrl = request.routeOptions.url;
+    if (!routeUrl) return; // unknown route — let it 404
+    const { accountId = DEFAULT_ACCOUNT_ID } = request.params as { accountId?: string };
+    if (apiToken.accounts && !apiToken.accounts.includes(accountId)) {
+      reply.code(403).send({ error: `Token "${apiToken.name}" cannot use account ${accountId}` });
+      return;
+    }
+    const scope = requiredScope(request.method, routeUrl);
+    if (!scope || !apiToken.scopes.includes(scope)) {
+      reply.code(403).send({ error: `Token "${apiToken.name}" lacks scope ${scope ?? '(full access)'}` });
+    }
+  });
+
+  // Dialog allowlist — checked once the body is parsed
+  app.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    const allowed = request.apiToken?.dialogs;
+    if (!allowed) return;
+    const allowedSet = new Set(allowed);
+    const dialogIds = requestDialogIds(request);
+    if (dialogIds.length === 0 && !allowsDialogFreeRoute(request.method, request.routeOptions.url ?? '')) {
+      reply.code(403).send({ error: `Token "${request.apiToken!.name}" is limited to specific dialogs` });
+      return;
+    }
+    const denied = dialogIds.find((id) => !dialogInSet(allowedSet, id));
+    if (denied) {
+      reply.code(403).send({ error: `Token "${request.apiToken!.name}" cannot access dialog ${denied}` });
     }
   });
 
   // --- Health ---
   app.get('/health', async () => ({
     status: 'ok',
-    connected: telegram.isConnected(),
+    connected: accounts.getDefault().isConnected(),
     uptime: process.uptime(),
+    accounts: accounts.list().map((account) => ({
+      ...account,
+      scheduler: accounts.get(account.id)!.getSchedulerStats(),
+    })),
   }));
 
+  // --- API Docs ---
+  const openApi = buildOpenApi();
+  app.get('/openapi.json', async () => openApi);
+
+  app.get('/docs', async (_request, reply) => {
+    reply.type('text/html').send(getDocsHtml());
+  });
+
+  // --- Accounts ---
+  app.get('/accounts', async () => accounts.list());
+
+  app.post<{ Body: { id: string; name?: string } }>('/accounts', async (request) => {
+    const { id, name } = request.body;
+    if (!id) throw { statusCode: 400, message: 'id required' };
+    try {
+      accounts.add(id, name);
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    return { ok: true, id, loginUrl: `${accountBasePath(id)}/login` };
+  });
+
+  app.delete<{ Params: { accountId: string } }>('/accounts/:accountId', async (request) => {
+    const { accountId } = request.params;
+    if (!accounts.get(accountId)) throw { statusCode: 404, message: `Unknown account: ${accountId}` };
+    try {
+      await accounts.remove(accountId);
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    return { ok: true };
+  });
+
+  // --- Error handler ---
+  app.setErrorHandler((error: any, _request, reply) => {
+    const statusCode = error.statusCode || 500;
+    if (error instanceof FloodWaitError) reply.header('Retry-After', String(error.seconds));
+    reply.code(statusCode).send({
+      error: error.message || 'Internal Server Error',
+      statusCode,
+    });
+  });
+
+  // Every account route is served under /accounts/:accountId; the default account also at the root
+  await app.register(accountRoutes, { accounts });
+  await app.register(accountRoutes, { accounts, prefix: '/accounts/:accountId' });
+
+  // --- Start ---
+  writePid();
+
+  const shutdown = async () => {
+    app.log.info('Shutting down...');
+    removePid();
+    await accounts.disconnectAll();
+    await app.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await app.listen({ port, host: '127.0.0.1' });
+  return app;
+}
+
+/**
+ * Client-chosen id of a send, from the `Idempotency-Key` header or the
+ * `clientMsgId` body field. Repeats return the first result instead of
+ * sending again; offline sends are queued under it.
+ */
+function requestClientMsgId(request: FastifyRequest, fields: unknown = request.body): string | undefined {
+  const header = request.headers['idempotency-key'];
+  const body = (fields as { clientMsgId?: unknown } | undefined)?.clientMsgId ?? undefined;
+  if (header !== undefined && body !== undefined && header !== body) {
+    throw { statusCode: 400, message: 'Idempotency-Key and clientMsgId differ' };
+  }
+  const value = header ?? body;
+  if (value === undefined) return undefined;
+  if (!isValidClientMsgId(value)) throw { statusCode: 400, message: 'clientMsgId must be a string of 1-128 chars' };
+  return value;
+}
+
+/**
+ * File and fields of an upload route. The file is the `file` field of a
+ * multipart/form-data body (staged on disk as it arrives), the `uploadId` of a
+ * finished chunked upload, or base64 `data` in a JSON body. Multipart fields
+ * are strings. A staged file must be released once the send is over.
+ */
+async function readUpload(request: FastifyRequest, telegram: TelegramService): Promise<{ fields: Record<string, unknown>; file: UploadSource | null }> {
+  const boundary = multipartBoundary(request.headers['content-type']);
+  if (boundary) {
+    const { fields, files } = await readMultipartFiles(request, telegram, boundary, 1);
+    return { fields, file: files[0] ?? null };
+  }
+
+  const body = (request.body || {}) as Record<string, unknown>;
+  if (typeof body.uploadId === 'string') {
+    const session = telegram.getUpload(body.uploadId);
+    if (!session) throw { statusCode: 404, message: 'Unknown upload' };
+    if (!session.complete) throw { statusCode: 409, message: `Upload is missing ${session.parts - session.received.length} of ${session.parts} parts` };
+    return { fields: body, file: telegram.takeUpload(body.uploadId) };
+  }
+  if (typeof body.data === 'string' && body.data) return { fields: body, file: Buffer.from(body.data, 'base64') };
+  return { fields: body, file: null };
+}
+
+/**
+ * Stage the `file` parts of a multipart body on disk, up to `maxFiles`; any
+ * beyond that are read and dropped. Malformed bodies are a 400.
+ */
+async function readMultipartFiles(
+  request: FastifyRequest, telegram: TelegramService, boundary: string, maxFiles: number,
+): Promise<{ fields: Record<string, string>; files: StagedFile[] }> {
+  const { dialogId } = request.params as { dialogId?: string };
+  const header = request.headers['idempotency-key'];
+  const tags = { dialogId, clientMsgId: typeof header === 'string' ? header : undefined };
+  const expectedSize = parseInt(request.headers['content-length'] || '0', 10) || 0;
+  const files: StagedFile[] = [];
+  try {
+    const fields = await readMultipart(request.body as Readable, boundary, async (part, stream) => {
+      if (part.name !== 'file' || files.length >= maxFiles) {
+        stream.resume();
+        await finished(stream);
+        return;
+      }
+      files.push(await telegram.receiveUpload(stream, { fileName: part.fileName || 'file', mimeType: part.contentType }, expectedSize, tags));
+    });
+    return { fields, files };
+  } catch (err) {
+    for (const file of files) telegram.releaseUpload(file);
+    throw { statusCode: 400, message: (err as Error).message };
+  }
+}
+
+/**
+ * The files of an album send: `file` parts of a multipart body with a
+ * `captions` JSON array field, or JSON `items` that each carry an `uploadId`
+ * or base64 `data`. The caller releases the files.
+ */
+async function readAlbum(request: FastifyRequest, telegram: TelegramService): Promise<{ fields: Record<string, unknown>; items: AlbumItem[] }> {
+  const boundary = multipartBoundary(request.headers['content-type']);
+  if (boundary) {
+    const { fields, files } = await readMultipartFiles(request, telegram, boundary, MAX_ALBUM_ITEMS + 1);
+    let captions: unknown = [];
+    try {
+      if (fields.captions) captions = JSON.parse(fields.captions);
+    } catch { /* checked below */ }
+    const error = !Array.isArray(captions) ? 'captions must be a JSON array of strings' : albumSizeError(files.length);
+    if (error) {
+      for (const file of files) telegram.releaseUpload(file);
+      throw { statusCode: 400, message: error };
+    }
+    const items = files.map((file, i) => ({
+      source: file, fileName: file.fileName, mimeType: file.mimeType,
+      caption: typeof (captions as unknown[])[i] === 'string' ? (captions as string[])[i] : undefined,
+    }));
+    return { fields, items };
+  }
+
+  const body = (request.body || {}) as { items?: Array<{ uploadId?: string; data?: string; fileName?: string; mimeType?: string; caption?: string }> };
+  if (!Array.isArray(body.items)) throw { statusCode: 400, message: 'file parts (multipart) or items required' };
+  const error = albumSizeError(body.items.length);
+  if (error) throw { statusCode: 400, message: error };
+  // Check every item before taking any chunked upload, so a bad item leaves them all in place
+  for (const [i, item] of body.items.entries()) {
+    if (item?.uploadId) {
+      const session = telegram.getUpload(item.uploadId);
+      if (!session) throw { statusCode: 404, message: `items[${i}]: unknown upload` };
+      if (!session.complete) throw { statusCode: 409, message: `items[${i}]: upload is missing ${session.parts - session.received.length} of ${session.parts} parts` };
+    } else if (!item?.data || !item.fileName) {
+      throw { statusCode: 400, message: `items[${i}]: uploadId, or data (base64) and fileName, required` };
+    }
+  }
+  const items = body.items.map((item): AlbumItem => {
+    const source = item.uploadId ? telegram.takeUpload(item.uploadId) : Buffer.from(item.data!, 'base64');
+    const staged = Buffer.isBuffer(source) ? null : source;
+    return {
+      source,
+      fileName: item.fileName || staged?.fileName || 'file',
+      mimeType: item.mimeType || staged?.mimeType,
+      caption: item.caption,
+    };
+  });
+  return { fields: body, items };
+}
+
+function albumSizeError(count: number): string | null {
+  return count >= 2 && count <= MAX_ALBUM_ITEMS ? null : `An album has 2 to ${MAX_ALBUM_ITEMS} items`;
+}
+
+/** A text field of an upload body, from JSON or multipart. */
+function uploadField(fields: Record<string, unknown>, name: string): string | undefined {
+  const value = fields[name];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** Routes for a single account, resolved per request from the `accountId` route param. */
+async function accountRoutes(app: FastifyInstance, opts: { accounts: AccountManager }) {
+  const { accounts } = opts;
+
+  const account = (request: FastifyRequest): TelegramService => {
+    const { accountId } = request.params as { accountId?: string };
+    const telegram = accounts.get(accountId);
+    if (!telegram) throw { statusCode: 404, message: `Unknown account: ${accountId}` };
+    return telegram;
+  };
+
+  // Unknown account / connection check middleware
+  app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { accountId = DEFAULT_ACCOUNT_ID } = request.params as { accountId?: string };
+    const telegram = accounts.get(accountId);
+    if (!telegram) {
+      reply.code(404).send({ error: `Unknown account: ${accountId}` });
+      return;
+    }
+    const path = routePath(request.url);
+    if (path === '/login' || path.startsWith('/login/') || path === '/events' || path === '/search/local') return;
+    if (OFFLINE_ROUTES.has(`${request.method} ${routePath(request.routeOptions.url || '')}`)) return;
+    if (!telegram.isConnected()) {
+      reply.code(503).send({ error: 'Telegram not connected', loginUrl: `${accountBasePath(accountId)}/login` });
+    }
+  });
+
   // --- Login ---
-  app.get('/login', async (_req: FastifyRequest, reply: FastifyReply) => {
-    reply.type('text/html').send(getLoginHtml());
+  app.get('/login', async (request: FastifyRequest, reply: FastifyReply) => {
+    reply.type('text/html').send(getLoginHtml(accountBasePath(account(request).getAccountId())));
   });
 
   app.post<{ Body: { phone: string } }>('/login/phone', async (request) => {
     const { phone } = request.body;
     if (!phone) throw { statusCode: 400, message: 'phone required' };
-    const result = await telegram.startLogin(phone);
+    const result = await account(request).startLogin(phone);
     return { ok: true, phoneCodeHash: result.phoneCodeHash };
   });
 
@@ -64,11 +442,11 @@ export async function createServer(telegram: TelegramService) {
     const { phone, code, phoneCodeHash } = request.body;
     if (!phone || !code || !phoneCodeHash) throw { statusCode: 400, message: 'phone, code, phoneCodeHash required' };
     try {
-      await telegram.completeLogin(phone, code, phoneCodeHash);
+      await account(request).completeLogin(phone, code, phoneCodeHash);
       return { ok: true };
     } catch (err: unknown) {
       if (err instanceof Error && err.message === '2FA_REQUIRED') {
-        const hint = await telegram.get2FAHint();
+        const hint = await account(request).get2FAHint();
         return { ok: false, need2FA: true, hint };
       }
       throw err;
@@ -78,13 +456,30 @@ export async function createServer(telegram: TelegramService) {
   app.post<{ Body: { password: string } }>('/login/2fa', async (request) => {
     const { password } = request.body;
     if (!password) throw { statusCode: 400, message: 'password required' };
-    await telegram.complete2FA(password);
+    await account(request).complete2FA(password);
     return { ok: true };
   });
 
+  // QR login: POST starts it, GET polls (or watch `qrLogin` events). A
+  // `need2FA` status is finished through /login/2fa like the phone flow.
+  app.post('/login/qr', async (request) => account(request).startQrLogin());
+
+  app.get('/login/qr', async (request) => account(request).getQrLoginState());
+
+  app.get<{ Params: { format: string } }>('/login/qr.:format', async (request, reply) => {
+    const { format } = request.params;
+    if (format !== 'svg' && format !== 'png') throw { statusCode: 404, message: 'Use /login/qr.svg or /login/qr.png' };
+    const { status, url } = account(request).getQrLoginState();
+    if (status !== 'pending' || !url) throw { statusCode: 404, message: 'No QR code to show — POST /login/qr first' };
+    const matrix = encodeQr(url);
+    reply.header('Cache-Control', 'no-store');
+    if (format === 'svg') return reply.type('image/svg+xml').send(qrToSvg(matrix));
+    return reply.type('image/png').send(qrToPng(matrix));
+  });
+
   // --- Me ---
-  app.get('/me', async () => {
-    const me = await telegram.getMe();
+  app.get('/me', async (request) => {
+    const me = await account(request).getMe();
     return {
       id: me.id?.toString(),
       firstName: me.firstName,
@@ -97,11 +492,11 @@ export async function createServer(telegram: TelegramService) {
   // --- Dialogs ---
   app.get<{ Querystring: { limit?: string } }>('/dialogs', async (request) => {
     const limit = parseInt(request.query.limit || '100', 10);
-    return telegram.getDialogs(Math.min(limit, 500));
+    return account(request).getDialogs(Math.min(limit, 500));
   });
 
   app.get<{ Params: { dialogId: string } }>('/dialogs/:dialogId/info', async (request) => {
-    return telegram.getDialogInfo(request.params.dialogId);
+    return account(request).getDialogInfo(request.params.dialogId);
   });
 
   app.get<{ Params: { dialogId: string }; Querystring: { limit?: string; offsetId?: string } }>(
@@ -110,20 +505,45 @@ export async function createServer(telegram: TelegramService) {
       const { dialogId } = request.params;
       const limit = parseInt(request.query.limit || '20', 10);
       const offsetId = request.query.offsetId ? parseInt(request.query.offsetId, 10) : undefined;
-      return telegram.getMessages(dialogId, Math.min(limit, 100), offsetId);
+      return account(request).getMessages(dialogId, Math.min(limit, 100), offsetId);
     }
   );
 
-  app.post<{ Params: { dialogId: string }; Body: { text: string; replyTo?: number; scheduleDate?: number } }>(
+  app.post<{ Params: { dialogId: string }; Body: { text: string; replyTo?: number; scheduleDate?: number; clientMsgId?: string } & SendOptions }>(
     '/dialogs/:dialogId/messages',
-    async (request) => {
+    async (request, reply) => {
       const { dialogId } = request.params;
       const { text, replyTo, scheduleDate } = request.body;
       if (!text) throw { statusCode: 400, message: 'text required' };
+      let options: SendOptions;
+      try {
+        options = parseSendOptions(request.body, text);
+      } catch (err: unknown) {
+        throw { statusCode: 400, message: (err as Error).message };
+      }
+      const telegram = account(request);
+      const clientMsgId = requestClientMsgId(request);
+      if (telegram.shouldQueueSend(clientMsgId)) {
+        reply.code(202);
+        return telegram.queueSend(dialogId, 'message', { text, replyTo, scheduleDate, options }, clientMsgId);
+      }
       if (scheduleDate) {
-        return telegram.sendMessageScheduled(dialogId, text, scheduleDate, replyTo);
+        return telegram.sendOnce(clientMsgId, null, () => telegram.sendMessageScheduled(dialogId, text, scheduleDate, replyTo, options));
+      }
+      return telegram.sendOnce(clientMsgId, dialogId, () => telegram.sendMessage(dialogId, text, replyTo, options));
+    }
+  );
+
+  app.get<{ Params: { dialogId: string }; Querystring: { type: string; limit?: string; offsetId?: string } }>(
+    '/dialogs/:dialogId/media',
+    async (request) => {
+      const { type } = request.query;
+      if (!SHARED_MEDIA_TYPES.includes(type as SharedMediaType)) {
+        throw { statusCode: 400, message: `type must be one of: ${SHARED_MEDIA_TYPES.join(', ')}` };
       }
-      return telegram.sendMessage(dialogId, text, replyTo);
+      const limit = parseInt(request.query.limit || '20', 10);
+      const offsetId = request.query.offsetId ? parseInt(request.query.offsetId, 10) : undefined;
+      return account(request).getSharedMedia(request.params.dialogId, type as SharedMediaType, Math.min(limit, 100), offsetId);
     }
   );
 
@@ -133,12 +553,12 @@ export async function createServer(telegram: TelegramService) {
       const { dialogId } = request.params;
       const { q, limit } = request.query;
       if (!q) throw { statusCode: 400, message: 'q required' };
-      return telegram.searchMessages(dialogId, q, parseInt(limit || '20', 10));
+      return account(request).searchMessages(dialogId, q, parseInt(limit || '20', 10));
     }
   );
 
   app.post<{ Params: { dialogId: string } }>('/dialogs/:dialogId/typing', async (request) => {
-    await telegram.sendTyping(request.params.dialogId);
+    await account(request).sendTyping(request.params.dialogId);
     return { ok: true };
   });
 
@@ -149,18 +569,100 @@ export async function createServer(telegram: TelegramService) {
       const { dialogId } = request.body;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
       const messageId = parseInt(request.params.messageId, 10);
-      await telegram.readHistory(dialogId, messageId);
+      await account(request).readHistory(dialogId, messageId);
       return { ok: true };
     }
   );
 
-  app.post<{ Params: { messageId: string }; Body: { dialogId: string; emoji: string } }>(
+  app.post<{ Params: { messageId: string }; Body: { dialogId: string; emoji?: string; customEmojiId?: string; big?: boolean } }>(
     '/messages/:messageId/react',
     async (request) => {
-      const { dialogId, emoji } = request.body;
-      if (!dialogId || !emoji) throw { statusCode: 400, message: 'dialogId, emoji required' };
-      await telegram.sendReaction(dialogId, parseInt(request.params.messageId, 10), emoji);
-      return { ok: true };
+      const { dialogId, big } = request.body;
+      const reaction = parseReaction(request.body);
+      if (!dialogId || !reaction) throw { statusCode: 400, message: 'dialogId and emoji or customEmojiId required' };
+      const reactions = await account(request).addReaction(dialogId, parseInt(request.params.messageId, 10), reaction, !!big);
+      return { ok: true, reactions };
+    }
+  );
+
+  app.delete<{ Params: { messageId: string }; Body: { dialogId: string; emoji?: string; customEmojiId?: string } }>(
+    '/messages/:messageId/react',
+    async (request) => {
+      const { dialogId } = request.body || {};
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
+      // Without emoji/customEmojiId, all of our reactions are removed
+      const reaction = parseReaction(request.body) ?? undefined;
+      const reactions = await account(request).removeReaction(dialogId, parseInt(request.params.messageId, 10), reaction);
+      return { ok: true, reactions };
+    }
+  );
+
+  app.put<{ Params: { messageId: string }; Body: { dialogId: string; reactions: { emoji?: string; customEmojiId?: string }[]; big?: boolean } }>(
+    '/messages/:messageId/reactions',
+    async (request) => {
+      const { dialogId, big } = request.body;
+      if (!dialogId || !Array.isArray(request.body.reactions)) throw { statusCode: 400, message: 'dialogId, reactions required' };
+      const parsed = request.body.reactions.map(parseReaction);
+      if (parsed.some((r) => !r)) throw { statusCode: 400, message: 'Each reaction needs emoji or customEmojiId' };
+      const reactions = await account(request).setReactions(dialogId, parseInt(request.params.messageId, 10), parsed as Reaction[], !!big);
+      return { ok: true, reactions };
+    }
+  );
+
+  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string; emoji?: string; customEmojiId?: string; offset?: string; limit?: string } }>(
+    '/messages/:messageId/reactions',
+    async (request) => {
+      const { dialogId, offset, limit } = request.query;
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
+      return account(request).getReactionList(dialogId, parseInt(request.params.messageId, 10), {
+        reaction: parseReaction(request.query) ?? undefined,
+        offset,
+        limit: parseInt(limit || '50', 10),
+      });
+    }
+  );
+
+  app.post<{ Params: { messageId: string }; Body: { dialogId: string; options: string[] } }>(
+    '/messages/:messageId/poll/vote',
+    async (request) => {
+      const { dialogId } = request.body;
+      const options = parsePollOptions(request.body.options);
+      if (!dialogId || !options || options.length === 0) throw { statusCode: 400, message: 'dialogId and options required' };
+      const poll = await account(request).votePoll(dialogId, parseInt(request.params.messageId, 10), options);
+      return { ok: true, poll };
+    }
+  );
+
+  app.delete<{ Params: { messageId: string }; Body: { dialogId: string } }>(
+    '/messages/:messageId/poll/vote',
+    async (request) => {
+      const { dialogId } = request.body || {};
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
+      const poll = await account(request).votePoll(dialogId, parseInt(request.params.messageId, 10), []);
+      return { ok: true, poll };
+    }
+  );
+
+  app.post<{ Params: { messageId: string }; Body: { dialogId: string } }>(
+    '/messages/:messageId/poll/close',
+    async (request) => {
+      const { dialogId } = request.body || {};
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
+      const poll = await account(request).closePoll(dialogId, parseInt(request.params.messageId, 10));
+      return { ok: true, poll };
+    }
+  );
+
+  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string; option?: string; offset?: string; limit?: string } }>(
+    '/messages/:messageId/poll/votes',
+    async (request) => {
+      const { dialogId, option, offset, limit } = request.query;
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
+      return account(request).getPollVotes(dialogId, parseInt(request.params.messageId, 10), {
+        option: option ? Buffer.from(option, 'base64') : undefined,
+        offset,
+        limit: parseInt(limit || '50', 10),
+      });
     }
   );
 
@@ -169,29 +671,37 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.body;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
-      await telegram.deleteMessage(dialogId, parseInt(request.params.messageId, 10));
+      await account(request).deleteMessage(dialogId, parseInt(request.params.messageId, 10));
       return { ok: true };
     }
   );
 
-  app.patch<{ Params: { messageId: string }; Body: { dialogId: string; text: string } }>(
+  app.patch<{ Params: { messageId: string }; Body: { dialogId: string; text: string } & FormatOptions }>(
     '/messages/:messageId',
     async (request) => {
       const { dialogId, text } = request.body;
       if (!dialogId || !text) throw { statusCode: 400, message: 'dialogId, text required' };
-      await telegram.editMessage(dialogId, parseInt(request.params.messageId, 10), text);
+      let options: FormatOptions;
+      try {
+        options = parseFormatOptions(request.body, text);
+      } catch (err: unknown) {
+        throw { statusCode: 400, message: (err as Error).message };
+      }
+      await account(request).editMessage(dialogId, parseInt(request.params.messageId, 10), text, options);
       return { ok: true };
     }
   );
 
   // --- Forward Messages ---
-  app.post<{ Params: { messageId: string }; Body: { fromDialogId: string; toDialogId: string; messageIds?: number[] } }>(
+  app.post<{ Params: { messageId: string }; Body: { fromDialogId: string; toDialogId: string; messageIds?: number[]; clientMsgId?: string } }>(
     '/messages/:messageId/forward',
     async (request) => {
       const { fromDialogId, toDialogId, messageIds } = request.body;
       if (!fromDialogId || !toDialogId) throw { statusCode: 400, message: 'fromDialogId, toDialogId required' };
       const ids = messageIds || [parseInt(request.params.messageId, 10)];
-      const forwarded = await telegram.forwardMessages(fromDialogId, toDialogId, ids);
+      const telegram = account(request);
+      const forwarded = await telegram.sendOnce(requestClientMsgId(request), toDialogId, () =>
+        telegram.forwardMessages(fromDialogId, toDialogId, ids));
       return { ok: true, messages: forwarded };
     }
   );
@@ -202,7 +712,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId, silent } = request.body;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
-      await telegram.pinMessage(dialogId, parseInt(request.params.messageId, 10), silent);
+      await account(request).pinMessage(dialogId, parseInt(request.params.messageId, 10), silent);
       return { ok: true };
     }
   );
@@ -212,19 +722,19 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.body;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId required' };
-      await telegram.unpinMessage(dialogId, parseInt(request.params.messageId, 10));
+      await account(request).unpinMessage(dialogId, parseInt(request.params.messageId, 10));
       return { ok: true };
     }
   );
 
   // --- Archive / Unarchive ---
   app.post<{ Params: { dialogId: string } }>('/dialogs/:dialogId/archive', async (request) => {
-    await telegram.archiveChat(request.params.dialogId);
+    await account(request).archiveChat(request.params.dialogId);
     return { ok: true };
   });
 
   app.post<{ Params: { dialogId: string } }>('/dialogs/:dialogId/unarchive', async (request) => {
-    await telegram.unarchiveChat(request.params.dialogId);
+    await account(request).unarchiveChat(request.params.dialogId);
     return { ok: true };
   });
 
@@ -232,19 +742,19 @@ export async function createServer(telegram: TelegramService) {
   app.post<{ Params: { dialogId: string }; Body: { duration?: number } }>(
     '/dialogs/:dialogId/mute',
     async (request) => {
-      await telegram.muteChat(request.params.dialogId, request.body?.duration);
+      await account(request).muteChat(request.params.dialogId, request.body?.duration);
       return { ok: true };
     }
   );
 
   // --- Scheduled Messages ---
   app.get<{ Params: { dialogId: string } }>('/dialogs/:dialogId/scheduled', async (request) => {
-    return telegram.getScheduledMessages(request.params.dialogId);
+    return account(request).getScheduledMessages(request.params.dialogId);
   });
 
   // --- Drafts ---
   app.get<{ Params: { dialogId: string } }>('/dialogs/:dialogId/draft', async (request) => {
-    const draft = await telegram.getDraft(request.params.dialogId);
+    const draft = await account(request).getDraft(request.params.dialogId);
     return draft || { text: null };
   });
 
@@ -253,19 +763,19 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { text, replyTo } = request.body;
       if (!text) throw { statusCode: 400, message: 'text required' };
-      await telegram.saveDraft(request.params.dialogId, text, replyTo);
+      await account(request).saveDraft(request.params.dialogId, text, replyTo);
       return { ok: true };
     }
   );
 
   app.delete<{ Params: { dialogId: string } }>('/dialogs/:dialogId/draft', async (request) => {
-    await telegram.clearDraft(request.params.dialogId);
+    await account(request).clearDraft(request.params.dialogId);
     return { ok: true };
   });
 
   // --- Folders ---
-  app.get('/folders', async () => {
-    return telegram.getFolders();
+  app.get('/folders', async (request) => {
+    return account(request).getFolders();
   });
 
   app.post<{ Body: { title: string; includePeerIds?: string[]; excludePeerIds?: string[] } }>(
@@ -273,7 +783,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { title, includePeerIds, excludePeerIds } = request.body;
       if (!title) throw { statusCode: 400, message: 'title required' };
-      return telegram.createFolder(title, includePeerIds, excludePeerIds);
+      return account(request).createFolder(title, includePeerIds, excludePeerIds);
     }
   );
 
@@ -282,13 +792,13 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { title, includePeerIds, excludePeerIds } = request.body;
       if (!title) throw { statusCode: 400, message: 'title required' };
-      await telegram.updateFolder(parseInt(request.params.folderId, 10), title, includePeerIds, excludePeerIds);
+      await account(request).updateFolder(parseInt(request.params.folderId, 10), title, includePeerIds, excludePeerIds);
       return { ok: true };
     }
   );
 
   app.delete<{ Params: { folderId: string } }>('/folders/:folderId', async (request) => {
-    await telegram.deleteFolder(parseInt(request.params.folderId, 10));
+    await account(request).deleteFolder(parseInt(request.params.folderId, 10));
     return { ok: true };
   });
 
@@ -298,7 +808,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { title, userIds, type } = request.body;
       if (!title || !type) throw { statusCode: 400, message: 'title, type required' };
-      return telegram.createGroup(title, userIds || [], type);
+      return account(request).createGroup(title, userIds || [], type);
     }
   );
 
@@ -308,7 +818,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { botUsername, query, dialogId } = request.body;
       if (!botUsername || query === undefined || !dialogId) throw { statusCode: 400, message: 'botUsername, query, dialogId required' };
-      return telegram.getInlineBotResults(botUsername, query, dialogId);
+      return account(request).getInlineBotResults(botUsername, query, dialogId);
     }
   );
 
@@ -317,60 +827,374 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { botUsername, queryId, resultId, dialogId } = request.body;
       if (!queryId || !resultId || !dialogId) throw { statusCode: 400, message: 'queryId, resultId, dialogId required' };
-      return telegram.sendInlineBotResult(botUsername, queryId, resultId, dialogId);
+      return account(request).sendInlineBotResult(botUsername, queryId, resultId, dialogId);
     }
   );
 
   // --- File Upload ---
-  app.post<{ Params: { dialogId: string }; Body: { data: string; fileName: string; mimeType?: string; caption?: string } }>(
+  app.post<{ Params: { dialogId: string }; Body: { data?: string; uploadId?: string; fileName?: string; mimeType?: string; caption?: string; clientMsgId?: string } }>(
     '/dialogs/:dialogId/upload',
-    async (request) => {
+    async (request, reply) => {
       const { dialogId } = request.params;
-      const { data, fileName, mimeType, caption } = request.body;
-      if (!data || !fileName) throw { statusCode: 400, message: 'data (base64) and fileName required' };
-      const buffer = Buffer.from(data, 'base64');
-      return telegram.sendFile(dialogId, buffer, fileName, mimeType, caption);
+      const telegram = account(request);
+      const { fields, file } = await readUpload(request, telegram);
+      if (!file) throw { statusCode: 400, message: 'file (multipart), uploadId or data (base64) required' };
+      try {
+        const staged = Buffer.isBuffer(file) ? null : file;
+        const fileName = uploadField(fields, 'fileName') || staged?.fileName;
+        const mimeType = uploadField(fields, 'mimeType') || staged?.mimeType;
+        const caption = uploadField(fields, 'caption');
+        if (!fileName) throw { statusCode: 400, message: 'fileName required' };
+        const clientMsgId = requestClientMsgId(request, fields);
+        if (telegram.shouldQueueSend(clientMsgId)) {
+          reply.code(202);
+          if (!staged) return telegram.queueSend(dialogId, 'file', { data: fields.data as string, fileName, mimeType, caption }, clientMsgId);
+          return telegram.queueUpload(dialogId, 'file', staged, { fileName, mimeType, caption }, clientMsgId);
+        }
+        return await telegram.sendOnce(clientMsgId, dialogId, () => telegram.sendFile(dialogId, file, fileName, mimeType, caption, { clientMsgId }));
+      } finally {
+        telegram.releaseUpload(file);
+      }
     }
   );
 
   // --- Voice Upload ---
-  app.post<{ Params: { dialogId: string }; Body: { data: string; duration: number; waveform?: number[] } }>(
+  app.post<{ Params: { dialogId: string }; Body: { data?: string; uploadId?: string; duration?: number; waveform?: number[]; clientMsgId?: string } }>(
     '/dialogs/:dialogId/voice',
+    async (request, reply) => {
+      const { dialogId } = request.params;
+      const telegram = account(request);
+      const { fields, file } = await readUpload(request, telegram);
+      if (!file) throw { statusCode: 400, message: 'file (multipart), uploadId or data (base64) required' };
+      try {
+        // Multipart fields arrive as strings: a number, and a JSON array
+        const duration = Number(fields.duration) || 0;
+        let waveform = fields.waveform as number[] | string | undefined;
+        if (typeof waveform === 'string') {
+          try { waveform = JSON.parse(waveform) as number[]; } catch { throw { statusCode: 400, message: 'waveform must be a JSON array of numbers' }; }
+        }
+        const clientMsgId = requestClientMsgId(request, fields);
+        if (telegram.shouldQueueSend(clientMsgId)) {
+          reply.code(202);
+          if (Buffer.isBuffer(file)) return telegram.queueSend(dialogId, 'voice', { data: fields.data as string, duration, waveform }, clientMsgId);
+          return telegram.queueUpload(dialogId, 'voice', file, { duration, waveform }, clientMsgId);
+        }
+        return await telegram.sendOnce(clientMsgId, dialogId, () => telegram.sendVoice(dialogId, file, duration, waveform as number[] | undefined, { clientMsgId }));
+      } finally {
+        telegram.releaseUpload(file);
+      }
+    }
+  );
+
+  // --- Album Upload ---
+  app.post<{ Params: { dialogId: string }; Body: { items?: Array<{ uploadId?: string; data?: string; fileName?: string; mimeType?: string; caption?: string }>; clientMsgId?: string } }>(
+    '/dialogs/:dialogId/album',
     async (request) => {
       const { dialogId } = request.params;
-      const { data, duration, waveform } = request.body;
-      if (!data) throw { statusCode: 400, message: 'data (base64) required' };
-      const buffer = Buffer.from(data, 'base64');
-      return telegram.sendVoice(dialogId, buffer, duration || 0, waveform);
+      const telegram = account(request);
+      const { fields, items } = await readAlbum(request, telegram);
+      try {
+        const clientMsgId = requestClientMsgId(request, fields);
+        return await telegram.sendOnce(clientMsgId, dialogId, () => telegram.sendAlbum(dialogId, items, { clientMsgId }));
+      } finally {
+        for (const item of items) telegram.releaseUpload(item.source);
+      }
     }
   );
 
+  // --- Polls ---
+  app.post<{ Params: { dialogId: string }; Body: Record<string, unknown> & { replyTo?: number; clientMsgId?: string } }>(
+    '/dialogs/:dialogId/polls',
+    async (request) => {
+      const { dialogId } = request.params;
+      const body = request.body || {};
+      let poll: NewPoll;
+      try {
+        poll = parseNewPoll(body);
+      } catch (err: unknown) {
+        throw { statusCode: 400, message: (err as Error).message };
+      }
+      const telegram = account(request);
+      const clientMsgId = requestClientMsgId(request);
+      return telegram.sendOnce(clientMsgId, dialogId, () => telegram.sendPoll(dialogId, poll, body.replyTo));
+    }
+  );
+
+  // --- Chunked Uploads ---
+  app.post<{ Body: { fileName: string; size: number; mimeType?: string; partSize?: number } }>('/uploads', async (request, reply) => {
+    const { fileName, size, mimeType, partSize } = request.body || {};
+    try {
+      const session = account(request).createUpload({ fileName, size, mimeType, partSize });
+      reply.code(201);
+      return session;
+    } catch (e) {
+      throw { statusCode: 400, message: (e as Error).message };
+    }
+  });
+
+  app.get<{ Params: { uploadId: string } }>('/uploads/:uploadId', async (request) => {
+    const session = account(request).getUpload(request.params.uploadId);
+    if (!session) throw { statusCode: 404, message: 'Unknown upload' };
+    return session;
+  });
+
+  app.put<{ Params: { uploadId: string; part: string } }>('/uploads/:uploadId/parts/:part', async (request) => {
+    const { uploadId, part } = request.params;
+    const telegram = account(request);
+    if (!telegram.getUpload(uploadId)) throw { statusCode: 404, message: 'Unknown upload' };
+    if (!(request.body instanceof Readable)) throw { statusCode: 415, message: 'Send the part as application/octet-stream' };
+    try {
+      return await telegram.writeUploadPart(uploadId, Number(part), request.body);
+    } catch (e) {
+      throw { statusCode: 400, message: (e as Error).message };
+    }
+  });
+
+  app.delete<{ Params: { uploadId: string } }>('/uploads/:uploadId', async (request) => {
+    if (!account(request).removeUpload(request.params.uploadId)) throw { statusCode: 404, message: 'Unknown upload' };
+    return { ok: true };
+  });
+
+  // --- Offline Outbox ---
+  app.get('/outbox', async (request) => {
+    return account(request).getOutbox();
+  });
+
+  app.post<{ Params: { clientMsgId: string } }>('/outbox/:clientMsgId/retry', async (request) => {
+    const item = account(request).retryOutboxItem(request.params.clientMsgId);
+    if (!item) throw { statusCode: 404, message: 'Not in outbox' };
+    return item;
+  });
+
+  app.delete<{ Params: { clientMsgId: string } }>('/outbox/:clientMsgId', async (request) => {
+    if (!account(request).removeOutboxItem(request.params.clientMsgId)) {
+      throw { statusCode: 404, message: 'Not in outbox' };
+    }
+    return { ok: true };
+  });
+
+  // --- Schedules ---
+  app.get('/schedules', async (request) => {
+    return account(request).listSchedules();
+  });
+
+  app.post<{ Body: Record<string, unknown> }>('/schedules', async (request, reply) => {
+    let spec: ScheduleSpec;
+    try {
+      spec = parseSchedule(request.body || {});
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    reply.code(201);
+    return account(request).createSchedule(spec);
+  });
+
+  app.get<{ Params: { scheduleId: string } }>('/schedules/:scheduleId', async (request) => {
+    const schedule = account(request).getSchedule(request.params.scheduleId);
+    if (!schedule) throw { statusCode: 404, message: 'Unknown schedule' };
+    return schedule;
+  });
+
+  app.patch<{ Params: { scheduleId: string }; Body: Record<string, unknown> }>('/schedules/:scheduleId', async (request) => {
+    const telegram = account(request);
+    const existing = telegram.getSchedule(request.params.scheduleId);
+    if (!existing) throw { statusCode: 404, message: 'Unknown schedule' };
+    let spec: ScheduleSpec;
+    try {
+      spec = parseSchedule(request.body || {}, existing);
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    const schedule = telegram.updateSchedule(existing.id, spec);
+    if (!schedule) throw { statusCode: 404, message: 'Unknown schedule' };
+    return schedule;
+  });
+
+  app.delete<{ Params: { scheduleId: string } }>('/schedules/:scheduleId', async (request) => {
+    if (!account(request).deleteSchedule(request.params.scheduleId)) throw { statusCode: 404, message: 'Unknown schedule' };
+    return { ok: true };
+  });
+
+  app.post<{ Params: { scheduleId: string } }>('/schedules/:scheduleId/pause', async (request) => {
+    const schedule = account(request).pauseSchedule(request.params.scheduleId);
+    if (!schedule) throw { statusCode: 404, message: 'Unknown schedule' };
+    return schedule;
+  });
+
+  app.post<{ Params: { scheduleId: string } }>('/schedules/:scheduleId/resume', async (request) => {
+    const schedule = account(request).resumeSchedule(request.params.scheduleId);
+    if (!schedule) throw { statusCode: 404, message: 'Unknown schedule' };
+    return schedule;
+  });
+
+  // --- Rules ---
+  app.get('/rules', async (request) => {
+    return account(request).listRules();
+  });
+
+  app.post<{ Body: Record<string, unknown> }>('/rules', async (request, reply) => {
+    let spec: RuleSpec;
+    try {
+      spec = parseRule(request.body || {});
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    reply.code(201);
+    return account(request).createRule(spec);
+  });
+
+  app.post<{ Body: { rule: Record<string, unknown>; dialogId?: string; limit?: number } }>('/rules/test', async (request) => {
+    const { rule, dialogId, limit } = request.body;
+    let spec: RuleSpec;
+    try {
+      spec = parseRule(rule);
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    return account(request).testRule(spec, { dialogId, limit });
+  });
+
+  app.get<{ Querystring: { ruleId?: string; dialogId?: string; limit?: string } }>('/rules/runs', async (request) => {
+    const { ruleId, dialogId, limit } = request.query;
+    return account(request).getRuleRuns({ ruleId, dialogId }, Math.min(parseInt(limit || '100', 10), 1000));
+  });
+
+  app.get<{ Params: { ruleId: string } }>('/rules/:ruleId', async (request) => {
+    const rule = account(request).getRule(request.params.ruleId);
+    if (!rule) throw { statusCode: 404, message: 'Unknown rule' };
+    return rule;
+  });
+
+  app.patch<{ Params: { ruleId: string }; Body: Record<string, unknown> }>('/rules/:ruleId', async (request) => {
+    let changes: Partial<RuleSpec>;
+    try {
+      changes = parseRuleChanges(request.body || {});
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    const rule = await account(request).updateRule(request.params.ruleId, changes);
+    if (!rule) throw { statusCode: 404, message: 'Unknown rule' };
+    return rule;
+  });
+
+  app.delete<{ Params: { ruleId: string } }>('/rules/:ruleId', async (request) => {
+    if (!await account(request).deleteRule(request.params.ruleId)) throw { statusCode: 404, message: 'Unknown rule' };
+    return { ok: true };
+  });
+
+  app.post<{ Params: { ruleId: string }; Body: { dialogId?: string; limit?: number } | null }>('/rules/:ruleId/test', async (request) => {
+    const telegram = account(request);
+    const rule = telegram.getRule(request.params.ruleId);
+    if (!rule) throw { statusCode: 404, message: 'Unknown rule' };
+    const { dialogId, limit } = request.body || {};
+    return telegram.testRule(rule, { dialogId, limit });
+  });
+
+  // --- Webhooks ---
+  app.get('/webhooks', async (request) => {
+    return account(request).listWebhooks();
+  });
+
+  app.post<{ Body: Record<string, unknown> }>('/webhooks', async (request, reply) => {
+    let spec: WebhookSpec & { secret?: string };
+    try {
+      spec = parseWebhookSpec(request.body || {});
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    reply.code(201);
+    return account(request).createWebhook(spec);
+  });
+
+  app.get<{ Querystring: { status?: WebhookDeliveryStatus; webhookId?: string } }>('/webhooks/deliveries', async (request) => {
+    const { status, webhookId } = request.query;
+    return account(request).getWebhookDeliveries({ status, webhookId });
+  });
+
+  app.post<{ Params: { deliveryId: string } }>('/webhooks/deliveries/:deliveryId/retry', async (request) => {
+    const delivery = account(request).retryWebhookDelivery(request.params.deliveryId);
+    if (!delivery) throw { statusCode: 404, message: 'Unknown delivery' };
+    return delivery;
+  });
+
+  app.delete<{ Params: { deliveryId: string } }>('/webhooks/deliveries/:deliveryId', async (request) => {
+    if (!account(request).removeWebhookDelivery(request.params.deliveryId)) throw { statusCode: 404, message: 'Unknown delivery' };
+    return { ok: true };
+  });
+
+  app.get<{ Params: { webhookId: string } }>('/webhooks/:webhookId', async (request) => {
+    const webhook = account(request).getWebhook(request.params.webhookId);
+    if (!webhook) throw { statusCode: 404, message: 'Unknown webhook' };
+    return webhook;
+  });
+
+  app.patch<{ Params: { webhookId: string }; Body: Record<string, unknown> }>('/webhooks/:webhookId', async (request) => {
+    let changes: WebhookChanges;
+    try {
+      changes = parseWebhookChanges(request.body || {});
+    } catch (err: unknown) {
+      throw { statusCode: 400, message: (err as Error).message };
+    }
+    const webhook = await account(request).updateWebhook(request.params.webhookId, changes);
+    if (!webhook) throw { statusCode: 404, message: 'Unknown webhook' };
+    return webhook;
+  });
+
+  app.delete<{ Params: { webhookId: string } }>('/webhooks/:webhookId', async (request) => {
+    if (!await account(request).deleteWebhook(request.params.webhookId)) throw { statusCode: 404, message: 'Unknown webhook' };
+    return { ok: true };
+  });
+
   // --- Media ---
-  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string } }>(
+  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string } }>('/media/:messageId/token', async (request) => {
+    const { dialogId } = request.query;
+    if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
+    const accountId = account(request).getAccountId();
+    return createMediaToken({ accountId, dialogId, messageId: parseInt(request.params.messageId, 10) });
+  });
+
+  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string; thumb?: string; token?: string } }>(
     '/media/:messageId',
     async (request, reply) => {
       const { dialogId } = request.query;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
-      const result = await telegram.downloadMedia(parseInt(request.params.messageId, 10), dialogId);
-      if (!result) { reply.code(404).send({ error: 'No media' }); return; }
-      reply.type(result.mimeType).send(result.buffer);
+      const { thumb } = request.query;
+      if (thumb !== undefined && !isThumbSize(thumb)) throw { statusCode: 400, message: 'thumb must be one of: small, medium, large' };
+      const media = await account(request).openMedia(dialogId, parseInt(request.params.messageId, 10), thumb);
+      if (!media) { reply.code(404).send({ error: 'No media' }); return; }
+
+      reply.header('Accept-Ranges', 'bytes');
+      if (media.etag) reply.header('ETag', `"${media.etag}"`);
+      if (media.fileName) reply.header('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(media.fileName)}`);
+
+      const header = request.headers.range;
+      const range = header ? parseRange(header, media.size) : { start: 0, end: media.size - 1 };
+      if (!range) {
+        reply.code(416).header('Content-Range', `bytes */${media.size}`).send({ error: 'Range not satisfiable' });
+        return reply;
+      }
+      reply.type(media.mimeType);
+      if (header) reply.code(206).header('Content-Range', `bytes ${range.start}-${range.end}/${media.size}`);
+      reply.header('Content-Length', range.end - range.start + 1);
+      if (media.size === 0 || request.method === 'HEAD') return reply.send();
+      return reply.send(media.read(range.start, range.end));
     }
   );
 
   // --- Profile ---
   app.get<{ Params: { userId: string } }>('/profile/:userId', async (request) => {
-    return telegram.getUserProfile(request.params.userId);
+    return account(request).getUserProfile(request.params.userId);
   });
 
   app.get<{ Params: { userId: string } }>('/profile/:userId/photo', async (request, reply) => {
-    const result = await telegram.getProfilePhoto(request.params.userId);
+    const result = await account(request).getProfilePhoto(request.params.userId);
     if (!result) { reply.code(404).send({ error: 'No photo' }); return; }
     reply.type(result.mimeType).send(result.buffer);
   });
 
   // --- Privacy Settings ---
-  app.get('/settings/privacy', async () => {
-    return telegram.getPrivacySettings();
+  app.get('/settings/privacy', async (request) => {
+    return account(request).getPrivacySettings();
   });
 
   app.put<{ Body: { key: string; value: string } }>('/settings/privacy', async (request) => {
@@ -383,7 +1207,7 @@ export async function createServer(telegram: TelegramService) {
     if (!value || !validValues.includes(value as typeof validValues[number])) {
       throw { statusCode: 400, message: 'value must be one of: everybody, contacts, nobody' };
     }
-    await telegram.setPrivacySetting(
+    await account(request).setPrivacySetting(
       key as typeof validKeys[number],
       value as typeof validValues[number],
     );
@@ -391,38 +1215,43 @@ export async function createServer(telegram: TelegramService) {
   });
 
   // --- Account Settings ---
-  app.get('/settings/account', async () => {
-    return telegram.getAccountSettings();
+  app.get('/settings/account', async (request) => {
+    return account(request).getAccountSettings();
   });
 
   app.put<{ Body: { firstName?: string; lastName?: string; bio?: string } }>('/settings/account', async (request) => {
     const { firstName, lastName, bio } = request.body;
-    await telegram.updateProfile({ firstName, lastName, bio });
+    await account(request).updateProfile({ firstName, lastName, bio });
     return { ok: true };
   });
 
   app.put<{ Body: { username: string } }>('/settings/username', async (request) => {
     const { username } = request.body;
     if (!username) throw { statusCode: 400, message: 'username required' };
-    await telegram.updateUsername(username);
+    await account(request).updateUsername(username);
     return { ok: true };
   });
 
-  app.put<{ Body: { data: string } }>('/settings/photo', async (request) => {
-    const { data } = request.body;
-    if (!data) throw { statusCode: 400, message: 'data (base64) required' };
-    await telegram.uploadProfilePhoto(data);
+  app.put<{ Body: { data?: string; uploadId?: string } }>('/settings/photo', async (request) => {
+    const telegram = account(request);
+    const { file } = await readUpload(request, telegram);
+    if (!file) throw { statusCode: 400, message: 'file (multipart), uploadId or data (base64) required' };
+    try {
+      await telegram.uploadProfilePhoto(file);
+    } finally {
+      telegram.releaseUpload(file);
+    }
     return { ok: true };
   });
 
-  app.delete('/settings/photo', async () => {
-    await telegram.deleteProfilePhoto();
+  app.delete('/settings/photo', async (request) => {
+    await account(request).deleteProfilePhoto();
     return { ok: true };
   });
 
   // --- Two-Step Verification (2FA) ---
-  app.get('/settings/2fa', async () => {
-    return telegram.get2FAStatus();
+  app.get('/settings/2fa', async (request) => {
+    return account(request).get2FAStatus();
   });
 
   app.post<{ Body: { currentPassword?: string; newPassword: string; hint?: string; email?: string } }>(
@@ -430,7 +1259,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { currentPassword, newPassword, hint, email } = request.body;
       if (!newPassword) throw { statusCode: 400, message: 'newPassword required' };
-      await telegram.set2FA({ currentPassword, newPassword, hint, email });
+      await account(request).set2FA({ currentPassword, newPassword, hint, email });
       return { ok: true };
     }
   );
@@ -438,22 +1267,22 @@ export async function createServer(telegram: TelegramService) {
   app.delete<{ Body: { password: string } }>('/settings/2fa', async (request) => {
     const { password } = request.body;
     if (!password) throw { statusCode: 400, message: 'password required' };
-    await telegram.disable2FA(password);
+    await account(request).disable2FA(password);
     return { ok: true };
   });
 
   // --- Active Sessions ---
-  app.get('/settings/sessions', async () => {
-    return telegram.getSessions();
+  app.get('/settings/sessions', async (request) => {
+    return account(request).getSessions();
   });
 
   app.delete<{ Params: { hash: string } }>('/settings/sessions/:hash', async (request) => {
-    await telegram.terminateSession(request.params.hash);
+    await account(request).terminateSession(request.params.hash);
     return { ok: true };
   });
 
-  app.delete('/settings/sessions', async () => {
-    await telegram.terminateAllOtherSessions();
+  app.delete('/settings/sessions', async (request) => {
+    await account(request).terminateAllOtherSessions();
     return { ok: true };
   });
 
@@ -461,24 +1290,24 @@ export async function createServer(telegram: TelegramService) {
   app.get<{ Querystring: { limit?: string; offset?: string } }>('/settings/blocked', async (request) => {
     const limit = parseInt(request.query.limit || '20', 10);
     const offset = parseInt(request.query.offset || '0', 10);
-    return telegram.getBlockedUsers(limit, offset);
+    return account(request).getBlockedUsers(limit, offset);
   });
 
   app.post<{ Body: { userId: string } }>('/settings/blocked', async (request) => {
     const { userId } = request.body;
     if (!userId) throw { statusCode: 400, message: 'userId required' };
-    await telegram.blockUser(userId);
+    await account(request).blockUser(userId);
     return { ok: true };
   });
 
   app.delete<{ Params: { userId: string } }>('/settings/blocked/:userId', async (request) => {
-    await telegram.unblockUser(request.params.userId);
+    await account(request).unblockUser(request.params.userId);
     return { ok: true };
   });
 
   // --- Notification Settings ---
-  app.get('/settings/notifications', async () => {
-    return telegram.getNotificationSettings();
+  app.get('/settings/notifications', async (request) => {
+    return account(request).getNotificationSettings();
   });
 
   app.put<{ Body: { scope: string; muteUntil?: number; sound?: string; showPreviews?: boolean } }>(
@@ -489,7 +1318,7 @@ export async function createServer(telegram: TelegramService) {
       if (!scope || !validScopes.includes(scope as typeof validScopes[number])) {
         throw { statusCode: 400, message: 'scope must be one of: private, group, channel' };
       }
-      await telegram.updateNotificationSettings(
+      await account(request).updateNotificationSettings(
         scope as typeof validScopes[number],
         { muteUntil, sound, showPreviews },
       );
@@ -498,8 +1327,8 @@ export async function createServer(telegram: TelegramService) {
   );
 
   // --- Auto-Download Settings ---
-  app.get('/settings/autodownload', async () => {
-    return telegram.getAutoDownloadSettings();
+  app.get('/settings/autodownload', async (request) => {
+    return account(request).getAutoDownloadSettings();
   });
 
   app.put<{ Body: { photos: boolean; videos: boolean; files: boolean; maxFileSize?: number } }>(
@@ -509,7 +1338,7 @@ export async function createServer(telegram: TelegramService) {
       if (photos === undefined || videos === undefined || files === undefined) {
         throw { statusCode: 400, message: 'photos, videos, files required (boolean)' };
       }
-      await telegram.saveAutoDownloadSettings({ photos, videos, files, maxFileSize });
+      await account(request).saveAutoDownloadSettings({ photos, videos, files, maxFileSize });
       return { ok: true };
     }
   );
@@ -520,7 +1349,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { q, limit, offsetId, offsetPeer } = request.query;
       if (!q) throw { statusCode: 400, message: 'q required' };
-      return telegram.searchGlobal(
+      return account(request).searchGlobal(
         q,
         parseInt(limit || '20', 10),
         offsetId ? parseInt(offsetId, 10) : undefined,
@@ -529,25 +1358,124 @@ export async function createServer(telegram: TelegramService) {
     }
   );
 
+  // --- Local Search (SQLite FTS5, works offline) ---
+  app.get<{
+    Querystring: {
+      q: string; dialogId?: string; senderId?: string; sender?: string; after?: string; before?: string;
+      mediaType?: string; order?: string; limit?: string; offset?: string;
+    };
+  }>(
+    '/search/local',
+    async (request) => {
+      const { q, dialogId, senderId, sender, after, before, mediaType, order, limit, offset } = request.query;
+      if (!q) throw { statusCode: 400, message: 'q required' };
+      if (order && order !== 'date' && order !== 'rank') throw { statusCode: 400, message: 'order must be date or rank' };
+      return account(request).searchLocal({
+        query: q,
+        dialogId,
+        senderId,
+        senderName: sender,
+        after: after ? parseInt(after, 10) : undefined,
+        before: before ? parseInt(before, 10) : undefined,
+        mediaTypes: mediaType ? mediaType.split(',') : undefined,
+        order: order as 'date' | 'rank' | undefined,
+        limit: Math.min(parseInt(limit || '20', 10), 100),
+        offset: offset ? parseInt(offset, 10) : 0,
+      });
+    }
+  );
+
+  // --- History Backfill ---
+  app.get('/backfill', async (request) => {
+    return account(request).getBackfillStatus();
+  });
+
+  app.post<{ Body: { dialogIds?: string[]; folderIds?: number[] } }>(
+    '/backfill',
+    async (request) => {
+      const { dialogIds = [], folderIds = [] } = request.body || {};
+      if (!Array.isArray(dialogIds) || !Array.isArray(folderIds)) {
+        throw { statusCode: 400, message: 'dialogIds and folderIds must be arrays' };
+      }
+      if (dialogIds.length === 0 && folderIds.length === 0) {
+        throw { statusCode: 400, message: 'dialogIds or folderIds required' };
+      }
+      const jobs = await account(request).queueBackfill(dialogIds.map(String), folderIds.map(Number));
+      return { ok: true, jobs };
+    }
+  );
+
+  app.delete<{ Params: { dialogId: string } }>('/backfill/:dialogId', async (request) => {
+    if (!account(request).cancelBackfill(request.params.dialogId)) {
+      throw { statusCode: 404, message: 'No backfill job for this dialog' };
+    }
+    return { ok: true };
+  });
+
+  // --- Retention (edit history and deleted messages) ---
+  app.get('/retention', async (request) => {
+    return account(request).getRetentionRules();
+  });
+
+  app.put<{ Body: { dialogIds?: string[]; folderIds?: number[] } }>(
+    '/retention',
+    async (request) => {
+      let rules: RetentionRules;
+      try {
+        rules = parseRetentionRules(request.body || {});
+      } catch (err: unknown) {
+        throw { statusCode: 400, message: (err as Error).message };
+      }
+      return account(request).setRetentionRules(rules);
+    }
+  );
+
+  app.get<{ Params: { messageId: string }; Querystring: { dialogId: string } }>(
+    '/messages/:messageId/revisions',
+    async (request) => {
+      const { dialogId } = request.query;
+      if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
+      const history = account(request).getMessageRevisions(dialogId, parseInt(request.params.messageId, 10));
+      if (!history.current && history.revisions.length === 0) throw { statusCode: 404, message: 'Message not cached' };
+      return history;
+    }
+  );
+
+  app.get<{ Params: { dialogId: string }; Querystring: { limit?: string; offset?: string } }>(
+    '/dialogs/:dialogId/deleted',
+    async (request) => {
+      const { limit, offset } = request.query;
+      return account(request).getDeletedMessages(
+        request.params.dialogId,
+        Math.min(parseInt(limit || '50', 10), 200),
+        offset ? parseInt(offset, 10) : 0,
+      );
+    }
+  );
+
+  app.delete<{ Params: { dialogId: string } }>('/dialogs/:dialogId/retained', async (request) => {
+    return { ok: true, removed: account(request).purgeRetained(request.params.dialogId) };
+  });
+
   // --- Search Dialogs ---
   app.get<{ Querystring: { q: string; limit?: string } }>(
     '/search/dialogs',
     async (request) => {
       const { q, limit } = request.query;
       if (!q) throw { statusCode: 400, message: 'q required' };
-      return telegram.searchDialogs(q, parseInt(limit || '20', 10));
+      return account(request).searchDialogs(q, parseInt(limit || '20', 10));
     }
   );
 
   // --- Logout ---
-  app.post('/logout', async () => {
-    await telegram.logout();
+  app.post('/logout', async (request) => {
+    await account(request).logout();
     return { ok: true };
   });
 
   // --- Mark All as Read ---
   app.post<{ Params: { dialogId: string } }>('/dialogs/:dialogId/readAll', async (request) => {
-    await telegram.markAllAsRead(request.params.dialogId);
+    await account(request).markAllAsRead(request.params.dialogId);
     return { ok: true };
   });
 
@@ -557,7 +1485,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.params;
       const maxId = request.body?.maxId;
-      await telegram.readHistory(dialogId, maxId);
+      await account(request).readHistory(dialogId, maxId);
       return { ok: true };
     }
   );
@@ -568,7 +1496,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.query;
       if (!dialogId) throw { statusCode: 400, message: 'dialogId query param required' };
-      const msg = await telegram.getMessageById(dialogId, parseInt(request.params.messageId, 10));
+      const msg = await account(request).getMessageById(dialogId, parseInt(request.params.messageId, 10));
       if (!msg) throw { statusCode: 404, message: 'Message not found' };
       return msg;
     }
@@ -576,18 +1504,18 @@ export async function createServer(telegram: TelegramService) {
 
   // --- Pinned Messages ---
   app.get<{ Params: { dialogId: string } }>('/dialogs/:dialogId/pinned', async (request) => {
-    return telegram.getPinnedMessages(request.params.dialogId);
+    return account(request).getPinnedMessages(request.params.dialogId);
   });
 
   // --- Leave Chat ---
   app.post<{ Params: { dialogId: string } }>('/dialogs/:dialogId/leave', async (request) => {
-    await telegram.leaveChat(request.params.dialogId);
+    await account(request).leaveChat(request.params.dialogId);
     return { ok: true };
   });
 
   // --- Delete Chat History ---
   app.delete<{ Params: { dialogId: string } }>('/dialogs/:dialogId/history', async (request) => {
-    await telegram.deleteChatHistory(request.params.dialogId);
+    await account(request).deleteChatHistory(request.params.dialogId);
     return { ok: true };
   });
 
@@ -597,17 +1525,22 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { title, about } = request.body;
       if (!title && about === undefined) throw { statusCode: 400, message: 'title or about required' };
-      await telegram.editDialogInfo(request.params.dialogId, { title, about });
+      await account(request).editDialogInfo(request.params.dialogId, { title, about });
       return { ok: true };
     }
   );
 
-  app.put<{ Params: { dialogId: string }; Body: { data: string } }>(
+  app.put<{ Params: { dialogId: string }; Body: { data?: string; uploadId?: string } }>(
     '/dialogs/:dialogId/photo',
     async (request) => {
-      const { data } = request.body;
-      if (!data) throw { statusCode: 400, message: 'data (base64) required' };
-      await telegram.editDialogPhoto(request.params.dialogId, data);
+      const telegram = account(request);
+      const { file } = await readUpload(request, telegram);
+      if (!file) throw { statusCode: 400, message: 'file (multipart), uploadId or data (base64) required' };
+      try {
+        await telegram.editDialogPhoto(request.params.dialogId, file);
+      } finally {
+        telegram.releaseUpload(file);
+      }
       return { ok: true };
     }
   );
@@ -618,7 +1551,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.params;
       const { limit, offset, filter, q } = request.query;
-      return telegram.getMembers(dialogId, {
+      return account(request).getMembers(dialogId, {
         limit: limit ? parseInt(limit, 10) : undefined,
         offset: offset ? parseInt(offset, 10) : undefined,
         filter: filter as 'all' | 'admins' | 'kicked' | 'banned' | 'bots' | undefined,
@@ -632,7 +1565,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { userIds } = request.body;
       if (!userIds || !userIds.length) throw { statusCode: 400, message: 'userIds required' };
-      await telegram.addMembers(request.params.dialogId, userIds);
+      await account(request).addMembers(request.params.dialogId, userIds);
       return { ok: true };
     }
   );
@@ -640,7 +1573,7 @@ export async function createServer(telegram: TelegramService) {
   app.delete<{ Params: { dialogId: string; userId: string }; Body: { ban?: boolean } }>(
     '/dialogs/:dialogId/members/:userId',
     async (request) => {
-      await telegram.removeMember(request.params.dialogId, request.params.userId, request.body?.ban);
+      await account(request).removeMember(request.params.dialogId, request.params.userId, request.body?.ban);
       return { ok: true };
     }
   );
@@ -651,7 +1584,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { userId, deleteMessages } = request.body;
       if (!userId) throw { statusCode: 400, message: 'userId required' };
-      await telegram.banMember(request.params.dialogId, userId, deleteMessages);
+      await account(request).banMember(request.params.dialogId, userId, deleteMessages);
       return { ok: true };
     }
   );
@@ -661,7 +1594,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { userId } = request.body;
       if (!userId) throw { statusCode: 400, message: 'userId required' };
-      await telegram.unbanMember(request.params.dialogId, userId);
+      await account(request).unbanMember(request.params.dialogId, userId);
       return { ok: true };
     }
   );
@@ -685,7 +1618,7 @@ export async function createServer(telegram: TelegramService) {
         manageTopics?: boolean;
         untilDate?: number;
       };
-      await telegram.setMemberPermissions(request.params.dialogId, request.params.userId, body);
+      await account(request).setMemberPermissions(request.params.dialogId, request.params.userId, body);
       return { ok: true };
     }
   );
@@ -696,7 +1629,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { rights } = request.body;
       if (!rights) throw { statusCode: 400, message: 'rights required' };
-      await telegram.promoteAdmin(request.params.dialogId, request.params.userId, rights);
+      await account(request).promoteAdmin(request.params.dialogId, request.params.userId, rights);
       return { ok: true };
     }
   );
@@ -704,7 +1637,7 @@ export async function createServer(telegram: TelegramService) {
   app.delete<{ Params: { dialogId: string; userId: string } }>(
     '/dialogs/:dialogId/admins/:userId',
     async (request) => {
-      await telegram.demoteAdmin(request.params.dialogId, request.params.userId);
+      await account(request).demoteAdmin(request.params.dialogId, request.params.userId);
       return { ok: true };
     }
   );
@@ -713,14 +1646,14 @@ export async function createServer(telegram: TelegramService) {
   app.get<{ Params: { dialogId: string } }>(
     '/dialogs/:dialogId/invite',
     async (request) => {
-      return telegram.getPrimaryInviteLink(request.params.dialogId);
+      return account(request).getPrimaryInviteLink(request.params.dialogId);
     }
   );
 
   app.post<{ Params: { dialogId: string }; Body: { expireDate?: number; usageLimit?: number; requestNeeded?: boolean; title?: string } }>(
     '/dialogs/:dialogId/invite',
     async (request) => {
-      return telegram.createInviteLink(request.params.dialogId, request.body || {});
+      return account(request).createInviteLink(request.params.dialogId, request.body || {});
     }
   );
 
@@ -728,7 +1661,7 @@ export async function createServer(telegram: TelegramService) {
     '/dialogs/:dialogId/invites',
     async (request) => {
       const { limit, revoked } = request.query;
-      return telegram.getInviteLinks(request.params.dialogId, {
+      return account(request).getInviteLinks(request.params.dialogId, {
         limit: limit ? parseInt(limit, 10) : undefined,
         revoked: revoked === 'true',
       });
@@ -740,7 +1673,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { link } = request.body;
       if (!link) throw { statusCode: 400, message: 'link required' };
-      await telegram.revokeInviteLink(request.params.dialogId, link);
+      await account(request).revokeInviteLink(request.params.dialogId, link);
       return { ok: true };
     }
   );
@@ -751,7 +1684,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { link, username } = request.body;
       if (!link && !username) throw { statusCode: 400, message: 'link or username required' };
-      return telegram.joinChat({ link, username });
+      return account(request).joinChat({ link, username });
     }
   );
 
@@ -759,36 +1692,47 @@ export async function createServer(telegram: TelegramService) {
   app.get<{ Params: { dialogId: string } }>(
     '/dialogs/:dialogId/permissions',
     async (request) => {
-      return telegram.getDefaultPermissions(request.params.dialogId);
+      return account(request).getDefaultPermissions(request.params.dialogId);
     }
   );
 
   app.put<{ Params: { dialogId: string }; Body: Record<string, boolean> }>(
     '/dialogs/:dialogId/permissions',
     async (request) => {
-      await telegram.setDefaultPermissions(request.params.dialogId, request.body);
+      await account(request).setDefaultPermissions(request.params.dialogId, request.body);
       return { ok: true };
     }
   );
 
+  app.get<{ Params: { dialogId: string } }>(
+    '/dialogs/:dialogId/reactions',
+    async (request) => {
+      return account(request).getAllowedReactions(request.params.dialogId);
+    }
+  );
+
   // --- Slow Mode ---
   app.put<{ Params: { dialogId: string }; Body: { seconds: number } }>(
     '/dialogs/:dialogId/slowmode',
     async (request) => {
       const { seconds } = request.body;
       if (seconds === undefined) throw { statusCode: 400, message: 'seconds required' };
-      await telegram.setSlowMode(request.params.dialogId, seconds);
+      await account(request).setSlowMode(request.params.dialogId, seconds);
       return { ok: true };
     }
   );
 
   // --- Bot Callback ---
-  app.post<{ Body: { messageId: number; dialogId: string; data: string } }>(
+  app.post<{ Body: { messageId: number; dialogId: string; data?: string; game?: boolean } }>(
     '/bots/callback',
     async (request) => {
-      const { messageId, dialogId, data } = request.body;
-      if (!messageId || !dialogId || !data) throw { statusCode: 400, message: 'messageId, dialogId, data required' };
-      return telegram.getBotCallbackAnswer(dialogId, messageId, data);
+      const { messageId, dialogId, data, game } = request.body;
+      // Game buttons carry no data
+      if (!messageId || !dialogId || (!data && !game)) throw { statusCode: 400, message: 'messageId, dialogId and data (or game) required' };
+      if (data !== undefined && (typeof data !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(data))) {
+        throw { statusCode: 400, message: 'data must be the button\'s base64 data' };
+      }
+      return account(request).getBotCallbackAnswer(dialogId, messageId, data || '', !!game);
     }
   );
 
@@ -797,7 +1741,7 @@ export async function createServer(telegram: TelegramService) {
     '/contacts',
     async (request) => {
       const limit = request.query.limit ? parseInt(request.query.limit, 10) : undefined;
-      return telegram.getContacts(limit);
+      return account(request).getContacts(limit);
     }
   );
 
@@ -806,7 +1750,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { q, limit } = request.query;
       if (!q) throw { statusCode: 400, message: 'q required' };
-      return telegram.searchContacts(q, limit ? parseInt(limit, 10) : undefined);
+      return account(request).searchContacts(q, limit ? parseInt(limit, 10) : undefined);
     }
   );
 
@@ -816,7 +1760,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const limit = request.query.limit ? parseInt(request.query.limit, 10) : 20;
       const offsetId = request.query.offsetId ? parseInt(request.query.offsetId, 10) : undefined;
-      return telegram.getSavedMessages(Math.min(limit, 100), offsetId);
+      return account(request).getSavedMessages(Math.min(limit, 100), offsetId);
     }
   );
 
@@ -826,7 +1770,7 @@ export async function createServer(telegram: TelegramService) {
     async (request) => {
       const { dialogId } = request.params;
       const { limit, offsetDate, offsetId } = request.query;
-      return telegram.listForumTopics(
+      return account(request).listForumTopics(
         dialogId,
         parseInt(limit || '100', 10),
         offsetDate ? parseInt(offsetDate, 10) : undefined,
@@ -841,7 +1785,7 @@ export async function createServer(telegram: TelegramService) {
       const { dialogId } = request.params;
       const { title, iconColor, iconEmojiId, sendAs } = request.body;
       if (!title) throw { statusCode: 400, message: 'title required' };
-      return telegram.createForumTopic(dialogId, title, iconColor, iconEmojiId, sendAs);
+      return account(request).createForumTopic(dialogId, title, iconColor, iconEmojiId, sendAs);
     }
   );
 
@@ -849,7 +1793,7 @@ export async function createServer(telegram: TelegramService) {
     '/dialogs/:dialogId/topics/:topicId',
     async (request) => {
       const { dialogId, topicId } = request.params;
-      await telegram.editForumTopic(dialogId, parseInt(topicId, 10), request.body);
+      await account(request).editForumTopic(dialogId, parseInt(topicId, 10), request.body);
       return { ok: true };
     }
   );
@@ -858,7 +1802,7 @@ export async function createServer(telegram: TelegramService) {
     '/dialogs/:dialogId/topics/:topicId',
     async (request) => {
       const { dialogId, topicId } = request.params;
-      await telegram.deleteForumTopic(dialogId, parseInt(topicId, 10));
+      await account(request).deleteForumTopic(dialogId, parseInt(topicId, 10));
       return { ok: true };
     }
   );
@@ -867,7 +1811,7 @@ export async function createServer(telegram: TelegramService) {
     '/dialogs/:dialogId/topics/:topicId/pin',
     async (request) => {
       const { dialogId, topicId } = request.params;
-      await telegram.pinForumTopic(dialogId, parseInt(topicId, 10), true);
+      await account(request).pinForumTopic(dialogId, parseInt(topicId, 10), true);
       return { ok: true };
     }
   );
@@ -876,66 +1820,95 @@ export async function createServer(telegram: TelegramService) {
     '/dialogs/:dialogId/topics/:topicId/unpin',
     async (request) => {
       const { dialogId, topicId } = request.params;
-      await telegram.pinForumTopic(dialogId, parseInt(topicId, 10), false);
+      await account(request).pinForumTopic(dialogId, parseInt(topicId, 10), false);
       return { ok: true };
     }
   );
 
   // --- WebSocket Events ---
+  // Durable events carry `seq`. Reconnect with `/events?since=<last seq>` to get missed
+  // events replayed before live ones; a `replayComplete` frame marks the switch.
+  // Clients narrow the stream with `?dialogs=&types=&folders=` or a `subscribe` frame.
   let wsClientCount = 0;
   app.register(async function (fastify) {
-    fastify.get('/events', { websocket: true }, (socket) => {
-      wsClientCount++;
-      console.log(`[ws] Client connected (${wsClientCount} total)`);
-
-      const unsubscribe = telegram.onEvent((event: TelegramEvent) => {
-        try {
-          socket.send(JSON.stringify(event));
-        } catch { /* client disconnected */ }
-      });
-
-      socket.on('close', () => {
-        wsClientCount--;
-        console.log(`[ws] Client disconnected (${wsClientCount} remaining)`);
-        unsubscribe();
-      });
-      socket.on('error', () => unsubscribe());
-    });
+    fastify.get<{ Querystring: { since?: string; dialogs?: string; types?: string; folders?: string } }>(
+      '/events',
+      { websocket: true },
+      (socket, request) => {
+        wsClientCount++;
+        console.log(`[ws] Client connected (${wsClientCount} total)`);
+
+        const send = (payload: unknown) => {
+          try {
+            socket.send(JSON.stringify(payload));
+          } catch { /* client disconnected */ }
+        };
+
+        const allowed = request.apiToken?.dialogs;
+        const filter = new EventFilter(allowed ? new Set(allowed) : null);
+        const resolveFolder = (folderId: number) => account(request).getFolderDialogIds(folderId);
+
+        // Live events are held until the initial filter (which may need folder
+        // lookups) is ready, so nothing slips past it or lands ahead of the replay.
+        let pending: SequencedEvent[] | null = [];
+        const unsubscribe = account(request).onEvent((event: SequencedEvent) => {
+          if (pending) pending.push(event);
+          else if (filter.matches(event)) send(event);
+        });
+
+        socket.on('message', (raw: Buffer) => {
+          let msg: Record<string, unknown>;
+          try {
+            msg = JSON.parse(raw.toString());
+          } catch {
+            send({ type: 'error', message: 'Invalid JSON' });
+            return;
+          }
+          if (msg.type !== 'subscribe') return;
+          const spec = parseSubscribeMessage(msg);
+          if (typeof spec === 'string') {
+            send({ type: 'error', message: spec });
+            return;
+          }
+          filter.update(spec, resolveFolder)
+            .then(() => send({ type: 'subscribed', ...filter.current() }))
+            .catch((e: Error) => send({ type: 'error', message: `subscribe failed: ${e.message}` }));
+        });
+
+        const since = request.query.since !== undefined ? parseInt(request.query.since, 10) : NaN;
+        filter.update(parseSubscriptionQuery(request.query), resolveFolder)
+          .catch((e: Error) => send({ type: 'error', message: `subscribe failed: ${e.message}` }))
+          .finally(() => {
+            let replayedUpTo = -1;
+            if (!isNaN(since)) {
+              const { events, latestSeq, complete } = account(request).getEventsSince(since);
+              const matching = events.filter((event) => filter.matches(event));
+              for (const event of matching) send(event);
+              send({ type: 'replayComplete', replayed: matching.length, latestSeq, resync: !complete });
+              replayedUpTo = latestSeq;
+            }
+            const held = pending ?? [];
+            pending = null;
+            for (const event of held) {
+              // Anything logged before the replay read was already covered by it
+              if (event.seq !== undefined && event.seq <= replayedUpTo) continue;
+              if (filter.matches(event)) send(event);
+            }
+          });
+
+        socket.on('close', () => {
+          wsClientCount--;
+          console.log(`[ws] Client disconnected (${wsClientCount} remaining)`);
+          unsubscribe();
+        });
+        socket.on('error', () => unsubscribe());
+      }
+    );
   });
 
   // Debug: emit a test event to all WS clients
-  app.get('/debug/ws-test', async () => {
-    (telegram as any).emit({
-      type: 'newMessage',
-      dialogId: 'test',
-      message: { id: Date.now(), text: '🔔 WS test event', date: Math.floor(Date.now() / 1000), fromId: '0', senderName: 'System', isOutgoing: false },
-    });
+  app.get('/debug/ws-test', async (request) => {
+    account(request).emitTestMessage();
     return { sent: true, wsClients: wsClientCount };
   });
-
-  // --- Error handler ---
-  app.setErrorHandler((error: any, _request, reply) => {
-    const statusCode = error.statusCode || 500;
-    reply.code(statusCode).send({
-      error: error.message || 'Internal Server Error',
-      statusCode,
-    });
-  });
-
-  // --- Start ---
-  writePid();
-
-  const shutdown = async () => {
-    app.log.info('Shutting down...');
-    removePid();
-    await telegram.disconnect();
-    await app.close();
-    process.exit(0);
-  };
-
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
-
-  await app.listen({ port, host: '127.0.0.1' });
-  return app;
 }
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, saveConfig, getAccountCachePath, getAccountMediaDir, DEFAULT_ACCOUNT_ID, DaemonConfig } from './config';
+import {
+  EncryptionConfig, KeySource,
+  getStorageKey, setStorageKey, generateKey, deriveKey, keyCheck, verifyKey,
+  keyringAvailable, readKeyring, writeKeyring, deleteKeyring, canPrompt, promptHidden,
+  isSealedString, sealString, openString,
+} from './encryption';
+
+/**
+ * Unlocking, first-time setup and rotation of the storage key.
+ *
+ * On the first start the daemon picks a key source — a passphrase if
+ * OCEANGRAM_PASSPHRASE is set, else the OS keyring, else a passphrase typed
+ * at the terminal — and seals existing plaintext sessions. Plaintext caches
+ * are encrypted when each account's Cache opens. Set `"encryption": false` in
+ * config.json to keep storage unencrypted.
+ */
+
+const PASSPHRASE_ENV = 'OCEANGRAM_PASSPHRASE';
+/** Rotation reads the new passphrase from here when there is no terminal. */
+const NEW_PASSPHRASE_ENV = 'OCEANGRAM_NEW_PASSPHRASE';
+
+export interface StorageStatus {
+  encrypted: boolean;
+  keySource?: KeySource;
+}
+
+export function storageStatus(): StorageStatus {
+  const { encryption } = loadConfig();
+  return encryption ? { encrypted: true, keySource: encryption.keySource } : { encrypted: false };
+}
+
+/** Unlock the storage key (setting it up on first start) and seal any plaintext sessions. */
+export async function unlockStorage(): Promise<void> {
+  const config = loadConfig();
+  if (config.encryption === false) return;
+
+  if (config.encryption) {
+    setStorageKey(await loadKey(config.encryption));
+  } else {
+    const source = defaultKeySource();
+    if (!source) {
+      console.warn(`[storage] No OS keyring or passphrase available: session and cache stay unencrypted. Set ${PASSPHRASE_ENV} to encrypt them.`);
+      return;
+    }
+    const created = await createKey(source, process.env[PASSPHRASE_ENV]);
+    config.encryption = created.encryption;
+    setStorageKey(created.key);
+    console.log(`[storage] Encrypting session and cache with a ${source} key`);
+  }
+
+  if (sealSessions(config, (s) => s)) saveConfig(config);
+}
+
+/**
+ * Re-encrypt sessions and every cache file under a new key. The daemon must
+ * be stopped: a running one keeps its caches open under the old key.
+ */
+export async function rotateStorageKey(source?: KeySource): Promise<KeySource> {
+  const config = loadConfig();
+  if (!config.encryption) throw new Error('Storage is not encrypted. Start the daemon once to set up encryption');
+  const oldEncryption = config.encryption;
+  const oldKey = await loadKey(oldEncryption);
+
+  const nextSource = source ?? oldEncryption.keySource;
+  if (nextSource === 'keyring' && !keyringAvailable()) throw new Error('No OS keyring available');
+  const next = await createKey(nextSource, process.env[NEW_PASSPHRASE_ENV], true);
+
+  // Write every re-encrypted cache beside the original before switching over. Plaintext
+  // ones are encrypted when they are next opened. Loaded here, as telegram.ts does, so
+  // the daemon still starts where the SQLite addon is missing.
+  const { isPlainDatabase, rekeyDatabase } = await import('./cache');
+  const databases = cacheFiles().filter((file) => !isPlainDatabase(file));
+  for (const file of databases) rekeyDatabase(file, oldKey, next.key, `${file}.rotate`);
+  for (const file of databases) fs.renameSync(`${file}.rotate`, file);
+  // Cached media is only a copy of what's on Telegram: drop it rather than re-encrypt it
+  for (const dir of accountIds().map(getAccountMediaDir)) fs.rmSync(dir, { recursive: true, force: true });
+
+  sealSessions(config, (s) => (isSealedString(s) ? openString(s, oldKey) : s), next.key);
+  config.encryption = next.encryption;
+  saveConfig(config);
+
+  if (oldEncryption.keySource === 'keyring' && oldEncryption.keyId) deleteKeyring(oldEncryption.keyId);
+  return nextSource;
+}
+
+function defaultKeySource(): KeySource | null {
+  if (process.env[PASSPHRASE_ENV]) return 'passphrase';
+  if (keyringAvailable()) return 'keyring';
+  if (canPrompt()) return 'passphrase';
+  return null;
+}
+
+async function createKey(source: KeySource, passphrase?: string, rotating = false): Promise<{ key: Buffer; encryption: EncryptionConfig }> {
+  if (source === 'keyring') {
+    const key = generateKey();
+    const keyId = generateKey().toString('hex').slice(0, 12);
+    writeKeyring(keyId, key);
+    return { key, encryption: { keySource: 'keyring', keyId, check: keyCheck(key) } };
+  }
+
+  if (!passphrase) {
+    const label = rotating ? 'New passphrase' : 'Choose a passphrase to encrypt the Telegram session and cache';
+    passphrase = await promptHidden(`${label}: `);
+    if (!passphrase) throw new Error('Passphrase must not be empty');
+    if (await promptHidden('Repeat passphrase: ') !== passphrase) throw new Error('Passphrases do not match');
+  }
+  const salt = generateKey().subarray(0, 16);
+  const key = deriveKey(passphrase, salt);
+  return { key, encryption: { keySource: 'passphrase', salt: salt.toString('base64'), check: keyCheck(key) } };
+}
+
+async function loadKey(encryption: EncryptionConfig): Promise<Buffer> {
+  let key: Buffer | null;
+  if (encryption.keySource === 'keyring') {
+    key = encryption.keyId ? readKeyring(encryption.keyId) : null;
+    if (!key) throw new Error('Storage key not found in the OS keyring');
+  } else {
+    let passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      if (!canPrompt()) throw new Error(`Storage is locked: set ${PASSPHRASE_ENV} or start from a terminal`);
+      passphrase = await promptHidden('Passphrase: ');
+    }
+    key = deriveKey(passphrase, Buffer.from(encryption.salt || '', 'base64'));
+  }
+  if (!verifyKey(encryption, key)) {
+    throw new Error(encryption.keySource === 'passphrase' ? 'Wrong passphrase' : 'Keyring key does not match this config');
+  }
+  return key;
+}
+
+/**
+ * Seal every session in `config` with `key` (the unlocked key by default),
+ * reading each through `read` first. Returns whether anything changed.
+ */
+function sealSessions(config: DaemonConfig, read: (session: string) => string, key: Buffer | null = getStorageKey()): boolean {
+  if (!key) return false;
+  let changed = false;
+  const reseal = (session: string): string => {
+    const plain = read(session);
+    if (plain === session && isSealedString(session)) return session;
+    changed = true;
+    return sealString(plain, key);
+  };
+  if (config.session) config.session = reseal(config.session);
+  for (const account of Object.values(config.accounts || {})) {
+    if (account.session) account.session = reseal(account.session);
+  }
+  return changed;
+}
+
+/** IDs of all accounts with data on disk, including ones removed from config. */
+function accountIds(): string[] {
+  const accountsDir = path.join(path.dirname(getAccountCachePath(DEFAULT_ACCOUNT_ID)), 'accounts');
+  return [DEFAULT_ACCOUNT_ID, ...(fs.existsSync(accountsDir) ? fs.readdirSync(accountsDir) : [])];
+}
+
+/** Cache databases of all accounts. */
+function cacheFiles(): string[] {
+  return accountIds().map(getAccountCachePath).filter((file) => fs.existsSync(file));
+}
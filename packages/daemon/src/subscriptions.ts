@@ -0,0 +1,97 @@
+import type { SequencedEvent } from './telegram';
+
+/** What a `/events` client wants to receive. Omitted fields don't restrict anything. */
+export interface SubscriptionSpec {
+  dialogIds?: string[];
+  eventTypes?: string[];
+  folderIds?: number[];
+}
+
+export type FolderResolver = (folderId: number) => Promise<string[]>;
+
+/** Whether `dialogId` is in `ids`, counting a forum chat id as covering its topics. */
+export function dialogInSet(ids: ReadonlySet<string>, dialogId: string): boolean {
+  if (ids.has(dialogId)) return true;
+  const sep = dialogId.indexOf(':');
+  return sep > 0 && ids.has(dialogId.slice(0, sep));
+}
+
+/**
+ * Per-socket event filter. `dialogIds` and `folderIds` are combined: a dialog
+ * passes if it's listed directly or belongs to one of the folders. Subscribing
+ * to a forum chat (`-100123`) also covers its topics (`-100123:5`).
+ */
+export class EventFilter {
+  private eventTypes: Set<string> | null = null;
+  private dialogIds: Set<string> | null = null;
+  private spec: SubscriptionSpec = {};
+
+  /** @param allowedDialogIds hard limit (e.g. from an API token) that no subscription can widen */
+  constructor(private readonly allowedDialogIds: ReadonlySet<string> | null = null) {}
+
+  /** Replace the current filter. Folder peers are resolved once, here. */
+  async update(spec: SubscriptionSpec, resolveFolder: FolderResolver): Promise<void> {
+    const eventTypes = spec.eventTypes ? new Set(spec.eventTypes) : null;
+
+    let dialogIds: Set<string> | null = null;
+    if (spec.dialogIds || spec.folderIds) {
+      dialogIds = new Set(spec.dialogIds ?? []);
+      for (const folderId of spec.folderIds ?? []) {
+        for (const id of await resolveFolder(folderId)) dialogIds.add(id);
+      }
+    }
+
+    this.eventTypes = eventTypes;
+    this.dialogIds = dialogIds;
+    this.spec = spec;
+  }
+
+  /** The spec in effect, echoed back to the client in `subscribed` frames. */
+  current(): SubscriptionSpec {
+    return this.spec;
+  }
+
+  matches(event: SequencedEvent): boolean {
+    if (this.eventTypes && !this.eventTypes.has(event.type)) return false;
+    // Presence events carry a user id, which is also that user's private dialog id.
+    // Account-level events (QR login), uploads not being sent anywhere yet and deletions
+    // of messages that weren't cached have no dialog.
+    const dialogId = event.type === 'userStatus' ? event.userId : event.type === 'qrLogin' ? undefined : event.dialogId;
+    // A dialog-limited token only sees what happens in its dialogs
+    if (dialogId === undefined) return !this.allowedDialogIds;
+    if (this.allowedDialogIds && !dialogInSet(this.allowedDialogIds, dialogId)) return false;
+    return !this.dialogIds || dialogInSet(this.dialogIds, dialogId);
+  }
+}
+
+/** Parse a subscription from query params: `?dialogs=1,-1002&types=newMessage&folders=3`. */
+export function parseSubscriptionQuery(query: { dialogs?: string; types?: string; folders?: string }): SubscriptionSpec {
+  const list = (value?: string) => (value === undefined ? undefined : value.split(',').map((s) => s.trim()).filter(Boolean));
+  const spec: SubscriptionSpec = {};
+  const dialogIds = list(query.dialogs);
+  const eventTypes = list(query.types);
+  const folderIds = list(query.folders);
+  if (dialogIds) spec.dialogIds = dialogIds;
+  if (eventTypes) spec.eventTypes = eventTypes;
+  if (folderIds) spec.folderIds = folderIds.map((id) => parseInt(id, 10)).filter((id) => !isNaN(id));
+  return spec;
+}
+
+/** Validate a client `subscribe` frame; returns an error message for malformed input. */
+export function parseSubscribeMessage(msg: Record<string, unknown>): SubscriptionSpec | string {
+  const spec: SubscriptionSpec = {};
+  const { dialogIds, eventTypes, folderIds } = msg;
+  if (dialogIds != null) {
+    if (!Array.isArray(dialogIds)) return 'dialogIds must be an array';
+    spec.dialogIds = dialogIds.map(String);
+  }
+  if (eventTypes != null) {
+    if (!Array.isArray(eventTypes)) return 'eventTypes must be an array';
+    spec.eventTypes = eventTypes.map(String);
+  }
+  if (folderIds != null) {
+    if (!Array.isArray(folderIds) || folderIds.some((id) => typeof id !== 'number')) return 'folderIds must be an array of numbers';
+    spec.folderIds = folderIds as number[];
+  }
+  return spec;
+}
@@ -1,35 +1,132 @@
-import { TelegramClient, Api } from 'telegram';
+import { TelegramClient, Api, utils } from 'telegram';
 import { StringSession } from 'telegram/sessions';
-import { NewMessage, NewMessageEvent } from 'telegram/events';
-import { EditedMessage, EditedMessageEvent } from 'telegram/events/EditedMessage';
-import { DeletedMessage, DeletedMessageEvent } from 'telegram/events/DeletedMessage';
+import { UpdateConnectionState } from 'telegram/network';
+import type { TelegramClientParams } from 'telegram/client/telegramBaseClient';
 import { CustomFile } from 'telegram/client/uploads';
 import { computeCheck } from 'telegram/Password';
 import bigInt from 'big-integer';
-import { getApiId, getApiHash, loadConfig, saveConfig } from './config';
+import { Readable } from 'stream';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  getApiId, getApiHash, getAccountSession, saveAccountSession, getAccountCachePath, getAccountMediaDir, getAccountUploadDir,
+  getBackfillOptions, getMediaCacheOptions, getSchedulerOptions, DEFAULT_ACCOUNT_ID,
+} from './config';
 import type { Cache as CacheType } from './cache';
-
-// Dynamic import — better-sqlite3 may not be available (e.g. bundled without native addon)
-let CacheClass: (new () => CacheType) | null = null;
-try {
-  // eslint-disable-next-line @typescript-eslint/no-require-imports
-  CacheClass = require('./cache').Cache;
-} catch {
-  console.log('[telegram] SQLite cache not available — running without disk cache');
-}
+import { getStorageKey } from './encryption';
+import { MediaCache, MediaSource, MediaWriter, ThumbSize, THUMB_SIZES } from './media-cache';
+import { UploadStore, UploadSession, UploadProgress, UploadTags, UploadSource, StagedFile } from './uploads';
+import { UpdateManager } from './updates';
+import { BackfillWorker, BackfillJob, BackfillProgress } from './backfill';
+import { Outbox, OutboxEntry, OutboxEvent, OutboxItem, OutboxKind, OutboxPayload } from './outbox';
+import { RequestScheduler, SchedulerStats } from './scheduler';
+import { Rule, RuleEngine, RuleRun, RuleSpec, RuleTestMatch } from './rules';
+import { Schedule, ScheduleRunner, ScheduleSpec } from './schedules';
+import { Webhook, WebhookChanges, WebhookDelivery, WebhookDeliveryStatus, WebhookDispatcher, WebhookSpec } from './webhooks';
+import {
+  MessageEntity, LinkPreview, PollInfo, GeoInfo, ContactInfo, ServiceAction, ReplyMarkup,
+  toEntities, toLinkPreview, toPoll, toGeo, toContact, toServiceAction, toReplyMarkup,
+} from './message-content';
+import {
+  Reaction, ReactionCount, ReactionList, AllowedReactions,
+  toReaction, toApiReaction, toReactionCounts, chosenReactions, reactionKey, toReactionList, toAllowedReactions,
+} from './reactions';
+import { NewPoll, PollVoteList, toInputMediaPoll, toClosedInputMediaPoll, mergePollResults, toPollVoteList } from './polls';
+import { FormatOptions, SendOptions, formatText, toInputEntities } from './formatting';
+import { DeletedMessage, MessageRevision, RetentionRules } from './retention';
 
 /** No-op cache fallback when better-sqlite3 is unavailable. */
 const noopCache: CacheType = {
   getDialogs: () => [],
   upsertDialogs: () => {},
   getMessages: () => [],
+  getMessage: () => null,
+  getRecentMessages: () => [],
   upsertMessages: () => {},
   deleteMessage: () => {},
+  searchMessages: () => [],
+  getBackfillJobs: () => [],
+  getBackfillJob: () => null,
+  upsertBackfillJob: () => {},
+  deleteBackfillJob: () => {},
+  getOutbox: () => [],
+  getOutboxItem: () => null,
+  insertOutboxItem: () => {},
+  updateOutboxItem: () => {},
+  deleteOutboxItem: () => {},
+  getSendResult: () => null,
+  saveSendResult: () => {},
+  getClientMsgId: () => null,
+  pruneSendResults: () => {},
+  insertWebhookDelivery: () => {},
+  getWebhookDelivery: () => null,
+  getWebhookDeliveries: () => [],
+  getDueWebhookDeliveries: () => [],
+  getNextWebhookAttempt: () => null,
+  updateWebhookDelivery: () => {},
+  postponeWebhookDeliveries: () => {},
+  deleteWebhookDelivery: () => {},
+  deleteWebhookDeliveries: () => {},
+  insertRuleRun: () => 0,
+  getRuleRuns: () => [],
+  getLastRuleRun: () => null,
+  pruneRuleRuns: () => {},
+  deleteRuleRuns: () => {},
+  getSchedules: () => [],
+  getSchedule: () => null,
+  upsertSchedule: () => {},
+  deleteSchedule: () => {},
+  findMessageDialogs: () => new Map(),
+  setMessageReactions: () => {},
+  findPollMessages: () => [],
+  setMessagePoll: () => {},
+  getUpdateState: () => null,
+  setUpdateState: () => {},
+  getChannelPts: () => new Map(),
+  setChannelPts: () => {},
+  clearUpdateState: () => {},
+  appendEvent: (() => { let seq = 0; return () => ++seq; })(),
+  getEventsSince: () => [],
+  getEventLogBounds: () => ({ oldestSeq: 1, latestSeq: 0 }),
+  pruneEventLog: () => {},
   getProfilePhoto: () => null,
   setProfilePhoto: () => {},
+  getMediaObject: () => null,
+  addMediaObject: () => {},
+  touchMediaObject: () => {},
+  getMediaUsage: () => ({ bytes: 0, count: 0 }),
+  getLeastRecentMedia: () => [],
+  getMediaHashes: () => new Set(),
+  deleteMediaObject: () => {},
+  getRetentionRules: () => ({ dialogIds: [], folderIds: [] }),
+  setRetentionRules: () => {},
+  saveRevision: () => false,
+  getRevisions: () => [],
+  tombstoneMessage: () => false,
+  getDeletedMessage: () => null,
+  getDeletedMessages: () => [],
+  purgeRetained: () => 0,
   close: () => {},
 } as unknown as CacheType;
 
+/** The account's SQLite cache, or the no-op one when it can't be opened. */
+function openCache(accountId: string): CacheType {
+  // Dynamic import — better-sqlite3 may not be available (e.g. bundled without native addon)
+  let CacheClass: new (dbPath: string, key: Buffer | null) => CacheType;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    CacheClass = require('./cache').Cache;
+  } catch {
+    console.log('[telegram] SQLite cache not available — running without disk cache');
+    return noopCache;
+  }
+  try {
+    return new CacheClass(getAccountCachePath(accountId), getStorageKey());
+  } catch (e) {
+    console.error('[telegram] Failed to init SQLite cache:', e);
+    return noopCache;
+  }
+}
+
 // --- Privacy key mapping ---
 type PrivacyKeyName = 'lastSeen' | 'phoneNumber' | 'profilePhoto' | 'forwards' | 'calls' | 'groups';
 type PrivacyValue = 'everybody' | 'contacts' | 'nobody';
@@ -74,6 +171,39 @@ function notifyScopeToInputPeer(scope: NotificationScope): Api.TypeInputNotifyPe
   }
 }
 
+// --- Upload sources ---
+
+function toCustomFile(source: UploadSource, fileName: string): CustomFile {
+  return Buffer.isBuffer(source)
+    ? new CustomFile(fileName, source.length, '', source)
+    : new CustomFile(source.fileName || fileName, source.size, source.path);
+}
+
+/** The file of an outbox send: staged on disk, or base64 in the payload. */
+function outboxFile(payload: OutboxPayload): UploadSource {
+  if (payload.path) return { path: payload.path, fileName: payload.fileName || 'file', size: payload.size || 0, mimeType: payload.mimeType };
+  return Buffer.from(payload.data || '', 'base64');
+}
+
+// --- Photo size selection ---
+type DownloadablePhotoSize = Api.PhotoSize | Api.PhotoCachedSize | Api.PhotoSizeProgressive;
+
+/**
+ * The smallest size whose longest side reaches `minSide`, or the largest one
+ * if none does. Stripped and path sizes are placeholders, not downloadable.
+ */
+function pickPhotoSize(sizes: Api.TypePhotoSize[] | Api.TypeVideoSize[], minSide: number): DownloadablePhotoSize | null {
+  const usable = (sizes as unknown[])
+    .filter((s): s is DownloadablePhotoSize =>
+      s instanceof Api.PhotoSize || s instanceof Api.PhotoCachedSize || s instanceof Api.PhotoSizeProgressive)
+    .sort((a, b) => Math.max(a.w, a.h) - Math.max(b.w, b.h));
+  return usable.find((s) => Math.max(s.w, s.h) >= minSide) || usable[usable.length - 1] || null;
+}
+
+function photoSizeBytes(size: Api.PhotoSize | Api.PhotoSizeProgressive): number {
+  return size instanceof Api.PhotoSizeProgressive ? Math.max(...size.sizes) : size.size;
+}
+
 export interface DialogInfo {
   id: string;
   chatId: string;
@@ -91,6 +221,22 @@ export interface DialogInfo {
   type?: 'user' | 'group' | 'supergroup' | 'channel';
 }
 
+/** What `/dialogs/:dialogId/info` knows of a chat beyond its dialog entry. */
+export interface DialogDetails {
+  id: string;
+  name: string;
+  type: 'user' | 'group' | 'supergroup' | 'channel';
+  about?: string;
+  memberCount?: number;
+  username?: string;
+  isForum?: boolean;
+  isVerified?: boolean;
+}
+
+export const SHARED_MEDIA_TYPES = ['photo', 'video', 'file', 'link'] as const;
+
+export type SharedMediaType = typeof SHARED_MEDIA_TYPES[number];
+
 export interface MessageInfo {
   id: number;
   senderId: string;
@@ -98,7 +244,7 @@ export interface MessageInfo {
   text: string;
   timestamp: number;
   isOutgoing: boolean;
-  mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif';
+  mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact';
   mediaWidth?: number;
   mediaHeight?: number;
   mediaDuration?: number;
@@ -108,22 +254,127 @@ export interface MessageInfo {
   replyToId?: number;
   forwardFrom?: string;
   isEdited?: boolean;
-  reactions?: { emoji: string; count: number }[];
+  reactions?: ReactionCount[];
+  /** Formatting and links within `text`. */
+  entities?: MessageEntity[];
+  linkPreview?: LinkPreview;
+  poll?: PollInfo;
+  geo?: GeoInfo;
+  contact?: ContactInfo;
+  /** Set on service messages (joins, pins, title changes, ...); `text` is empty. */
+  action?: ServiceAction;
+  replyMarkup?: ReplyMarkup;
+  /** Shared by the messages of one album, which Telegram delivers one by one. */
+  groupedId?: string;
+}
+
+/** One photo, video or file of an album send. */
+export interface AlbumItem {
+  source: UploadSource;
+  fileName: string;
+  mimeType?: string;
+  caption?: string;
+}
+
+export interface LocalSearchOptions {
+  /** Words are ANDed; `"quoted text"` is a phrase; `word*` is a prefix match. */
+  query: string;
+  dialogId?: string;
+  senderId?: string;
+  /** Case-insensitive substring of the sender's display name. */
+  senderName?: string;
+  /** Unix seconds, inclusive. */
+  after?: number;
+  /** Unix seconds, exclusive. */
+  before?: number;
+  /** Media types to include; `none` matches plain text messages. */
+  mediaTypes?: string[];
+  order?: 'date' | 'rank';
+  limit?: number;
+  offset?: number;
+}
+
+export interface LocalSearchResult {
+  dialogId: string;
+  dialogName?: string;
+  message: MessageInfo;
+  /** HTML-escaped excerpt with matches wrapped in `<mark>`. */
+  snippet: string;
+}
+
+export type QrLoginStatus = 'idle' | 'pending' | 'need2FA' | 'done' | 'error';
+
+export interface QrLoginState {
+  status: QrLoginStatus;
+  /** `tg://login?token=…`, shown as a QR code and scanned from a logged-in phone. */
+  url?: string;
+  /** Unix seconds when `url` stops working. A fresh token replaces it before then. */
+  expires?: number;
+  /** 2FA password hint, when status is `need2FA`. */
+  hint?: string;
+  error?: string;
 }
 
 export type TelegramEvent =
-  | { type: 'newMessage'; dialogId: string; message: MessageInfo }
+  | { type: 'newMessage'; dialogId: string; message: MessageInfo; clientMsgId?: string }
   | { type: 'editedMessage'; dialogId: string; message: MessageInfo }
-  | { type: 'deletedMessage'; dialogId: string; messageIds: number[] }
+  /** Without `dialogId` for uncached messages of a private chat or basic group, which share one id space */
+  | { type: 'deletedMessage'; dialogId?: string; messageIds: number[] }
   | { type: 'typing'; dialogId: string; userId: string; action: string }
   | { type: 'userStatus'; userId: string; online: boolean; lastSeen?: number }
-  | { type: 'readHistory'; dialogId: string; maxId: number; direction: 'incoming' | 'outgoing' };
+  | { type: 'readHistory'; dialogId: string; maxId: number; direction: 'incoming' | 'outgoing' }
+  | { type: 'reactionUpdate'; dialogId: string; messageId: number; reactions: ReactionCount[] }
+  | { type: 'pollUpdate'; dialogId: string; messageId: number; poll: PollInfo }
+  | { type: 'backfillProgress'; dialogId: string; progress: BackfillProgress }
+  | { type: 'uploadProgress'; dialogId?: string; progress: UploadProgress }
+  | { type: 'qrLogin'; state: QrLoginState }
+  | OutboxEvent;
+
+/**
+ * Event as delivered to listeners — tagged with the account it came from. Durable
+ * events also carry the account's sequence number.
+ */
+export type SequencedEvent = TelegramEvent & { seq?: number; accountId?: string };
+
+export type EventListener = (event: SequencedEvent) => void;
+
+/** Ephemeral presence events: delivered live only, never logged or replayed. */
+const TRANSIENT_EVENT_TYPES: ReadonlySet<TelegramEvent['type']> = new Set(['typing', 'userStatus', 'backfillProgress', 'uploadProgress', 'qrLogin']);
+
+/** Retained events for `/events?since=` replay. */
+const EVENT_LOG_SIZE = 10_000;
+const EVENT_LOG_PRUNE_EVERY = 500;
+/** How long a send's clientMsgId is remembered for deduplication (seconds). */
+const CLIENT_MSG_ID_TTL = 24 * 3600;
+/** Bounds on the QR token refresh delay (ms), in case our clock disagrees with Telegram's. */
+const QR_REFRESH_MIN_MS = 5_000;
+const QR_REFRESH_MAX_MS = 60_000;
+/** Bytes per upload.getFile request when streaming media (Telegram's maximum for aligned reads). */
+const MEDIA_CHUNK_SIZE = 512 * 1024;
+
+/** Where a message's media (or one of its thumbnails) can be downloaded from. */
+type MediaLocation =
+  | { location: Api.TypeInputFileLocation; dcId: number; size: number; mimeType: string; fileName?: string }
+  | { bytes: Buffer; mimeType: string };
+
+/** What a service is built on. Each defaults to the real thing; tests pass in-memory ones. */
+export interface TelegramServiceOptions {
+  /** Defaults to the account's cache.db, or none when SQLite is unavailable */
+  cache?: CacheType;
+  /** Defaults to a gramJS client for the configured API id */
+  createClient?: (session: StringSession, params: TelegramClientParams) => TelegramClient;
+}
 
-export type EventListener = (event: TelegramEvent) => void;
+function createTelegramClient(session: StringSession, params: TelegramClientParams): TelegramClient {
+  return new TelegramClient(session, getApiId(), getApiHash(), params);
+}
 
 export class TelegramService {
   private client: TelegramClient | null = null;
+  /** Logged in with a client; stays true while gramJS reconnects after a network drop */
   private connected = false;
+  /** Whether gramJS has a connection to Telegram right now */
+  private online = false;
   private eventListeners: Set<EventListener> = new Set();
   private forumTopicsCache: Map<string, Api.ForumTopic[]> = new Map();
   private forumTopicsCacheTs: Map<string, number> = new Map();
@@ -131,48 +382,139 @@ export class TelegramService {
   private dialogsCache: { ts: number; data: DialogInfo[] } | null = null;
   private profilePhotoCache: Map<string, { ts: number; data: { buffer: Buffer; mimeType: string } | null }> = new Map();
   private cache: CacheType;
-
-  constructor() {
-    if (CacheClass) {
+  private media: MediaCache | null = null;
+  /** Background downloads filling the media cache, by media ref */
+  private mediaFills: Map<string, Promise<void>> = new Map();
+  private updates: UpdateManager | null = null;
+  private backfill: BackfillWorker;
+  private outbox: Outbox;
+  private webhooks: WebhookDispatcher;
+  private rules: RuleEngine;
+  private schedules: ScheduleRunner;
+  private uploads: UploadStore;
+  /** Paces every Telegram request; outlives reconnects so its stats do too */
+  private scheduler = new RequestScheduler(getSchedulerOptions());
+  private sendsInFlight: Map<string, Promise<unknown>> = new Map();
+  /** The clientMsgId send in progress, seen by the updates its RPC results carry */
+  private sending = new AsyncLocalStorage<{ clientMsgId: string; chatId: string }>();
+  /** Dialog ids whose edits and deletions are kept, and the chats the retained folders held when last looked up */
+  private retainedDialogs: Set<string> = new Set();
+  private retainedFolderChats: Set<string> = new Set();
+  private standardReactions: Reaction[] | null = null;
+  private qrLogin: QrLoginState = { status: 'idle' };
+  private qrRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private createClient: (session: StringSession, params: TelegramClientParams) => TelegramClient;
+
+  constructor(private readonly accountId: string = DEFAULT_ACCOUNT_ID, options: TelegramServiceOptions = {}) {
+    this.createClient = options.createClient ?? createTelegramClient;
+    this.cache = options.cache ?? openCache(accountId);
+
+    // Without SQLite there is nowhere to index media, so it's streamed straight from Telegram
+    if (this.cache !== noopCache) {
       try {
-        this.cache = new CacheClass();
+        this.media = new MediaCache(getAccountMediaDir(accountId), this.cache, getMediaCacheOptions().maxBytes, getStorageKey());
       } catch (e) {
-        console.error('[telegram] Failed to init SQLite cache:', e);
-        this.cache = noopCache;
+        console.error('[telegram] Failed to init media cache:', e);
       }
-    } else {
-      this.cache = noopCache;
     }
+
+    // Jobs can be queued while offline; the worker only runs while connected
+    this.backfill = new BackfillWorker(
+      this.cache,
+      (dialogId, limit, offsetId) =>
+        this.scheduler.runIn('background', () => this.fetchMessagesFromTelegram(dialogId, limit, offsetId)),
+      (progress) => this.emit({ type: 'backfillProgress', dialogId: progress.dialogId, progress }),
+      getBackfillOptions(),
+    );
+    this.uploads = new UploadStore(
+      getAccountUploadDir(accountId),
+      (progress) => this.emit({ type: 'uploadProgress', dialogId: progress.dialogId, progress }),
+    );
+    this.outbox = new Outbox(
+      this.cache,
+      (item) => this.deliverOutboxItem(item),
+      (event) => this.emit(event),
+      () => this.connected && this.online,
+    );
+    this.webhooks = new WebhookDispatcher(accountId, this.cache, (folderId) => this.getFolderDialogIds(folderId));
+    this.onEvent((event) => this.webhooks.handle(event));
+    this.rules = new RuleEngine(
+      accountId,
+      this.cache,
+      (folderId) => this.getFolderDialogIds(folderId),
+      this,
+      (webhookId, event) => this.webhooks.send(webhookId, event),
+    );
+    this.onEvent((event) => this.rules.handle(event));
+    // Runs while offline too: sends wait in the outbox
+    this.schedules = new ScheduleRunner(this.cache, this);
+    this.onEvent((event) => this.schedules.handle(event));
+    this.retainedDialogs = new Set(this.cache.getRetentionRules().dialogIds);
   }
 
+  getAccountId(): string { return this.accountId; }
   isConnected(): boolean { return this.connected; }
   getClient(): TelegramClient | null { return this.client; }
+  getSchedulerStats(): SchedulerStats { return this.scheduler.getStats(); }
 
   onEvent(listener: EventListener): () => void {
     this.eventListeners.add(listener);
     return () => { this.eventListeners.delete(listener); };
   }
 
+  /** A made-up message in dialog `test`, for checking that WebSocket clients receive events. */
+  emitTestMessage(): void {
+    this.emit({
+      type: 'newMessage',
+      dialogId: 'test',
+      message: { id: Date.now(), senderId: '0', senderName: 'System', text: '🔔 WS test event', timestamp: Math.floor(Date.now() / 1000), isOutgoing: false },
+    });
+  }
+
   private emit(event: TelegramEvent): void {
+    let sequenced: SequencedEvent = { ...event, accountId: this.accountId };
+    if (!TRANSIENT_EVENT_TYPES.has(event.type)) {
+      try {
+        const seq = this.cache.appendEvent(event.type, 'dialogId' in event ? event.dialogId : undefined, event);
+        sequenced = { ...sequenced, seq };
+        if (seq % EVENT_LOG_PRUNE_EVERY === 0) this.cache.pruneEventLog(EVENT_LOG_SIZE);
+      } catch (e) { console.error('[cache] event log error:', e); }
+    }
     for (const listener of this.eventListeners) {
-      try { listener(event); } catch (e) { console.error('Event listener error:', e); }
+      try { listener(sequenced); } catch (e) { console.error('Event listener error:', e); }
     }
   }
 
+  /**
+   * Logged events after `seq`, for clients resuming a WebSocket stream.
+   * `complete` is false when the log no longer reaches back to `seq` (or `seq` is
+   * from another cache.db) — the client must resync over HTTP.
+   */
+  getEventsSince(seq: number): { events: SequencedEvent[]; latestSeq: number; complete: boolean } {
+    const { oldestSeq, latestSeq } = this.cache.getEventLogBounds();
+    const events = this.cache.getEventsSince(seq, EVENT_LOG_SIZE)
+      .map((row) => ({ ...(row.payload as TelegramEvent), accountId: this.accountId, seq: row.seq }));
+    const complete = seq <= latestSeq && seq >= oldestSeq - 1;
+    return { events, latestSeq, complete };
+  }
+
   async connect(sessionString?: string): Promise<void> {
     if (this.connected) return;
 
-    const apiId = getApiId();
-    const apiHash = getApiHash();
-    const session = new StringSession(sessionString || loadConfig().session || '');
+    const session = new StringSession(sessionString || getAccountSession(this.accountId) || '');
 
-    this.client = new TelegramClient(session, apiId, apiHash, {
+    this.client = this.createClient(session, {
       connectionRetries: 5,
       timeout: 30,
     });
 
     console.log('[telegram] Connecting to Telegram...');
-    await this.client.connect();
+    if (!await this.client.connect()) {
+      // gramJS would keep trying this client in the background; the caller tries again instead
+      await this.client.destroy().catch(() => { /* ignore */ });
+      this.client = null;
+      throw new Error('Could not reach Telegram');
+    }
     console.log('[telegram] Connected. Checking auth...');
 
     if (!await this.client.isUserAuthorized()) {
@@ -185,10 +527,11 @@ export class TelegramService {
   }
 
   async startLogin(phone: string): Promise<{ phoneCodeHash: string }> {
+    this.stopQrLogin();
     const apiId = getApiId();
     const apiHash = getApiHash();
 
-    this.client = new TelegramClient(new StringSession(''), apiId, apiHash, {
+    this.client = this.createClient(new StringSession(''), {
       connectionRetries: 5,
     });
     await this.client.connect();
@@ -223,14 +566,7 @@ export class TelegramService {
       throw err;
     }
 
-    const sessionStr = this.client.session.save() as unknown as string;
-    const config = loadConfig();
-    config.session = sessionStr;
-    saveConfig(config);
-
-    this.connected = true;
-    this.setupEventHandlers();
-    return sessionStr;
+    return this.finishLogin();
   }
 
   async get2FAHint(): Promise<string | undefined> {
@@ -246,156 +582,300 @@ export class TelegramService {
     const passwordCheck = await computeCheck(passwordInfo, password);
     await this.client.invoke(new Api.auth.CheckPassword({ password: passwordCheck }));
 
-    const sessionStr = this.client.session.save() as unknown as string;
-    const config = loadConfig();
-    config.session = sessionStr;
-    saveConfig(config);
+    return this.finishLogin();
+  }
+
+  /** Persist the now-authorized session and start receiving updates. */
+  private finishLogin(): string {
+    const sessionStr = this.client!.session.save() as unknown as string;
+    saveAccountSession(this.accountId, sessionStr);
 
     this.connected = true;
     this.setupEventHandlers();
+    if (this.qrLogin.status !== 'idle') {
+      this.clearQrRefresh();
+      this.setQrLogin({ status: 'done' });
+    }
     return sessionStr;
   }
 
+  // --- QR Login ---
+
+  /**
+   * Start (or restart) a QR login on a fresh client. The phone scanning the
+   * token pushes `updateLoginToken`, after which exporting again yields the
+   * authorization — or SESSION_PASSWORD_NEEDED, finished via complete2FA().
+   */
+  async startQrLogin(): Promise<QrLoginState> {
+    if (this.connected) return { status: 'done' };
+    this.stopQrLogin();
+    this.client?.disconnect().catch(() => { /* ignore */ });
+
+    const client = this.createClient(new StringSession(''), {
+      connectionRetries: 5,
+    });
+    this.client = client;
+    await client.connect();
+    client.addEventHandler((update: Api.TypeUpdate) => {
+      if (update instanceof Api.UpdateLoginToken && this.client === client && this.qrLogin.status === 'pending') {
+        console.log('[telegram] QR token accepted');
+        this.exportQrToken(client);
+      }
+    });
+    await this.exportQrToken(client);
+    return this.qrLogin;
+  }
+
+  getQrLoginState(): QrLoginState {
+    return this.connected ? { status: 'done' } : this.qrLogin;
+  }
+
+  private async exportQrToken(client: TelegramClient): Promise<void> {
+    this.clearQrRefresh();
+    try {
+      let result = await client.invoke(
+        new Api.auth.ExportLoginToken({ apiId: getApiId(), apiHash: getApiHash(), exceptIds: [] })
+      );
+      // The account lives on another DC: move there and import the token
+      if (result instanceof Api.auth.LoginTokenMigrateTo) {
+        console.log(`[telegram] QR login migrating to DC ${result.dcId}`);
+        await client._switchDC(result.dcId);
+        result = await client.invoke(new Api.auth.ImportLoginToken({ token: result.token }));
+      }
+      if (this.client !== client) return; // restarted or superseded meanwhile
+
+      if (result instanceof Api.auth.LoginToken) {
+        const url = `tg://login?token=${Buffer.from(result.token).toString('base64url')}`;
+        this.setQrLogin({ status: 'pending', url, expires: result.expires });
+        const delay = Math.min(Math.max(result.expires * 1000 - Date.now(), QR_REFRESH_MIN_MS), QR_REFRESH_MAX_MS);
+        this.qrRefreshTimer = setTimeout(() => { this.qrRefreshTimer = null; this.exportQrToken(client); }, delay);
+      } else if (result instanceof Api.auth.LoginTokenSuccess) {
+        console.log('[telegram] QR login complete');
+        this.finishLogin();
+      }
+    } catch (err: unknown) {
+      if (this.client !== client) return;
+      if ((err as any)?.errorMessage === 'SESSION_PASSWORD_NEEDED') {
+        const hint = await this.get2FAHint().catch(() => undefined);
+        this.setQrLogin(hint ? { status: 'need2FA', hint } : { status: 'need2FA' });
+        return;
+      }
+      console.error('[telegram] QR login error:', err);
+      this.setQrLogin({ status: 'error', error: (err as Error).message });
+    }
+  }
+
+  private setQrLogin(state: QrLoginState): void {
+    this.qrLogin = state;
+    this.emit({ type: 'qrLogin', state });
+  }
+
+  private clearQrRefresh(): void {
+    if (this.qrRefreshTimer) clearTimeout(this.qrRefreshTimer);
+    this.qrRefreshTimer = null;
+  }
+
+  private stopQrLogin(): void {
+    this.clearQrRefresh();
+    this.qrLogin = { status: 'idle' };
+  }
+
   private setupEventHandlers(): void {
     if (!this.client) return;
     console.log('[telegram] Setting up event handlers...');
+    this.scheduler.attach(this.client);
+
+    // Single raw handler — the update manager orders by pts/qts/seq, dedups and
+    // fills gaps before anything reaches applyUpdate(). See updates.ts.
+    this.updates?.stop();
+    const client = this.client;
+    const updates = new UpdateManager(client, this.cache, (update) => this.applyUpdate(update));
+    this.updates = updates;
+    // The client has just connected; from here on gramJS reports drops and reconnects
+    this.online = true;
+    client.addEventHandler((update: Api.TypeUpdate | UpdateConnectionState) => {
+      if (update instanceof UpdateConnectionState && this.client === client) {
+        this.setOnline(update.state === UpdateConnectionState.connected);
+      }
+      updates.handle(update);
+    });
+    updates.start().catch((e) => console.error('[updates] start error:', e));
+    this.backfill.start();
+    this.outbox.flush();
+    this.webhooks.reload().catch((e) => console.error('[webhooks] reload error:', e));
+    this.rules.reload().catch((e) => console.error('[rules] reload error:', e));
+    this.refreshRetention().catch((e) => console.error('[retention] refresh error:', e));
+  }
+
+  private setOnline(online: boolean): void {
+    if (this.online === online) return;
+    this.online = online;
+    console.log(`[telegram] ${online ? 'Reconnected' : 'Connection lost, sends wait in the outbox'}`);
+    if (online) this.outbox.flush();
+  }
 
-    this.client.addEventHandler((event: NewMessageEvent) => {
-      const msg = event.message;
-      if (!msg) return;
-      const chatId = this.getMessageChatId(msg);
-      const replyTo = msg.replyTo as any;
-      // Forum topic: reply_to has forumTopic/forum_topic, or replyToTopId for channel messages in topics
-      const isForumMessage = replyTo?.forumTopic === true || replyTo?.forum_topic === true ||
-        (replyTo?.replyToTopId && chatId.startsWith('-100'));
-      const topicId = isForumMessage ? (replyTo?.replyToTopId || replyTo?.replyToMsgId) : undefined;
-      const dialogId = topicId ? `${chatId}:${topicId}` : chatId;
+  /** Apply one ordered update: refresh the SQLite cache and emit to listeners. */
+  private applyUpdate(update: Api.TypeUpdate): void {
+    if (update instanceof Api.UpdateNewMessage || update instanceof Api.UpdateNewChannelMessage) {
+      const msg = update.message;
+      if (!(msg instanceof Api.Message) && !(msg instanceof Api.MessageService)) return;
+      const dialogId = this.getMessageDialogId(msg);
 
       const messageInfo = this.rawMessageToInfo(msg);
       // Upsert into SQLite cache (L2)
       try { this.cache.upsertMessages(dialogId, [messageInfo]); } catch (e) { console.error('[cache] upsert error:', e); }
+      this.messagesCache.clear();
+
+      // Our own send made with a clientMsgId: echo it so the sender can reconcile. The
+      // RPC result is applied inside the send, before its result is saved; updates
+      // applied later (after a gap) find it saved.
+      let clientMsgId: string | null = null;
+      if (messageInfo.isOutgoing) {
+        const { chatId } = this.parseDialogId(dialogId);
+        const sending = this.sending.getStore();
+        if (sending?.chatId === chatId) {
+          clientMsgId = sending.clientMsgId;
+        } else {
+          try { clientMsgId = this.cache.getClientMsgId(chatId, messageInfo.id); } catch { /* ignore */ }
+        }
+      }
 
       this.emit({
         type: 'newMessage',
         dialogId,
         message: messageInfo,
+        ...(clientMsgId ? { clientMsgId } : {}),
       });
-    }, new NewMessage({}));
-
-    this.client.addEventHandler((event: EditedMessageEvent) => {
-      const msg = event.message;
-      if (!msg) return;
-      const chatId = this.getMessageChatId(msg);
-      const replyTo = msg.replyTo as any;
-      const isForumMessage = replyTo?.forumTopic === true || replyTo?.forum_topic === true ||
-        (replyTo?.replyToTopId && chatId.startsWith('-100'));
-      const topicId = isForumMessage ? (replyTo?.replyToTopId || replyTo?.replyToMsgId) : undefined;
-      const dialogId = topicId ? `${chatId}:${topicId}` : chatId;
+      return;
+    }
+
+    if (update instanceof Api.UpdateEditMessage || update instanceof Api.UpdateEditChannelMessage) {
+      const msg = update.message;
+      if (!(msg instanceof Api.Message)) return;
+      const dialogId = this.getMessageDialogId(msg);
 
       const messageInfo = this.rawMessageToInfo(msg);
-      // Update in SQLite cache (L2)
-      try { this.cache.upsertMessages(dialogId, [messageInfo]); } catch (e) { console.error('[cache] edit upsert error:', e); }
+      // Update in SQLite cache (L2), keeping the replaced version if retained
+      try {
+        if (this.isRetained(dialogId)) this.cache.saveRevision(dialogId, messageInfo, msg.editDate || Math.floor(Date.now() / 1000));
+        this.cache.upsertMessages(dialogId, [messageInfo]);
+      } catch (e) { console.error('[cache] edit upsert error:', e); }
+      this.messagesCache.clear();
 
       this.emit({
         type: 'editedMessage',
         dialogId,
         message: messageInfo,
       });
-    }, new EditedMessage({}));
+      return;
+    }
 
-    this.client.addEventHandler((event: DeletedMessageEvent) => {
-      const ids = event.deletedIds || [];
-      const chatId = (event as any).chatId?.toString() || '';
+    if (update instanceof Api.UpdateDeleteChannelMessages) {
+      const dialogId = `-100${update.channelId.toString()}`;
+      this.applyDeletedMessages(dialogId, update.messages);
+      return;
+    }
 
-      // Delete from SQLite cache (L2)
-      for (const id of ids) {
-        try { this.cache.deleteMessage(chatId, id); } catch (e) { console.error('[cache] delete error:', e); }
+    if (update instanceof Api.UpdateDeleteMessages) {
+      if (update.messages.length === 0) return;
+      // Common box deletions carry no peer — resolve dialogs from the SQLite cache
+      let byDialog = new Map<string, number[]>();
+      try { byDialog = this.cache.findMessageDialogs(update.messages); } catch (e) { console.error('[cache] lookup error:', e); }
+      const resolved = new Set([...byDialog.values()].flat());
+      const unresolved = update.messages.filter((id) => !resolved.has(id));
+      for (const [dialogId, ids] of byDialog) this.applyDeletedMessages(dialogId, ids);
+      if (unresolved.length > 0) {
+        // Nothing cached to remove; subscribers that have the messages drop them
+        this.messagesCache.clear();
+        this.emit({ type: 'deletedMessage', messageIds: unresolved });
       }
+      return;
+    }
+
+    if (update instanceof Api.UpdateDialogFilter || update instanceof Api.UpdateDialogFilterOrder) {
+      this.refreshRetention().catch((e) => console.error('[retention] refresh error:', e));
+      return;
+    }
+
+    if (update instanceof Api.UpdateMessageReactions) {
+      this.applyReactions(update);
+      return;
+    }
 
+    if (update instanceof Api.UpdateMessagePoll) {
+      this.applyPoll(update);
+      return;
+    }
+
+    // Presence: a contact coming online or going offline
+    if (update instanceof Api.UpdateUserStatus) {
+      const { status } = update;
       this.emit({
-        type: 'deletedMessage',
-        dialogId: chatId,
-        messageIds: ids,
+        type: 'userStatus',
+        userId: update.userId.toString(),
+        online: status instanceof Api.UserStatusOnline,
+        ...(status instanceof Api.UserStatusOffline ? { lastSeen: status.wasOnline } : {}),
       });
-    }, new DeletedMessage({}));
+    }
 
-    // Raw update handler for typing + read receipts
-    this.client.addEventHandler((update: Api.TypeUpdate) => {
-      // Typing events
-      if (update instanceof Api.UpdateUserTyping) {
-        const actionName = (update.action as any)?.className || 'typing';
-        this.emit({
-          type: 'typing',
-          dialogId: update.userId.toString(),
-          userId: update.userId.toString(),
-          action: actionName,
-        });
-      } else if (update instanceof Api.UpdateChatUserTyping) {
-        const actionName = (update.action as any)?.className || 'typing';
-        const fromId = update.fromId;
-        let userId = '';
-        if (fromId instanceof Api.PeerUser) userId = fromId.userId.toString();
-        else if (fromId instanceof Api.PeerChannel) userId = fromId.channelId.toString();
-        else if (fromId instanceof Api.PeerChat) userId = fromId.chatId.toString();
-        this.emit({
-          type: 'typing',
-          dialogId: `-${update.chatId.toString()}`,
-          userId,
-          action: actionName,
-        });
-      } else if (update instanceof Api.UpdateChannelUserTyping) {
-        const actionName = (update.action as any)?.className || 'typing';
-        const fromId = update.fromId;
-        let userId = '';
-        if (fromId instanceof Api.PeerUser) userId = fromId.userId.toString();
-        else if (fromId instanceof Api.PeerChannel) userId = fromId.channelId.toString();
-        else if (fromId instanceof Api.PeerChat) userId = fromId.chatId.toString();
-        // Use negative channel ID + topic for forum groups
-        const channelDialogId = `-100${update.channelId.toString()}`;
-        const topicId = (update as any).topMsgId;
-        const typingDialogId = topicId ? `${channelDialogId}:${topicId}` : channelDialogId;
-        console.log('[telegram] typing event:', typingDialogId, 'from:', userId, 'action:', actionName);
-        this.emit({
-          type: 'typing',
-          dialogId: typingDialogId,
-          userId,
-          action: actionName,
-        });
-      }
+    // Typing events
+    if (update instanceof Api.UpdateUserTyping) {
+      const actionName = (update.action as any)?.className || 'typing';
+      this.emit({
+        type: 'typing',
+        dialogId: update.userId.toString(),
+        userId: update.userId.toString(),
+        action: actionName,
+      });
+    } else if (update instanceof Api.UpdateChatUserTyping) {
+      const actionName = (update.action as any)?.className || 'typing';
+      const fromId = update.fromId;
+      let userId = '';
+      if (fromId instanceof Api.PeerUser) userId = fromId.userId.toString();
+      else if (fromId instanceof Api.PeerChannel) userId = fromId.channelId.toString();
+      else if (fromId instanceof Api.PeerChat) userId = fromId.chatId.toString();
+      this.emit({
+        type: 'typing',
+        dialogId: `-${update.chatId.toString()}`,
+        userId,
+        action: actionName,
+      });
+    } else if (update instanceof Api.UpdateChannelUserTyping) {
+      const actionName = (update.action as any)?.className || 'typing';
+      const fromId = update.fromId;
+      let userId = '';
+      if (fromId instanceof Api.PeerUser) userId = fromId.userId.toString();
+      else if (fromId instanceof Api.PeerChannel) userId = fromId.channelId.toString();
+      else if (fromId instanceof Api.PeerChat) userId = fromId.chatId.toString();
+      // Use negative channel ID + topic for forum groups
+      const channelDialogId = `-100${update.channelId.toString()}`;
+      const topicId = (update as any).topMsgId;
+      const typingDialogId = topicId ? `${channelDialogId}:${topicId}` : channelDialogId;
+      console.log('[telegram] typing event:', typingDialogId, 'from:', userId, 'action:', actionName);
+      this.emit({
+        type: 'typing',
+        dialogId: typingDialogId,
+        userId,
+        action: actionName,
+      });
+    }
 
-      // Read receipt events — use normalized dialogId format (matches getMessageChatId)
-      if (update instanceof Api.UpdateReadHistoryInbox) {
-        const peer = update.peer;
-        const dialogId = this.peerToDialogId(peer);
-        if (dialogId) {
-          this.emit({
-            type: 'readHistory',
-            dialogId,
-            maxId: update.maxId,
-            direction: 'incoming',
-          });
-        }
-      } else if (update instanceof Api.UpdateReadHistoryOutbox) {
-        const peer = update.peer;
-        const dialogId = this.peerToDialogId(peer);
-        if (dialogId) {
-          this.emit({
-            type: 'readHistory',
-            dialogId,
-            maxId: update.maxId,
-            direction: 'outgoing',
-          });
-        }
-      } else if (update instanceof Api.UpdateReadChannelInbox) {
-        const dialogId = `-100${update.channelId.toString()}`;
+    // Read receipt events — use normalized dialogId format (matches getMessageChatId)
+    if (update instanceof Api.UpdateReadHistoryInbox) {
+      const peer = update.peer;
+      const dialogId = this.peerToDialogId(peer);
+      if (dialogId) {
         this.emit({
           type: 'readHistory',
           dialogId,
           maxId: update.maxId,
           direction: 'incoming',
         });
-      } else if (update instanceof Api.UpdateReadChannelOutbox) {
-        const dialogId = `-100${update.channelId.toString()}`;
+      }
+    } else if (update instanceof Api.UpdateReadHistoryOutbox) {
+      const peer = update.peer;
+      const dialogId = this.peerToDialogId(peer);
+      if (dialogId) {
         this.emit({
           type: 'readHistory',
           dialogId,
@@ -403,10 +883,114 @@ export class TelegramService {
           direction: 'outgoing',
         });
       }
+    } else if (update instanceof Api.UpdateReadChannelInbox) {
+      const dialogId = `-100${update.channelId.toString()}`;
+      this.emit({
+        type: 'readHistory',
+        dialogId,
+        maxId: update.maxId,
+        direction: 'incoming',
+      });
+    } else if (update instanceof Api.UpdateReadChannelOutbox) {
+      const dialogId = `-100${update.channelId.toString()}`;
+      this.emit({
+        type: 'readHistory',
+        dialogId,
+        maxId: update.maxId,
+        direction: 'outgoing',
+      });
+    }
+  }
+
+  private applyReactions(update: Api.UpdateMessageReactions): ReactionCount[] {
+    const chatId = this.peerToDialogId(update.peer);
+    const reactions = toReactionCounts(update.reactions);
+    try { this.cache.setMessageReactions(chatId, update.msgId, reactions); } catch (e) { console.error('[cache] reactions error:', e); }
+    this.messagesCache.clear();
+
+    this.emit({
+      type: 'reactionUpdate',
+      dialogId: update.topMsgId ? `${chatId}:${update.topMsgId}` : chatId,
+      messageId: update.msgId,
+      reactions,
+    });
+    return reactions;
+  }
+
+  /**
+   * Merge new poll results into every cached message carrying the poll and
+   * emit a pollUpdate for each. The update names only the poll, so messages
+   * are found through the cache; `target` adds the message we just voted on
+   * or closed, in case it isn't cached. Returns the target's new poll.
+   */
+  private applyPoll(update: Api.UpdateMessagePoll, target?: { dialogId: string; messageId: number; poll: PollInfo }): PollInfo | undefined {
+    let cached: { dialogId: string; messageId: number; poll?: PollInfo }[] = [];
+    try { cached = this.cache.findPollMessages(update.pollId.toString()); } catch (e) { console.error('[cache] poll lookup error:', e); }
+
+    // A message cached under both its chat and a forum topic is updated once, keeping the topic
+    const messages = new Map<string, { dialogId: string; messageId: number; poll?: PollInfo }>();
+    for (const m of [...cached, ...(target ? [target] : [])]) {
+      const key = `${this.parseDialogId(m.dialogId).chatId}/${m.messageId}`;
+      const seen = messages.get(key);
+      if (!seen || (!seen.dialogId.includes(':') && m.dialogId.includes(':'))) messages.set(key, m);
+    }
+
+    let result: PollInfo | undefined;
+    for (const m of messages.values()) {
+      const poll = mergePollResults(m.poll, update.poll, update.results);
+      if (!poll) continue;
+      const { chatId } = this.parseDialogId(m.dialogId);
+      try { this.cache.setMessagePoll(chatId, m.messageId, poll); } catch (e) { console.error('[cache] poll error:', e); }
+      this.emit({ type: 'pollUpdate', dialogId: m.dialogId, messageId: m.messageId, poll });
+      if (target && m.messageId === target.messageId && chatId === this.parseDialogId(target.dialogId).chatId) result = poll;
+    }
+    this.messagesCache.clear();
+    return result;
+  }
+
+  private applyDeletedMessages(dialogId: string, ids: number[]): void {
+    // Delete from SQLite cache (L2), or keep a tombstone if retained
+    const retained = this.isRetained(dialogId);
+    const now = Math.floor(Date.now() / 1000);
+    for (const id of ids) {
+      try {
+        if (retained) this.cache.tombstoneMessage(dialogId, id, now);
+        else this.cache.deleteMessage(dialogId, id);
+      } catch (e) { console.error('[cache] delete error:', e); }
+    }
+    this.messagesCache.clear();
+
+    this.emit({
+      type: 'deletedMessage',
+      dialogId,
+      messageIds: ids,
     });
   }
 
-  private rawMessageToInfo(msg: Api.Message): MessageInfo {
+  /** Dialog ID for a message, including the forum topic suffix (`chatId:topicId`) when it belongs to one. */
+  private getMessageDialogId(msg: Api.Message | Api.MessageService): string {
+    const chatId = this.getMessageChatId(msg);
+    const replyTo = msg.replyTo as any;
+    // Forum topic: reply_to has forumTopic/forum_topic, or replyToTopId for channel messages in topics
+    const isForumMessage = replyTo?.forumTopic === true || replyTo?.forum_topic === true ||
+      (replyTo?.replyToTopId && chatId.startsWith('-100'));
+    const topicId = isForumMessage ? (replyTo?.replyToTopId || replyTo?.replyToMsgId) : undefined;
+    return topicId ? `${chatId}:${topicId}` : chatId;
+  }
+
+  private rawMessageToInfo(msg: Api.Message | Api.MessageService): MessageInfo {
+    if (msg instanceof Api.MessageService) {
+      return {
+        id: msg.id,
+        senderId: msg.senderId?.toString() || '',
+        senderName: '',
+        text: '',
+        timestamp: msg.date || 0,
+        isOutgoing: msg.out || false,
+        action: toServiceAction(msg),
+      };
+    }
+
     const info: MessageInfo = {
       id: msg.id,
       senderId: msg.senderId?.toString() || '',
@@ -417,6 +1001,12 @@ export class TelegramService {
     };
 
     if (msg.editDate) info.isEdited = true;
+    if (msg.groupedId) info.groupedId = msg.groupedId.toString();
+
+    const entities = toEntities(msg.entities);
+    if (entities) info.entities = entities;
+    const replyMarkup = toReplyMarkup(msg.replyMarkup);
+    if (replyMarkup) info.replyMarkup = replyMarkup;
 
     if (msg.media) {
       const media = msg.media as any;
@@ -449,24 +1039,32 @@ export class TelegramService {
             if (audioAttr.duration) info.mediaDuration = audioAttr.duration;
           } else if (attrs.some((a: any) => a.className === 'DocumentAttributeSticker')) info.mediaType = 'sticker';
           else info.mediaType = 'file';
+          if (attrs.some((a: any) => a.className === 'DocumentAttributeAnimated')) info.mediaType = 'gif';
           if (doc.mimeType) info.mediaMimeType = doc.mimeType;
           const fnAttr = attrs.find((a: any) => a.className === 'DocumentAttributeFilename');
           if (fnAttr) info.fileName = fnAttr.fileName;
           if (typeof doc.size === 'number') info.fileSize = doc.size;
         }
+      } else if (media instanceof Api.MessageMediaWebPage) {
+        const preview = toLinkPreview(media);
+        if (preview) info.linkPreview = preview;
+      } else if (media instanceof Api.MessageMediaPoll) {
+        info.mediaType = 'poll';
+        info.poll = toPoll(media);
+      } else if (media instanceof Api.MessageMediaGeo || media instanceof Api.MessageMediaVenue || media instanceof Api.MessageMediaGeoLive) {
+        const geo = toGeo(media);
+        if (geo) {
+          info.mediaType = 'geo';
+          info.geo = geo;
+        }
+      } else if (media instanceof Api.MessageMediaContact) {
+        info.mediaType = 'contact';
+        info.contact = toContact(media);
       }
     }
 
-    if (msg.reactions) {
-      const results = (msg.reactions as any).results;
-      if (results) {
-        info.reactions = results
-          .filter((r: any) => r.reaction && r.count)
-          .map((r: any) => ({
-            emoji: r.reaction?.emoticon || '❓',
-            count: r.count || 0,
-          }));
-      }
+    if (msg instanceof Api.Message && msg.reactions) {
+      info.reactions = toReactionCounts(msg.reactions);
     }
 
     // Set replyToId only for real replies, not forum topic anchors
@@ -642,7 +1240,7 @@ export class TelegramService {
   }
 
   private refreshDialogsBackground(limit: number): void {
-    this.fetchDialogsFromTelegram(limit).catch((e) => {
+    this.scheduler.runIn('background', () => this.fetchDialogsFromTelegram(limit)).catch((e) => {
       console.error('[cache] background dialogs refresh error:', e);
     });
   }
@@ -741,12 +1339,17 @@ export class TelegramService {
       } catch { /* ignore */ }
     }));
 
+    const retained = this.isRetained(dialogId);
     for (const msg of msgs) {
       const info = this.rawMessageToInfo(msg);
       const sid = msg.senderId?.toString();
       if (sid && senderNames.has(sid)) {
         info.senderName = senderNames.get(sid)!;
       }
+      // An edit made while we weren't listening
+      if (retained && msg.editDate) {
+        try { this.cache.saveRevision(dialogId, info, msg.editDate); } catch (e) { console.error('[cache] revision error:', e); }
+      }
       results.push(info);
     }
 
@@ -759,7 +1362,7 @@ export class TelegramService {
   }
 
   private refreshMessagesBackground(dialogId: string, limit: number, offsetId?: number): void {
-    this.fetchMessagesFromTelegram(dialogId, limit, offsetId)
+    this.scheduler.runIn('background', () => this.fetchMessagesFromTelegram(dialogId, limit, offsetId))
       .then((fresh) => {
         // Update L1 with fresh data
         const cacheKey = `${dialogId}|${limit}|${offsetId || 0}`;
@@ -770,16 +1373,9 @@ export class TelegramService {
       });
   }
 
-  async sendMessage(dialogId: string, text: string, replyTo?: number): Promise<MessageInfo> {
+  async sendMessage(dialogId: string, text: string, replyTo?: number, options: SendOptions = {}): Promise<MessageInfo> {
     if (!this.client) throw new Error('Not connected');
-    const { chatId, topicId } = this.parseDialogId(dialogId);
-    const entity = await this.client.getEntity(chatId);
-
-    const opts: any = { message: text };
-    if (topicId) opts.replyTo = topicId;
-    if (replyTo) opts.replyTo = replyTo;
-
-    const msg = await this.client.sendMessage(entity, opts);
+    const msg = await this.sendText(dialogId, text, replyTo, options);
     this.messagesCache.clear();
     const messageInfo = this.rawMessageToInfo(msg);
 
@@ -789,14 +1385,72 @@ export class TelegramService {
     return messageInfo;
   }
 
-  async editMessage(dialogId: string, messageId: number, text: string): Promise<void> {
+  async editMessage(dialogId: string, messageId: number, text: string, options: FormatOptions = {}): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
-    await this.client.editMessage(entity, { message: messageId, text });
+    const formatted = formatText(text, options);
+    await this.client.editMessage(entity, {
+      message: messageId,
+      text: formatted.text,
+      formattingEntities: await this.inputEntities(formatted.entities),
+      linkPreview: !options.noWebpage,
+    });
     this.messagesCache.clear();
   }
 
+  /**
+   * Send a text message, scheduled when `schedule` is given. Built by hand
+   * because gramJS `sendMessage` has no `sendAs` or quotes.
+   */
+  private async sendText(
+    dialogId: string, text: string, replyTo: number | undefined, options: SendOptions, schedule?: number,
+  ): Promise<Api.Message> {
+    const client = this.client!;
+    const { chatId, topicId } = this.parseDialogId(dialogId);
+    const entity = await client.getEntity(chatId);
+    const formatted = formatText(text, options);
+    const topMsgId = options.topMsgId ?? topicId;
+    // A message without a reply lands in a topic by replying to the topic's first message
+    const replyToMsgId = replyTo || topMsgId;
+
+    const request = new Api.messages.SendMessage({
+      peer: entity,
+      message: formatted.text,
+      entities: await this.inputEntities(formatted.entities),
+      replyTo: replyToMsgId
+        ? new Api.InputReplyToMessage({ replyToMsgId, topMsgId: replyTo ? topMsgId : undefined, quoteText: options.quoteText })
+        : undefined,
+      silent: options.silent || undefined,
+      noWebpage: options.noWebpage || undefined,
+      sendAs: options.sendAs ? await client.getInputEntity(options.sendAs) : undefined,
+      scheduleDate: schedule,
+    });
+    const result = await client.invoke(request);
+    if (result instanceof Api.UpdateShortSentMessage) {
+      // Private chats only get the new id back, as in gramJS
+      const msg = new Api.Message({
+        id: result.id,
+        peerId: utils.getPeer(entity),
+        message: formatted.text,
+        date: result.date,
+        out: result.out,
+        media: result.media,
+        entities: result.entities,
+        ttlPeriod: result.ttlPeriod,
+      });
+      msg._finishInit(client, new Map(), entity);
+      return msg;
+    }
+    const msg = client._getResponseMessage(request, result, entity);
+    if (!(msg instanceof Api.Message)) throw new Error('Telegram did not return the sent message');
+    return msg;
+  }
+
+  private async inputEntities(entities: MessageEntity[]): Promise<Api.TypeMessageEntity[]> {
+    return toInputEntities(entities, async (userId) => utils.getInputUser(await this.client!.getInputEntity(userId)));
+  }
+
   async deleteMessage(dialogId: string, messageId: number): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
@@ -812,17 +1466,196 @@ export class TelegramService {
     await this.client.markAsRead(entity, messageId);
   }
 
-  async sendReaction(dialogId: string, messageId: number, emoji: string): Promise<void> {
+  // --- Reactions ---
+
+  /**
+   * Add a reaction, keeping the ones already picked. If that is more than the
+   * account may set (one without Premium), the oldest picks are dropped.
+   */
+  async addReaction(dialogId: string, messageId: number, reaction: Reaction, big = false): Promise<ReactionCount[]> {
+    if (!this.client) throw new Error('Not connected');
+    const current = await this.getChosenReactions(dialogId, messageId);
+    const key = reactionKey(reaction);
+    let next = [...current.filter((r) => reactionKey(r) !== key), reaction];
+    for (;;) {
+      try {
+        return await this.setReactions(dialogId, messageId, next, big);
+      } catch (err: any) {
+        if (err?.errorMessage !== 'REACTIONS_TOO_MANY' || next.length <= 1) throw err;
+        next = next.slice(1);
+      }
+    }
+  }
+
+  /** Remove one of our reactions, or all of them when `reaction` is omitted. */
+  async removeReaction(dialogId: string, messageId: number, reaction?: Reaction): Promise<ReactionCount[]> {
+    if (!this.client) throw new Error('Not connected');
+    let next: Reaction[] = [];
+    if (reaction) {
+      const key = reactionKey(reaction);
+      next = (await this.getChosenReactions(dialogId, messageId)).filter((r) => reactionKey(r) !== key);
+    }
+    return this.setReactions(dialogId, messageId, next);
+  }
+
+  /** Replace our reactions on a message; an empty list clears them. Returns the new counts. */
+  async setReactions(dialogId: string, messageId: number, reactions: Reaction[], big = false): Promise<ReactionCount[]> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
-    await this.client.invoke(
+    const result = await this.client.invoke(
       new Api.messages.SendReaction({
         peer: entity,
         msgId: messageId,
-        reaction: [new Api.ReactionEmoji({ emoticon: emoji })],
+        reaction: reactions.map(toApiReaction),
+        big: big || undefined,
+        addToRecent: reactions.length > 0 || undefined,
+      })
+    );
+    // RPC results bypass the update handlers, so apply the new counts here
+    const updates = result instanceof Api.Updates || result instanceof Api.UpdatesCombined ? result.updates : [];
+    for (const update of updates) {
+      if (update instanceof Api.UpdateMessageReactions && update.msgId === messageId) return this.applyReactions(update);
+    }
+    return [];
+  }
+
+  /** Who reacted to a message, optionally only with `reaction`. Paged by `offset`. */
+  async getReactionList(dialogId: string, messageId: number, options: { reaction?: Reaction; offset?: string; limit?: number } = {}): Promise<ReactionList> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+    const result = await this.client.invoke(
+      new Api.messages.GetMessageReactionsList({
+        peer: entity,
+        id: messageId,
+        reaction: options.reaction ? toApiReaction(options.reaction) : undefined,
+        offset: options.offset,
+        limit: Math.min(options.limit || 50, 100),
+      })
+    );
+    return toReactionList(result);
+  }
+
+  /** Which reactions a chat allows. */
+  async getAllowedReactions(dialogId: string): Promise<AllowedReactions> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+    const standard = await this.getStandardReactions();
+
+    let full: Api.TypeChatFull | null = null;
+    if (entity instanceof Api.Channel) {
+      full = (await this.client.invoke(new Api.channels.GetFullChannel({ channel: entity }))).fullChat;
+    } else if (entity instanceof Api.Chat) {
+      full = (await this.client.invoke(new Api.messages.GetFullChat({ chatId: entity.id }))).fullChat;
+    }
+    return toAllowedReactions(full?.availableReactions, full?.reactionsLimit, standard);
+  }
+
+  private async getChosenReactions(dialogId: string, messageId: number): Promise<Reaction[]> {
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client!.getEntity(chatId);
+    const [msg] = await this.client!.getMessages(entity, { ids: [messageId] });
+    if (!msg) throw new Error('Message not found');
+    // Paid reactions are sent separately and can't be taken back
+    return chosenReactions(msg.reactions).filter((r) => !r.paid);
+  }
+
+  /** Every active standard emoji reaction; the list changes rarely, so it's fetched once. */
+  private async getStandardReactions(): Promise<Reaction[]> {
+    if (this.standardReactions) return this.standardReactions;
+    const result = await this.client!.invoke(new Api.messages.GetAvailableReactions({ hash: 0 }));
+    if (!(result instanceof Api.messages.AvailableReactions)) return [];
+    this.standardReactions = result.reactions
+      .filter((r) => !r.inactive)
+      .map((r) => toReaction(new Api.ReactionEmoji({ emoticon: r.reaction })))
+      .filter((r): r is Reaction => !!r);
+    return this.standardReactions;
+  }
+
+  // --- Polls ---
+
+  async sendPoll(dialogId: string, poll: NewPoll, replyTo?: number): Promise<MessageInfo> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId, topicId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+
+    const msg = await this.client.sendFile(entity, {
+      file: toInputMediaPoll(poll),
+      caption: '',
+      replyTo: replyTo || topicId,
+    });
+    this.messagesCache.clear();
+    const messageInfo = this.rawMessageToInfo(msg);
+    try { this.cache.upsertMessages(dialogId, [messageInfo]); } catch (e) { console.error('[cache] send upsert error:', e); }
+    return messageInfo;
+  }
+
+  /** Vote for one or more options (base64, as in `PollAnswer.option`); an empty list takes the vote back. */
+  async votePoll(dialogId: string, messageId: number, options: Buffer[]): Promise<PollInfo> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+    const media = await this.getPollMedia(entity, messageId);
+    const target = { dialogId, messageId, poll: toPoll(media) };
+
+    const result = await this.client.invoke(new Api.messages.SendVote({ peer: entity, msgId: messageId, options }));
+    // RPC results bypass the update handlers, so apply the new results here
+    const poll = this.applyPollResult(result, target)
+      ?? this.applyPollResult(await this.client.invoke(new Api.messages.GetPollResults({ peer: entity, msgId: messageId })), target);
+    if (!poll) throw new Error('Telegram sent no poll results');
+    return poll;
+  }
+
+  /** End a poll for everyone. Only its sender can. */
+  async closePoll(dialogId: string, messageId: number): Promise<PollInfo> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+    const media = await this.getPollMedia(entity, messageId);
+    if (!(media.poll instanceof Api.Poll)) throw new Error('Message has no poll');
+    const target = { dialogId, messageId, poll: toPoll(media) };
+
+    const closed = toClosedInputMediaPoll(media.poll);
+    const result = await this.client.invoke(new Api.messages.EditMessage({ peer: entity, id: messageId, media: closed }));
+    const poll = this.applyPollResult(result, target);
+    if (poll) return poll;
+    // Telegram answered with the edited message only; the poll is closed all the same
+    return this.applyPoll(new Api.UpdateMessagePoll({ pollId: media.poll.id, poll: closed.poll, results: media.results }), target)!;
+  }
+
+  /** Who voted, optionally only for `option`. Public polls only. Paged by `offset`. */
+  async getPollVotes(dialogId: string, messageId: number, options: { option?: Buffer; offset?: string; limit?: number } = {}): Promise<PollVoteList> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+    const result = await this.client.invoke(
+      new Api.messages.GetPollVotes({
+        peer: entity,
+        id: messageId,
+        option: options.option,
+        offset: options.offset,
+        limit: Math.min(options.limit || 50, 100),
       })
     );
+    return toPollVoteList(result);
+  }
+
+  private async getPollMedia(entity: Api.TypeEntityLike, messageId: number): Promise<Api.MessageMediaPoll> {
+    const [msg] = await this.client!.getMessages(entity, { ids: [messageId] });
+    if (!msg) throw new Error('Message not found');
+    if (!(msg.media instanceof Api.MessageMediaPoll)) throw new Error('Message has no poll');
+    return msg.media;
+  }
+
+  private applyPollResult(result: Api.TypeUpdates, target: { dialogId: string; messageId: number; poll: PollInfo }): PollInfo | undefined {
+    const updates = result instanceof Api.Updates || result instanceof Api.UpdatesCombined ? result.updates : [];
+    let poll: PollInfo | undefined;
+    for (const update of updates) {
+      if (update instanceof Api.UpdateMessagePoll) poll = this.applyPoll(update, target) ?? poll;
+    }
+    return poll;
   }
 
   async searchMessages(dialogId: string, query: string, limit = 20): Promise<MessageInfo[]> {
@@ -856,45 +1689,190 @@ export class TelegramService {
     return results;
   }
 
-  async downloadMedia(messageId: number, dialogId: string): Promise<{ buffer: Buffer; mimeType: string } | null> {
+  /** A chat's photos, videos, files or messages with links, newest first. */
+  async getSharedMedia(dialogId: string, type: SharedMediaType, limit = 20, offsetId?: number): Promise<MessageInfo[]> {
     if (!this.client) throw new Error('Not connected');
+    const { chatId, topicId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+
+    const filters: Record<SharedMediaType, () => Api.TypeMessagesFilter> = {
+      photo: () => new Api.InputMessagesFilterPhotos(),
+      video: () => new Api.InputMessagesFilterVideo(),
+      file: () => new Api.InputMessagesFilterDocument(),
+      link: () => new Api.InputMessagesFilterUrl(),
+    };
+    const opts: any = { limit, filter: filters[type]() };
+    if (topicId) opts.replyTo = topicId;
+    if (offsetId) opts.offsetId = offsetId;
+
+    const msgs = await this.client.getMessages(entity, opts);
+    return msgs.map((msg) => this.rawMessageToInfo(msg));
+  }
+
+  // --- Media ---
+
+  /**
+   * Open a message's media, or one of its thumbnails, for streaming. Served
+   * from the disk cache when present; otherwise streamed from Telegram chunk
+   * by chunk, and stored on the way when the whole file is read.
+   */
+  async openMedia(dialogId: string, messageId: number, thumb?: ThumbSize): Promise<MediaSource | null> {
     const { chatId } = this.parseDialogId(dialogId);
+    const ref = `${chatId}:${messageId}:${thumb || 'full'}`;
+    const cached = this.media?.get(ref);
+    if (cached) return this.media!.source(cached);
+
+    if (!this.client) throw new Error('Not connected');
     const entity = await this.client.getEntity(chatId);
-    const msgs = await this.client.getMessages(entity, { ids: [messageId] });
-    const msg = msgs?.[0];
-    if (!msg?.media) return null;
+    const [msg] = await this.client.getMessages(entity, { ids: [messageId] });
+    const loc = msg?.media ? this.resolveMediaLocation(msg.media, thumb) : null;
+    if (!loc) return null;
+
+    if ('bytes' in loc) {
+      return { size: loc.bytes.length, mimeType: loc.mimeType, read: (start, end) => Readable.from([loc.bytes.subarray(start, end + 1)]) };
+    }
+    return {
+      size: loc.size,
+      mimeType: loc.mimeType,
+      fileName: loc.fileName,
+      read: (start, end) => {
+        const whole = start === 0 && end === loc.size - 1;
+        if (whole && this.media?.fits(loc.size) && !this.mediaFills.has(ref)) {
+          return Readable.from(this.downloadRange(loc, start, end, this.media.writer(ref, loc)));
+        }
+        // A partial read (seeking in a video): fetch the whole file in the background for next time
+        if (!whole) this.fillMediaCache(ref, loc);
+        return Readable.from(this.downloadRange(loc, start, end));
+      },
+    };
+  }
+
+  private resolveMediaLocation(media: Api.TypeMessageMedia, thumb?: ThumbSize): MediaLocation | null {
+    if (media instanceof Api.MessageMediaPhoto && media.photo instanceof Api.Photo) {
+      const photo = media.photo;
+      const size = pickPhotoSize(photo.sizes, thumb ? THUMB_SIZES[thumb] : Infinity);
+      if (!size) return null;
+      if (size instanceof Api.PhotoCachedSize) return { bytes: Buffer.from(size.bytes), mimeType: 'image/jpeg' };
+      return {
+        location: new Api.InputPhotoFileLocation({
+          id: photo.id, accessHash: photo.accessHash, fileReference: photo.fileReference, thumbSize: size.type,
+        }),
+        dcId: photo.dcId,
+        size: photoSizeBytes(size),
+        mimeType: 'image/jpeg',
+      };
+    }
+
+    if (media instanceof Api.MessageMediaDocument && media.document instanceof Api.Document) {
+      const doc = media.document;
+      const fileName = doc.attributes.find((a): a is Api.DocumentAttributeFilename => a instanceof Api.DocumentAttributeFilename)?.fileName;
+      const location = (thumbSize: string) => new Api.InputDocumentFileLocation({
+        id: doc.id, accessHash: doc.accessHash, fileReference: doc.fileReference, thumbSize,
+      });
+      if (!thumb) {
+        return { location: location(''), dcId: doc.dcId, size: doc.size.toJSNumber(), mimeType: doc.mimeType, fileName };
+      }
+      const size = pickPhotoSize(doc.thumbs || [], THUMB_SIZES[thumb]);
+      if (!size) return null;
+      // Sticker previews keep the sticker's format; other thumbnails are JPEG
+      const mimeType = doc.mimeType === 'image/webp' ? 'image/webp' : 'image/jpeg';
+      if (size instanceof Api.PhotoCachedSize) return { bytes: Buffer.from(size.bytes), mimeType };
+      return { location: location(size.type), dcId: doc.dcId, size: photoSizeBytes(size), mimeType };
+    }
 
-    const buffer = await this.client.downloadMedia(msg, {});
-    if (!buffer || !Buffer.isBuffer(buffer)) return null;
+    return null;
+  }
 
-    // Determine MIME type
-    const media = msg.media as any;
-    let mimeType = 'application/octet-stream';
-    if (media?.document?.mimeType) {
-      mimeType = media.document.mimeType;
-    } else if (media?.className === 'MessageMediaPhoto') {
-      mimeType = 'image/jpeg'; // Telegram photos are always JPEG
+  /**
+   * Stream bytes `start`..`end` of a file. Telegram only serves aligned
+   * chunks, so the first one is trimmed. With a `writer`, every chunk is
+   * also stored, and the object is committed once the download completes.
+   */
+  private async *downloadRange(
+    loc: Extract<MediaLocation, { location: unknown }>, start: number, end: number, writer?: MediaWriter,
+  ): AsyncGenerator<Buffer> {
+    const first = Math.floor(start / MEDIA_CHUNK_SIZE) * MEDIA_CHUNK_SIZE;
+    let skip = start - first;
+    let left = end - start + 1;
+    let done = false;
+    try {
+      for await (const chunk of this.client!.iterDownload({
+        file: loc.location,
+        dcId: loc.dcId,
+        offset: bigInt(first),
+        requestSize: MEDIA_CHUNK_SIZE,
+        limit: Math.ceil((end + 1 - first) / MEDIA_CHUNK_SIZE),
+        fileSize: bigInt(loc.size),
+      })) {
+        let part = skip ? chunk.subarray(skip) : chunk;
+        skip = 0;
+        if (part.length > left) part = part.subarray(0, left);
+        left -= part.length;
+        writer?.write(part);
+        if (part.length) yield part;
+        if (left <= 0) break;
+      }
+      done = left <= 0;
+    } finally {
+      if (writer) {
+        if (done) {
+          try { writer.commit(); } catch (e) { console.error('[media] cache write error:', e); }
+        } else {
+          writer.abort();
+        }
+      }
     }
-    return { buffer, mimeType };
   }
 
-  async sendFile(dialogId: string, buffer: Buffer, fileName: string, mimeType?: string, caption?: string): Promise<MessageInfo> {
+  private fillMediaCache(ref: string, loc: Extract<MediaLocation, { location: unknown }>): void {
+    if (!this.media?.fits(loc.size) || this.mediaFills.has(ref)) return;
+    const fill = (async () => {
+      for await (const _chunk of this.downloadRange(loc, 0, loc.size - 1, this.media!.writer(ref, loc))) { /* stored by the writer */ }
+    })()
+      .catch((e) => console.error('[media] background download failed:', e?.message || e))
+      .finally(() => this.mediaFills.delete(ref));
+    this.mediaFills.set(ref, fill);
+  }
+
+  async sendFile(
+    dialogId: string, source: UploadSource, fileName: string, mimeType?: string, caption?: string, tags: UploadTags = {},
+  ): Promise<MessageInfo> {
     if (!this.client) throw new Error('Not connected');
     const { chatId, topicId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
 
-    const file = new CustomFile(fileName, buffer.length, '', buffer);
     const msg = await this.client.sendFile(entity, {
-      file,
+      file: toCustomFile(source, fileName),
       caption: caption || '',
       forceDocument: !(mimeType && mimeType.startsWith('image/')),
       replyTo: topicId,
+      progressCallback: this.uploadProgress(source, { dialogId, ...tags }),
     });
     this.messagesCache.clear();
     return this.rawMessageToInfo(msg);
   }
 
-  async sendVoice(dialogId: string, buffer: Buffer, duration: number, waveform?: number[]): Promise<MessageInfo> {
+  /**
+   * Send 2-10 files as one album. Each item keeps its own caption. Photos and
+   * videos can be mixed; anything else makes the whole album files.
+   */
+  async sendAlbum(dialogId: string, items: AlbumItem[], tags: UploadTags = {}): Promise<MessageInfo[]> {
+    if (!this.client) throw new Error('Not connected');
+    const { chatId, topicId } = this.parseDialogId(dialogId);
+    const entity = await this.client.getEntity(chatId);
+
+    const sent = await this.client.sendFile(entity, {
+      file: items.map((item) => toCustomFile(item.source, item.fileName)),
+      caption: items.map((item) => item.caption || ''),
+      forceDocument: !items.every((item) => /^(image|video)\//.test(item.mimeType || '')),
+      replyTo: topicId,
+      progressCallback: this.uploads.albumProgress(items.map((item) => item.source), { dialogId, ...tags }),
+    }) as unknown as (Api.Message | undefined)[];
+    this.messagesCache.clear();
+    return sent.filter((msg): msg is Api.Message => !!msg).map((msg) => this.rawMessageToInfo(msg));
+  }
+
+  async sendVoice(dialogId: string, source: UploadSource, duration: number, waveform?: number[], tags: UploadTags = {}): Promise<MessageInfo> {
     if (!this.client) throw new Error('Not connected');
     const { chatId, topicId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
@@ -916,7 +1894,7 @@ export class TelegramService {
     }
 
     const msg = await this.client.sendFile(entity, {
-      file: buffer,
+      file: toCustomFile(source, 'voice.ogg'),
       voiceNote: true,
       attributes: [
         new Api.DocumentAttributeAudio({
@@ -926,6 +1904,7 @@ export class TelegramService {
         }),
       ],
       replyTo: topicId,
+      progressCallback: this.uploadProgress(source, { dialogId, ...tags }),
     });
     this.messagesCache.clear();
     return this.rawMessageToInfo(msg);
@@ -944,23 +1923,31 @@ export class TelegramService {
     );
   }
 
-  async getDialogInfo(dialogId: string): Promise<Record<string, unknown>> {
+  async getDialogInfo(dialogId: string): Promise<DialogDetails> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
-    let about: string | undefined;
+    const details: DialogDetails = { id: chatId, name: this.getEntityName(entity), type: 'user' };
     try {
-      const full = await this.client.invoke(
-        new Api.messages.GetFullChat({ chatId: bigInt(chatId) })
-      );
-      about = (full as any)?.fullChat?.about;
+      if (entity instanceof Api.Channel) {
+        const full = (await this.client.invoke(new Api.channels.GetFullChannel({ channel: entity }))).fullChat as Api.ChannelFull;
+        Object.assign(details, {
+          type: entity.megagroup ? 'supergroup' : 'channel',
+          about: full.about,
+          memberCount: full.participantsCount ?? entity.participantsCount,
+          username: entity.username,
+          isForum: entity.forum === true,
+          isVerified: entity.verified === true,
+        });
+      } else if (entity instanceof Api.Chat) {
+        const full = (await this.client.invoke(new Api.messages.GetFullChat({ chatId: entity.id }))).fullChat as Api.ChatFull;
+        Object.assign(details, { type: 'group', about: full.about, memberCount: entity.participantsCount });
+      } else if (entity instanceof Api.User) {
+        const { fullUser } = await this.client.invoke(new Api.users.GetFullUser({ id: entity }));
+        Object.assign(details, { about: fullUser.about, username: entity.username, isVerified: entity.verified === true });
+      }
     } catch { /* ignore */ }
-
-    return {
-      id: chatId,
-      name: this.getEntityName(entity),
-      about,
-    };
+    return details;
   }
 
   async getUserProfile(userId: string): Promise<Record<string, unknown>> {
@@ -1116,16 +2103,11 @@ export class TelegramService {
 
   // --- Scheduled Messages ---
 
-  async sendMessageScheduled(dialogId: string, text: string, scheduleDate: number, replyTo?: number): Promise<MessageInfo> {
+  async sendMessageScheduled(
+    dialogId: string, text: string, scheduleDate: number, replyTo?: number, options: SendOptions = {},
+  ): Promise<MessageInfo> {
     if (!this.client) throw new Error('Not connected');
-    const { chatId, topicId } = this.parseDialogId(dialogId);
-    const entity = await this.client.getEntity(chatId);
-
-    const opts: any = { message: text, schedule: scheduleDate };
-    if (topicId) opts.replyTo = topicId;
-    if (replyTo) opts.replyTo = replyTo;
-
-    const msg = await this.client.sendMessage(entity, opts);
+    const msg = await this.sendText(dialogId, text, replyTo, options, scheduleDate);
     this.messagesCache.clear();
     return this.rawMessageToInfo(msg);
   }
@@ -1215,6 +2197,22 @@ export class TelegramService {
       }));
   }
 
+  /** Dialog ids explicitly listed in a folder (included + pinned, minus excluded). Category flags are not expanded. */
+  async getFolderDialogIds(folderId: number): Promise<string[]> {
+    if (!this.client) throw new Error('Not connected');
+    const result = await this.client.invoke(new Api.messages.GetDialogFilters());
+    const filters = (result as any).filters || result;
+    const folder = (Array.isArray(filters) ? filters : []).find((f: any) => f.id === folderId);
+    if (!folder) return [];
+    const peers: Api.TypeInputPeer[] = [...(folder.pinnedPeers || []), ...(folder.includePeers || []), ...(folder.excludePeers || [])];
+    const selfId = peers.some((p) => p instanceof Api.InputPeerSelf) ? (await this.getMe()).id.toString() : '';
+    const toId = (p: Api.TypeInputPeer) =>
+      p instanceof Api.InputPeerSelf ? selfId : this.peerToDialogId(p as unknown as Api.TypePeer);
+    const excluded = new Set<string>((folder.excludePeers || []).map(toId));
+    const ids = [...(folder.pinnedPeers || []), ...(folder.includePeers || [])].map(toId);
+    return [...new Set(ids)].filter((id) => id && !excluded.has(id));
+  }
+
   async createFolder(title: string, includePeerIds?: string[], excludePeerIds?: string[]): Promise<{ id: number }> {
     if (!this.client) throw new Error('Not connected');
 
@@ -1472,13 +2470,12 @@ export class TelegramService {
     );
   }
 
-  async uploadProfilePhoto(data: string): Promise<void> {
+  async uploadProfilePhoto(source: UploadSource): Promise<void> {
     if (!this.client) throw new Error('Not connected');
-    const buffer = Buffer.from(data, 'base64');
-    const file = new CustomFile('profile.jpg', buffer.length, '', buffer);
     const uploaded = await this.client.uploadFile({
-      file: file,
+      file: toCustomFile(source, 'profile.jpg'),
       workers: 1,
+      onProgress: this.uploadProgress(source),
     });
     await this.client.invoke(
       new Api.photos.UploadProfilePhoto({ file: uploaded })
@@ -1743,12 +2740,319 @@ export class TelegramService {
     );
   }
 
+  // --- History Backfill ---
+
+  getBackfillStatus(): { running: boolean; floodWaitUntil?: number; jobs: BackfillJob[] } {
+    return {
+      running: this.backfill.isRunning(),
+      floodWaitUntil: this.backfill.getFloodWaitUntil(),
+      jobs: this.cache.getBackfillJobs(),
+    };
+  }
+
+  /** Queue dialogs (and every chat listed in the given folders) for a full history backfill. */
+  async queueBackfill(dialogIds: string[], folderIds: number[] = []): Promise<BackfillJob[]> {
+    const ids = new Set(dialogIds);
+    for (const folderId of folderIds) {
+      for (const id of await this.getFolderDialogIds(folderId)) ids.add(id);
+    }
+    return this.backfill.enqueue([...ids]);
+  }
+
+  cancelBackfill(dialogId: string): boolean {
+    return this.backfill.cancel(dialogId);
+  }
+
+  // --- Retention ---
+
+  getRetentionRules(): RetentionRules {
+    return this.cache.getRetentionRules();
+  }
+
+  /** Replace the retention rules. Folders are expanded now if connected, else on connect. */
+  async setRetentionRules(rules: RetentionRules): Promise<RetentionRules> {
+    this.cache.setRetentionRules(rules);
+    await this.refreshRetention();
+    return this.cache.getRetentionRules();
+  }
+
+  /** A message's current version (or its tombstone) and the versions its edits replaced. */
+  getMessageRevisions(dialogId: string, messageId: number): { current: MessageInfo | null; deletedAt?: number; revisions: MessageRevision[] } {
+    const revisions = this.cache.getRevisions(dialogId, messageId);
+    const deleted = this.cache.getDeletedMessage(dialogId, messageId);
+    if (deleted) return { current: deleted.message, deletedAt: deleted.deletedAt, revisions };
+    return { current: this.cache.getMessage(dialogId, messageId), revisions };
+  }
+
+  getDeletedMessages(dialogId: string, limit: number, offset: number): DeletedMessage[] {
+    return this.cache.getDeletedMessages(dialogId, limit, offset);
+  }
+
+  purgeRetained(dialogId: string): number {
+    return this.cache.purgeRetained(dialogId);
+  }
+
+  private isRetained(dialogId: string): boolean {
+    const { chatId } = this.parseDialogId(dialogId);
+    return this.retainedDialogs.has(dialogId) || this.retainedDialogs.has(chatId) || this.retainedFolderChats.has(chatId);
+  }
+
+  /** Reload the rules. Folder members can only be looked up while connected; until then the last lookup stands. */
+  private async refreshRetention(): Promise<void> {
+    const rules = this.cache.getRetentionRules();
+    this.retainedDialogs = new Set(rules.dialogIds);
+    if (rules.folderIds.length === 0) {
+      this.retainedFolderChats = new Set();
+    } else if (this.client && this.connected) {
+      const chats = new Set<string>();
+      for (const folderId of rules.folderIds) {
+        for (const id of await this.getFolderDialogIds(folderId)) chats.add(id);
+      }
+      this.retainedFolderChats = chats;
+    }
+  }
+
+  // --- Uploads ---
+
+  createUpload(params: { fileName: string; size: number; mimeType?: string; partSize?: number }): UploadSession {
+    return this.uploads.create(params);
+  }
+
+  getUpload(uploadId: string): UploadSession | null {
+    return this.uploads.get(uploadId);
+  }
+
+  writeUploadPart(uploadId: string, part: number, body: Readable): Promise<UploadSession> {
+    return this.uploads.writePart(uploadId, part, body);
+  }
+
+  removeUpload(uploadId: string): boolean {
+    return this.uploads.remove(uploadId);
+  }
+
+  /** End a complete chunked upload and take its file for a send. */
+  takeUpload(uploadId: string): StagedFile {
+    return this.uploads.take(uploadId);
+  }
+
+  /** Stage a multipart file field on disk as it arrives. */
+  receiveUpload(body: Readable, meta: { fileName: string; mimeType?: string }, expectedSize?: number, tags?: UploadTags): Promise<StagedFile> {
+    return this.uploads.receive(body, meta, expectedSize, tags);
+  }
+
+  /** Delete a staged file once its send is over. Buffers need nothing. */
+  releaseUpload(source: UploadSource): void {
+    if (!Buffer.isBuffer(source)) this.uploads.release(source);
+  }
+
+  private uploadProgress(source: UploadSource, tags?: UploadTags): ((fraction: number) => void) | undefined {
+    return Buffer.isBuffer(source) ? undefined : this.uploads.sendProgress(source, tags);
+  }
+
+  // --- Offline Outbox ---
+
+  /**
+   * Whether a send must go through the outbox: offline, earlier sends still
+   * waiting, or a resend of an outbox item. A send already made with this
+   * clientMsgId never queues — `sendOnce()` returns its result.
+   */
+  shouldQueueSend(clientMsgId?: string): boolean {
+    if (clientMsgId && this.cache.getSendResult(clientMsgId)) return false;
+    return !this.connected || !this.online || this.outbox.hasQueued() || (!!clientMsgId && this.outbox.has(clientMsgId));
+  }
+
+  queueSend(dialogId: string, kind: OutboxKind, payload: OutboxPayload, clientMsgId?: string): OutboxEntry {
+    return this.outbox.enqueue(dialogId, kind, payload, clientMsgId);
+  }
+
+  /** Queue a send of a staged file, which is kept on disk until the outbox is done with it. */
+  queueUpload(dialogId: string, kind: OutboxKind, file: StagedFile, payload: OutboxPayload, clientMsgId?: string): OutboxEntry {
+    if (clientMsgId && this.outbox.has(clientMsgId)) {
+      // Already queued with its own copy of the file
+      this.uploads.release(file);
+      return this.outbox.enqueue(dialogId, kind, payload, clientMsgId);
+    }
+    const kept = this.uploads.keep(file);
+    return this.outbox.enqueue(dialogId, kind, { ...payload, path: kept.path, size: kept.size }, clientMsgId);
+  }
+
+  getOutbox(): OutboxEntry[] {
+    return this.outbox.list();
+  }
+
+  retryOutboxItem(clientMsgId: string): OutboxEntry | null {
+    return this.outbox.retry(clientMsgId);
+  }
+
+  removeOutboxItem(clientMsgId: string): boolean {
+    return this.outbox.remove(clientMsgId);
+  }
+
+  private deliverOutboxItem(item: OutboxItem): Promise<MessageInfo> {
+    const { clientMsgId, dialogId, payload } = item;
+    switch (item.kind) {
+      case 'file':
+        return this.sendOnce(clientMsgId, dialogId, () =>
+          this.sendFile(dialogId, outboxFile(payload), payload.fileName || 'file', payload.mimeType, payload.caption, { clientMsgId }));
+      case 'voice':
+        return this.sendOnce(clientMsgId, dialogId, () =>
+          this.sendVoice(dialogId, outboxFile(payload), payload.duration || 0, payload.waveform, { clientMsgId }));
+      default:
+        if (payload.scheduleDate) {
+          return this.sendOnce(clientMsgId, null, () =>
+            this.sendMessageScheduled(dialogId, payload.text || '', payload.scheduleDate!, payload.replyTo, payload.options));
+        }
+        return this.sendOnce(clientMsgId, dialogId, () => this.sendMessage(dialogId, payload.text || '', payload.replyTo, payload.options));
+    }
+  }
+
+  // --- Webhooks ---
+
+  listWebhooks(): Webhook[] {
+    return this.webhooks.list();
+  }
+
+  getWebhook(id: string): Webhook | null {
+    return this.webhooks.get(id);
+  }
+
+  createWebhook(spec: WebhookSpec & { secret?: string }): Promise<Webhook & { secret: string }> {
+    return this.webhooks.create(spec);
+  }
+
+  updateWebhook(id: string, changes: WebhookChanges): Promise<Webhook | null> {
+    return this.webhooks.update(id, changes);
+  }
+
+  deleteWebhook(id: string): Promise<boolean> {
+    return this.webhooks.remove(id);
+  }
+
+  getWebhookDeliveries(filter: { webhookId?: string; status?: WebhookDeliveryStatus }): WebhookDelivery[] {
+    return this.webhooks.deliveries(filter);
+  }
+
+  retryWebhookDelivery(deliveryId: string): WebhookDelivery | null {
+    return this.webhooks.retry(deliveryId);
+  }
+
+  removeWebhookDelivery(deliveryId: string): boolean {
+    return this.webhooks.removeDelivery(deliveryId);
+  }
+
+  // --- Rules ---
+
+  listRules(): Rule[] {
+    return this.rules.list();
+  }
+
+  getRule(id: string): Rule | null {
+    return this.rules.get(id);
+  }
+
+  createRule(spec: RuleSpec): Promise<Rule> {
+    return this.rules.create(spec);
+  }
+
+  updateRule(id: string, changes: Partial<RuleSpec>): Promise<Rule | null> {
+    return this.rules.update(id, changes);
+  }
+
+  deleteRule(id: string): Promise<boolean> {
+    return this.rules.remove(id);
+  }
+
+  testRule(spec: RuleSpec, options: { dialogId?: string; limit?: number }): Promise<{ scanned: number; matches: RuleTestMatch[] }> {
+    return this.rules.test(spec, options);
+  }
+
+  getRuleRuns(filter: { ruleId?: string; dialogId?: string }, limit: number): RuleRun[] {
+    return this.rules.runs(filter, limit);
+  }
+
+  // --- Schedules ---
+
+  listSchedules(): Schedule[] {
+    return this.schedules.list();
+  }
+
+  getSchedule(id: string): Schedule | null {
+    return this.schedules.get(id);
+  }
+
+  createSchedule(spec: ScheduleSpec): Schedule {
+    return this.schedules.create(spec);
+  }
+
+  updateSchedule(id: string, spec: ScheduleSpec): Schedule | null {
+    return this.schedules.update(id, spec);
+  }
+
+  pauseSchedule(id: string): Schedule | null {
+    return this.schedules.pause(id);
+  }
+
+  resumeSchedule(id: string): Schedule | null {
+    return this.schedules.resume(id);
+  }
+
+  deleteSchedule(id: string): boolean {
+    return this.schedules.remove(id);
+  }
+
+  // --- Idempotent Sends ---
+
+  /**
+   * Run `send` at most once per clientMsgId. A repeat — while the first is still
+   * in flight or within CLIENT_MSG_ID_TTL after — gets the original result.
+   * `echoDialogId` is where the sent messages land, so their newMessage events
+   * can carry the clientMsgId; null for scheduled sends, whose ids aren't final.
+   */
+  async sendOnce<T extends MessageInfo | MessageInfo[]>(
+    clientMsgId: string | undefined,
+    echoDialogId: string | null,
+    send: () => Promise<T>,
+  ): Promise<T> {
+    if (!clientMsgId) return send();
+
+    const previous = this.cache.getSendResult(clientMsgId);
+    if (previous) return previous as T;
+    const inFlight = this.sendsInFlight.get(clientMsgId);
+    if (inFlight) return inFlight as Promise<T>;
+
+    const promise = (echoDialogId
+      ? this.sending.run({ clientMsgId, chatId: this.parseDialogId(echoDialogId).chatId }, send)
+      : send())
+      .then((result) => {
+        const ids = (Array.isArray(result) ? result : [result]).map((m) => m.id);
+        const chatId = echoDialogId ? this.parseDialogId(echoDialogId).chatId : null;
+        try {
+          this.cache.saveSendResult(clientMsgId, result, chatId, ids);
+          this.cache.pruneSendResults(Math.floor(Date.now() / 1000) - CLIENT_MSG_ID_TTL);
+        } catch (e) { console.error('[cache] send result save error:', e); }
+        return result;
+      })
+      .finally(() => { this.sendsInFlight.delete(clientMsgId); });
+    this.sendsInFlight.set(clientMsgId, promise);
+    return promise;
+  }
+
   // --- Logout ---
 
   async logout(): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     await this.client.invoke(new Api.auth.LogOut());
     this.connected = false;
+    this.online = false;
+    this.updates?.stop();
+    this.updates = null;
+    await this.backfill.stop();
+    this.outbox.stop();
+    this.webhooks.stop();
+    this.rules.stop();
+    this.stopQrLogin();
+    // pts/qts/seq belong to the session that just ended
+    try { this.cache.clearUpdateState(); } catch (e) { console.error('[cache] clear update state error:', e); }
   }
 
   // --- Mark All as Read ---
@@ -1910,6 +3214,11 @@ export class TelegramService {
 
   // --- Global Search ---
 
+  /** Search the local message cache — no network, covers every cached dialog. */
+  searchLocal(options: LocalSearchOptions): LocalSearchResult[] {
+    return this.cache.searchMessages(options);
+  }
+
   async searchGlobal(query: string, limit = 20, offsetId?: number, offsetPeer?: string): Promise<{
     messages: Array<{
       id: number;
@@ -2228,13 +3537,15 @@ export class TelegramService {
     }
   }
 
-  async editDialogPhoto(dialogId: string, base64Data: string): Promise<void> {
+  async editDialogPhoto(dialogId: string, source: UploadSource): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
-    const buffer = Buffer.from(base64Data, 'base64');
-    const file = new CustomFile('photo.jpg', buffer.length, '', buffer);
-    const uploaded = await this.client.uploadFile({ file, workers: 1 });
+    const uploaded = await this.client.uploadFile({
+      file: toCustomFile(source, 'photo.jpg'),
+      workers: 1,
+      onProgress: this.uploadProgress(source, { dialogId }),
+    });
     const inputPhoto = new Api.InputChatUploadedPhoto({ file: uploaded });
 
     if ((entity as any).className === 'Channel') {
@@ -2809,18 +4120,30 @@ export class TelegramService {
 
   // --- Bot Callback ---
 
-  async getBotCallbackAnswer(dialogId: string, messageId: number, data: string): Promise<{ message?: string; alert?: boolean; url?: string }> {
+  /**
+   * Press an inline callback button. `data` is the button's base64 `data`.
+   * The answer is what the bot shows: a toast, an alert (`alert`), or a URL
+   * to open (games). A bot that doesn't answer in time gets an empty answer.
+   */
+  async getBotCallbackAnswer(dialogId: string, messageId: number, data: string, game = false): Promise<{ message?: string; alert?: boolean; url?: string }> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = this.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
 
-    const result = await this.client.invoke(
-      new Api.messages.GetBotCallbackAnswer({
-        peer: entity,
-        msgId: messageId,
-        data: Buffer.from(data),
-      })
-    );
+    let result: Api.messages.BotCallbackAnswer;
+    try {
+      result = await this.client.invoke(
+        new Api.messages.GetBotCallbackAnswer({
+          peer: entity,
+          msgId: messageId,
+          data: game ? undefined : Buffer.from(data, 'base64'),
+          game: game || undefined,
+        })
+      );
+    } catch (err: any) {
+      if (err?.errorMessage === 'BOT_RESPONSE_TIMEOUT') return { alert: false };
+      throw err;
+    }
 
     return {
       message: result.message || undefined,
@@ -2908,9 +4231,17 @@ export class TelegramService {
   }
 
   async disconnect(): Promise<void> {
+    this.updates?.stop();
+    await this.backfill.stop();
+    this.outbox.stop();
+    this.webhooks.stop();
+    this.rules.stop();
+    this.schedules.stop();
+    this.stopQrLogin();
     if (this.client) {
       await this.client.disconnect();
       this.connected = false;
+      this.online = false;
     }
     try { this.cache.close(); } catch { /* ignore */ }
   }
@@ -2934,7 +4265,7 @@ export class TelegramService {
   }
 
   /** Get normalized chat ID from a Message (matches getDialogs format: -100xxx for channels). */
-  private getMessageChatId(msg: Api.Message): string {
+  private getMessageChatId(msg: Api.Message | Api.MessageService): string {
     const peer = msg.peerId;
     if (peer instanceof Api.PeerUser) return peer.userId.toString();
     if (peer instanceof Api.PeerChat) return `-${peer.chatId.toString()}`;
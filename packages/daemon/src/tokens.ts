@@ -0,0 +1,301 @@
+import * as crypto from 'crypto';
+import { getConfigStamp, loadConfig, saveConfig, TokenConfig } from './config';
+
+export const SCOPES = [
+  'read:messages',
+  'send:messages',
+  'manage:dialogs',
+  'admin:groups',
+  'account:security',
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export interface ApiToken {
+  name: string;
+  scopes: Scope[];
+  /** When set, the token may only touch these dialogs (a forum chat id covers its topics). */
+  dialogs?: string[];
+  /** When set, the token may only use these accounts. */
+  accounts?: string[];
+}
+
+/**
+ * Scope required by each route, keyed by `METHOD path` without the
+ * `/accounts/:accountId` prefix. Routes missing here (e.g. `/debug/*`) are
+ * only reachable with the full-access `authToken`.
+ */
+const ROUTE_SCOPES: Record<string, Scope> = {
+  // Reading
+  'GET /me': 'read:messages',
+  'GET /dialogs': 'read:messages',
+  'GET /dialogs/:dialogId/info': 'read:messages',
+  'GET /dialogs/:dialogId/messages': 'read:messages',
+  'GET /dialogs/:dialogId/media': 'read:messages',
+  'GET /dialogs/:dialogId/search': 'read:messages',
+  'GET /dialogs/:dialogId/scheduled': 'read:messages',
+  'GET /dialogs/:dialogId/draft': 'read:messages',
+  'GET /dialogs/:dialogId/pinned': 'read:messages',
+  'GET /dialogs/:dialogId/members': 'read:messages',
+  'GET /dialogs/:dialogId/permissions': 'read:messages',
+  'GET /dialogs/:dialogId/reactions': 'read:messages',
+  'GET /dialogs/:dialogId/topics': 'read:messages',
+  'GET /messages/:messageId': 'read:messages',
+  'GET /messages/:messageId/reactions': 'read:messages',
+  'GET /messages/:messageId/poll/votes': 'read:messages',
+  'GET /media/:messageId': 'read:messages',
+  'GET /media/:messageId/token': 'read:messages',
+  'GET /profile/:userId': 'read:messages',
+  'GET /profile/:userId/photo': 'read:messages',
+  'GET /folders': 'read:messages',
+  'GET /search': 'read:messages',
+  'GET /search/dialogs': 'read:messages',
+  'GET /search/local': 'read:messages',
+  'GET /contacts': 'read:messages',
+  'GET /contacts/search': 'read:messages',
+  'GET /saved': 'read:messages',
+  'GET /events': 'read:messages',
+  'GET /backfill': 'read:messages',
+  'GET /retention': 'read:messages',
+  'GET /messages/:messageId/revisions': 'read:messages',
+  'GET /dialogs/:dialogId/deleted': 'read:messages',
+
+  // Sending and acting on messages
+  'POST /dialogs/:dialogId/messages': 'send:messages',
+  'POST /dialogs/:dialogId/typing': 'send:messages',
+  'POST /dialogs/:dialogId/upload': 'send:messages',
+  'POST /dialogs/:dialogId/voice': 'send:messages',
+  'POST /dialogs/:dialogId/album': 'send:messages',
+  'POST /dialogs/:dialogId/polls': 'send:messages',
+  'POST /uploads': 'send:messages',
+  'GET /uploads/:uploadId': 'send:messages',
+  'PUT /uploads/:uploadId/parts/:part': 'send:messages',
+  'DELETE /uploads/:uploadId': 'send:messages',
+  'POST /dialogs/:dialogId/read': 'send:messages',
+  'POST /dialogs/:dialogId/readAll': 'send:messages',
+  'PUT /dialogs/:dialogId/draft': 'send:messages',
+  'DELETE /dialogs/:dialogId/draft': 'send:messages',
+  'POST /messages/:messageId/read': 'send:messages',
+  'POST /messages/:messageId/react': 'send:messages',
+  'DELETE /messages/:messageId/react': 'send:messages',
+  'PUT /messages/:messageId/reactions': 'send:messages',
+  'POST /messages/:messageId/poll/vote': 'send:messages',
+  'DELETE /messages/:messageId/poll/vote': 'send:messages',
+  'POST /messages/:messageId/poll/close': 'send:messages',
+  'POST /messages/:messageId/forward': 'send:messages',
+  'POST /messages/:messageId/pin': 'send:messages',
+  'POST /messages/:messageId/unpin': 'send:messages',
+  'PATCH /messages/:messageId': 'send:messages',
+  'DELETE /messages/:messageId': 'send:messages',
+  'POST /inline': 'send:messages',
+  'POST /inline/send': 'send:messages',
+  'POST /bots/callback': 'send:messages',
+  'GET /outbox': 'send:messages',
+  'POST /outbox/:clientMsgId/retry': 'send:messages',
+  'DELETE /outbox/:clientMsgId': 'send:messages',
+
+  // Organising the chat list, membership of your own account and what the cache keeps
+  'POST /dialogs/:dialogId/archive': 'manage:dialogs',
+  'POST /dialogs/:dialogId/unarchive': 'manage:dialogs',
+  'POST /dialogs/:dialogId/mute': 'manage:dialogs',
+  'POST /dialogs/:dialogId/leave': 'manage:dialogs',
+  'DELETE /dialogs/:dialogId/history': 'manage:dialogs',
+  'POST /folders': 'manage:dialogs',
+  'PUT /folders/:folderId': 'manage:dialogs',
+  'DELETE /folders/:folderId': 'manage:dialogs',
+  'POST /join': 'manage:dialogs',
+  'POST /backfill': 'manage:dialogs',
+  'DELETE /backfill/:dialogId': 'manage:dialogs',
+  'PUT /retention': 'manage:dialogs',
+  'DELETE /dialogs/:dialogId/retained': 'manage:dialogs',
+
+  // Administering groups and channels
+  'POST /groups': 'admin:groups',
+  'PATCH /dialogs/:dialogId': 'admin:groups',
+  'PUT /dialogs/:dialogId/photo': 'admin:groups',
+  'POST /dialogs/:dialogId/members': 'admin:groups',
+  'DELETE /dialogs/:dialogId/members/:userId': 'admin:groups',
+  'PUT /dialogs/:dialogId/members/:userId/permissions': 'admin:groups',
+  'POST /dialogs/:dialogId/ban': 'admin:groups',
+  'POST /dialogs/:dialogId/unban': 'admin:groups',
+  'POST /dialogs/:dialogId/admins/:userId': 'admin:groups',
+  'DELETE /dialogs/:dialogId/admins/:userId': 'admin:groups',
+  'GET /dialogs/:dialogId/invite': 'admin:groups',
+  'POST /dialogs/:dialogId/invite': 'admin:groups',
+  'GET /dialogs/:dialogId/invites': 'admin:groups',
+  'DELETE /dialogs/:dialogId/invites': 'admin:groups',
+  'PUT /dialogs/:dialogId/permissions': 'admin:groups',
+  'PUT /dialogs/:dialogId/slowmode': 'admin:groups',
+  'POST /dialogs/:dialogId/topics': 'admin:groups',
+  'PATCH /dialogs/:dialogId/topics/:topicId': 'admin:groups',
+  'DELETE /dialogs/:dialogId/topics/:topicId': 'admin:groups',
+  'POST /dialogs/:dialogId/topics/:topicId/pin': 'admin:groups',
+  'POST /dialogs/:dialogId/topics/:topicId/unpin': 'admin:groups',
+
+  // Account settings, sessions and the daemon's accounts
+  'GET /settings/privacy': 'account:security',
+  'PUT /settings/privacy': 'account:security',
+  'GET /settings/account': 'account:security',
+  'PUT /settings/account': 'account:security',
+  'PUT /settings/username': 'account:security',
+  'PUT /settings/photo': 'account:security',
+  'DELETE /settings/photo': 'account:security',
+  'GET /settings/2fa': 'account:security',
+  'POST /settings/2fa': 'account:security',
+  'DELETE /settings/2fa': 'account:security',
+  'GET /settings/sessions': 'account:security',
+  'DELETE /settings/sessions/:hash': 'account:security',
+  'DELETE /settings/sessions': 'account:security',
+  'GET /settings/blocked': 'account:security',
+  'POST /settings/blocked': 'account:security',
+  'DELETE /settings/blocked/:userId': 'account:security',
+  'GET /settings/notifications': 'account:security',
+  'PUT /settings/notifications': 'account:security',
+  'GET /settings/autodownload': 'account:security',
+  'PUT /settings/autodownload': 'account:security',
+  'POST /logout': 'account:security',
+  'GET /accounts': 'account:security',
+  'POST /accounts': 'account:security',
+  'DELETE /accounts/:accountId': 'account:security',
+};
+
+/**
+ * Routes a dialog-limited token may call without naming a dialog. `/events`
+ * is narrowed to the allowlist instead. A chunked upload only names its dialog
+ * when it is sent.
+ */
+const DIALOG_FREE_ROUTES = new Set([
+  'GET /me', 'GET /events',
+  'POST /uploads', 'GET /uploads/:uploadId', 'PUT /uploads/:uploadId/parts/:part', 'DELETE /uploads/:uploadId',
+]);
+
+/** Strip the `/accounts/:accountId` prefix so every account shares one entry. */
+export function routeKey(method: string, routeUrl: string): string {
+  // DELETE /accounts/:accountId is itself a route, not a prefix
+  const path = routeUrl.replace(/^\/accounts\/:accountId(?=\/)/, '');
+  return `${method} ${path}`;
+}
+
+export function requiredScope(method: string, routeUrl: string): Scope | undefined {
+  return ROUTE_SCOPES[routeKey(method, routeUrl)];
+}
+
+export function allowsDialogFreeRoute(method: string, routeUrl: string): boolean {
+  return DIALOG_FREE_ROUTES.has(routeKey(method, routeUrl));
+}
+
+export function isScope(value: string): value is Scope {
+  return (SCOPES as readonly string[]).includes(value);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/** Parsed tokens, kept until the config file changes */
+let tokenCache: { stamp: string; tokens: Record<string, TokenConfig> } | null = null;
+
+/** The stored tokens. Re-read when config.json changes, so CLI changes apply without a restart. */
+function storedTokens(): Record<string, TokenConfig> {
+  const stamp = getConfigStamp();
+  if (tokenCache?.stamp !== stamp) tokenCache = { stamp, tokens: loadConfig().tokens || {} };
+  return tokenCache.tokens;
+}
+
+/** Look up a presented bearer token. */
+export function findToken(token: string): ApiToken | null {
+  const hash = Buffer.from(hashToken(token), 'hex');
+  for (const [name, stored] of Object.entries(storedTokens())) {
+    const candidate = Buffer.from(stored.hash, 'hex');
+    if (candidate.length === hash.length && crypto.timingSafeEqual(candidate, hash)) {
+      return { name, scopes: stored.scopes.filter(isScope), dialogs: stored.dialogs, accounts: stored.accounts };
+    }
+  }
+  return null;
+}
+
+export function hasTokens(): boolean {
+  return Object.keys(storedTokens()).length > 0;
+}
+
+/** Create a token and return its secret. The secret is not stored and can't be shown again. */
+export function createToken(name: string, scopes: Scope[], dialogs?: string[], accounts?: string[]): string {
+  const config = loadConfig();
+  if (config.tokens?.[name]) throw new Error(`Token "${name}" already exists`);
+  const token = `og_${crypto.randomBytes(32).toString('base64url')}`;
+  const stored: TokenConfig = { hash: hashToken(token), scopes, createdAt: Math.floor(Date.now() / 1000) };
+  if (dialogs?.length) stored.dialogs = dialogs;
+  if (accounts?.length) stored.accounts = accounts;
+  config.tokens = { ...config.tokens, [name]: stored };
+  saveConfig(config);
+  tokenCache = null;
+  return token;
+}
+
+export function revokeToken(name: string): boolean {
+  const config = loadConfig();
+  if (!config.tokens?.[name]) return false;
+  delete config.tokens[name];
+  saveConfig(config);
+  tokenCache = null;
+  return true;
+}
+
+export function listTokens(): (ApiToken & { createdAt: number })[] {
+  return Object.entries(loadConfig().tokens || {}).map(([name, stored]) => ({
+    name,
+    scopes: stored.scopes.filter(isScope),
+    dialogs: stored.dialogs,
+    accounts: stored.accounts,
+    createdAt: stored.createdAt,
+  }));
+}
+
+/** Dialog ids a request targets, from route params, query and body. */
+export function requestDialogIds(request: { params: unknown; query: unknown; body: unknown }): string[] {
+  const ids: string[] = [];
+  for (const source of [request.params, request.query, request.body]) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of ['dialogId', 'fromDialogId', 'toDialogId']) {
+      const value = (source as Record<string, unknown>)[key];
+      if (typeof value === 'string' || typeof value === 'number') ids.push(String(value));
+    }
+  }
+  return ids;
+}
+
+/** How long a media link stays valid. Long enough to watch a video and seek in it. */
+export const MEDIA_TOKEN_TTL_S = 60 * 60;
+
+/** Signs media links. Kept in memory only, so a restart revokes the links handed out. */
+const mediaTokenKey = crypto.randomBytes(32);
+
+/** The one file a media link opens. */
+export interface MediaGrant {
+  accountId: string;
+  dialogId: string;
+  messageId: number;
+}
+
+function signMediaGrant({ accountId, dialogId, messageId }: MediaGrant, expiresAt: number): string {
+  return crypto.createHmac('sha256', mediaTokenKey).update(`${accountId}\n${dialogId}\n${messageId}\n${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Token for `?token=` on `/media/:messageId`, for `<video>` and `<img>` that
+ * can't send headers. It opens that file of that account only, until `expiresAt`.
+ */
+export function createMediaToken(grant: MediaGrant, now = Date.now()): { token: string; expiresAt: number } {
+  const expiresAt = Math.floor(now / 1000) + MEDIA_TOKEN_TTL_S;
+  return { token: `${expiresAt}.${signMediaGrant(grant, expiresAt)}`, expiresAt };
+}
+
+export function verifyMediaToken(token: string, grant: MediaGrant, now = Date.now()): boolean {
+  const match = /^(\d+)\.([\w-]+)$/.exec(token);
+  if (!match) return false;
+  const expiresAt = Number(match[1]);
+  if (expiresAt * 1000 <= now) return false;
+  const expected = Buffer.from(signMediaGrant(grant, expiresAt));
+  const presented = Buffer.from(match[2]);
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+}
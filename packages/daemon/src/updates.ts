@@ -0,0 +1,637 @@
+import { TelegramClient, Api, utils } from 'telegram';
+import { UpdateConnectionState } from 'telegram/network';
+import bigInt from 'big-integer';
+import type { Cache as CacheType } from './cache';
+
+/**
+ * Ordered update pipeline (see SYNC-ARCHITECTURE.md § 1.1–1.3).
+ *
+ * Every update that carries a `pts`/`qts` is checked against the locally
+ * applied state before it reaches the rest of the daemon:
+ *   - `local + count === remote` → apply now
+ *   - `local + count >  remote` → already applied, drop (dedup)
+ *   - `local + count <  remote` → gap: hold it, wait briefly for the missing
+ *     updates, then fall back to `updates.getDifference` /
+ *     `updates.getChannelDifference`.
+ *
+ * Private chats and basic groups share one common pts box; each channel has its
+ * own. `Updates`/`UpdatesCombined` containers are additionally ordered by `seq`.
+ * All of it is persisted in the SQLite cache so a restart resumes where it left off.
+ */
+
+/** Common message box state, mirrors `updates.State`. */
+export interface UpdateState {
+  pts: number;
+  qts: number;
+  seq: number;
+  date: number;
+}
+
+export type ApplyUpdate = (update: Api.TypeUpdate) => void;
+
+/** How long to wait for a missing update before asking the server for the difference. */
+const GAP_TIMEOUT_MS = 500;
+const CHANNEL_DIFFERENCE_LIMIT = 100;
+
+const COMMON_PTS = 'pts';
+const COMMON_QTS = 'qts';
+
+interface PendingUpdate {
+  remote: number;
+  count: number;
+  /** Null when only the pts moves: our own sends and deletions, already done */
+  update: Api.TypeUpdate | null;
+}
+
+type UpdatesContainer = Api.Updates | Api.UpdatesCombined;
+
+/**
+ * The gramJS internals the pipeline hooks into. None of them is public API:
+ * the sender callback sees containers before gramJS unwraps them, `invoke` is
+ * the one path every RPC result takes, and the entity cache is what
+ * `getEntity` resolves from.
+ */
+interface ClientInternals {
+  _sender?: { _updateCallback?: (client: TelegramClient, update: unknown) => void };
+  _entityCache?: { add(entities: unknown): void };
+  session?: { processEntities(entities: unknown): void };
+  invoke(request: Api.AnyRequest, ...rest: unknown[]): Promise<unknown>;
+}
+
+/** The manager a hooked client feeds. A manager started later on the same client takes over. */
+const managers = new WeakMap<object, UpdateManager>();
+
+export class UpdateManager {
+  private state: UpdateState | null = null;
+  private channelPts: Map<string, number>;
+  private queues: Map<string, PendingUpdate[]> = new Map();
+  private seqQueue: UpdatesContainer[] = [];
+  private gapTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private syncing: Promise<void> | null = null;
+  private channelSyncing: Map<string, Promise<void>> = new Map();
+  private selfId = '';
+  private stopped = false;
+
+  constructor(
+    private client: TelegramClient,
+    private cache: CacheType,
+    private apply: ApplyUpdate,
+  ) {
+    this.channelPts = cache.getChannelPts();
+  }
+
+  /** Load persisted state (or fetch a fresh one) and catch up on anything missed while offline. */
+  async start(): Promise<void> {
+    this.hookTransport();
+    const me = await this.client.getMe(true) as Api.InputPeerUser;
+    this.selfId = me.userId?.toString() || '';
+
+    this.syncing = (async () => {
+      const saved = this.cache.getUpdateState();
+      if (saved) {
+        this.state = saved;
+        console.log(`[updates] Resuming from pts=${saved.pts} qts=${saved.qts} seq=${saved.seq}`);
+        await this.runDifference();
+      } else {
+        await this.resetState();
+        console.log(`[updates] Fresh state pts=${this.state!.pts} qts=${this.state!.qts} seq=${this.state!.seq}`);
+      }
+    })().finally(() => {
+      this.syncing = null;
+      this.drainAll();
+    });
+    return this.syncing;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const timer of this.gapTimers.values()) clearTimeout(timer);
+    this.gapTimers.clear();
+  }
+
+  getState(): UpdateState | null {
+    return this.state ? { ...this.state } : null;
+  }
+
+  /** Entry point for every raw update gramJS dispatches. */
+  handle(update: Api.TypeUpdate | Api.TypeUpdates | UpdateConnectionState): void {
+    if (this.stopped) return;
+
+    if (update instanceof UpdateConnectionState) {
+      // Reconnected after a network blip — anything pushed meanwhile is lost, ask for it
+      if (update.state === UpdateConnectionState.connected && this.state) {
+        this.getDifference().catch((e) => console.error('[updates] getDifference error:', e));
+      }
+      return;
+    }
+
+    if (update instanceof Api.UpdatesTooLong) {
+      this.getDifference().catch((e) => console.error('[updates] getDifference error:', e));
+      return;
+    }
+
+    if (update instanceof Api.UpdateShortSentMessage) {
+      // No peer in the payload and no request to take it from; only the pts matters
+      this.enqueue(COMMON_PTS, { remote: update.pts, count: update.ptsCount, update: null });
+      return;
+    }
+
+    const normalized = this.normalize(update);
+    if (!normalized) return;
+
+    if (normalized instanceof Api.UpdateChannelTooLong) {
+      const channelId = normalized.channelId.toString();
+      if (normalized.pts && !this.channelPts.has(channelId)) this.setChannelPts(channelId, normalized.pts);
+      this.getChannelDifference(channelId).catch((e) => console.error('[updates] getChannelDifference error:', e));
+      return;
+    }
+
+    const ordering = this.orderingOf(normalized);
+    if (!ordering) {
+      this.apply(normalized);
+      return;
+    }
+    this.enqueue(ordering.key, { remote: ordering.remote, count: ordering.count, update: normalized });
+  }
+
+  // --- Ordering ---
+
+  /** Which box an update belongs to and where it sits in it. */
+  private orderingOf(update: Api.TypeUpdate): { key: string; remote: number; count: number } | null {
+    const u = update as { pts?: unknown; ptsCount?: unknown; qts?: unknown };
+    if (typeof u.pts === 'number' && typeof u.ptsCount === 'number') {
+      const channelId = channelIdOf(update);
+      return { key: channelId ?? COMMON_PTS, remote: u.pts, count: u.ptsCount };
+    }
+    if (typeof u.qts === 'number' && u.qts > 0) {
+      return { key: COMMON_QTS, remote: u.qts, count: 1 };
+    }
+    return null;
+  }
+
+  private localOf(key: string): number | undefined {
+    if (key === COMMON_PTS) return this.state?.pts;
+    if (key === COMMON_QTS) return this.state?.qts;
+    return this.channelPts.get(key);
+  }
+
+  private setLocal(key: string, value: number): void {
+    if (key === COMMON_PTS || key === COMMON_QTS) {
+      if (!this.state) return;
+      this.state[key] = value;
+      this.persistState();
+      return;
+    }
+    this.setChannelPts(key, value);
+  }
+
+  private isSyncing(key: string): boolean {
+    if (key === COMMON_PTS || key === COMMON_QTS) return this.syncing !== null || !this.state;
+    return this.channelSyncing.has(key);
+  }
+
+  private enqueue(key: string, pending: PendingUpdate): void {
+    const local = this.localOf(key);
+
+    // First update ever seen for this channel — nothing to compare against, adopt its pts
+    if (local === undefined && key !== COMMON_PTS && key !== COMMON_QTS) {
+      this.setLocal(key, pending.remote);
+      if (pending.update) this.apply(pending.update);
+      return;
+    }
+
+    if (local !== undefined && !this.isSyncing(key)) {
+      if (local + pending.count > pending.remote) return; // duplicate
+      if (local + pending.count === pending.remote) {
+        this.setLocal(key, pending.remote);
+        if (pending.update) this.apply(pending.update);
+        this.drain(key);
+        return;
+      }
+    }
+
+    const queue = this.queues.get(key) || [];
+    queue.push(pending);
+    queue.sort((a, b) => a.remote - b.remote);
+    this.queues.set(key, queue);
+    if (!this.isSyncing(key)) this.scheduleGapCheck(key);
+  }
+
+  /**
+   * Apply queued updates that have become contiguous; drop the ones already covered.
+   * With `force`, a gap that survived a completed difference is accepted as-is — the
+   * server has nothing more for us, so waiting would stall the box forever.
+   */
+  private drain(key: string, force = false): void {
+    const queue = this.queues.get(key);
+    if (!queue) return;
+
+    while (queue.length > 0) {
+      const local = this.localOf(key);
+      if (local === undefined) break;
+      const next = queue[0];
+      if (local + next.count > next.remote) { queue.shift(); continue; }
+      if (local + next.count !== next.remote && !force) break;
+      queue.shift();
+      this.setLocal(key, next.remote);
+      if (next.update) this.apply(next.update);
+    }
+
+    if (queue.length === 0) {
+      this.queues.delete(key);
+      this.clearGapTimer(key);
+    } else {
+      this.scheduleGapCheck(key);
+    }
+  }
+
+  private drainAll(force = false): void {
+    for (const key of [...this.queues.keys()]) {
+      if (this.isSyncing(key)) continue;
+      this.drain(key, force && (key === COMMON_PTS || key === COMMON_QTS));
+    }
+    this.drainSeq(force);
+  }
+
+  private scheduleGapCheck(key: string): void {
+    if (this.gapTimers.has(key)) return;
+    this.gapTimers.set(key, setTimeout(() => {
+      this.gapTimers.delete(key);
+      if (this.stopped) return;
+      const stillGapped = key === 'seq' ? this.seqQueue.length > 0 : (this.queues.get(key)?.length ?? 0) > 0;
+      if (!stillGapped) return;
+      console.log(`[updates] Gap in ${key} — fetching difference`);
+      const recover = key === COMMON_PTS || key === COMMON_QTS || key === 'seq'
+        ? this.getDifference()
+        : this.getChannelDifference(key);
+      recover.catch((e) => console.error(`[updates] Gap recovery for ${key} failed:`, e));
+    }, GAP_TIMEOUT_MS));
+  }
+
+  private clearGapTimer(key: string): void {
+    const timer = this.gapTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.gapTimers.delete(key);
+  }
+
+  // --- seq ordering of Updates/UpdatesCombined containers ---
+
+  /**
+   * gramJS unwraps containers before dispatching, which loses `seq`. Intercept the
+   * sender callback so containers are ordered by `seq` before being unwrapped, and
+   * route RPC results through the same pipeline so our own sends advance pts instead
+   * of showing up as a gap.
+   */
+  private hookTransport(): void {
+    const client = this.client as unknown as ClientInternals;
+    const hooked = managers.has(client);
+    managers.set(client, this);
+    if (hooked) return;
+    const current = () => managers.get(client)!;
+
+    const sender = client._sender;
+    const original = sender?._updateCallback;
+    if (sender && original) {
+      sender._updateCallback = (c, update) => {
+        if (current().acceptContainer(update, () => original(c, update))) original(c, update);
+      };
+    } else {
+      console.warn('[updates] gramJS sender not available — seq ordering disabled');
+    }
+
+    const invoke = client.invoke.bind(client);
+    client.invoke = async (request, ...rest) => {
+      const result = await invoke(request, ...rest);
+      current().observeResult(request, result);
+      return result;
+    };
+  }
+
+  /**
+   * Returns true when the container should be dispatched right away. Out-of-order
+   * containers are held and dispatched later via `dispatch`.
+   */
+  private acceptContainer(update: unknown, dispatch: () => void): boolean {
+    if (!(update instanceof Api.Updates) && !(update instanceof Api.UpdatesCombined)) return true;
+    if (!update.seq || this.stopped) return true;
+
+    if (!this.state || this.syncing) {
+      this.holdContainer(update, dispatch);
+      return false;
+    }
+
+    const seqStart = update instanceof Api.UpdatesCombined ? update.seqStart : update.seq;
+    if (seqStart <= this.state.seq) return false; // already seen
+    if (seqStart === this.state.seq + 1) {
+      this.state.seq = update.seq;
+      this.state.date = update.date;
+      this.persistState();
+      setImmediate(() => this.drainSeq());
+      return true;
+    }
+
+    this.holdContainer(update, dispatch);
+    this.scheduleGapCheck('seq');
+    return false;
+  }
+
+  private heldDispatch = new WeakMap<UpdatesContainer, () => void>();
+
+  private holdContainer(update: UpdatesContainer, dispatch: () => void): void {
+    this.heldDispatch.set(update, dispatch);
+    this.seqQueue.push(update);
+    this.seqQueue.sort((a, b) => seqStartOf(a) - seqStartOf(b));
+  }
+
+  private drainSeq(force = false): void {
+    if (!this.state || this.syncing) return;
+    while (this.seqQueue.length > 0) {
+      const next = this.seqQueue[0];
+      const seqStart = seqStartOf(next);
+      if (seqStart <= this.state.seq) {
+        // Covered by a difference — its pts-bearing updates are deduped individually
+        this.seqQueue.shift();
+        continue;
+      }
+      if (seqStart !== this.state.seq + 1 && !force) break;
+      this.seqQueue.shift();
+      this.state.seq = next.seq;
+      this.state.date = next.date;
+      this.persistState();
+      this.heldDispatch.get(next)?.();
+    }
+    if (this.seqQueue.length === 0) this.clearGapTimer('seq');
+    else this.scheduleGapCheck('seq');
+  }
+
+  /** Feed update-bearing RPC results (sendMessage, forward, delete, ...) into the pipeline. */
+  private observeResult(request: Api.AnyRequest, result: unknown): void {
+    if (!result || this.stopped) return;
+    try {
+      if (result instanceof Api.Updates || result instanceof Api.UpdatesCombined) {
+        for (const u of result.updates) this.handle(u);
+      } else if (result instanceof Api.UpdateShort) {
+        this.handle(result.update);
+      } else if (result instanceof Api.UpdateShortSentMessage) {
+        this.handle(this.sentMessageUpdate(request, result) ?? result);
+      } else if (
+        (result instanceof Api.messages.AffectedMessages || result instanceof Api.messages.AffectedHistory) &&
+        !request.className.startsWith('channels.')
+      ) {
+        // Deletions / read marks in the common box report the pts they consumed
+        // (channels.* report channel pts, which arrives as a regular channel update anyway)
+        this.enqueue(COMMON_PTS, { remote: result.pts, count: result.ptsCount, update: null });
+      }
+    } catch (e) {
+      console.error('[updates] Failed to observe RPC result:', e);
+    }
+  }
+
+  /**
+   * A private-chat send only gets the new id back. Rebuild the message from the
+   * request, so it is cached and announced like any other new message.
+   */
+  private sentMessageUpdate(request: Api.AnyRequest, result: Api.UpdateShortSentMessage): Api.UpdateNewMessage | null {
+    if (!(request instanceof Api.messages.SendMessage) && !(request instanceof Api.messages.SendMedia)) return null;
+    let peerId: Api.TypePeer;
+    try {
+      peerId = request.peer instanceof Api.InputPeerSelf && this.selfId
+        ? new Api.PeerUser({ userId: bigInt(this.selfId) })
+        : utils.getPeer(request.peer);
+    } catch {
+      return null;
+    }
+    const replyTo = request.replyTo instanceof Api.InputReplyToMessage
+      ? new Api.MessageReplyHeader({ replyToMsgId: request.replyTo.replyToMsgId, quoteText: request.replyTo.quoteText })
+      : undefined;
+    const message = new Api.Message({
+      out: result.out,
+      silent: request.silent,
+      id: result.id,
+      peerId,
+      fromId: this.selfId ? new Api.PeerUser({ userId: bigInt(this.selfId) }) : undefined,
+      message: request.message,
+      date: result.date,
+      replyTo,
+      media: result.media,
+      entities: result.entities ?? request.entities,
+      ttlPeriod: result.ttlPeriod,
+    });
+    return new Api.UpdateNewMessage({ message, pts: result.pts, ptsCount: result.ptsCount });
+  }
+
+  // --- Difference ---
+
+  getDifference(): Promise<void> {
+    if (this.syncing) return this.syncing;
+    if (!this.state) return Promise.resolve();
+    for (const key of [COMMON_PTS, COMMON_QTS, 'seq']) this.clearGapTimer(key);
+    this.syncing = this.runDifference().finally(() => {
+      this.syncing = null;
+      this.drainAll(true);
+    });
+    return this.syncing;
+  }
+
+  private async runDifference(): Promise<void> {
+    for (;;) {
+      if (this.stopped || !this.state) return;
+      const { pts, qts, date } = this.state;
+      const diff = await this.client.invoke(new Api.updates.GetDifference({ pts, qts, date }));
+
+      if (diff instanceof Api.updates.DifferenceEmpty) {
+        this.state.seq = diff.seq;
+        this.state.date = diff.date;
+        this.persistState();
+        return;
+      }
+
+      if (diff instanceof Api.updates.DifferenceTooLong) {
+        // Too far behind to replay — jump to the server state, surfaces refetch over HTTP
+        console.warn(`[updates] Difference too long (pts ${pts} → ${diff.pts}), resetting`);
+        await this.resetState();
+        return;
+      }
+
+      this.ingestEntities(diff);
+      for (const message of diff.newMessages) {
+        this.apply(new Api.UpdateNewMessage({ message, pts: 0, ptsCount: 0 }));
+      }
+      for (const u of diff.otherUpdates) this.applyFromDifference(u);
+
+      const next = diff instanceof Api.updates.DifferenceSlice ? diff.intermediateState : diff.state;
+      this.state = { pts: next.pts, qts: next.qts, seq: next.seq, date: next.date };
+      this.persistState();
+      console.log(`[updates] Difference applied: ${diff.newMessages.length} messages, ${diff.otherUpdates.length} updates`);
+
+      if (diff instanceof Api.updates.Difference) return;
+    }
+  }
+
+  /** Updates inside a difference are already in order for the common box; channel ones still need their own box. */
+  private applyFromDifference(update: Api.TypeUpdate): void {
+    const normalized = this.normalize(update);
+    if (!normalized) return;
+    if (normalized instanceof Api.UpdateChannelTooLong || channelIdOf(normalized) !== undefined) {
+      this.handle(normalized);
+      return;
+    }
+    this.apply(normalized);
+  }
+
+  getChannelDifference(channelId: string): Promise<void> {
+    const inFlight = this.channelSyncing.get(channelId);
+    if (inFlight) return inFlight;
+    this.clearGapTimer(channelId);
+
+    const run = this.runChannelDifference(channelId)
+      .catch((e) => {
+        // Can't resolve the channel (left it, no access hash) — the forced drain below accepts the gap
+        console.error(`[updates] Channel ${channelId} difference failed, skipping gap:`, (e as Error).message);
+      })
+      .finally(() => {
+        this.channelSyncing.delete(channelId);
+        this.drain(channelId, true);
+      });
+    this.channelSyncing.set(channelId, run);
+    return run;
+  }
+
+  private async runChannelDifference(channelId: string): Promise<void> {
+    const peer = await this.client.getInputEntity(`-100${channelId}`);
+    if (!(peer instanceof Api.InputPeerChannel)) throw new Error('Not a channel');
+    const channel = new Api.InputChannel({ channelId: peer.channelId, accessHash: peer.accessHash });
+
+    for (;;) {
+      if (this.stopped) return;
+      const pts = this.channelPts.get(channelId);
+      if (pts === undefined) return;
+
+      const diff = await this.client.invoke(new Api.updates.GetChannelDifference({
+        channel,
+        filter: new Api.ChannelMessagesFilterEmpty(),
+        pts,
+        limit: CHANNEL_DIFFERENCE_LIMIT,
+        force: false,
+      }));
+
+      if (diff instanceof Api.updates.ChannelDifferenceEmpty) {
+        this.setChannelPts(channelId, diff.pts);
+        if (diff.final) return;
+        continue;
+      }
+
+      if (diff instanceof Api.updates.ChannelDifferenceTooLong) {
+        const dialog = diff.dialog as Api.Dialog;
+        console.warn(`[updates] Channel ${channelId} difference too long, jumping to pts=${dialog.pts}`);
+        if (dialog.pts) this.setChannelPts(channelId, dialog.pts);
+        return;
+      }
+
+      this.ingestEntities(diff);
+      for (const message of diff.newMessages) {
+        this.apply(new Api.UpdateNewChannelMessage({ message, pts: 0, ptsCount: 0 }));
+      }
+      for (const u of diff.otherUpdates) {
+        const normalized = this.normalize(u);
+        if (normalized) this.apply(normalized);
+      }
+      this.setChannelPts(channelId, diff.pts);
+      if (diff.final) return;
+    }
+  }
+
+  // --- Helpers ---
+
+  private async resetState(): Promise<void> {
+    const state = await this.client.invoke(new Api.updates.GetState());
+    this.state = { pts: state.pts, qts: state.qts, seq: state.seq, date: state.date };
+    this.persistState();
+  }
+
+  /** Short updates carry a message without wrapping it — expand them to regular updates keeping pts. */
+  private normalize(update: Api.TypeUpdate | Exclude<Api.TypeUpdates, Api.UpdateShortSentMessage>): Api.TypeUpdate | null {
+    if (update instanceof Api.UpdateShortMessage) {
+      const message = new Api.Message({
+        out: update.out,
+        mentioned: update.mentioned,
+        mediaUnread: update.mediaUnread,
+        silent: update.silent,
+        id: update.id,
+        peerId: new Api.PeerUser({ userId: update.userId }),
+        fromId: new Api.PeerUser({ userId: update.out && this.selfId ? bigInt(this.selfId) : update.userId }),
+        message: update.message,
+        date: update.date,
+        fwdFrom: update.fwdFrom,
+        viaBotId: update.viaBotId,
+        replyTo: update.replyTo,
+        entities: update.entities,
+        ttlPeriod: update.ttlPeriod,
+      });
+      return new Api.UpdateNewMessage({ message, pts: update.pts, ptsCount: update.ptsCount });
+    }
+    if (update instanceof Api.UpdateShortChatMessage) {
+      const message = new Api.Message({
+        out: update.out,
+        mentioned: update.mentioned,
+        mediaUnread: update.mediaUnread,
+        silent: update.silent,
+        id: update.id,
+        peerId: new Api.PeerChat({ chatId: update.chatId }),
+        fromId: new Api.PeerUser({ userId: update.fromId }),
+        message: update.message,
+        date: update.date,
+        fwdFrom: update.fwdFrom,
+        viaBotId: update.viaBotId,
+        replyTo: update.replyTo,
+        entities: update.entities,
+        ttlPeriod: update.ttlPeriod,
+      });
+      return new Api.UpdateNewMessage({ message, pts: update.pts, ptsCount: update.ptsCount });
+    }
+    if (update instanceof Api.UpdateShort) return update.update;
+    // Remaining containers are unwrapped by gramJS before they reach us
+    if (update instanceof Api.Updates || update instanceof Api.UpdatesCombined || update instanceof Api.UpdatesTooLong) return null;
+    return update;
+  }
+
+  /** Make users/chats from a difference resolvable via getEntity, like gramJS does for pushed updates. */
+  private ingestEntities(diff: { users: Api.TypeUser[]; chats: Api.TypeChat[] }): void {
+    const client = this.client as unknown as ClientInternals;
+    try {
+      client._entityCache?.add(diff);
+      client.session?.processEntities(diff);
+    } catch { /* entities are best-effort */ }
+  }
+
+  private setChannelPts(channelId: string, pts: number): void {
+    this.channelPts.set(channelId, pts);
+    try { this.cache.setChannelPts(channelId, pts); } catch (e) { console.error('[cache] channel pts error:', e); }
+  }
+
+  private persistState(): void {
+    if (!this.state) return;
+    try { this.cache.setUpdateState(this.state); } catch (e) { console.error('[cache] update state error:', e); }
+  }
+}
+
+/** Channel id (bare, without -100) for updates that live in a channel's pts box. */
+function channelIdOf(update: Api.TypeUpdate): string | undefined {
+  if (update instanceof Api.UpdateNewChannelMessage || update instanceof Api.UpdateEditChannelMessage) {
+    const peer = (update.message as Api.Message).peerId;
+    if (peer instanceof Api.PeerChannel) return peer.channelId.toString();
+    return undefined;
+  }
+  if (
+    update instanceof Api.UpdateDeleteChannelMessages ||
+    update instanceof Api.UpdateChannelWebPage ||
+    update instanceof Api.UpdatePinnedChannelMessages
+  ) {
+    return update.channelId.toString();
+  }
+  return undefined;
+}
+
+function seqStartOf(update: UpdatesContainer): number {
+  return update instanceof Api.UpdatesCombined ? update.seqStart : update.seq;
+}
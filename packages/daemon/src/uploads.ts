@@ -0,0 +1,284 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Staged uploads.
+ *
+ * Files sent as multipart/form-data or in chunks are written to disk as they
+ * arrive rather than buffered, then sent from there: gramJS `uploadFile`
+ * reads a file given by path one part at a time.
+ *
+ * A chunked upload is a session. It is created with the file's size, and its
+ * parts are PUT by number, in any order. Re-sending a part overwrites it, so
+ * a client that lost its connection asks which parts arrived and sends the
+ * rest. Once every part is in, the session's `uploadId` stands in for the
+ * file on the send routes. Sessions live in memory: they end when the file is
+ * sent, after UPLOAD_SESSION_TTL_MS without activity, or when the daemon
+ * restarts. Left-over files are removed on start.
+ */
+
+/** Telegram's upload limit for accounts without Premium. */
+export const MAX_UPLOAD_BYTES = 2000 * 1024 * 1024;
+/** Part size when the client doesn't choose one. */
+export const DEFAULT_PART_SIZE = 1024 * 1024;
+const MIN_PART_SIZE = 64 * 1024;
+const MAX_PART_SIZE = 64 * 1024 * 1024;
+const UPLOAD_SESSION_TTL_MS = 24 * 3600 * 1000;
+/** Least time between two progress reports for the same upload. */
+const PROGRESS_INTERVAL_MS = 250;
+/** Outbox sends keep their files here, out of reach of the start-up sweep. */
+const OUTBOX_DIR = 'outbox';
+
+/** Ties progress reports to a send. */
+export type UploadTags = Pick<UploadProgress, 'dialogId' | 'clientMsgId'>;
+
+/** A file on disk, ready to send. */
+export interface StagedFile {
+  path: string;
+  fileName: string;
+  size: number;
+  mimeType?: string;
+}
+
+/** File contents for a send: in memory (base64 JSON bodies) or staged on disk. */
+export type UploadSource = Buffer | StagedFile;
+
+export interface UploadSession {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  mimeType?: string;
+  partSize: number;
+  /** Number of parts the file is split into */
+  parts: number;
+  /** Part numbers received so far, ascending */
+  received: number[];
+  complete: boolean;
+  /** Unix seconds */
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  /** Where the file is being sent, once known */
+  dialogId?: string;
+  clientMsgId?: string;
+  /** `receiving`: bytes arriving from the client. `sending`: bytes uploaded to Telegram. */
+  phase: 'receiving' | 'sending';
+  loaded: number;
+  total: number;
+}
+
+interface SessionState {
+  session: UploadSession;
+  path: string;
+  received: Set<number>;
+  /** Parts being written, so a repeat of one waits for the first */
+  writing: Map<number, Promise<void>>;
+  expires: number;
+}
+
+export class UploadStore {
+  private sessions: Map<string, SessionState> = new Map();
+  private lastProgress: Map<string, number> = new Map();
+
+  constructor(
+    private readonly dir: string,
+    private readonly onProgress: (progress: UploadProgress) => void,
+  ) {
+    fs.mkdirSync(path.join(dir, OUTBOX_DIR), { recursive: true, mode: 0o700 });
+    // Nothing outside the outbox survives a restart: sessions were in memory
+    for (const entry of fs.readdirSync(dir)) {
+      if (entry !== OUTBOX_DIR) fs.rmSync(path.join(dir, entry), { recursive: true, force: true });
+    }
+  }
+
+  create(params: { fileName: string; size: number; mimeType?: string; partSize?: number }): UploadSession {
+    const { fileName, size, mimeType } = params;
+    if (!fileName) throw new Error('fileName required');
+    if (!Number.isInteger(size) || size <= 0) throw new Error('size must be a positive integer');
+    if (size > MAX_UPLOAD_BYTES) throw new Error(`File too large (max ${MAX_UPLOAD_BYTES} bytes)`);
+    const partSize = params.partSize ?? DEFAULT_PART_SIZE;
+    if (!Number.isInteger(partSize) || partSize < MIN_PART_SIZE || partSize > MAX_PART_SIZE) {
+      throw new Error(`partSize must be between ${MIN_PART_SIZE} and ${MAX_PART_SIZE} bytes`);
+    }
+
+    this.expire();
+    const uploadId = crypto.randomUUID();
+    const filePath = path.join(this.dir, uploadId);
+    fs.writeFileSync(filePath, '', { mode: 0o600 });
+    fs.truncateSync(filePath, size);
+    const now = Math.floor(Date.now() / 1000);
+    const session: UploadSession = {
+      uploadId, fileName, size, mimeType, partSize,
+      parts: Math.ceil(size / partSize), received: [], complete: false, createdAt: now, updatedAt: now,
+    };
+    this.sessions.set(uploadId, { session, path: filePath, received: new Set(), writing: new Map(), expires: Date.now() + UPLOAD_SESSION_TTL_MS });
+    return { ...session };
+  }
+
+  get(uploadId: string): UploadSession | null {
+    this.expire();
+    const state = this.sessions.get(uploadId);
+    return state ? { ...state.session } : null;
+  }
+
+  /**
+   * Write part `part` (0-based) from `body`. Every part but the last must be
+   * exactly `partSize` bytes.
+   */
+  async writePart(uploadId: string, part: number, body: Readable): Promise<UploadSession> {
+    const state = this.sessions.get(uploadId);
+    if (!state) throw new Error('Unknown upload');
+    const { session } = state;
+    if (!Number.isInteger(part) || part < 0 || part >= session.parts) {
+      throw new Error(`part must be between 0 and ${session.parts - 1}`);
+    }
+    const start = part * session.partSize;
+    const length = Math.min(session.partSize, session.size - start);
+
+    await state.writing.get(part)?.catch(() => {});
+    const write = this.writeRange(state.path, start, length, body, (bytes) => {
+      const loaded = Math.min(session.size, (state.received.size - (state.received.has(part) ? 1 : 0)) * session.partSize + bytes);
+      this.progress({ uploadId, phase: 'receiving', loaded, total: session.size });
+    });
+    state.writing.set(part, write);
+    try {
+      await write;
+    } finally {
+      if (state.writing.get(part) === write) state.writing.delete(part);
+    }
+
+    state.received.add(part);
+    state.expires = Date.now() + UPLOAD_SESSION_TTL_MS;
+    session.received = [...state.received].sort((a, b) => a - b);
+    session.complete = state.received.size === session.parts;
+    session.updatedAt = Math.floor(Date.now() / 1000);
+    if (session.complete) this.progress({ uploadId, phase: 'receiving', loaded: session.size, total: session.size }, true);
+    return { ...session };
+  }
+
+  /** Hand over a complete session's file. The session ends; the caller owns the file. */
+  take(uploadId: string): StagedFile {
+    const state = this.sessions.get(uploadId);
+    if (!state) throw new Error('Unknown upload');
+    if (!state.session.complete || state.writing.size > 0) throw new Error('Upload is not complete');
+    this.sessions.delete(uploadId);
+    const { fileName, size, mimeType } = state.session;
+    return { path: state.path, fileName, size, mimeType };
+  }
+
+  remove(uploadId: string): boolean {
+    const state = this.sessions.get(uploadId);
+    if (!state) return false;
+    this.sessions.delete(uploadId);
+    this.lastProgress.delete(uploadId);
+    fs.rmSync(state.path, { force: true });
+    return true;
+  }
+
+  /**
+   * Stream a file of unknown size (a multipart file field) to disk.
+   * `expectedSize` is only used for progress reports.
+   */
+  async receive(
+    body: Readable, meta: { fileName: string; mimeType?: string }, expectedSize = 0, tags: UploadTags = {},
+  ): Promise<StagedFile> {
+    const uploadId = crypto.randomUUID();
+    const filePath = path.join(this.dir, uploadId);
+    let size = 0;
+    const counter = async function* (this: UploadStore, source: Readable) {
+      for await (const chunk of source) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_UPLOAD_BYTES) throw new Error(`File too large (max ${MAX_UPLOAD_BYTES} bytes)`);
+        this.progress({ uploadId, ...tags, phase: 'receiving', loaded: size, total: Math.max(size, expectedSize) });
+        yield chunk as Buffer;
+      }
+    }.bind(this);
+    try {
+      await pipeline(body, counter, fs.createWriteStream(filePath, { mode: 0o600 }));
+    } catch (err) {
+      fs.rmSync(filePath, { force: true });
+      throw err;
+    }
+    this.progress({ uploadId, ...tags, phase: 'receiving', loaded: size, total: size }, true);
+    return { path: filePath, fileName: meta.fileName, size, mimeType: meta.mimeType };
+  }
+
+  /** Move a staged file where it survives restarts, for a send waiting in the outbox. */
+  keep(file: StagedFile): StagedFile {
+    const kept = path.join(this.dir, OUTBOX_DIR, path.basename(file.path));
+    fs.renameSync(file.path, kept);
+    return { ...file, path: kept };
+  }
+
+  /** A gramJS progress callback reporting the upload of `file` to Telegram. */
+  sendProgress(file: StagedFile, tags: UploadTags = {}): (fraction: number) => void {
+    const uploadId = path.basename(file.path);
+    return (fraction) =>
+      this.progress({ uploadId, ...tags, phase: 'sending', loaded: Math.round(fraction * file.size), total: file.size }, fraction >= 1);
+  }
+
+  /**
+   * Progress callback for an album: gramJS uploads its files one after
+   * another and restarts at 0 for each, so the fractions are summed up here.
+   */
+  albumProgress(sources: UploadSource[], tags: UploadTags = {}): (fraction: number) => void {
+    const sizes = sources.map((source) => (Buffer.isBuffer(source) ? source.length : source.size));
+    const total = sizes.reduce((sum, size) => sum + size, 0);
+    const staged = sources.find((source): source is StagedFile => !Buffer.isBuffer(source));
+    const uploadId = staged ? path.basename(staged.path) : crypto.randomUUID();
+    let index = -1;
+    let done = 0;
+    return (fraction) => {
+      if (fraction === 0 || index < 0) {
+        if (index >= 0) done += sizes[index];
+        index = Math.min(index + 1, sizes.length - 1);
+      }
+      const loaded = Math.min(total, done + Math.round(fraction * sizes[index]));
+      this.progress({ uploadId, ...tags, phase: 'sending', loaded, total }, index === sizes.length - 1 && fraction >= 1);
+    };
+  }
+
+  /** Delete a staged file once it's been sent or dropped. */
+  release(file: StagedFile | string): void {
+    fs.rmSync(typeof file === 'string' ? file : file.path, { force: true });
+  }
+
+  private async writeRange(filePath: string, start: number, length: number, body: Readable, onBytes: (bytes: number) => void): Promise<void> {
+    const handle = await fs.promises.open(filePath, 'r+');
+    try {
+      let written = 0;
+      for await (const chunk of body) {
+        const data = chunk as Buffer;
+        if (written + data.length > length) throw new Error(`Part is longer than ${length} bytes`);
+        await handle.write(data, 0, data.length, start + written);
+        written += data.length;
+        onBytes(written);
+      }
+      if (written !== length) throw new Error(`Part must be ${length} bytes, got ${written}`);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** Report progress, at most every PROGRESS_INTERVAL_MS per upload except for the `last` report of a phase. */
+  private progress(progress: UploadProgress, last = false): void {
+    const now = Date.now();
+    if (!last && now - (this.lastProgress.get(progress.uploadId) ?? 0) < PROGRESS_INTERVAL_MS) return;
+    if (last) this.lastProgress.delete(progress.uploadId);
+    else this.lastProgress.set(progress.uploadId, now);
+    this.onProgress(progress);
+  }
+
+  private expire(): void {
+    const now = Date.now();
+    for (const [uploadId, state] of this.sessions) {
+      if (state.expires <= now && state.writing.size === 0) this.remove(uploadId);
+    }
+  }
+}
@@ -0,0 +1,382 @@
+import * as crypto from 'crypto';
+import type { Cache as CacheType } from './cache';
+import type { SequencedEvent } from './telegram';
+import { loadConfig, saveConfig, WebhookConfig } from './config';
+import { getStorageKey, isSealedString, openString, sealString } from './encryption';
+import { EventFilter, FolderResolver } from './subscriptions';
+
+/**
+ * Outbound webhooks.
+ *
+ * Subscriptions live in config (`webhooks`), each tied to one account, and
+ * filter events the way an `/events` subscription does. Every matching event
+ * is stored as a delivery in the account's cache and POSTed, as the same JSON
+ * `/events` sends, signed with the webhook's secret. A delivery that doesn't
+ * get a 2xx is retried with exponential backoff, holding back the webhook's
+ * later deliveries so they arrive in order; after MAX_ATTEMPTS it is kept as
+ * dead until retried or removed.
+ */
+
+export interface WebhookSpec {
+  url: string;
+  /** Only these event types; transient ones (typing, progress, presence) are only sent when listed */
+  eventTypes?: string[];
+  dialogIds?: string[];
+  folderIds?: number[];
+}
+
+export interface Webhook extends WebhookSpec {
+  id: string;
+  createdAt: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'dead';
+
+export interface WebhookDelivery {
+  /** Also sent as `X-Oceangram-Delivery`, the same on every attempt */
+  id: string;
+  webhookId: string;
+  event: SequencedEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Unix seconds; pending deliveries only */
+  nextAttemptAt?: number;
+  /** Why the last attempt failed */
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const MAX_ATTEMPTS = 10;
+/** Seconds before the first retry, doubling with each failure up to MAX_RETRY_DELAY */
+const RETRY_DELAY = 10;
+const MAX_RETRY_DELAY = 3600;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DRAIN_BATCH = 50;
+const LIST_LIMIT = 200;
+
+/** A PATCH body: fields left out stay as they are, and `null` clears a filter. */
+export interface WebhookChanges {
+  url?: string;
+  eventTypes?: string[] | null;
+  dialogIds?: string[] | null;
+  folderIds?: number[] | null;
+  secret?: string;
+}
+
+/** Validate a new webhook from request input. The secret is optional; one is generated if left out. */
+export function parseWebhookSpec(input: object): WebhookSpec & { secret?: string } {
+  const changes = parseWebhookChanges(input);
+  if (changes.url === undefined) throw new Error('url is required');
+  const spec: WebhookSpec & { secret?: string } = { url: changes.url };
+  if (changes.eventTypes) spec.eventTypes = changes.eventTypes;
+  if (changes.dialogIds) spec.dialogIds = changes.dialogIds;
+  if (changes.folderIds) spec.folderIds = changes.folderIds;
+  if (changes.secret) spec.secret = changes.secret;
+  return spec;
+}
+
+/** Validate changes to a webhook from request input. */
+export function parseWebhookChanges(input: object): WebhookChanges {
+  const { url, eventTypes, dialogIds, folderIds, secret } = input as Record<string, unknown>;
+  const changes: WebhookChanges = {};
+  if (url !== undefined) {
+    let parsed: URL | null = null;
+    try { parsed = new URL(String(url)); } catch { /* checked below */ }
+    if (typeof url !== 'string' || !parsed || !['http:', 'https:'].includes(parsed.protocol)) {
+      throw new Error('url must be an http or https URL');
+    }
+    changes.url = url;
+  }
+  if (eventTypes !== undefined) {
+    if (eventTypes !== null && (!Array.isArray(eventTypes) || eventTypes.some((type) => typeof type !== 'string' || !type))) {
+      throw new Error('eventTypes must be an array of event types');
+    }
+    changes.eventTypes = eventTypes && [...new Set(eventTypes as string[])];
+  }
+  if (dialogIds !== undefined) {
+    if (dialogIds !== null && (!Array.isArray(dialogIds) || dialogIds.some((id) => (typeof id !== 'string' && typeof id !== 'number') || id === ''))) {
+      throw new Error('dialogIds must be an array of dialog ids');
+    }
+    changes.dialogIds = dialogIds && [...new Set((dialogIds as unknown[]).map(String))];
+  }
+  if (folderIds !== undefined) {
+    if (folderIds !== null && (!Array.isArray(folderIds) || folderIds.some((id) => !Number.isInteger(id)))) {
+      throw new Error('folderIds must be an array of folder ids');
+    }
+    changes.folderIds = folderIds && [...new Set(folderIds as number[])];
+  }
+  if (secret !== undefined) {
+    if (typeof secret !== 'string' || secret.length < 16) throw new Error('secret must be at least 16 characters');
+    changes.secret = secret;
+  }
+  return changes;
+}
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Oceangram-Signature: sha256=<hex>` */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function toWebhook(id: string, stored: WebhookConfig): Webhook {
+  const { account: _account, secret: _secret, ...webhook } = stored;
+  return { id, ...webhook };
+}
+
+function openSecret(secret: string): string {
+  return isSealedString(secret) ? openString(secret) : secret;
+}
+
+interface ActiveWebhook {
+  webhook: Webhook;
+  secret: string;
+  filter: EventFilter;
+}
+
+/** One account's webhooks: matches its events to them and delivers from the cache's queue. */
+export class WebhookDispatcher {
+  private active = new Map<string, ActiveWebhook>();
+  private draining: Promise<void> | null = null;
+  private drainAgain = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+
+  constructor(
+    private accountId: string,
+    private cache: CacheType,
+    private resolveFolder: FolderResolver,
+  ) {
+    this.reload().catch((e) => console.error('[webhooks] load error:', e));
+  }
+
+  list(): Webhook[] {
+    return Object.entries(loadConfig().webhooks || {})
+      .filter(([, stored]) => stored.account === this.accountId)
+      .map(([id, stored]) => toWebhook(id, stored));
+  }
+
+  get(id: string): Webhook | null {
+    const stored = loadConfig().webhooks?.[id];
+    return stored && stored.account === this.accountId ? toWebhook(id, stored) : null;
+  }
+
+  /** Add a webhook. The secret is generated unless given, and only returned here. */
+  async create(spec: WebhookSpec & { secret?: string }): Promise<Webhook & { secret: string }> {
+    const { secret = crypto.randomBytes(32).toString('base64url'), ...fields } = spec;
+    const id = crypto.randomUUID();
+    const stored: WebhookConfig = {
+      account: this.accountId,
+      ...fields,
+      secret: getStorageKey() ? sealString(secret) : secret,
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+    const config = loadConfig();
+    config.webhooks = { ...config.webhooks, [id]: stored };
+    saveConfig(config);
+    await this.reload();
+    return { ...toWebhook(id, stored), secret };
+  }
+
+  /** Change a webhook's URL, filters or secret. */
+  async update(id: string, changes: WebhookChanges): Promise<Webhook | null> {
+    const config = loadConfig();
+    const existing = config.webhooks?.[id];
+    if (!existing || existing.account !== this.accountId) return null;
+    const { secret, ...fields } = changes;
+    const stored = { ...existing, ...fields } as WebhookConfig & WebhookChanges;
+    for (const key of ['eventTypes', 'dialogIds', 'folderIds'] as const) {
+      if (stored[key] === null) delete stored[key];
+    }
+    if (secret) stored.secret = getStorageKey() ? sealString(secret) : secret;
+    config.webhooks = { ...config.webhooks, [id]: stored };
+    saveConfig(config);
+    await this.reload();
+    return toWebhook(id, stored);
+  }
+
+  /** Remove a webhook and drop its queued and dead deliveries. */
+  async remove(id: string): Promise<boolean> {
+    const config = loadConfig();
+    if (config.webhooks?.[id]?.account !== this.accountId) return false;
+    delete config.webhooks[id];
+    saveConfig(config);
+    this.cache.deleteWebhookDeliveries(id);
+    await this.reload();
+    return true;
+  }
+
+  /**
+   * Re-read the account's webhooks and resolve their folders. Runs again on
+   * connect: a folder that can't be looked up while offline matches nothing
+   * until then, and a dispatcher stopped by logout starts again.
+   */
+  async reload(): Promise<void> {
+    this.stopped = false;
+    const active = new Map<string, ActiveWebhook>();
+    for (const [id, stored] of Object.entries(loadConfig().webhooks || {})) {
+      if (stored.account !== this.accountId) continue;
+      const webhook = toWebhook(id, stored);
+      const filter = new EventFilter();
+      const { eventTypes, dialogIds, folderIds } = webhook;
+      try {
+        await filter.update({ eventTypes, dialogIds, folderIds }, this.resolveFolder);
+      } catch {
+        await filter.update({ eventTypes, dialogIds: folderIds ? dialogIds ?? [] : dialogIds }, this.resolveFolder);
+      }
+      active.set(id, { webhook, secret: openSecret(stored.secret), filter });
+    }
+    this.active = active;
+    this.drain();
+  }
+
+  /** Queue `event` for every webhook it matches. */
+  handle(event: SequencedEvent): void {
+    if (this.stopped) return;
+    let queued = false;
+    for (const { webhook, filter } of this.active.values()) {
+      // Events without a seq aren't logged (typing, presence, progress); only sent when asked for by type
+      if (event.seq === undefined && !webhook.eventTypes?.includes(event.type)) continue;
+      if (!filter.matches(event)) continue;
+      const now = Math.floor(Date.now() / 1000);
+      try {
+        this.cache.insertWebhookDelivery({
+          id: crypto.randomUUID(), webhookId: webhook.id, event, status: 'pending', attempts: 0, nextAttemptAt: now, createdAt: now, updatedAt: now,
+        });
+        queued = true;
+      } catch (e) { console.error('[webhooks] queue error:', e); }
+    }
+    if (queued) this.drain();
+  }
+
+  /** Queue `event` for one webhook whatever its filters, as rules do. False if there is no such webhook. */
+  send(webhookId: string, event: SequencedEvent): boolean {
+    if (this.stopped || !this.active.has(webhookId)) return false;
+    const now = Math.floor(Date.now() / 1000);
+    this.cache.insertWebhookDelivery({
+      id: crypto.randomUUID(), webhookId, event, status: 'pending', attempts: 0, nextAttemptAt: now, createdAt: now, updatedAt: now,
+    });
+    this.drain();
+    return true;
+  }
+
+  deliveries(filter: { webhookId?: string; status?: WebhookDeliveryStatus }): WebhookDelivery[] {
+    return this.cache.getWebhookDeliveries(filter, LIST_LIMIT);
+  }
+
+  /** Queue a dead delivery again, with a fresh set of attempts. */
+  retry(deliveryId: string): WebhookDelivery | null {
+    const delivery = this.cache.getWebhookDelivery(deliveryId);
+    if (!delivery) return null;
+    const now = Math.floor(Date.now() / 1000);
+    const queued: WebhookDelivery = { ...delivery, status: 'pending', attempts: 0, error: undefined, nextAttemptAt: now, updatedAt: now };
+    this.cache.updateWebhookDelivery(queued);
+    this.drain();
+    return queued;
+  }
+
+  removeDelivery(deliveryId: string): boolean {
+    if (!this.cache.getWebhookDelivery(deliveryId)) return false;
+    this.cache.deleteWebhookDelivery(deliveryId);
+    return true;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Send what is due. A call during a pass makes it run once more. */
+  private drain(): void {
+    if (this.stopped) return;
+    if (this.draining) {
+      this.drainAgain = true;
+      return;
+    }
+    this.draining = (async () => {
+      do {
+        this.drainAgain = false;
+        await this.deliverDue();
+      } while (this.drainAgain);
+    })()
+      .catch((e) => console.error('[webhooks] delivery error:', e))
+      .finally(() => {
+        this.draining = null;
+        this.scheduleNext();
+      });
+  }
+
+  private async deliverDue(): Promise<void> {
+    let due = this.cache.getDueWebhookDeliveries(Math.floor(Date.now() / 1000), DRAIN_BATCH);
+    while (due.length && !this.stopped) {
+      // Webhooks are sent to side by side; each one's deliveries in order
+      const byWebhook = new Map<string, WebhookDelivery[]>();
+      for (const delivery of due) byWebhook.set(delivery.webhookId, [...byWebhook.get(delivery.webhookId) ?? [], delivery]);
+      await Promise.all([...byWebhook.values()].map(async (deliveries) => {
+        for (const delivery of deliveries) {
+          if (!await this.attempt(delivery)) break;
+        }
+      }));
+      due = this.cache.getDueWebhookDeliveries(Math.floor(Date.now() / 1000), DRAIN_BATCH);
+    }
+  }
+
+  /** POST one delivery. False when it failed, holding back the rest of its webhook's queue. */
+  private async attempt(delivery: WebhookDelivery): Promise<boolean> {
+    const active = this.active.get(delivery.webhookId);
+    if (!active) {
+      // Removed from config by hand
+      this.cache.deleteWebhookDelivery(delivery.id);
+      return true;
+    }
+    try {
+      await this.post(active, delivery);
+      this.cache.deleteWebhookDelivery(delivery.id);
+      return true;
+    } catch (err: unknown) {
+      const error = (err as Error).message;
+      const now = Math.floor(Date.now() / 1000);
+      const attempts = delivery.attempts + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`[webhooks] ${delivery.id} to ${active.webhook.url} failed ${attempts} times, giving up:`, error);
+        this.cache.updateWebhookDelivery({ ...delivery, status: 'dead', attempts, error, nextAttemptAt: undefined, updatedAt: now });
+        return false;
+      }
+      const nextAttemptAt = now + Math.min(RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+      this.cache.updateWebhookDelivery({ ...delivery, attempts, error, nextAttemptAt, updatedAt: now });
+      this.cache.postponeWebhookDeliveries(delivery.webhookId, nextAttemptAt);
+      return false;
+    }
+  }
+
+  private async post({ webhook, secret }: ActiveWebhook, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const res = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'oceangram-daemon',
+        'X-Oceangram-Event': delivery.event.type,
+        'X-Oceangram-Delivery': delivery.id,
+        'X-Oceangram-Timestamp': String(timestamp),
+        'X-Oceangram-Signature': `sha256=${signWebhookBody(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await res.arrayBuffer().catch(() => undefined);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  }
+
+  private scheduleNext(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.stopped) return;
+    const next = this.cache.getNextWebhookAttempt();
+    if (next === null) return;
+    const delay = Math.max(0, next * 1000 - Date.now());
+    this.timer = setTimeout(() => { this.timer = null; this.drain(); }, delay);
+    this.timer.unref();
+  }
+}
@@ -28,6 +28,13 @@ function formatFileSize(bytes) {
   return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
 }
 
+function formatDuration(seconds) {
+  if (seconds < 60) return seconds + ' s';
+  if (seconds < 3600) return Math.round(seconds / 60) + ' min';
+  if (seconds < 86400) return Math.round(seconds / 3600) + ' h';
+  return Math.round(seconds / 86400) + ' d';
+}
+
 function getFileIcon(name, mime) {
   var ext = (name || '').split('.').pop().toLowerCase();
   if (mime === 'application/pdf' || ext === 'pdf') return '📄';
@@ -133,6 +140,9 @@ function applyEntities(text, entities, msg) {
         break;
       }
       case 'strikethrough': replacement = '<del>' + slice + '</del>'; break;
+      case 'underline': replacement = '<u>' + slice + '</u>'; break;
+      case 'spoiler': replacement = '<span class="spoiler" onclick="this.classList.toggle(&quot;revealed&quot;)">' + slice + '</span>'; break;
+      case 'blockquote': replacement = '<blockquote class="msg-blockquote">' + slice + '</blockquote>'; break;
       case 'text_link': var safeUrl = (e.url || '').match(/^https?:\\/\\//) ? e.url : '#'; replacement = '<a href="' + esc(safeUrl || '#') + '">' + slice + '</a>'; break;
       case 'url': replacement = '<a href="' + slice + '">' + slice + '</a>'; break;
       default: replacement = slice;
@@ -142,6 +152,167 @@ function applyEntities(text, entities, msg) {
   return escaped.join('');
 }
 
+// Service messages (joins, pins, title changes) — one line of text per action type
+function describeAction(m) {
+  var a = m.action || {};
+  var who = m.isOutgoing ? 'You' : (m.senderName || 'Someone');
+  var count = a.userIds ? a.userIds.length : 0;
+  switch (a.type) {
+    case 'chatCreate': return who + ' created the group' + (a.title ? ' “' + a.title + '”' : '');
+    case 'channelCreate': return 'Channel created' + (a.title ? ': ' + a.title : '');
+    case 'chatAddUser': return count === 1 && a.userIds[0] === m.senderId ? who + ' joined the group' : who + ' added ' + count + (count === 1 ? ' member' : ' members');
+    case 'chatDeleteUser': return a.userIds && a.userIds[0] === m.senderId ? who + ' left the group' : who + ' removed a member';
+    case 'chatJoinedByLink': return who + ' joined via invite link';
+    case 'chatJoinedByRequest': return who + ' was accepted into the group';
+    case 'chatEditTitle': return who + ' changed the name to “' + (a.title || '') + '”';
+    case 'chatEditPhoto': return who + ' changed the group photo';
+    case 'chatDeletePhoto': return who + ' removed the group photo';
+    case 'pinMessage': return who + ' pinned a message';
+    case 'topicCreate': return who + ' created the topic “' + (a.title || '') + '”';
+    case 'topicEdit': return a.title ? who + ' renamed the topic to “' + a.title + '”' : who + ' edited the topic';
+    case 'chatMigrateTo': return 'Group upgraded to a supergroup';
+    case 'channelMigrateFrom': return 'Upgraded from the group' + (a.title ? ' “' + a.title + '”' : '');
+    case 'historyClear': return 'History cleared';
+    case 'screenshotTaken': return who + ' took a screenshot';
+    case 'contactSignUp': return who + ' joined Telegram';
+    case 'phoneCall': return (m.isOutgoing ? 'Outgoing' : 'Incoming') + ' call' + (a.duration ? ' (' + formatDuration(a.duration) + ')' : '');
+    case 'groupCall': return a.duration ? 'Voice chat ended (' + formatDuration(a.duration) + ')' : who + ' started a voice chat';
+    case 'inviteToGroupCall': return who + ' invited ' + count + (count === 1 ? ' member' : ' members') + ' to the voice chat';
+    case 'setMessagesTTL': return a.period ? who + ' set messages to auto-delete after ' + formatDuration(a.period) : who + ' disabled auto-delete';
+    case 'customAction': return a.text || '';
+    default: return 'Service message';
+  }
+}
+
+function renderPoll(p, isOutgoing) {
+  var total = p.totalVoters || 0;
+  var voted = p.answers.some(function(a) { return a.chosen; });
+  // Like Telegram, results show once you have voted or the poll is closed
+  var showResults = voted || p.closed;
+  var votable = !voted && !p.closed;
+  var html = '<div class="msg-poll' + (votable ? ' votable' : '') + '" data-multiple="' + (p.multipleChoice ? '1' : '0') + '">';
+  html += '<div class="poll-question">📊 ' + esc(p.question) + '</div>';
+  html += '<div class="poll-kind">' + (p.closed ? 'Final results' : p.quiz ? 'Quiz' : 'Poll') + (p.publicVoters ? '' : ' · anonymous') + (p.multipleChoice ? ' · multiple answers' : '') + '</div>';
+  for (var i = 0; i < p.answers.length; i++) {
+    var ans = p.answers[i];
+    var pct = showResults && total && ans.voters !== undefined ? Math.round(ans.voters * 100 / total) : null;
+    html += '<div class="poll-answer' + (ans.chosen ? ' chosen' : '') + (ans.correct ? ' correct' : '') + '" data-option="' + esc(ans.option) + '"' +
+      (votable ? ' onclick="pollAnswerClick(this)"' : '') + '>' +
+      (pct !== null ? '<div class="poll-bar" style="width:' + pct + '%"></div><span class="poll-pct">' + pct + '%</span>' : '') +
+      '<span class="poll-text">' + esc(ans.text) + '</span></div>';
+  }
+  if (voted && p.quiz && p.solution) html += '<div class="poll-solution">💡 ' + esc(p.solution) + '</div>';
+  html += '<div class="poll-footer"><span class="poll-total">' + total + (total === 1 ? ' vote' : ' votes') + '</span>';
+  if (votable && p.multipleChoice) html += '<button class="poll-action poll-vote-btn" onclick="pollSubmit(this)" disabled>Vote</button>';
+  if (voted && !p.closed && !p.quiz) html += '<button class="poll-action" onclick="pollAction(this, &quot;pollRetract&quot;)">Retract vote</button>';
+  if (isOutgoing && !p.closed) html += '<button class="poll-action" onclick="pollAction(this, &quot;pollClose&quot;)">Stop poll</button>';
+  return html + '</div></div>';
+}
+
+function pollMessageId(el) {
+  var msgEl = el.closest('.msg[data-msg-id]');
+  return msgEl ? parseInt(msgEl.dataset.msgId, 10) : 0;
+}
+
+function pollAnswerClick(el) {
+  var pollEl = el.closest('.msg-poll');
+  if (pollEl.classList.contains('pending')) return;
+  if (pollEl.dataset.multiple === '1') {
+    el.classList.toggle('selected');
+    pollEl.querySelector('.poll-vote-btn').disabled = !pollEl.querySelector('.poll-answer.selected');
+    return;
+  }
+  pollEl.classList.add('pending');
+  vscode.postMessage({ type: 'pollVote', messageId: pollMessageId(el), options: [el.dataset.option] });
+}
+
+function pollSubmit(btn) {
+  var pollEl = btn.closest('.msg-poll');
+  var options = Array.prototype.map.call(pollEl.querySelectorAll('.poll-answer.selected'), function(a) { return a.dataset.option; });
+  if (!options.length) return;
+  pollEl.classList.add('pending');
+  vscode.postMessage({ type: 'pollVote', messageId: pollMessageId(btn), options: options });
+}
+
+function pollAction(btn, type) {
+  btn.closest('.msg-poll').classList.add('pending');
+  vscode.postMessage({ type: type, messageId: pollMessageId(btn) });
+}
+
+function renderGeo(g) {
+  var url = 'https://www.openstreetmap.org/?mlat=' + g.lat + '&mlon=' + g.long + '#map=16/' + g.lat + '/' + g.long;
+  var label = g.title ? esc(g.title) : (g.livePeriod ? 'Live location' : 'Location');
+  return '<a class="msg-geo" href="' + esc(url) + '">📍 <span class="geo-title">' + label + '</span>' +
+    (g.address ? '<span class="geo-address">' + esc(g.address) + '</span>' : '') +
+    '<span class="geo-coords">' + g.lat.toFixed(5) + ', ' + g.long.toFixed(5) + '</span></a>';
+}
+
+function renderContact(c) {
+  var name = [c.firstName, c.lastName].filter(Boolean).join(' ') || c.phoneNumber;
+  return '<div class="msg-contact">👤 <span class="contact-name">' + esc(name) + '</span>' +
+    '<span class="contact-phone">' + esc(c.phoneNumber) + '</span></div>';
+}
+
+// Bot keyboards are shown under the message; buttons are display-only apart from links
+// Buttons the chat tab can act on; the rest are shown but do nothing
+var KB_ACTIONS = { callback: true, game: true, text: true, copy: true };
+
+function renderReplyMarkup(rm) {
+  if (!rm || !rm.rows || !rm.rows.length) return '';
+  var html = '<div class="msg-keyboard' + (rm.type === 'keyboard' ? ' reply-keyboard' : '') + '">';
+  for (var r = 0; r < rm.rows.length; r++) {
+    html += '<div class="kb-row">';
+    for (var b = 0; b < rm.rows[r].length; b++) {
+      var btn = rm.rows[r][b];
+      if (btn.url && /^https?:/.test(btn.url)) {
+        html += '<a class="kb-btn" href="' + esc(btn.url) + '" title="' + esc(btn.url) + '">' + esc(btn.text) + ' ↗</a>';
+      } else if (KB_ACTIONS[btn.type]) {
+        html += '<button class="kb-btn" data-type="' + esc(btn.type) + '" data-data="' + esc(btn.data || '') + '" data-copy="' + esc(btn.copyText || '') + '"' +
+          ' onclick="kbPress(this)">' + esc(btn.text) + '</button>';
+      } else {
+        html += '<span class="kb-btn inert" title="Not supported here">' + esc(btn.text) + '</span>';
+      }
+    }
+    html += '</div>';
+  }
+  return html + '</div>';
+}
+
+function kbPress(el) {
+  var type = el.dataset.type;
+  if (type === 'text') {
+    msgInput.value = el.textContent;
+    doSend();
+  } else if (type === 'copy') {
+    navigator.clipboard.writeText(el.dataset.copy || '').then(function() { showToast('Copied'); });
+  } else {
+    if (el.classList.contains('pending')) return;
+    el.classList.add('pending');
+    var msgEl = el.closest('.msg[data-msg-id]');
+    vscode.postMessage({
+      type: 'botCallback',
+      messageId: msgEl ? parseInt(msgEl.dataset.msgId, 10) : 0,
+      data: el.dataset.data,
+      game: type === 'game',
+    });
+  }
+}
+
+var toastTimer = null;
+function showToast(text) {
+  var toast = document.getElementById('chatToast');
+  if (!toast) {
+    toast = document.createElement('div');
+    toast.id = 'chatToast';
+    toast.className = 'chat-toast';
+    document.body.appendChild(toast);
+  }
+  toast.textContent = text;
+  toast.classList.add('visible');
+  clearTimeout(toastTimer);
+  toastTimer = setTimeout(function() { toast.classList.remove('visible'); }, 3000);
+}
+
 function isEmojiOnly(text) {
   if (!text) return false;
   const stripped = text.replace(/[\\s]/g, '');
@@ -362,7 +533,11 @@ function renderMessages(msgs) {
 
   // Group consecutive messages from same sender
   const groups = [];
-  for (const m of msgs) {
+  for (const m of collapseAlbums(msgs)) {
+    if (m.action) {
+      groups.push({ key: '__service__' + m.id, isService: true, msgs: [m] });
+      continue;
+    }
     const key = (m.isOutgoing ? '__out__' : (m.senderName || ''));
     const last = groups[groups.length - 1];
     if (last && last.key === key && m.timestamp - last.msgs[last.msgs.length - 1].timestamp < 300) {
@@ -383,6 +558,11 @@ function renderMessages(msgs) {
       lastDateStr = dateStr;
     }
 
+    if (g.isService) {
+      html += '<div class="service-message" data-msg-id="' + g.msgs[0].id + '"><span>' + esc(describeAction(g.msgs[0])) + '</span></div>';
+      continue;
+    }
+
     const dir = g.isOutgoing ? 'outgoing' : 'incoming';
     html += '<div class="msg-group ' + dir + '">';
     if (!g.isOutgoing) {
@@ -430,21 +610,12 @@ function renderMessages(msgs) {
       }
 
       // Media
-      if (m.mediaType === 'photo' && m.mediaUrl) {
+      if (m.album) {
+        bubbleInner += renderAlbum(m.album);
+      } else if (m.mediaType === 'photo' && m.mediaUrl) {
         bubbleInner += '<img class="msg-photo" src="' + esc(m.mediaUrl) + '" onclick="showLightbox(this.src)" />';
       } else if (m.mediaType === 'file') {
-        var fName = m.fileName || 'File';
-        var fSize = m.fileSize ? formatFileSize(m.fileSize) : '';
-        var fMime = m.fileMimeType || '';
-        var fIcon = getFileIcon(fName, fMime);
-        var fIconClass = getFileIconClass(fName, fMime);
-        bubbleInner += '<div class="msg-file" onclick="downloadFile(' + m.id + ')" data-msg-file-id="' + m.id + '">' +
-          '<div class="msg-file-icon ' + fIconClass + '">' + fIcon + '</div>' +
-          '<div class="msg-file-info">' +
-            '<div class="msg-file-name">' + esc(fName) + '</div>' +
-            '<div class="msg-file-meta">' + esc(fSize) + (fSize && fMime ? ' · ' : '') + esc(fMime.split('/').pop() || '') + '</div>' +
-            '<div class="msg-file-progress" id="file-progress-' + m.id + '"><div class="msg-file-progress-bar"></div></div>' +
-          '</div></div>';
+        bubbleInner += renderFileAttachment(m);
       } else if (m.mediaType === 'voice') {
         var voiceDur = m.duration || 0;
         var voiceDurStr = Math.floor(voiceDur / 60) + ':' + ('0' + (voiceDur % 60)).slice(-2);
@@ -511,10 +682,16 @@ function renderMessages(msgs) {
         } else {
           bubbleInner += '<div class="msg-gif-placeholder">🎞️ GIF</div>';
         }
+      } else if (m.mediaType === 'poll' && m.poll) {
+        bubbleInner += renderPoll(m.poll, g.isOutgoing);
+      } else if (m.mediaType === 'geo' && m.geo) {
+        bubbleInner += renderGeo(m.geo);
+      } else if (m.mediaType === 'contact' && m.contact) {
+        bubbleInner += renderContact(m.contact);
       }
 
-      // Text
-      if (m.text) {
+      // Text (a poll's text is its question, already shown above)
+      if (m.text && !m.poll) {
         bubbleInner += textContent;
       }
 
@@ -526,12 +703,16 @@ function renderMessages(msgs) {
       if (m.linkPreview) {
         bubbleInner += '<div class="link-preview">';
         if (m.linkPreview.imageUrl) bubbleInner += '<img class="lp-image" src="' + esc(m.linkPreview.imageUrl) + '" />';
+        if (m.linkPreview.siteName) bubbleInner += '<div class="lp-site">' + esc(m.linkPreview.siteName) + '</div>';
         if (m.linkPreview.title) bubbleInner += '<div class="lp-title">' + esc(m.linkPreview.title) + '</div>';
         if (m.linkPreview.description) bubbleInner += '<div class="lp-desc">' + esc(m.linkPreview.description) + '</div>';
         bubbleInner += '<div class="lp-url">' + esc(m.linkPreview.url) + '</div>';
         bubbleInner += '</div>';
       }
 
+      // Bot buttons
+      bubbleInner += renderReplyMarkup(m.replyMarkup);
+
       // Reactions
       var reactionsHtml = '';
       if (m.reactions && m.reactions.length) {
@@ -550,6 +731,7 @@ function renderMessages(msgs) {
       var optClass = '';
       var retryHtml = '';
       if (m._optimistic === 'sending') optClass = ' optimistic-sending';
+      else if (m._optimistic === 'queued') optClass = ' optimistic-queued';
       else if (m._optimistic === 'failed') {
         optClass = ' optimistic-failed';
         retryHtml = '<span class="msg-retry" onclick="retryMessage(' + m.id + ')">⚠️ Failed — tap to retry</span>';
@@ -731,6 +913,17 @@ editBarClose.addEventListener('click', clearEdit);
 
 let optimisticIdCounter = 0;
 const pendingOptimistic = new Map(); // tempId -> { text, timestamp }
+const clientMsgIdPrefix = 'c' + Date.now().toString(36) + '-';
+
+// Same rule as src/echoSuppression.ts: clientMsgId when both carry one, else text within 30s
+function isOptimisticEcho(opt, real) {
+  if (opt.clientMsgId && real.clientMsgId) return opt.clientMsgId === real.clientMsgId;
+  return opt.text === real.text && Math.abs(real.timestamp - opt.timestamp) < 30;
+}
+
+function findByClientMsgId(clientMsgId) {
+  return allMessages.findIndex(function(m) { return m._optimistic && m.clientMsgId === clientMsgId; });
+}
 
 function doSend() {
   const text = msgInput.value.trim();
@@ -763,6 +956,7 @@ function doSend() {
     isOutgoing: true,
     timestamp: now,
     senderName: '',
+    clientMsgId: clientMsgIdPrefix + (-tempId), // lets the daemon queue it offline and us match the echo
     _optimistic: 'sending'
   };
   if (replyToId) optimisticMsg.replyToId = replyToId;
@@ -774,7 +968,7 @@ function doSend() {
   if (atBottom) messagesList.scrollTop = messagesList.scrollHeight;
 
   // Send in background
-  var payload = { type: 'sendMessage', text: text, tempId: tempId };
+  var payload = { type: 'sendMessage', text: text, tempId: tempId, clientMsgId: optimisticMsg.clientMsgId };
   if (replyToId) payload.replyToId = replyToId;
   vscode.postMessage(payload);
   clearReply();
@@ -1297,7 +1491,7 @@ window.addEventListener('message', (event) => {
         var opt = optimisticList[oi];
         var matchIdx = -1;
         for (var ni = 0; ni < newMsgs.length; ni++) {
-          if (newMsgs[ni].isOutgoing && newMsgs[ni].text === opt.text && Math.abs(newMsgs[ni].timestamp - opt.timestamp) < 30) {
+          if (newMsgs[ni].isOutgoing && isOptimisticEcho(opt, newMsgs[ni])) {
             matchIdx = ni;
             break;
           }
@@ -1341,7 +1535,7 @@ window.addEventListener('message', (event) => {
         if (msg.message.isOutgoing) {
           for (var ei = allMessages.length - 1; ei >= 0; ei--) {
             var om = allMessages[ei];
-            if (om._optimistic && om.text === msg.message.text && Math.abs(msg.message.timestamp - om.timestamp) < 30) {
+            if (om._optimistic && isOptimisticEcho(om, msg.message)) {
               echoIdx = ei;
               pendingOptimistic.delete(om.id);
               break;
@@ -1486,9 +1680,10 @@ window.addEventListener('message', (event) => {
       }
       break;
     case 'sendSuccess':
-      // Remove optimistic flag — real message will arrive via newMessage event
+      // Remove optimistic flag — real message will arrive via newMessage event.
+      // A send the daemon queued offline stays marked until outboxSent.
       var sIdx = allMessages.findIndex(function(m) { return m.id === msg.tempId; });
-      if (sIdx !== -1) {
+      if (sIdx !== -1 && allMessages[sIdx]._optimistic === 'sending') {
         allMessages[sIdx]._optimistic = null;
         renderMessages(allMessages);
       }
@@ -1501,6 +1696,51 @@ window.addEventListener('message', (event) => {
       }
       pendingOptimistic.delete(msg.tempId);
       break;
+    case 'outboxQueued':
+      var qIdx = findByClientMsgId(msg.clientMsgId);
+      if (qIdx !== -1) {
+        allMessages[qIdx]._optimistic = 'queued';
+        renderMessages(allMessages);
+      }
+      break;
+    case 'outboxSent':
+      var oIdx = findByClientMsgId(msg.clientMsgId);
+      if (oIdx !== -1) {
+        pendingOptimistic.delete(allMessages[oIdx].id);
+        if (allMessages.some(function(m) { return m.id === msg.message.id; })) {
+          allMessages.splice(oIdx, 1); // newMessage got here first
+        } else {
+          allMessages[oIdx] = msg.message;
+        }
+        renderMessages(allMessages);
+      }
+      break;
+    case 'outboxFailed':
+      var ofIdx = findByClientMsgId(msg.clientMsgId);
+      if (ofIdx !== -1) {
+        allMessages[ofIdx]._optimistic = 'failed';
+        pendingOptimistic.delete(allMessages[ofIdx].id);
+        renderMessages(allMessages);
+      }
+      break;
+    case 'pollUpdate':
+      if (msg.messageId && msg.poll) {
+        var pIdx = allMessages.findIndex(function(m) { return m.id === msg.messageId; });
+        if (pIdx !== -1) allMessages[pIdx].poll = msg.poll;
+        var pollMsgEl = messagesList.querySelector('.msg[data-msg-id="' + msg.messageId + '"]');
+        var pollEl = pollMsgEl && pollMsgEl.querySelector('.msg-poll');
+        if (pollEl) pollEl.outerHTML = renderPoll(msg.poll, pollMsgEl.dataset.outgoing === '1');
+      }
+      break;
+    case 'pollFailed':
+      var failedPollMsg = messagesList.querySelector('.msg[data-msg-id="' + msg.messageId + '"] .msg-poll');
+      if (failedPollMsg) failedPollMsg.classList.remove('pending');
+      console.warn('Poll action failed for message ' + msg.messageId + ': ' + msg.error);
+      break;
+    case 'botCallbackAnswer':
+      messagesList.querySelectorAll('.msg[data-msg-id="' + msg.messageId + '"] .kb-btn.pending').forEach(function(b) { b.classList.remove('pending'); });
+      if (msg.message) showToast(msg.message);
+      break;
     case 'editFailed':
       // Edit failed — the real-time event will eventually correct, but show error
       console.warn('Edit failed for message ' + msg.messageId + ': ' + msg.error);
@@ -1526,7 +1766,7 @@ window.addEventListener('message', (event) => {
       if (vidContainer) {
         var vidLoader = vidContainer.querySelector('.msg-video-loading');
         if (vidLoader) vidLoader.remove();
-        if (msg.error || !msg.dataUrl) {
+        if (msg.error || !msg.url) {
           // Show error, restore play button
           var vidPlayBtn = vidContainer.querySelector('.msg-video-play');
           if (vidPlayBtn) vidPlayBtn.style.display = '';
@@ -1538,7 +1778,7 @@ window.addEventListener('message', (event) => {
           var vidMeta = vidContainer.querySelector('.msg-video-meta');
           if (vidMeta) vidMeta.remove();
           var video = document.createElement('video');
-          video.src = msg.dataUrl;
+          video.src = msg.url;
           video.controls = true;
           video.autoplay = true;
           video.style.width = '100%';
@@ -1577,17 +1817,18 @@ window.addEventListener('message', (event) => {
       break;
     }
     case 'fileSendSuccess':
-      // File upload completed successfully
+      removeUploadProgress(msg.tempId);
       break;
     case 'fileSendFailed':
       // File upload failed — show error
+      removeUploadProgress(msg.tempId);
       console.error('File send failed:', msg.error);
       errorBox.textContent = 'File send failed: ' + (msg.error || 'Unknown error');
       errorBox.style.display = 'block';
       setTimeout(function() { errorBox.style.display = 'none'; }, 10000);
       break;
     case 'uploadProgress':
-      // Upload progress indicator (future enhancement)
+      updateUploadProgress(msg.tempId, msg.fileName, msg.progress);
       break;
     case 'agentInfo':
       updateAgentBanner(msg.info);
@@ -2271,6 +2512,67 @@ function playVideo(container) {
   window._videoPending[msgId] = container;
 }
 
+// Album members arrive as separate messages sharing a groupedId. Fold each
+// run of them into its first message, with the members in m.album; the
+// caption and reactions come from whichever member has them.
+function collapseAlbums(msgs) {
+  var out = [];
+  for (var i = 0; i < msgs.length; i++) {
+    var m = msgs[i];
+    var prev = out[out.length - 1];
+    if (m.groupedId && prev && prev.groupedId === m.groupedId) {
+      if (!prev.album) {
+        prev = Object.assign({}, prev, { album: [prev] });
+        out[out.length - 1] = prev;
+      }
+      prev.album.push(m);
+      if (!prev.text && m.text) { prev.text = m.text; prev.entities = m.entities; }
+      if ((!prev.reactions || !prev.reactions.length) && m.reactions) prev.reactions = m.reactions;
+      if (m.isEdited) prev.isEdited = true;
+      prev.timestamp = m.timestamp;
+      continue;
+    }
+    out.push(m);
+  }
+  return out;
+}
+
+function renderFileAttachment(m) {
+  var fName = m.fileName || 'File';
+  var fSize = m.fileSize ? formatFileSize(m.fileSize) : '';
+  var fMime = m.fileMimeType || '';
+  var fIcon = getFileIcon(fName, fMime);
+  var fIconClass = getFileIconClass(fName, fMime);
+  return '<div class="msg-file" onclick="downloadFile(' + m.id + ')" data-msg-file-id="' + m.id + '">' +
+    '<div class="msg-file-icon ' + fIconClass + '">' + fIcon + '</div>' +
+    '<div class="msg-file-info">' +
+      '<div class="msg-file-name">' + esc(fName) + '</div>' +
+      '<div class="msg-file-meta">' + esc(fSize) + (fSize && fMime ? ' · ' : '') + esc(fMime.split('/').pop() || '') + '</div>' +
+      '<div class="msg-file-progress" id="file-progress-' + m.id + '"><div class="msg-file-progress-bar"></div></div>' +
+    '</div></div>';
+}
+
+// Photos and videos tile into a grid; a file album is a list of files
+function renderAlbum(items) {
+  var isFiles = items.every(function(it) { return it.mediaType === 'file'; });
+  if (isFiles) return '<div class="msg-album-files">' + items.map(renderFileAttachment).join('') + '</div>';
+
+  var html = '<div class="msg-album' + (items.length % 2 ? ' odd' : '') + '">';
+  for (var i = 0; i < items.length; i++) {
+    var it = items[i];
+    if (it.mediaType === 'photo' && it.mediaUrl) {
+      html += '<img class="msg-album-item" src="' + esc(it.mediaUrl) + '" onclick="showLightbox(this.src)" />';
+    } else if (it.mediaType === 'video') {
+      html += '<div class="msg-album-item msg-video-container" data-msg-id="' + it.id + '" onclick="playVideo(this)">';
+      html += it.thumbnailUrl ? '<img class="msg-video-thumb" src="' + esc(it.thumbnailUrl) + '" />' : '<div class="msg-video-no-thumb">🎬</div>';
+      html += '<div class="msg-video-play"></div></div>';
+    } else {
+      html += '<div class="msg-album-item msg-album-placeholder">' + (it.mediaType === 'video' ? '🎬' : '📷') + '</div>';
+    }
+  }
+  return html + '</div>';
+}
+
 function showLightbox(src) {
   var overlay = document.createElement('div');
   overlay.className = 'lightbox-overlay';
@@ -2286,7 +2588,7 @@ function retryMessage(tempId) {
   m._optimistic = 'sending';
   pendingOptimistic.set(tempId, { text: m.text, timestamp: m.timestamp });
   renderMessages(allMessages);
-  var payload = { type: 'sendMessage', text: m.text, tempId: tempId };
+  var payload = { type: 'sendMessage', text: m.text, tempId: tempId, clientMsgId: m.clientMsgId };
   if (m.replyToId) payload.replyToId = m.replyToId;
   vscode.postMessage(payload);
 }
@@ -2879,6 +3181,43 @@ filePreviewSend.addEventListener('click', function() {
   renderFilePreview();
 });
 
+// Progress of files being sent from disk, until the send succeeds or fails
+var uploadProgressList = document.getElementById('uploadProgressList');
+
+function updateUploadProgress(tempId, fileName, progress) {
+  var item = document.getElementById('upload-' + tempId);
+  if (!item) {
+    item = document.createElement('div');
+    item.className = 'upload-progress-item';
+    item.id = 'upload-' + tempId;
+    var label = document.createElement('div');
+    label.className = 'file-name';
+    var name = document.createElement('span');
+    name.className = 'upload-name';
+    name.textContent = fileName || 'File';
+    var pct = document.createElement('span');
+    pct.className = 'upload-pct';
+    label.appendChild(name);
+    label.appendChild(pct);
+    var track = document.createElement('div');
+    track.className = 'msg-file-progress active';
+    var bar = document.createElement('div');
+    bar.className = 'msg-file-progress-bar';
+    track.appendChild(bar);
+    item.appendChild(label);
+    item.appendChild(track);
+    uploadProgressList.appendChild(item);
+  }
+  var value = Math.max(0, Math.min(100, progress || 0));
+  item.querySelector('.upload-pct').textContent = value + '%';
+  item.querySelector('.msg-file-progress-bar').style.width = value + '%';
+}
+
+function removeUploadProgress(tempId) {
+  var item = document.getElementById('upload-' + tempId);
+  if (item) item.remove();
+}
+
 // ── Chat Info Panel ──
 var chatInfoPanel = document.getElementById('chatInfoPanel');
 var chatInfoOverlay = document.getElementById('chatInfoOverlay');
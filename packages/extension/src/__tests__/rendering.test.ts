@@ -98,6 +98,36 @@ function groupMessages(msgs: MockMessage[]): MessageGroup[] {
   return groups;
 }
 
+interface AlbumMessage extends MockMessage {
+  groupedId?: string;
+  album?: AlbumMessage[];
+  entities?: { type: string; offset: number; length: number }[];
+  reactions?: { emoji: string; count: number; isSelected: boolean }[];
+  isEdited?: boolean;
+}
+
+// Mirror of collapseAlbums from chatTab.js
+function collapseAlbums(msgs: AlbumMessage[]): AlbumMessage[] {
+  const out: AlbumMessage[] = [];
+  for (const m of msgs) {
+    let prev = out[out.length - 1];
+    if (m.groupedId && prev && prev.groupedId === m.groupedId) {
+      if (!prev.album) {
+        prev = { ...prev, album: [prev] };
+        out[out.length - 1] = prev;
+      }
+      prev.album!.push(m);
+      if (!prev.text && m.text) { prev.text = m.text; prev.entities = m.entities; }
+      if ((!prev.reactions || !prev.reactions.length) && m.reactions) prev.reactions = m.reactions;
+      if (m.isEdited) prev.isEdited = true;
+      prev.timestamp = m.timestamp;
+      continue;
+    }
+    out.push(m);
+  }
+  return out;
+}
+
 // --- Tests ---
 
 describe('HTML escaping (XSS prevention)', () => {
@@ -452,6 +482,53 @@ function renderMessageHtml(m: {
   return html;
 }
 
+describe('album collapsing', () => {
+  const member = (id: number, groupedId: string | undefined, text = ''): AlbumMessage => ({
+    id, senderId: 'Alice', senderName: 'Alice', text, timestamp: 1000 + id, isOutgoing: false, groupedId,
+  });
+
+  it('folds consecutive members of an album into the first', () => {
+    const out = collapseAlbums([member(1, 'g'), member(2, 'g'), member(3, 'g')]);
+    expect(out).toHaveLength(1);
+    expect(out[0].id).toBe(1);
+    expect(out[0].album!.map((m) => m.id)).toEqual([1, 2, 3]);
+    expect(out[0].timestamp).toBe(1003);
+  });
+
+  it('takes the caption from whichever member has one', () => {
+    const out = collapseAlbums([member(1, 'g'), member(2, 'g', 'caption')]);
+    expect(out[0].text).toBe('caption');
+  });
+
+  it('carries the caption\'s entities along with it', () => {
+    const bold = [{ type: 'bold', offset: 0, length: 7 }];
+    const out = collapseAlbums([member(1, 'g'), { ...member(2, 'g', 'caption'), entities: bold }]);
+    expect(out[0].entities).toEqual(bold);
+  });
+
+  it('takes reactions from whichever member has them', () => {
+    const reactions = [{ emoji: '👍', count: 2, isSelected: false }];
+    const out = collapseAlbums([{ ...member(1, 'g'), reactions: [] }, { ...member(2, 'g'), reactions }]);
+    expect(out[0].reactions).toEqual(reactions);
+  });
+
+  it('marks the album edited when any member was edited', () => {
+    const out = collapseAlbums([member(1, 'g'), { ...member(2, 'g'), isEdited: true }, member(3, 'g')]);
+    expect(out[0].isEdited).toBe(true);
+  });
+
+  it('keeps separate albums and plain messages apart', () => {
+    const out = collapseAlbums([member(1, 'g'), member(2, 'g'), member(3, undefined), member(4, 'h'), member(5, 'h')]);
+    expect(out.map((m) => m.id)).toEqual([1, 3, 4]);
+    expect(out[1].album).toBeUndefined();
+  });
+
+  it('leaves a lone member as a normal message', () => {
+    const out = collapseAlbums([member(1, 'g')]);
+    expect(out[0].album).toBeUndefined();
+  });
+});
+
 describe('entity-based markdown rendering', () => {
   it('renders bold text', () => {
     const result = applyEntities('hello world', [{ type: 'bold', offset: 0, length: 5 }]);
@@ -751,6 +828,162 @@ describe('reactions rendering', () => {
   });
 });
 
+// Mirror of renderPoll from chatTab.js
+interface MockPoll {
+  question: string;
+  answers: { text: string; option: string; voters?: number; chosen?: boolean; correct?: boolean }[];
+  closed: boolean;
+  quiz: boolean;
+  multipleChoice: boolean;
+  publicVoters?: boolean;
+  totalVoters?: number;
+  solution?: string;
+}
+
+function renderPoll(p: MockPoll, isOutgoing: boolean): string {
+  const total = p.totalVoters || 0;
+  const voted = p.answers.some((a) => a.chosen);
+  const showResults = voted || p.closed;
+  const votable = !voted && !p.closed;
+  let html = '<div class="msg-poll' + (votable ? ' votable' : '') + '" data-multiple="' + (p.multipleChoice ? '1' : '0') + '">';
+  html += '<div class="poll-question">📊 ' + esc(p.question) + '</div>';
+  html += '<div class="poll-kind">' + (p.closed ? 'Final results' : p.quiz ? 'Quiz' : 'Poll') + (p.publicVoters ? '' : ' · anonymous') + (p.multipleChoice ? ' · multiple answers' : '') + '</div>';
+  for (const ans of p.answers) {
+    const pct = showResults && total && ans.voters !== undefined ? Math.round(ans.voters * 100 / total) : null;
+    html += '<div class="poll-answer' + (ans.chosen ? ' chosen' : '') + (ans.correct ? ' correct' : '') + '" data-option="' + esc(ans.option) + '"' +
+      (votable ? ' onclick="pollAnswerClick(this)"' : '') + '>' +
+      (pct !== null ? '<div class="poll-bar" style="width:' + pct + '%"></div><span class="poll-pct">' + pct + '%</span>' : '') +
+      '<span class="poll-text">' + esc(ans.text) + '</span></div>';
+  }
+  if (voted && p.quiz && p.solution) html += '<div class="poll-solution">💡 ' + esc(p.solution) + '</div>';
+  html += '<div class="poll-footer"><span class="poll-total">' + total + (total === 1 ? ' vote' : ' votes') + '</span>';
+  if (votable && p.multipleChoice) html += '<button class="poll-action poll-vote-btn" onclick="pollSubmit(this)" disabled>Vote</button>';
+  if (voted && !p.closed && !p.quiz) html += '<button class="poll-action" onclick="pollAction(this, &quot;pollRetract&quot;)">Retract vote</button>';
+  if (isOutgoing && !p.closed) html += '<button class="poll-action" onclick="pollAction(this, &quot;pollClose&quot;)">Stop poll</button>';
+  return html + '</div></div>';
+}
+
+describe('poll rendering', () => {
+  const poll = (over: Partial<MockPoll> = {}): MockPoll => ({
+    question: 'Lunch?',
+    answers: [{ text: 'Pizza', option: 'MA==', voters: 3 }, { text: 'Sushi', option: 'MQ==', voters: 1 }],
+    closed: false, quiz: false, multipleChoice: false, totalVoters: 4,
+    ...over,
+  });
+
+  it('lets you vote and hides results until you have', () => {
+    const html = renderPoll(poll(), false);
+    expect(html).toContain('pollAnswerClick');
+    expect(html).not.toContain('poll-pct');
+    expect(html).not.toContain('Retract vote');
+  });
+
+  it('shows results and a retract button after voting', () => {
+    const p = poll();
+    p.answers[0].chosen = true;
+    const html = renderPoll(p, false);
+    expect(html).toContain('75%');
+    expect(html).toContain('Retract vote');
+    expect(html).not.toContain('pollAnswerClick');
+  });
+
+  it('adds a Vote button for multiple choice', () => {
+    expect(renderPoll(poll({ multipleChoice: true }), false)).toContain('poll-vote-btn');
+  });
+
+  it('offers Stop poll to the sender of an open poll only', () => {
+    expect(renderPoll(poll(), true)).toContain('Stop poll');
+    expect(renderPoll(poll({ closed: true }), true)).not.toContain('Stop poll');
+    expect(renderPoll(poll(), false)).not.toContain('Stop poll');
+  });
+
+  it('shows a quiz solution after answering, without retract', () => {
+    const p = poll({ quiz: true, solution: 'Because' });
+    p.answers[1].chosen = true;
+    p.answers[0].correct = true;
+    const html = renderPoll(p, false);
+    expect(html).toContain('Because');
+    expect(html).not.toContain('Retract vote');
+  });
+
+  it('escapes question and answers', () => {
+    const html = renderPoll(poll({ question: '<b>x</b>', answers: [{ text: '<img>', option: 'MA==' }, { text: 'b', option: 'MQ==' }] }), false);
+    expect(html).not.toContain('<b>x</b>');
+    expect(html).not.toContain('<img>');
+  });
+});
+
+// Mirror of renderReplyMarkup from chatTab.js
+interface MockReplyMarkup {
+  type: string;
+  rows?: { type: string; text: string; data?: string; url?: string; copyText?: string }[][];
+}
+
+const KB_ACTIONS: Record<string, boolean> = { callback: true, game: true, text: true, copy: true };
+
+function renderReplyMarkup(rm: MockReplyMarkup | undefined): string {
+  if (!rm || !rm.rows || !rm.rows.length) return '';
+  let html = '<div class="msg-keyboard' + (rm.type === 'keyboard' ? ' reply-keyboard' : '') + '">';
+  for (const row of rm.rows) {
+    html += '<div class="kb-row">';
+    for (const btn of row) {
+      if (btn.url && /^https?:/.test(btn.url)) {
+        html += '<a class="kb-btn" href="' + esc(btn.url) + '" title="' + esc(btn.url) + '">' + esc(btn.text) + ' ↗</a>';
+      } else if (KB_ACTIONS[btn.type]) {
+        html += '<button class="kb-btn" data-type="' + esc(btn.type) + '" data-data="' + esc(btn.data || '') + '" data-copy="' + esc(btn.copyText || '') + '"' +
+          ' onclick="kbPress(this)">' + esc(btn.text) + '</button>';
+      } else {
+        html += '<span class="kb-btn inert" title="Not supported here">' + esc(btn.text) + '</span>';
+      }
+    }
+    html += '</div>';
+  }
+  return html + '</div>';
+}
+
+describe('bot keyboard rendering', () => {
+  it('renders nothing without rows', () => {
+    expect(renderReplyMarkup(undefined)).toBe('');
+    expect(renderReplyMarkup({ type: 'hide' })).toBe('');
+  });
+
+  it('renders one kb-row per row', () => {
+    const html = renderReplyMarkup({ type: 'inline', rows: [
+      [{ type: 'callback', text: 'Yes', data: 'eWVz' }, { type: 'callback', text: 'No', data: 'bm8=' }],
+      [{ type: 'text', text: 'Help' }],
+    ] });
+    expect(html.match(/class="kb-row"/g)).toHaveLength(2);
+    expect(html).toContain('data-data="eWVz"');
+    expect(html).toContain('onclick="kbPress(this)">Help</button>');
+  });
+
+  it('links http urls and leaves other urls inert', () => {
+    const html = renderReplyMarkup({ type: 'inline', rows: [[
+      { type: 'url', text: 'Site', url: 'https://example.com' },
+      { type: 'url', text: 'Bad', url: 'javascript:alert(1)' },
+    ]] });
+    expect(html).toContain('<a class="kb-btn" href="https://example.com"');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<span class="kb-btn inert"');
+  });
+
+  it('shows buttons it cannot press as inert', () => {
+    const html = renderReplyMarkup({ type: 'inline', rows: [[{ type: 'switchInline', text: 'Share' }]] });
+    expect(html).toContain('inert');
+    expect(html).not.toContain('kbPress');
+  });
+
+  it('marks reply keyboards', () => {
+    expect(renderReplyMarkup({ type: 'keyboard', rows: [[{ type: 'text', text: 'A' }]] })).toContain('reply-keyboard');
+  });
+
+  it('escapes button text and data', () => {
+    const html = renderReplyMarkup({ type: 'inline', rows: [[{ type: 'copy', text: '<b>x</b>', copyText: '"><img>' }]] });
+    expect(html).not.toContain('<b>x</b>');
+    expect(html).not.toContain('"><img>');
+  });
+});
+
 describe('SimplePanel', () => {
   // Test SimplePanel singleton behavior
   it('is importable', async () => {
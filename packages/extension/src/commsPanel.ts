@@ -715,9 +715,21 @@ export class ChatTab {
                   case 'reactionUpdate':
                     this.panel.webview.postMessage({ type: 'reactionUpdate', messageId: event.messageId, reactions: event.reactions });
                     break;
+                  case 'pollUpdate':
+                    this.panel.webview.postMessage({ type: 'pollUpdate', messageId: event.messageId, poll: event.poll });
+                    break;
                   case 'readOutbox':
                     this.panel.webview.postMessage({ type: 'readOutbox', maxId: event.maxId });
                     break;
+                  case 'outboxQueued':
+                    this.panel.webview.postMessage({ type: 'outboxQueued', clientMsgId: event.clientMsgId });
+                    break;
+                  case 'outboxSent':
+                    this.panel.webview.postMessage({ type: 'outboxSent', clientMsgId: event.clientMsgId, message: await processMessageWithDiffDetectionSingle(event.message, this.gitDiffService, this.diffRenderer) });
+                    break;
+                  case 'outboxFailed':
+                    this.panel.webview.postMessage({ type: 'outboxFailed', clientMsgId: event.clientMsgId, error: event.error });
+                    break;
                   case 'reconnected':
                     // Fetch missed messages after reconnect
                     try {
@@ -769,7 +781,7 @@ export class ChatTab {
           case 'sendMessage':
             await tg.connect();
             try {
-              await tg.sendMessage(this.chatId, msg.text, msg.replyToId);
+              await tg.sendMessage(this.chatId, msg.text, msg.replyToId, msg.clientMsgId, { parseMode: 'markdown' });
               // Track this chat as recently used after successfully sending a message
               tg.trackRecentChat(this.chatId);
               // Record user interaction
@@ -803,14 +815,18 @@ export class ChatTab {
             // File path from VS Code explorer drag-and-drop
             await tg.connect();
             try {
-              const fileUri = vscode.Uri.file(msg.filePath);
-              const fileData = await vscode.workspace.fs.readFile(fileUri);
-              const fileBuffer = Buffer.from(fileData);
               const fileName = msg.fileName || msg.filePath.split(/[\\/]/).pop() || 'file';
               const fileMimeType = msg.mimeType || 'application/octet-stream';
-              // Show upload progress
-              this.panel.webview.postMessage({ type: 'uploadProgress', tempId: msg.tempId, progress: 50 });
-              await tg.sendFile(this.chatId, fileBuffer, fileName, fileMimeType, msg.caption);
+              this.panel.webview.postMessage({ type: 'uploadProgress', tempId: msg.tempId, fileName, progress: 0 });
+              if (tg instanceof TelegramApiClient) {
+                // Streamed from disk; the daemon reports real progress
+                await tg.sendLocalFile(this.chatId, msg.filePath, fileName, fileMimeType, msg.caption, (fraction) => {
+                  this.panel.webview.postMessage({ type: 'uploadProgress', tempId: msg.tempId, fileName, progress: Math.round(fraction * 100) });
+                });
+              } else {
+                const fileData = await vscode.workspace.fs.readFile(vscode.Uri.file(msg.filePath));
+                await tg.sendFile(this.chatId, Buffer.from(fileData), fileName, fileMimeType, msg.caption);
+              }
               this.panel.webview.postMessage({ type: 'fileSendSuccess', tempId: msg.tempId });
             } catch (localFileErr: any) {
               this.panel.webview.postMessage({ type: 'fileSendFailed', tempId: msg.tempId, error: localFileErr.message || 'File send failed' });
@@ -842,12 +858,40 @@ export class ChatTab {
           case 'editMessage':
             await tg.connect();
             try {
-              await tg.editMessage(this.chatId, msg.messageId, msg.text);
+              await tg.editMessage(this.chatId, msg.messageId, msg.text, { parseMode: 'markdown' });
               this.panel.webview.postMessage({ type: 'editSuccess', messageId: msg.messageId });
             } catch (editErr: any) {
               this.panel.webview.postMessage({ type: 'editFailed', messageId: msg.messageId, error: editErr.message || 'Edit failed' });
             }
             break;
+          case 'botCallback':
+            // Buttons come from daemon messages only
+            if (!(tg instanceof TelegramApiClient)) break;
+            try {
+              const answer = await tg.pressBotButton(this.chatId, msg.messageId, msg.data, msg.game);
+              if (answer.message && answer.alert) {
+                vscode.window.showInformationMessage(answer.message, { modal: true });
+              }
+              if (answer.url) vscode.env.openExternal(vscode.Uri.parse(answer.url));
+              this.panel.webview.postMessage({ type: 'botCallbackAnswer', messageId: msg.messageId, message: answer.alert ? undefined : answer.message });
+            } catch (cbErr: any) {
+              this.panel.webview.postMessage({ type: 'botCallbackAnswer', messageId: msg.messageId, message: cbErr.message || 'The bot did not answer' });
+            }
+            break;
+          case 'pollVote':
+          case 'pollRetract':
+          case 'pollClose':
+            // Polls are only shown with data from the daemon
+            if (!(tg instanceof TelegramApiClient)) break;
+            try {
+              const poll = msg.type === 'pollVote' ? await tg.votePoll(this.chatId, msg.messageId, msg.options)
+                : msg.type === 'pollRetract' ? await tg.retractPollVote(this.chatId, msg.messageId)
+                : await tg.closePoll(this.chatId, msg.messageId);
+              this.panel.webview.postMessage({ type: 'pollUpdate', messageId: msg.messageId, poll });
+            } catch (pollErr: any) {
+              this.panel.webview.postMessage({ type: 'pollFailed', messageId: msg.messageId, error: pollErr.message || 'Poll action failed' });
+            }
+            break;
           case 'openFile': {
             try {
               let filePath: string = msg.path || '';
@@ -989,8 +1033,8 @@ export class ChatTab {
           case 'downloadVideo':
             await tg.connect();
             try {
-              const videoDataUrl = await tg.downloadVideo(this.chatId, msg.messageId);
-              this.panel.webview.postMessage({ type: 'videoData', messageId: msg.messageId, dataUrl: videoDataUrl });
+              const videoUrl = await tg.downloadVideo(this.chatId, msg.messageId);
+              this.panel.webview.postMessage({ type: 'videoData', messageId: msg.messageId, url: videoUrl });
             } catch (vErr: any) {
               this.panel.webview.postMessage({ type: 'videoData', messageId: msg.messageId, error: vErr.message || 'Download failed' });
             }
@@ -1429,6 +1473,7 @@ export class ChatTab {
     <button class="file-preview-send" id="filePreviewSend">Send</button>
   </div>
 </div>
+<div class="upload-progress-list" id="uploadProgressList"></div>
 <button class="new-msgs-btn" id="newMsgsBtn" onclick="scrollToBottom()">↓ New messages</button>
 <div class="typing-indicator" id="typingIndicator"></div>
 <div class="image-paste-bar" id="imagePasteBar">
@@ -40,7 +40,7 @@ export class CommsWebviewProvider implements vscode.WebviewViewProvider {
             break;
           case 'sendMessage':
             await this.ensureConnected();
-            await this.telegram.sendMessage(msg.chatId, msg.text);
+            await this.telegram.sendMessage(msg.chatId, msg.text, undefined, undefined, { parseMode: 'markdown' });
             const updated = await this.telegram.getMessages(msg.chatId, 50);
             this.postMessage({ type: 'messages', chatId: msg.chatId, chatName: msg.chatName, messages: updated });
             break;
@@ -59,6 +59,27 @@ console.log('findOptimisticEcho tests:');
   console.log('  ✓ skips non-optimistic messages');
 }
 
+// Should match on clientMsgId even when the text differs (e.g. delivered late from the outbox)
+{
+  const messages: SimpleMessage[] = [
+    msg({ id: -1, _optimistic: 'sending', clientMsgId: 'c-1', timestamp: 1000 }),
+    msg({ id: -2, _optimistic: 'sending', clientMsgId: 'c-2', timestamp: 1000 }),
+  ];
+  const incoming = msg({ id: 42, clientMsgId: 'c-1', timestamp: 5000 });
+  console.assert(findOptimisticEcho(messages, incoming) === 0, 'should match by clientMsgId');
+  console.log('  ✓ matches by clientMsgId');
+}
+
+// Should NOT fall back to text when both carry different clientMsgIds
+{
+  const messages: SimpleMessage[] = [
+    msg({ id: -1, _optimistic: 'sending', clientMsgId: 'c-1' }),
+  ];
+  const incoming = msg({ id: 42, clientMsgId: 'c-9' });
+  console.assert(findOptimisticEcho(messages, incoming) === -1, 'should reject other clientMsgId');
+  console.log('  ✓ rejects a different clientMsgId with the same text');
+}
+
 // --- mergeWithOptimistic ---
 
 console.log('\nmergeWithOptimistic tests:');
@@ -91,4 +112,17 @@ console.log('\nmergeWithOptimistic tests:');
   console.log('  ✓ keeps un-echoed optimistic');
 }
 
+// Should drop optimistic whose clientMsgId came back in the poll
+{
+  const current: SimpleMessage[] = [
+    msg({ id: -1, _optimistic: 'queued', clientMsgId: 'c-1', timestamp: 1000 }),
+  ];
+  const polled: SimpleMessage[] = [
+    msg({ id: 42, clientMsgId: 'c-1', timestamp: 4000 }),
+  ];
+  const result = mergeWithOptimistic(polled, current);
+  console.assert(result.length === 1 && result[0].id === 42, 'should keep only the real message');
+  console.log('  ✓ drops optimistic echoed by clientMsgId');
+}
+
 console.log('\nAll tests passed! ✅');
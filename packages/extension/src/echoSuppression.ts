@@ -10,11 +10,20 @@ export interface SimpleMessage {
   timestamp: number;
   isOutgoing: boolean;
   _optimistic?: string | null;
+  /** Id the sender picked; the daemon echoes it on messages sent from its outbox. */
+  clientMsgId?: string;
+}
+
+/** Whether `real` is the echo of `optimistic`: same clientMsgId, or failing that same text within `maxAgeSec`. */
+function isEcho(optimistic: SimpleMessage, real: SimpleMessage, maxAgeSec: number): boolean {
+  if (optimistic.clientMsgId && real.clientMsgId) return optimistic.clientMsgId === real.clientMsgId;
+  return optimistic.text === real.text && Math.abs(real.timestamp - optimistic.timestamp) < maxAgeSec;
 }
 
 /**
  * Find the index of an optimistic message that matches the incoming real message.
- * Match criteria: same text, outgoing, timestamp within 30 seconds.
+ * Match criteria: outgoing, and the same clientMsgId when both carry one —
+ * otherwise same text with timestamps within 30 seconds.
  * Returns -1 if no match found.
  */
 export function findOptimisticEcho(
@@ -25,11 +34,7 @@ export function findOptimisticEcho(
   if (!incoming.isOutgoing) return -1;
   for (let i = allMessages.length - 1; i >= 0; i--) {
     const m = allMessages[i];
-    if (
-      m._optimistic &&
-      m.text === incoming.text &&
-      Math.abs(incoming.timestamp - m.timestamp) < maxAgeSec
-    ) {
+    if (m._optimistic && isEcho(m, incoming, maxAgeSec)) {
       return i;
     }
   }
@@ -46,12 +51,7 @@ export function mergeWithOptimistic(
 ): SimpleMessage[] {
   const stillPending = currentMessages.filter((m) => {
     if (!m._optimistic) return false;
-    return !polledMessages.some(
-      (rm) =>
-        rm.isOutgoing &&
-        rm.text === m.text &&
-        Math.abs(rm.timestamp - m.timestamp) < 30
-    );
+    return !polledMessages.some((rm) => rm.isOutgoing && isEcho(m, rm, 30));
   });
   const merged = [...polledMessages, ...stillPending];
   merged.sort((a, b) => a.timestamp - b.timestamp || a.id - b.id);
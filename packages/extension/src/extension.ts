@@ -57,6 +57,8 @@ export function activate(context: vscode.ExtensionContext) {
       telegramApi = new TelegramApiClient(
         daemonManager!.getBaseUrl(),
         storagePath,
+        undefined,
+        vscode.workspace.getConfiguration('oceangram').get<string>('daemonAccount') || 'default',
       );
       try {
         await telegramApi.connect();
@@ -69,6 +71,14 @@ export function activate(context: vscode.ExtensionContext) {
     console.error('[Oceangram] Daemon startup error:', err);
   });
 
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+    if (!e.affectsConfiguration('oceangram.daemonAccount') || !telegramApi) return;
+    const accountId = vscode.workspace.getConfiguration('oceangram').get<string>('daemonAccount') || 'default';
+    telegramApi.switchAccount(accountId).catch(err => {
+      console.error('[Oceangram] Account switch failed:', err);
+    });
+  }));
+
   // --- Agent features (gated by oceangram.features.agent) ---
   const agentEnabled = isAgentEnabled();
 
@@ -260,7 +270,7 @@ export function activate(context: vscode.ExtensionContext) {
       const codeBlock = '```\n' + clipboardText.trim() + '\n```';
       try {
         await api.connect();
-        await api.sendMessage(chosen.id, codeBlock);
+        await api.sendMessage(chosen.id, codeBlock, undefined, undefined, { parseMode: 'markdown' });
         // Track this chat as recently used after successfully sending
         api.trackRecentChat(chosen.id);
         vscode.window.showInformationMessage(`Terminal output sent to ${chosen.name}`);
@@ -301,7 +311,7 @@ export function activate(context: vscode.ExtensionContext) {
       if (!chat) { return; }
 
       try {
-        await api.sendMessage(chat.id, message);
+        await api.sendMessage(chat.id, message, undefined, undefined, { parseMode: 'markdown' });
         // Track this chat as recently used after successfully sending
         api.trackRecentChat(chat.id);
         vscode.window.showInformationMessage(`Sent to ${chat.name}`);
@@ -392,7 +402,7 @@ export function activate(context: vscode.ExtensionContext) {
 
       try {
         await api.connect();
-        await api.sendMessage(lastChatId, reply.trim());
+        await api.sendMessage(lastChatId, reply.trim(), undefined, undefined, { parseMode: 'markdown' });
         
         // Track this chat as recently used (since we just sent a message)
         api.trackRecentChat(lastChatId);
@@ -217,6 +217,20 @@ describe('TelegramService', () => {
     it('throws when not connected for sendMessage too', async () => {
       await expect(service.sendMessage('123', 'hi')).rejects.toThrow('Not connected');
     });
+
+    it('passes send options to gramJS', async () => {
+      const client = { getEntity: vi.fn().mockResolvedValue({}), sendMessage: vi.fn() };
+      (service as any).client = client;
+      await service.sendMessage('123', '**hi**', undefined, undefined, { parseMode: 'markdown', silent: true, noWebpage: true });
+      expect(client.sendMessage).toHaveBeenCalledWith({}, { message: '**hi**', parseMode: 'md', silent: true, linkPreview: false });
+    });
+
+    it('leaves gramJS defaults alone without options', async () => {
+      const client = { getEntity: vi.fn().mockResolvedValue({}), sendMessage: vi.fn() };
+      (service as any).client = client;
+      await service.sendMessage('123', 'hi', 7);
+      expect(client.sendMessage).toHaveBeenCalledWith({}, { message: 'hi', replyTo: 7 });
+    });
   });
 
   // --- disconnect ---
@@ -55,17 +55,82 @@ export interface DialogInfo {
 
 export interface LinkPreview {
   url: string;
+  displayUrl?: string;
+  siteName?: string;
   title?: string;
   description?: string;
   imageUrl?: string;
 }
 
 export interface MessageEntity {
-  type: 'bold' | 'italic' | 'code' | 'pre' | 'strikethrough' | 'url' | 'text_link';
+  type: 'bold' | 'italic' | 'underline' | 'strikethrough' | 'spoiler' | 'code' | 'pre' | 'blockquote'
+    | 'url' | 'text_link' | 'email' | 'phone' | 'mention' | 'mention_name' | 'hashtag' | 'cashtag'
+    | 'bot_command' | 'bank_card' | 'custom_emoji';
   offset: number;
   length: number;
   url?: string;      // for text_link
   language?: string;  // for pre (code blocks)
+  userId?: string;    // for mention_name
+}
+
+export interface PollInfo {
+  id: string;
+  question: string;
+  answers: { text: string; option: string; voters?: number; chosen?: boolean; correct?: boolean }[];
+  closed: boolean;
+  quiz: boolean;
+  multipleChoice: boolean;
+  publicVoters?: boolean;
+  totalVoters?: number;
+  closeDate?: number;
+  /** Quiz explanation, shown after answering */
+  solution?: string;
+}
+
+export interface GeoInfo {
+  lat: number;
+  long: number;
+  title?: string;     // venue name
+  address?: string;
+  livePeriod?: number; // seconds, for live locations
+}
+
+export interface ContactInfo {
+  phoneNumber: string;
+  firstName: string;
+  lastName?: string;
+  userId?: string;
+}
+
+// Service message (join, pin, title change, ...); type is e.g. 'chatAddUser', 'pinMessage'
+export interface ServiceAction {
+  type: string;
+  userIds?: string[];
+  title?: string;
+  messageId?: number;
+  duration?: number;
+  period?: number;
+  text?: string;
+}
+
+export interface KeyboardButton {
+  type: string;       // 'callback', 'url', 'text', ...
+  text: string;
+  data?: string;      // base64 callback data
+  url?: string;
+  copyText?: string;  // for 'copy'
+}
+
+export interface ReplyMarkup {
+  type: 'inline' | 'keyboard' | 'hide' | 'forceReply';
+  rows?: KeyboardButton[][];
+}
+
+// How a sent or edited text is formatted and delivered
+export interface SendOptions {
+  parseMode?: 'markdown' | 'html';
+  silent?: boolean;
+  noWebpage?: boolean;  // no link preview
 }
 
 export interface ReactionInfo {
@@ -82,7 +147,7 @@ export interface MessageInfo {
   timestamp: number;
   isOutgoing: boolean;
   // Media
-  mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif';
+  mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact';
   mediaUrl?: string;
   thumbnailUrl?: string;
   fileName?: string;
@@ -99,14 +164,24 @@ export interface MessageInfo {
   forwardFrom?: string;
   // Edited
   isEdited?: boolean;
+  // Album: members share this id and render as one bubble
+  groupedId?: string;
   // Entities (for markdown rendering)
   entities?: MessageEntity[];
   // Link preview
   linkPreview?: LinkPreview;
+  // Structured content
+  poll?: PollInfo;
+  geo?: GeoInfo;
+  contact?: ContactInfo;
+  action?: ServiceAction;
+  replyMarkup?: ReplyMarkup;
   // Reactions
   reactions?: ReactionInfo[];
   // Read receipt status for outgoing messages
   status?: 'sent' | 'read';
+  // Sender-chosen id, set on messages the daemon delivered from its outbox
+  clientMsgId?: string;
 }
 
 export type DialogUpdateListener = (dialogs: DialogInfo[]) => void;
@@ -1300,6 +1375,11 @@ input.addEventListener('keydown', (e) => {
         info.isEdited = true;
       }
 
+      // --- Album ---
+      if (msg.groupedId) {
+        info.groupedId = msg.groupedId.toString();
+      }
+
       // --- Entities ---
       if (msg.entities && msg.entities.length > 0) {
         info.entities = msg.entities.map((e: any) => {
@@ -1338,6 +1418,9 @@ input.addEventListener('keydown', (e) => {
       'MessageEntityCode': 'code',
       'MessageEntityPre': 'pre',
       'MessageEntityStrike': 'strikethrough',
+      'MessageEntityUnderline': 'underline',
+      'MessageEntitySpoiler': 'spoiler',
+      'MessageEntityBlockquote': 'blockquote',
       'MessageEntityUrl': 'url',
       'MessageEntityTextUrl': 'text_link',
     };
@@ -1365,12 +1448,13 @@ input.addEventListener('keydown', (e) => {
     return undefined;
   }
 
-  async sendMessage(dialogId: string, text: string, replyToMsgId?: number): Promise<void> {
+  /** `_clientMsgId` only matters with the daemon, which queues offline sends under it. */
+  async sendMessage(dialogId: string, text: string, replyToMsgId?: number, _clientMsgId?: string, options: SendOptions = {}): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     const { chatId, topicId } = TelegramService.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
 
-    const opts: any = { message: text };
+    const opts: any = { message: text, ...TelegramService.gramjsSendOptions(options) };
     if (topicId) opts.replyTo = topicId;
     if (replyToMsgId) opts.replyTo = replyToMsgId;
 
@@ -1461,11 +1545,20 @@ input.addEventListener('keydown', (e) => {
     return { buffer, fileName, mimeType };
   }
 
-  async editMessage(dialogId: string, messageId: number, text: string): Promise<void> {
+  async editMessage(dialogId: string, messageId: number, text: string, options: SendOptions = {}): Promise<void> {
     if (!this.client) throw new Error('Not connected');
     const { chatId } = TelegramService.parseDialogId(dialogId);
     const entity = await this.client.getEntity(chatId);
-    await this.client.editMessage(entity, { message: messageId, text });
+    await this.client.editMessage(entity, { message: messageId, text, ...TelegramService.gramjsSendOptions(options) });
+  }
+
+  /** gramJS spellings of SendOptions. Its own Markdown has no code block languages. */
+  private static gramjsSendOptions(options: SendOptions): { parseMode?: string; silent?: boolean; linkPreview?: boolean } {
+    const opts: { parseMode?: string; silent?: boolean; linkPreview?: boolean } = {};
+    if (options.parseMode) opts.parseMode = options.parseMode === 'html' ? 'html' : 'md';
+    if (options.silent) opts.silent = true;
+    if (options.noWebpage) opts.linkPreview = false;
+    return opts;
   }
 
   async deleteMessages(dialogId: string, messageIds: number[], revoke: boolean): Promise<void> {
@@ -1797,6 +1890,9 @@ input.addEventListener('keydown', (e) => {
     // Edited
     if (msg.editDate) info.isEdited = true;
 
+    // Album membership
+    if (msg.groupedId) info.groupedId = msg.groupedId.toString();
+
     // Entities
     if (msg.entities && msg.entities.length > 0) {
       info.entities = msg.entities.map((e: any) => {
@@ -2506,7 +2602,11 @@ export type ChatEvent =
   | { type: 'typing'; userId: string; userName: string }
   | { type: 'readOutbox'; maxId: number }
   | { type: 'reactionUpdate'; messageId: number; reactions: ReactionInfo[] }
+  | { type: 'pollUpdate'; messageId: number; poll: PollInfo }
   | { type: 'reconnected' }
-  | { type: 'userStatus'; userId: string; status: UserStatus };
+  | { type: 'userStatus'; userId: string; status: UserStatus }
+  | { type: 'outboxQueued'; clientMsgId: string }
+  | { type: 'outboxSent'; clientMsgId: string; message: MessageInfo }
+  | { type: 'outboxFailed'; clientMsgId: string; error: string };
 
 export type ChatEventListener = (event: ChatEvent) => void;
@@ -2,15 +2,16 @@
  * TelegramApiClient — HTTP/WS client that talks to oceangram-daemon.
  * Drop-in replacement for TelegramService (same public API surface).
  */
-import * as http from 'http';
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { OceangramClient } from 'oceangram-client';
 import type {
   DialogInfo, MessageInfo, ConnectionState, ConnectionStateListener,
   DialogUpdateListener, ChatEvent, ChatEventListener,
   UserStatus, UserStatusListener, GroupMember, ChatInfoResult,
-  ChatMember, SharedMediaItem, LinkPreview, MessageEntity, ReactionInfo,
+  ChatMember, SharedMediaItem, LinkPreview, MessageEntity, ReactionInfo, PollInfo, SendOptions,
 } from './telegram';
 
 // Re-export types so consumers can import from here
@@ -22,9 +23,10 @@ export type {
 };
 
 export class TelegramApiClient {
-  private baseUrl: string;
-  private authToken?: string;
+  private api: OceangramClient; // typed daemon client; also holds the current account
+  private rootConfigDir: string;
   private ws: any = null; // WebSocket
+  private lastEventSeq: number | null = null; // resume point for /events?since=
   private connected = false;
   private connectionState: ConnectionState = 'disconnected';
   private connectionStateListeners = new Set<ConnectionStateListener>();
@@ -44,84 +46,17 @@ export class TelegramApiClient {
   private profilePhotoCache = new Map<string, string | null>();
   private profilePhotoFetching = new Set<string>();
   private lastKnownMessageIds = new Map<string, number>();
+  private uploadProgressListeners = new Map<string, (loaded: number, total: number) => void>();
 
-  constructor(baseUrl: string, configDir: string, authToken?: string) {
-    this.baseUrl = baseUrl;
-    this.configDir = configDir;
-    this.authToken = authToken;
-  }
-
-  // --- HTTP helpers ---
-
-  private async request<T = any>(method: string, path: string, body?: any): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(path, this.baseUrl);
-      const opts: http.RequestOptions = {
-        method,
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        timeout: 15000,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.authToken ? { 'Authorization': `Bearer ${this.authToken}` } : {}),
-        },
-      };
-
-      const req = http.request(opts, (res) => {
-        let data = '';
-        res.on('data', (chunk) => data += chunk);
-        res.on('end', () => {
-          try {
-            const parsed = JSON.parse(data);
-            if (res.statusCode && res.statusCode >= 400) {
-              reject(new Error(parsed.error || `HTTP ${res.statusCode}`));
-            } else {
-              resolve(parsed);
-            }
-          } catch {
-            if (res.statusCode && res.statusCode >= 400) {
-              reject(new Error(`HTTP ${res.statusCode}: ${data}`));
-            } else {
-              resolve(data as any);
-            }
-          }
-        });
-      });
-      req.on('error', reject);
-      req.on('timeout', () => { req.destroy(); reject(new Error('Request timeout')); });
-      if (body) req.write(JSON.stringify(body));
-      req.end();
-    });
+  constructor(baseUrl: string, configDir: string, authToken?: string, accountId = 'default') {
+    this.api = new OceangramClient({ baseUrl, authToken, accountId });
+    this.rootConfigDir = configDir;
+    this.configDir = TelegramApiClient.accountConfigDir(configDir, accountId);
   }
 
-  private async requestBuffer(method: string, urlPath: string): Promise<{ buffer: Buffer; mimeType: string } | null> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(urlPath, this.baseUrl);
-      const opts: http.RequestOptions = {
-        method,
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        timeout: 30000,
-        headers: {
-          ...(this.authToken ? { 'Authorization': `Bearer ${this.authToken}` } : {}),
-        },
-      };
-
-      const req = http.request(opts, (res) => {
-        if (res.statusCode === 404) { resolve(null); return; }
-        const chunks: Buffer[] = [];
-        res.on('data', (chunk) => chunks.push(chunk));
-        res.on('end', () => {
-          const buffer = Buffer.concat(chunks);
-          resolve({ buffer, mimeType: res.headers['content-type'] || 'application/octet-stream' });
-        });
-      });
-      req.on('error', reject);
-      req.on('timeout', () => { req.destroy(); reject(new Error('Request timeout')); });
-      req.end();
-    });
+  /** Local caches (dialogs, messages, pinned, recent) are kept apart per account. */
+  private static accountConfigDir(configDir: string, accountId: string): string {
+    return accountId === 'default' ? configDir : path.join(configDir, 'accounts', accountId);
   }
 
   // --- Connection ---
@@ -129,12 +64,13 @@ export class TelegramApiClient {
   async connect(): Promise<void> {
     if (this.connected) return;
 
-    const health = await this.request('GET', '/health');
+    const health = await this.api.getHealth();
     if (health.status !== 'ok') throw new Error('Daemon not healthy');
 
     this.connected = true;
 
-    if (!health.connected) {
+    const account = health.accounts.find((a) => a.id === this.api.accountId);
+    if (!(account ? account.connected : health.connected)) {
       // Daemon running but Telegram not connected — need login
       // Don't throw; let the caller handle login flow
       console.log('[TelegramApi] Daemon running but not authenticated');
@@ -155,14 +91,55 @@ export class TelegramApiClient {
     }
   }
 
+  getAccountId(): string { return this.api.accountId; }
+
+  /** Point the client at another daemon account without restarting the extension. */
+  async switchAccount(accountId: string): Promise<void> {
+    if (accountId === this.api.accountId) return;
+    if (this.ws) {
+      // Detach first so the close handler doesn't reconnect to the old account
+      const old = this.ws;
+      this.ws = null;
+      old.removeAllListeners();
+      old.on('error', () => {});
+      try { old.close(); } catch {}
+    }
+
+    this.api.accountId = accountId;
+    this.configDir = TelegramApiClient.accountConfigDir(this.rootConfigDir, accountId);
+    this.lastEventSeq = null;
+    this.dialogCache = null;
+    this.dialogCacheTime = 0;
+    this.messageCache.clear();
+    this.profilePhotoCache.clear();
+    this.lastKnownMessageIds.clear();
+    this.userStatuses.clear();
+    this.loadDialogCacheFromDisk();
+    this.loadMessageCacheFromDisk();
+
+    if (!this.connected) return;
+    this.connectWebSocket();
+    try {
+      const fresh = await this.getDialogs();
+      for (const l of this.dialogUpdateListeners) { try { l(fresh); } catch {} }
+    } catch (err) {
+      console.error('[TelegramApi] Failed to load dialogs after account switch:', err);
+    }
+  }
+
   // --- WebSocket for real-time events ---
 
   private connectWebSocket(): void {
     try {
       // Use dynamic import for ws since it may or may not be available
       const WebSocket = require('ws');
-      const wsUrl = this.baseUrl.replace('http://', 'ws://') + '/events';
-      this.ws = new WebSocket(wsUrl);
+      // Only open chats matter here; the daemon filters (and replays) for just those.
+      // With none open there is nothing to filter by, and an empty list would match nothing.
+      const dialogIds = this.subscribedDialogIds();
+      this.ws = new WebSocket(this.api.eventsUrl({
+        dialogs: dialogIds.length ? dialogIds.join(',') : undefined,
+        since: this.lastEventSeq ?? undefined,
+      }));
 
       this.ws.on('message', (data: any) => {
         try {
@@ -188,10 +165,20 @@ export class TelegramApiClient {
 
   private handleDaemonEvent(event: any): void {
     const dialogId = event.dialogId || '';
+    if (typeof event.seq === 'number') this.lastEventSeq = event.seq;
 
     switch (event.type) {
+      case 'replayComplete': {
+        this.lastEventSeq = event.latestSeq;
+        // Daemon could not replay everything we missed — let open chats refetch
+        if (event.resync) {
+          for (const [dId] of this.chatListeners) this.emit(dId, { type: 'reconnected' });
+        }
+        break;
+      }
       case 'newMessage': {
         const msg = this.mapMessage(event.message);
+        if (event.clientMsgId) msg.clientMsgId = event.clientMsgId;
         this.appendMessageToCache(dialogId, msg);
         this.emit(dialogId, { type: 'newMessage', message: msg });
         break;
@@ -202,7 +189,29 @@ export class TelegramApiClient {
         break;
       }
       case 'deletedMessage': {
-        this.emit(dialogId, { type: 'deleteMessages', messageIds: event.messageIds || [] });
+        const deleted: ChatEvent = { type: 'deleteMessages', messageIds: event.messageIds || [] };
+        if (dialogId) {
+          this.emit(dialogId, deleted);
+          break;
+        }
+        // Uncached on the daemon: the ids belong to some private chat or basic group, never a channel
+        for (const [dId] of this.chatListeners) {
+          if (!dId.startsWith('-100')) this.emit(dId, deleted);
+        }
+        break;
+      }
+      case 'outboxQueued': {
+        this.emit(dialogId, { type: 'outboxQueued', clientMsgId: event.clientMsgId });
+        break;
+      }
+      case 'outboxSent': {
+        const msg = { ...this.mapMessage(event.message), clientMsgId: event.clientMsgId };
+        this.appendMessageToCache(dialogId, msg);
+        this.emit(dialogId, { type: 'outboxSent', clientMsgId: event.clientMsgId, message: msg });
+        break;
+      }
+      case 'outboxFailed': {
+        this.emit(dialogId, { type: 'outboxFailed', clientMsgId: event.clientMsgId, error: event.error || 'Send failed' });
         break;
       }
       case 'typing': {
@@ -229,9 +238,56 @@ export class TelegramApiClient {
         }
         break;
       }
+      case 'uploadProgress': {
+        const { clientMsgId, phase, loaded, total } = event.progress || {};
+        const listener = clientMsgId && this.uploadProgressListeners.get(clientMsgId);
+        if (!listener || !total) break;
+        listener(phase === 'sending' ? total + loaded : loaded, total * 2);
+        break;
+      }
+      case 'pollUpdate': {
+        const poll = this.applyPoll(dialogId, event.messageId, event.poll);
+        const chatId = TelegramApiClient.parseDialogId(dialogId).chatId;
+        for (const [dId] of this.chatListeners) {
+          if (TelegramApiClient.parseDialogId(dId).chatId === chatId) this.emit(dId, { type: 'pollUpdate', messageId: event.messageId, poll });
+        }
+        break;
+      }
+      case 'reactionUpdate': {
+        const chatId = TelegramApiClient.parseDialogId(dialogId).chatId;
+        const messageId = event.messageId;
+        for (const [dId] of this.chatListeners) {
+          if (TelegramApiClient.parseDialogId(dId).chatId !== chatId) continue;
+          // isSelected is omitted when Telegram didn't say whether we reacted — keep what we knew
+          const cached = this.messageCache.get(dId)?.messages.find((m) => m.id === messageId);
+          const reactions: ReactionInfo[] = (event.reactions || []).map((r: any) => ({
+            emoji: r.emoji,
+            count: r.count,
+            isSelected: r.isSelected ?? cached?.reactions?.find((c) => c.emoji === r.emoji)?.isSelected ?? false,
+          }));
+          if (cached) cached.reactions = reactions;
+          this.emit(dId, { type: 'reactionUpdate', messageId, reactions });
+        }
+        break;
+      }
     }
   }
 
+  /** Base chat ids of open chats — a forum chat id also covers its topics. */
+  private subscribedDialogIds(): string[] {
+    const ids = new Set<string>();
+    for (const [dId] of this.chatListeners) ids.add(TelegramApiClient.parseDialogId(dId).chatId);
+    return [...ids];
+  }
+
+  private syncSubscription(): void {
+    if (!this.ws || this.ws.readyState !== 1 /* OPEN */) return;
+    try {
+      const dialogIds = this.subscribedDialogIds();
+      this.ws.send(JSON.stringify({ type: 'subscribe', ...(dialogIds.length ? { dialogIds } : {}) }));
+    } catch {}
+  }
+
   // --- Event system (same API as TelegramService) ---
 
   private emit(dialogId: string, event: ChatEvent): void {
@@ -246,13 +302,17 @@ export class TelegramApiClient {
   onChatEvent(dialogId: string, listener: ChatEventListener): () => void {
     if (!this.chatListeners.has(dialogId)) {
       this.chatListeners.set(dialogId, new Set());
+      this.syncSubscription();
     }
     this.chatListeners.get(dialogId)!.add(listener);
     return () => {
       const set = this.chatListeners.get(dialogId);
       if (set) {
         set.delete(listener);
-        if (set.size === 0) this.chatListeners.delete(dialogId);
+        if (set.size === 0) {
+          this.chatListeners.delete(dialogId);
+          this.syncSubscription();
+        }
       }
     };
   }
@@ -323,7 +383,7 @@ export class TelegramApiClient {
   }
 
   private async fetchDialogsFresh(limit: number): Promise<DialogInfo[]> {
-    const dialogs: any[] = await this.request('GET', `/dialogs?limit=${limit}`);
+    const dialogs = await this.api.getDialogs({ limit });
     const pinnedIds = this.getPinnedIds();
     return dialogs.map(d => this.mapDialog(d, pinnedIds));
   }
@@ -375,15 +435,13 @@ export class TelegramApiClient {
   }
 
   private async fetchMessagesFresh(dialogId: string, limit = 20, offsetId?: number): Promise<MessageInfo[]> {
-    let url = `/dialogs/${encodeURIComponent(dialogId)}/messages?limit=${limit}`;
-    if (offsetId) url += `&offsetId=${offsetId}`;
-    const msgs: any[] = await this.request('GET', url);
+    const msgs = await this.api.getMessages(dialogId, { limit, offsetId: offsetId || undefined });
     return msgs.map(m => this.mapMessage(m));
   }
 
   async getPinnedMessages(dialogId: string): Promise<MessageInfo[]> {
     try {
-      const msgs: any[] = await this.request('GET', `/dialogs/${encodeURIComponent(dialogId)}/pinned`);
+      const msgs = await this.api.getPinnedMessages(dialogId);
       return msgs.map(m => this.mapMessage(m));
     } catch {
       return [];
@@ -391,24 +449,27 @@ export class TelegramApiClient {
   }
 
   async searchMessages(dialogId: string, query: string, limit = 20): Promise<MessageInfo[]> {
-    const msgs: any[] = await this.request('GET', `/dialogs/${encodeURIComponent(dialogId)}/search?q=${encodeURIComponent(query)}&limit=${limit}`);
+    const msgs = await this.api.searchDialogMessages(dialogId, { q: query, limit });
     return msgs.map(m => this.mapMessage(m));
   }
 
-  async sendMessage(dialogId: string, text: string, replyToMsgId?: number): Promise<void> {
-    await this.request('POST', `/dialogs/${encodeURIComponent(dialogId)}/messages`, {
+  /** While the daemon is offline the send is queued in its outbox; `outboxSent` reports delivery. */
+  async sendMessage(dialogId: string, text: string, replyToMsgId?: number, clientMsgId?: string, options: SendOptions = {}): Promise<void> {
+    await this.api.sendMessage(dialogId, {
       text,
       replyTo: replyToMsgId,
+      clientMsgId,
+      ...options,
     });
   }
 
-  async editMessage(dialogId: string, messageId: number, text: string): Promise<void> {
-    await this.request('PATCH', `/messages/${messageId}`, { dialogId, text });
+  async editMessage(dialogId: string, messageId: number, text: string, options: SendOptions = {}): Promise<void> {
+    await this.api.editMessage(messageId, { dialogId, text, ...options });
   }
 
   async deleteMessages(dialogId: string, messageIds: number[], _revoke: boolean): Promise<void> {
     for (const id of messageIds) {
-      await this.request('DELETE', `/messages/${id}`, { dialogId });
+      await this.api.deleteMessage(id, { dialogId });
     }
     // Remove from cache
     const cached = this.messageCache.get(dialogId);
@@ -418,42 +479,96 @@ export class TelegramApiClient {
     }
   }
 
+  // --- Bots ---
+
+  /** Press an inline callback button (`data` as in the button) or a game button. */
+  async pressBotButton(dialogId: string, messageId: number, data: string, game = false): Promise<{ message?: string; alert?: boolean; url?: string }> {
+    return this.api.pressBotButton({ dialogId, messageId, data: game ? undefined : data, game: game || undefined });
+  }
+
+  // --- Polls ---
+
+  /** Vote with base64 options from `poll.answers`. Returns the new results. */
+  async votePoll(dialogId: string, messageId: number, options: string[]): Promise<PollInfo> {
+    const result = await this.api.votePoll(messageId, { dialogId, options });
+    return this.applyPoll(dialogId, messageId, result.poll);
+  }
+
+  async retractPollVote(dialogId: string, messageId: number): Promise<PollInfo> {
+    const result = await this.api.retractPollVote(messageId, { dialogId });
+    return this.applyPoll(dialogId, messageId, result.poll);
+  }
+
+  async closePoll(dialogId: string, messageId: number): Promise<PollInfo> {
+    const result = await this.api.closePoll(messageId, { dialogId });
+    return this.applyPoll(dialogId, messageId, result.poll);
+  }
+
+  /** Store new poll results on the cached message, in the chat and any of its open topics. */
+  private applyPoll(dialogId: string, messageId: number, poll: PollInfo): PollInfo {
+    const chatId = TelegramApiClient.parseDialogId(dialogId).chatId;
+    for (const [dId, cached] of this.messageCache) {
+      if (TelegramApiClient.parseDialogId(dId).chatId !== chatId) continue;
+      const msg = cached.messages.find((m) => m.id === messageId);
+      if (msg) msg.poll = poll;
+    }
+    return poll;
+  }
+
   async sendTyping(dialogId: string): Promise<void> {
     try {
-      await this.request('POST', `/dialogs/${encodeURIComponent(dialogId)}/typing`);
+      await this.api.sendTyping(dialogId);
     } catch {}
   }
 
   // --- Media ---
 
+  /**
+   * URL for the webview's <video> to stream from. The daemon serves Range
+   * requests, so playback starts at once and seeking only fetches what's needed.
+   */
   async downloadVideo(dialogId: string, messageId: number): Promise<string | undefined> {
-    try {
-      const result = await this.requestBuffer('GET', `/media/${messageId}?dialogId=${encodeURIComponent(dialogId)}`);
-      if (result) {
-        return `data:${result.mimeType};base64,${result.buffer.toString('base64')}`;
-      }
-    } catch {}
-    return undefined;
+    // <video> can't send an Authorization header, so the URL carries a token for this file alone
+    const token = this.api.authToken ? (await this.api.getMediaToken(messageId, { dialogId })).token : undefined;
+    return this.api.url(`/media/${messageId}`, { dialogId, token });
   }
 
   async downloadFile(dialogId: string, messageId: number, _progressCb?: (downloaded: number, total: number) => void): Promise<{ buffer: Buffer; fileName: string; mimeType: string }> {
-    const result = await this.requestBuffer('GET', `/media/${messageId}?dialogId=${encodeURIComponent(dialogId)}`);
+    const result = await this.api.getMedia(messageId, { dialogId });
     if (!result) throw new Error('No media');
-    return { buffer: result.buffer, fileName: 'file', mimeType: result.mimeType };
+    return { buffer: result.buffer, fileName: 'file', mimeType: result.contentType };
   }
 
-  async sendFile(dialogId: string, buffer: Buffer, fileName: string, mimeType?: string, caption?: string): Promise<void> {
+  async sendFile(dialogId: string, buffer: Buffer, fileName: string, mimeType?: string, caption?: string, clientMsgId?: string): Promise<void> {
     const data = buffer.toString('base64');
-    await this.request('POST', `/dialogs/${encodeURIComponent(dialogId)}/upload`, {
-      data, fileName, mimeType, caption,
-    });
+    await this.api.sendFile(dialogId, { data, fileName, mimeType, caption, clientMsgId });
+  }
+
+  /**
+   * Send a file from disk without loading it into memory. `onProgress` gets
+   * the daemon's uploadProgress reports: receiving the file counts for the
+   * first half, uploading it to Telegram for the second.
+   */
+  async sendLocalFile(
+    dialogId: string, filePath: string, fileName: string, mimeType?: string, caption?: string,
+    onProgress?: (fraction: number) => void,
+  ): Promise<void> {
+    const clientMsgId = crypto.randomUUID();
+    if (onProgress) {
+      this.uploadProgressListeners.set(clientMsgId, (loaded, total) => onProgress(total > 0 ? loaded / total : 0));
+    }
+    try {
+      await this.api.sendFileMultipart(dialogId, { path: filePath, fileName, mimeType }, { caption }, {
+        headers: { 'Idempotency-Key': clientMsgId },
+      });
+    } finally {
+      this.uploadProgressListeners.delete(clientMsgId);
+    }
   }
 
-  async sendVoice(dialogId: string, buffer: Buffer, duration: number, waveform?: number[]): Promise<void> {
+  async sendVoice(dialogId: string, buffer: Buffer, duration: number, waveform?: number[], clientMsgId?: string): Promise<void> {
     const data = buffer.toString('base64');
-    await this.request('POST', `/dialogs/${encodeURIComponent(dialogId)}/voice`, {
-      data, duration, waveform,
-    });
+    await this.api.sendVoice(dialogId, { data, duration, waveform, clientMsgId });
   }
 
   // --- Profile ---
@@ -475,9 +590,9 @@ export class TelegramApiClient {
 
     await Promise.allSettled(batch.map(async (userId) => {
       try {
-        const res = await this.requestBuffer('GET', `/profile/${userId}/photo`);
+        const res = await this.api.getProfilePhoto(userId);
         if (res) {
-          const dataUri = `data:${res.mimeType};base64,${res.buffer.toString('base64')}`;
+          const dataUri = `data:${res.contentType};base64,${res.buffer.toString('base64')}`;
           this.profilePhotoCache.set(userId, dataUri);
           result.set(userId, dataUri);
         } else {
@@ -497,7 +612,7 @@ export class TelegramApiClient {
 
   async getUserInfo(userId: string): Promise<any> {
     try {
-      return await this.request('GET', `/profile/${userId}`);
+      return await this.api.getProfile(userId);
     } catch {
       return { name: 'Unknown', id: userId, isBot: false };
     }
@@ -512,7 +627,12 @@ export class TelegramApiClient {
 
   async getGroupMembers(chatId: string, limit = 50): Promise<GroupMember[]> {
     try {
-      return await this.request('GET', `/dialogs/${encodeURIComponent(chatId)}/members?limit=${limit}`);
+      const { members } = await this.api.getMembers(chatId, { limit });
+      return members.map((m) => {
+        const name = [m.firstName, m.lastName].filter(Boolean).join(' ') || 'Unknown';
+        const initials = name.split(' ').map((w) => w[0]).filter(Boolean).slice(0, 2).join('').toUpperCase();
+        return { id: m.userId, name, username: m.username || undefined, initials };
+      });
     } catch {
       return [];
     }
@@ -520,13 +640,12 @@ export class TelegramApiClient {
 
   async getChatInfo(dialogId: string): Promise<ChatInfoResult> {
     try {
-      const info = await this.request('GET', `/dialogs/${encodeURIComponent(dialogId)}/info`);
+      const info = await this.api.getDialogInfo(dialogId);
       return {
-        type: info.type || 'user',
-        title: info.name || info.title || 'Unknown',
-        description: info.about || info.description,
+        type: info.type === 'supergroup' ? 'group' : info.type,
+        title: info.name || 'Unknown',
+        description: info.about,
         memberCount: info.memberCount,
-        photo: info.photo,
         username: info.username,
         isVerified: info.isVerified,
         isForum: info.isForum,
@@ -538,7 +657,14 @@ export class TelegramApiClient {
 
   async getChatMembersForInfo(dialogId: string, limit = 50): Promise<ChatMember[]> {
     try {
-      return await this.request('GET', `/dialogs/${encodeURIComponent(dialogId)}/members?limit=${limit}`);
+      const { members } = await this.api.getMembers(dialogId, { limit });
+      return members.map((m) => ({
+        id: m.userId,
+        name: [m.firstName, m.lastName].filter(Boolean).join(' ') || 'Unknown',
+        username: m.username || undefined,
+        isAdmin: m.role === 'admin' || m.role === 'creator',
+        isOwner: m.role === 'creator',
+      }));
     } catch {
       return [];
     }
@@ -546,7 +672,20 @@ export class TelegramApiClient {
 
   async getSharedMedia(dialogId: string, mediaType: 'photo' | 'video' | 'file' | 'link', limit = 20): Promise<SharedMediaItem[]> {
     try {
-      return await this.request('GET', `/dialogs/${encodeURIComponent(dialogId)}/media?type=${mediaType}&limit=${limit}`);
+      const messages = await this.api.getSharedMedia(dialogId, { type: mediaType, limit });
+      return await Promise.all(messages.map(async (m) => {
+        const item: SharedMediaItem = { messageId: m.id, type: mediaType, timestamp: m.timestamp, fileName: m.fileName, fileSize: m.fileSize };
+        if (mediaType === 'photo' || mediaType === 'video') {
+          try {
+            const thumb = await this.api.getMedia(m.id, { dialogId, thumb: 'small' });
+            if (thumb) item.thumbnailUrl = `data:${thumb.contentType};base64,${thumb.buffer.toString('base64')}`;
+          } catch { /* ignore */ }
+        } else if (mediaType === 'link') {
+          item.url = m.linkPreview?.url || m.text.match(/https?:\/\/\S+/)?.[0];
+          item.title = m.linkPreview?.title || item.url;
+        }
+        return item;
+      }));
     } catch {
       return [];
     }
@@ -661,8 +800,8 @@ export class TelegramApiClient {
       thumbnailUrl: m.thumbnailUrl,
       fileName: m.fileName,
       fileSize: m.fileSize,
-      fileMimeType: m.fileMimeType,
-      duration: m.duration,
+      fileMimeType: m.fileMimeType ?? m.mediaMimeType,
+      duration: m.duration ?? m.mediaDuration,
       isVideoNote: m.isVideoNote,
       waveform: m.waveform,
       replyToId: m.replyToId,
@@ -670,8 +809,14 @@ export class TelegramApiClient {
       replyToSender: m.replyToSender,
       forwardFrom: m.forwardFrom,
       isEdited: m.isEdited,
+      groupedId: m.groupedId,
       entities: m.entities,
       linkPreview: m.linkPreview,
+      poll: m.poll,
+      geo: m.geo,
+      contact: m.contact,
+      action: m.action,
+      replyMarkup: m.replyMarkup,
       reactions: m.reactions?.map((r: any) => ({ emoji: r.emoji, count: r.count, isSelected: r.isSelected || false })),
       status: m.status,
     };
@@ -743,20 +888,20 @@ export class TelegramApiClient {
   // --- Login flow (daemon handles it via HTTP) ---
 
   async isAuthenticated(): Promise<boolean> {
-    const health = await this.request('GET', '/health');
+    const health = await this.api.getHealth();
     return health.connected === true;
   }
 
   async startLogin(phone: string): Promise<{ phoneCodeHash: string }> {
-    return await this.request('POST', '/login/phone', { phone });
+    return await this.api.startLogin({ phone });
   }
 
   async completeLogin(phone: string, code: string, phoneCodeHash: string): Promise<void> {
-    const result = await this.request('POST', '/login/code', { phone, code, phoneCodeHash });
+    const result = await this.api.completeLogin({ phone, code, phoneCodeHash });
     if (result.need2FA) throw new Error('2FA_REQUIRED');
   }
 
   async complete2FA(password: string): Promise<void> {
-    await this.request('POST', '/login/2fa', { password });
+    await this.api.complete2FA({ password });
   }
 }
@@ -1,119 +1,60 @@
 // daemon.ts — HTTP/WS client for oceangram-daemon at localhost:7777
 import { EventEmitter } from 'events';
-import http from 'http';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import WebSocketLib from 'ws';
+import { GetMembersResponse, OceangramClient } from 'oceangram-client';
 import {
   TelegramUser,
   TelegramDialog,
   TelegramMessage,
   DaemonEvent,
   HealthResponse,
+  MediaThumb,
+  PollInfo,
+  BotCallbackAnswer,
 } from './types';
 
 const BASE_URL = 'http://localhost:7777';
-const WS_URL = 'ws://localhost:7777/events';
+// Events the tracker and popup consume; the daemon drops the rest (deletes, presence)
+const WS_EVENT_TYPES = ['newMessage', 'editedMessage', 'readHistory', 'typing', 'reactionUpdate', 'pollUpdate', 'uploadProgress'];
 const AVATAR_DIR: string = path.join(os.homedir(), '.oceangram-tray', 'avatars');
 
 class DaemonClient extends EventEmitter {
   connected: boolean;
+  // Typed daemon API; its accountId picks the account the routes go to
+  private api: OceangramClient;
   private ws: WebSocketLib | null;
   private reconnectAttempts: number;
   private maxReconnectDelay: number;
   private reconnectTimer: ReturnType<typeof setTimeout> | null;
   private healthCheckTimer: ReturnType<typeof setInterval> | null;
+  // Last durable event seq seen — sent as ?since= on reconnect so the daemon replays what we missed
+  private lastSeq: number | null;
+  // clientMsgIds of our own file uploads, whose uploadProgress events are passed on
+  private uploads: Set<string>;
 
   constructor() {
     super();
     this.connected = false;
+    this.api = new OceangramClient({ baseUrl: BASE_URL });
     this.ws = null;
     this.reconnectAttempts = 0;
     this.maxReconnectDelay = 30000;
     this.reconnectTimer = null;
     this.healthCheckTimer = null;
+    this.lastSeq = null;
+    this.uploads = new Set();
 
     // Ensure avatar cache dir
     fs.mkdirSync(AVATAR_DIR, { recursive: true });
   }
 
-  // ── HTTP helpers ──
-
-  private _request(method: string, urlPath: string, body: Record<string, unknown> | null = null): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(urlPath, BASE_URL);
-      const options: http.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        method,
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 15000,
-      };
-
-      const req = http.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        res.on('data', (c: Buffer) => chunks.push(c));
-        res.on('end', () => {
-          const raw = Buffer.concat(chunks);
-          const ct = res.headers['content-type'] || '';
-          if (ct.includes('application/json')) {
-            try {
-              resolve(JSON.parse(raw.toString()));
-            } catch {
-              resolve(raw.toString());
-            }
-          } else {
-            resolve(raw);
-          }
-        });
-      });
-
-      req.on('error', (err) => reject(err));
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('Request timeout'));
-      });
-
-      if (body) req.write(JSON.stringify(body));
-      req.end();
-    });
-  }
-
-  private _requestBinary(urlPath: string): Promise<{ buffer: Buffer; contentType: string }> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(urlPath, BASE_URL);
-      const options: http.RequestOptions = {
-        hostname: url.hostname,
-        port: url.port,
-        path: url.pathname + url.search,
-        method: 'GET',
-        timeout: 15000,
-      };
-
-      const req = http.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        res.on('data', (c: Buffer) => chunks.push(c));
-        res.on('end', () => {
-          const buffer = Buffer.concat(chunks);
-          const contentType = (res.headers['content-type'] || 'application/octet-stream').split(';')[0].trim();
-          resolve({ buffer, contentType });
-        });
-      });
-
-      req.on('error', (err) => reject(err));
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error('Request timeout'));
-      });
-      req.end();
-    });
-  }
-
   async getHealth(): Promise<HealthResponse | null> {
     try {
-      const res = await this._request('GET', '/health') as HealthResponse;
+      const res = await this.api.getHealth();
       this.connected = true;
       this.emit('connection-changed', true);
       return res;
@@ -126,7 +67,7 @@ class DaemonClient extends EventEmitter {
 
   async getMe(): Promise<TelegramUser | null> {
     try {
-      return await this._request('GET', '/me') as TelegramUser;
+      return await this.api.getMe() as TelegramUser;
     } catch {
       return null;
     }
@@ -134,8 +75,7 @@ class DaemonClient extends EventEmitter {
 
   async getDialogs(limit?: number): Promise<TelegramDialog[]> {
     try {
-      const query = limit ? `?limit=${limit}` : '';
-      return await this._request('GET', `/dialogs${query}`) as TelegramDialog[];
+      return await this.api.getDialogs({ limit }) as TelegramDialog[];
     } catch {
       return [];
     }
@@ -143,29 +83,36 @@ class DaemonClient extends EventEmitter {
 
   async getMessages(dialogId: string, limit: number = 30, offsetId?: number): Promise<TelegramMessage[]> {
     try {
-      let url = `/dialogs/${dialogId}/messages?limit=${limit}`;
-      if (offsetId) url += `&offsetId=${offsetId}`;
-      return await this._request('GET', url) as TelegramMessage[];
+      return await this.api.getMessages(dialogId, { limit, offsetId: offsetId || undefined }) as TelegramMessage[];
     } catch {
       return [];
     }
   }
 
-  async getMembers(dialogId: string, limit = 200, q?: string): Promise<{ members: Array<{ userId: string; firstName: string; lastName: string; username: string; role: string; joinDate: number }>; count: number } | null> {
+  async getMembers(dialogId: string, limit = 200, q?: string): Promise<GetMembersResponse | null> {
     try {
-      let url = `/dialogs/${encodeURIComponent(dialogId)}/members?limit=${limit}`;
-      if (q) url += `&q=${encodeURIComponent(q)}`;
-      return await this._request('GET', url) as { members: Array<{ userId: string; firstName: string; lastName: string; username: string; role: string; joinDate: number }>; count: number };
+      return await this.api.getMembers(dialogId, { limit, q });
     } catch {
       return null;
     }
   }
 
+  /**
+   * POST a send, retrying once if the request fails. Both attempts carry the
+   * same clientMsgId, so the daemon posts the message at most once.
+   */
+  private async _send<T>(post: (clientMsgId: string) => Promise<T>): Promise<T> {
+    const clientMsgId = crypto.randomUUID();
+    try {
+      return await post(clientMsgId);
+    } catch {
+      return await post(clientMsgId);
+    }
+  }
+
   async sendMessage(dialogId: string, text: string, replyTo?: number): Promise<unknown> {
     try {
-      const body: Record<string, unknown> = { text };
-      if (replyTo != null) body.replyTo = replyTo;
-      return await this._request('POST', `/dialogs/${dialogId}/messages`, body);
+      return await this._send((clientMsgId) => this.api.sendMessage(dialogId, { text, replyTo: replyTo ?? undefined, clientMsgId }));
     } catch {
       return null;
     }
@@ -173,7 +120,55 @@ class DaemonClient extends EventEmitter {
 
   async uploadFile(dialogId: string, data: string, fileName: string, mimeType?: string, caption?: string): Promise<unknown> {
     try {
-      return await this._request('POST', `/dialogs/${dialogId}/upload`, { data, fileName, mimeType, caption });
+      return await this._send((clientMsgId) => this.api.sendFile(dialogId, { data, fileName, mimeType, caption, clientMsgId }));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Send a file from disk without reading it into memory. Emits
+   * 'upload-progress' (dialogId, fraction) while the daemon receives the file
+   * (first half) and uploads it to Telegram (second half).
+   */
+  async uploadFilePath(dialogId: string, filePath: string, mimeType?: string, caption?: string): Promise<unknown> {
+    const clientMsgId = crypto.randomUUID();
+    this.uploads.add(clientMsgId);
+    try {
+      return await this.api.sendFileMultipart(dialogId, { path: filePath, mimeType }, { caption }, { headers: { 'Idempotency-Key': clientMsgId } });
+    } catch {
+      return null;
+    } finally {
+      this.uploads.delete(clientMsgId);
+    }
+  }
+
+  /** Vote with base64 options from `poll.answers`; an empty list takes the vote back. Returns the new results. */
+  async votePoll(dialogId: string, messageId: number, options: string[]): Promise<PollInfo | null> {
+    try {
+      const res = options.length
+        ? await this.api.votePoll(messageId, { dialogId, options })
+        : await this.api.retractPollVote(messageId, { dialogId });
+      return res.poll;
+    } catch {
+      return null;
+    }
+  }
+
+  async closePoll(dialogId: string, messageId: number): Promise<PollInfo | null> {
+    try {
+      const res = await this.api.closePoll(messageId, { dialogId });
+      return res.poll;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Press an inline keyboard button. `data` is the button's base64 callback data. */
+  async pressBotButton(dialogId: string, messageId: number, data?: string, game = false): Promise<BotCallbackAnswer | null> {
+    try {
+      const answer = await this.api.pressBotButton({ dialogId, messageId, data, game: game || undefined });
+      return { ...answer, alert: answer.alert ?? false };
     } catch {
       return null;
     }
@@ -181,7 +176,7 @@ class DaemonClient extends EventEmitter {
 
   async markRead(dialogId: string, messageId: number): Promise<unknown> {
     try {
-      return await this._request('POST', `/messages/${messageId}/read`, { dialogId });
+      return await this.api.markRead(messageId, { dialogId });
     } catch {
       return null;
     }
@@ -189,7 +184,7 @@ class DaemonClient extends EventEmitter {
 
   async markAllAsRead(dialogId: string): Promise<unknown> {
     try {
-      return await this._request('POST', `/dialogs/${dialogId}/readAll`);
+      return await this.api.markAllAsRead(dialogId);
     } catch {
       return null;
     }
@@ -197,7 +192,7 @@ class DaemonClient extends EventEmitter {
 
   async muteChat(dialogId: string): Promise<unknown> {
     try {
-      return await this._request('POST', `/dialogs/${dialogId}/mute`);
+      return await this.api.muteDialog(dialogId);
     } catch {
       return null;
     }
@@ -205,7 +200,8 @@ class DaemonClient extends EventEmitter {
 
   async unmuteChat(dialogId: string): Promise<unknown> {
     try {
-      return await this._request('POST', `/dialogs/${dialogId}/unmute`);
+      // A zero mute duration unmutes
+      return await this.api.muteDialog(dialogId, { duration: 0 });
     } catch {
       return null;
     }
@@ -222,9 +218,9 @@ class DaemonClient extends EventEmitter {
     } catch { /* not cached */ }
 
     try {
-      const data = await this._request('GET', `/profile/${userId}/photo`);
-      if (Buffer.isBuffer(data) && data.length > 100) {
-        fs.writeFileSync(cachePath, data);
+      const photo = await this.api.getProfilePhoto(userId);
+      if (photo && photo.buffer.length > 100) {
+        fs.writeFileSync(cachePath, photo.buffer);
         return cachePath;
       }
     } catch { /* ignore */ }
@@ -242,11 +238,12 @@ class DaemonClient extends EventEmitter {
     }
   }
 
-  /** Fetch message media (photo, gif, sticker) as data URL. Returns null on error. */
-  async getMedia(dialogId: string, messageId: number): Promise<string | null> {
+  /** Fetch message media (photo, sticker) or a thumbnail of it as data URL. Returns null on error. */
+  async getMedia(dialogId: string, messageId: number, thumb?: MediaThumb): Promise<string | null> {
     try {
-      const { buffer, contentType } = await this._requestBinary(`/media/${messageId}?dialogId=${encodeURIComponent(dialogId)}`);
-      if (buffer.length === 0) return null;
+      const media = await this.api.getMedia(messageId, { dialogId, thumb });
+      if (!media || media.buffer.length === 0) return null;
+      const { buffer, contentType } = media;
       const mime = /^image\/(jpeg|png|gif|webp)$/.test(contentType) ? contentType : 'image/jpeg';
       return `data:${mime};base64,${buffer.toString('base64')}`;
     } catch {
@@ -254,16 +251,22 @@ class DaemonClient extends EventEmitter {
     }
   }
 
+  /** URL of message media for <video> and <audio>, which stream it with Range requests. */
+  getMediaUrl(dialogId: string, messageId: number, thumb?: MediaThumb): string {
+    return this.api.url(`/media/${messageId}`, { dialogId, thumb });
+  }
+
   // ── WebSocket ──
 
   connectWS(): void {
-    console.log('[daemon] connectWS() called, attempting connection to', WS_URL);
+    const wsUrl = this.api.eventsUrl({ types: WS_EVENT_TYPES.join(','), since: this.lastSeq ?? undefined });
+    console.log('[daemon] connectWS() called, attempting connection to', wsUrl);
     if (this.ws) {
       try { this.ws.close(); } catch { /* ignore */ }
     }
 
     try {
-      this.ws = new WebSocketLib(WS_URL);
+      this.ws = new WebSocketLib(wsUrl);
       console.log('[daemon] WebSocket object created');
     } catch (e) {
       console.error('[daemon] WebSocket creation FAILED:', e);
@@ -272,7 +275,7 @@ class DaemonClient extends EventEmitter {
     }
 
     this.ws.on('open', () => {
-      console.log('[daemon] WS connected to', WS_URL);
+      console.log('[daemon] WS connected to', wsUrl);
       this.reconnectAttempts = 0;
       this.connected = true;
       this.emit('connection-changed', true);
@@ -282,6 +285,21 @@ class DaemonClient extends EventEmitter {
     this.ws.on('message', (data: WebSocketLib.RawData) => {
       try {
         const event = JSON.parse(data.toString()) as DaemonEvent;
+        if (event.type === 'replayComplete') {
+          this.lastSeq = event.latestSeq as number;
+          // Replay couldn't cover the gap (log pruned / daemon cache reset) — consumers must refetch
+          if (event.resync) this.emit('resync');
+          return;
+        }
+        if (event.type === 'uploadProgress') {
+          const progress = event.progress;
+          if (progress?.clientMsgId && this.uploads.has(progress.clientMsgId) && progress.total > 0) {
+            const half = progress.loaded / progress.total / 2;
+            this.emit('upload-progress', event.dialogId, progress.phase === 'sending' ? 0.5 + half : half);
+          }
+          return;
+        }
+        if (typeof event.seq === 'number') this.lastSeq = event.seq;
         this.emit('event', event);
         if (event.type) {
           this.emit(event.type, event);
@@ -313,6 +331,29 @@ class DaemonClient extends EventEmitter {
     this.reconnectTimer = setTimeout(() => this.connectWS(), delay);
   }
 
+  // ── Accounts ──
+
+  getAccountId(): string {
+    return this.api.accountId;
+  }
+
+  /** Switch to another daemon account; the event stream restarts from scratch. */
+  setAccount(accountId: string): void {
+    if (accountId === this.api.accountId) return;
+    console.log('[daemon] Switching account to', accountId);
+    this.api.accountId = accountId;
+    this.lastSeq = null;
+    if (this.ws) {
+      // Detach so the old socket's close doesn't schedule a reconnect
+      this.ws.removeAllListeners();
+      this.ws.on('error', () => { /* ignore */ });
+      try { this.ws.close(); } catch { /* ignore */ }
+      this.ws = null;
+      this.connectWS();
+    }
+    this.emit('account-changed', accountId);
+  }
+
   // ── Health check loop ──
 
   startHealthCheck(intervalMs: number = 10000): void {
@@ -43,7 +43,7 @@ export class DaemonManager {
     const bundlePath = this.getBundlePath();
     console.log('[DaemonManager] Starting daemon from:', bundlePath);
 
-    // Use system Node.js (not Electron's) so native addons (better-sqlite3) work
+    // Use system Node.js (not Electron's) so native addons (better-sqlite3-multiple-ciphers) work
     let nodePath = 'node';
     try {
       nodePath = execSync('which node', { encoding: 'utf8' }).trim();
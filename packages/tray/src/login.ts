@@ -6,6 +6,8 @@ const DAEMON_URL = 'http://127.0.0.1:7777';
 let phoneCodeHash: string | null = null;
 let phoneNumber: string | null = null;
 let loginPollTimer: ReturnType<typeof setInterval> | null = null;
+let qrPollTimer: ReturnType<typeof setInterval> | null = null;
+let qrUrl: string | null = null;
 
 // ── Elements ──
 const phoneInput = document.getElementById('phone-input') as HTMLInputElement;
@@ -35,6 +37,8 @@ document.querySelectorAll('.tab').forEach((tab) => {
 
     if (which === 'qr') {
       loadQR();
+    } else {
+      stopQRPoll();
     }
   });
 });
@@ -62,6 +66,9 @@ interface ApiResponse {
   error?: string;
   connected?: boolean;
   id?: string;
+  status?: string;
+  url?: string;
+  expires?: number;
   [key: string]: unknown;
 }
 
@@ -164,49 +171,72 @@ codeInput.addEventListener('keydown', (e: KeyboardEvent) => { if (e.key === 'Ent
 passwordInput.addEventListener('keydown', (e: KeyboardEvent) => { if (e.key === 'Enter') verify2faBtn.click(); });
 
 // ── QR Login ──
-// The daemon doesn't currently expose a /login/qr endpoint.
-// Show the daemon's web-based login page as a fallback.
+// The daemon exports a login token and renders it as a QR code; we poll its
+// status until the phone accepts it (or asks for the 2FA password).
 async function loadQR(): Promise<void> {
+  stopQRPoll();
+  qrUrl = null;
   if (qrDisplay) qrDisplay.style.display = 'none';
   qrLoading.style.display = '';
   hideError(qrError);
 
   try {
-    // Check if daemon is connected (already logged in)
-    const res = await fetch(DAEMON_URL + '/health');
-    const health = await res.json() as ApiResponse;
-
-    if (health.connected) {
-      onLoginSuccess();
-      return;
-    }
-
+    const state = await api('POST', '/login/qr');
+    await showQRState(state);
+    qrPollTimer = setInterval(async () => {
+      try {
+        await showQRState(await api('GET', '/login/qr'));
+      } catch {
+        // daemon restarting; keep polling
+      }
+    }, 2000);
+  } catch (err) {
     qrLoading.style.display = 'none';
+    const message = err instanceof Error ? err.message : String(err);
+    showError(qrError, 'Cannot reach daemon: ' + message);
+  }
+}
 
-    // No /login/qr endpoint — show helpful fallback
+async function showQRState(state: ApiResponse): Promise<void> {
+  if (state.status === 'pending' && state.url && state.url !== qrUrl) {
+    const res = await fetch(`${DAEMON_URL}/login/qr.svg?t=${state.expires}`);
+    if (!res.ok) return;
+    qrUrl = state.url;
+    qrLoading.style.display = 'none';
     if (qrDisplay) {
+      qrDisplay.innerHTML = await res.text();
       qrDisplay.style.display = '';
-      qrDisplay.innerHTML = `
-        <div style="text-align: center; padding: 8px;">
-          <p style="color: #888; font-size: 13px; margin-bottom: 12px;">
-            QR login is not yet available.
-          </p>
-          <p style="color: #666; font-size: 12px;">
-            Use the <strong style="color: #c084fc;">Phone</strong> tab to sign in,<br>
-            or visit the daemon web UI:
-          </p>
-          <div class="qr-fallback">
-            <a href="#" onclick="return false;" style="color: #c084fc; text-decoration: none;">
-              http://127.0.0.1:7777/login
-            </a>
-          </div>
-        </div>
-      `;
+      const svg = qrDisplay.querySelector('svg');
+      if (svg) { svg.setAttribute('width', '200'); svg.setAttribute('height', '200'); }
     }
-  } catch (err) {
+  } else if (state.status === 'need2FA') {
+    // Same password step as the phone flow; /login/2fa completes either
+    stopQRPoll();
+    document.querySelectorAll('.tab').forEach((t) => t.classList.toggle('active', (t as HTMLElement).dataset.tab === 'phone'));
+    document.getElementById('qr-section')!.style.display = 'none';
+    document.getElementById('phone-section')!.style.display = '';
+    showStep('step-2fa');
+    if (state.hint) {
+      const hintEl = document.getElementById('2fa-hint');
+      if (hintEl) {
+        hintEl.textContent = `Hint: ${state.hint}`;
+        hintEl.style.display = 'block';
+      }
+    }
+    passwordInput.focus();
+  } else if (state.status === 'done') {
+    onLoginSuccess();
+  } else if (state.status === 'error') {
+    stopQRPoll();
     qrLoading.style.display = 'none';
-    const message = err instanceof Error ? err.message : String(err);
-    showError(qrError, 'Cannot reach daemon: ' + message);
+    showError(qrError, state.error || 'QR login failed');
+  }
+}
+
+function stopQRPoll(): void {
+  if (qrPollTimer) {
+    clearInterval(qrPollTimer);
+    qrPollTimer = null;
   }
 }
 
@@ -240,6 +270,7 @@ function onLoginSuccess(): void {
     clearInterval(loginPollTimer);
     loginPollTimer = null;
   }
+  stopQRPoll();
 
   // Notify main process via the preload bridge
   if (window.oceangram && window.oceangram.loginSuccess) {
@@ -21,7 +21,7 @@ import https from 'https';
 import fs from 'fs';
 import os from 'os';
 import { DaemonManager } from './daemonManager';
-import { NewMessageEvent, AppSettings, WhitelistEntry, TelegramDialog } from './types';
+import { NewMessageEvent, AppSettings, WhitelistEntry, TelegramDialog, ReactionChip, MediaThumb, PollInfo, TelegramMessage, BotCallbackAnswer } from './types';
 
 // Module types (loaded after app ready)
 type DaemonModule = typeof import('./daemon');
@@ -256,6 +256,7 @@ function initializeApp(): void {
   setupIPC();
 
   // Start daemon connection & message tracking
+  daemon.setAccount(whitelist.getSettings().daemonAccount || 'default');
   daemon.start();
   tracker.start();
 
@@ -268,6 +269,27 @@ function initializeApp(): void {
       popupWindow.webContents.send('typing', { dialogId: e.dialogId, userId: e.userId, action: e.action });
     }
   });
+  daemon.on('reactionUpdate', (e: { dialogId: string; messageId: number; reactions: ReactionChip[] }) => {
+    if (popupWindow && !popupWindow.isDestroyed()) {
+      popupWindow.webContents.send('reaction-update', { dialogId: e.dialogId, messageId: e.messageId, reactions: e.reactions });
+    }
+  });
+  daemon.on('pollUpdate', (e: { dialogId: string; messageId: number; poll: PollInfo }) => {
+    if (popupWindow && !popupWindow.isDestroyed()) {
+      popupWindow.webContents.send('poll-update', { dialogId: e.dialogId, messageId: e.messageId, poll: e.poll });
+    }
+  });
+  // Bots answer button presses by editing their message
+  daemon.on('editedMessage', (e: { dialogId: string; message: TelegramMessage }) => {
+    if (popupWindow && !popupWindow.isDestroyed()) {
+      popupWindow.webContents.send('message-edited', { dialogId: e.dialogId, message: e.message });
+    }
+  });
+  daemon.on('upload-progress', (dialogId: string, fraction: number) => {
+    if (popupWindow && !popupWindow.isDestroyed()) {
+      popupWindow.webContents.send('upload-progress', { dialogId, fraction });
+    }
+  });
   tracker.on('new-message', (data: NewMessageEvent) => console.log('[main] tracker emitted new-message, dialogId:', data.dialogId));
 
   // Start OpenClaw (feature-flagged — no-op if disabled)
@@ -632,6 +654,23 @@ function setupIPC(): void {
     return await daemon!.uploadFile(dialogId, data, fileName, mimeType, caption);
   });
 
+  ipcMain.handle('send-file-path', async (_: IpcMainInvokeEvent, dialogId: string, filePath: string, mimeType?: string, caption?: string) => {
+    tracker!.recordSent(dialogId);
+    return await daemon!.uploadFilePath(dialogId, filePath, mimeType, caption);
+  });
+
+  ipcMain.handle('vote-poll', async (_: IpcMainInvokeEvent, dialogId: string, messageId: number, options: string[]) => {
+    return await daemon!.votePoll(dialogId, messageId, options);
+  });
+
+  ipcMain.handle('close-poll', async (_: IpcMainInvokeEvent, dialogId: string, messageId: number) => {
+    return await daemon!.closePoll(dialogId, messageId);
+  });
+
+  ipcMain.handle('press-bot-button', async (_: IpcMainInvokeEvent, dialogId: string, messageId: number, data?: string, game?: boolean): Promise<BotCallbackAnswer | null> => {
+    return await daemon!.pressBotButton(dialogId, messageId, data, game);
+  });
+
   ipcMain.handle('mark-read', async (_: IpcMainInvokeEvent, dialogId: string, messageId?: number) => {
     tracker!.markRead(dialogId, messageId);
     return true;
@@ -649,8 +688,12 @@ function setupIPC(): void {
     return await daemon!.getProfilePhotoBase64(userId);
   });
 
-  ipcMain.handle('get-media', async (_: IpcMainInvokeEvent, dialogId: string, messageId: number) => {
-    return await daemon!.getMedia(dialogId, messageId);
+  ipcMain.handle('get-media', async (_: IpcMainInvokeEvent, dialogId: string, messageId: number, thumb?: MediaThumb) => {
+    return await daemon!.getMedia(dialogId, messageId, thumb);
+  });
+
+  ipcMain.handle('get-media-url', (_: IpcMainInvokeEvent, dialogId: string, messageId: number, thumb?: MediaThumb) => {
+    return daemon!.getMediaUrl(dialogId, messageId, thumb);
   });
 
   ipcMain.handle('get-members', async (_: IpcMainInvokeEvent, dialogId: string, limit?: number, q?: string) => {
@@ -698,6 +741,9 @@ function setupIPC(): void {
 
   ipcMain.handle('update-settings', (_: IpcMainInvokeEvent, settings: Partial<AppSettings>) => {
     whitelist!.updateSettings(settings);
+    if (settings.daemonAccount !== undefined) {
+      daemon!.setAccount(settings.daemonAccount || 'default');
+    }
     // Reload OpenClaw if its settings changed
     if (openclaw && (settings.openclawEnabled !== undefined || settings.openclawToken !== undefined || settings.openclawUrl !== undefined)) {
       openclaw.reload();
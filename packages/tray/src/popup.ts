@@ -31,6 +31,22 @@
     source: 'whitelist' | 'active' | 'direct';
   }
 
+  interface PollLike {
+    question: string;
+    answers: { text: string; option: string; voters?: number; chosen?: boolean; correct?: boolean }[];
+    closed: boolean;
+    quiz: boolean;
+    multipleChoice: boolean;
+    publicVoters?: boolean;
+    totalVoters?: number;
+    solution?: string;
+  }
+
+  interface ReplyMarkupLike {
+    type: string;
+    rows?: { type: string; text: string; data?: string; url?: string; copyText?: string }[][];
+  }
+
   interface MessageLike {
     id?: number;
     text?: string;
@@ -44,10 +60,17 @@
     isOutgoing?: boolean;
     dialogId?: string;
     chatId?: string;
-    mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif';
+    mediaType?: 'photo' | 'video' | 'voice' | 'file' | 'sticker' | 'gif' | 'poll' | 'geo' | 'contact';
     mediaWidth?: number;
     mediaHeight?: number;
     replyToId?: number;
+    poll?: PollLike;
+    geo?: { lat: number; long: number; title?: string };
+    contact?: { firstName: string; lastName?: string; phoneNumber: string };
+    action?: { type: string; title?: string };
+    reactions?: { emoji: string; count: number; isSelected?: boolean }[];
+    groupedId?: string;
+    replyMarkup?: ReplyMarkupLike;
   }
 
   // DOM refs
@@ -101,34 +124,83 @@
     return div.innerHTML;
   }
 
+  function fitMedia(el: HTMLElement, width?: number, height?: number): void {
+    if (width != null && height != null && width > 0 && height > 0) {
+      const maxW = 220;
+      const maxH = 180;
+      const r = Math.min(maxW / width, maxH / height, 1);
+      el.style.width = `${Math.round(width * r)}px`;
+      el.style.height = `${Math.round(height * r)}px`;
+    } else {
+      el.style.maxWidth = '220px';
+      el.style.maxHeight = '180px';
+    }
+  }
+
+  /** Photos load as a 320px preview; the full size is fetched when expanded. */
   async function loadMessageImage(
     container: HTMLElement,
     dialogId: string,
     messageId: number,
     width?: number,
     height?: number,
+    preview = false,
   ): Promise<void> {
     const placeholder = container.querySelector('.msg-media-placeholder');
     try {
-      const dataUrl = await api.getMedia(dialogId, messageId);
+      const dataUrl = await api.getMedia(dialogId, messageId, preview ? 'medium' : undefined);
       if (!dataUrl) return;
       const img = document.createElement('img');
       img.src = dataUrl;
       img.alt = '';
       img.loading = 'lazy';
-      if (width != null && height != null && width > 0 && height > 0) {
-        const maxW = 220;
-        const maxH = 180;
-        const r = Math.min(maxW / width, maxH / height, 1);
-        img.style.width = `${Math.round(width * r)}px`;
-        img.style.height = `${Math.round(height * r)}px`;
+      fitMedia(img, width, height);
+      if (placeholder) placeholder.remove();
+      container.appendChild(img);
+      if (!preview) container.dataset.loadedUrl = dataUrl;
+    } catch {
+      if (placeholder) (placeholder as HTMLElement).textContent = 'Failed to load';
+    }
+  }
+
+  /** Videos stream from the daemon, which serves Range requests so they can be scrubbed. GIFs loop muted. */
+  async function loadMessageVideo(
+    container: HTMLElement,
+    dialogId: string,
+    messageId: number,
+    isGif: boolean,
+    width?: number,
+    height?: number,
+  ): Promise<void> {
+    const placeholder = container.querySelector('.msg-media-placeholder');
+    try {
+      const [src, poster] = await Promise.all([
+        api.getMediaUrl(dialogId, messageId),
+        api.getMediaUrl(dialogId, messageId, 'medium'),
+      ]);
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.poster = poster;
+      video.src = src;
+      if (isGif) {
+        video.autoplay = true;
+        video.loop = true;
+        video.muted = true;
+        video.playsInline = true;
       } else {
-        img.style.maxWidth = '220px';
-        img.style.maxHeight = '180px';
+        video.controls = true;
       }
+      fitMedia(video, width, height);
+      video.addEventListener('click', (e) => e.stopPropagation());
+      video.addEventListener('error', () => {
+        video.remove();
+        if (placeholder) {
+          (placeholder as HTMLElement).textContent = 'Failed to load';
+          container.appendChild(placeholder);
+        }
+      });
       if (placeholder) placeholder.remove();
-      container.appendChild(img);
-      (container as HTMLElement).dataset.loadedUrl = dataUrl;
+      container.appendChild(video);
     } catch {
       if (placeholder) (placeholder as HTMLElement).textContent = 'Failed to load';
     }
@@ -849,6 +921,73 @@
 
   // ── Message rendering ──
 
+  /** Grid of an album's photos and videos; the cells load like single media. */
+  function albumHtml(members: MessageLike[], dialogId: string): string {
+    const cells = members.map((m) => {
+      const type = m.mediaType ?? (m as any).media?.type;
+      if (type === 'video' || type === 'gif') {
+        return `<div class="msg-media video" data-msg-id="${m.id || 0}" data-dialog-id="${escapeHtml(dialogId)}" data-media-type="${type}">
+          <div class="msg-media-placeholder">🎬</div>
+        </div>`;
+      }
+      if (type === 'photo') {
+        return `<div class="msg-media img" data-msg-id="${m.id || 0}" data-dialog-id="${escapeHtml(dialogId)}" title="Click to expand">
+          <div class="msg-media-placeholder">📷</div>
+        </div>`;
+      }
+      return `<div class="msg-album-file">📎 ${escapeHtml((m as any).fileName || 'File')}</div>`;
+    });
+    return `<div class="msg-album${members.length % 2 ? ' odd' : ''}">${cells.join('')}</div>`;
+  }
+
+  /** A poll you can vote in; results show once you have voted or it closed, as in Telegram. */
+  function pollHtml(poll: PollLike, isOutgoing: boolean): string {
+    const total = poll.totalVoters || 0;
+    const voted = poll.answers.some((a) => a.chosen);
+    const votable = !voted && !poll.closed;
+    const kind = [poll.closed ? 'Final results' : poll.quiz ? 'Quiz' : 'Poll'];
+    if (!poll.publicVoters) kind.push('anonymous');
+    if (poll.multipleChoice) kind.push('multiple answers');
+
+    const answers = poll.answers.map((a) => {
+      const pct = (voted || poll.closed) && total && a.voters !== undefined ? Math.round((a.voters * 100) / total) : null;
+      const cls = `poll-answer${a.chosen ? ' chosen' : ''}${a.correct ? ' correct' : ''}`;
+      const bar = pct !== null ? `<div class="poll-bar" style="width:${pct}%"></div><span class="poll-pct">${pct}%</span>` : '';
+      return `<div class="${cls}" data-option="${escapeHtml(a.option)}">${bar}<span class="poll-text">${escapeHtml(a.text)}</span></div>`;
+    }).join('');
+
+    let actions = '';
+    if (votable && poll.multipleChoice) actions += '<button class="poll-action" data-action="vote" disabled>Vote</button>';
+    if (voted && !poll.closed && !poll.quiz) actions += '<button class="poll-action" data-action="retract">Retract</button>';
+    if (isOutgoing && !poll.closed) actions += '<button class="poll-action" data-action="close">Stop poll</button>';
+
+    return `<div class="msg-poll${votable ? ' votable' : ''}" data-multiple="${poll.multipleChoice ? '1' : '0'}">
+      <div class="poll-question">📊 ${escapeHtml(poll.question)}</div>
+      <div class="poll-kind">${kind.join(' · ')}</div>
+      ${answers}
+      ${voted && poll.quiz && poll.solution ? `<div class="poll-solution">💡 ${escapeHtml(poll.solution)}</div>` : ''}
+      <div class="poll-footer"><span class="poll-total">${total} ${total === 1 ? 'vote' : 'votes'}</span>${actions}</div>
+    </div>`;
+  }
+
+  // Buttons pressed here; the rest (switch inline, user profile, ...) show but do nothing
+  const KEYBOARD_ACTIONS = new Set(['callback', 'game', 'text', 'copy']);
+
+  /** A bot's keyboard under its message. Links open in the browser. */
+  function keyboardHtml(markup: ReplyMarkupLike | undefined): string {
+    if (!markup?.rows?.length) return '';
+    const rows = markup.rows.map((row) => `<div class="kb-row">${row.map((btn) => {
+      if (btn.url && /^https?:/.test(btn.url)) {
+        return `<a class="kb-btn" href="${escapeHtml(btn.url)}" target="_blank" rel="noopener" title="${escapeHtml(btn.url)}">${escapeHtml(btn.text)} ↗</a>`;
+      }
+      if (KEYBOARD_ACTIONS.has(btn.type)) {
+        return `<button class="kb-btn" data-type="${escapeHtml(btn.type)}" data-data="${escapeHtml(btn.data || '')}" data-copy="${escapeHtml(btn.copyText || '')}">${escapeHtml(btn.text)}</button>`;
+      }
+      return `<span class="kb-btn inert" title="Not supported here">${escapeHtml(btn.text)}</span>`;
+    }).join('')}</div>`);
+    return `<div class="msg-keyboard">${rows.join('')}</div>`;
+  }
+
   function renderMessages(messages: MessageLike[], preserveTyping = true): void {
     const wasTyping = preserveTyping && messagesScrollEl.contains(typingBubble);
     const sorted = [...messages].sort((a, b) => {
@@ -857,11 +996,26 @@
       return tA - tB;
     });
 
+    // Album members arrive as separate messages; the first of each run renders them all
+    const albums = new Map<MessageLike, MessageLike[]>();
+    for (let i = 0, first: MessageLike | null = null; i < sorted.length; i++) {
+      const msg = sorted[i];
+      if (msg.groupedId && first?.groupedId === msg.groupedId) {
+        albums.get(first)!.push(msg);
+      } else {
+        first = msg.groupedId ? msg : null;
+        if (first) albums.set(first, [first]);
+      }
+    }
+    const albumMembers = new Set([...albums.values()].flatMap((members) => (members.length > 1 ? members.slice(1) : [])));
+
     let html = '';
     let lastDate = '';
     let prevSenderId = '';
 
     for (const msg of sorted) {
+      if (albumMembers.has(msg)) continue;
+      const album = albums.get(msg);
       const date = formatDate(msg.date || msg.timestamp);
       if (date !== lastDate) {
         html += `<div class="date-separator"><span>${date}</span></div>`;
@@ -871,7 +1025,9 @@
 
       const fromId = String(msg.fromId || msg.senderId || '');
       const isOutgoing = msg.isOutgoing === true || fromId === myId;
-      const text = formatText(msg.text || msg.message || '');
+      // An album's caption is on whichever member has one
+      const captioned = album?.find((m) => (m.text || m.message || '').trim()) || msg;
+      const text = formatText(captioned.text || captioned.message || '');
       const time = formatTime(msg.date || msg.timestamp);
       const msgId = msg.id || 0;
 
@@ -901,24 +1057,36 @@
       prevSenderId = fromId;
 
       const mediaType = (msg as MessageLike).mediaType ?? (msg as any).media?.type;
-      const isImageMedia = mediaType === 'photo' || mediaType === 'gif' || mediaType === 'sticker';
+      const isImageMedia = mediaType === 'photo' || mediaType === 'sticker';
+      const isVideoMedia = mediaType === 'video' || mediaType === 'gif';
       const w = (msg as MessageLike).mediaWidth ?? (msg as any).mediaWidth;
       const h = (msg as MessageLike).mediaHeight ?? (msg as any).mediaHeight;
       const hasCaption = (text || '').trim().length > 0;
+      const isPoll = mediaType === 'poll' && !!msg.poll;
 
       let mediaHtml = '';
-      if (isImageMedia && msgId && selectedDialogId) {
+      if (album && album.length > 1 && selectedDialogId) {
+        mediaHtml = albumHtml(album, selectedDialogId);
+      } else if (isPoll) {
+        mediaHtml = pollHtml(msg.poll!, isOutgoing);
+      } else if (isImageMedia && msgId && selectedDialogId) {
         mediaHtml = `<div class="msg-media img" data-msg-id="${msgId}" data-dialog-id="${escapeHtml(selectedDialogId)}" title="Click to expand">
           <div class="msg-media-placeholder">📷</div>
         </div>`;
+      } else if (isVideoMedia && msgId && selectedDialogId) {
+        mediaHtml = `<div class="msg-media video" data-msg-id="${msgId}" data-dialog-id="${escapeHtml(selectedDialogId)}" data-media-type="${mediaType}">
+          <div class="msg-media-placeholder">🎬</div>
+        </div>`;
       }
+      const groupedAttr = msg.groupedId ? ` data-grouped-id="${escapeHtml(msg.groupedId)}"` : '';
 
       html += `
-        <div class="message ${isOutgoing ? 'outgoing' : 'incoming'}" data-msg-id="${msgId}" data-from-id="${escapeHtml(fromId)}">
+        <div class="message ${isOutgoing ? 'outgoing' : 'incoming'}" data-msg-id="${msgId}" data-from-id="${escapeHtml(fromId)}"${groupedAttr}>
           ${replyHtml}
           ${senderHtml}
           ${mediaHtml}
-          ${hasCaption || !isImageMedia ? `<div class="text">${text}</div>` : ''}
+          ${hasCaption || !(isImageMedia || isVideoMedia || album || isPoll) ? `<div class="text">${text}</div>` : ''}
+          ${keyboardHtml(msg.replyMarkup)}
           <div class="time">${time}</div>
         </div>
       `;
@@ -933,21 +1101,38 @@
       const dialogId = mediaEl.dataset.dialogId;
       if (!msgId || !dialogId) return;
       const msg = sorted.find((m) => m.id === msgId);
-      const w = msg ? ((msg as MessageLike).mediaWidth ?? (msg as any).mediaWidth) : undefined;
-      const h = msg ? ((msg as MessageLike).mediaHeight ?? (msg as any).mediaHeight) : undefined;
-      loadMessageImage(mediaEl, dialogId, msgId, w, h);
+      // Album cells are sized by the grid
+      const fit = msg && !mediaEl.closest('.msg-album');
+      const w = fit ? ((msg as MessageLike).mediaWidth ?? (msg as any).mediaWidth) : undefined;
+      const h = fit ? ((msg as MessageLike).mediaHeight ?? (msg as any).mediaHeight) : undefined;
+      const isPhoto = msg ? ((msg as MessageLike).mediaType ?? (msg as any).media?.type) === 'photo' : false;
+      loadMessageImage(mediaEl, dialogId, msgId, w, h, isPhoto);
       mediaEl.addEventListener('click', async (e) => {
         e.stopPropagation();
-        const src = mediaEl.dataset.loadedUrl ?? (mediaEl.querySelector('img') as HTMLImageElement)?.src;
+        const src = mediaEl.dataset.loadedUrl;
         if (src) {
           openImageFullscreen(src);
         } else {
           const dataUrl = await api.getMedia(dialogId, msgId);
-          if (dataUrl) openImageFullscreen(dataUrl);
+          if (!dataUrl) return;
+          mediaEl.dataset.loadedUrl = dataUrl;
+          openImageFullscreen(dataUrl);
         }
       });
     });
 
+    messagesScrollEl.querySelectorAll('.msg-media.video').forEach((el) => {
+      const mediaEl = el as HTMLElement;
+      const msgId = parseInt(mediaEl.dataset.msgId || '0', 10);
+      const dialogId = mediaEl.dataset.dialogId;
+      if (!msgId || !dialogId) return;
+      const msg = sorted.find((m) => m.id === msgId);
+      const fit = msg && !mediaEl.closest('.msg-album');
+      const w = fit ? ((msg as MessageLike).mediaWidth ?? (msg as any).mediaWidth) : undefined;
+      const h = fit ? ((msg as MessageLike).mediaHeight ?? (msg as any).mediaHeight) : undefined;
+      loadMessageVideo(mediaEl, dialogId, msgId, mediaEl.dataset.mediaType === 'gif', w, h);
+    });
+
     // Bind sender context menu + load avatars
     messagesScrollEl.querySelectorAll('.sender-block').forEach((el) => {
       const block = el as HTMLElement;
@@ -979,9 +1164,14 @@
   }
 
   function appendMessage(msg: MessageLike): void {
+    // A later album member joins the grid its album already has on screen
+    if (msg.groupedId && selectedDialogId && messagesScrollEl.querySelector(`.message[data-grouped-id="${msg.groupedId}"]`)) {
+      renderMessages([...(messageCache[selectedDialogId] || []), msg]);
+      return;
+    }
     const fromId = String(msg.fromId || msg.senderId || '');
     const isOutgoing = msg.isOutgoing === true || fromId === myId;
-    const text = formatText(msg.text || msg.message || '');
+    const text = formatText(msg.text || msg.message || contentSummary(msg));
     const time = formatTime(msg.date || msg.timestamp);
     const msgId = msg.id || 0;
 
@@ -1022,42 +1212,57 @@
     }
 
     const mediaType = msg.mediaType ?? (msg as any).media?.type;
-    const isImageMedia = mediaType === 'photo' || mediaType === 'gif' || mediaType === 'sticker';
+    const isImageMedia = mediaType === 'photo' || mediaType === 'sticker';
+    const isVideoMedia = mediaType === 'video' || mediaType === 'gif';
     const w = msg.mediaWidth ?? (msg as any).mediaWidth;
     const h = msg.mediaHeight ?? (msg as any).mediaHeight;
     const hasCaption = (text || '').trim().length > 0;
+    const isPoll = mediaType === 'poll' && !!msg.poll;
 
     let mediaHtml = '';
-    if (isImageMedia && msgId && selectedDialogId) {
+    if (isPoll) {
+      mediaHtml = pollHtml(msg.poll!, isOutgoing);
+    } else if (isImageMedia && msgId && selectedDialogId) {
       mediaHtml = `<div class="msg-media img" data-msg-id="${msgId}" data-dialog-id="${escapeHtml(selectedDialogId)}" title="Click to expand">
         <div class="msg-media-placeholder">📷</div>
       </div>`;
+    } else if (isVideoMedia && msgId && selectedDialogId) {
+      mediaHtml = `<div class="msg-media video" data-msg-id="${msgId}" data-dialog-id="${escapeHtml(selectedDialogId)}">
+        <div class="msg-media-placeholder">🎬</div>
+      </div>`;
     }
 
     div.innerHTML = `
       ${replyHtml}
       ${senderHtml}
       ${mediaHtml}
-      ${hasCaption || !isImageMedia ? `<div class="text">${text}</div>` : ''}
+      ${!isPoll && (hasCaption || !(isImageMedia || isVideoMedia)) ? `<div class="text">${text}</div>` : ''}
+      ${keyboardHtml(msg.replyMarkup)}
+      ${renderReactions(msg.reactions)}
       <div class="time">${time}</div>
     `;
 
     if (isImageMedia && msgId && selectedDialogId) {
       const mediaEl = div.querySelector('.msg-media.img') as HTMLElement;
       if (mediaEl) {
-        loadMessageImage(mediaEl, selectedDialogId, msgId, w, h);
+        const dialogId = selectedDialogId;
+        loadMessageImage(mediaEl, dialogId, msgId, w, h, mediaType === 'photo');
         mediaEl.addEventListener('click', async (e) => {
           e.stopPropagation();
-          const src = mediaEl.dataset.loadedUrl ?? (mediaEl.querySelector('img') as HTMLImageElement)?.src;
+          const src = mediaEl.dataset.loadedUrl;
           if (src) {
             openImageFullscreen(src);
           } else {
-            if (!selectedDialogId) return;
-            const dataUrl = await api.getMedia(selectedDialogId, msgId);
-            if (dataUrl) openImageFullscreen(dataUrl);
+            const dataUrl = await api.getMedia(dialogId, msgId);
+            if (!dataUrl) return;
+            mediaEl.dataset.loadedUrl = dataUrl;
+            openImageFullscreen(dataUrl);
           }
         });
       }
+    } else if (isVideoMedia && msgId && selectedDialogId) {
+      const mediaEl = div.querySelector('.msg-media.video') as HTMLElement;
+      if (mediaEl) loadMessageVideo(mediaEl, selectedDialogId, msgId, mediaType === 'gif', w, h);
     }
 
     const senderBlock = div.querySelector('.sender-block') as HTMLElement | null;
@@ -1222,6 +1427,23 @@
 
   // ── Formatting ──
 
+  /** One-line stand-in for messages whose content isn't text (polls, locations, service messages). */
+  function contentSummary(msg: MessageLike): string {
+    if (msg.action) return msg.action.title ? `[${msg.action.type}: ${msg.action.title}]` : `[${msg.action.type}]`;
+    if (msg.poll) return `📊 ${msg.poll.question}`;
+    if (msg.geo) return `📍 ${msg.geo.title || `${msg.geo.lat.toFixed(5)}, ${msg.geo.long.toFixed(5)}`}`;
+    if (msg.contact) return `👤 ${[msg.contact.firstName, msg.contact.lastName].filter(Boolean).join(' ')} ${msg.contact.phoneNumber}`;
+    return '';
+  }
+
+  function renderReactions(reactions: MessageLike['reactions']): string {
+    if (!reactions?.length) return '';
+    const chips = reactions.map((r) =>
+      `<span class="reaction-chip${r.isSelected ? ' selected' : ''}">${escapeHtml(r.emoji)} ${r.count}</span>`
+    ).join('');
+    return `<div class="reactions">${chips}</div>`;
+  }
+
   function formatText(text: string): string {
     if (!text) return '';
     let html = escapeHtml(text);
@@ -1278,13 +1500,25 @@
         isOutgoing: true,
       };
       appendMessage(optimisticFile);
-      const cache = messageCache[selectedDialogId] || [];
-      messageCache[selectedDialogId] = [...cache, optimisticFile];
+      const optimisticEl = messagesScrollEl.lastElementChild as HTMLElement | null;
+      const dialogId = selectedDialogId;
+      const cache = messageCache[dialogId] || [];
+      messageCache[dialogId] = [...cache, optimisticFile];
+      // Dropped files are streamed from disk with progress; pasted images have no path
+      const filePath = api.getPathForFile(file);
       try {
-        const base64 = await fileToBase64(file);
-        await api.sendFile(selectedDialogId, base64, file.name, file.type, text || undefined);
+        if (filePath) {
+          if (optimisticEl) showUploadProgress(dialogId, optimisticEl, 0);
+          await api.sendFilePath(dialogId, filePath, file.type, text || undefined);
+        } else {
+          const base64 = await fileToBase64(file);
+          await api.sendFile(dialogId, base64, file.name, file.type, text || undefined);
+        }
       } catch (err) {
         console.error('File send failed:', err);
+      } finally {
+        uploadBars.get(dialogId)?.remove();
+        uploadBars.delete(dialogId);
       }
     } else {
       const optimisticMsg = {
@@ -1311,6 +1545,142 @@
     composerInput.focus();
   }
 
+  // Progress bars on the optimistic messages of files being sent, by dialog
+  const uploadBars = new Map<string, HTMLElement>();
+
+  function showUploadProgress(dialogId: string, messageEl: HTMLElement, fraction: number): void {
+    let bar = uploadBars.get(dialogId);
+    if (!bar) {
+      bar = document.createElement('div');
+      bar.className = 'upload-progress';
+      bar.innerHTML = '<div class="upload-progress-bar"></div>';
+      messageEl.insertBefore(bar, messageEl.querySelector('.time'));
+      uploadBars.set(dialogId, bar);
+    }
+    (bar.firstElementChild as HTMLElement).style.width = `${Math.round(Math.min(1, fraction) * 100)}%`;
+  }
+
+  /** Store new poll results and redraw the poll if it's on screen. */
+  function updatePoll(tabDialogId: string, messageId: number, poll: PollLike): void {
+    const cachedMsg = messageCache[tabDialogId]?.find((m) => m.id === messageId);
+    if (cachedMsg) (cachedMsg as MessageLike).poll = poll;
+    if (tabDialogId !== selectedDialogId) return;
+    const msgEl = messagesScrollEl.querySelector(`.message[data-msg-id="${messageId}"]`);
+    const pollEl = msgEl?.querySelector('.msg-poll');
+    if (pollEl) pollEl.outerHTML = pollHtml(poll, msgEl!.classList.contains('outgoing'));
+  }
+
+  async function submitPoll(pollEl: HTMLElement, messageId: number, action: 'vote' | 'close', options: string[] = []): Promise<void> {
+    const dialogId = selectedDialogId;
+    if (!dialogId || !messageId) return;
+    pollEl.classList.add('pending');
+    const poll = action === 'close' ? await api.closePoll(dialogId, messageId) : await api.votePoll(dialogId, messageId, options);
+    if (poll) updatePoll(dialogId, messageId, poll);
+    else pollEl.classList.remove('pending');
+  }
+
+  // Poll answers and buttons, for every poll on screen
+  messagesScrollEl.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const pollEl = target.closest('.msg-poll') as HTMLElement | null;
+    if (!pollEl || pollEl.classList.contains('pending')) return;
+    const messageId = parseInt((pollEl.closest('.message') as HTMLElement | null)?.dataset.msgId || '0', 10);
+    const answer = target.closest('.poll-answer') as HTMLElement | null;
+    const action = (target.closest('.poll-action') as HTMLElement | null)?.dataset.action;
+
+    if (answer && pollEl.classList.contains('votable')) {
+      if (pollEl.dataset.multiple !== '1') {
+        submitPoll(pollEl, messageId, 'vote', [answer.dataset.option || '']);
+        return;
+      }
+      answer.classList.toggle('selected');
+      const voteBtn = pollEl.querySelector('.poll-action[data-action="vote"]') as HTMLButtonElement | null;
+      if (voteBtn) voteBtn.disabled = !pollEl.querySelector('.poll-answer.selected');
+    } else if (action === 'vote') {
+      const options = Array.from(pollEl.querySelectorAll('.poll-answer.selected')).map((a) => (a as HTMLElement).dataset.option || '');
+      submitPoll(pollEl, messageId, 'vote', options);
+    } else if (action === 'retract') {
+      submitPoll(pollEl, messageId, 'vote');
+    } else if (action === 'close') {
+      submitPoll(pollEl, messageId, 'close');
+    }
+  });
+
+  api.onPollUpdate((data) => {
+    const tabDialogId = findMatchingTab(data.dialogId)?.dialogId;
+    if (tabDialogId) updatePoll(tabDialogId, data.messageId, data.poll);
+  });
+
+  let toastTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** A notice over the messages. Alerts stay until clicked. */
+  function showToast(text: string, alert = false): void {
+    let toast = document.getElementById('toast');
+    if (!toast) {
+      toast = document.createElement('div');
+      toast.id = 'toast';
+      toast.className = 'toast';
+      toast.addEventListener('click', () => toast!.classList.remove('visible'));
+      messagesEl.appendChild(toast);
+    }
+    toast.textContent = text;
+    toast.classList.toggle('alert', alert);
+    toast.classList.add('visible');
+    if (toastTimer) clearTimeout(toastTimer);
+    toastTimer = alert ? null : setTimeout(() => toast!.classList.remove('visible'), 3000);
+  }
+
+  // Bot keyboard buttons
+  messagesScrollEl.addEventListener('click', async (e) => {
+    const btn = (e.target as HTMLElement).closest('button.kb-btn') as HTMLButtonElement | null;
+    if (!btn || btn.classList.contains('pending')) return;
+    const type = btn.dataset.type;
+    if (type === 'text') {
+      composerInput.value = btn.textContent || '';
+      sendMessage();
+      return;
+    }
+    if (type === 'copy') {
+      await navigator.clipboard.writeText(btn.dataset.copy || '');
+      showToast('Copied');
+      return;
+    }
+    const dialogId = selectedDialogId;
+    const messageId = parseInt((btn.closest('.message') as HTMLElement | null)?.dataset.msgId || '0', 10);
+    if (!dialogId || !messageId) return;
+    btn.classList.add('pending');
+    const answer = await api.pressBotButton(dialogId, messageId, btn.dataset.data || undefined, type === 'game');
+    btn.classList.remove('pending');
+    if (!answer) {
+      showToast('The bot did not respond');
+      return;
+    }
+    if (answer.message) showToast(answer.message, answer.alert);
+    if (answer.url) window.open(answer.url);
+  });
+
+  // Bots answer button presses by editing the message the buttons are on
+  api.onMessageEdited((data) => {
+    const tabDialogId = findMatchingTab(data.dialogId)?.dialogId;
+    const cachedMsg = tabDialogId ? messageCache[tabDialogId]?.find((m) => m.id === data.message.id) : undefined;
+    if (!cachedMsg) return;
+    Object.assign(cachedMsg, data.message);
+    if (!('replyMarkup' in data.message)) delete cachedMsg.replyMarkup;
+    if (tabDialogId !== selectedDialogId) return;
+    const msgEl = messagesScrollEl.querySelector(`.message[data-msg-id="${data.message.id}"]`);
+    if (!msgEl) return;
+    const textEl = msgEl.querySelector('.text');
+    if (textEl) textEl.innerHTML = formatText(cachedMsg.text || cachedMsg.message || '');
+    msgEl.querySelector('.msg-keyboard')?.remove();
+    const keyboard = keyboardHtml(cachedMsg.replyMarkup);
+    if (keyboard) msgEl.querySelector('.reactions, .time')?.insertAdjacentHTML('beforebegin', keyboard);
+  });
+
+  api.onUploadProgress((data) => {
+    const bar = uploadBars.get(data.dialogId);
+    if (bar?.parentElement) showUploadProgress(data.dialogId, bar.parentElement, data.fraction);
+  });
+
   // ── Event handlers ──
 
   sendBtn.addEventListener('click', sendMessage);
@@ -1675,6 +2045,20 @@
     }
   });
 
+  api.onReactionUpdate((data) => {
+    const tabDialogId = findMatchingTab(data.dialogId)?.dialogId;
+    if (!tabDialogId) return;
+    const cachedMsg = messageCache[tabDialogId]?.find((m) => m.id === data.messageId);
+    if (cachedMsg) cachedMsg.reactions = data.reactions;
+    if (tabDialogId !== selectedDialogId) return;
+
+    const msgEl = messagesScrollEl.querySelector(`.message[data-msg-id="${data.messageId}"]`);
+    if (!msgEl) return;
+    msgEl.querySelector('.reactions')?.remove();
+    const html = renderReactions(data.reactions);
+    if (html) msgEl.querySelector('.time')?.insertAdjacentHTML('beforebegin', html);
+  });
+
   api.onUnreadCountsUpdated((counts) => {
     unreadCounts = counts;
     updateTabActive();
@@ -1,5 +1,5 @@
 // preload.ts — Secure IPC bridge via contextBridge
-import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent, webUtils } from 'electron';
 import {
   TelegramMessage,
   TelegramUser,
@@ -11,6 +11,10 @@ import {
   BubbleInitData,
   BubbleUpdateData,
   NewMessageEvent,
+  ReactionChip,
+  MediaThumb,
+  PollInfo,
+  BotCallbackAnswer,
 } from './types';
 
 contextBridge.exposeInMainWorld('oceangram', {
@@ -21,14 +25,26 @@ contextBridge.exposeInMainWorld('oceangram', {
     ipcRenderer.invoke('send-message', dialogId, text, replyTo),
   sendFile: (dialogId: string, data: string, fileName: string, mimeType?: string, caption?: string): Promise<unknown> =>
     ipcRenderer.invoke('send-file', dialogId, data, fileName, mimeType, caption),
+  sendFilePath: (dialogId: string, filePath: string, mimeType?: string, caption?: string): Promise<unknown> =>
+    ipcRenderer.invoke('send-file-path', dialogId, filePath, mimeType, caption),
+  // Path of a dropped file; empty for pasted or generated files
+  getPathForFile: (file: File): string => webUtils.getPathForFile(file),
+  votePoll: (dialogId: string, messageId: number, options: string[]): Promise<PollInfo | null> =>
+    ipcRenderer.invoke('vote-poll', dialogId, messageId, options),
+  closePoll: (dialogId: string, messageId: number): Promise<PollInfo | null> =>
+    ipcRenderer.invoke('close-poll', dialogId, messageId),
+  pressBotButton: (dialogId: string, messageId: number, data?: string, game?: boolean): Promise<BotCallbackAnswer | null> =>
+    ipcRenderer.invoke('press-bot-button', dialogId, messageId, data, game),
   markRead: (dialogId: string, messageId?: number): Promise<boolean> =>
     ipcRenderer.invoke('mark-read', dialogId, messageId),
   getDialogInfo: (dialogId: string): Promise<TelegramDialog | null> =>
     ipcRenderer.invoke('get-dialog-info', dialogId),
   getProfilePhoto: (userId: string): Promise<string | null> =>
     ipcRenderer.invoke('get-profile-photo', userId),
-  getMedia: (dialogId: string, messageId: number): Promise<string | null> =>
-    ipcRenderer.invoke('get-media', dialogId, messageId),
+  getMedia: (dialogId: string, messageId: number, thumb?: MediaThumb): Promise<string | null> =>
+    ipcRenderer.invoke('get-media', dialogId, messageId, thumb),
+  getMediaUrl: (dialogId: string, messageId: number, thumb?: MediaThumb): Promise<string> =>
+    ipcRenderer.invoke('get-media-url', dialogId, messageId, thumb),
   getMembers: (dialogId: string, limit?: number, q?: string): Promise<{ members: Array<{ userId: string; firstName: string; lastName: string; username: string; role: string }>; count: number } | null> =>
     ipcRenderer.invoke('get-members', dialogId, limit, q),
   closePopup: (): void => ipcRenderer.send('close-popup'),
@@ -85,6 +101,18 @@ contextBridge.exposeInMainWorld('oceangram', {
   onTyping: (cb: (data: { dialogId: string; userId: string; action: string }) => void): void => {
     ipcRenderer.on('typing', (_: IpcRendererEvent, data: { dialogId: string; userId: string; action: string }) => cb(data));
   },
+  onReactionUpdate: (cb: (data: { dialogId: string; messageId: number; reactions: ReactionChip[] }) => void): void => {
+    ipcRenderer.on('reaction-update', (_: IpcRendererEvent, data: { dialogId: string; messageId: number; reactions: ReactionChip[] }) => cb(data));
+  },
+  onPollUpdate: (cb: (data: { dialogId: string; messageId: number; poll: PollInfo }) => void): void => {
+    ipcRenderer.on('poll-update', (_: IpcRendererEvent, data: { dialogId: string; messageId: number; poll: PollInfo }) => cb(data));
+  },
+  onMessageEdited: (cb: (data: { dialogId: string; message: TelegramMessage }) => void): void => {
+    ipcRenderer.on('message-edited', (_: IpcRendererEvent, data: { dialogId: string; message: TelegramMessage }) => cb(data));
+  },
+  onUploadProgress: (cb: (data: { dialogId: string; fraction: number }) => void): void => {
+    ipcRenderer.on('upload-progress', (_: IpcRendererEvent, data: { dialogId: string; fraction: number }) => cb(data));
+  },
   // Debug: check if WS is connected
   getDaemonWsStatus: (): Promise<{ connected: boolean; wsUrl: string }> =>
     ipcRenderer.invoke('get-daemon-ws-status'),
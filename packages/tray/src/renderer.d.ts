@@ -10,6 +10,10 @@ import {
   BubbleInitData,
   BubbleUpdateData,
   NewMessageEvent,
+  ReactionChip,
+  MediaThumb,
+  PollInfo,
+  BotCallbackAnswer,
 } from './types';
 
 interface GitHubPR {
@@ -33,10 +37,18 @@ interface OceangramAPI {
   getMessages(dialogId: string, limit?: number, offsetId?: number): Promise<TelegramMessage[]>;
   sendMessage(dialogId: string, text: string, replyTo?: number): Promise<unknown>;
   sendFile(dialogId: string, data: string, fileName: string, mimeType?: string, caption?: string): Promise<unknown>;
+  sendFilePath(dialogId: string, filePath: string, mimeType?: string, caption?: string): Promise<unknown>;
+  getPathForFile(file: File): string;
+  /** An empty `options` list takes the vote back */
+  votePoll(dialogId: string, messageId: number, options: string[]): Promise<PollInfo | null>;
+  closePoll(dialogId: string, messageId: number): Promise<PollInfo | null>;
+  /** Press an inline keyboard button; null when the bot didn't answer */
+  pressBotButton(dialogId: string, messageId: number, data?: string, game?: boolean): Promise<BotCallbackAnswer | null>;
   markRead(dialogId: string, messageId?: number): Promise<boolean>;
   getDialogInfo(dialogId: string): Promise<TelegramDialog | null>;
   getProfilePhoto(userId: string): Promise<string | null>;
-  getMedia(dialogId: string, messageId: number): Promise<string | null>;
+  getMedia(dialogId: string, messageId: number, thumb?: MediaThumb): Promise<string | null>;
+  getMediaUrl(dialogId: string, messageId: number, thumb?: MediaThumb): Promise<string>;
   getMembers(dialogId: string, limit?: number, q?: string): Promise<{ members: Array<{ userId: string; firstName: string; lastName: string; username: string; role: string }>; count: number } | null>;
   closePopup(): void;
 
@@ -66,6 +78,10 @@ interface OceangramAPI {
   onSelectDialog(cb: (dialogId: string) => void): void;
   onActiveChatsChanged(cb: (chats: Array<{ dialogId: string; displayName: string }>) => void): void;
   onTyping(cb: (data: { dialogId: string; userId: string; action: string }) => void): void;
+  onReactionUpdate(cb: (data: { dialogId: string; messageId: number; reactions: ReactionChip[] }) => void): void;
+  onPollUpdate(cb: (data: { dialogId: string; messageId: number; poll: PollInfo }) => void): void;
+  onMessageEdited(cb: (data: { dialogId: string; message: TelegramMessage }) => void): void;
+  onUploadProgress(cb: (data: { dialogId: string; fraction: number }) => void): void;
   getDaemonWsStatus(): Promise<{ connected: boolean; wsUrl: string }>;
   togglePin(): Promise<boolean>;
   getPinned(): Promise<boolean>;
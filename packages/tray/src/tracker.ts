@@ -7,6 +7,8 @@ import daemon from './daemon';
 import { TelegramMessage, TelegramDialog, DaemonEvent, UnreadEntry } from './types';
 
 const LAST_SEEN_FILE: string = path.join(os.homedir(), '.oceangram-tray', 'last-seen.json');
+// While the event stream is live, dialog polling only refreshes names / active-chat metadata
+const WS_POLL_INTERVAL_MS = 60_000;
 
 class MessageTracker extends EventEmitter {
   private unreads: Map<string, UnreadEntry>;
@@ -14,6 +16,7 @@ class MessageTracker extends EventEmitter {
   private pollTimer: ReturnType<typeof setInterval> | null;
   private activeChatsTimer: ReturnType<typeof setInterval> | null;
   private wsActive: boolean;
+  private lastPollAt: number;
   // Cache dialog info for display names in notifications
   private dialogNames: Map<string, string>;
   // Track when user last sent a message per dialog (for active-chats filter)
@@ -26,6 +29,7 @@ class MessageTracker extends EventEmitter {
     this.pollTimer = null;
     this.activeChatsTimer = null;
     this.wsActive = false;
+    this.lastPollAt = 0;
     this.dialogNames = new Map();
     this.lastSentTimes = new Map();
 
@@ -62,6 +66,15 @@ class MessageTracker extends EventEmitter {
       this.wsActive = false;
       console.log('[tracker] WS lost, polling mode');
     });
+    daemon.on('resync', () => {
+      console.log('[tracker] Event replay incomplete, resyncing dialogs');
+      this._poll(true);
+    });
+    daemon.on('account-changed', () => {
+      this.unreads.clear();
+      this.emit('unread-count-changed');
+      this._poll(true);
+    });
 
     // Start polling — fetch dialog unread counts from daemon
     this.pollTimer = setInterval(() => this._poll(), 5000);
@@ -84,8 +97,10 @@ class MessageTracker extends EventEmitter {
     this._saveLastSeen();
   }
 
-  private async _poll(): Promise<void> {
+  private async _poll(force = false): Promise<void> {
     if (!daemon.connected) return;
+    if (!force && this.wsActive && Date.now() - this.lastPollAt < WS_POLL_INTERVAL_MS) return;
+    this.lastPollAt = Date.now();
 
     try {
       // Request enough dialogs so "recently used from Telegram client" (and their forum topics) are included
@@ -19,7 +19,7 @@ export interface TelegramDialog {
   username?: string;
   type?: 'user' | 'group' | 'channel' | 'supergroup';
   unreadCount?: number;
-  lastMessage?: TelegramMessage;
+  lastMessage?: string;
   lastMessageTime?: number;
   lastMessageOutgoing?: boolean;
   photo?: string;
@@ -49,8 +49,62 @@ export interface TelegramMessage {
   dialogId?: string;
   chatId?: string;
   media?: { type: string; url?: string };
+  reactions?: ReactionChip[];
+  /** Shared by the messages of one album */
+  groupedId?: string;
+  poll?: PollInfo;
+  replyMarkup?: ReplyMarkup;
 }
 
+/** Reaction count on a message, as sent in messages and `reactionUpdate` events */
+export interface ReactionChip {
+  emoji: string;
+  customEmojiId?: string;
+  count: number;
+  isSelected?: boolean;
+}
+
+/** A poll as the daemon sends it, with results once they are known */
+export interface PollInfo {
+  id: string;
+  question: string;
+  /** `option` is base64 and identifies the answer when voting */
+  answers: { text: string; option: string; voters?: number; chosen?: boolean; correct?: boolean }[];
+  closed: boolean;
+  quiz: boolean;
+  multipleChoice: boolean;
+  publicVoters: boolean;
+  totalVoters?: number;
+  solution?: string;
+}
+
+/** A bot's inline or reply keyboard */
+export interface ReplyMarkup {
+  type: string;
+  rows?: KeyboardButton[][];
+}
+
+export interface KeyboardButton {
+  /** `callback`, `game`, `url`, `text`, `copy` and others the popup shows but can't press */
+  type: string;
+  text: string;
+  /** Base64 callback data */
+  data?: string;
+  url?: string;
+  copyText?: string;
+}
+
+/** What a bot answered to a button press */
+export interface BotCallbackAnswer {
+  message?: string;
+  /** Show `message` as an alert rather than a passing notice */
+  alert: boolean;
+  url?: string;
+}
+
+/** Thumbnail variant of `/media/:messageId`, by longest side: 100, 320 or 800 px */
+export type MediaThumb = 'small' | 'medium' | 'large';
+
 // ── Whitelist / Config ──
 
 export interface WhitelistEntry {
@@ -75,6 +129,7 @@ export interface AppSettings {
   openclawEnabled?: boolean;
   openclawToken?: string;
   openclawUrl?: string;
+  daemonAccount?: string;
 }
 
 export interface AppConfig {
@@ -95,20 +150,34 @@ export interface UnreadEntry {
 
 export interface DaemonEvent {
   type?: string;
+  /** Daemon-wide sequence number (absent on transient events like typing) */
+  seq?: number;
   message?: TelegramMessage;
   fromId?: number | string;
   senderId?: number | string;
   dialogId?: string;
   chatId?: string;
+  /** uploadProgress events */
+  progress?: UploadProgress;
   [key: string]: unknown;
 }
 
+export interface UploadProgress {
+  uploadId: string;
+  clientMsgId?: string;
+  /** `receiving`: bytes reaching the daemon. `sending`: bytes uploaded to Telegram. */
+  phase: 'receiving' | 'sending';
+  loaded: number;
+  total: number;
+}
+
 // ── Health Response ──
 
 export interface HealthResponse {
   status: string;
   connected: boolean;
   uptime: number;
+  accounts?: { id: string; name?: string; connected: boolean }[];
 }
 
 // ── Bubble Init Data ──